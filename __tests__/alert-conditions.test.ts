@@ -0,0 +1,255 @@
+/**
+ * Alert Condition Tests
+ *
+ * Tests for the richer alert types: the market snapshot built from a
+ * year of daily candles, each condition and its cooldown, validation of
+ * new alerts, notification copy, and the schema/router/modal wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildAlertMarketSnapshot,
+  checkAlertCondition,
+  formatAlertMessage,
+  normalizeAlertDraft,
+  PriceAlertError,
+  type AlertDraft,
+  type AlertMarketSnapshot,
+  type PriceAlert,
+} from "../server/priceAlertService";
+import type { ChartDataPoint } from "../server/marketData";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function draft(overrides: Partial<AlertDraft> = {}): AlertDraft {
+  return { stockId: "opap", stockName: "OPAP", type: "above", threshold: 16, enabled: true, ...overrides };
+}
+
+function alert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return { id: "1", lastTriggered: null, createdAt: 0, ...draft(), referencePrice: null, channels: ["push"], ...overrides };
+}
+
+function market(price: number, overrides: Partial<AlertMarketSnapshot> = {}): AlertMarketSnapshot {
+  return {
+    price,
+    previousClose: price,
+    open: null,
+    volume: 0,
+    averageVolume: null,
+    sma: {},
+    priorHigh52w: null,
+    priorLow52w: null,
+    ...overrides,
+  };
+}
+
+/** `count` daily candles ending the day before `now`, closing at 10, 11, 12… */
+function dailyCandles(count: number, now: Date): ChartDataPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const close = 10 + i;
+    return {
+      timestamp: Math.floor(now.getTime() / 1000) - (count - i) * 86_400,
+      open: close,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000 * (i + 1),
+    };
+  });
+}
+
+const NOW = new Date("2026-10-14T10:00:00Z");
+
+// ─── Market Snapshot ────────────────────────────────────────────────────────
+
+describe("buildAlertMarketSnapshot", () => {
+  it("should average closes and volumes from the sessions before today", () => {
+    const candles = dailyCandles(60, NOW);
+    const snapshot = buildAlertMarketSnapshot({ price: 80, previousClose: 69, volume: 500 }, candles, NOW);
+
+    // Last 49 prior closes are 21…69, plus today's price
+    expect(snapshot.sma[50]).toBeCloseTo((49 * 45 + 80) / 50);
+    expect(snapshot.sma[200]).toBeNull();
+    // Last 20 volumes are 41 000…60 000
+    expect(snapshot.averageVolume).toBeCloseTo(50_500);
+    expect(snapshot.priorHigh52w).toBe(69.5);
+    expect(snapshot.priorLow52w).toBe(9.5);
+    expect(snapshot.open).toBeNull();
+  });
+
+  it("should take the open from today's candle and leave it out of the ranges", () => {
+    const today: ChartDataPoint = {
+      timestamp: Math.floor(NOW.getTime() / 1000) - 3600,
+      open: 30,
+      high: 99,
+      low: 1,
+      close: 31,
+      volume: 10,
+    };
+    const snapshot = buildAlertMarketSnapshot(
+      { price: 31, previousClose: 29, volume: 10 },
+      [...dailyCandles(20, NOW), today],
+      NOW
+    );
+    expect(snapshot.open).toBe(30);
+    expect(snapshot.priorHigh52w).toBe(29.5);
+    expect(snapshot.priorLow52w).toBe(9.5);
+  });
+
+  it("should leave history-based fields empty without candles", () => {
+    const snapshot = buildAlertMarketSnapshot({ price: 12, previousClose: 11, volume: 100 }, null, NOW);
+    expect(snapshot).toMatchObject({ price: 12, previousClose: 11, open: null, averageVolume: null });
+    expect(snapshot.sma[50]).toBeNull();
+    expect(snapshot.priorHigh52w).toBeNull();
+  });
+});
+
+// ─── Conditions ─────────────────────────────────────────────────────────────
+
+describe("checkAlertCondition", () => {
+  const now = NOW.getTime();
+
+  it("should measure percent change from the previous close", () => {
+    const rule = alert({ type: "percent_change", threshold: 5 });
+    expect(checkAlertCondition(rule, market(10.6, { previousClose: 10 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(rule, market(9.4, { previousClose: 10 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(rule, market(10.4, { previousClose: 10 }), undefined, now)).toBe(false);
+  });
+
+  it("should measure a move from the reference price", () => {
+    const rule = alert({ type: "percent_from_reference", threshold: 10, referencePrice: 20 });
+    expect(checkAlertCondition(rule, market(22, { previousClose: 21.9 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(rule, market(18.5, { previousClose: 18.4 }), undefined, now)).toBe(false);
+  });
+
+  it("should fire a cross below only when the price crosses the average", () => {
+    const rule = alert({ type: "sma_cross_below", threshold: 200 });
+    expect(checkAlertCondition(rule, market(9.9, { sma: { 200: 10 } }), 10.1, now)).toBe(true);
+    expect(checkAlertCondition(rule, market(9.9, { sma: { 200: 10 } }), 9.95, now)).toBe(false);
+    expect(checkAlertCondition(rule, market(9.9, { sma: { 200: null } }), 10.1, now)).toBe(false);
+  });
+
+  it("should compare volume with a multiple of the average", () => {
+    const rule = alert({ type: "volume_spike", threshold: 3 });
+    expect(checkAlertCondition(rule, market(10, { volume: 3000, averageVolume: 1000 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(rule, market(10, { volume: 2999, averageVolume: 1000 }), undefined, now)).toBe(false);
+    expect(checkAlertCondition(rule, market(10, { volume: 3000 }), undefined, now)).toBe(false);
+  });
+
+  it("should fire past the previous 52-week range", () => {
+    const high = alert({ type: "high_52w", threshold: 0 });
+    const low = alert({ type: "low_52w", threshold: 0 });
+    const range = { priorHigh52w: 20, priorLow52w: 8 };
+    expect(checkAlertCondition(high, market(20.1, range), undefined, now)).toBe(true);
+    expect(checkAlertCondition(high, market(20, range), undefined, now)).toBe(false);
+    expect(checkAlertCondition(low, market(7.9, range), undefined, now)).toBe(true);
+  });
+
+  it("should compare the open with the previous close for gaps", () => {
+    const up = alert({ type: "gap_up", threshold: 2 });
+    const down = alert({ type: "gap_down", threshold: 2 });
+    expect(checkAlertCondition(up, market(10.1, { previousClose: 10, open: 10.25 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(down, market(10.1, { previousClose: 10, open: 10.25 }), undefined, now)).toBe(false);
+    expect(checkAlertCondition(down, market(9.5, { previousClose: 10, open: 9.7 }), undefined, now)).toBe(true);
+    expect(checkAlertCondition(up, market(10.3, { previousClose: 10 }), undefined, now)).toBe(false);
+  });
+
+  it("should fire session conditions once per Athens trading day", () => {
+    const gap = market(10.3, { previousClose: 10, open: 10.3 });
+    const earlier = Date.parse("2026-10-14T07:30:00Z");
+    const yesterday = Date.parse("2026-10-13T14:00:00Z");
+    expect(checkAlertCondition(alert({ type: "gap_up", threshold: 2, lastTriggered: earlier }), gap, undefined, now)).toBe(false);
+    expect(checkAlertCondition(alert({ type: "gap_up", threshold: 2, lastTriggered: yesterday }), gap, undefined, now)).toBe(true);
+  });
+});
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+describe("normalizeAlertDraft", () => {
+  it("should reject thresholds the type can't use", () => {
+    expect(() => normalizeAlertDraft(draft({ type: "sma_cross_above", threshold: 100 }))).toThrow(PriceAlertError);
+    expect(() => normalizeAlertDraft(draft({ type: "volume_spike", threshold: 1 }))).toThrow(PriceAlertError);
+    expect(() => normalizeAlertDraft(draft({ type: "percent_from_reference", threshold: 5 }))).toThrow(
+      PriceAlertError
+    );
+    expect(() => normalizeAlertDraft(draft({ type: "above", threshold: 0 }))).toThrow(PriceAlertError);
+  });
+
+  it("should drop what the type doesn't use", () => {
+    expect(normalizeAlertDraft(draft({ type: "high_52w", threshold: 12, referencePrice: 3 }))).toMatchObject({
+      threshold: 0,
+      referencePrice: null,
+    });
+    expect(normalizeAlertDraft(draft({ type: "above", referencePrice: 3 })).referencePrice).toBeNull();
+    expect(
+      normalizeAlertDraft(draft({ type: "percent_from_reference", threshold: 5, referencePrice: 14 })).referencePrice
+    ).toBe(14);
+  });
+});
+
+// ─── Messages ───────────────────────────────────────────────────────────────
+
+describe("formatAlertMessage", () => {
+  it("should describe each condition", () => {
+    const cross = formatAlertMessage(alert({ type: "sma_cross_above", threshold: 50 }), market(10.5, { sma: { 50: 10.2 } }));
+    expect(cross.title).toBe("📈 OPAP crossed above its 50-day average");
+    expect(cross.body).toContain("€10.20");
+    expect(cross.data?.alertType).toBe("sma_cross_above");
+
+    const gap = formatAlertMessage(alert({ type: "gap_down", threshold: 2 }), market(9.6, { previousClose: 10, open: 9.7 }));
+    expect(gap.title).toBe("⬇️ OPAP gapped down 3.0%");
+
+    const spike = formatAlertMessage(
+      alert({ type: "volume_spike", threshold: 3 }),
+      market(10, { volume: 4000, averageVolume: 1000 })
+    );
+    expect(spike.body).toContain("4.0× the 20-day average");
+
+    const reference = formatAlertMessage(
+      alert({ type: "percent_from_reference", threshold: 10, referencePrice: 20 }),
+      market(22)
+    );
+    expect(reference.body).toContain("+10.0% from your reference of €20.00");
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("alert type wiring", () => {
+  it("should store and accept the new alert types", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('"volume_spike"');
+    expect(schema).toContain("referencePrice:");
+
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("ADD `referencePrice`");
+
+    const router = readFile("server/notificationRouter.ts");
+    expect(router).toContain("z.enum(ALERT_TYPES)");
+  });
+
+  it("should fetch a year of daily history only for alerts that need it", () => {
+    const stockService = readFile("server/stockService.ts");
+    expect(stockService).toContain("export async function getDailyHistory(");
+
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).toContain("NEEDS_HISTORY.has(a.type)");
+  });
+
+  it("should offer every alert type in the modal", () => {
+    const modal = readFile("components/ui/add-alert-modal.tsx");
+    for (const type of ["percent_from_reference", "sma_cross_above", "volume_spike", "high_52w", "gap_up"]) {
+      expect(modal).toContain(`"${type}"`);
+    }
+    expect(modal).toContain("referencePrice: reference");
+  });
+});
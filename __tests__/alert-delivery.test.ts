@@ -0,0 +1,543 @@
+/**
+ * Alert Delivery Tests
+ *
+ * Tests for the delivery layer: channel selection, retry with backoff, the
+ * delivery queue, webhook signatures and host checks, the email and webhook transports against the local
+ * stand-ins, where an owner's notifications go, email confirmation codes,
+ * the test delivery limit, and the schema/router/screen wiring.
+ */
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildEmailMessage,
+  createDeliveryQueue,
+  createEmailTransport,
+  createWebhookTransport,
+  deliver,
+  DeliveryError,
+  describeTarget,
+  isPublicAddress,
+  resolveWebhookHost,
+  retryDelay,
+  setDeliveryTransports,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type DeliveryTransport,
+  type HostLookup,
+} from "../server/alertDelivery";
+import {
+  startSmtpStandIn,
+  startWebhookStandIn,
+  type SmtpStandIn,
+  type WebhookStandIn,
+} from "../server/alertDeliveryStandIn";
+import {
+  checkEmailCode,
+  claimTestDelivery,
+  DEFAULT_PREFERENCES,
+  deliveriesSettled,
+  normalizeAlertChannels,
+  normalizeWebhookUrl,
+  notifyOwner,
+  planDeliveryTargets,
+  PriceAlertError,
+  type AlertRecipient,
+} from "../server/priceAlertService";
+import { resolveAlertChannels, type AlertChannel } from "../shared/alertDelivery";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+const message = {
+  title: "🔔 ETE dip on volume",
+  body: "ETE below €14.00 (now €13.50).",
+  data: { ruleId: "7", type: "alert_rule" },
+};
+
+/** Resolves every name to `addresses` */
+function lookupTo(...addresses: string[]): HostLookup {
+  return async () => addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 }));
+}
+
+/** A transport that fails with each of `errors` in turn, then succeeds */
+function flakyTransport(errors: Error[]): DeliveryTransport & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    channel: "webhook",
+    calls,
+    async send(_target, _message, deliveryId) {
+      calls.push(deliveryId);
+      const error = errors[calls.length - 1];
+      if (error) throw error;
+    },
+  };
+}
+
+// ─── Channels & Retry ───────────────────────────────────────────────────────
+
+describe("resolveAlertChannels", () => {
+  it("keeps known channels in order without repeats", () => {
+    expect(resolveAlertChannels(["webhook", "push", "webhook"])).toEqual(["push", "webhook"]);
+  });
+
+  it("falls back to push", () => {
+    expect(resolveAlertChannels(null)).toEqual(["push"]);
+    expect(resolveAlertChannels([])).toEqual(["push"]);
+  });
+});
+
+describe("deliver", () => {
+  const target = { channel: "webhook" as const, address: "https://bots.example/hook?token=abc", secret: "s" };
+
+  it("doubles the wait before each retry", () => {
+    expect([1, 2, 3].map((retry) => retryDelay(retry, 1000))).toEqual([1000, 2000, 4000]);
+  });
+
+  it("retries temporary failures with the same delivery ID", async () => {
+    const transport = flakyTransport([new DeliveryError("Webhook returned 503", true)]);
+    const result = await deliver(transport, target, message, { baseDelayMs: 1 });
+    expect(result).toMatchObject({ status: "sent", attempts: 2, error: null });
+    expect(new Set(transport.calls).size).toBe(1);
+  });
+
+  it("stops at a permanent failure", async () => {
+    const transport = flakyTransport([new DeliveryError("Webhook returned 404", false)]);
+    const result = await deliver(transport, target, message, { baseDelayMs: 1 });
+    expect(result).toMatchObject({ status: "failed", attempts: 1, error: "Webhook returned 404" });
+  });
+
+  it("gives up after the last attempt", async () => {
+    const down = new DeliveryError("Webhook returned 503", true);
+    const transport = flakyTransport([down, down, down, down]);
+    const result = await deliver(transport, target, message, { attempts: 3, baseDelayMs: 1 });
+    expect(result).toMatchObject({ status: "failed", attempts: 3 });
+  });
+
+  it("keeps secrets out of the logged target", () => {
+    expect(describeTarget(target)).toBe("https://bots.example");
+    expect(describeTarget({ channel: "push", address: "ExponentPushToken[abcdef123456]" })).toBe("…23456]");
+  });
+});
+
+// ─── Queue ──────────────────────────────────────────────────────────────────
+
+describe("delivery queue", () => {
+  afterEach(() => {
+    setDeliveryTransports(null);
+    vi.restoreAllMocks();
+  });
+
+  it("runs a few jobs at a time and settles when they're done", async () => {
+    const queue = createDeliveryQueue(2);
+    let running = 0;
+    let most = 0;
+    for (let i = 0; i < 5; i++) {
+      queue.push(async () => {
+        running++;
+        most = Math.max(most, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      });
+    }
+    expect(queue.size).toBe(5);
+    await queue.idle();
+    expect(most).toBe(2);
+    expect(queue.size).toBe(0);
+  });
+
+  it("drops jobs past its limit instead of piling them up", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const queue = createDeliveryQueue(1, 1);
+    let ran = 0;
+    const job = async () => {
+      ran++;
+    };
+    queue.push(job);
+    queue.push(job);
+    queue.push(job);
+    await queue.idle();
+    expect(ran).toBe(2);
+  });
+
+  it("queues an owner's notification without waiting when every transport fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const attempts: string[] = [];
+    const failing = (channel: AlertChannel): DeliveryTransport => ({
+      channel,
+      async send() {
+        attempts.push(channel);
+        throw new DeliveryError(`${channel} is down`, false);
+      },
+    });
+    setDeliveryTransports({ push: failing("push"), email: failing("email"), webhook: failing("webhook") });
+    const recipient: AlertRecipient = {
+      owner: { userId: 1 },
+      pushTokens: ["ExponentPushToken[phone]"],
+      preferences: DEFAULT_PREFERENCES,
+      destination: {
+        email: "maria@example.com",
+        emailVerified: true,
+        webhookUrl: "https://bots.example/hook",
+        webhookSecret: "s",
+      },
+    };
+
+    const queued = notifyOwner(recipient, message, ["push", "email", "webhook"], { ruleId: 7 });
+    expect(queued).toBe(3);
+    await deliveriesSettled();
+    expect(attempts.sort()).toEqual(["email", "push", "webhook"]);
+  });
+});
+
+// ─── Webhooks ───────────────────────────────────────────────────────────────
+
+describe("webhook signatures", () => {
+  it("verifies the body it signed and nothing else", () => {
+    const signature = signWebhookPayload("secret", 1_760_000_000, '{"a":1}');
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature("secret", 1_760_000_000, '{"a":1}', signature)).toBe(true);
+    expect(verifyWebhookSignature("secret", 1_760_000_000, '{"a":2}', signature)).toBe(false);
+    expect(verifyWebhookSignature("other", 1_760_000_000, '{"a":1}', signature)).toBe(false);
+    expect(verifyWebhookSignature("secret", 1_760_000_001, '{"a":1}', signature)).toBe(false);
+  });
+});
+
+describe("webhook hosts", () => {
+  it("only counts public addresses", () => {
+    for (const address of ["8.8.8.8", "151.101.1.69", "2a00:1450:4001:80b::200e"]) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fd00:ec2::254",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "not an address",
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+
+  it("refuses internal names without looking them up", async () => {
+    const lookup = vi.fn(lookupTo("8.8.8.8"));
+    for (const url of [
+      "http://localhost:3000/hook",
+      "http://LOCALHOST./hook",
+      "http://metadata.google.internal/computeMetadata/v1/",
+      "http://redis/hook",
+      "http://printer.local/hook",
+    ]) {
+      await expect(resolveWebhookHost(new URL(url), lookup)).rejects.toMatchObject({ retryable: false });
+    }
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it("refuses private IPs and names that resolve to them", async () => {
+    await expect(resolveWebhookHost(new URL("http://169.254.169.254/latest/meta-data/"))).rejects.toThrow(/private/);
+    await expect(resolveWebhookHost(new URL("http://[::ffff:7f00:1]/hook"))).rejects.toThrow(/private/);
+    await expect(
+      resolveWebhookHost(new URL("https://bots.example/hook"), lookupTo("93.184.216.34", "10.0.0.5"))
+    ).rejects.toThrow(/private/);
+    await expect(resolveWebhookHost(new URL("https://bots.example/hook"), lookupTo("93.184.216.34"))).resolves.toEqual([
+      { address: "93.184.216.34", family: 4 },
+    ]);
+  });
+
+  it("treats a failed lookup as temporary", async () => {
+    const failing: HostLookup = async () => {
+      throw new Error("getaddrinfo ENOTFOUND bots.example");
+    };
+    await expect(resolveWebhookHost(new URL("https://bots.example/hook"), failing)).rejects.toMatchObject({
+      retryable: true,
+    });
+  });
+});
+
+describe("webhook transport", () => {
+  let standIn: WebhookStandIn;
+
+  beforeAll(async () => {
+    standIn = await startWebhookStandIn({ failures: 1 });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  it("posts a signed payload, retrying a temporary failure", async () => {
+    const target = { channel: "webhook" as const, address: standIn.url, secret: "hook-secret" };
+    const result = await deliver(createWebhookTransport({ allowPrivateHosts: true }), target, message, { baseDelayMs: 1 });
+    expect(result).toMatchObject({ status: "sent", attempts: 2 });
+
+    const [request] = standIn.requests();
+    const timestamp = Number(request.headers["x-agrx-timestamp"]);
+    expect(verifyWebhookSignature("hook-secret", timestamp, request.body, request.headers["x-agrx-signature"])).toBe(
+      true
+    );
+    expect(JSON.parse(request.body)).toMatchObject({
+      id: request.headers["x-agrx-delivery"],
+      event: "alert_rule",
+      title: message.title,
+      body: message.body,
+      data: message.data,
+    });
+  });
+
+  it("re-checks the host on every send", async () => {
+    const sent = standIn.requests().length;
+    const rebound = createWebhookTransport({ lookup: lookupTo("127.0.0.1") });
+    const viaName = await deliver(
+      rebound,
+      { channel: "webhook", address: standIn.url.replace("127.0.0.1", "hooks.example.com"), secret: "s" },
+      message,
+      { baseDelayMs: 1 }
+    );
+    expect(viaName).toMatchObject({ status: "failed", attempts: 1 });
+    const direct = await deliver(createWebhookTransport(), { channel: "webhook", address: standIn.url, secret: "s" }, message, {
+      baseDelayMs: 1,
+    });
+    expect(direct).toMatchObject({ status: "failed", attempts: 1 });
+    expect(standIn.requests()).toHaveLength(sent);
+  });
+
+  it("refuses to send without a secret", async () => {
+    const result = await deliver(createWebhookTransport({ allowPrivateHosts: true }), { channel: "webhook", address: standIn.url }, message, {
+      baseDelayMs: 1,
+    });
+    expect(result).toMatchObject({ status: "failed", attempts: 1 });
+  });
+});
+
+// ─── Email ──────────────────────────────────────────────────────────────────
+
+describe("email transport", () => {
+  let standIn: SmtpStandIn;
+
+  beforeAll(async () => {
+    standIn = await startSmtpStandIn({ failures: 1 });
+  });
+
+  afterAll(async () => {
+    await standIn.close();
+  });
+
+  it("encodes the subject and body and keeps headers on one line", () => {
+    const raw = buildEmailMessage({
+      from: "AGRX Alerts <alerts@agrx.app>",
+      to: "maria@example.com\r\nBcc: evil@example.com",
+      subject: "🔔 ETE\r\nBcc: evil@example.com",
+      text: "Line one\nLine two",
+      date: new Date("2026-03-10T11:00:00Z"),
+    });
+    expect(raw).not.toMatch(/^Bcc:/m);
+    expect(raw).toContain("Subject: =?UTF-8?B?");
+    expect(raw).toContain("Content-Transfer-Encoding: base64");
+    expect(raw).toContain("Date: Tue, 10 Mar 2026 11:00:00 GMT");
+  });
+
+  it("sends over SMTP, retrying a temporary refusal", async () => {
+    const transport = createEmailTransport(standIn.url.replace("smtp://", "smtp://alerts:p%40ss@"));
+    const result = await deliver(transport, { channel: "email", address: "maria@example.com" }, message, {
+      baseDelayMs: 1,
+    });
+    expect(result).toMatchObject({ status: "sent", attempts: 2, target: "maria@example.com" });
+
+    const [email] = standIn.messages();
+    expect(email.from).toBe("alerts@agrx.app");
+    expect(email.to).toEqual(["maria@example.com"]);
+    expect(email.subject).toBe(message.title);
+    expect(email.text).toContain(message.body);
+  });
+
+  it("treats a closed port as temporary", async () => {
+    const closed = await startSmtpStandIn();
+    await closed.close();
+    const result = await deliver(createEmailTransport(closed.url), { channel: "email", address: "a@b.gr" }, message, {
+      attempts: 2,
+      baseDelayMs: 1,
+    });
+    expect(result).toMatchObject({ status: "failed", attempts: 2 });
+  });
+});
+
+// ─── Targets ────────────────────────────────────────────────────────────────
+
+describe("planDeliveryTargets", () => {
+  const recipient: AlertRecipient = {
+    owner: { userId: 1 },
+    pushTokens: ["ExponentPushToken[phone]", "ExponentPushToken[tablet]"],
+    preferences: DEFAULT_PREFERENCES,
+    destination: {
+      email: "maria@example.com",
+      emailVerified: true,
+      webhookUrl: "https://bots.example/hook",
+      webhookSecret: "s",
+    },
+  };
+
+  it("sends push to every device and email/webhook once", () => {
+    const targets = planDeliveryTargets(recipient, ["push", "email", "webhook"]);
+    expect(targets.map((t) => t.channel)).toEqual(["push", "push", "email", "webhook"]);
+    expect(targets[3]).toMatchObject({ address: "https://bots.example/hook", secret: "s" });
+  });
+
+  it("only uses the alert's channels", () => {
+    expect(planDeliveryTargets(recipient, ["email"])).toEqual([{ channel: "email", address: "maria@example.com" }]);
+  });
+
+  it("skips channels with nowhere to go", () => {
+    const webOnly: AlertRecipient = { ...recipient, pushTokens: [], destination: null };
+    expect(planDeliveryTargets(webOnly, ["push", "email", "webhook"])).toEqual([]);
+  });
+
+  it("doesn't email an address that hasn't been confirmed", () => {
+    const unconfirmed: AlertRecipient = { ...recipient, destination: { ...recipient.destination!, emailVerified: false } };
+    expect(planDeliveryTargets(unconfirmed, ["email"])).toEqual([]);
+  });
+});
+
+// ─── Email Confirmation ─────────────────────────────────────────────────────
+
+describe("email confirmation codes", () => {
+  const sentAt = new Date("2026-10-19T09:00:00Z");
+  const pending = {
+    emailCodeHash: crypto.createHash("sha256").update("042917").digest("hex"),
+    emailCodeSentAt: sentAt,
+    emailCodeAttempts: 1,
+  };
+  const soon = sentAt.getTime() + 60_000;
+
+  it("accepts the code that was sent", () => {
+    expect(checkEmailCode(pending, "042917", soon)).toBeNull();
+    expect(checkEmailCode(pending, " 042917 ", soon)).toBeNull();
+  });
+
+  it("refuses a wrong or expired code", () => {
+    expect(checkEmailCode(pending, "042918", soon)).toMatch(/isn't right/);
+    expect(checkEmailCode(pending, "042917", sentAt.getTime() + 31 * 60_000)).toMatch(/expired/);
+  });
+
+  it("refuses every code after too many guesses", () => {
+    expect(checkEmailCode({ ...pending, emailCodeAttempts: 6 }, "042917", soon)).toMatch(/Too many/);
+  });
+
+  it("needs a code to have been sent", () => {
+    expect(checkEmailCode({ ...pending, emailCodeHash: null }, "042917", soon)).toMatch(/Send a code/);
+  });
+});
+
+describe("test delivery limit", () => {
+  it("allows one test per channel a minute", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      await claimTestDelivery(901, "email");
+      await expect(claimTestDelivery(901, "email")).rejects.toThrow(/Wait \d+s before you send another test email/);
+      await claimTestDelivery(901, "webhook");
+      await claimTestDelivery(902, "email");
+
+      vi.setSystemTime(Date.now() + 61_000);
+      await claimTestDelivery(901, "email");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("channel and webhook validation", () => {
+  it("keeps email and webhooks for signed-in owners", () => {
+    expect(normalizeAlertChannels({ userId: 1 }, ["webhook", "push"])).toEqual(["push", "webhook"]);
+    expect(normalizeAlertChannels({ deviceId: "agrx-1" }, undefined)).toEqual(["push"]);
+    expect(() => normalizeAlertChannels({ deviceId: "agrx-1" }, ["email"])).toThrow(PriceAlertError);
+  });
+
+  it("needs https in production", async () => {
+    const lookup = lookupTo("93.184.216.34");
+    expect(await normalizeWebhookUrl("https://bots.example/hook", true, lookup)).toBe("https://bots.example/hook");
+    await expect(normalizeWebhookUrl("http://bots.example/hook", true, lookup)).rejects.toThrow(/https/);
+    expect(await normalizeWebhookUrl("http://127.0.0.1:8025/hooks/agrx", false)).toBe(
+      "http://127.0.0.1:8025/hooks/agrx"
+    );
+    await expect(normalizeWebhookUrl("https://user:pw@bots.example/hook", true, lookup)).rejects.toThrow(
+      PriceAlertError
+    );
+    await expect(normalizeWebhookUrl("bots.example", true, lookup)).rejects.toThrow(PriceAlertError);
+  });
+
+  it("refuses private and internal hosts in production", async () => {
+    for (const url of [
+      "https://127.0.0.1/hook",
+      "https://169.254.169.254/latest/meta-data/",
+      "https://localhost/hook",
+      "https://metadata.google.internal/",
+    ]) {
+      await expect(normalizeWebhookUrl(url, true)).rejects.toThrow(/public host/);
+    }
+    await expect(normalizeWebhookUrl("https://bots.example/hook", true, lookupTo("192.168.1.20"))).rejects.toThrow(
+      /public host/
+    );
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("alert delivery wiring", () => {
+  it("stores channels, destinations and the delivery log", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('channels: json("channels").$type<AlertChannel[]>()');
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("CREATE TABLE `alert_destinations`");
+    expect(migrations).toContain("CREATE TABLE `alert_deliveries`");
+    expect(migrations).toContain("ALTER TABLE `alert_destinations` ADD `emailVerifiedAt` timestamp");
+  });
+
+  it("delivers alerts and rules on their channels", () => {
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).toContain("notifyOwner(owner, formatAlertMessage(alert, market), alert.channels");
+    expect(service).toContain("notifyOwner(owner, formatRuleMessage(rule, context), rule.channels");
+    expect(service).toContain("insertAlertDeliveries(");
+  });
+
+  it("starts the cooldown whether or not delivery works", () => {
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).not.toContain("await notifyOwner(");
+    expect(service).not.toContain("if (delivered > 0)");
+    expect(service).toContain("await markPriceAlertTriggered(row.id, new Date())");
+    expect(service).toContain("await markAlertRuleTriggered(row.id, new Date())");
+  });
+
+  it("exposes delivery settings to signed-in users", () => {
+    const router = readFile("server/notificationRouter.ts");
+    expect(router).toContain("updateDeliverySettings: protectedProcedure");
+    expect(router).toContain("sendTestDelivery: protectedProcedure");
+    expect(router).toContain("getDeliveries: protectedProcedure");
+    expect(router).toContain("verifyEmail: protectedProcedure");
+    expect(router).toContain("resendEmailCode: protectedProcedure");
+    expect(readFile("package.json")).toContain('"delivery:standin": "tsx scripts/delivery-stand-in.ts"');
+  });
+
+  it("lets users pick channels and manage delivery on the Price Alerts screen", () => {
+    const screen = readFile("app/price-alerts.tsx");
+    expect(screen).toContain("<DeliverySettingsModal");
+    expect(screen).toContain("setPriceAlertChannels(item.id, channels)");
+    expect(readFile("components/ui/add-alert-modal.tsx")).toContain("<AlertChannelPicker");
+    expect(readFile("components/ui/add-rule-modal.tsx")).toContain("<AlertChannelPicker");
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Alert Ownership Tests
+ *
+ * Tests for user-owned alerts: adopting an anonymous device's alerts on
+ * sign-in, who may claim a registered device, keeping device-scoped
+ * requests away from linked devices, and
+ * the schema/router/client wiring for accounts with several devices.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  checkDeviceClaim,
+  getPreferences,
+  MAX_ALERTS,
+  planAlertAdoption,
+  unregisterDevice,
+  type AlertDraft,
+} from "../server/priceAlertService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function draft(overrides: Partial<AlertDraft> = {}): AlertDraft {
+  return { stockId: "opap", stockName: "OPAP", type: "above", threshold: 16, enabled: true, ...overrides };
+}
+
+function row(id: number, overrides: Partial<AlertDraft> = {}) {
+  return { id, ...draft(overrides) };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ─── Adoption ───────────────────────────────────────────────────────────────
+
+describe("planAlertAdoption", () => {
+  it("should adopt all of a device's alerts for a user with none", () => {
+    const plan = planAlertAdoption([], [row(1), row(2, { stockId: "ete", stockName: "ETE" })]);
+    expect(plan.adopt.map((a) => a.id)).toEqual([1, 2]);
+    expect(plan.drop).toEqual([]);
+  });
+
+  it("should drop alerts the user already has", () => {
+    const plan = planAlertAdoption([draft()], [row(1), row(2, { threshold: 18 }), row(3, { threshold: 18 })]);
+    expect(plan.adopt.map((a) => a.id)).toEqual([2]);
+    expect(plan.drop.map((a) => a.id)).toEqual([1, 3]);
+  });
+
+  it("should stop at the alert limit", () => {
+    const userAlerts = Array.from({ length: MAX_ALERTS - 1 }, (_, i) => draft({ threshold: 100 + i }));
+    const plan = planAlertAdoption(userAlerts, [row(1), row(2, { threshold: 17 })]);
+    expect(plan.adopt.map((a) => a.id)).toEqual([1]);
+    expect(plan.drop.map((a) => a.id)).toEqual([2]);
+  });
+});
+
+// ─── Device Claims ──────────────────────────────────────────────────────────
+
+describe("checkDeviceClaim", () => {
+  const anonymous = { userId: null, pushToken: "ExponentPushToken[phone]" };
+  const linked = { userId: 7, pushToken: "ExponentPushToken[phone]" };
+
+  it("should let anyone register a new device", () => {
+    expect(checkDeviceClaim(undefined, null, "ExponentPushToken[any]")).toBeNull();
+    expect(checkDeviceClaim(undefined, 7, "ExponentPushToken[any]")).toBeNull();
+  });
+
+  it("should need the push token to claim an anonymous device", () => {
+    expect(checkDeviceClaim(anonymous, 7, "ExponentPushToken[phone]")).toBeNull();
+    expect(checkDeviceClaim(anonymous, null, "ExponentPushToken[phone]")).toBeNull();
+    expect(checkDeviceClaim(anonymous, 7, "ExponentPushToken[attacker]")).toMatch(/different push token/);
+    expect(checkDeviceClaim(anonymous, null, "ExponentPushToken[attacker]")).toMatch(/different push token/);
+  });
+
+  it("should keep a linked device with its user", () => {
+    expect(checkDeviceClaim(linked, 7, "ExponentPushToken[rotated]")).toBeNull();
+    expect(checkDeviceClaim(linked, 8, "ExponentPushToken[phone]")).toMatch(/another account/);
+    expect(checkDeviceClaim(linked, null, "ExponentPushToken[phone]")).toMatch(/linked to an account/);
+  });
+});
+
+// ─── Device-scoped Access ───────────────────────────────────────────────────
+
+describe("device-scoped access", () => {
+  it("should not reach devices it can't find", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await getPreferences({ deviceId: "agrx-missing" })).toBeNull();
+    expect(await unregisterDevice("agrx-missing")).toBe(false);
+  });
+
+  it("should scope anonymous queries to alerts without a user", () => {
+    const db = readFile("server/db.ts");
+    expect(db).toContain("and(eq(priceAlerts.deviceId, owner.deviceId), isNull(priceAlerts.userId))");
+
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).toContain("if (device.userId !== null) throw new PriceAlertError(LINKED_DEVICE_ERROR)");
+    expect(service).toContain("const claimError = checkDeviceClaim(existing, null, pushToken);");
+    expect(service).toContain("const claimError = checkDeviceClaim(existing, userId, pushToken);");
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("ownership wiring", () => {
+  it("should store the owning user on devices, alerts and preferences", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('index("notification_devices_user_idx").on(table.userId)');
+    expect(schema).toContain('index("price_alerts_user_idx").on(table.userId)');
+    expect(schema).toContain('userId: int("userId").unique(),');
+
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("ALTER TABLE `price_alerts` ADD `userId` int");
+  });
+
+  it("should serve a user's alerts through protected procedures", () => {
+    const router = readFile("server/notificationRouter.ts");
+    expect(router).toContain("account: accountRouter");
+    expect(router).toContain("addAlert: protectedProcedure");
+    expect(router).toContain("getAlerts: protectedProcedure");
+    expect(router).toContain("await linkDevice(ctx.user.id, input.deviceId");
+  });
+
+  it("should send alerts to every device the user is signed in on", () => {
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).toContain('owner.pushTokens.map((pushToken) => ({ channel: "push" as const, address: pushToken }))');
+  });
+
+  it("should use the account's alerts when signed in", () => {
+    const context = readFile("lib/notification-context.tsx");
+    expect(context).toContain("trpc.notifications.account.getAlerts.useQuery");
+    expect(context).toContain("isAuthenticated ? accountAlertsQuery : alertsQuery");
+    expect(context).toContain('DEVICE_LINKED_KEY = "@agrx/device-linked"');
+  });
+});
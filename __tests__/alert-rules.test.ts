@@ -0,0 +1,297 @@
+/**
+ * Alert Rule Tests
+ *
+ * Tests for compound alert rules: AND/OR matching and descriptions,
+ * validation of new rules, the portfolio metrics behind portfolio
+ * triggers, rule checks with their cooldown, notification copy, and the
+ * schema/router/screen wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildPortfolioAlertMetrics,
+  checkAlertRule,
+  formatRuleMessage,
+  normalizeAlertRule,
+  PriceAlertError,
+  type AlertMarketSnapshot,
+  type AlertRule,
+  type AlertRuleContext,
+} from "../server/priceAlertService";
+import {
+  describeAlertRule,
+  matchesAlertRule,
+  ruleDepth,
+  type AlertRuleGroup,
+  type PortfolioCondition,
+  type StockCondition,
+} from "../shared/alertRules";
+import type { SnapshotHolding } from "../server/portfolioService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function stock(overrides: Partial<StockCondition> = {}): StockCondition {
+  return { kind: "stock", stockId: "ete", stockName: "ETE", type: "below", threshold: 14, ...overrides };
+}
+
+function portfolio(overrides: Partial<PortfolioCondition> = {}): PortfolioCondition {
+  return { kind: "portfolio", metric: "dayChange", op: "lte", value: -3, ...overrides };
+}
+
+function market(price: number, overrides: Partial<AlertMarketSnapshot> = {}): AlertMarketSnapshot {
+  return {
+    price,
+    previousClose: price,
+    open: null,
+    volume: 0,
+    averageVolume: null,
+    sma: {},
+    priorHigh52w: null,
+    priorLow52w: null,
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<AlertRuleContext> = {}): AlertRuleContext {
+  return { markets: new Map(), previousPrices: {}, portfolio: null, ...overrides };
+}
+
+function rule(group: AlertRuleGroup, overrides: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: "7",
+    name: "ETE dip on volume",
+    rule: group,
+    description: describeAlertRule(group),
+    enabled: true,
+    channels: ["push"],
+    lastTriggered: null,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function holding(stockId: string, ticker: string, shares: number, totalCost: number): SnapshotHolding {
+  return { stockId, ticker, name: ticker, shares, totalCost };
+}
+
+// ─── Matching & Description ─────────────────────────────────────────────────
+
+describe("matchesAlertRule", () => {
+  const yes = stock({ stockId: "yes" });
+  const no = stock({ stockId: "no" });
+  const test = (c: { kind: string; stockId?: string }) => c.kind === "stock" && c.stockId === "yes";
+
+  it("needs every condition for AND and one for OR", () => {
+    expect(matchesAlertRule({ match: "all", conditions: [yes, yes] }, test)).toBe(true);
+    expect(matchesAlertRule({ match: "all", conditions: [yes, no] }, test)).toBe(false);
+    expect(matchesAlertRule({ match: "any", conditions: [no, yes] }, test)).toBe(true);
+    expect(matchesAlertRule({ match: "any", conditions: [no, no] }, test)).toBe(false);
+  });
+
+  it("evaluates nested groups", () => {
+    const group: AlertRuleGroup = { match: "all", conditions: [yes, { match: "any", conditions: [no, yes] }] };
+    expect(matchesAlertRule(group, test)).toBe(true);
+    expect(ruleDepth(group)).toBe(2);
+  });
+
+  it("never matches an empty group", () => {
+    expect(matchesAlertRule({ match: "all", conditions: [] }, test)).toBe(false);
+  });
+});
+
+describe("describeAlertRule", () => {
+  it("joins conditions and brackets nested groups", () => {
+    const group: AlertRuleGroup = {
+      match: "all",
+      conditions: [
+        stock(),
+        { match: "any", conditions: [stock({ type: "volume_spike", threshold: 2 }), portfolio()] },
+      ],
+    };
+    expect(describeAlertRule(group)).toBe(
+      "ETE below €14.00 AND (ETE volume ≥ 2× average OR Portfolio today ≤ -3%)"
+    );
+  });
+});
+
+// ─── Validation ─────────────────────────────────────────────────────────────
+
+describe("normalizeAlertRule", () => {
+  it("rejects rules without conditions", () => {
+    expect(() => normalizeAlertRule({ match: "all", conditions: [] })).toThrow(PriceAlertError);
+  });
+
+  it("rejects nesting beyond two groups", () => {
+    const deep: AlertRuleGroup = {
+      match: "all",
+      conditions: [{ match: "any", conditions: [{ match: "all", conditions: [stock()] }] }],
+    };
+    expect(() => normalizeAlertRule(deep)).toThrow(/nest/);
+  });
+
+  it("rejects empty nested groups", () => {
+    expect(() =>
+      normalizeAlertRule({ match: "all", conditions: [stock(), { match: "any", conditions: [] }] })
+    ).toThrow(/empty/);
+  });
+
+  it("checks stock condition thresholds as single alerts do", () => {
+    expect(() =>
+      normalizeAlertRule({ match: "all", conditions: [stock({ type: "sma_cross_above", threshold: 20 })] })
+    ).toThrow(PriceAlertError);
+  });
+
+  it("keeps portfolio conditions as they are", () => {
+    const group: AlertRuleGroup = { match: "any", conditions: [portfolio(), stock()] };
+    expect(normalizeAlertRule(group).conditions[0]).toEqual(portfolio());
+  });
+});
+
+// ─── Portfolio Metrics ──────────────────────────────────────────────────────
+
+describe("buildPortfolioAlertMetrics", () => {
+  it("measures the day's move and each holding against its cost", () => {
+    const metrics = buildPortfolioAlertMetrics(
+      {
+        balance: 1000,
+        holdings: {
+          ete: holding("ete", "ETE", 100, 1200),
+          opap: holding("opap", "OPAP", 50, 800),
+        },
+      },
+      [
+        { id: "ete", price: 11, previousClose: 10 },
+        { id: "opap", price: 15, previousClose: 16 },
+      ]
+    );
+    // Yesterday 1000 + 1000 + 800 = 2800, today 1000 + 1100 + 750 = 2850
+    expect(metrics.dayChange).toBeCloseTo((50 / 2800) * 100, 6);
+    expect(metrics.holdingsFromCost).toEqual([
+      { stockId: "ete", ticker: "ETE", fromCost: expect.closeTo((11 / 12 - 1) * 100, 6) },
+      { stockId: "opap", ticker: "OPAP", fromCost: expect.closeTo((15 / 16 - 1) * 100, 6) },
+    ]);
+  });
+
+  it("carries holdings without a quote at cost", () => {
+    const metrics = buildPortfolioAlertMetrics(
+      { balance: 500, holdings: { ete: holding("ete", "ETE", 100, 1200) } },
+      []
+    );
+    expect(metrics.dayChange).toBe(0);
+    expect(metrics.holdingsFromCost).toEqual([]);
+  });
+});
+
+// ─── Rule Checks ────────────────────────────────────────────────────────────
+
+describe("checkAlertRule", () => {
+  const now = new Date("2026-03-10T11:00:00Z").getTime();
+  const dipOnVolume: AlertRuleGroup = {
+    match: "all",
+    conditions: [stock(), stock({ type: "volume_spike", threshold: 2 })],
+  };
+
+  it("fires an AND rule only when every condition holds", () => {
+    const busy = context({ markets: new Map([["ete", market(13.8, { volume: 300, averageVolume: 100 })]]) });
+    const quiet = context({ markets: new Map([["ete", market(13.8, { volume: 150, averageVolume: 100 })]]) });
+    expect(checkAlertRule(rule(dipOnVolume), busy, now)).toBe(true);
+    expect(checkAlertRule(rule(dipOnVolume), quiet, now)).toBe(false);
+  });
+
+  it("fails stock conditions without a quote", () => {
+    expect(checkAlertRule(rule(dipOnVolume), context(), now)).toBe(false);
+  });
+
+  it("fires when the portfolio is down enough today", () => {
+    const group: AlertRuleGroup = { match: "all", conditions: [portfolio()] };
+    const down = context({ portfolio: { dayChange: -3.4, holdingsFromCost: [] } });
+    const flat = context({ portfolio: { dayChange: -1, holdingsFromCost: [] } });
+    expect(checkAlertRule(rule(group), down, now)).toBe(true);
+    expect(checkAlertRule(rule(group), flat, now)).toBe(false);
+    expect(checkAlertRule(rule(group), context(), now)).toBe(false);
+  });
+
+  it("fires when any holding is far enough from its cost", () => {
+    const group: AlertRuleGroup = {
+      match: "all",
+      conditions: [portfolio({ metric: "holdingFromCost", value: -8 })],
+    };
+    const ctx = context({
+      portfolio: {
+        dayChange: 0,
+        holdingsFromCost: [
+          { stockId: "ete", ticker: "ETE", fromCost: 4 },
+          { stockId: "opap", ticker: "OPAP", fromCost: -9.5 },
+        ],
+      },
+    });
+    expect(checkAlertRule(rule(group), ctx, now)).toBe(true);
+  });
+
+  it("fires portfolio rules once per session", () => {
+    const group: AlertRuleGroup = { match: "all", conditions: [portfolio()] };
+    const down = context({ portfolio: { dayChange: -4, holdingsFromCost: [] } });
+    const earlierToday = now - 3 * 60 * 60 * 1000;
+    const yesterday = now - 24 * 60 * 60 * 1000;
+    expect(checkAlertRule(rule(group, { lastTriggered: earlierToday }), down, now)).toBe(false);
+    expect(checkAlertRule(rule(group, { lastTriggered: yesterday }), down, now)).toBe(true);
+  });
+
+  it("skips disabled rules", () => {
+    const down = context({ portfolio: { dayChange: -4, holdingsFromCost: [] } });
+    const group: AlertRuleGroup = { match: "all", conditions: [portfolio()] };
+    expect(checkAlertRule(rule(group, { enabled: false }), down, now)).toBe(false);
+  });
+});
+
+describe("formatRuleMessage", () => {
+  it("names the rule and lists the readings that matched", () => {
+    const group: AlertRuleGroup = {
+      match: "any",
+      conditions: [stock(), portfolio({ metric: "holdingFromCost", value: -8 })],
+    };
+    const message = formatRuleMessage(
+      rule(group),
+      context({
+        markets: new Map([["ete", market(13.5)]]),
+        portfolio: { dayChange: -1, holdingsFromCost: [{ stockId: "opap", ticker: "OPAP", fromCost: -9.5 }] },
+      })
+    );
+    expect(message.title).toBe("🔔 ETE dip on volume");
+    expect(message.body).toBe("ETE below €14.00 (now €13.50). OPAP is -9.5% from your cost.");
+    expect(message.data).toEqual({ ruleId: "7", type: "alert_rule" });
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("alert rule wiring", () => {
+  it("stores rules in their own table", () => {
+    expect(readFile("drizzle/schema.ts")).toContain('mysqlTable(\n  "alert_rules"');
+    expect(readFile("drizzle/0015_lowly_famine.sql")).toContain("CREATE TABLE `alert_rules`");
+  });
+
+  it("exposes rules to signed-in users", () => {
+    const router = readFile("server/notificationRouter.ts");
+    expect(router).toContain("addRule: protectedProcedure");
+    expect(router).toContain("ruleDepth(rule) <= MAX_RULE_DEPTH");
+  });
+
+  it("checks rules in the price alert loop", () => {
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).toContain("getEnabledAlertRules()");
+    expect(service).toContain("checkAlertRule(rule, context, checkedAt");
+  });
+
+  it("lists and builds rules on the price alerts screen", () => {
+    const screen = readFile("app/price-alerts.tsx");
+    expect(screen).toContain("useAlertRules()");
+    expect(screen).toContain("<AddRuleModal");
+    expect(readFile("lib/notification-context.tsx")).toContain('data?.type === "alert_rule"');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Benchmark Comparison Tests
+ *
+ * Tests for rebasing, alignment, beta, alpha and tracking difference, plus
+ * the index chart endpoint and portfolio overlay wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  alignBenchmark,
+  calculateBeta,
+  compareToBenchmark,
+  growthIndex,
+  periodReturns,
+  type PerformancePoint,
+} from "../shared/benchmark";
+
+const ROOT = path.resolve(__dirname, "..");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function point(day: number, value: number, flow = 0): PerformancePoint {
+  return { timestamp: day * DAY_MS, value, flow };
+}
+
+/** Index candles at the start of each day (epoch seconds) */
+function candles(closes: number[]) {
+  return closes.map((close, day) => ({ timestamp: (day * DAY_MS) / 1000, close }));
+}
+
+// ─── Series ─────────────────────────────────────────────────────────────────
+
+describe("growthIndex", () => {
+  it("should rebase the portfolio to 100", () => {
+    const index = growthIndex([point(0, 200), point(1, 220), point(2, 198)]);
+    expect(index[0]).toBe(100);
+    expect(index[1]).toBeCloseTo(110);
+    expect(index[2]).toBeCloseTo(99);
+  });
+
+  it("should not treat deposits as growth", () => {
+    const index = growthIndex([point(0, 100), point(1, 1100, 1000), point(2, 1210)]);
+    expect(index[1]).toBeCloseTo(100);
+    expect(index[2]).toBeCloseTo(110);
+  });
+});
+
+describe("alignBenchmark", () => {
+  it("should take the last close at or before each point", () => {
+    const aligned = alignBenchmark(
+      [0, 1.5 * DAY_MS, 3 * DAY_MS],
+      candles([10, 11, 12, 13]),
+    );
+    expect(aligned).toEqual([10, 11, 13]);
+  });
+
+  it("should use the first close for points before the chart", () => {
+    expect(alignBenchmark([-DAY_MS], candles([10, 11]))).toEqual([10]);
+  });
+});
+
+// ─── Statistics ─────────────────────────────────────────────────────────────
+
+describe("calculateBeta", () => {
+  it("should be 2 for a portfolio moving twice the benchmark", () => {
+    expect(calculateBeta([0.02, -0.04, 0.06], [0.01, -0.02, 0.03])).toBeCloseTo(2);
+  });
+
+  it("should be null for a flat benchmark or too few returns", () => {
+    expect(calculateBeta([0.01, 0.02], [0, 0])).toBeNull();
+    expect(calculateBeta([0.01], [0.01])).toBeNull();
+  });
+});
+
+describe("compareToBenchmark", () => {
+  it("should report tracking difference, beta and alpha", () => {
+    // Portfolio: +10%, −5%, +2% · Index: +5%, −2.5%, +1%
+    const points = [point(0, 1000), point(1, 1100), point(2, 1045), point(3, 1065.9)];
+    const comparison = compareToBenchmark(points, candles([100, 105, 102.375, 103.39875]))!;
+
+    expect(comparison.portfolio[0]).toBe(100);
+    expect(comparison.benchmark[0]).toBe(100);
+    expect(comparison.portfolioReturn).toBeCloseTo(6.59);
+    expect(comparison.benchmarkReturn).toBeCloseTo(3.39875);
+    expect(comparison.trackingDifference).toBeCloseTo(6.59 - 3.39875);
+    expect(comparison.beta).toBeCloseTo(2);
+    expect(comparison.alpha).toBeCloseTo(6.59 - 2 * 3.39875);
+  });
+
+  it("should match periodReturns of the rebased series", () => {
+    const comparison = compareToBenchmark([point(0, 100), point(1, 110)], candles([50, 55]))!;
+    expect(periodReturns(comparison.portfolio)[0]).toBeCloseTo(0.1);
+    expect(periodReturns(comparison.benchmark)[0]).toBeCloseTo(0.1);
+    expect(comparison.beta).toBeNull();
+    expect(comparison.alpha).toBeNull();
+  });
+
+  it("should return null without an index chart or history", () => {
+    expect(compareToBenchmark([point(0, 100), point(1, 110)], [])).toBeNull();
+    expect(compareToBenchmark([point(0, 100)], candles([10, 11]))).toBeNull();
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Benchmark wiring", () => {
+  it("should fetch indices through the stock chart path", () => {
+    const service = readFile("server/stockService.ts");
+    expect(service).toContain('gd:   "GD.AT"');
+    expect(service).toContain("export async function getIndexChart(");
+    expect(readFile("server/stockRouter.ts")).toContain("getIndexChart: publicProcedure");
+  });
+
+  it("should overlay the benchmark on the line chart", () => {
+    expect(readFile("components/ui/cds-line-chart.tsx")).toContain("comparisonData");
+    const card = readFile("components/features/portfolio/benchmark-card.tsx");
+    expect(card).toContain("comparisonData={comparison.benchmark}");
+    expect(readFile("app/(tabs)/portfolio.tsx")).toContain("<BenchmarkCard");
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Cache Tests
+ *
+ * Tests for the shared cache layer: TTL and stale-while-revalidate on the
+ * memory backend, the Redis backend against the in-process stand-in, backend
+ * failures (including a server that never accepts) degrading to misses,
+ * per-namespace hit/miss stats, and who may clear the shared cache.
+ */
+import { describe, it, expect, afterEach, beforeAll, afterAll, vi } from "vitest";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import {
+  createCache,
+  createCacheBackend,
+  getCacheStats,
+  setCacheBackend,
+  type CacheBackend,
+} from "../server/cache";
+import { createRedisBackend } from "../server/redisCache";
+import { startRedisStandIn, type RedisStandIn } from "../server/redisStandIn";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+afterEach(() => {
+  setCacheBackend(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ─── Memory Backend ─────────────────────────────────────────────────────────
+
+describe("memory cache", () => {
+  it("should serve fresh values, then stale ones, then miss", async () => {
+    vi.useFakeTimers();
+    const cache = createCache<number>("test-ttl", { ttlMs: 1_000, staleMs: 1_000 });
+
+    await cache.set("a", 1);
+    expect(await cache.get("a")).toMatchObject({ value: 1, isFresh: true });
+
+    vi.advanceTimersByTime(1_500);
+    expect(await cache.get("a")).toMatchObject({ value: 1, isFresh: false });
+
+    vi.advanceTimersByTime(1_000);
+    expect(await cache.get("a")).toBeNull();
+  });
+
+  it("should return stale values at once and refresh them in the background", async () => {
+    vi.useFakeTimers();
+    const cache = createCache<string>("test-swr", { ttlMs: 1_000, staleMs: 60_000 });
+    let loads = 0;
+    const load = async () => `v${++loads}`;
+
+    expect(await cache.getOrLoad("k", load)).toBe("v1");
+    expect(await cache.getOrLoad("k", load)).toBe("v1");
+    expect(loads).toBe(1);
+
+    vi.advanceTimersByTime(2_000);
+    expect(await cache.getOrLoad("k", load)).toBe("v1");
+    expect(loads).toBe(2);
+    await vi.waitFor(async () => expect((await cache.get("k"))?.value).toBe("v2"));
+  });
+
+  it("should share one load between concurrent misses", async () => {
+    const cache = createCache<number>("test-dedupe", { ttlMs: 1_000 });
+    let loads = 0;
+    const load = () => new Promise<number>((resolve) => setTimeout(() => resolve(++loads), 5));
+
+    const values = await Promise.all([cache.getOrLoad("k", load), cache.getOrLoad("k", load)]);
+    expect(values).toEqual([1, 1]);
+    expect(loads).toBe(1);
+  });
+
+  it("should keep serving the stale value when a refresh fails", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const cache = createCache<number>("test-refresh-fail", { ttlMs: 1_000, staleMs: 60_000 });
+    await cache.set("k", 1);
+
+    vi.advanceTimersByTime(2_000);
+    expect(await cache.getOrLoad("k", () => Promise.reject(new Error("upstream down")))).toBe(1);
+    expect((await cache.get("k"))?.value).toBe(1);
+  });
+
+  it("should clear only its own namespace", async () => {
+    const quotes = createCache<number>("test-clear-a", { ttlMs: 1_000 });
+    const charts = createCache<number>("test-clear-ab", { ttlMs: 1_000 });
+    await quotes.set("x", 1);
+    await charts.set("x", 2);
+
+    await quotes.clear();
+    expect(await quotes.get("x")).toBeNull();
+    expect((await charts.get("x"))?.value).toBe(2);
+  });
+});
+
+// ─── Backend Selection and Failures ─────────────────────────────────────────
+
+describe("cache backends", () => {
+  it("should fall back to memory without REDIS_URL", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("REDIS_URL", "");
+    expect(createCacheBackend("redis").name).toBe("memory");
+    expect(createCacheBackend("memcached").name).toBe("memory");
+    vi.unstubAllEnvs();
+  });
+
+  it("should treat backend errors as misses and count them", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const failing: CacheBackend = {
+      name: "failing",
+      get: () => Promise.reject(new Error("down")),
+      getMany: () => Promise.reject(new Error("down")),
+      set: () => Promise.reject(new Error("down")),
+      delete: () => Promise.reject(new Error("down")),
+      keys: () => Promise.reject(new Error("down")),
+    };
+    setCacheBackend(failing);
+    const cache = createCache<number>("test-failing", { ttlMs: 1_000 });
+
+    await cache.set("k", 1);
+    expect(await cache.get("k")).toBeNull();
+    expect(await cache.getOrLoad("k", async () => 2)).toBe(2);
+    expect(getCacheStats().namespaces["test-failing"].errors).toBe(4);
+  });
+
+  it("should report hits, stale hits and misses per namespace", async () => {
+    vi.useFakeTimers();
+    const cache = createCache<number>("test-stats", { ttlMs: 1_000, staleMs: 1_000 });
+    await cache.get("k");
+    await cache.set("k", 1);
+    await cache.get("k");
+    vi.advanceTimersByTime(1_500);
+    await cache.getMany(["k", "other"]);
+
+    const stats = getCacheStats();
+    expect(stats.backend).toBe("memory");
+    expect(stats.namespaces["test-stats"]).toMatchObject({ hits: 1, staleHits: 1, misses: 2, sets: 1, hitRate: 0.5 });
+  });
+});
+
+// ─── Redis Backend ──────────────────────────────────────────────────────────
+
+describe("redis cache", () => {
+  let standIn: RedisStandIn;
+  let redis: ReturnType<typeof createRedisBackend>;
+
+  beforeAll(async () => {
+    standIn = await startRedisStandIn();
+    redis = createRedisBackend(`redis://:secret@127.0.0.1:${standIn.port}/2`);
+  });
+
+  afterAll(async () => {
+    redis.disconnect();
+    await standIn.close();
+  });
+
+  it("should round-trip values, including multi-byte text", async () => {
+    await redis.set("agrx:t:a", "Εθνική Τράπεζα €", 10_000);
+    expect(await redis.get("agrx:t:a")).toBe("Εθνική Τράπεζα €");
+    expect(await redis.getMany(["agrx:t:a", "agrx:t:missing"])).toEqual(["Εθνική Τράπεζα €", null]);
+  });
+
+  it("should expire keys with PX", async () => {
+    await redis.set("agrx:t:short", "x", 20);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(await redis.get("agrx:t:short")).toBeNull();
+  });
+
+  it("should list and delete keys by prefix", async () => {
+    await redis.set("agrx:scan:1", "1", 10_000);
+    await redis.set("agrx:scan:2", "2", 10_000);
+    await redis.set("agrx:other:1", "3", 10_000);
+
+    expect((await redis.keys("agrx:scan:")).sort()).toEqual(["agrx:scan:1", "agrx:scan:2"]);
+    await redis.delete(await redis.keys("agrx:scan:"));
+    expect(await redis.keys("agrx:scan:")).toEqual([]);
+    expect(await redis.get("agrx:other:1")).toBe("3");
+  });
+
+  it("should back a cache end to end", async () => {
+    setCacheBackend(redis);
+    const cache = createCache<{ price: number }>("test-redis", { ttlMs: 1_000 });
+    await cache.set("ete", { price: 7.5 });
+    expect(await cache.get("ete")).toMatchObject({ value: { price: 7.5 }, isFresh: true });
+    expect(getCacheStats().backend).toBe("redis");
+  });
+
+  it("should pipeline concurrent commands in order", async () => {
+    const keys = Array.from({ length: 50 }, (_, i) => `agrx:pipe:${i}`);
+    await Promise.all(keys.map((key, i) => redis.set(key, String(i), 10_000)));
+    const values = await Promise.all(keys.map((key) => redis.get(key)));
+    expect(values).toEqual(keys.map((_, i) => String(i)));
+  });
+
+  it("should reconnect after the connection drops", async () => {
+    redis.disconnect();
+    await redis.set("agrx:t:again", "ok", 10_000);
+    expect(await redis.get("agrx:t:again")).toBe("ok");
+  });
+
+  it("should reject commands when the server is unreachable", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const closed = await startRedisStandIn();
+    await closed.close();
+    const unreachable = createRedisBackend(`redis://127.0.0.1:${closed.port}`, { commandTimeoutMs: 200 });
+    await expect(unreachable.get("k")).rejects.toThrow();
+  });
+
+  it("should time out a server that never accepts and back off before retrying", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const sockets: net.Socket[] = [];
+    const hanging = createRedisBackend("redis://10.255.255.1:6379", {
+      connectTimeoutMs: 50,
+      reconnectDelayMs: 100,
+      createConnection: () => {
+        const socket = new net.Socket();
+        sockets.push(socket);
+        return socket;
+      },
+    });
+
+    await expect(hanging.get("k")).rejects.toThrow(/timed out after 50ms/);
+    expect(sockets[0].destroyed).toBe(true);
+    await expect(hanging.get("k")).rejects.toThrow(/retrying/);
+    expect(sockets).toHaveLength(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    await expect(hanging.get("k")).rejects.toThrow(/timed out/);
+    expect(sockets).toHaveLength(2);
+  });
+
+  it("should serve misses while the server never accepts", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    setCacheBackend(
+      createRedisBackend("redis://10.255.255.1:6379", { connectTimeoutMs: 50, createConnection: () => new net.Socket() }),
+    );
+    const cache = createCache<number>("test-hanging", { ttlMs: 1_000 });
+
+    expect(await cache.get("k")).toBeNull();
+    expect(await cache.getOrLoad("k", async () => 3)).toBe(3);
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("cache wiring", () => {
+  it("should only let admins clear the shared cache", () => {
+    expect(readFile("server/stockRouter.ts")).toContain("refreshCache: adminProcedure.mutation(");
+    for (const screen of ["index", "markets", "portfolio"]) {
+      expect(readFile(`app/(tabs)/${screen}.tsx`)).not.toContain("refreshCache");
+    }
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Candlestick Chart Tests
+ *
+ * Tests for the pinch-zoom window, crosshair hit-testing and range stepping
+ * behind CDSCandlestickChart, and its Pro mode wiring on the asset screen.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  candleIndexAt,
+  fullWindow,
+  MIN_VISIBLE_CANDLES,
+  rangeStepForPinch,
+  steppedRange,
+  zoomWindow,
+} from "../lib/candle-chart";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+const RANGES = ["1D", "1W", "1M", "3M", "1Y", "ALL"] as const;
+
+describe("zoomWindow", () => {
+  it("should show fewer candles when pinched open", () => {
+    expect(zoomWindow(fullWindow(100), 100, 2)).toEqual({ start: 25, end: 75 });
+  });
+
+  it("should keep the candle under the fingers in place", () => {
+    // Zooming at the right edge keeps the latest candles in view
+    expect(zoomWindow(fullWindow(100), 100, 4, 1)).toEqual({ start: 75, end: 100 });
+    expect(zoomWindow(fullWindow(100), 100, 4, 0)).toEqual({ start: 0, end: 25 });
+  });
+
+  it("should stop at the closest zoom and the whole chart", () => {
+    const closest = zoomWindow(fullWindow(100), 100, 50);
+    expect(closest.end - closest.start).toBe(MIN_VISIBLE_CANDLES);
+    expect(zoomWindow({ start: 40, end: 60 }, 100, 0.1)).toEqual(fullWindow(100));
+    // Short charts can't zoom in past their own length
+    expect(zoomWindow(fullWindow(5), 5, 3)).toEqual(fullWindow(5));
+  });
+
+  it("should stay inside the candles when zooming out near an edge", () => {
+    expect(zoomWindow({ start: 80, end: 100 }, 100, 0.5, 0.9)).toEqual({ start: 60, end: 100 });
+  });
+});
+
+describe("rangeStepForPinch", () => {
+  it("should step to a longer range when pinching the whole chart closed", () => {
+    expect(rangeStepForPinch(fullWindow(60), 60, 0.6)).toBe("out");
+    expect(rangeStepForPinch(fullWindow(60), 60, 0.9)).toBeNull();
+    expect(rangeStepForPinch({ start: 10, end: 50 }, 60, 0.6)).toBeNull();
+  });
+
+  it("should step to a shorter range when pinching open at the closest zoom", () => {
+    expect(rangeStepForPinch({ start: 0, end: MIN_VISIBLE_CANDLES }, 60, 1.5)).toBe("in");
+    expect(rangeStepForPinch(fullWindow(60), 60, 1.5)).toBeNull();
+  });
+
+  it("should move between neighbouring ranges and stop at the ends", () => {
+    expect(steppedRange(RANGES, "1M", "out")).toBe("3M");
+    expect(steppedRange(RANGES, "1M", "in")).toBe("1W");
+    expect(steppedRange(RANGES, "ALL", "out")).toBeNull();
+    expect(steppedRange(RANGES, "1D", "in")).toBeNull();
+  });
+});
+
+describe("candleIndexAt", () => {
+  it("should map a touch to the candle slot under it", () => {
+    const window = { start: 20, end: 30 };
+    expect(candleIndexAt(0, 100, window)).toBe(20);
+    expect(candleIndexAt(55, 100, window)).toBe(25);
+    expect(candleIndexAt(99.9, 100, window)).toBe(29);
+  });
+
+  it("should clamp touches outside the plot", () => {
+    const window = { start: 0, end: 10 };
+    expect(candleIndexAt(-20, 100, window)).toBe(0);
+    expect(candleIndexAt(150, 100, window)).toBe(9);
+  });
+});
+
+describe("candlestick wiring", () => {
+  it("should offer candles as a persisted Pro mode chart style", () => {
+    const context = readFile("lib/viewmode-context.tsx");
+    expect(context).toContain('export type ChartStyle = "line" | "candles"');
+    expect(context).toContain("AsyncStorage.setItem(CHART_STYLE_KEY, style)");
+
+    const screen = readFile("app/asset/[id].tsx");
+    expect(screen).toContain('const showCandles = isPro && chartStyle === "candles"');
+    expect(screen).toContain("<CDSCandlestickChart");
+    expect(screen).toContain("steppedRange(TIME_PERIODS, activePeriod, step)");
+  });
+
+  it("should pass OHLCV candles through useStockChart", () => {
+    expect(readFile("hooks/use-stocks.ts")).toContain("candles: hasLiveChart ? query.data!.data!.data : []");
+  });
+
+  it("should scrub with a pan and zoom with a pinch", () => {
+    const chart = readFile("components/ui/cds-candlestick-chart.tsx");
+    expect(chart).toContain("Gesture.Simultaneous(pinch, pan)");
+    expect(chart).toContain('{ label: "V", value: formatVolume(selected.volume) }');
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Corporate Action Tests
+ *
+ * Tests for price-history adjustment, holding adjustments for splits,
+ * reverse splits, rights issues and capital returns, the fixture-backed
+ * action list, and the asset screen and order wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  adjustPriceHistory,
+  applyCorporateAction,
+  applyDueCorporateActions,
+  describeCorporateAction,
+  getPriceFactor,
+  type CorporateAction,
+  type CorporateActionAccount,
+  type CorporateActionType,
+} from "../shared/corporateActions";
+import { findCorporateActionSince, getCorporateActions } from "../server/corporateActionService";
+
+const ROOT = path.resolve(__dirname, "..");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function action(
+  type: CorporateActionType,
+  exDay: number,
+  overrides: Partial<CorporateAction> = {},
+): CorporateAction {
+  return {
+    id: `aktr:day-${exDay}:${type}`,
+    stockId: "aktr",
+    type,
+    exDate: `day-${exDay}`,
+    exTimestamp: exDay * DAY_MS,
+    ratio: 1,
+    subscriptionPrice: null,
+    cashPerShare: null,
+    referencePrice: 10,
+    ...overrides,
+  };
+}
+
+function account(overrides: Partial<CorporateActionAccount> = {}): CorporateActionAccount {
+  return {
+    balance: 1000,
+    holdings: {
+      aktr: {
+        shares: 105,
+        totalCost: 1100,
+        lots: [
+          { id: "a", shares: 100, cost: 1000, openedAt: 1 * DAY_MS },
+          { id: "b", shares: 5, cost: 100, openedAt: 20 * DAY_MS },
+        ],
+      },
+    },
+    shareMode: "fractional",
+    costBasisMethod: "fifo",
+    corporateActions: [],
+    corporateActionsSince: 0,
+    ...overrides,
+  };
+}
+
+// ─── Price History ──────────────────────────────────────────────────────────
+
+describe("adjustPriceHistory", () => {
+  const candle = (day: number, close: number, volume = 1000) => ({
+    timestamp: (day * DAY_MS) / 1000,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume,
+  });
+
+  it("should scale prices and volumes before a reverse split", () => {
+    const split = action("reverse_split", 10, { ratio: 0.1 });
+    const [before, after] = adjustPriceHistory([candle(9, 0.5), candle(10, 5)], [split]);
+    expect(before.close).toBeCloseTo(5);
+    expect(before.volume).toBe(100);
+    expect(after.close).toBe(5);
+    expect(after.volume).toBe(1000);
+  });
+
+  it("should compound several actions", () => {
+    const actions = [
+      action("split", 5, { ratio: 2 }),
+      action("capital_return", 10, { cashPerShare: 1, referencePrice: 10 }),
+    ];
+    const [first, middle] = adjustPriceHistory([candle(1, 20), candle(7, 10)], actions);
+    expect(first.close).toBeCloseTo(20 * 0.5 * 0.9);
+    expect(middle.close).toBeCloseTo(9);
+  });
+
+  it("should use the theoretical ex-rights price for rights issues", () => {
+    // 1 new per share at €4 with the stock at €10 → TERP €7
+    const rights = action("rights_issue", 10, { ratio: 1, subscriptionPrice: 4 });
+    expect(getPriceFactor(rights)).toBeCloseTo(0.7);
+  });
+});
+
+// ─── Holdings ───────────────────────────────────────────────────────────────
+
+describe("applyCorporateAction", () => {
+  it("should multiply shares of lots opened before the ex-date", () => {
+    const { account: next, adjustment } = applyCorporateAction(
+      account(),
+      action("split", 10, { ratio: 2 }),
+      30 * DAY_MS,
+    );
+    expect(next.holdings.aktr.shares).toBe(205);
+    expect(next.holdings.aktr.totalCost).toBe(1100);
+    expect(next.holdings.aktr.lots?.map((l) => l.shares)).toEqual([200, 5]);
+    expect(adjustment).toMatchObject({ sharesBefore: 105, sharesAfter: 205, cashAmount: 0 });
+  });
+
+  it("should pay cash in lieu of fractions in whole-share mode", () => {
+    const start = account({
+      shareMode: "whole",
+      holdings: { aktr: { shares: 15, totalCost: 150, lots: [{ id: "a", shares: 15, cost: 150, openedAt: 0 }] } },
+    });
+    // 1-for-10 of 15 shares → 1.5; half a new share (€100) is paid out
+    const { account: next, adjustment } = applyCorporateAction(
+      start,
+      action("reverse_split", 10, { ratio: 0.1, referencePrice: 10 }),
+      30 * DAY_MS,
+    );
+    expect(next.holdings.aktr.shares).toBe(1);
+    expect(next.holdings.aktr.totalCost).toBeCloseTo(100);
+    expect(adjustment?.cashAmount).toBe(50);
+    expect(next.balance).toBe(1050);
+  });
+
+  it("should keep fractions in fractional mode", () => {
+    const { account: next } = applyCorporateAction(
+      account(),
+      action("reverse_split", 10, { ratio: 0.3 }),
+      30 * DAY_MS,
+    );
+    expect(next.holdings.aktr.shares).toBe(35);
+  });
+
+  it("should credit a capital return and lower the cost of old lots", () => {
+    const { account: next, adjustment } = applyCorporateAction(
+      account(),
+      action("capital_return", 10, { cashPerShare: 0.5 }),
+      30 * DAY_MS,
+    );
+    expect(adjustment?.cashAmount).toBe(50);
+    expect(next.balance).toBe(1050);
+    expect(next.holdings.aktr.shares).toBe(105);
+    expect(next.holdings.aktr.totalCost).toBe(1050);
+  });
+
+  it("should sell rights at their theoretical value", () => {
+    // TERP €7, so each right to buy at €4 is worth €3
+    const { account: next, adjustment } = applyCorporateAction(
+      account(),
+      action("rights_issue", 10, { ratio: 1, subscriptionPrice: 4 }),
+      30 * DAY_MS,
+    );
+    expect(adjustment?.cashAmount).toBe(300);
+    expect(next.holdings.aktr.totalCost).toBe(800);
+  });
+
+  it("should leave positions opened after the ex-date alone", () => {
+    const start = account();
+    const { account: next, adjustment } = applyCorporateAction(
+      start,
+      action("split", 0.5, { ratio: 2 }),
+      30 * DAY_MS,
+    );
+    expect(adjustment).toBeNull();
+    expect(next).toBe(start);
+  });
+});
+
+describe("applyDueCorporateActions", () => {
+  it("should only start the clock on an account without corporateActionsSince", () => {
+    const { account: next, applied } = applyDueCorporateActions(
+      account({ corporateActionsSince: null }),
+      [action("split", 10, { ratio: 2 })],
+      30 * DAY_MS,
+    );
+    expect(applied).toEqual([]);
+    expect(next.corporateActionsSince).toBe(30 * DAY_MS);
+    expect(next.holdings.aktr.shares).toBe(105);
+  });
+
+  it("should apply actions once, and not before their ex-date", () => {
+    const actions = [action("split", 10, { ratio: 2 }), action("split", 40, { ratio: 2 })];
+    const first = applyDueCorporateActions(account(), actions, 30 * DAY_MS);
+    expect(first.applied.map((a) => a.id)).toEqual([actions[0].id]);
+
+    const second = applyDueCorporateActions(first.account, actions, 31 * DAY_MS);
+    expect(second.applied).toEqual([]);
+    expect(second.account).toBe(first.account);
+  });
+
+  it("should skip actions that went ex before the account opened", () => {
+    const start = account({ corporateActionsSince: 15 * DAY_MS });
+    const { applied } = applyDueCorporateActions(start, [action("split", 10, { ratio: 2 })], 30 * DAY_MS);
+    expect(applied).toEqual([]);
+  });
+});
+
+// ─── Fixture ────────────────────────────────────────────────────────────────
+
+describe("corporate action fixture", () => {
+  it("should resolve rows in ex-date order", () => {
+    const actions = getCorporateActions();
+    expect(actions.length).toBeGreaterThan(0);
+    const exTimes = actions.map((a) => a.exTimestamp);
+    expect(exTimes).toEqual([...exTimes].sort((a, b) => a - b));
+    for (const a of actions) {
+      expect(getPriceFactor(a)).toBeGreaterThan(0);
+      expect(describeCorporateAction(a).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should find actions that went ex after an order was placed", () => {
+    const [first] = getCorporateActions();
+    expect(findCorporateActionSince(first.stockId, first.exTimestamp - 1, first.exTimestamp)?.id).toBe(
+      first.id,
+    );
+    expect(findCorporateActionSince(first.stockId, first.exTimestamp, first.exTimestamp + DAY_MS)).toBeNull();
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Corporate action wiring", () => {
+  it("should adjust charts, cancel stale orders and store adjustments", () => {
+    expect(readFile("server/stockService.ts")).toContain("adjustPriceHistory(chart.data, actions)");
+    expect(readFile("server/orderService.ts")).toContain("findCorporateActionSince(");
+    expect(readFile("server/routers.ts")).toContain("corporateActions: corporateActionRouter");
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("CREATE TABLE `corporate_action_adjustments`");
+  });
+
+  it("should show a notice on the asset screen", () => {
+    expect(readFile("app/asset/[id].tsx")).toContain("corporateActionNotice.title");
+  });
+});
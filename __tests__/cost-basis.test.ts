@@ -0,0 +1,226 @@
+/**
+ * Cost Basis Tests
+ *
+ * Tests for tax-lot tracking (FIFO and average cost), realized P&L on sells,
+ * server-side fills, and the client wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  addLot,
+  calculateRealizedPnL,
+  disposeLots,
+  getLots,
+  totalRealizedPnL,
+  type LotPosition,
+} from "../shared/costBasis";
+import {
+  applyTrade,
+  mergeSnapshots,
+  type PortfolioSnapshot,
+  type SnapshotTrade,
+} from "../server/portfolioService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+/** 10 shares at €10, then 10 shares at €20 */
+function makePosition(): LotPosition {
+  return {
+    shares: 20,
+    totalCost: 300,
+    lots: [
+      { id: "buy-1", shares: 10, cost: 100, openedAt: 1 },
+      { id: "buy-2", shares: 10, cost: 200, openedAt: 2 },
+    ],
+  };
+}
+
+function makeSnapshot(overrides: Partial<PortfolioSnapshot> = {}): PortfolioSnapshot {
+  return {
+    balance: 1000,
+    holdings: {},
+    trades: [],
+    xp: 0,
+    streak: 0,
+    broker: "piraeus",
+    shareMode: "whole",
+    costBasisMethod: "fifo",
+    dividends: [],
+    dividendsSince: null,
+    corporateActions: [],
+    corporateActionsSince: null,
+    ...overrides,
+  };
+}
+
+function makeTrade(overrides: Partial<SnapshotTrade> = {}): SnapshotTrade {
+  return {
+    id: "trade-1",
+    stockId: "opap",
+    ticker: "OPAP",
+    name: "OPAP S.A.",
+    type: "buy",
+    amount: 100,
+    shares: 10,
+    price: 10,
+    timestamp: 1,
+    ...overrides,
+  };
+}
+
+// ─── Lots ───────────────────────────────────────────────────────────────────
+
+describe("getLots", () => {
+  it("should treat a position without lots as a single opening lot", () => {
+    expect(getLots({ shares: 5, totalCost: 80 })).toEqual([
+      { id: "opening", shares: 5, cost: 80, openedAt: 0 },
+    ]);
+  });
+
+  it("should return no lots for an empty position", () => {
+    expect(getLots({ shares: 0, totalCost: 0 })).toEqual([]);
+  });
+});
+
+describe("addLot", () => {
+  it("should append a lot and keep totals in step", () => {
+    const next = addLot(makePosition(), { id: "buy-3", shares: 5, cost: 150, openedAt: 3 });
+    expect(next.lots).toHaveLength(3);
+    expect(next.shares).toBe(25);
+    expect(next.totalCost).toBe(450);
+  });
+
+  it("should open a position from nothing", () => {
+    const next = addLot(undefined, { id: "buy-1", shares: 2, cost: 30, openedAt: 1 });
+    expect(next).toEqual({ lots: [{ id: "buy-1", shares: 2, cost: 30, openedAt: 1 }], shares: 2, totalCost: 30 });
+  });
+});
+
+describe("disposeLots", () => {
+  it("should close the oldest lots first under FIFO", () => {
+    const result = disposeLots(makePosition(), 15, "fifo")!;
+    expect(result.costBasis).toBe(200); // 10 × €10 + 5 × €20
+    expect(result.shares).toBe(5);
+    expect(result.totalCost).toBe(100);
+    expect(result.lots).toEqual([{ id: "buy-2", shares: 5, cost: 100, openedAt: 2 }]);
+  });
+
+  it("should shrink every lot evenly under average cost", () => {
+    const result = disposeLots(makePosition(), 15, "average")!;
+    expect(result.costBasis).toBe(225); // 15 × €15 average
+    expect(result.shares).toBeCloseTo(5);
+    expect(result.totalCost).toBeCloseTo(75);
+    expect(result.lots).toHaveLength(2);
+  });
+
+  it("should close the position when everything is sold", () => {
+    const result = disposeLots(makePosition(), 20, "fifo")!;
+    expect(result.lots).toEqual([]);
+    expect(result.costBasis).toBe(300);
+  });
+
+  it("should reject selling more than the lots hold", () => {
+    expect(disposeLots(makePosition(), 21, "fifo")).toBeNull();
+  });
+});
+
+describe("Realized P&L", () => {
+  it("should subtract cost basis from net proceeds", () => {
+    expect(calculateRealizedPnL(250, 200)).toBe(50);
+    expect(calculateRealizedPnL(180.004, 200)).toBe(-20);
+  });
+
+  it("should total realized P&L across sells only", () => {
+    expect(
+      totalRealizedPnL([
+        { type: "buy" },
+        { type: "sell", realizedPnL: 12.5 },
+        { type: "sell", realizedPnL: -2.25 },
+        { type: "sell" },
+      ]),
+    ).toBe(10.25);
+  });
+});
+
+// ─── Server Fills ───────────────────────────────────────────────────────────
+
+describe("applyTrade with lots", () => {
+  function twoBuys(method: PortfolioSnapshot["costBasisMethod"]): PortfolioSnapshot {
+    const first = applyTrade(makeSnapshot({ costBasisMethod: method }), makeTrade())!;
+    return applyTrade(first, makeTrade({ id: "trade-2", amount: 200, price: 20, timestamp: 2 }))!;
+  }
+
+  it("should open a lot per buy", () => {
+    expect(twoBuys("fifo").holdings.opap.lots).toHaveLength(2);
+  });
+
+  it("should book FIFO realized P&L on the recorded sell", () => {
+    const sold = applyTrade(
+      twoBuys("fifo"),
+      makeTrade({ id: "sell-1", type: "sell", shares: 10, amount: 250, price: 25, timestamp: 3 }),
+    )!;
+    const sell = sold.trades[sold.trades.length - 1];
+    expect(sell.costBasis).toBe(100);
+    expect(sell.realizedPnL).toBe(150);
+    expect(sold.holdings.opap.totalCost).toBe(200);
+  });
+
+  it("should book average-cost realized P&L on the recorded sell", () => {
+    const sold = applyTrade(
+      twoBuys("average"),
+      makeTrade({ id: "sell-1", type: "sell", shares: 10, amount: 250, price: 25, timestamp: 3 }),
+    )!;
+    const sell = sold.trades[sold.trades.length - 1];
+    expect(sell.costBasis).toBe(150);
+    expect(sell.realizedPnL).toBe(100);
+  });
+
+  it("should not take realized P&L from client-only sells", () => {
+    const server = twoBuys("fifo");
+    const client = {
+      ...server,
+      trades: [
+        ...server.trades,
+        makeTrade({ id: "sell-1", type: "sell", shares: 10, amount: 250, timestamp: 3, realizedPnL: 999 }),
+      ],
+    };
+    const { snapshot, rejectedTradeIds } = mergeSnapshots(server, client);
+    expect(rejectedTradeIds).toEqual(["sell-1"]);
+    expect(snapshot.trades.find((t) => t.id === "sell-1")).toBeUndefined();
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Cost basis wiring", () => {
+  it("should track lots in local fills", () => {
+    const ctx = readFile("lib/demo-context.tsx");
+    expect(ctx).toContain("disposeLots(existing, shares, costBasisMethod)");
+    expect(ctx).toContain("realizedPnL: calculateRealizedPnL(");
+  });
+
+  it("should show realized and unrealized P&L in the Pro hero", () => {
+    const hero = readFile("components/features/portfolio/portfolio-hero-pro.tsx");
+    expect(hero).toContain("realizedPnl");
+    expect(hero).toMatch(/Realized/);
+    expect(hero).toMatch(/Unrealized/);
+    expect(readFile("app/(tabs)/portfolio.tsx")).toContain("realizedPnl={realizedPnl}");
+  });
+
+  it("should use recorded realized P&L in trade history", () => {
+    const history = readFile("app/trade-history.tsx");
+    expect(history).toContain("trade.realizedPnL");
+    expect(history).toContain("totalRealizedPnL(state.trades)");
+  });
+
+  it("should let the user pick a cost basis method", () => {
+    const settings = readFile("app/settings.tsx");
+    expect(settings).toContain("COST_BASIS_METHODS.map");
+    expect(settings).toContain("setCostBasisMethod(method.id)");
+  });
+});
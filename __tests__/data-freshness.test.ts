@@ -0,0 +1,150 @@
+/**
+ * Data Freshness Tests
+ *
+ * Tests for the freshness descriptor on stocks.* responses: live data,
+ * stale fallbacks after provider failures, overdue data in session,
+ * simulated providers, and the client wiring that turns it into LiveBadge's
+ * delayed and offline states.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { setMarketDataProvider, type MarketDataProvider } from "../server/marketData";
+import { createReplayProvider } from "../server/replayMarketData";
+import {
+  clearCache,
+  getChartFreshness,
+  getQuoteFreshness,
+  getStockChart,
+  getStockQuote,
+} from "../server/stockService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+/** A provider quoting a flat price that fails while `state.down` is set */
+function flakyProvider() {
+  const state = { down: false };
+  const provider: MarketDataProvider = {
+    name: "flaky",
+    async getChart(symbol, interval, range) {
+      if (state.down) throw new Error("Yahoo returned 429");
+      return {
+        symbol,
+        interval,
+        range,
+        candles: [{ timestamp: 1, open: 10, high: 10, low: 10, close: 10, volume: 100 }],
+        name: null,
+        currency: "EUR",
+        exchange: "ATH",
+        regularMarketPrice: 10,
+        previousClose: 10,
+        dayHigh: 10,
+        dayLow: 10,
+        volume: 100,
+        fiftyTwoWeekHigh: null,
+        fiftyTwoWeekLow: null,
+        marketCap: null,
+      };
+    },
+  };
+  return { provider, state };
+}
+
+/** Wednesday 14 Oct 2026, 12:00 in Athens — mid-session */
+const IN_SESSION = Date.parse("2026-10-14T09:00:00Z");
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  setMarketDataProvider(null);
+  await clearCache();
+});
+
+describe("freshness descriptor", () => {
+  it("should report fresh quotes as live", async () => {
+    setMarketDataProvider(flakyProvider().provider);
+    const quote = (await getStockQuote("ete"))!;
+
+    const freshness = getQuoteFreshness([quote], ["ete"]);
+    expect(freshness).toMatchObject({ source: "live", asOf: quote.lastUpdated, provider: "flaky", error: null });
+    expect(freshness.ageMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should flag a cached quote served after a provider failure as stale", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { provider, state } = flakyProvider();
+    setMarketDataProvider(provider);
+    const first = (await getStockQuote("opap"))!;
+
+    state.down = true;
+    const fallback = (await getStockQuote("opap", { fresh: true }))!;
+    expect(fallback.lastUpdated).toBe(first.lastUpdated);
+    expect(getQuoteFreshness([fallback], ["opap"])).toMatchObject({
+      source: "stale",
+      asOf: first.lastUpdated,
+      error: "Yahoo returned 429",
+    });
+
+    state.down = false;
+    const recovered = (await getStockQuote("opap", { fresh: true }))!;
+    expect(getQuoteFreshness([recovered], ["opap"]).source).toBe("live");
+  });
+
+  it("should explain a missing quote with the provider error", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { provider, state } = flakyProvider();
+    state.down = true;
+    setMarketDataProvider(provider);
+
+    expect(await getStockQuote("ppc")).toBeNull();
+    expect(getQuoteFreshness([], ["ppc"])).toMatchObject({ source: "stale", asOf: null, error: "Yahoo returned 429" });
+  });
+
+  it("should flag overdue quotes as stale only in session", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(IN_SESSION);
+    setMarketDataProvider(flakyProvider().provider);
+    const quote = (await getStockQuote("hto"))!;
+
+    vi.setSystemTime(IN_SESSION + 5 * 60_000);
+    expect(getQuoteFreshness([quote], ["hto"])).toMatchObject({ source: "stale", ageMs: 5 * 60_000, error: null });
+
+    vi.setSystemTime(Date.parse("2026-10-14T18:00:00Z"));
+    expect(getQuoteFreshness([quote], ["hto"]).source).toBe("live");
+  });
+
+  it("should label simulated providers as mock", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const chart = await getStockChart("ete", "1M");
+    expect(getChartFreshness("ETE.AT", chart, "1M")).toMatchObject({ source: "mock", provider: "replay" });
+  });
+
+  it("should date charts by when they were fetched", async () => {
+    setMarketDataProvider(flakyProvider().provider);
+    const chart = (await getStockChart("alpha", "1D"))!;
+    expect(getChartFreshness("ALPHA.AT", chart, "1D")).toMatchObject({ source: "live", asOf: chart.fetchedAt });
+  });
+});
+
+describe("freshness wiring", () => {
+  it("should attach freshness to every stocks.* response", () => {
+    const router = readFile("server/stockRouter.ts");
+    const responses = router.match(/success: (true|false) as const/g) ?? [];
+    expect(responses.length).toBeGreaterThan(0);
+    expect(router.match(/freshness/g)!.length).toBeGreaterThanOrEqual(responses.length);
+  });
+
+  it("should show delayed and offline states in LiveBadge", () => {
+    const hooks = readFile("hooks/use-stocks.ts");
+    expect(hooks).toContain("status: getDataStatus(");
+    expect(hooks).toContain('if (isError) return "offline"');
+
+    const badge = readFile("components/ui/live-badge.tsx");
+    expect(badge).toContain('delayed: "DELAYED"');
+    expect(badge).toContain('offline: "OFFLINE"');
+  });
+});
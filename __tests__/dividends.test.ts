@@ -0,0 +1,176 @@
+/**
+ * Dividend Tests
+ *
+ * Tests for entitlement, withholding tax and crediting, the fixture-backed
+ * calendar, and the portfolio screen wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  calculateDividend,
+  creditDueDividends,
+  getEntitledShares,
+  totalDividendIncome,
+  type DividendAccount,
+  type DividendEvent,
+} from "../shared/dividends";
+import { getDividendEvents, getUpcomingDividends } from "../server/dividendService";
+
+const ROOT = path.resolve(__dirname, "..");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function event(stockId: string, exDay: number, payDay: number, amount: number): DividendEvent {
+  return {
+    id: `${stockId}:${exDay}`,
+    stockId,
+    ticker: stockId.toUpperCase(),
+    exDate: `day-${exDay}`,
+    recordDate: `day-${exDay + 1}`,
+    payDate: `day-${payDay}`,
+    amount,
+    exTimestamp: exDay * DAY_MS,
+    payTimestamp: payDay * DAY_MS,
+  };
+}
+
+function account(overrides: Partial<DividendAccount> = {}): DividendAccount {
+  return {
+    balance: 1000,
+    holdings: { opap: { shares: 100 } },
+    trades: [],
+    dividends: [],
+    dividendsSince: 0,
+    ...overrides,
+  };
+}
+
+// ─── Entitlement ────────────────────────────────────────────────────────────
+
+describe("getEntitledShares", () => {
+  it("should undo trades on or after the ex-date", () => {
+    const shares = getEntitledShares(
+      {
+        holdings: { opap: { shares: 100 } },
+        trades: [
+          { stockId: "opap", type: "buy", shares: 40, timestamp: 5 * DAY_MS },
+          { stockId: "opap", type: "sell", shares: 10, timestamp: 12 * DAY_MS },
+          { stockId: "opap", type: "buy", shares: 30, timestamp: 10 * DAY_MS },
+        ],
+      },
+      "opap",
+      10 * DAY_MS,
+    );
+    // 100 now, minus the ex-day buy of 30, plus the later sale of 10
+    expect(shares).toBe(80);
+  });
+
+  it("should count a position sold on the ex-date", () => {
+    const shares = getEntitledShares(
+      { holdings: {}, trades: [{ stockId: "opap", type: "sell", shares: 50, timestamp: 10 * DAY_MS }] },
+      "opap",
+      10 * DAY_MS,
+    );
+    expect(shares).toBe(50);
+  });
+});
+
+describe("calculateDividend", () => {
+  it("should withhold 5% tax", () => {
+    expect(calculateDividend(100, 0.85)).toEqual({ grossAmount: 85, tax: 4.25, amount: 80.75 });
+  });
+
+  it("should sum net income", () => {
+    expect(totalDividendIncome([{ amount: 10.1 }, { amount: 0.2 }])).toBe(10.3);
+  });
+});
+
+// ─── Crediting ──────────────────────────────────────────────────────────────
+
+describe("creditDueDividends", () => {
+  it("should only start the clock on an account without dividendsSince", () => {
+    const { account: next, credited } = creditDueDividends(
+      account({ dividendsSince: null }),
+      [event("opap", 1, 3, 0.5)],
+      20 * DAY_MS,
+    );
+    expect(credited).toEqual([]);
+    expect(next.dividendsSince).toBe(20 * DAY_MS);
+    expect(next.balance).toBe(1000);
+  });
+
+  it("should credit paid dividends with ex-dates after dividendsSince", () => {
+    const { account: next, credited } = creditDueDividends(
+      account({ dividendsSince: 5 * DAY_MS }),
+      [event("opap", 1, 6, 0.5), event("opap", 10, 15, 0.5), event("opap", 18, 25, 0.5)],
+      20 * DAY_MS,
+    );
+    expect(credited.map((c) => c.id)).toEqual(["opap:10"]);
+    expect(credited[0].amount).toBe(47.5);
+    expect(next.balance).toBe(1047.5);
+    expect(next.dividends).toHaveLength(1);
+  });
+
+  it("should not credit the same dividend twice", () => {
+    const events = [event("opap", 10, 15, 0.5)];
+    const first = creditDueDividends(account(), events, 20 * DAY_MS).account;
+    const second = creditDueDividends(first, events, 21 * DAY_MS);
+    expect(second.credited).toEqual([]);
+    expect(second.account).toBe(first);
+  });
+
+  it("should skip stocks not held at the ex-date", () => {
+    const { credited } = creditDueDividends(
+      account({
+        trades: [{ stockId: "opap", type: "buy", shares: 100, timestamp: 11 * DAY_MS }],
+      }),
+      [event("opap", 10, 15, 0.5), event("ppc", 10, 15, 0.6)],
+      20 * DAY_MS,
+    );
+    expect(credited).toEqual([]);
+  });
+});
+
+// ─── Calendar ───────────────────────────────────────────────────────────────
+
+describe("dividend calendar", () => {
+  it("should resolve fixture rows to ticker events in ex-date order", () => {
+    const events = getDividendEvents(["opap"]);
+    expect(events.length).toBeGreaterThan(0);
+    expect(events.every((e) => e.ticker === "OPAP" && e.payTimestamp > e.exTimestamp)).toBe(true);
+    const exTimes = events.map((e) => e.exTimestamp);
+    expect(exTimes).toEqual([...exTimes].sort((a, b) => a - b));
+  });
+
+  it("should list only unpaid dividends as upcoming", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    const upcoming = getUpcomingDividends(now, ["opap", "ete"]);
+    expect(upcoming.length).toBeGreaterThan(0);
+    expect(upcoming.every((e) => e.payTimestamp > now)).toBe(true);
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Dividend wiring", () => {
+  it("should register the router and store payments", () => {
+    expect(readFile("server/routers.ts")).toContain("dividends: dividendRouter");
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("CREATE TABLE `dividend_payments`");
+  });
+
+  it("should show the calendar instead of hardcoded rows", () => {
+    const section = readFile("components/features/portfolio/dividend-section.tsx");
+    expect(section).not.toContain("€0.60/share");
+    expect(section).toContain("calculateDividend");
+    expect(readFile("app/(tabs)/portfolio.tsx")).toContain("useUpcomingDividends");
+  });
+});
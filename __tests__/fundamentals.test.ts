@@ -0,0 +1,195 @@
+/**
+ * Fundamentals Tests
+ *
+ * Tests for valuation at the current price, compact formatting, the
+ * fundamentals snapshot (fixture provider, caching, failed refreshes),
+ * stocks.getFundamentals over the replay provider, and the asset screen's
+ * Profile/Financials wiring.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  computeValuation,
+  formatCompactEuro,
+  formatMultiple,
+  formatShareCount,
+  type ReportedFundamentals,
+} from "../shared/fundamentals";
+import { FUNDAMENTALS_FIXTURE } from "../server/fixtures/fundamentals";
+import {
+  clearFundamentalsCache,
+  createFixtureFundamentalsProvider,
+  getFundamentalsSnapshot,
+  getStockFundamentals,
+  refreshFundamentals,
+  setFundamentalsProvider,
+} from "../server/fundamentalsService";
+import { setMarketDataProvider } from "../server/marketData";
+import { createReplayProvider } from "../server/replayMarketData";
+import { clearCache } from "../server/stockService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function reported(overrides: Partial<ReportedFundamentals> = {}): ReportedFundamentals {
+  return {
+    ...FUNDAMENTALS_FIXTURE.find((f) => f.stockId === "ete")!,
+    ...overrides,
+  };
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  setFundamentalsProvider(null);
+  setMarketDataProvider(null);
+  await Promise.all([clearFundamentalsCache(), clearCache()]);
+});
+
+// ─── Valuation ──────────────────────────────────────────────────────────────
+
+describe("valuation", () => {
+  it("should value a company at the current price", () => {
+    const valuation = computeValuation(11.8, reported({ eps: 1.18, bookValuePerShare: 9.44 }), 0.59);
+    expect(valuation.marketCap).toBeCloseTo(11.8 * 914_700_000);
+    expect(valuation.peRatio).toBeCloseTo(10);
+    expect(valuation.priceToBook).toBeCloseTo(1.25);
+    expect(valuation.dividendYield).toBeCloseTo(5);
+  });
+
+  it("should prefer the provider's market cap", () => {
+    expect(computeValuation(11.8, reported(), 0, 13.9e9).marketCap).toBe(13.9e9);
+    expect(computeValuation(11.8, null, 0, 13.9e9).marketCap).toBe(13.9e9);
+  });
+
+  it("should leave meaningless ratios out", () => {
+    const loss = computeValuation(1.2, reported({ eps: -0.05, bookValuePerShare: -0.1 }), 0);
+    expect(loss.peRatio).toBeNull();
+    expect(loss.priceToBook).toBeNull();
+    expect(loss.dividendYield).toBe(0);
+
+    const noPrice = computeValuation(0, reported(), 0.5);
+    expect(noPrice).toMatchObject({ marketCap: null, peRatio: null, dividendYield: null, priceToBook: null });
+  });
+
+  it("should format amounts compactly", () => {
+    expect(formatCompactEuro(13.9e9)).toBe("€13.9B");
+    expect(formatCompactEuro(850e6)).toBe("€850M");
+    expect(formatCompactEuro(-18e6)).toBe("-€18.0M");
+    expect(formatCompactEuro(null)).toBe("N/A");
+    expect(formatShareCount(914_700_000)).toBe("914.7M");
+    expect(formatShareCount(3_670_000_000)).toBe("3.67B");
+    expect(formatMultiple(9.84)).toBe("9.8×");
+    expect(formatMultiple(null)).toBe("N/A");
+  });
+});
+
+// ─── Snapshot ───────────────────────────────────────────────────────────────
+
+describe("fundamentals snapshot", () => {
+  it("should serve the fixture for ATHEX stocks only", async () => {
+    setFundamentalsProvider(
+      createFixtureFundamentalsProvider([...FUNDAMENTALS_FIXTURE, reported({ stockId: "nope" })])
+    );
+    const snapshot = await getFundamentalsSnapshot();
+    expect(snapshot.byStock.size).toBe(FUNDAMENTALS_FIXTURE.length);
+    expect(snapshot.byStock.get("opap")?.sharesOutstanding).toBe(370_000_000);
+    expect(snapshot.byStock.has("nope")).toBe(false);
+    expect(snapshot.indicative).toBe(true);
+  });
+
+  it("should only mark a provider's figures indicative when it says so", async () => {
+    setFundamentalsProvider({ name: "filings", getAll: async () => FUNDAMENTALS_FIXTURE });
+    expect((await getFundamentalsSnapshot()).indicative).toBe(false);
+  });
+
+  it("should cache the snapshot between requests", async () => {
+    const getAll = vi.fn(async () => FUNDAMENTALS_FIXTURE);
+    setFundamentalsProvider({ name: "counting", getAll });
+    await getFundamentalsSnapshot();
+    await getFundamentalsSnapshot();
+    expect(getAll).toHaveBeenCalledTimes(1);
+
+    expect(await refreshFundamentals()).toBe(FUNDAMENTALS_FIXTURE.length);
+    expect(getAll).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return an empty snapshot when the provider fails with nothing cached", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setFundamentalsProvider({
+      name: "down",
+      getAll: async () => {
+        throw new Error("upstream down");
+      },
+    });
+    expect((await getFundamentalsSnapshot()).byStock.size).toBe(0);
+  });
+
+  it("should keep the last snapshot when a refresh fails", async () => {
+    await refreshFundamentals();
+    setFundamentalsProvider({
+      name: "down",
+      getAll: async () => {
+        throw new Error("upstream down");
+      },
+    });
+    await expect(refreshFundamentals()).rejects.toThrow("upstream down");
+    expect((await getFundamentalsSnapshot()).byStock.has("ete")).toBe(true);
+  });
+});
+
+// ─── stocks.getFundamentals ─────────────────────────────────────────────────
+
+describe("stocks.getFundamentals", () => {
+  it("should value reported figures at the live quote", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const { fundamentals, quote } = await getStockFundamentals("opap", Date.parse("2026-10-14T09:00:00Z"));
+
+    expect(quote).not.toBeNull();
+    expect(fundamentals?.profile.headquarters).toBe("Athens, Greece");
+    expect(fundamentals?.indicative).toBe(true);
+    expect(fundamentals?.valuation.price).toBe(quote!.price);
+    expect(fundamentals?.valuation.marketCap).toBe(quote!.marketCap);
+    expect(fundamentals?.valuation.peRatio).toBeCloseTo(quote!.price / 1.35);
+    // OPAP went ex €0.50 on 3 Nov 2025 and €0.85 on 28 Apr 2026
+    expect(fundamentals?.valuation.dividendYield).toBeCloseTo((1.35 / quote!.price) * 100);
+  });
+
+  it("should return null for stocks the provider doesn't cover", async () => {
+    setMarketDataProvider(createReplayProvider());
+    expect((await getStockFundamentals("yalco")).fundamentals).toBeNull();
+    expect(await getStockFundamentals("nope")).toEqual({ fundamentals: null, quote: null });
+  });
+
+  it("should expose fundamentals with freshness and keep refreshing them", () => {
+    const router = readFile("server/stockRouter.ts");
+    expect(router).toContain("getFundamentals: publicProcedure");
+    expect(router).toContain("ensureFundamentalsRefreshRunning()");
+    expect(readFile("server/fundamentalsService.ts")).toContain("export function startFundamentalsRefresh");
+  });
+
+  it("should report market cap as a number", () => {
+    expect(readFile("server/stockService.ts")).toContain("marketCap: number | null;");
+    expect(readFile("hooks/use-stocks.ts")).toContain("marketCap: number | null;");
+  });
+});
+
+// ─── Asset Screen ───────────────────────────────────────────────────────────
+
+describe("asset screen fundamentals", () => {
+  it("should show Profile and Financials on the asset screen", () => {
+    const screen = readFile("app/asset/[id].tsx");
+    expect(screen).toContain("useStockFundamentals(id");
+    expect(screen).toContain("<CompanyFundamentals");
+
+    const component = readFile("components/features/asset/company-fundamentals.tsx");
+    expect(component).toContain('label: "Profile"');
+    expect(component).toContain('label: "Financials"');
+    expect(component).toContain('label: "P/E"');
+    expect(component).toContain('label: "Free Float"');
+    expect(component).toContain("fundamentals.indicative ? \"indicative figures (sample data, not reported results)\"");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Technical Indicator Tests
+ *
+ * Tests for the indicator math behind stocks.getIndicators (SMA, EMA,
+ * Bollinger Bands, RSI, MACD, VWAP), warm-up trimming, and the Pro mode
+ * chart wiring on the asset screen.
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import type { ChartDataPoint } from "../server/marketData";
+import { setMarketDataProvider } from "../server/marketData";
+import { createReplayProvider } from "../server/replayMarketData";
+import { clearCache, getStockIndicators } from "../server/stockService";
+import {
+  bollingerBands,
+  computeIndicators,
+  DEFAULT_INDICATOR_OPTIONS,
+  ema,
+  macd,
+  rsi,
+  sma,
+  vwap,
+} from "../server/indicators";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function candle(timestamp: number, close: number, volume = 100, high = close, low = close): ChartDataPoint {
+  return { timestamp, open: close, high, low, close, volume };
+}
+
+const DAY = 24 * 60 * 60;
+
+afterEach(async () => {
+  setMarketDataProvider(null);
+  await clearCache();
+});
+
+describe("moving averages", () => {
+  it("should average the last `period` values once there are enough", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("should seed the EMA with the SMA of its first period", () => {
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    const values = ema([2, 4, 6, 10], 2);
+    expect(values.slice(0, 3)).toEqual([null, 3, 5]);
+    expect(values[3]).toBeCloseTo(25 / 3);
+  });
+
+  it("should start the EMA after leading nulls", () => {
+    expect(ema([null, null, 1, 3, 5], 2)).toEqual([null, null, null, 2, 4]);
+    expect(ema([null, 1], 2)).toEqual([null, null]);
+  });
+});
+
+describe("Bollinger Bands", () => {
+  it("should sit k population standard deviations around the SMA", () => {
+    const { upper, middle, lower } = bollingerBands([1, 2, 3], 3, 2);
+    const deviation = Math.sqrt(2 / 3) * 2;
+    expect(middle[2]).toBe(2);
+    expect(upper[2]).toBeCloseTo(2 + deviation);
+    expect(lower[2]).toBeCloseTo(2 - deviation);
+    expect(upper[1]).toBeNull();
+  });
+
+  it("should collapse onto a flat price", () => {
+    const { upper, lower } = bollingerBands([5, 5, 5, 5], 2, 2);
+    expect(upper.slice(1)).toEqual([5, 5, 5]);
+    expect(lower.slice(1)).toEqual([5, 5, 5]);
+  });
+});
+
+describe("RSI", () => {
+  it("should apply Wilder's smoothing", () => {
+    // Seed: +1, -1 → 50; then +2 → avg gain 1.25, avg loss 0.25 → RS 5
+    expect(rsi([10, 11, 10, 12], 2)).toEqual([null, null, 50, 100 - 100 / 6]);
+  });
+
+  it("should pin rising and flat prices", () => {
+    expect(rsi([1, 2, 3, 4], 2).slice(2)).toEqual([100, 100]);
+    expect(rsi([3, 3, 3, 3], 2).slice(2)).toEqual([50, 50]);
+    expect(rsi([4, 3, 2, 1], 2).slice(2)).toEqual([0, 0]);
+  });
+
+  it("should stay between 0 and 100", () => {
+    const closes = Array.from({ length: 100 }, (_, i) => 20 + Math.sin(i / 3) * 4 + (i % 7) * 0.3);
+    const values = rsi(closes, 14).filter((v): v is number => v !== null);
+    expect(values).toHaveLength(86);
+    for (const v of values) {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThanOrEqual(100);
+    }
+  });
+});
+
+describe("MACD", () => {
+  it("should warm up over the slow EMA and then the signal", () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 10 + i * 0.5);
+    const result = macd(closes, 12, 26, 9);
+    expect(result.macd.findIndex((v) => v !== null)).toBe(25);
+    expect(result.signalLine.findIndex((v) => v !== null)).toBe(33);
+    expect(result.histogram.findIndex((v) => v !== null)).toBe(33);
+    // A steady uptrend keeps the fast EMA above the slow one
+    expect(result.macd[39]).toBeGreaterThan(0);
+    expect(result.histogram[39]).toBeCloseTo((result.macd[39] as number) - (result.signalLine[39] as number));
+  });
+
+  it("should be zero on a flat price", () => {
+    const result = macd(new Array(40).fill(7), 12, 26, 9);
+    expect(result.macd[39]).toBe(0);
+    expect(result.histogram[39]).toBe(0);
+  });
+});
+
+describe("VWAP", () => {
+  it("should weight the typical price by volume", () => {
+    const values = vwap([candle(0, 10, 100, 11, 9), candle(DAY, 20, 300, 21, 19)]);
+    expect(values).toEqual([10, (10 * 100 + 20 * 300) / 400]);
+  });
+
+  it("should restart every Athens session for intraday candles", () => {
+    // 16:55 and 17:00 Athens on 14 Oct, then 10:00 on 15 Oct
+    const close = Date.parse("2026-10-14T13:55:00Z") / 1000;
+    const values = vwap([
+      candle(close, 10, 100),
+      candle(close + 300, 12, 100),
+      candle(Date.parse("2026-10-15T07:00:00Z") / 1000, 20, 100),
+    ]);
+    expect(values).toEqual([10, 11, 20]);
+  });
+
+  it("should leave zero-volume stretches empty", () => {
+    expect(vwap([candle(0, 10, 0), candle(DAY, 12, 50)])).toEqual([null, 12]);
+  });
+});
+
+describe("computeIndicators", () => {
+  const candles = Array.from({ length: 60 }, (_, i) => candle(i * DAY, 10 + (i % 5), 100 + i));
+
+  it("should align every series with the candles", () => {
+    const set = computeIndicators(candles);
+    expect(set.timestamps).toHaveLength(60);
+    expect(set.sma.map((ma) => ma.period)).toEqual([20, 50]);
+    expect(set.ema.map((ma) => ma.period)).toEqual([12]);
+    for (const series of [set.sma[0].values, set.ema[0].values, set.bollinger!.upper, set.rsi!.values, set.macd!.histogram, set.vwap!]) {
+      expect(series).toHaveLength(60);
+    }
+  });
+
+  it("should compute only the requested indicators", () => {
+    const set = computeIndicators(candles, { ...DEFAULT_INDICATOR_OPTIONS, indicators: ["rsi"] });
+    expect(set.rsi).not.toBeNull();
+    expect(set.sma).toEqual([]);
+    expect(set.bollinger).toBeNull();
+    expect(set.macd).toBeNull();
+    expect(set.vwap).toBeNull();
+  });
+
+  it("should warm up on earlier history and return only the candles shown", () => {
+    const from = candles[40].timestamp;
+    const set = computeIndicators(candles, DEFAULT_INDICATOR_OPTIONS, from);
+    const full = computeIndicators(candles);
+
+    expect(set.timestamps[0]).toBe(from);
+    expect(set.close).toHaveLength(20);
+    expect(set.sma[0].values).toEqual(full.sma[0].values.slice(40));
+    expect(set.sma[0].values[0]).not.toBeNull();
+    // VWAP is anchored at the first candle shown
+    expect(set.vwap![0]).toBe(candles[40].close);
+  });
+});
+
+describe("stocks.getIndicators", () => {
+  it("should warm a 1M chart up on 3M history", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const result = (await getStockIndicators("ete", "1M"))!;
+
+    expect(result.indicators.timestamps).toEqual(result.chart.data.map((c) => c.timestamp));
+    // Without warm-up the 20-day SMA would start on the 20th candle shown
+    expect(result.indicators.sma[0].values.findIndex((v) => v !== null)).toBeLessThan(19);
+    expect(result.indicators.rsi!.values[0]).not.toBeNull();
+  });
+
+  it("should be exposed to Pro mode on the asset screen", () => {
+    expect(readFile("server/stockRouter.ts")).toContain("getIndicators: publicProcedure");
+
+    const screen = readFile("app/asset/[id].tsx");
+    expect(screen).toContain("useStockIndicators(id ?? \"\", activePeriod, isPro");
+    expect(screen).toContain("<IndicatorChart");
+
+    expect(readFile("components/ui/cds-line-chart.tsx")).toContain("overlays?: ChartOverlay[]");
+    expect(readFile("components/ui/cds-bar-chart.tsx")).toContain("signed?: boolean");
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Limit & Stop Order Tests
+ *
+ * Tests for resting-order matching rules, price validation, day-order expiry,
+ * the quotes fills are priced off, fill trade IDs, and the server/client
+ * wiring.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { setMarketDataProvider, type MarketChart, type MarketDataProvider } from "../server/marketData";
+import {
+  evaluateOrder,
+  getDayOrderExpiry,
+  orderFillTradeId,
+  validateOrderPrices,
+  type OrderTerms,
+} from "../server/orderService";
+import { clearCache, getStockQuote } from "../server/stockService";
+import type { SnapshotTrade } from "../server/portfolioService";
+import { findPreviousFill, getFillQuote, isQuoteFresh, TradeRejectedError } from "../server/tradeService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function makeOrder(overrides: Partial<OrderTerms> = {}): OrderTerms {
+  return {
+    side: "buy",
+    orderType: "limit",
+    limitPrice: 16,
+    stopPrice: null,
+    stopTriggered: false,
+    ...overrides,
+  };
+}
+
+// ─── evaluateOrder ──────────────────────────────────────────────────────────
+
+describe("evaluateOrder", () => {
+  it("should fill a buy limit at or below the limit", () => {
+    expect(evaluateOrder(makeOrder(), 16.5).fill).toBe(false);
+    expect(evaluateOrder(makeOrder(), 16).fill).toBe(true);
+    expect(evaluateOrder(makeOrder(), 15.8).fill).toBe(true);
+  });
+
+  it("should fill a sell limit at or above the limit", () => {
+    const order = makeOrder({ side: "sell", limitPrice: 20 });
+    expect(evaluateOrder(order, 19.9).fill).toBe(false);
+    expect(evaluateOrder(order, 20.1).fill).toBe(true);
+  });
+
+  it("should fill a sell stop once the price drops to the stop", () => {
+    const order = makeOrder({ side: "sell", orderType: "stop", limitPrice: null, stopPrice: 15 });
+    expect(evaluateOrder(order, 15.2)).toEqual({ triggered: false, fill: false });
+    expect(evaluateOrder(order, 14.9)).toEqual({ triggered: true, fill: true });
+  });
+
+  it("should fill a buy stop once the price rises to the stop", () => {
+    const order = makeOrder({ orderType: "stop", limitPrice: null, stopPrice: 18 });
+    expect(evaluateOrder(order, 17.5).fill).toBe(false);
+    expect(evaluateOrder(order, 18).fill).toBe(true);
+  });
+
+  it("should trigger a stop-limit without filling when the price gaps past the limit", () => {
+    const order = makeOrder({ side: "sell", orderType: "stop_limit", stopPrice: 15, limitPrice: 14.8 });
+    expect(evaluateOrder(order, 14.5)).toEqual({ triggered: true, fill: false });
+  });
+
+  it("should fill a triggered stop-limit when the price comes back within the limit", () => {
+    const order = makeOrder({
+      side: "sell",
+      orderType: "stop_limit",
+      stopPrice: 15,
+      limitPrice: 14.8,
+      stopTriggered: true,
+    });
+    // Above the stop again, but the stop already fired so only the limit matters
+    expect(evaluateOrder(order, 15.1)).toEqual({ triggered: true, fill: true });
+  });
+});
+
+// ─── validateOrderPrices ────────────────────────────────────────────────────
+
+describe("validateOrderPrices", () => {
+  it("should require the prices each order type needs", () => {
+    expect(validateOrderPrices({ side: "buy", orderType: "limit" }, 16)).toBe("Enter a limit price");
+    expect(validateOrderPrices({ side: "sell", orderType: "stop" }, 16)).toBe("Enter a stop price");
+    expect(
+      validateOrderPrices({ side: "sell", orderType: "stop_limit", stopPrice: 15 }, 16),
+    ).toBe("Enter a limit price");
+  });
+
+  it("should accept a limit on either side of the market", () => {
+    expect(validateOrderPrices({ side: "buy", orderType: "limit", limitPrice: 20 }, 16)).toBeNull();
+    expect(validateOrderPrices({ side: "buy", orderType: "limit", limitPrice: 15 }, 16)).toBeNull();
+  });
+
+  it("should reject stops that are already through the market", () => {
+    expect(validateOrderPrices({ side: "buy", orderType: "stop", stopPrice: 15 }, 16)).toMatch(
+      /above the current price/,
+    );
+    expect(validateOrderPrices({ side: "sell", orderType: "stop", stopPrice: 17 }, 16)).toMatch(
+      /below the current price/,
+    );
+  });
+
+  it("should keep a stop-limit's limit on the fillable side of its stop", () => {
+    expect(
+      validateOrderPrices({ side: "buy", orderType: "stop_limit", stopPrice: 17, limitPrice: 16.5 }, 16),
+    ).toMatch(/at or above its stop/);
+    expect(
+      validateOrderPrices({ side: "sell", orderType: "stop_limit", stopPrice: 15, limitPrice: 15.5 }, 16),
+    ).toMatch(/at or below its stop/);
+    expect(
+      validateOrderPrices({ side: "buy", orderType: "stop_limit", stopPrice: 17, limitPrice: 17 }, 16),
+    ).toBeNull();
+    expect(
+      validateOrderPrices({ side: "sell", orderType: "stop_limit", stopPrice: 15, limitPrice: 14.8 }, 16),
+    ).toBeNull();
+  });
+});
+
+// ─── getDayOrderExpiry ──────────────────────────────────────────────────────
+
+describe("getDayOrderExpiry", () => {
+  it("should expire at 17:20 Athens time on the same trading day", () => {
+    // Wednesday 15 Jan 2025, 10:00 Athens (UTC+2)
+    const expiry = getDayOrderExpiry(new Date("2025-01-15T08:00:00Z"));
+    expect(expiry.toISOString()).toBe("2025-01-15T15:20:00.000Z");
+  });
+
+  it("should use the summer-time offset", () => {
+    // Wednesday 16 Jul 2025, 10:00 Athens (UTC+3)
+    const expiry = getDayOrderExpiry(new Date("2025-07-16T07:00:00Z"));
+    expect(expiry.toISOString()).toBe("2025-07-16T14:20:00.000Z");
+  });
+
+  it("should roll orders placed after the close or at weekends to the next weekday", () => {
+    // Friday 17 Jan 2025, 18:00 Athens → Monday 20 Jan
+    const expiry = getDayOrderExpiry(new Date("2025-01-17T16:00:00Z"));
+    expect(expiry.toISOString()).toBe("2025-01-20T15:20:00.000Z");
+  });
+});
+
+// ─── Fill Quotes ────────────────────────────────────────────────────────────
+
+/** A provider whose price goes up a cent per call, failing once `down` is set */
+function tickingProvider() {
+  const state = { calls: 0, down: false };
+  const provider: MarketDataProvider = {
+    name: "ticking",
+    async getChart(symbol): Promise<MarketChart> {
+      if (state.down) throw new Error("upstream down");
+      const price = 16 + state.calls++ / 100;
+      return {
+        symbol,
+        interval: "5m",
+        range: "1d",
+        candles: [{ timestamp: 1, open: price, high: price, low: price, close: price, volume: 100 }],
+        name: null,
+        currency: "EUR",
+        exchange: "ATH",
+        regularMarketPrice: price,
+        previousClose: price,
+        dayHigh: price,
+        dayLow: price,
+        volume: 100,
+        fiftyTwoWeekHigh: null,
+        fiftyTwoWeekLow: null,
+        marketCap: null,
+      };
+    },
+  };
+  return { provider, state };
+}
+
+describe("fill quotes", () => {
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    setMarketDataProvider(null);
+    await clearCache();
+  });
+
+  it("should refetch a stale cached quote before a fill", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { provider, state } = tickingProvider();
+    setMarketDataProvider(provider);
+
+    expect((await getStockQuote("opap"))?.price).toBe(16);
+    vi.setSystemTime(Date.now() + 90_000);
+
+    const quote = await getFillQuote("opap");
+    expect(state.calls).toBe(2);
+    expect(quote?.price).toBe(16.01);
+    expect(isQuoteFresh(quote!)).toBe(true);
+  });
+
+  it("should serve a cached quote still inside the TTL", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { provider, state } = tickingProvider();
+    setMarketDataProvider(provider);
+
+    await getStockQuote("opap");
+    vi.setSystemTime(Date.now() + 30_000);
+    expect((await getFillQuote("opap"))?.price).toBe(16);
+    expect(state.calls).toBe(1);
+  });
+
+  it("should refuse to fill when the refetch fails", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { provider, state } = tickingProvider();
+    setMarketDataProvider(provider);
+
+    await getStockQuote("opap");
+    vi.setSystemTime(Date.now() + 90_000);
+    state.down = true;
+
+    const quote = await getFillQuote("opap");
+    expect(quote?.price).toBe(16);
+    expect(isQuoteFresh(quote!)).toBe(false);
+  });
+});
+
+// ─── Fill trade IDs ─────────────────────────────────────────────────────────
+
+describe("fill trade IDs", () => {
+  const trades: SnapshotTrade[] = [
+    {
+      id: "order-7",
+      stockId: "opap",
+      ticker: "OPAP",
+      name: "OPAP S.A.",
+      type: "buy",
+      amount: 100,
+      shares: 6,
+      price: 16,
+      timestamp: 0,
+    },
+  ];
+
+  it("should fill orders under an ID generated from the order row", () => {
+    expect(orderFillTradeId({ id: 42 })).toBe("order-42");
+  });
+
+  it("should replay a retried market trade", () => {
+    expect(findPreviousFill(trades, "order-7", true)).toBe(trades[0]);
+    expect(findPreviousFill(trades, "order-8", true)).toBeNull();
+  });
+
+  it("should refuse an order fill whose ID is already taken", () => {
+    expect(() => findPreviousFill(trades, "order-7", false)).toThrow(TradeRejectedError);
+    expect(findPreviousFill(trades, "order-8", false)).toBeNull();
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Resting order wiring", () => {
+  it("should define the orders table", () => {
+    expect(readFile("drizzle/schema.ts")).toContain('mysqlTable(\n  "orders"');
+  });
+
+  it("should register the orders router with protected procedures", () => {
+    expect(readFile("server/routers.ts")).toContain("orders: orderRouter");
+    const router = readFile("server/orderRouter.ts");
+    expect(router).toContain("protectedProcedure");
+    expect(router).not.toContain("publicProcedure");
+  });
+
+  it("should match orders from the price alert polling loop", () => {
+    const alerts = readFile("server/priceAlertService.ts");
+    expect(alerts).toContain("getOpenOrderStockIds()");
+    expect(alerts).toContain("matchOpenOrders(quotes)");
+    expect(alerts).toContain("getMultipleQuotes(Array.from(stockIdsToCheck), FILL_QUOTE_OPTIONS)");
+  });
+
+  it("should price market trades and immediate fills off fill quotes", () => {
+    expect(readFile("server/tradeService.ts")).toContain("const quote = await getFillQuote(request.stockId);");
+    expect(readFile("server/orderService.ts")).toContain("const quote = await getFillQuote(request.stockId);");
+  });
+
+  it("should fill resting orders under a server-generated trade ID", () => {
+    const orders = readFile("server/orderService.ts");
+    expect(orders).toContain("id: orderFillTradeId(order),");
+    expect(orders).toContain("{ replay: false },");
+    expect(orders).not.toContain("id: order.orderId,\n        stockId");
+  });
+
+  it("should show pending orders and order types on the Trade tab", () => {
+    const trade = readFile("app/(tabs)/trade.tsx");
+    expect(trade).toContain("<OrderTypeSelector");
+    expect(trade).toContain("<PendingOrdersList");
+    expect(trade).toMatch(/placeOrder\(/);
+  });
+});
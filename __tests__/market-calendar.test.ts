@@ -0,0 +1,159 @@
+/**
+ * Market Calendar Tests
+ *
+ * Tests for the ATHEX calendar (Orthodox Easter, holidays, session phases),
+ * calendar-aware order expiry and alert back-off, and the server/client wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  getMarketHolidays,
+  getMarketStatus,
+  getOrthodoxEaster,
+  isTradingDay,
+} from "../server/marketCalendar";
+import { getDayOrderExpiry } from "../server/orderService";
+import { getNextCheckDelay } from "../server/priceAlertService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+// ─── Holidays ───────────────────────────────────────────────────────────────
+
+describe("getOrthodoxEaster", () => {
+  it("should match known Orthodox Easter dates", () => {
+    expect(getOrthodoxEaster(2024).toISOString().slice(0, 10)).toBe("2024-05-05");
+    expect(getOrthodoxEaster(2025).toISOString().slice(0, 10)).toBe("2025-04-20");
+    expect(getOrthodoxEaster(2026).toISOString().slice(0, 10)).toBe("2026-04-12");
+  });
+});
+
+describe("getMarketHolidays", () => {
+  it("should include the moveable feasts around Easter", () => {
+    const holidays = getMarketHolidays(2025);
+    const byName = new Map(holidays.map((h) => [h.name, h.date]));
+    expect(byName.get("Clean Monday")).toBe("2025-03-03");
+    expect(byName.get("Good Friday")).toBe("2025-04-18");
+    expect(byName.get("Easter Monday")).toBe("2025-04-21");
+    expect(byName.get("Whit Monday")).toBe("2025-06-09");
+  });
+
+  it("should include fixed holidays in date order", () => {
+    const dates = getMarketHolidays(2025).map((h) => h.date);
+    expect(dates).toContain("2025-03-25");
+    expect(dates).toContain("2025-10-28");
+    expect([...dates].sort()).toEqual(dates);
+  });
+});
+
+describe("isTradingDay", () => {
+  it("should reject weekends and holidays", () => {
+    expect(isTradingDay(new Date("2025-01-15T09:00:00Z"))).toBe(true);
+    expect(isTradingDay(new Date("2025-01-18T09:00:00Z"))).toBe(false); // Saturday
+    expect(isTradingDay(new Date("2025-03-03T09:00:00Z"))).toBe(false); // Clean Monday
+  });
+
+  it("should use the Athens calendar day", () => {
+    // 23:30 UTC on Sunday is already Monday 01:30 in Athens
+    expect(isTradingDay(new Date("2025-01-19T23:30:00Z"))).toBe(true);
+  });
+});
+
+// ─── Sessions ───────────────────────────────────────────────────────────────
+
+describe("getMarketStatus", () => {
+  it("should report each session phase in Athens time", () => {
+    // January: Athens is UTC+2
+    expect(getMarketStatus(new Date("2025-01-15T07:30:00Z")).phase).toBe("closed");
+    expect(getMarketStatus(new Date("2025-01-15T08:10:00Z")).phase).toBe("pre_open");
+    expect(getMarketStatus(new Date("2025-01-15T09:00:00Z")).phase).toBe("open");
+    expect(getMarketStatus(new Date("2025-01-15T15:25:00Z")).phase).toBe("closing_auction");
+    expect(getMarketStatus(new Date("2025-01-15T16:00:00Z")).phase).toBe("closed");
+  });
+
+  it("should only be open during continuous trading", () => {
+    expect(getMarketStatus(new Date("2025-01-15T09:00:00Z")).isOpen).toBe(true);
+    expect(getMarketStatus(new Date("2025-01-15T08:10:00Z")).isOpen).toBe(false);
+  });
+
+  it("should follow summer time", () => {
+    // July: Athens is UTC+3, so 07:45Z is 10:45 local
+    expect(getMarketStatus(new Date("2025-07-16T07:45:00Z")).isOpen).toBe(true);
+    expect(getMarketStatus(new Date("2025-07-16T14:25:00Z")).phase).toBe("closing_auction");
+  });
+
+  it("should name the holiday and stay closed all day", () => {
+    const status = getMarketStatus(new Date("2025-03-03T09:00:00Z"));
+    expect(status.phase).toBe("closed");
+    expect(status.isTradingDay).toBe(false);
+    expect(status.holiday).toBe("Clean Monday");
+  });
+
+  it("should find the next open across the Easter weekend", () => {
+    // Thu 17 Apr after the close → Good Friday, weekend, Easter Monday → Tue 22 Apr
+    const status = getMarketStatus(new Date("2025-04-17T16:00:00Z"));
+    expect(new Date(status.nextOpen).toISOString()).toBe("2025-04-22T07:30:00.000Z");
+  });
+
+  it("should find the next open across Christmas", () => {
+    const status = getMarketStatus(new Date("2025-12-23T16:00:00Z"));
+    expect(new Date(status.nextOpen).toISOString()).toBe("2025-12-29T08:30:00.000Z");
+  });
+
+  it("should report today's open and close while trading", () => {
+    const status = getMarketStatus(new Date("2025-01-15T09:00:00Z"));
+    expect(new Date(status.nextOpen).toISOString()).toBe("2025-01-15T08:30:00.000Z");
+    expect(new Date(status.nextClose).toISOString()).toBe("2025-01-15T15:20:00.000Z");
+  });
+});
+
+describe("Calendar-aware scheduling", () => {
+  it("should expire day orders at the next session close after a holiday", () => {
+    const expiry = getDayOrderExpiry(new Date("2025-04-17T16:00:00Z"));
+    expect(expiry.toISOString()).toBe("2025-04-22T14:20:00.000Z");
+  });
+
+  it("should poll every 5 minutes while open", () => {
+    expect(getNextCheckDelay(new Date("2025-01-15T09:00:00Z"))).toBe(5 * 60 * 1000);
+  });
+
+  it("should back off while closed", () => {
+    expect(getNextCheckDelay(new Date("2025-01-18T12:00:00Z"))).toBe(30 * 60 * 1000);
+  });
+
+  it("should not sleep past the next open", () => {
+    // 10:20 Athens, pre-open: continuous trading starts in 10 minutes
+    expect(getNextCheckDelay(new Date("2025-01-15T08:20:00Z"))).toBe(10 * 60 * 1000);
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Market hours wiring", () => {
+  it("should register the market router", () => {
+    const routers = readFile("server/routers.ts");
+    expect(routers).toContain("market: marketRouter");
+  });
+
+  it("should queue trades while the market is closed", () => {
+    const tradeRouter = readFile("server/tradeRouter.ts");
+    expect(tradeRouter).toContain("getMarketStatus()");
+    expect(tradeRouter).toContain("queueMarketOrder(");
+  });
+
+  it("should only match orders during the session", () => {
+    const orderService = readFile("server/orderService.ts");
+    expect(orderService).toContain("getNextSessionClose(");
+    expect(orderService).toContain("getMarketStatus().isOpen");
+  });
+
+  it("should show the server's market phase in the markets header", () => {
+    const header = readFile("components/features/markets/markets-header.tsx");
+    expect(header).toContain("useMarketStatus()");
+    expect(header).not.toContain("getDay()");
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Market Data Provider Tests
+ *
+ * Tests for the replay provider's simulated clock, range aggregation and
+ * derived quote fields, the Yahoo provider's batched charts, provider
+ * selection from the environment, and stockService building quotes and
+ * charts from the active provider.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { createMarketDataProvider, setMarketDataProvider } from "../server/marketData";
+import { aggregateCandles, createReplayProvider } from "../server/replayMarketData";
+import { SAMPLE_REPLAY_RECORDING } from "../server/fixtures/marketReplay";
+import { createYahooProvider, parseYahooCharts } from "../server/yahooMarketData";
+import { getAthensDateKey } from "../server/marketCalendar";
+import { clearCache, getMultipleQuotes, getStockChart, getStockQuote } from "../server/stockService";
+
+const MINUTE_MS = 60 * 1000;
+const SESSION_CANDLES = 82;
+const START = Date.parse("2026-10-19T09:00:00Z");
+
+/** A replay started at START whose clock then moves on by `elapsedMs` */
+function replayAfter(elapsedMs: number, speed?: number) {
+  let elapsed = 0;
+  const replay = createReplayProvider({
+    recording: SAMPLE_REPLAY_RECORDING,
+    speed,
+    now: () => START + elapsed,
+  });
+  elapsed = elapsedMs;
+  return replay;
+}
+
+// ─── Replay Clock ───────────────────────────────────────────────────────────
+
+describe("replay provider clock", () => {
+  it("should reveal one 5-minute candle per five real minutes", async () => {
+    expect((await replayAfter(0).getChart("ETE.AT", "5m", "1d"))?.candles).toHaveLength(1);
+    expect((await replayAfter(12 * MINUTE_MS).getChart("ETE.AT", "5m", "1d"))?.candles).toHaveLength(3);
+  });
+
+  it("should run faster with a higher speed", async () => {
+    const replay = replayAfter(10 * MINUTE_MS, 5);
+    expect((await replay.getChart("ETE.AT", "5m", "1d"))?.candles).toHaveLength(11);
+  });
+
+  it("should shift the replayed session onto today", async () => {
+    const replay = replayAfter(0);
+    const chart = await replay.getChart("OPAP.AT", "5m", "1d");
+    const [first] = chart!.candles;
+    expect(getAthensDateKey(new Date(first.timestamp * 1000))).toBe(getAthensDateKey(new Date(START)));
+  });
+
+  it("should loop back to the first session after the last", async () => {
+    const candles = SAMPLE_REPLAY_RECORDING.symbols["ETE.AT"].intraday.length;
+    const replay = replayAfter(candles * 5 * MINUTE_MS);
+    expect((await replay.getChart("ETE.AT", "5m", "1d"))?.candles).toHaveLength(1);
+  });
+
+  it("should return null for symbols missing from the recording", async () => {
+    expect(await replayAfter(0).getChart("NOPE.AT", "5m", "1d")).toBeNull();
+  });
+});
+
+// ─── Ranges and Quote Fields ────────────────────────────────────────────────
+
+describe("replay provider charts", () => {
+  // Ten candles into the second recorded session
+  const elapsed = (SESSION_CANDLES + 9) * 5 * MINUTE_MS;
+  const recorded = SAMPLE_REPLAY_RECORDING.symbols["ETE.AT"];
+
+  it("should take the previous close from the prior session", async () => {
+    const chart = await replayAfter(elapsed).getChart("ETE.AT", "5m", "1d");
+    expect(chart?.candles).toHaveLength(10);
+    expect(chart?.previousClose).toBe(recorded.intraday[SESSION_CANDLES - 1][4]);
+    expect(chart?.regularMarketPrice).toBe(recorded.intraday[SESSION_CANDLES + 9][4]);
+  });
+
+  it("should aggregate five sessions to 15-minute candles", async () => {
+    const chart = await replayAfter(elapsed).getChart("ETE.AT", "15m", "5d");
+    const candles = chart!.candles;
+    expect(candles.length).toBeLessThan(SESSION_CANDLES + 10);
+    const volume = recorded.intraday.slice(0, SESSION_CANDLES + 10).reduce((sum, c) => sum + c[5], 0);
+    expect(candles.reduce((sum, c) => sum + c.volume, 0)).toBe(volume);
+  });
+
+  it("should end daily ranges with today's candle so far", async () => {
+    const intraday = await replayAfter(elapsed).getChart("ETE.AT", "5m", "1d");
+    const daily = await replayAfter(elapsed).getChart("ETE.AT", "1d", "3mo");
+    const today = daily!.candles[daily!.candles.length - 1];
+    expect(today.close).toBe(intraday!.regularMarketPrice);
+    expect(today.high).toBe(intraday!.dayHigh);
+    expect(today.volume).toBe(intraday!.volume);
+  });
+
+  it("should merge candles by bucket", () => {
+    const candle = (timestamp: number, close: number) => ({
+      timestamp,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 10,
+    });
+    const merged = aggregateCandles([candle(0, 1), candle(1, 3), candle(2, 2)], () => "all");
+    expect(merged).toEqual([{ timestamp: 0, open: 1, high: 3, low: 1, close: 2, volume: 30 }]);
+  });
+});
+
+// ─── Yahoo ──────────────────────────────────────────────────────────────────
+
+/** A get_stock_chart response led by `lead`, with closes per comparison */
+function yahooResponse(lead: string, comparisons: Record<string, number[]>) {
+  return {
+    chart: {
+      result: [
+        {
+          meta: {
+            symbol: lead,
+            currency: "EUR",
+            exchangeName: "ATH",
+            regularMarketPrice: 15.4,
+            chartPreviousClose: 15,
+            regularMarketVolume: 120_000,
+            fiftyTwoWeekHigh: 16,
+            fiftyTwoWeekLow: 9,
+            longName: "Lead S.A.",
+          },
+          timestamp: [100, 400, 700],
+          indicators: {
+            quote: [
+              {
+                open: [15, 15.2, 15.3],
+                high: [15.2, 15.4, 15.5],
+                low: [15, 15.1, 15.2],
+                close: [15.2, 15.3, 15.4],
+                volume: [10, 20, 30],
+              },
+            ],
+          },
+          comparisons: Object.entries(comparisons).map(([symbol, close]) => ({
+            symbol,
+            open: close,
+            high: close.map((c) => c + 0.1),
+            low: close.map((c) => c - 0.1),
+            close,
+            chartPreviousClose: 4,
+          })),
+        },
+      ],
+    },
+  };
+}
+
+describe("yahoo provider", () => {
+  it("should read the lead's quote fields and each comparison's candles", () => {
+    const charts = parseYahooCharts(
+      yahooResponse("ETE.AT", { "OPAP.AT": [4, 4.2, 4.1] }),
+      ["ETE.AT", "OPAP.AT", "NOPE.AT"],
+      "5m",
+      "1d",
+    );
+    expect(charts.get("ETE.AT")).toMatchObject({ regularMarketPrice: 15.4, volume: 120_000, name: "Lead S.A." });
+    expect(charts.get("OPAP.AT")).toMatchObject({
+      regularMarketPrice: 4.1,
+      previousClose: 4,
+      dayHigh: 4.3,
+      volume: null,
+      fiftyTwoWeekHigh: null,
+    });
+    expect(charts.get("OPAP.AT")?.candles).toHaveLength(3);
+    expect(charts.has("NOPE.AT")).toBe(false);
+  });
+
+  it("should fetch a batch in one call and rotate the lead", async () => {
+    const queries: Record<string, unknown>[] = [];
+    const yahoo = createYahooProvider({
+      callApi: async (_apiId, options) => {
+        queries.push(options?.query ?? {});
+        const [lead, others] = [String(options?.query?.symbol), String(options?.query?.comparisons).split(",")];
+        return yahooResponse(lead, Object.fromEntries(others.map((s) => [s, [4, 4.1]])));
+      },
+    });
+    const symbols = ["ETE.AT", "OPAP.AT", "PPC.AT"];
+
+    const first = await yahoo.getCharts!(symbols, "5m", "1d");
+    const second = await yahoo.getCharts!(symbols, "5m", "1d");
+    expect([...first.keys()].sort()).toEqual([...symbols].sort());
+    expect(queries).toHaveLength(2);
+    expect(queries.map((q) => q.symbol)).toEqual(["ETE.AT", "OPAP.AT"]);
+    expect(queries[1].comparisons).toBe("ETE.AT,PPC.AT");
+    expect(second.get("OPAP.AT")?.volume).toBe(120_000);
+  });
+
+  it("should keep the last volume and 52-week range for batched quotes", async () => {
+    const yahoo = createYahooProvider({
+      callApi: async (_apiId, options) => {
+        const symbol = String(options?.query?.symbol);
+        const others = options?.query?.comparisons ? String(options.query.comparisons).split(",") : [];
+        return yahooResponse(symbol, Object.fromEntries(others.map((s) => [s, [15.1, 15.2]])));
+      },
+    });
+    setMarketDataProvider(yahoo);
+    await clearCache();
+
+    const full = await getStockQuote("ete");
+    expect(full?.volume).toBe(120_000);
+    // OPAP leads the batch, so ETE comes back as a comparison
+    const quotes = await getMultipleQuotes(["opap", "ete"], { fresh: true });
+    const batched = quotes.find((q) => q.id === "ete")!;
+    expect(batched.price).toBe(15.2);
+    expect(batched.volume).toBe(120_000);
+    expect(batched.fiftyTwoWeekHigh).toBe(16);
+
+    setMarketDataProvider(null);
+    await clearCache();
+  });
+});
+
+// ─── Selection and stockService ─────────────────────────────────────────────
+
+describe("market data provider selection", () => {
+  afterEach(async () => {
+    setMarketDataProvider(null);
+    await clearCache();
+    vi.restoreAllMocks();
+  });
+
+  it("should build the provider named by MARKET_DATA_PROVIDER", () => {
+    expect(createMarketDataProvider("replay").name).toBe("replay");
+    expect(createMarketDataProvider("yahoo").name).toBe("yahoo");
+  });
+
+  it("should fall back to yahoo for unknown providers", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(createMarketDataProvider("bloomberg").name).toBe("yahoo");
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it("should build quotes and charts from the active provider", async () => {
+    const replay = replayAfter((SESSION_CANDLES + 9) * 5 * MINUTE_MS);
+    setMarketDataProvider(replay);
+    await clearCache();
+
+    const chart = await replay.getChart("ETE.AT", "5m", "1d");
+    const quote = await getStockQuote("ete");
+    expect(quote?.price).toBe(chart?.regularMarketPrice);
+    expect(quote?.dayHigh).toBe(chart?.dayHigh);
+    expect(quote?.marketCap).toBe(13_900_000_000);
+
+    const stockChart = await getStockChart("ete", "1D");
+    expect(stockChart?.data).toHaveLength(10);
+    expect(stockChart?.interval).toBe("5m");
+  });
+});
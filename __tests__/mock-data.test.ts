@@ -77,6 +77,12 @@ describe("Mock Data Layer", () => {
         expect(h.shares).toBeGreaterThan(0);
       });
     });
+
+    it("should seed whole shares, as ATHEX trades", () => {
+      PORTFOLIO_HOLDINGS.forEach((h) => {
+        expect(Number.isInteger(h.shares)).toBe(true);
+      });
+    });
   });
 
   describe("SOCIAL_FEED", () => {
@@ -0,0 +1,128 @@
+/**
+ * Portfolio Performance Tests
+ *
+ * Tests for portfolio valuation, time- and money-weighted returns, and the
+ * history chart wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  calculateMoneyWeightedReturn,
+  calculateTimeWeightedReturn,
+  valuePortfolio,
+  type ValuePoint,
+} from "../server/performanceService";
+
+const ROOT = path.resolve(__dirname, "..");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function point(day: number, value: number, flow = 0): ValuePoint {
+  return { timestamp: day * DAY_MS, value, flow };
+}
+
+// ─── Valuation ──────────────────────────────────────────────────────────────
+
+describe("valuePortfolio", () => {
+  const snapshot = {
+    balance: 500,
+    holdings: {
+      opap: { stockId: "opap", ticker: "OPAP", name: "OPAP S.A.", shares: 10, totalCost: 150 },
+      mytil: { stockId: "mytil", ticker: "MYTIL", name: "Metlen", shares: 2, totalCost: 60 },
+    },
+  };
+
+  it("should value holdings at the quoted price", () => {
+    const valuation = valuePortfolio(snapshot, [
+      { id: "opap", price: 16 },
+      { id: "mytil", price: 35 },
+    ]);
+    expect(valuation).toEqual({ cash: 500, holdingsValue: 230, value: 730 });
+  });
+
+  it("should carry holdings without a quote at cost", () => {
+    const valuation = valuePortfolio(snapshot, [{ id: "opap", price: 16 }]);
+    expect(valuation.holdingsValue).toBe(220);
+    expect(valuation.value).toBe(720);
+  });
+});
+
+// ─── Returns ────────────────────────────────────────────────────────────────
+
+describe("calculateTimeWeightedReturn", () => {
+  it("should chain daily returns", () => {
+    const twr = calculateTimeWeightedReturn([point(0, 100), point(1, 110), point(2, 99)]);
+    expect(twr).toBeCloseTo(-1); // 1.10 × 0.90 − 1
+  });
+
+  it("should not count a deposit as performance", () => {
+    const twr = calculateTimeWeightedReturn([point(0, 100), point(1, 1100, 1000), point(2, 1210)]);
+    expect(twr).toBeCloseTo(10);
+  });
+
+  it("should measure through an account reset", () => {
+    // Down 20%, then the account is reset to €100,000 and gains 5%
+    const twr = calculateTimeWeightedReturn([
+      point(0, 100000),
+      point(1, 80000),
+      point(2, 105000, 20000),
+    ]);
+    expect(twr).toBeCloseTo(-16); // 0.80 × 1.05 − 1
+  });
+
+  it("should skip periods that start from nothing", () => {
+    const twr = calculateTimeWeightedReturn([point(0, 0), point(1, 1000, 1000), point(2, 1050)]);
+    expect(twr).toBeCloseTo(5);
+  });
+});
+
+describe("calculateMoneyWeightedReturn", () => {
+  it("should match the time-weighted return without flows", () => {
+    const points = [point(0, 100), point(10, 105), point(30, 121)];
+    expect(calculateMoneyWeightedReturn(points)).toBeCloseTo(calculateTimeWeightedReturn(points), 2);
+  });
+
+  it("should weight returns by the money invested", () => {
+    // Small gain on €100, then a large loss after a €1,000 deposit
+    const points = [point(0, 100), point(30, 120), point(60, 990, 1000)];
+    const mwr = calculateMoneyWeightedReturn(points)!;
+    const twr = calculateTimeWeightedReturn(points);
+    expect(mwr).toBeLessThan(twr);
+    expect(mwr).toBeLessThan(0);
+  });
+
+  it("should return zero for a single point", () => {
+    expect(calculateMoneyWeightedReturn([point(0, 100)])).toBe(0);
+  });
+
+  it("should return null when no rate solves the cash flows", () => {
+    expect(calculateMoneyWeightedReturn([point(0, 0), point(1, 0)])).toBeNull();
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Portfolio history wiring", () => {
+  it("should expose a protected history endpoint", () => {
+    const router = readFile("server/portfolioRouter.ts");
+    expect(router).toContain("getHistory: protectedProcedure");
+    expect(router).toContain("ensureSnapshotJobRunning()");
+  });
+
+  it("should store daily values in a migration-backed table", () => {
+    expect(readFile("drizzle/schema.ts")).toContain('mysqlTable(\n  "portfolio_history"');
+    const migrations = fs.readdirSync(path.join(ROOT, "drizzle")).filter((f) => f.endsWith(".sql"));
+    expect(migrations.some((f) => readFile(`drizzle/${f}`).includes("CREATE TABLE `portfolio_history`"))).toBe(true);
+  });
+
+  it("should chart the recorded history on the home hero", () => {
+    const home = readFile("app/(tabs)/index.tsx");
+    expect(home).toContain("usePortfolioHistory(historyRange)");
+    expect(home).toContain("onRangeChange={setHistoryRange}");
+    expect(readFile("components/features/home/portfolio-hero.tsx")).toContain("HISTORY_RANGES.map");
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Portfolio Sync Tests
+ *
+ * Tests for server-side demo portfolio persistence: trade application,
+ * merging, server-built accounts, and the client/server wiring.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  applyTrade,
+  mergeSnapshots,
+  openAccount,
+  type PortfolioSnapshot,
+  type SnapshotTrade,
+} from "../server/portfolioService";
+import { buildSeedHoldings, calculateSeedBalance, DEMO_BALANCE } from "../shared/demoAccount";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function makeSnapshot(overrides: Partial<PortfolioSnapshot> = {}): PortfolioSnapshot {
+  return {
+    balance: 1000,
+    holdings: {
+      opap: { stockId: "opap", ticker: "OPAP", name: "OPAP S.A.", shares: 10, totalCost: 160 },
+    },
+    trades: [],
+    xp: 100,
+    streak: 2,
+    broker: "piraeus",
+    shareMode: "whole",
+    costBasisMethod: "fifo",
+    dividends: [],
+    dividendsSince: null,
+    corporateActions: [],
+    corporateActionsSince: null,
+    ...overrides,
+  };
+}
+
+function makeTrade(overrides: Partial<SnapshotTrade> = {}): SnapshotTrade {
+  return {
+    id: "trade-1",
+    stockId: "opap",
+    ticker: "OPAP",
+    name: "OPAP S.A.",
+    type: "buy",
+    amount: 100,
+    shares: 5,
+    price: 20,
+    timestamp: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+// ─── applyTrade ─────────────────────────────────────────────────────────────
+
+describe("applyTrade", () => {
+  it("should debit balance and add shares on buy", () => {
+    const result = applyTrade(makeSnapshot(), makeTrade());
+    expect(result).not.toBeNull();
+    expect(result!.balance).toBe(900);
+    expect(result!.holdings.opap.shares).toBe(15);
+    expect(result!.holdings.opap.totalCost).toBe(260);
+    expect(result!.trades).toHaveLength(1);
+  });
+
+  it("should create a new holding for a first buy", () => {
+    const result = applyTrade(
+      makeSnapshot(),
+      makeTrade({ stockId: "ete", ticker: "ETE", name: "National Bank of Greece" }),
+    );
+    expect(result!.holdings.ete.shares).toBe(5);
+    expect(result!.holdings.ete.totalCost).toBe(100);
+  });
+
+  it("should reject a buy larger than the balance", () => {
+    expect(applyTrade(makeSnapshot(), makeTrade({ amount: 5000 }))).toBeNull();
+  });
+
+  it("should credit balance and remove average cost on sell", () => {
+    const result = applyTrade(makeSnapshot(), makeTrade({ type: "sell", shares: 5, amount: 100 }));
+    expect(result!.balance).toBe(1100);
+    expect(result!.holdings.opap.shares).toBe(5);
+    expect(result!.holdings.opap.totalCost).toBe(80);
+  });
+
+  it("should remove the holding when all shares are sold", () => {
+    const result = applyTrade(makeSnapshot(), makeTrade({ type: "sell", shares: 10, amount: 200 }));
+    expect(result!.holdings.opap).toBeUndefined();
+  });
+
+  it("should reject selling more shares than held", () => {
+    expect(applyTrade(makeSnapshot(), makeTrade({ type: "sell", shares: 11 }))).toBeNull();
+  });
+});
+
+// ─── mergeSnapshots ─────────────────────────────────────────────────────────
+
+describe("mergeSnapshots", () => {
+  it("should keep the server's balance, holdings and trades", () => {
+    const serverTrade = makeTrade({ id: "server-1", timestamp: 1 });
+    const server = applyTrade(makeSnapshot(), serverTrade)!;
+    const client = applyTrade(makeSnapshot(), makeTrade({ id: "client-1", timestamp: 2 }))!;
+
+    const { snapshot, rejectedTradeIds } = mergeSnapshots(server, client);
+
+    expect(rejectedTradeIds).toEqual(["client-1"]);
+    expect(snapshot.trades.map((t) => t.id)).toEqual(["server-1"]);
+    expect(snapshot.balance).toBe(900);
+    expect(snapshot.holdings.opap.shares).toBe(15);
+  });
+
+  it("should not reject trades the server already has", () => {
+    const shared = makeTrade({ id: "shared" });
+    const server = applyTrade(makeSnapshot(), shared)!;
+    const client = applyTrade(makeSnapshot(), shared)!;
+
+    const { snapshot, rejectedTradeIds } = mergeSnapshots(server, client);
+    expect(rejectedTradeIds).toEqual([]);
+    expect(snapshot.trades).toHaveLength(1);
+    expect(snapshot.balance).toBe(900);
+  });
+
+  it("should refuse a client fill at an off-market price", () => {
+    // OPAP trades around €17; the client claims it sold 10 shares at €500
+    const client = applyTrade(
+      makeSnapshot(),
+      makeTrade({ id: "client-sell", type: "sell", shares: 10, price: 500, amount: 5000 }),
+    )!;
+    expect(client.balance).toBe(6000);
+
+    const { snapshot, rejectedTradeIds } = mergeSnapshots(makeSnapshot(), client);
+    expect(rejectedTradeIds).toEqual(["client-sell"]);
+    expect(snapshot.balance).toBe(1000);
+    expect(snapshot.holdings.opap.shares).toBe(10);
+  });
+
+  it("should ignore a fabricated client balance and holdings", () => {
+    const client = makeSnapshot({
+      balance: 1_000_000_000,
+      holdings: { ete: { stockId: "ete", ticker: "ETE", name: "ETE", shares: 1e6, totalCost: 1 } },
+    });
+
+    const { snapshot } = mergeSnapshots(makeSnapshot(), client);
+    expect(snapshot.balance).toBe(1000);
+    expect(Object.keys(snapshot.holdings)).toEqual(["opap"]);
+  });
+
+  it("should keep the higher XP and streak", () => {
+    const { snapshot } = mergeSnapshots(
+      makeSnapshot({ xp: 300, streak: 1 }),
+      makeSnapshot({ xp: 200, streak: 4 }),
+    );
+    expect(snapshot.xp).toBe(300);
+    expect(snapshot.streak).toBe(4);
+  });
+});
+
+// ─── openAccount ────────────────────────────────────────────────────────────
+
+describe("openAccount", () => {
+  it("should start from the seed whatever balance and holdings the client sends", () => {
+    const client = makeSnapshot({
+      balance: 1_000_000_000,
+      holdings: { ete: { stockId: "ete", ticker: "ETE", name: "ETE", shares: 1e6, totalCost: 1 } },
+      trades: [makeTrade({ id: "made-up", price: 0.01 })],
+      broker: "eurobank",
+      xp: 500,
+    });
+
+    const account = openAccount(client, 1_760_000_000_000);
+    expect(account.balance).toBe(calculateSeedBalance());
+    expect(account.holdings).toEqual(buildSeedHoldings());
+    expect(account.trades).toEqual([]);
+    expect(account.dividendsSince).toBe(1_760_000_000_000);
+    // Settings and progress are the client's
+    expect(account.broker).toBe("eurobank");
+    expect(account.xp).toBe(500);
+  });
+
+  it("should be worth the demo balance at cost", () => {
+    const account = openAccount(makeSnapshot());
+    const invested = Object.values(account.holdings).reduce((sum, h) => sum + h.totalCost, 0);
+    expect(account.balance + invested).toBeCloseTo(DEMO_BALANCE);
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Portfolio persistence wiring", () => {
+  it("should define portfolios, holdings and trades tables", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('mysqlTable("portfolios"');
+    expect(schema).toContain('mysqlTable(\n  "holdings"');
+    expect(schema).toContain('mysqlTable(\n  "trades"');
+  });
+
+  it("should register the portfolio router with protected procedures", () => {
+    expect(readFile("server/routers.ts")).toContain("portfolio: portfolioRouter");
+    const router = readFile("server/portfolioRouter.ts");
+    expect(router).toContain("protectedProcedure");
+    expect(router).not.toContain("publicProcedure");
+  });
+
+  it("should sync DemoProvider state through tRPC", () => {
+    const ctx = readFile("lib/demo-context.tsx");
+    expect(ctx).toContain("trpc.portfolio.sync.useMutation");
+    expect(ctx).toContain("STORAGE_KEY_SYNC");
+  });
+
+  it("should execute signed-in trades through the trades router", () => {
+    expect(readFile("server/routers.ts")).toContain("trades: tradeRouter");
+    expect(readFile("server/tradeRouter.ts")).toContain("protectedProcedure");
+    expect(readFile("lib/demo-context.tsx")).toContain("trpc.trades.execute.useMutation");
+  });
+
+  it("should build new and reset accounts on the server", () => {
+    const service = readFile("server/portfolioService.ts");
+    expect(service.match(/const snapshot = openAccount\(request\.snapshot\)/g)).toHaveLength(2);
+    expect(service).not.toContain("toWrite(request.snapshot)");
+  });
+
+  it("should fill trades at the server's own quote", () => {
+    const service = readFile("server/tradeService.ts");
+    expect(service).toContain("const quote = await getFillQuote(request.stockId);");
+    expect(service).toContain("return getStockQuote(stockId, FILL_QUOTE_OPTIONS);");
+    expect(readFile("server/tradeRouter.ts")).not.toMatch(/price:\s*z\./);
+  });
+
+  it("should place DemoProvider inside the tRPC provider", () => {
+    const layout = readFile("app/_layout.tsx");
+    expect(layout.indexOf("<trpc.Provider")).toBeLessThan(layout.indexOf("<DemoProvider>"));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Price Alert Persistence Tests
+ *
+ * Tests for restoring a re-registering client's alerts, the alert checks
+ * the database-backed service runs, behaviour without a database, and the
+ * schema/router/client wiring for persisted alerts and preferences.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  addAlert,
+  checkAlertCondition,
+  DEFAULT_PREFERENCES,
+  getAlerts,
+  isInQuietHours,
+  MAX_ALERTS,
+  planAlertRestore,
+  PriceAlertError,
+  type AlertDraft,
+  type AlertMarketSnapshot,
+  type PriceAlert,
+} from "../server/priceAlertService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function draft(overrides: Partial<AlertDraft> = {}): AlertDraft {
+  return { stockId: "opap", stockName: "OPAP", type: "above", threshold: 16, enabled: true, ...overrides };
+}
+
+function alert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return { id: "1", lastTriggered: null, createdAt: 0, ...draft(), referencePrice: null, channels: ["push"], ...overrides };
+}
+
+function market(price: number, overrides: Partial<AlertMarketSnapshot> = {}): AlertMarketSnapshot {
+  return {
+    price,
+    previousClose: price,
+    open: null,
+    volume: 0,
+    averageVolume: null,
+    sma: {},
+    priorHigh52w: null,
+    priorLow52w: null,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ─── Restore on Re-registration ─────────────────────────────────────────────
+
+describe("planAlertRestore", () => {
+  it("should restore the client's alerts when the server has none", () => {
+    const drafts = [draft(), draft({ stockId: "ete", stockName: "ETE", type: "below", threshold: 7 })];
+    expect(planAlertRestore(0, drafts)).toEqual(drafts);
+  });
+
+  it("should keep the server's alerts when it already has some", () => {
+    expect(planAlertRestore(2, [draft()])).toEqual([]);
+  });
+
+  it("should drop duplicates and cap at the alert limit", () => {
+    expect(planAlertRestore(0, [draft(), draft(), draft({ enabled: false })])).toHaveLength(1);
+
+    const many = Array.from({ length: MAX_ALERTS + 10 }, (_, i) => draft({ threshold: i + 1 }));
+    expect(planAlertRestore(0, many)).toHaveLength(MAX_ALERTS);
+  });
+});
+
+// ─── Alert Checks ───────────────────────────────────────────────────────────
+
+describe("alert checks", () => {
+  it("should compare crosses against the persisted previous price", () => {
+    const cross = alert({ type: "sma_cross_above", threshold: 50 });
+    const now = market(10.5, { sma: { 50: 10.2 } });
+    expect(checkAlertCondition(cross, now, 10)).toBe(true);
+    expect(checkAlertCondition(cross, now, 10.3)).toBe(false);
+    expect(checkAlertCondition(cross, now, undefined)).toBe(false);
+  });
+
+  it("should respect the cooldown from the stored trigger time", () => {
+    const now = Date.parse("2026-10-14T10:00:00Z");
+    expect(checkAlertCondition(alert({ lastTriggered: now - 10 * 60_000 }), market(17), undefined, now)).toBe(false);
+    expect(checkAlertCondition(alert({ lastTriggered: now - 31 * 60_000 }), market(17), undefined, now)).toBe(true);
+    expect(checkAlertCondition(alert({ enabled: false }), market(17), undefined, now)).toBe(false);
+  });
+
+  it("should handle overnight quiet hours", () => {
+    const prefs = { ...DEFAULT_PREFERENCES, quietHoursStart: 22, quietHoursEnd: 7 };
+    expect(isInQuietHours(prefs, new Date(2026, 9, 14, 23))).toBe(true);
+    expect(isInQuietHours(prefs, new Date(2026, 9, 14, 6))).toBe(true);
+    expect(isInQuietHours(prefs, new Date(2026, 9, 14, 12))).toBe(false);
+    expect(isInQuietHours(DEFAULT_PREFERENCES, new Date(2026, 9, 14, 23))).toBe(false);
+  });
+});
+
+// ─── Without a Database ─────────────────────────────────────────────────────
+
+describe("without a database", () => {
+  it("should return no alerts and refuse new ones", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(await getAlerts({ deviceId: "agrx-missing" })).toEqual([]);
+    await expect(addAlert({ deviceId: "agrx-missing" }, draft())).rejects.toBeInstanceOf(PriceAlertError);
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("persistence wiring", () => {
+  it("should store devices, alerts and preferences in the database", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('"notification_devices",');
+    expect(schema).toContain('"price_alerts",');
+    expect(schema).toContain('mysqlTable("notification_preferences"');
+
+    const migrations = fs
+      .readdirSync(path.join(ROOT, "drizzle"))
+      .filter((f) => f.endsWith(".sql"))
+      .map((f) => readFile(`drizzle/${f}`))
+      .join("\n");
+    expect(migrations).toContain("CREATE TABLE `price_alerts`");
+
+    const service = readFile("server/priceAlertService.ts");
+    expect(service).not.toContain("new Map<string, DeviceRegistration>");
+    expect(service).toContain("markPriceAlertTriggered(");
+    expect(service).toContain("setPriceAlertLastPrice(");
+  });
+
+  it("should send the client's alerts and preferences when it registers", () => {
+    const router = readFile("server/notificationRouter.ts");
+    expect(router).toContain("alerts: z.array(alertDraftSchema)");
+    expect(router).toContain("restoredAlerts: device.restoredAlerts");
+
+    const context = readFile("lib/notification-context.tsx");
+    expect(context).toContain('ALERTS_CACHE_KEY = "@agrx/price-alerts"');
+    expect(context).toContain("preferences: cachedPrefs ?? undefined");
+  });
+});
@@ -49,7 +49,8 @@ describe("PriceAlertService", () => {
   });
 
   it("should use Expo push notification API for delivery", () => {
-    expect(serviceContent).toContain("https://exp.host/--/api/v2/push/send");
+    const deliveryContent = fs.readFileSync(path.resolve(__dirname, "../server/alertDelivery.ts"), "utf-8");
+    expect(deliveryContent).toContain("https://exp.host/--/api/v2/push/send");
   });
 
   it("should track last triggered time to prevent spam", () => {
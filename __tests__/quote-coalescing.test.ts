@@ -0,0 +1,189 @@
+/**
+ * Quote Coalescing Tests
+ *
+ * Tests for in-flight request de-duplication, the batched multi-symbol quote
+ * path, the blue-chip cache warmer, and the upstream call metrics.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { setMarketDataProvider, type MarketChart, type MarketDataProvider } from "../server/marketData";
+import {
+  ATHEX_SYMBOLS,
+  clearCache,
+  getMultipleQuotes,
+  getStockChart,
+  getStockQuote,
+  getUpstreamMetrics,
+  warmQuoteCache,
+} from "../server/stockService";
+
+function chart(symbol: string, price = 10): MarketChart {
+  return {
+    symbol,
+    interval: "5m",
+    range: "1d",
+    candles: [{ timestamp: 1, open: price, high: price, low: price, close: price, volume: 100 }],
+    name: null,
+    currency: "EUR",
+    exchange: "ATH",
+    regularMarketPrice: price,
+    previousClose: price,
+    dayHigh: price,
+    dayLow: price,
+    volume: 100,
+    fiftyTwoWeekHigh: null,
+    fiftyTwoWeekLow: null,
+    marketCap: null,
+  };
+}
+
+/** A provider that counts calls, optionally with a multi-symbol path */
+function countingProvider(withBatch: boolean) {
+  const calls = { single: 0, batch: 0, batchSizes: [] as number[] };
+  const provider: MarketDataProvider = {
+    name: "counting",
+    async getChart(symbol) {
+      calls.single++;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return chart(symbol);
+    },
+  };
+  if (withBatch) {
+    provider.getCharts = async (symbols) => {
+      calls.batch++;
+      calls.batchSizes.push(symbols.length);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return new Map(symbols.map((s) => [s, chart(s)]));
+    };
+  }
+  return { provider, calls };
+}
+
+const blueChips = Object.keys(ATHEX_SYMBOLS).filter((id) => ATHEX_SYMBOLS[id].category === "blue-chip");
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setMarketDataProvider(null);
+  await clearCache();
+});
+
+// ─── De-duplication ─────────────────────────────────────────────────────────
+
+describe("in-flight de-duplication", () => {
+  it("should send concurrent requests for a cold symbol upstream once", async () => {
+    const { provider, calls } = countingProvider(false);
+    setMarketDataProvider(provider);
+    const before = getUpstreamMetrics().coalesced;
+
+    const [a, b, c] = await Promise.all([getStockQuote("ete"), getStockQuote("ete"), getStockQuote("ete")]);
+    expect(calls.single).toBe(1);
+    expect(a).toBe(b);
+    expect(b).toBe(c);
+    expect(getUpstreamMetrics().coalesced - before).toBe(2);
+  });
+
+  it("should coalesce chart requests for the same range", async () => {
+    const { provider, calls } = countingProvider(false);
+    setMarketDataProvider(provider);
+
+    await Promise.all([getStockChart("opap", "1D"), getStockChart("opap", "1D"), getStockChart("opap", "1M")]);
+    expect(calls.single).toBe(2);
+  });
+
+  it("should serve warm symbols from the cache", async () => {
+    const { provider, calls } = countingProvider(false);
+    setMarketDataProvider(provider);
+    const before = getUpstreamMetrics().cacheHits;
+
+    await getStockQuote("ppc");
+    await getStockQuote("ppc");
+    expect(calls.single).toBe(1);
+    expect(getUpstreamMetrics().cacheHits - before).toBe(1);
+  });
+
+  it("should serve a stale quote at once and refresh it in the background", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { provider, calls } = countingProvider(false);
+    setMarketDataProvider(provider);
+
+    const first = await getStockQuote("hto");
+    vi.setSystemTime(Date.now() + 90_000);
+    expect(await getStockQuote("hto")).toEqual(first);
+    expect(calls.single).toBe(2);
+
+    await vi.waitFor(() => expect(getUpstreamMetrics().inflight).toBe(0));
+    expect((await getStockQuote("hto"))?.lastUpdated).toBeGreaterThan(first!.lastUpdated);
+    expect(calls.single).toBe(2);
+  });
+});
+
+// ─── Batching ───────────────────────────────────────────────────────────────
+
+describe("batched quotes", () => {
+  it("should fetch all symbols in batches when the provider supports it", async () => {
+    const { provider, calls } = countingProvider(true);
+    setMarketDataProvider(provider);
+    const ids = Object.keys(ATHEX_SYMBOLS);
+
+    const quotes = await getMultipleQuotes();
+    expect(quotes).toHaveLength(ids.length);
+    expect(calls.single).toBe(0);
+    expect(calls.batch).toBe(Math.ceil(ids.length / 20));
+    expect(Math.max(...calls.batchSizes)).toBe(20);
+  });
+
+  it("should only batch cold symbols", async () => {
+    const { provider, calls } = countingProvider(true);
+    setMarketDataProvider(provider);
+
+    await getStockQuote("ete");
+    await getMultipleQuotes(["ete", "opap", "ppc"]);
+    expect(calls.batchSizes).toEqual([2]);
+  });
+
+  it("should fall back to one call per symbol without a batch path", async () => {
+    const { provider, calls } = countingProvider(false);
+    setMarketDataProvider(provider);
+
+    await getMultipleQuotes(["ete", "opap", "ppc"]);
+    expect(calls.single).toBe(3);
+  });
+});
+
+// ─── Warmer and Metrics ─────────────────────────────────────────────────────
+
+describe("cache warmer and metrics", () => {
+  it("should refresh every blue chip, even when cached", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { provider, calls } = countingProvider(true);
+    setMarketDataProvider(provider);
+
+    expect(await warmQuoteCache()).toBe(blueChips.length);
+    vi.setSystemTime(Date.now() + 45_000);
+    expect(await warmQuoteCache()).toBe(blueChips.length);
+    expect(calls.batch).toBe(2 * Math.ceil(blueChips.length / 20));
+    expect(getUpstreamMetrics().inflight).toBe(0);
+  });
+
+  it("should skip blue chips fetched in the last few seconds", async () => {
+    const { provider, calls } = countingProvider(true);
+    setMarketDataProvider(provider);
+
+    await getMultipleQuotes(blueChips.slice(0, 3));
+    calls.batchSizes = [];
+    expect(await warmQuoteCache()).toBe(blueChips.length);
+    expect(calls.batchSizes.reduce((sum, n) => sum + n, 0)).toBe(blueChips.length - 3);
+  });
+
+  it("should count upstream calls per minute", async () => {
+    const { provider } = countingProvider(false);
+    setMarketDataProvider(provider);
+    const before = getUpstreamMetrics();
+
+    await getMultipleQuotes(["ete", "opap"]);
+    const after = getUpstreamMetrics();
+    expect(after.upstreamCalls - before.upstreamCalls).toBe(2);
+    expect(after.perMinute[after.perMinute.length - 1].calls).toBeGreaterThanOrEqual(2);
+    expect(after.perMinute).toHaveLength(15);
+    expect(after.provider).toBe("counting");
+  });
+});
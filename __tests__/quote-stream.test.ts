@@ -0,0 +1,182 @@
+/**
+ * Quote Stream Tests
+ *
+ * Tests for the shared quote poller: one upstream fetch per symbol however
+ * many clients subscribe, reading through the quote cache, publishing only
+ * changed quotes, the current quotes a new subscription starts with,
+ * filtering ticks per subscription, and the WebSocket wiring on server and
+ * client.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { setMarketDataProvider, type MarketDataProvider } from "../server/marketData";
+import { getQuoteStreamStats, pollQuotes, streamQuotes } from "../server/quoteStreamService";
+import { ATHEX_SYMBOLS, clearCache, getStockQuote, type StockQuote } from "../server/stockService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+/** A provider quoting `prices[symbol]` and counting calls per symbol */
+function fakeProvider(prices: Record<string, number>) {
+  const calls: Record<string, number> = {};
+  const provider: MarketDataProvider = {
+    name: "fake",
+    async getChart(symbol, interval, range) {
+      calls[symbol] = (calls[symbol] ?? 0) + 1;
+      const price = prices[symbol];
+      if (price === undefined) return null;
+      return {
+        symbol,
+        interval,
+        range,
+        candles: [{ timestamp: 1, open: price, high: price, low: price, close: price, volume: 100 }],
+        name: null,
+        currency: "EUR",
+        exchange: "ATH",
+        regularMarketPrice: price,
+        previousClose: 10,
+        dayHigh: price,
+        dayLow: price,
+        volume: 100,
+        fiftyTwoWeekHigh: null,
+        fiftyTwoWeekLow: null,
+        marketCap: null,
+      };
+    },
+  };
+  return { provider, calls };
+}
+
+/** Start a subscription and return its first pending yield (the current quotes) */
+function subscribe(stockIds: string[] | undefined) {
+  const controller = new AbortController();
+  const stream = streamQuotes(stockIds, controller.signal);
+  const first = stream.next();
+  return {
+    first,
+    stream,
+    /** Abort a pending tick, or finish a stream parked at a yield */
+    async close() {
+      controller.abort();
+      await first.catch(() => undefined);
+      await stream.return(undefined);
+    },
+  };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  setMarketDataProvider(null);
+  await clearCache();
+});
+
+describe("quote stream", () => {
+  it("should fetch each symbol once per poll for all subscribers", async () => {
+    const { provider, calls } = fakeProvider({ "ETE.AT": 15, "OPAP.AT": 17 });
+    setMarketDataProvider(provider);
+
+    const a = subscribe(["ete"]);
+    const b = subscribe(["ete", "opap"]);
+    expect(getQuoteStreamStats()).toMatchObject({ isPolling: true, symbols: 2, subscriptions: 2 });
+
+    await pollQuotes();
+    expect(calls).toEqual({ "ETE.AT": 1, "OPAP.AT": 1 });
+
+    await Promise.all([a.first, b.first]);
+    const [ticksA, ticksB] = await Promise.all([a.stream.next(), b.stream.next()]);
+    expect((ticksA.value as StockQuote[]).map((q) => q.id)).toEqual(["ete"]);
+    expect((ticksB.value as StockQuote[]).map((q) => q.id).sort()).toEqual(["ete", "opap"]);
+
+    await a.close();
+    await b.close();
+  });
+
+  it("should publish only quotes that changed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const prices = { "ETE.AT": 15 };
+    const { provider } = fakeProvider(prices);
+    setMarketDataProvider(provider);
+
+    const sub = subscribe(["ete"]);
+    expect(await pollQuotes()).toHaveLength(1);
+    vi.setSystemTime(Date.now() + 16_000);
+    expect(await pollQuotes()).toHaveLength(0);
+
+    prices["ETE.AT"] = 15.1;
+    vi.setSystemTime(Date.now() + 16_000);
+    const [tick] = await pollQuotes();
+    expect(tick.price).toBe(15.1);
+    await sub.close();
+  });
+
+  it("should not refetch quotes fetched within the interval", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { provider, calls } = fakeProvider({ "ETE.AT": 15 });
+    setMarketDataProvider(provider);
+
+    const sub = subscribe(["ete"]);
+    await getStockQuote("ete");
+    await pollQuotes();
+    expect(calls["ETE.AT"]).toBe(1);
+
+    vi.setSystemTime(Date.now() + 16_000);
+    await pollQuotes();
+    expect(calls["ETE.AT"]).toBe(2);
+    await sub.close();
+  });
+
+  it("should start a subscription with the current quotes", async () => {
+    const { provider } = fakeProvider({ "ETE.AT": 15, "OPAP.AT": 17 });
+    setMarketDataProvider(provider);
+
+    const a = subscribe(["ete"]);
+    expect(((await a.first).value as StockQuote[]).map((q) => q.price)).toEqual([15]);
+    await pollQuotes();
+
+    // Nothing has changed since the last poll, so only the snapshot reaches b
+    const b = subscribe(["ete", "opap"]);
+    const current = (await b.first).value as StockQuote[];
+    expect(current.map((q) => q.id).sort()).toEqual(["ete", "opap"]);
+
+    await a.close();
+    await b.close();
+  });
+
+  it("should stop polling when the last subscriber leaves", async () => {
+    const { provider } = fakeProvider({ "ETE.AT": 15 });
+    setMarketDataProvider(provider);
+
+    const sub = subscribe(["ete", "not-a-stock"]);
+    expect(getQuoteStreamStats().symbols).toBe(1);
+    await sub.close();
+    expect(getQuoteStreamStats()).toEqual({ isPolling: false, symbols: 0, subscriptions: 0 });
+  });
+
+  it("should watch every symbol when no IDs are given", async () => {
+    setMarketDataProvider(fakeProvider({}).provider);
+    const sub = subscribe(undefined);
+    expect(getQuoteStreamStats().symbols).toBe(Object.keys(ATHEX_SYMBOLS).length);
+    await sub.close();
+  });
+});
+
+describe("quote stream wiring", () => {
+  it("should serve subscriptions over WebSocket", () => {
+    expect(readFile("server/_core/index.ts")).toContain("applyWSSHandler(");
+    expect(readFile("server/stockRouter.ts")).toContain("onQuotes: publicProcedure");
+    expect(readFile("lib/trpc.ts")).toContain("wsLink(");
+  });
+
+  it("should merge ticks into the quote caches and poll slowly while the stream is up", () => {
+    const hooks = readFile("hooks/use-stocks.ts");
+    expect(hooks).toContain("trpc.stocks.onQuotes.useSubscription");
+    expect(hooks).toContain("refetchInterval: isStreaming ? STREAMING_REFETCH_MS : 60_000");
+    expect(hooks).toContain("refetchInterval: isStreaming ? STREAMING_REFETCH_MS : 30_000");
+    // Freshness follows when the streamed quotes were fetched, not when they arrived
+    expect(hooks).toContain("freshnessAfterTick(old?.freshness, tick.lastUpdated)");
+  });
+});
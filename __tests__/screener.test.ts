@@ -0,0 +1,247 @@
+/**
+ * Stock Screener Tests
+ *
+ * Tests for screen rules (AND/OR groups, numeric and set rules), the
+ * per-stock screening metrics, stocks.screen over the replay provider,
+ * filter validation, presets, and the Markets screen wiring.
+ */
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BUILT_IN_SCREEN_PRESETS,
+  describeScreen,
+  matchesScreen,
+  screenDepth,
+  type ScreenFilter,
+  type ScreenMetrics,
+} from "../shared/screener";
+import { FUNDAMENTALS_FIXTURE } from "../server/fixtures/fundamentals";
+import { setMarketDataProvider } from "../server/marketData";
+import { createReplayProvider } from "../server/replayMarketData";
+import { clearCache, type StockQuote } from "../server/stockService";
+import { screenFilterSchema } from "../server/screenerRouter";
+import {
+  buildScreenMetrics,
+  deleteScreenPreset,
+  listScreenPresets,
+  ScreenPresetError,
+  screenStocks,
+} from "../server/screenerService";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+function metrics(overrides: Partial<ScreenMetrics> = {}): ScreenMetrics {
+  return {
+    stockId: "ete",
+    ticker: "ETE",
+    name: "National Bank of Greece",
+    price: 10,
+    changePercent: -1,
+    volume: 1_000_000,
+    marketCap: 9e9,
+    fromHigh52w: 12,
+    fromLow52w: 5,
+    dividendYield: 4,
+    category: "blue-chip",
+    sector: "Banking",
+    ...overrides,
+  };
+}
+
+function quote(overrides: Partial<StockQuote> = {}): StockQuote {
+  return {
+    id: "opap",
+    ticker: "OPAP",
+    yahooSymbol: "OPAP.AT",
+    name: "OPAP S.A.",
+    price: 13.5,
+    previousClose: 13.4,
+    change: 0.1,
+    changePercent: 0.75,
+    dayHigh: 13.6,
+    dayLow: 13.3,
+    volume: 250_000,
+    fiftyTwoWeekHigh: 18,
+    fiftyTwoWeekLow: 12,
+    marketCap: null,
+    currency: "EUR",
+    exchange: "ATH",
+    category: "blue-chip",
+    sparkline: [],
+    lastUpdated: 0,
+    ...overrides,
+  };
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  setMarketDataProvider(null);
+  await clearCache();
+});
+
+describe("screen rules", () => {
+  it("should AND rules with match all and OR them with match any", () => {
+    const rules: ScreenFilter["rules"] = [
+      { field: "sector", op: "in", values: ["Banking"] },
+      { field: "changePercent", op: "gte", value: 2 },
+    ];
+    expect(matchesScreen({ match: "all", rules }, metrics())).toBe(false);
+    expect(matchesScreen({ match: "any", rules }, metrics())).toBe(true);
+    expect(matchesScreen({ match: "any", rules }, metrics({ sector: "Energy" }))).toBe(false);
+  });
+
+  it("should evaluate nested groups", () => {
+    const filter: ScreenFilter = {
+      match: "all",
+      rules: [
+        { field: "category", op: "in", values: ["blue-chip"] },
+        {
+          match: "any",
+          rules: [
+            { field: "changePercent", op: "lte", value: -2 },
+            { field: "fromLow52w", op: "lt", value: 10 },
+          ],
+        },
+      ],
+    };
+    expect(matchesScreen(filter, metrics())).toBe(true);
+    expect(matchesScreen(filter, metrics({ fromLow52w: 30 }))).toBe(false);
+    expect(matchesScreen(filter, metrics({ fromLow52w: 30, changePercent: -3 }))).toBe(true);
+    expect(screenDepth(filter)).toBe(2);
+  });
+
+  it("should match ranges inclusively and fail rules on missing metrics", () => {
+    const range: ScreenFilter = {
+      match: "all",
+      rules: [{ field: "marketCap", op: "between", value: 1e9, max: 9e9 }],
+    };
+    expect(matchesScreen(range, metrics())).toBe(true);
+    expect(matchesScreen(range, metrics({ marketCap: 9.1e9 }))).toBe(false);
+    expect(matchesScreen(range, metrics({ marketCap: null }))).toBe(false);
+  });
+
+  it("should match everything with no rules", () => {
+    expect(matchesScreen({ match: "any", rules: [] }, metrics())).toBe(true);
+  });
+
+  it("should describe screens for chips", () => {
+    expect(describeScreen(BUILT_IN_SCREEN_PRESETS[0].filter)).toBe("Sector: Banking AND Off 52W low ≤ 10%");
+    expect(
+      describeScreen({
+        match: "any",
+        rules: [
+          { field: "marketCap", op: "gte", value: 2.5e9 },
+          { match: "all", rules: [{ field: "price", op: "between", value: 1, max: 5 }] },
+        ],
+      })
+    ).toBe("Market cap ≥ €2.5B OR (Price €1–€5)");
+  });
+});
+
+describe("screen metrics", () => {
+  it("should measure distance from the 52-week high and low", () => {
+    const m = buildScreenMetrics(quote());
+    expect(m.fromHigh52w).toBeCloseTo(25);
+    expect(m.fromLow52w).toBeCloseTo(12.5);
+    expect(m.sector).toBe("Travel & Leisure");
+  });
+
+  it("should take market cap from the quote, else from shares outstanding", () => {
+    const reported = FUNDAMENTALS_FIXTURE.find((f) => f.stockId === "opap")!;
+    expect(buildScreenMetrics(quote({ marketCap: 4.9e9 }), Date.now(), reported).marketCap).toBe(4.9e9);
+    expect(buildScreenMetrics(quote(), Date.now(), reported).marketCap).toBeCloseTo(13.5 * 370_000_000);
+    expect(buildScreenMetrics(quote()).marketCap).toBeNull();
+  });
+
+  it("should yield the trailing twelve months of dividends over the price", () => {
+    // OPAP went ex €0.50 on 3 Nov 2025 and €0.85 on 28 Apr 2026
+    const m = buildScreenMetrics(quote(), Date.parse("2026-10-14T09:00:00Z"));
+    expect(m.dividendYield).toBeCloseTo((1.35 / 13.5) * 100);
+    expect(buildScreenMetrics(quote({ id: "nope" })).dividendYield).toBe(0);
+  });
+});
+
+describe("stocks.screen", () => {
+  it("should screen the whole universe in one tap", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const banks = BUILT_IN_SCREEN_PRESETS.find((p) => p.id === "banks-near-52w-low")!;
+
+    const result = await screenStocks(banks.filter);
+    expect(result.universe + result.unavailable).toBeGreaterThan(100);
+    for (const match of result.matches) {
+      expect(match.sector).toBe("Banking");
+      expect(match.fromLow52w).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("should sort and limit matches", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const all: ScreenFilter = { match: "all", rules: [] };
+
+    const result = await screenStocks(all, { sort: { field: "changePercent", direction: "desc" }, limit: 2 });
+    expect(result.matches).toHaveLength(2);
+    expect(result.total).toBe(result.universe);
+    expect(result.total).toBeGreaterThan(2);
+    const changes = result.matches.map((m) => m.changePercent);
+    expect(changes).toEqual([...changes].sort((a, b) => b - a));
+  });
+
+  it("should say how many screened stocks have fundamentals", async () => {
+    setMarketDataProvider(createReplayProvider());
+    const result = await screenStocks({ match: "all", rules: [] });
+    const covered = result.matches.filter((m) => FUNDAMENTALS_FIXTURE.some((f) => f.stockId === m.stockId));
+    expect(result.fundamentals).toEqual({ covered: covered.length, indicative: true });
+  });
+
+  it("should validate filters", () => {
+    const rule = { field: "price", op: "gte", value: 1 };
+    expect(screenFilterSchema.safeParse({ match: "all", rules: [rule] }).success).toBe(true);
+    expect(
+      screenFilterSchema.safeParse({ match: "all", rules: [{ field: "price", op: "between", value: 5, max: 1 }] }).success
+    ).toBe(false);
+    expect(
+      screenFilterSchema.safeParse({ match: "all", rules: [{ field: "sector", op: "in", values: ["Crypto"] }] }).success
+    ).toBe(false);
+
+    let nested: ScreenFilter = { match: "all", rules: [rule as ScreenFilter["rules"][number]] };
+    for (let i = 0; i < 3; i++) nested = { match: "any", rules: [nested] };
+    expect(screenFilterSchema.safeParse(nested).success).toBe(false);
+  });
+});
+
+describe("screen presets", () => {
+  it("should offer the built-in presets when signed out", async () => {
+    const presets = await listScreenPresets(null);
+    expect(presets.map((p) => p.name)).toContain("Banks near 52-week low");
+    expect(presets.every((p) => p.builtIn)).toBe(true);
+  });
+
+  it("should refuse to delete built-in presets", async () => {
+    await expect(deleteScreenPreset(1, "banks-near-52w-low")).rejects.toBeInstanceOf(ScreenPresetError);
+  });
+
+  it("should store presets per user", () => {
+    const schema = readFile("drizzle/schema.ts");
+    expect(schema).toContain('uniqueIndex("screener_presets_user_name_idx").on(table.userId, table.name)');
+    const migrations = fs.readdirSync(path.join(ROOT, "drizzle")).filter((f) => f.endsWith(".sql"));
+    expect(migrations.some((f) => readFile(`drizzle/${f}`).includes("CREATE TABLE `screener_presets`"))).toBe(true);
+
+    const router = readFile("server/screenerRouter.ts");
+    expect(router).toContain("savePreset: protectedProcedure");
+    expect(readFile("server/routers.ts")).toContain("screener: screenerRouter");
+  });
+
+  it("should put the screener on the Markets screen", () => {
+    const screen = readFile("app/(tabs)/markets.tsx");
+    expect(screen).toContain("<ScreenerPanel");
+    expect(screen).toContain("useScreen(screen)");
+    expect(readFile("hooks/use-screener.ts")).toContain("trpc.stocks.screen.useQuery");
+    expect(screen).toContain("coverage={screenCoverage}");
+    expect(readFile("components/features/markets/screener-panel.tsx")).toContain("Fundamentals cover ${coverage.covered} of ${coverage.universe} stocks");
+  });
+});
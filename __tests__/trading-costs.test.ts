@@ -0,0 +1,209 @@
+/**
+ * Trading Cost Model Tests
+ *
+ * Tests for broker commissions, ATHEX clearing fees, Greek transaction tax,
+ * bid/ask spread estimates and tick-size rounding in shared/tradingCosts.
+ */
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  calculateCommission,
+  estimateFill,
+  estimateShareFill,
+  estimateWholeShareFill,
+  formatShares,
+  getBidAsk,
+  getLiquidityTier,
+  getTickSize,
+  roundToTick,
+  sizeTrade,
+} from "../shared/tradingCosts";
+
+const ROOT = path.resolve(__dirname, "..");
+
+function readFile(filePath: string): string {
+  return fs.readFileSync(path.join(ROOT, filePath), "utf-8");
+}
+
+// ─── Tick Size ──────────────────────────────────────────────────────────────
+
+describe("ATHEX tick size", () => {
+  it("should use price-banded tick sizes", () => {
+    expect(getTickSize(0.85)).toBe(0.001);
+    expect(getTickSize(3.2)).toBe(0.002);
+    expect(getTickSize(7.5)).toBe(0.005);
+    expect(getTickSize(16.4)).toBe(0.01);
+    expect(getTickSize(72)).toBe(0.02);
+  });
+
+  it("should round onto the tick grid in the requested direction", () => {
+    expect(roundToTick(16.423, "up")).toBe(16.43);
+    expect(roundToTick(16.427, "down")).toBe(16.42);
+    expect(roundToTick(7.503)).toBe(7.505);
+  });
+
+  it("should leave prices already on the grid untouched", () => {
+    expect(roundToTick(16.42, "up")).toBe(16.42);
+    expect(roundToTick(16.42, "down")).toBe(16.42);
+  });
+});
+
+// ─── Spread ─────────────────────────────────────────────────────────────────
+
+describe("Bid/ask spread", () => {
+  it("should map stock categories to liquidity tiers", () => {
+    expect(getLiquidityTier("blue-chip")).toBe("high");
+    expect(getLiquidityTier("dividend")).toBe("medium");
+    expect(getLiquidityTier("growth")).toBe("low");
+    expect(getLiquidityTier(undefined)).toBe("low");
+  });
+
+  it("should quote a wider spread for less liquid stocks", () => {
+    const liquid = getBidAsk(20, "high");
+    const illiquid = getBidAsk(20, "low");
+    expect(liquid.ask - liquid.bid).toBeLessThan(illiquid.ask - illiquid.bid);
+    expect(liquid.bid).toBeLessThan(20);
+    expect(liquid.ask).toBeGreaterThan(20);
+  });
+});
+
+// ─── Commission ─────────────────────────────────────────────────────────────
+
+describe("Broker commission", () => {
+  it("should charge the minimum on small orders", () => {
+    expect(calculateCommission(500, "piraeus")).toBe(6);
+  });
+
+  it("should charge the percentage rate above the minimum", () => {
+    expect(calculateCommission(10_000, "piraeus")).toBe(15);
+  });
+
+  it("should apply lower rates in higher bands", () => {
+    expect(calculateCommission(10_000, "nbg")).toBe(20);
+    expect(calculateCommission(20_000, "nbg")).toBe(30);
+  });
+
+  it("should charge nothing on the zero-commission schedule", () => {
+    expect(calculateCommission(10_000, "zero")).toBe(0);
+  });
+});
+
+// ─── estimateFill ───────────────────────────────────────────────────────────
+
+describe("estimateFill", () => {
+  const base = { midPrice: 16, tier: "high" as const, broker: "piraeus" as const };
+
+  it("should spend exactly the buy amount, costs included", () => {
+    const fill = estimateFill({ ...base, side: "buy", amount: 1000 })!;
+    expect(fill.netAmount).toBe(1000);
+    expect(fill.grossAmount + fill.commission + fill.clearingFee).toBeCloseTo(1000, 2);
+    expect(fill.transactionTax).toBe(0);
+    expect(fill.price).toBeGreaterThan(16);
+  });
+
+  it("should deduct commission, clearing fee and transaction tax from sell proceeds", () => {
+    const fill = estimateFill({ ...base, side: "sell", amount: 1000 })!;
+    expect(fill.grossAmount).toBe(1000);
+    expect(fill.transactionTax).toBe(1);
+    expect(fill.clearingFee).toBe(0.2);
+    expect(fill.netAmount).toBe(1000 - 6 - 0.2 - 1);
+    expect(fill.price).toBeLessThan(16);
+  });
+
+  it("should reject trades that can't cover their own costs", () => {
+    expect(estimateFill({ ...base, side: "buy", amount: 5 })).toBeNull();
+    expect(estimateFill({ ...base, side: "sell", amount: 5 })).toBeNull();
+    expect(estimateFill({ ...base, broker: "zero", side: "buy", amount: 5 })).not.toBeNull();
+  });
+});
+
+// ─── Whole Shares ───────────────────────────────────────────────────────────
+
+describe("Whole-share sizing", () => {
+  const base = { midPrice: 16, tier: "high" as const, broker: "piraeus" as const };
+  const sizing = { ...base, ownedShares: 0, ticker: "OPAP" };
+
+  it("should price an exact share count with costs on top for buys", () => {
+    const fill = estimateShareFill({ ...base, side: "buy", shares: 10 })!;
+    expect(fill.shares).toBe(10);
+    expect(fill.netAmount).toBeCloseTo(fill.grossAmount + fill.totalCosts, 2);
+  });
+
+  it("should size an amount down to whole shares and report the leftover", () => {
+    const sized = estimateWholeShareFill({ ...base, side: "buy", amount: 1000 })!;
+    expect(Number.isInteger(sized.fill.shares)).toBe(true);
+    expect(sized.fill.netAmount).toBeLessThanOrEqual(1000);
+    expect(sized.leftover).toBeCloseTo(1000 - sized.fill.netAmount, 2);
+    // One more share would not have fit
+    const oneMore = estimateShareFill({ ...base, side: "buy", shares: sized.fill.shares + 1 })!;
+    expect(oneMore.netAmount).toBeGreaterThan(1000);
+  });
+
+  it("should reject amounts that don't cover a single share", () => {
+    const sized = sizeTrade({ ...sizing, side: "buy", amount: 20, shareMode: "whole" });
+    expect(sized.success).toBe(false);
+    if (!sized.success) expect(sized.error).toContain("whole share of OPAP");
+  });
+
+  it("should refuse fractional share counts in whole-share mode", () => {
+    const sized = sizeTrade({ ...sizing, side: "buy", shares: 2.5, shareMode: "whole" });
+    expect(sized.success).toBe(false);
+  });
+
+  it("should still allow closing out a fractional position", () => {
+    const sized = sizeTrade({
+      ...sizing,
+      side: "sell",
+      shares: 3.25,
+      ownedShares: 3.25,
+      shareMode: "whole",
+    });
+    expect(sized.success).toBe(true);
+  });
+
+  it("should keep fractional fills in learning mode", () => {
+    const sized = sizeTrade({ ...sizing, side: "buy", amount: 1000, shareMode: "fractional" });
+    expect(sized.success).toBe(true);
+    if (sized.success) {
+      expect(Number.isInteger(sized.fill.shares)).toBe(false);
+      expect(sized.leftover).toBe(0);
+    }
+  });
+
+  it("should format whole counts without decimals", () => {
+    expect(formatShares(12)).toBe("12");
+    expect(formatShares(0.5)).toBe("0.5000");
+  });
+});
+
+// ─── Wiring ─────────────────────────────────────────────────────────────────
+
+describe("Trading cost wiring", () => {
+  it("should no longer hardcode a zero commission in OrderPreview", () => {
+    expect(readFile("components/features/trading/order-preview.tsx")).not.toContain('value="€0.00"');
+  });
+
+  it("should fill server trades through the shared cost model", () => {
+    const service = readFile("server/tradeService.ts");
+    expect(service).toContain("sizeTrade(");
+    expect(service).toContain("fees:");
+  });
+
+  it("should fill local trades through the shared cost model", () => {
+    expect(readFile("lib/demo-context.tsx")).toContain("sizeTrade(");
+  });
+
+  it("should size server fills by the account's share mode", () => {
+    expect(readFile("server/tradeService.ts")).toContain("shareMode: snapshot.shareMode");
+  });
+
+  it("should take a share count on the Trade tab in whole-share mode", () => {
+    const trade = readFile("app/(tabs)/trade.tsx");
+    expect(trade).toContain("<ShareCountInput");
+    expect(trade).toContain("left in cash");
+    expect(readFile("components/features/trading/share-count-input.tsx")).toContain(
+      "allowDecimal={false}"
+    );
+  });
+});
@@ -14,12 +14,13 @@ import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
 import { DemoBanner } from "@/components/ui/demo-banner";
 import { XPBar } from "@/components/ui/xp-bar";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes } from "@/hooks/use-stocks";
 import { useNotifications } from "@/lib/notification-context";
 import { useDemo, type LivePriceMap } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
 import { useWatchlist } from "@/lib/watchlist-context";
 import { useMarketNews } from "@/hooks/use-news";
+import { usePortfolioHistory, type HistoryRange } from "@/hooks/use-portfolio-history";
 import {
   HomeHeader,
   PortfolioHero,
@@ -38,8 +39,7 @@ import {
 export default function HomeScreen() {
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
-  const refreshCache = useRefreshCache();
+  const { stocks, isLoading, isLive, isStreaming, status, lastUpdated, refetch } = useStockQuotes();
   const marketNewsQuery = useMarketNews();
   const marketNews = marketNewsQuery.data?.success ? marketNewsQuery.data.data : [];
   const newsLoading = marketNewsQuery.isLoading;
@@ -48,6 +48,8 @@ export default function HomeScreen() {
   const { getPortfolioValue, getPortfolioPnL, state: demoState } = useDemo();
   const { isSimple, isPro } = useViewMode();
   const { watchlist, isWatchlisted } = useWatchlist();
+  const [historyRange, setHistoryRange] = useState<HistoryRange>("1M");
+  const { history: portfolioHistory, series: historySeries } = usePortfolioHistory(historyRange);
 
   // Build live price map from stock quotes
   const livePriceMap: LivePriceMap = useMemo(() => {
@@ -81,14 +83,13 @@ export default function HomeScreen() {
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await refreshCache.mutateAsync();
       await refetch();
     } catch {
       // Silently handle refresh errors
     } finally {
       setRefreshing(false);
     }
-  }, [refreshCache, refetch]);
+  }, [refetch]);
 
   // ── Greeting based on time of day ──
   const greeting = useMemo(() => {
@@ -119,6 +120,8 @@ export default function HomeScreen() {
           userName="Andreas"
           isPro={isPro}
           isLive={isLive}
+          status={status}
+          isStreaming={isStreaming}
           lastUpdated={lastUpdated}
           userStreak={USER_STREAK}
           unreadCount={unreadCount}
@@ -130,7 +133,10 @@ export default function HomeScreen() {
           portfolioPnl={portfolioPnl}
           portfolioPnlPercent={portfolioPnlPercent}
           isPro={isPro}
-          portfolioSparkline={PORTFOLIO_SPARKLINE}
+          portfolioSparkline={historySeries.length > 0 ? historySeries : PORTFOLIO_SPARKLINE}
+          selectedRange={historyRange}
+          onRangeChange={setHistoryRange}
+          rangeReturn={portfolioHistory?.twr ?? null}
         />
 
         {/* Quick Actions — Simple mode */}
@@ -2,6 +2,8 @@
  * Markets Screen — Browse and search ATHEX stocks
  *
  * Refactored to use extracted feature components for better maintainability.
+ * The screener runs server-side over every ATHEX stock; its matches narrow
+ * the list like the sector chips do, in the screen's order unless re-sorted.
  */
 import React, { useState, useMemo, useCallback } from "react";
 import {
@@ -14,10 +16,17 @@ import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
 import { AssetRow } from "@/components/ui/asset-row";
 import { StockListSkeleton } from "@/components/ui/skeleton";
-import { MarketsHeader, SearchBarWithClear, SectorFilterChips, SortOptionChips } from "@/components/features/markets";
+import {
+  MarketsHeader,
+  ScreenerPanel,
+  SearchBarWithClear,
+  SectorFilterChips,
+  SortOptionChips,
+} from "@/components/features/markets";
 import { useColors } from "@/hooks/use-colors";
 import { IconSymbol } from "@/components/ui/icon-symbol";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes } from "@/hooks/use-stocks";
+import { useScreen, useScreenPresets, type ScreenFilter } from "@/hooks/use-screener";
 import {
   Caption1,
   Callout,
@@ -37,12 +46,23 @@ export default function MarketsScreen() {
   const { isWatchlisted, toggle: toggleWatchlist, count: watchlistCount } = useWatchlist();
   const [sortMode, setSortMode] = useState<SortMode>("default");
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
-  const refreshCache = useRefreshCache();
+  const { stocks, isLoading, isLive, isStreaming, status, lastUpdated, refetch } = useStockQuotes();
+  const [showScreener, setShowScreener] = useState(false);
+  const [screen, setScreen] = useState<ScreenFilter | null>(null);
+  const { matches, total: screenTotal, coverage: screenCoverage, isLoading: screenLoading } = useScreen(screen);
+  const { presets, canSave, savePreset, deletePreset } = useScreenPresets();
 
   const filteredStocks = useMemo(() => {
     let filtered = [...stocks];
 
+    // Screener matches, in the screen's order
+    if (screen) {
+      const rank = new Map(matches.map((m, i) => [m.stockId, i]));
+      filtered = filtered
+        .filter((s) => rank.has(s.id))
+        .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+    }
+
     // Watchlist or Sector filter
     if (activeFilter === "Watchlist") {
       filtered = filtered.filter((s) => isWatchlisted(s.id));
@@ -80,7 +100,7 @@ export default function MarketsScreen() {
     }
 
     return filtered;
-  }, [stocks, search, activeFilter, sortMode, isWatchlisted]);
+  }, [stocks, search, activeFilter, sortMode, isWatchlisted, screen, matches]);
 
   // Count stocks per sector for badge display
   const sectorCounts = useMemo(() => {
@@ -94,23 +114,37 @@ export default function MarketsScreen() {
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await refreshCache.mutateAsync();
       await refetch();
     } catch {
       // Silently handle
     } finally {
       setRefreshing(false);
     }
-  }, [refreshCache, refetch]);
+  }, [refetch]);
 
   return (
     <ScreenContainer>
       {/* Header */}
-      <MarketsHeader isLive={isLive} lastUpdated={lastUpdated} />
+      <MarketsHeader isLive={isLive} status={status} isStreaming={isStreaming} lastUpdated={lastUpdated} />
 
       {/* Search */}
       <SearchBarWithClear value={search} onChange={setSearch} />
 
+      {/* Screener */}
+      <ScreenerPanel
+        expanded={showScreener}
+        onToggle={() => setShowScreener((v) => !v)}
+        filter={screen}
+        onFilterChange={setScreen}
+        presets={presets}
+        canSave={canSave}
+        onSavePreset={savePreset}
+        onDeletePreset={deletePreset}
+        matchCount={screenTotal}
+        coverage={screenCoverage}
+        isLoading={screenLoading}
+      />
+
       {/* Sector Chips */}
       <SectorFilterChips
         activeFilter={activeFilter}
@@ -127,7 +161,7 @@ export default function MarketsScreen() {
       />
 
       {/* Stock List */}
-      {isLoading ? (
+      {isLoading || screenLoading ? (
         <StockListSkeleton count={8} />
       ) : (
         <FlatList
@@ -180,7 +214,9 @@ export default function MarketsScreen() {
                 No stocks found
               </Callout>
               <Footnote color="muted">
-                {search.trim()
+                {screen
+                  ? "No stocks match this screen"
+                  : search.trim()
                   ? "Try a different search term"
                   : activeFilter === "Watchlist"
                   ? "Star stocks to add them to your watchlist"
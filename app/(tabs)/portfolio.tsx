@@ -16,13 +16,18 @@ import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { StockListSkeleton } from "@/components/ui/skeleton";
-import { useStockQuotes, useRefreshCache } from "@/hooks/use-stocks";
+import { useStockQuotes } from "@/hooks/use-stocks";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
 import type { ShareCardData } from "@/components/ui/share-card";
 import { useDemo, type LivePriceMap } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
+import { useAuth } from "@/hooks/use-auth";
+import { useBenchmarkComparison, type IndexId } from "@/hooks/use-benchmark";
+import type { HistoryRange } from "@/hooks/use-portfolio-history";
+import { useUpcomingDividends } from "@/hooks/use-dividends";
+import { DEFAULT_BENCHMARK } from "@shared/benchmark";
 import { GREEK_STOCKS, PORTFOLIO_SPARKLINE } from "@/lib/mock-data";
-import { getSector, type Sector } from "@/lib/sectors";
+import { getSector, type Sector } from "@shared/sectors";
 import {
   PortfolioHeader,
   PortfolioHeroSimple,
@@ -35,6 +40,7 @@ import {
   HoldingCardPro,
   SectorAllocationBar,
   DividendSection,
+  BenchmarkCard,
 } from "@/components/features/portfolio";
 import * as Haptics from "expo-haptics";
 import { Platform } from "react-native";
@@ -70,9 +76,26 @@ export default function PortfolioScreen() {
   const router = useRouter();
   const { isSimple, isPro } = useViewMode();
   const [refreshing, setRefreshing] = useState(false);
-  const { stocks, isLoading, isLive, lastUpdated, refetch } = useStockQuotes();
-  const refreshCache = useRefreshCache();
-  const { state, holdingsArray, getPortfolioValue, getPortfolioCost, getPortfolioPnL } = useDemo();
+  const { stocks, isLoading, isLive, isStreaming, status, lastUpdated, refetch } = useStockQuotes();
+  const {
+    state,
+    holdingsArray,
+    getPortfolioValue,
+    getPortfolioCost,
+    getPortfolioPnL,
+    getRealizedPnL,
+    getDividendIncome,
+  } = useDemo();
+
+  // Benchmark comparison (signed-in accounts have recorded history)
+  const { isAuthenticated } = useAuth();
+  const [benchmarkIndex, setBenchmarkIndex] = useState<IndexId>(DEFAULT_BENCHMARK);
+  const [benchmarkRange, setBenchmarkRange] = useState<HistoryRange>("3M");
+  const benchmark = useBenchmarkComparison(benchmarkRange, benchmarkIndex);
+
+  // Dividend calendar for the stocks currently held
+  const heldStockIds = useMemo(() => holdingsArray.map((h) => h.stockId), [holdingsArray]);
+  const { upcoming: upcomingDividends } = useUpcomingDividends(heldStockIds);
 
   // Share modal state
   const [showShareModal, setShowShareModal] = useState(false);
@@ -121,6 +144,7 @@ export default function PortfolioScreen() {
   const portfolioTotal = getPortfolioValue(livePriceMap);
   const portfolioCost = getPortfolioCost();
   const { pnl: portfolioPnl, pnlPercent: portfolioPnlPercent } = getPortfolioPnL(livePriceMap);
+  const realizedPnl = getRealizedPnL();
 
   // Sector allocation for Pro mode
   const sectorAllocation: SectorAllocationItem[] = useMemo(() => {
@@ -147,14 +171,13 @@ export default function PortfolioScreen() {
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await refreshCache.mutateAsync();
       await refetch();
     } catch {
       // Silently handle
     } finally {
       setRefreshing(false);
     }
-  }, [refreshCache, refetch]);
+  }, [refetch]);
 
   // Open share modal for a specific holding
   const handleShareHolding = useCallback(
@@ -216,6 +239,8 @@ export default function PortfolioScreen() {
           holdingCount={enrichedHoldings.length}
           hasHoldings={hasHoldings}
           isLive={isLive}
+          status={status}
+          isStreaming={isStreaming}
           lastUpdated={lastUpdated}
           onShare={handleSharePortfolio}
         />
@@ -235,6 +260,7 @@ export default function PortfolioScreen() {
             totalValue={portfolioTotal}
             pnl={portfolioPnl}
             pnlPercent={portfolioPnlPercent}
+            realizedPnl={realizedPnl}
             hasHoldings={hasHoldings}
             sparkline={PORTFOLIO_SPARKLINE}
             sparklineWidth={SPARKLINE_WIDTH}
@@ -332,9 +358,27 @@ export default function PortfolioScreen() {
           />
         )}
 
-        {/* Upcoming Dividends — Pro Only */}
-        {isPro && hasHoldings && (
-          <DividendSection />
+        {/* Benchmark Comparison — Pro Only */}
+        {isPro && isAuthenticated && hasHoldings && (
+          <BenchmarkCard
+            comparison={benchmark.comparison}
+            isLoading={benchmark.isLoading}
+            selectedIndex={benchmarkIndex}
+            onIndexChange={setBenchmarkIndex}
+            selectedRange={benchmarkRange}
+            onRangeChange={setBenchmarkRange}
+            chartWidth={SPARKLINE_WIDTH}
+          />
+        )}
+
+        {/* Dividends — Pro Only */}
+        {isPro && (hasHoldings || state.dividends.length > 0) && (
+          <DividendSection
+            upcoming={upcomingDividends}
+            account={state}
+            received={state.dividends}
+            income={getDividendIncome()}
+          />
         )}
 
         {/* Bottom Spacer for Tab Bar */}
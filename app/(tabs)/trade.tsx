@@ -16,7 +16,19 @@ import Animated, { FadeIn, FadeInDown } from "react-native-reanimated";
 import { useRouter } from "expo-router";
 import { ScreenContainer } from "@/components/screen-container";
 import { SearchBarWithClear } from "@/components/features/markets";
-import { BuySellToggle, AmountInput, QuickAmountChips, OrderPreview, TradeSuccessScreen } from "@/components/features/trading";
+import {
+  BuySellToggle,
+  AmountInput,
+  QuickAmountChips,
+  OrderPreview,
+  TradeSuccessScreen,
+  OrderTypeSelector,
+  OrderPriceInput,
+  PendingOrdersList,
+  ShareCountInput,
+  ORDER_KIND_LABELS,
+  type OrderKind,
+} from "@/components/features/trading";
 import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { AssetRow } from "@/components/ui/asset-row";
 import { LiveBadge } from "@/components/ui/live-badge";
@@ -24,9 +36,12 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { StockListSkeleton } from "@/components/ui/skeleton";
 import { SwipeToConfirm } from "@/components/ui/swipe-to-confirm";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
+import { CDSSegmentedTabs } from "@/components/ui/cds-segmented-tabs";
 import { useColors } from "@/hooks/use-colors";
 import { useStockQuotes } from "@/hooks/use-stocks";
-import { useDemo } from "@/lib/demo-context";
+import { useOrders, type TimeInForce } from "@/hooks/use-orders";
+import { formatNextOpen, useMarketStatus } from "@/hooks/use-market-status";
+import { useDemo, type DemoTrade } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
 import type { ShareCardData } from "@/components/ui/share-card";
 import {
@@ -38,9 +53,33 @@ import {
   MonoSubhead,
 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import {
+  BROKER_SCHEDULES,
+  estimateFill,
+  estimateShareFill,
+  estimateWholeShareFill,
+  formatShares,
+  getExecutionPrice,
+  getLiquidityTier,
+} from "@shared/tradingCosts";
 
 const QUICK_AMOUNTS = [5, 10, 25, 50, 100, 250];
 
+/** Keep digits and a single decimal point, max 3 decimals (ATHEX price precision) */
+function sanitizePriceText(text: string): string | null {
+  const cleaned = text.replace(/[^0-9.]/g, "");
+  const parts = cleaned.split(".");
+  if (parts.length > 2) return null;
+  if (parts.length === 2 && parts[1].length > 3) return null;
+  if (parts[0].length > 5) return null;
+  return cleaned;
+}
+
+function parsePrice(text: string): number {
+  const num = parseFloat(text);
+  return isNaN(num) || num <= 0 ? 0 : num;
+}
+
 interface SelectedStock {
   id: string;
   ticker: string;
@@ -59,25 +98,94 @@ export default function TradeScreen() {
   const [search, setSearch] = useState("");
   const [selectedAsset, setSelectedAsset] = useState<SelectedStock | null>(null);
   const [amountText, setAmountText] = useState("");
+  const [shareCount, setShareCount] = useState(0);
+  /** Whole-share mode: the euro amount a quick chip sized the share count from (0 = none) */
+  const [budget, setBudget] = useState(0);
   const [isBuy, setIsBuy] = useState(true);
   const [showSuccess, setShowSuccess] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [tradeError, setTradeError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lastFill, setLastFill] = useState<DemoTrade | null>(null);
+  const [lastLeftover, setLastLeftover] = useState(0);
+  const [orderKind, setOrderKind] = useState<OrderKind>("market");
+  const [limitText, setLimitText] = useState("");
+  const [stopText, setStopText] = useState("");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("gtc");
+  const [orderNotice, setOrderNotice] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
   const amountInputRef = useRef<TextInput>(null);
-  const { stocks, isLoading, isLive, lastUpdated } = useStockQuotes();
+  const { stocks, isLoading, isLive, isStreaming, status, lastUpdated } = useStockQuotes();
   const { executeTrade, state: demoState, getHolding } = useDemo();
+  const {
+    openOrders,
+    placeOrder,
+    cancelOrder,
+    refresh: refreshOrders,
+    isAvailable: ordersAvailable,
+  } = useOrders();
+  const { status: marketStatus } = useMarketStatus();
+
+  const isResting = orderKind !== "market";
+  // Signed-in market trades queue for the next open; local fills stay instant
+  const queuesAtOpen = ordersAvailable && !isResting && marketStatus !== null && !marketStatus.isOpen;
+  const needsLimit = orderKind === "limit" || orderKind === "stop_limit";
+  const needsStop = orderKind === "stop" || orderKind === "stop_limit";
+  const limitPrice = parsePrice(limitText);
+  const stopPrice = parsePrice(stopText);
+  // Whole shares as on ATHEX, unless the account is in fractional learning mode
+  const isWholeShares = demoState.shareMode === "whole";
+  const side = isBuy ? "buy" : "sell";
+  const tier = getLiquidityTier(selectedAsset?.category);
+  // Resting orders are estimated at their own price
+  const estimatePrice = selectedAsset
+    ? isResting ? limitPrice || stopPrice || selectedAsset.price : selectedAsset.price
+    : 0;
+
+  // Whole-share mode: the fill for the entered share count
+  const shareEstimate = useMemo(() => {
+    if (!isWholeShares || !selectedAsset || shareCount <= 0) return null;
+    return estimateShareFill({
+      side,
+      shares: shareCount,
+      midPrice: estimatePrice,
+      tier,
+      broker: demoState.broker,
+    });
+  }, [isWholeShares, selectedAsset, shareCount, side, estimatePrice, tier, demoState.broker]);
 
-  // Parse amount from text input
+  // Parse amount from text input, or derive it from the share count
   const parsedAmount = useMemo(() => {
+    if (isWholeShares) {
+      if (!shareEstimate) return 0;
+      return isBuy ? shareEstimate.netAmount : shareEstimate.grossAmount;
+    }
     const num = parseFloat(amountText);
     if (isNaN(num) || num <= 0) return 0;
     return Math.round(num * 100) / 100;
-  }, [amountText]);
+  }, [isWholeShares, shareEstimate, isBuy, amountText]);
 
   // Compute current holding for sell validation
   const currentHolding = selectedAsset ? getHolding(selectedAsset.id) : undefined;
   const currentShares = currentHolding?.shares ?? 0;
-  const currentHoldingValue = selectedAsset ? currentShares * selectedAsset.price : 0;
+  // Valued at the estimated bid — what selling would actually fetch
+  const currentHoldingValue = selectedAsset
+    ? currentShares * getExecutionPrice("sell", selectedAsset.price, tier)
+    : 0;
+
+  // Whole-share mode: most shares the balance buys, or the whole position
+  const maxShares = useMemo(() => {
+    if (!isBuy) return currentShares;
+    if (!selectedAsset) return 0;
+    const sized = estimateWholeShareFill({
+      side: "buy",
+      amount: demoState.balance,
+      midPrice: estimatePrice,
+      tier,
+      broker: demoState.broker,
+    });
+    return sized?.fill.shares ?? 0;
+  }, [isBuy, currentShares, selectedAsset, demoState.balance, estimatePrice, tier, demoState.broker]);
 
   // Max amount available
   const maxAmount = useMemo(() => {
@@ -87,20 +195,76 @@ export default function TradeScreen() {
     return Math.floor(currentHoldingValue * 100) / 100;
   }, [isBuy, demoState.balance, currentHoldingValue]);
 
+  // Spread, commission, clearing fee and tax for the order as entered
+  const broker = BROKER_SCHEDULES[demoState.broker];
+  const fillEstimate = useMemo(() => {
+    if (isWholeShares) return shareEstimate;
+    if (!selectedAsset || parsedAmount <= 0) return null;
+    return estimateFill({
+      side,
+      amount: parsedAmount,
+      midPrice: estimatePrice,
+      tier,
+      broker: demoState.broker,
+    });
+  }, [isWholeShares, shareEstimate, selectedAsset, parsedAmount, side, estimatePrice, tier, demoState.broker]);
+
+  // Cash a quick-amount budget leaves over once sized down to whole shares
+  const leftover =
+    isWholeShares && isBuy && budget > 0 && fillEstimate
+      ? Math.max(0, budget - fillEstimate.netAmount)
+      : null;
+
   // Validation
   const validationError = useMemo(() => {
-    if (parsedAmount === 0) return null;
-    if (parsedAmount < 1) return "Minimum trade amount is €1.00";
+    if (isWholeShares ? shareCount === 0 : parsedAmount === 0) return null;
+    if (!isWholeShares && parsedAmount < 1) return "Minimum trade amount is €1.00";
+    if (!fillEstimate) {
+      return `Too small to cover trading costs (min. commission €${broker.minimum.toFixed(2)})`;
+    }
     if (isBuy && parsedAmount > demoState.balance) {
       return `Insufficient balance (€${demoState.balance.toFixed(2)} available)`;
     }
-    if (!isBuy && parsedAmount > currentHoldingValue) {
+    if (!isBuy && isWholeShares && shareCount > currentShares) {
+      return `Insufficient shares (${formatShares(currentShares)} owned)`;
+    }
+    if (!isBuy && !isWholeShares && parsedAmount > currentHoldingValue) {
       return `Insufficient shares (€${currentHoldingValue.toFixed(2)} available)`;
     }
+    // A stop already through the market would fill straight away
+    if (needsStop && stopPrice > 0 && selectedAsset) {
+      if (isBuy && stopPrice <= selectedAsset.price) {
+        return `Buy stop must be above €${selectedAsset.price.toFixed(2)}`;
+      }
+      if (!isBuy && stopPrice >= selectedAsset.price) {
+        return `Sell stop must be below €${selectedAsset.price.toFixed(2)}`;
+      }
+    }
+    if (orderKind === "stop_limit" && stopPrice > 0 && limitPrice > 0) {
+      if (isBuy && limitPrice < stopPrice) return "Limit must be at or above the stop price";
+      if (!isBuy && limitPrice > stopPrice) return "Limit must be at or below the stop price";
+    }
     return null;
-  }, [parsedAmount, isBuy, demoState.balance, currentHoldingValue]);
-
-  const isValidAmount = parsedAmount >= 1 && !validationError;
+  }, [
+    isWholeShares,
+    shareCount,
+    parsedAmount,
+    fillEstimate,
+    broker.minimum,
+    isBuy,
+    demoState.balance,
+    currentShares,
+    currentHoldingValue,
+    needsStop,
+    stopPrice,
+    orderKind,
+    limitPrice,
+    selectedAsset,
+  ]);
+
+  const hasOrderPrices = (!needsLimit || limitPrice > 0) && (!needsStop || stopPrice > 0);
+  // Also covers the limit/stop prices so the swipe only enables for a complete order
+  const isValidAmount = parsedAmount >= 1 && !validationError && hasOrderPrices;
 
   const filteredStocks = useMemo(() => {
     if (search.trim()) {
@@ -127,72 +291,192 @@ export default function TradeScreen() {
     setTradeError(null);
   }, []);
 
-  const handleQuickAmount = useCallback((amount: number) => {
-    setAmountText(amount.toString());
+  const handleQuickAmount = useCallback(
+    (amount: number) => {
+      if (isWholeShares) {
+        // Size the euro amount down to whole shares; the rest stays in cash
+        const sized = estimateWholeShareFill({
+          side,
+          amount,
+          midPrice: estimatePrice,
+          tier,
+          broker: demoState.broker,
+        });
+        setShareCount(sized?.fill.shares ?? 0);
+        setBudget(amount);
+      } else {
+        setAmountText(amount.toString());
+      }
+      setTradeError(null);
+      Keyboard.dismiss();
+    },
+    [isWholeShares, side, estimatePrice, tier, demoState.broker]
+  );
+
+  const handleShareCountChange = useCallback((shares: number) => {
+    setShareCount(shares);
+    setBudget(0);
     setTradeError(null);
-    Keyboard.dismiss();
   }, []);
 
   const handleMax = useCallback(() => {
+    if (isWholeShares) {
+      handleShareCountChange(maxShares);
+      return;
+    }
     if (maxAmount > 0) {
       setAmountText(maxAmount.toFixed(2));
       setTradeError(null);
       Keyboard.dismiss();
     }
-  }, [maxAmount]);
+  }, [isWholeShares, handleShareCountChange, maxShares, maxAmount]);
 
-  const handleConfirm = useCallback(() => {
-    if (!selectedAsset || !isValidAmount) return;
+  const handleLimitChange = useCallback((text: string) => {
+    const cleaned = sanitizePriceText(text);
+    if (cleaned === null) return;
+    setLimitText(cleaned);
     setTradeError(null);
-    const result = executeTrade({
+  }, []);
+
+  const handleStopChange = useCallback((text: string) => {
+    const cleaned = sanitizePriceText(text);
+    if (cleaned === null) return;
+    setStopText(cleaned);
+    setTradeError(null);
+  }, []);
+
+  const handleOrderKindChange = useCallback((kind: OrderKind) => {
+    setOrderKind(kind);
+    setTradeError(null);
+  }, []);
+
+  const resetOrderSheet = useCallback(() => {
+    setSelectedAsset(null);
+    setAmountText("");
+    setShareCount(0);
+    setBudget(0);
+    setTradeError(null);
+    setOrderKind("market");
+    setLimitText("");
+    setStopText("");
+    setTimeInForce("gtc");
+  }, []);
+
+  const handleConfirm = useCallback(async () => {
+    if (!selectedAsset || !isValidAmount || isSubmitting) return;
+    setTradeError(null);
+    setIsSubmitting(true);
+
+    if (isResting) {
+      const placed = await placeOrder({
+        stockId: selectedAsset.id,
+        side: isBuy ? "buy" : "sell",
+        orderType: orderKind,
+        ...(isWholeShares ? { shares: shareCount } : { amount: parsedAmount }),
+        limitPrice: needsLimit ? limitPrice : undefined,
+        stopPrice: needsStop ? stopPrice : undefined,
+        timeInForce,
+      });
+      setIsSubmitting(false);
+      if (placed.success && placed.order) {
+        setOrderNotice(
+          placed.order.status === "filled"
+            ? `${ORDER_KIND_LABELS[orderKind]} order for ${selectedAsset.ticker} filled at €${placed.order.fillPrice?.toFixed(2)}`
+            : `${ORDER_KIND_LABELS[orderKind]} order for ${selectedAsset.ticker} placed`
+        );
+        resetOrderSheet();
+      } else {
+        setTradeError(placed.error ?? "Order failed");
+      }
+      return;
+    }
+
+    const result = await executeTrade({
       stockId: selectedAsset.id,
       ticker: selectedAsset.ticker,
       name: selectedAsset.name,
       type: isBuy ? "buy" : "sell",
       amount: parsedAmount,
+      shares: isWholeShares ? shareCount : undefined,
       price: selectedAsset.price,
+      category: selectedAsset.category,
     });
-    if (result.success) {
+    setIsSubmitting(false);
+    if (result.success && result.queuedOrder) {
+      setOrderNotice(`ATHEX is closed — ${selectedAsset.ticker} ${isBuy ? "buy" : "sell"} will execute at the next open`);
+      resetOrderSheet();
+      refreshOrders();
+    } else if (result.success && result.trade) {
+      setLastFill(result.trade);
+      setLastLeftover(leftover ?? result.leftover ?? 0);
       setShowSuccess(true);
     } else {
       setTradeError(result.error ?? "Trade failed");
     }
-  }, [selectedAsset, isValidAmount, parsedAmount, isBuy, executeTrade]);
+  }, [
+    selectedAsset,
+    isValidAmount,
+    isSubmitting,
+    isResting,
+    placeOrder,
+    orderKind,
+    needsLimit,
+    limitPrice,
+    needsStop,
+    stopPrice,
+    timeInForce,
+    resetOrderSheet,
+    isWholeShares,
+    shareCount,
+    parsedAmount,
+    isBuy,
+    leftover,
+    executeTrade,
+    refreshOrders,
+  ]);
+
+  const handleCancelOrder = useCallback(
+    async (orderId: string) => {
+      setCancellingId(orderId);
+      const result = await cancelOrder(orderId);
+      setCancellingId(null);
+      setOrderNotice(result.success ? "Order cancelled" : (result.error ?? "Couldn't cancel the order"));
+    },
+    [cancelOrder]
+  );
 
   const handleDismissSuccess = useCallback(() => {
     setShowSuccess(false);
-    setSelectedAsset(null);
-    setAmountText("");
-    setTradeError(null);
-  }, []);
+    resetOrderSheet();
+    setLastFill(null);
+  }, [resetOrderSheet]);
 
-  // Build share card data from the current trade
+  // Build share card data from the executed fill
   const shareCardData: ShareCardData | null = useMemo(() => {
-    if (!selectedAsset || !parsedAmount) return null;
-    const shares = parsedAmount / selectedAsset.price;
+    if (!selectedAsset || !lastFill) return null;
     return {
       ticker: selectedAsset.ticker,
       companyName: selectedAsset.name,
-      price: selectedAsset.price,
+      price: lastFill.price,
       pnlAmount: 0,
       pnlPercent: selectedAsset.changePercent,
       sparkline: selectedAsset.sparkline,
       timeFrame: "Today" as const,
-      tradeType: isBuy ? ("buy" as const) : ("sell" as const),
-      tradeAmount: parsedAmount,
-      shares,
+      tradeType: lastFill.type,
+      tradeAmount: lastFill.amount,
+      shares: lastFill.shares,
     };
-  }, [selectedAsset, parsedAmount, isBuy]);
+  }, [selectedAsset, lastFill]);
 
   // ─── Success Screen ─────────────────────────────────────────────
-  if (showSuccess && selectedAsset && parsedAmount) {
-    const shares = (parsedAmount / selectedAsset.price).toFixed(4);
+  if (showSuccess && selectedAsset && lastFill) {
     return (
       <ScreenContainer>
         <TradeSuccessScreen
-          isBuy={isBuy}
-          shares={shares}
-          amount={parsedAmount}
+          isBuy={lastFill.type === "buy"}
+          shares={formatShares(lastFill.shares)}
+          amount={lastFill.amount}
+          leftover={lastLeftover}
           ticker={selectedAsset.ticker}
           onShare={() => setShowShareModal(true)}
           onDone={handleDismissSuccess}
@@ -210,9 +494,10 @@ export default function TradeScreen() {
 
   // ─── Order Sheet ────────────────────────────────────────────────
   if (selectedAsset) {
+    // Sells credit the proceeds net of commission, clearing fee and tax
     const balanceAfter = isBuy
       ? demoState.balance - parsedAmount
-      : demoState.balance + parsedAmount;
+      : demoState.balance + parsedAmount - (fillEstimate?.totalCosts ?? 0);
 
     return (
       <ScreenContainer>
@@ -226,11 +511,7 @@ export default function TradeScreen() {
           <View style={styles.sheetHeader}>
             <AnimatedPressable
               variant="icon"
-              onPress={() => {
-                setSelectedAsset(null);
-                setAmountText("");
-                setTradeError(null);
-              }}
+              onPress={resetOrderSheet}
               style={[
                 styles.closeButton,
                 { backgroundColor: colors.surfaceSecondary },
@@ -240,7 +521,7 @@ export default function TradeScreen() {
             </AnimatedPressable>
             <View style={styles.sheetTitleRow}>
               <Subhead style={{ fontFamily: FontFamily.semibold }}>{selectedAsset.ticker}</Subhead>
-              <LiveBadge isLive={isLive} />
+              <LiveBadge isLive={isLive} status={status} isStreaming={isStreaming} />
             </View>
             <View style={{ width: 32 }} />
           </View>
@@ -274,15 +555,27 @@ export default function TradeScreen() {
             </View>
           </View>
 
-          {/* Amount Hero */}
-          <AmountInput
-            ref={amountInputRef}
-            value={amountText}
-            onChange={handleAmountChange}
-            validationError={validationError}
-            isBuy={isBuy}
-            onMax={handleMax}
-          />
+          {/* Amount Hero — a share count when trading whole shares */}
+          {isWholeShares ? (
+            <ShareCountInput
+              value={shareCount}
+              onChange={handleShareCountChange}
+              max={maxShares}
+              estimatedAmount={fillEstimate?.netAmount ?? null}
+              validationError={validationError}
+              isBuy={isBuy}
+              onMax={handleMax}
+            />
+          ) : (
+            <AmountInput
+              ref={amountInputRef}
+              value={amountText}
+              onChange={handleAmountChange}
+              validationError={validationError}
+              isBuy={isBuy}
+              onMax={handleMax}
+            />
+          )}
 
           {/* Available balance */}
           <View style={styles.availableRow}>
@@ -306,6 +599,20 @@ export default function TradeScreen() {
             )}
           </View>
 
+          {/* Leftover cash from sizing a quick amount to whole shares */}
+          {leftover !== null && (
+            <View style={styles.availableRow}>
+              <Footnote color="muted">
+                €{budget.toFixed(2)} buys {formatShares(shareCount)}{" "}
+                {shareCount === 1 ? "share" : "shares"} ·{" "}
+                <MonoSubhead color="foreground" style={{ fontSize: 13 }}>
+                  €{leftover.toFixed(2)}
+                </MonoSubhead>{" "}
+                left in cash
+              </Footnote>
+            </View>
+          )}
+
           {/* Validation Error */}
           {validationError && (
             <View style={[styles.validationError, { backgroundColor: colors.errorAlpha }]}>
@@ -319,20 +626,74 @@ export default function TradeScreen() {
           {/* Quick Amount Chips */}
           <QuickAmountChips
             amounts={QUICK_AMOUNTS}
-            selectedAmount={parsedAmount}
+            selectedAmount={isWholeShares ? budget : parsedAmount}
             maxAmount={maxAmount}
             isBuy={isBuy}
             onSelect={handleQuickAmount}
           />
 
+          {/* Order Type */}
+          <OrderTypeSelector
+            value={orderKind}
+            onChange={handleOrderKindChange}
+            marketOnly={!ordersAvailable}
+          />
+          {!ordersAvailable && (
+            <View style={styles.orderTypeHint}>
+              <Caption1 color="muted">Sign in to place limit and stop orders</Caption1>
+            </View>
+          )}
+          {queuesAtOpen && marketStatus && (
+            <View style={styles.orderTypeHint}>
+              <Caption1 color="warning">
+                ATHEX is closed · {formatNextOpen(marketStatus)} — this trade will queue until then
+              </Caption1>
+            </View>
+          )}
+          {needsStop && (
+            <OrderPriceInput
+              label="Stop price"
+              value={stopText}
+              onChange={handleStopChange}
+              marketPrice={selectedAsset.price}
+            />
+          )}
+          {needsLimit && (
+            <OrderPriceInput
+              label="Limit price"
+              value={limitText}
+              onChange={handleLimitChange}
+              marketPrice={selectedAsset.price}
+            />
+          )}
+          {isResting && (
+            <View style={styles.timeInForce}>
+              <CDSSegmentedTabs
+                options={["Good till cancelled", "Day"]}
+                selected={timeInForce === "gtc" ? 0 : 1}
+                onChange={(index) => setTimeInForce(index === 0 ? "gtc" : "day")}
+                colorType="primary"
+              />
+            </View>
+          )}
+
           {/* Order Preview */}
-          {isValidAmount && isPro && (
+          {isValidAmount && isPro && fillEstimate && (
             <OrderPreview
-              amount={parsedAmount}
-              price={selectedAsset.price}
+              estimate={fillEstimate}
+              priceLabel={isResting ? `Price (${needsLimit ? "limit" : "stop"})` : undefined}
+              brokerName={broker.name}
               balanceAfter={balanceAfter}
             />
           )}
+          {isValidAmount && isSimple && fillEstimate && (
+            <View style={styles.simplePreviewRow}>
+              <Footnote color="muted">Fees & taxes</Footnote>
+              <MonoSubhead style={{ fontSize: 13 }}>
+                €{fillEstimate.totalCosts.toFixed(2)}
+              </MonoSubhead>
+            </View>
+          )}
           {isValidAmount && isSimple && (
             <View style={styles.simplePreviewRow}>
               <Footnote color="muted">Balance after trade</Footnote>
@@ -361,12 +722,22 @@ export default function TradeScreen() {
           {/* Swipe to Confirm */}
           <SwipeToConfirm
             label={isValidAmount
-              ? `Slide to ${isBuy ? "Buy" : "Sell"} €${parsedAmount.toFixed(2)} ${selectedAsset.ticker}`
+              ? `Slide to ${isBuy ? "Buy" : "Sell"} ${
+                  isWholeShares ? formatShares(shareCount) : `€${parsedAmount.toFixed(2)}`
+                } ${selectedAsset.ticker}${
+                  isResting ? ` · ${ORDER_KIND_LABELS[orderKind]}` : ""
+                }`
               : ""}
             enabled={isValidAmount}
             onConfirm={handleConfirm}
             variant={isBuy ? "buy" : "sell"}
-            disabledLabel={amountText ? "Fix amount to continue" : "Enter an amount"}
+            disabledLabel={
+              (isWholeShares ? shareCount === 0 : !amountText)
+                ? isWholeShares ? "Enter a number of shares" : "Enter an amount"
+                : hasOrderPrices
+                  ? "Fix amount to continue"
+                  : `Enter a ${needsStop && !stopPrice ? "stop" : "limit"} price`
+            }
           />
         </ScrollView>
       </ScreenContainer>
@@ -379,7 +750,7 @@ export default function TradeScreen() {
       {/* Header */}
       <Animated.View entering={FadeIn.duration(200)} style={styles.header}>
         <Title1>Trade</Title1>
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} status={status} isStreaming={isStreaming} lastUpdated={lastUpdated} />
       </Animated.View>
 
       {/* Search */}
@@ -390,6 +761,31 @@ export default function TradeScreen() {
         animationDelay={60}
       />
 
+      {/* Order status notice */}
+      {orderNotice && (
+        <Animated.View entering={FadeInDown.duration(200)}>
+          <AnimatedPressable
+            variant="card"
+            onPress={() => setOrderNotice(null)}
+            style={[styles.orderNotice, { backgroundColor: colors.surfaceSecondary }]}
+          >
+            <Caption1 color="foreground" style={{ fontFamily: FontFamily.medium, flex: 1 }}>
+              {orderNotice}
+            </Caption1>
+            <IconSymbol name="xmark" size={11} color={colors.muted} />
+          </AnimatedPressable>
+        </Animated.View>
+      )}
+
+      {/* Pending Orders */}
+      {!search.trim() && (
+        <PendingOrdersList
+          orders={openOrders}
+          cancellingId={cancellingId}
+          onCancel={handleCancelOrder}
+        />
+      )}
+
       {/* Quick Trade Label */}
       <Animated.View entering={FadeIn.duration(200).delay(120)} style={styles.quickLabel}>
         <Caption1
@@ -460,6 +856,16 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingTop: 40,
   },
+  orderNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
 
   // Order Sheet
   sheetScroll: {
@@ -510,6 +916,15 @@ const styles = StyleSheet.create({
   assetPriceBlock: {
     alignItems: "flex-end",
   },
+  orderTypeHint: {
+    paddingHorizontal: 18,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  timeInForce: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
   availableRow: {
     marginTop: 8,
     marginBottom: 4,
@@ -143,19 +143,20 @@ export default function RootLayout() {
 
   const content = (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <DemoProvider>
       <WatchlistProvider>
       <ViewModeProvider>
       <trpc.Provider client={trpcClient} queryClient={queryClient}>
         <QueryClientProvider client={queryClient}>
+          {/* DemoProvider syncs the portfolio through tRPC, so it must sit inside the providers */}
+          <DemoProvider>
           <NotificationProvider>
             <InnerLayout />
           </NotificationProvider>
+          </DemoProvider>
         </QueryClientProvider>
       </trpc.Provider>
       </ViewModeProvider>
       </WatchlistProvider>
-      </DemoProvider>
     </GestureHandlerRootView>
   );
 
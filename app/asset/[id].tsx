@@ -16,8 +16,9 @@ import { AnimatedNumber, AnimatedPnLNumber } from "@/components/ui/animated-numb
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { ChartSkeleton, Skeleton } from "@/components/ui/skeleton";
-import { useStockQuote, useStockChart } from "@/hooks/use-stocks";
+import { useStockQuote, useStockChart, useStockIndicators, useStockFundamentals } from "@/hooks/use-stocks";
 import { useStockNews } from "@/hooks/use-news";
+import { useCorporateActions } from "@/hooks/use-corporate-actions";
 import { GREEK_STOCKS } from "@/lib/mock-data";
 import { ShareCardModal } from "@/components/ui/share-card-modal";
 import type { ShareCardData, ShareSentiment } from "@/components/ui/share-card";
@@ -36,12 +37,22 @@ import {
 import { FontFamily } from "@/constants/typography";
 import Svg, { Polyline, Defs, LinearGradient, Stop, Path } from "react-native-svg";
 import { useWatchlist } from "@/lib/watchlist-context";
+import { useViewMode } from "@/lib/viewmode-context";
+import { CompanyFundamentals, IndicatorChart } from "@/components/features/asset";
+import { formatCompactEuro } from "@shared/fundamentals";
+import { getSector } from "@shared/sectors";
+import { CDSCandlestickChart } from "@/components/ui/cds-candlestick-chart";
+import { steppedRange } from "@/lib/candle-chart";
 import { useNotifications } from "@/lib/notification-context";
 import { AddAlertModal } from "@/components/ui/add-alert-modal";
 import * as Haptics from "expo-haptics";
 import { Platform } from "react-native";
 
 const TIME_PERIODS = ["1D", "1W", "1M", "3M", "1Y", "ALL"];
+const CHART_STYLES = [
+  { style: "line", label: "Line" },
+  { style: "candles", label: "Candles" },
+] as const;
 
 function PriceChart({
   data,
@@ -157,10 +168,15 @@ export default function AssetDetailScreen() {
   const stockAlerts = getAlertsForStock(id ?? "");
   const hasActiveAlerts = stockAlerts.some((a) => a.enabled);
 
-  const { stock, isLoading: quoteLoading, isLive } = useStockQuote(id ?? "");
+  const { stock, isLoading: quoteLoading, isLive, isStreaming, status, lastUpdated } = useStockQuote(id ?? "");
   const { isWatchlisted, toggle: toggleWatchlist } = useWatchlist();
   const starred = isWatchlisted(id ?? "");
-  const { chartData, isLoading: chartLoading } = useStockChart(id ?? "", activePeriod);
+  const { chartData, candles, isLoading: chartLoading } = useStockChart(id ?? "", activePeriod);
+  const { isPro, chartStyle, setChartStyle } = useViewMode();
+  const showCandles = isPro && chartStyle === "candles" && candles.length >= 2;
+  const { indicators } = useStockIndicators(id ?? "", activePeriod, isPro && chartStyle === "line");
+  const { fundamentals } = useStockFundamentals(id ?? "");
+  const { notice: corporateActionNotice } = useCorporateActions(id ?? "");
 
   // Live news + sentiment
   const newsQuery = useStockNews(id);
@@ -180,7 +196,9 @@ export default function AssetDetailScreen() {
   const volume = stock?.volume ?? 0;
   const fiftyTwoWeekHigh = stock?.fiftyTwoWeekHigh ?? price * 1.2;
   const fiftyTwoWeekLow = stock?.fiftyTwoWeekLow ?? price * 0.8;
-  const marketCap = stock?.marketCap ?? "N/A";
+  const marketCap = formatCompactEuro(
+    fundamentals?.valuation.marketCap ?? stock?.marketCap ?? mockAsset?.marketCap ?? null
+  );
 
   const isPositive = change >= 0;
 
@@ -245,7 +263,12 @@ export default function AssetDetailScreen() {
           <View style={styles.headerCenter}>
             <View style={styles.headerTitleRow}>
               <Title3>{ticker}</Title3>
-              <LiveBadge isLive={isLive} />
+              <LiveBadge
+                isLive={isLive}
+                status={status}
+                isStreaming={isStreaming}
+                lastUpdated={status === "live" ? null : lastUpdated}
+              />
             </View>
             <Footnote color="muted">{name}</Footnote>
           </View>
@@ -326,10 +349,65 @@ export default function AssetDetailScreen() {
           )}
         </ReAnimated.View>
 
+        {/* Corporate Action Notice */}
+        {corporateActionNotice && (
+          <ReAnimated.View
+            entering={FadeInDown.duration(250).delay(90)}
+            style={[styles.actionNotice, { backgroundColor: colors.warningAlpha }]}
+          >
+            <IconSymbol name="info.circle" size={16} color={colors.warning} />
+            <View style={styles.actionNoticeText}>
+              <Caption1 style={{ color: colors.warning, fontFamily: FontFamily.semibold }}>
+                {corporateActionNotice.title}
+              </Caption1>
+              <Caption2 color="muted">{corporateActionNotice.message}</Caption2>
+            </View>
+          </ReAnimated.View>
+        )}
+
+        {/* Chart style (Pro) */}
+        {isPro && (
+          <View style={styles.chartStyleRow}>
+            {CHART_STYLES.map(({ style, label }) => {
+              const isActive = style === chartStyle;
+              return (
+                <AnimatedPressable
+                  key={style}
+                  variant="chip"
+                  onPress={() => setChartStyle(style)}
+                  style={[styles.periodButton, isActive && { backgroundColor: colors.primaryAlpha }]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${label} chart`}
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Caption1
+                    color={isActive ? "primary" : "muted"}
+                    style={{ fontFamily: isActive ? FontFamily.bold : FontFamily.medium, letterSpacing: 0.3 }}
+                  >
+                    {label}
+                  </Caption1>
+                </AnimatedPressable>
+              );
+            })}
+          </View>
+        )}
+
         {/* Chart */}
         <ReAnimated.View entering={FadeInDown.duration(250).delay(120)} style={styles.chartContainer}>
           {chartLoading ? (
             <ChartSkeleton />
+          ) : showCandles ? (
+            <CDSCandlestickChart
+              candles={candles}
+              width={360}
+              height={200}
+              onRangeStep={(step) => {
+                const next = steppedRange(TIME_PERIODS, activePeriod, step);
+                if (next) setActivePeriod(next);
+              }}
+            />
+          ) : isPro && indicators && indicators.close.length >= 2 ? (
+            <IndicatorChart indicators={indicators} width={360} positive={isPositive} />
           ) : (
             <PriceChart data={chartData} width={360} height={200} positive={isPositive} />
           )}
@@ -382,6 +460,16 @@ export default function AssetDetailScreen() {
           </View>
         </ReAnimated.View>
 
+        {/* Company Profile & Financials */}
+        {fundamentals && (
+          <ReAnimated.View entering={FadeInDown.duration(250).delay(270)} style={styles.fundamentalsSection}>
+            <View style={styles.sectionTitleRow}>
+              <Title3>About {ticker}</Title3>
+            </View>
+            <CompanyFundamentals fundamentals={fundamentals} sector={getSector(id ?? "")} />
+          </ReAnimated.View>
+        )}
+
         {/* AI Sentiment — Powered by Live News */}
         <ReAnimated.View entering={FadeInDown.duration(250).delay(300)} style={styles.sentimentSection}>
           <View style={styles.sectionTitleRow}>
@@ -659,10 +747,30 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  actionNotice: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  actionNoticeText: {
+    flex: 1,
+    gap: 2,
+  },
   chartContainer: {
     alignItems: "center",
     paddingHorizontal: 16,
   },
+  chartStyleRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    paddingHorizontal: 16,
+    marginBottom: 4,
+    gap: 6,
+  },
   periodRow: {
     flexDirection: "row",
     justifyContent: "center",
@@ -700,6 +808,10 @@ const styles = StyleSheet.create({
     paddingVertical: 3,
     borderRadius: 6,
   },
+  fundamentalsSection: {
+    paddingHorizontal: 16,
+    marginBottom: 20,
+  },
   sentimentSection: {
     paddingHorizontal: 16,
     marginBottom: 20,
@@ -2,6 +2,9 @@
  * Price Alerts Screen
  *
  * Full management screen for viewing, adding, and managing price alerts.
+ * Signed-in users also manage compound alert rules here (AND/OR conditions
+ * and portfolio triggers), and where alerts are delivered: push, email or
+ * a webhook, per alert.
  * Accessible from Settings and from the Asset Detail screen.
  */
 import React, { useState, useCallback } from "react";
@@ -21,6 +24,11 @@ import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { useNotifications } from "@/lib/notification-context";
+import { useAlertRules, type AlertRule } from "@/hooks/use-alert-rules";
+import { useAlertDelivery, type DeliverySettings } from "@/hooks/use-alert-delivery";
+import { AddRuleModal } from "@/components/ui/add-rule-modal";
+import { AlertChannelPicker } from "@/components/ui/alert-channel-picker";
+import { DeliverySettingsModal } from "@/components/ui/delivery-settings-modal";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import {
   LargeTitle,
@@ -33,6 +41,76 @@ import {
 import { FontFamily } from "@/constants/typography";
 import type { PriceAlert } from "@/server/priceAlertService";
 
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function formatAlertType(alert: PriceAlert): string {
+  switch (alert.type) {
+    case "above":
+      return `Above €${alert.threshold.toFixed(2)}`;
+    case "below":
+      return `Below €${alert.threshold.toFixed(2)}`;
+    case "percent_change":
+      return `±${alert.threshold.toFixed(1)}% change vs. previous close`;
+    case "percent_from_reference":
+      return `±${alert.threshold.toFixed(1)}% change from €${(alert.referencePrice ?? 0).toFixed(2)}`;
+    case "sma_cross_above":
+      return `Crosses above ${alert.threshold}-day average`;
+    case "sma_cross_below":
+      return `Crosses below ${alert.threshold}-day average`;
+    case "volume_spike":
+      return `Volume over ${alert.threshold}× average`;
+    case "high_52w":
+      return "New 52-week high";
+    case "low_52w":
+      return "New 52-week low";
+    case "gap_up":
+      return `Opens ${alert.threshold.toFixed(1)}%+ above previous close`;
+    case "gap_down":
+      return `Opens ${alert.threshold.toFixed(1)}%+ below previous close`;
+    default:
+      return "Unknown";
+  }
+}
+
+function describeDeliverySetup(settings: DeliverySettings | null): string {
+  const extras = [settings?.emailVerified && "email", settings?.webhookUrl && "webhook"].filter(Boolean);
+  const unconfirmed = !!settings?.email && !settings.emailVerified;
+  const setup =
+    extras.length > 0
+      ? `Push, ${extras.join(" and ")} set up. Pick channels per alert below.`
+      : unconfirmed
+        ? "Push only."
+        : "Push only. Add an email address or a webhook for your bots.";
+  return unconfirmed ? `${setup} Confirm your email address to get email alerts.` : setup;
+}
+
+function formatAlertIcon(type: string): string {
+  switch (type) {
+    case "above":
+      return "📈";
+    case "below":
+      return "📉";
+    case "percent_change":
+    case "percent_from_reference":
+      return "🔔";
+    case "sma_cross_above":
+    case "sma_cross_below":
+      return "〰️";
+    case "volume_spike":
+      return "📊";
+    case "high_52w":
+      return "🚀";
+    case "low_52w":
+      return "⚠️";
+    case "gap_up":
+      return "⬆️";
+    case "gap_down":
+      return "⬇️";
+    default:
+      return "🔔";
+  }
+}
+
 // ─── Component ──────────────────────────────────────────────────────────────
 
 export default function PriceAlertsScreen() {
@@ -45,8 +123,16 @@ export default function PriceAlertsScreen() {
     requestPermission,
     removePriceAlert,
     togglePriceAlert,
+    setPriceAlertChannels,
     preferences,
   } = useNotifications();
+  const { rules, canAddRules, addRule, removeRule, toggleRule, setRuleChannels } = useAlertRules();
+  const { settings: deliverySettings, channelOptions, canConfigure } = useAlertDelivery();
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [showDeliveryModal, setShowDeliveryModal] = useState(false);
+
+  /** Per-alert channels are only worth showing once there's a choice */
+  const showChannels = canConfigure && channelOptions.length > 1;
 
   const handleToggle = useCallback(
     async (alertId: string) => {
@@ -64,7 +150,7 @@ export default function PriceAlertsScreen() {
       }
       Alert.alert(
         "Delete Alert",
-        `Remove ${alert.type === "above" ? "above" : alert.type === "below" ? "below" : "% change"} alert for ${alert.stockName}?`,
+        `Remove "${formatAlertType(alert)}" alert for ${alert.stockName}?`,
         [
           { text: "Cancel", style: "cancel" },
           {
@@ -78,31 +164,87 @@ export default function PriceAlertsScreen() {
     [removePriceAlert]
   );
 
-  const formatAlertType = (alert: PriceAlert): string => {
-    switch (alert.type) {
-      case "above":
-        return `Above €${alert.threshold.toFixed(2)}`;
-      case "below":
-        return `Below €${alert.threshold.toFixed(2)}`;
-      case "percent_change":
-        return `±${alert.threshold.toFixed(1)}% change`;
-      default:
-        return "Unknown";
-    }
-  };
+  const handleDeleteRule = useCallback(
+    (rule: AlertRule) => {
+      if (Platform.OS === "web") {
+        removeRule(rule.id);
+        return;
+      }
+      Alert.alert("Delete Rule", `Remove the "${rule.name}" rule?`, [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => removeRule(rule.id),
+        },
+      ]);
+    },
+    [removeRule]
+  );
 
-  const formatAlertIcon = (type: string): string => {
-    switch (type) {
-      case "above":
-        return "📈";
-      case "below":
-        return "📉";
-      case "percent_change":
-        return "🔔";
-      default:
-        return "🔔";
-    }
-  };
+  const renderRule = (rule: AlertRule) => (
+    <View
+      key={rule.id}
+      style={[
+        styles.alertRow,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      <View style={styles.alertLeft}>
+        <Body style={{ fontSize: 20 }}>🧩</Body>
+        <View style={styles.alertInfo}>
+          <Subhead style={{ fontFamily: FontFamily.semibold }}>{rule.name}</Subhead>
+          <Caption1 color="muted">{rule.description}</Caption1>
+          {rule.lastTriggered && (
+            <Caption1 color="muted" style={{ marginTop: 2 }}>
+              Last triggered: {new Date(rule.lastTriggered).toLocaleDateString()}
+            </Caption1>
+          )}
+          {showChannels && (
+            <View style={styles.channels}>
+              <AlertChannelPicker
+                value={rule.channels}
+                options={channelOptions}
+                onChange={(channels) => {
+                  setRuleChannels(rule.id, channels);
+                }}
+              />
+            </View>
+          )}
+        </View>
+      </View>
+      <View style={styles.alertRight}>
+        <Switch
+          value={rule.enabled}
+          onValueChange={() => {
+            toggleRule(rule.id);
+          }}
+          trackColor={{
+            false: colors.surfaceSecondary,
+            true: colors.primary,
+          }}
+          thumbColor={
+            Platform.OS === "android" ? colors.onPrimary : undefined
+          }
+          ios_backgroundColor={colors.surfaceSecondary}
+        />
+        <AnimatedPressable
+          variant="destructive"
+          onPress={() => handleDeleteRule(rule)}
+          style={[
+            styles.deleteButton,
+            { backgroundColor: colors.error + "15" },
+          ]}
+          accessibilityLabel={`Delete ${rule.name} rule`}
+          accessibilityRole="button"
+        >
+          <Caption1 style={{ color: colors.error, fontFamily: FontFamily.semibold }}>
+            Delete
+          </Caption1>
+        </AnimatedPressable>
+      </View>
+    </View>
+  );
 
   const renderAlert = ({ item }: { item: PriceAlert }) => (
     <View
@@ -124,6 +266,17 @@ export default function PriceAlertsScreen() {
               {new Date(item.lastTriggered).toLocaleDateString()}
             </Caption1>
           )}
+          {showChannels && (
+            <View style={styles.channels}>
+              <AlertChannelPicker
+                value={item.channels}
+                options={channelOptions}
+                onChange={(channels) => {
+                  setPriceAlertChannels(item.id, channels);
+                }}
+              />
+            </View>
+          )}
         </View>
       </View>
       <View style={styles.alertRight}>
@@ -216,39 +369,97 @@ export default function PriceAlertsScreen() {
       )}
 
       {/* ── Alert List ── */}
-      {alerts.length === 0 ? (
-        <ReAnimated.View entering={FadeIn.duration(300).delay(120)} style={styles.emptyState}>
-          <Body style={{ fontSize: 48, textAlign: "center" }}>🔔</Body>
-          <Title3 style={{ textAlign: "center", marginTop: 12 }}>
-            No Price Alerts
-          </Title3>
-          <Body
-            color="muted"
-            style={{ textAlign: "center", marginTop: 8, paddingHorizontal: 32 }}
-          >
-            Set price alerts on stocks from the Markets or Asset Detail screen.
-            You'll be notified when prices hit your targets.
-          </Body>
-        </ReAnimated.View>
-      ) : (
-        <FlatList
-          data={[...activeAlerts, ...inactiveAlerts]}
-          renderItem={renderAlert}
-          keyExtractor={(item) => item.id}
-          contentContainerStyle={styles.listContent}
-          showsVerticalScrollIndicator={false}
-          ListHeaderComponent={
-            alerts.length > 0 ? (
+      <FlatList
+        data={[...activeAlerts, ...inactiveAlerts]}
+        renderItem={renderAlert}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={[styles.listContent, alerts.length === 0 && { flexGrow: 1 }]}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <>
+            {/* ── Delivery (signed in) ── */}
+            {canConfigure && (
+              <View style={styles.rulesSection}>
+                <View style={styles.sectionHeader}>
+                  <Subhead style={{ fontFamily: FontFamily.semibold }}>Delivery</Subhead>
+                  <AnimatedPressable
+                    variant="chip"
+                    onPress={() => setShowDeliveryModal(true)}
+                    style={[styles.newRuleButton, { backgroundColor: colors.primary + "15" }]}
+                    accessibilityLabel="Alert delivery settings"
+                    accessibilityRole="button"
+                  >
+                    <Caption1 style={{ color: colors.primary, fontFamily: FontFamily.semibold }}>
+                      Manage
+                    </Caption1>
+                  </AnimatedPressable>
+                </View>
+                <Caption1 color="muted">{describeDeliverySetup(deliverySettings)}</Caption1>
+              </View>
+            )}
+            {/* ── Rules (signed in) ── */}
+            {canAddRules && (
+              <View style={styles.rulesSection}>
+                <View style={styles.sectionHeader}>
+                  <Subhead style={{ fontFamily: FontFamily.semibold }}>Rules</Subhead>
+                  <AnimatedPressable
+                    variant="chip"
+                    onPress={() => setShowRuleModal(true)}
+                    style={[styles.newRuleButton, { backgroundColor: colors.primary + "15" }]}
+                    accessibilityLabel="New alert rule"
+                    accessibilityRole="button"
+                  >
+                    <Caption1 style={{ color: colors.primary, fontFamily: FontFamily.semibold }}>
+                      + New Rule
+                    </Caption1>
+                  </AnimatedPressable>
+                </View>
+                {rules.length === 0 ? (
+                  <Caption1 color="muted">
+                    Combine conditions, like ETE below €14 AND volume over 2× average, or get
+                    alerted when your portfolio is down 3% today.
+                  </Caption1>
+                ) : (
+                  <View style={{ gap: 8 }}>{rules.map(renderRule)}</View>
+                )}
+              </View>
+            )}
+            {alerts.length > 0 ? (
               <View style={styles.statsRow}>
                 <Caption1 color="muted">
                   {activeAlerts.length} active · {inactiveAlerts.length} paused
                 </Caption1>
               </View>
-            ) : null
-          }
-          ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
-        />
-      )}
+            ) : null}
+          </>
+        }
+        ListEmptyComponent={
+          <ReAnimated.View entering={FadeIn.duration(300).delay(120)} style={styles.emptyState}>
+            <Body style={{ fontSize: 48, textAlign: "center" }}>🔔</Body>
+            <Title3 style={{ textAlign: "center", marginTop: 12 }}>
+              No Price Alerts
+            </Title3>
+            <Body
+              color="muted"
+              style={{ textAlign: "center", marginTop: 8, paddingHorizontal: 32 }}
+            >
+              Set price alerts on stocks from the Markets or Asset Detail screen.
+              You'll be notified when prices hit your targets.
+            </Body>
+          </ReAnimated.View>
+        }
+        ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+      />
+
+      <AddRuleModal
+        visible={showRuleModal}
+        onClose={() => setShowRuleModal(false)}
+        onSave={addRule}
+      />
+      <DeliverySettingsModal
+        visible={showDeliveryModal}
+        onClose={() => setShowDeliveryModal(false)}
+      />
     </ScreenContainer>
   );
 }
@@ -296,6 +507,23 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingBottom: 40,
   },
+  rulesSection: {
+    paddingBottom: 20,
+    gap: 10,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  newRuleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  channels: {
+    marginTop: 8,
+  },
   statsRow: {
     paddingBottom: 12,
     paddingHorizontal: 4,
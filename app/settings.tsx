@@ -14,7 +14,7 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 import { ScreenContainer } from "@/components/screen-container";
 import { useColors } from "@/hooks/use-colors";
 import { useThemeContext, type ThemePreference } from "@/lib/theme-provider";
-import { useDemo } from "@/lib/demo-context";
+import { useDemo, type SyncStatus } from "@/lib/demo-context";
 import { useViewMode } from "@/lib/viewmode-context";
 import { ViewModeToggle } from "@/components/ui/view-mode-toggle";
 import { IconSymbol } from "@/components/ui/icon-symbol";
@@ -27,6 +27,8 @@ import {
   Caption1,
 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import { BROKER_SCHEDULES, type BrokerSchedule } from "@shared/tradingCosts";
+import { COST_BASIS_METHODS } from "@shared/costBasis";
 
 // ─── Storage Keys ────────────────────────────────────────────────────────────
 
@@ -37,6 +39,25 @@ const NOTIF_KEYS = {
   marketNews: "@agrx/notif-market-news",
 };
 
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  local: "Sign in to sync",
+  syncing: "Syncing…",
+  synced: "Up to date",
+  offline: "Offline — will retry",
+  error: "Sync failed",
+};
+
+/** "0.15% · min €6" — first band's rate plus the minimum charge */
+function describeSchedule(schedule: BrokerSchedule): string {
+  if (schedule.minimum === 0 && schedule.bands.every((b) => b.rate === 0)) {
+    return "No commission — exchange fees and tax still apply";
+  }
+  const [first] = schedule.bands;
+  const rate = `${(first.rate * 100).toFixed(2)}%`;
+  const tiered = first.upTo !== null ? ` (less above €${first.upTo.toLocaleString()})` : "";
+  return `${rate}${tiered} · min €${schedule.minimum}`;
+}
+
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 type NotifState = {
@@ -52,7 +73,15 @@ export default function SettingsScreen() {
   const router = useRouter();
   const colors = useColors();
   const { preference, setPreference, isDark } = useThemeContext();
-  const { state: demoState, resetDemo } = useDemo();
+  const {
+    state: demoState,
+    resetDemo,
+    setBroker,
+    setShareMode,
+    setCostBasisMethod,
+    syncStatus,
+    syncNow,
+  } = useDemo();
   const { mode } = useViewMode();
 
   const [notifs, setNotifs] = useState<NotifState>({
@@ -270,6 +299,123 @@ export default function SettingsScreen() {
         </View>
         </ReAnimated.View>
 
+        {/* ═══════════════════════════════════════════════════════════════════
+            SECTION: Trading Costs
+            ═══════════════════════════════════════════════════════════════════ */}
+        <ReAnimated.View entering={FadeInDown.duration(250).delay(210)}>
+        <SectionLabel text="Broker Commission" />
+        <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          {Object.values(BROKER_SCHEDULES).map((schedule, i, all) => {
+            const isSelected = demoState.broker === schedule.id;
+            return (
+              <AnimatedPressable
+                key={schedule.id}
+                variant="card"
+                onPress={() => setBroker(schedule.id)}
+                style={[
+                  styles.row,
+                  i < all.length - 1 && {
+                    borderBottomWidth: StyleSheet.hairlineWidth,
+                    borderBottomColor: colors.border,
+                  },
+                ]}
+                accessibilityLabel={schedule.name}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <View style={styles.rowLeft}>
+                  <View>
+                    <Subhead style={{ fontFamily: FontFamily.medium }}>{schedule.name}</Subhead>
+                    <Caption1 color="muted" style={{ marginTop: 2 }}>
+                      {describeSchedule(schedule)}
+                    </Caption1>
+                  </View>
+                </View>
+                <View
+                  style={[
+                    styles.radioOuter,
+                    {
+                      borderColor: isSelected ? colors.primary : colors.muted,
+                      borderWidth: isSelected ? 2 : 1.5,
+                    },
+                  ]}
+                >
+                  {isSelected && (
+                    <View
+                      style={[styles.radioInner, { backgroundColor: colors.primary }]}
+                    />
+                  )}
+                </View>
+              </AnimatedPressable>
+            );
+          })}
+        </View>
+        <SectionLabel text="Share Trading" />
+        <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          <NotifRow
+            label="Fractional Shares"
+            description={
+              demoState.shareMode === "fractional"
+                ? "Learning mode: trade any euro amount. Real ATHEX accounts trade whole shares only."
+                : "Off: you trade whole shares, as on ATHEX"
+            }
+            value={demoState.shareMode === "fractional"}
+            onToggle={() =>
+              setShareMode(demoState.shareMode === "fractional" ? "whole" : "fractional")
+            }
+            colors={colors}
+            isLast={true}
+          />
+        </View>
+        <SectionLabel text="Cost Basis" />
+        <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+          {COST_BASIS_METHODS.map((method, i, all) => {
+            const isSelected = demoState.costBasisMethod === method.id;
+            return (
+              <AnimatedPressable
+                key={method.id}
+                variant="card"
+                onPress={() => setCostBasisMethod(method.id)}
+                style={[
+                  styles.row,
+                  i < all.length - 1 && {
+                    borderBottomWidth: StyleSheet.hairlineWidth,
+                    borderBottomColor: colors.border,
+                  },
+                ]}
+                accessibilityLabel={method.name}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <View style={styles.rowLeft}>
+                  <View>
+                    <Subhead style={{ fontFamily: FontFamily.medium }}>{method.name}</Subhead>
+                    <Caption1 color="muted" style={{ marginTop: 2 }}>
+                      {method.description}
+                    </Caption1>
+                  </View>
+                </View>
+                <View
+                  style={[
+                    styles.radioOuter,
+                    {
+                      borderColor: isSelected ? colors.primary : colors.muted,
+                      borderWidth: isSelected ? 2 : 1.5,
+                    },
+                  ]}
+                >
+                  {isSelected && (
+                    <View
+                      style={[styles.radioInner, { backgroundColor: colors.primary }]}
+                    />
+                  )}
+                </View>
+              </AnimatedPressable>
+            );
+          })}
+        </View>
+        </ReAnimated.View>
+
         {/* ═══════════════════════════════════════════════════════════════════
             SECTION: Account
             ═══════════════════════════════════════════════════════════════════ */}
@@ -283,6 +429,20 @@ export default function SettingsScreen() {
             colors={colors}
             isLast={false}
           />
+          <SettingsRow
+            label="Cloud Sync"
+            value={SYNC_STATUS_LABELS[syncStatus]}
+            valueColor={
+              syncStatus === "synced"
+                ? colors.success
+                : syncStatus === "offline" || syncStatus === "error"
+                  ? colors.warning
+                  : colors.muted
+            }
+            onPress={syncStatus === "local" ? undefined : syncNow}
+            colors={colors}
+            isLast={false}
+          />
           <SettingsRow
             label="Reset Demo Balance"
             value={`€${demoState.balance.toLocaleString()}`}
@@ -4,7 +4,8 @@
  * Chronological record of all executed trades (buy/sell) from DemoContext.
  * Grouped by date (Today, Yesterday, This Week, Earlier).
  * Each trade shows side indicator, ticker, shares, execution price,
- * and per-trade P&L computed against live prices.
+ * and per-trade P&L: the realized gain or loss booked on sells (by the
+ * account's cost basis method), or unrealized P&L against live prices on buys.
  *
  * Animation: AGRX motion language applied —
  *   Header: FadeIn.duration(200)
@@ -37,6 +38,8 @@ import {
 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
 import { STAGGER_DELAY, STAGGER_MAX } from "@/lib/animations";
+import { formatShares } from "@shared/tradingCosts";
+import { totalRealizedPnL } from "@shared/costBasis";
 
 // ─── Date Grouping ─────────────────────────────────────────────────────────
 
@@ -103,7 +106,7 @@ const SORT_OPTIONS: { key: TradeSort; label: string }[] = [
 export default function TradeHistoryScreen() {
   const router = useRouter();
   const colors = useColors();
-  const { state } = useDemo();
+  const { state, getPortfolioPnL } = useDemo();
   const { stocks } = useStockQuotes();
   const [filter, setFilter] = useState<TradeFilter>("all");
   const [sort, setSort] = useState<TradeSort>("newest");
@@ -190,47 +193,32 @@ export default function TradeHistoryScreen() {
     const buyCount = state.trades.filter((t) => t.type === "buy").length;
     const sellCount = state.trades.filter((t) => t.type === "sell").length;
 
-    // Realized P&L from sells: (sell price - avg cost at time) × shares
-    // For buys: unrealized P&L = (live price - buy price) × shares
-    let totalPnL = 0;
-    for (const trade of state.trades) {
-      const livePrice = livePriceMap[trade.stockId];
-      if (trade.type === "buy") {
-        // Unrealized: current value vs cost
-        if (livePrice != null) {
-          totalPnL += (livePrice - trade.price) * trade.shares;
-        }
-      } else {
-        // Realized: sell price vs cost (we use the trade's execution price)
-        // For sells, P&L is already locked in — but we don't have the original buy price
-        // stored per-sell. We'll show the trade amount as realized.
-        // A simpler approach: show P&L relative to current price
-        if (livePrice != null) {
-          totalPnL += (trade.price - livePrice) * trade.shares;
-        }
-      }
-    }
+    // Realized: booked on each sell against the lots it closed
+    // Unrealized: open lots marked to live prices
+    const realizedPnL = totalRealizedPnL(state.trades);
+    const unrealizedPnL = getPortfolioPnL(livePriceMap).pnl;
+    const totalPnL = realizedPnL + unrealizedPnL;
 
-    return { totalTrades, buyCount, sellCount, totalPnL };
-  }, [state.trades, livePriceMap]);
+    return { totalTrades, buyCount, sellCount, realizedPnL, unrealizedPnL, totalPnL };
+  }, [state.trades, livePriceMap, getPortfolioPnL]);
 
   // Compute per-trade P&L
   const getTradeP_L = useCallback(
-    (trade: DemoTrade): { pnl: number; pnlPercent: number } | null => {
+    (trade: DemoTrade): { pnl: number; pnlPercent: number; realized: boolean } | null => {
+      if (trade.type === "sell") {
+        // Locked in when the sell closed its lots (not recorded on older sells)
+        if (trade.realizedPnL == null) return null;
+        const costBasis = trade.costBasis ?? 0;
+        const pnlPercent = costBasis > 0 ? (trade.realizedPnL / costBasis) * 100 : 0;
+        return { pnl: trade.realizedPnL, pnlPercent, realized: true };
+      }
+
+      // Unrealized: (current - buy) × shares
       const livePrice = livePriceMap[trade.stockId];
       if (livePrice == null) return null;
-
-      if (trade.type === "buy") {
-        // Unrealized: (current - buy) × shares
-        const pnl = (livePrice - trade.price) * trade.shares;
-        const pnlPercent = ((livePrice - trade.price) / trade.price) * 100;
-        return { pnl, pnlPercent };
-      } else {
-        // Realized: (sell - current) × shares — profit if sold above current
-        const pnl = (trade.price - livePrice) * trade.shares;
-        const pnlPercent = ((trade.price - livePrice) / livePrice) * 100;
-        return { pnl, pnlPercent };
-      }
+      const pnl = (livePrice - trade.price) * trade.shares;
+      const pnlPercent = ((livePrice - trade.price) / trade.price) * 100;
+      return { pnl, pnlPercent, realized: false };
     },
     [livePriceMap]
   );
@@ -325,7 +313,9 @@ export default function TradeHistoryScreen() {
               <View style={styles.tradeBottomRow}>
                 <View style={styles.tradeMetaRow}>
                   <Caption2 color="muted">
-                    {trade.shares.toFixed(trade.shares < 1 ? 4 : 2)} shares @ €{trade.price.toFixed(2)}
+                    {formatShares(trade.shares)} shares @ €{trade.price.toFixed(2)}
+                    {(trade.fees ?? 0) + (trade.tax ?? 0) > 0 &&
+                      ` · €${((trade.fees ?? 0) + (trade.tax ?? 0)).toFixed(2)} costs`}
                   </Caption2>
                   <Caption2 color="muted" style={{ marginLeft: 8 }}>
                     {timeStr}
@@ -333,13 +323,16 @@ export default function TradeHistoryScreen() {
                 </View>
                 {tradePnL && (
                   <View style={styles.pnlContainer}>
+                    <Caption2 color="muted" style={{ marginRight: 4 }}>
+                      {tradePnL.realized ? "realized" : "open"}
+                    </Caption2>
                     <MonoCaption1
                       style={{
                         color: tradePnL.pnl >= 0 ? colors.success : colors.error,
                         fontFamily: FontFamily.monoMedium,
                       }}
                     >
-                      {tradePnL.pnl >= 0 ? "+" : ""}€{Math.abs(tradePnL.pnl).toFixed(2)}
+                      {tradePnL.pnl >= 0 ? "+" : "-"}€{Math.abs(tradePnL.pnl).toFixed(2)}
                     </MonoCaption1>
                   </View>
                 )}
@@ -352,12 +345,9 @@ export default function TradeHistoryScreen() {
     [colors, getTradeP_L, handleTradePress]
   );
 
-  const totalPnLColor =
-    summaryStats.totalPnL === 0
-      ? colors.muted
-      : summaryStats.totalPnL > 0
-      ? colors.success
-      : colors.error;
+  const pnlColor = (value: number) =>
+    value === 0 ? colors.muted : value > 0 ? colors.success : colors.error;
+  const totalPnLColor = pnlColor(summaryStats.totalPnL);
 
   return (
     <ScreenContainer edges={["top", "left", "right"]}>
@@ -497,10 +487,22 @@ export default function TradeHistoryScreen() {
                   color: totalPnLColor,
                 }}
               >
-                {summaryStats.totalPnL >= 0 ? "+" : ""}€{Math.abs(summaryStats.totalPnL).toFixed(2)}
+                {summaryStats.totalPnL >= 0 ? "+" : "-"}€{Math.abs(summaryStats.totalPnL).toFixed(2)}
               </MonoSubhead>
             </View>
           </View>
+          <View style={[styles.summaryBreakdown, { borderTopColor: colors.border }]}>
+            <Caption1 color="muted">
+              Realized{" "}
+              <Caption1 style={{ fontFamily: FontFamily.monoMedium, color: pnlColor(summaryStats.realizedPnL) }}>
+                {summaryStats.realizedPnL >= 0 ? "+" : "-"}€{Math.abs(summaryStats.realizedPnL).toFixed(2)}
+              </Caption1>
+              {"  ·  "}Unrealized{" "}
+              <Caption1 style={{ fontFamily: FontFamily.monoMedium, color: pnlColor(summaryStats.unrealizedPnL) }}>
+                {summaryStats.unrealizedPnL >= 0 ? "+" : "-"}€{Math.abs(summaryStats.unrealizedPnL).toFixed(2)}
+              </Caption1>
+            </Caption1>
+          </View>
         </Animated.View>
       )}
 
@@ -604,6 +606,12 @@ const styles = StyleSheet.create({
     height: 36,
     marginHorizontal: 12,
   },
+  summaryBreakdown: {
+    alignItems: "center",
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
   sectionHeader: {
     paddingHorizontal: 4,
     paddingTop: 16,
@@ -0,0 +1,164 @@
+/**
+ * CompanyFundamentals — Profile and Financials tabs on the asset screen
+ *
+ * Profile shows what the company does, where it's based and its sector.
+ * Financials shows valuation at the current price (market cap, P/E, P/B,
+ * dividend yield) and the latest annual figures, labelled as sample data
+ * when the provider's figures are indicative.
+ *
+ * Usage:
+ *   <CompanyFundamentals
+ *     fundamentals={fundamentals}
+ *     sector="Banking"
+ *   />
+ */
+import React, { useState } from "react";
+import { View, StyleSheet, Linking } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { Body, Caption1, Caption2, Subhead } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import {
+  formatCompactEuro,
+  formatMultiple,
+  formatShareCount,
+  type StockFundamentals,
+} from "@shared/fundamentals";
+
+type FundamentalsTab = "profile" | "financials";
+
+const TABS: { tab: FundamentalsTab; label: string }[] = [
+  { tab: "profile", label: "Profile" },
+  { tab: "financials", label: "Financials" },
+];
+
+interface CompanyFundamentalsProps {
+  fundamentals: StockFundamentals;
+  sector: string;
+}
+
+function formatPerShare(value: number | null): string {
+  return value === null ? "N/A" : `€${value.toFixed(2)}`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "N/A" : `${value.toFixed(2)}%`;
+}
+
+export function CompanyFundamentals({ fundamentals, sector }: CompanyFundamentalsProps) {
+  const colors = useColors();
+  const [tab, setTab] = useState<FundamentalsTab>("profile");
+  const { profile, valuation } = fundamentals;
+
+  const rows =
+    tab === "profile"
+      ? [
+          { label: "Sector", value: sector },
+          { label: "Headquarters", value: profile.headquarters },
+          { label: "Founded", value: profile.founded?.toString() ?? "N/A" },
+          { label: "Employees", value: profile.employees?.toLocaleString("en-US") ?? "N/A" },
+        ]
+      : [
+          { label: "Market Cap", value: formatCompactEuro(valuation.marketCap) },
+          { label: "P/E", value: formatMultiple(valuation.peRatio) },
+          { label: "EPS", value: formatPerShare(fundamentals.eps) },
+          { label: "Div. Yield", value: formatPercent(valuation.dividendYield) },
+          { label: "Book Value / Share", value: formatPerShare(fundamentals.bookValuePerShare) },
+          { label: "P/B", value: formatMultiple(valuation.priceToBook) },
+          { label: "Revenue", value: formatCompactEuro(fundamentals.revenue) },
+          { label: "Net Income", value: formatCompactEuro(fundamentals.netIncome) },
+          { label: "Shares Out.", value: formatShareCount(fundamentals.sharesOutstanding) },
+          { label: "Free Float", value: formatPercent(fundamentals.freeFloat) },
+        ];
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <View style={[styles.tabs, { backgroundColor: colors.surfaceSecondary }]}>
+        {TABS.map(({ tab: key, label }) => {
+          const isActive = tab === key;
+          return (
+            <AnimatedPressable
+              key={key}
+              variant="toggle"
+              onPress={() => setTab(key)}
+              style={[styles.tab, isActive && { backgroundColor: colors.surface }]}
+            >
+              <Caption1
+                color={isActive ? "foreground" : "muted"}
+                style={{ fontFamily: isActive ? FontFamily.semibold : FontFamily.medium }}
+              >
+                {label}
+              </Caption1>
+            </AnimatedPressable>
+          );
+        })}
+      </View>
+
+      {tab === "profile" && (
+        <Body style={styles.description}>{profile.description}</Body>
+      )}
+
+      <View style={styles.grid}>
+        {rows.map((row) => (
+          <View key={row.label} style={styles.item}>
+            <Caption1 color="muted" style={{ fontFamily: FontFamily.medium, marginBottom: 2 }}>
+              {row.label}
+            </Caption1>
+            <Subhead style={{ fontFamily: FontFamily.semibold }}>{row.value}</Subhead>
+          </View>
+        ))}
+      </View>
+
+      {tab === "profile" && profile.website && (
+        <AnimatedPressable
+          variant="button"
+          onPress={() => Linking.openURL(`https://${profile.website}`)}
+          style={styles.footer}
+        >
+          <Caption1 color="primary" style={{ fontFamily: FontFamily.semibold }}>
+            {profile.website}
+          </Caption1>
+        </AnimatedPressable>
+      )}
+      {tab === "financials" && (
+        <Caption2 color="muted" style={[styles.footer, { fontFamily: FontFamily.medium }]}>
+          FY{fundamentals.fiscalYear} {fundamentals.indicative ? "indicative figures (sample data, not reported results)" : "annual figures"} · valuation at €{valuation.price.toFixed(2)}
+        </Caption2>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  tabs: {
+    flexDirection: "row",
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  description: {
+    marginBottom: 8,
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  item: {
+    width: "50%",
+    paddingVertical: 8,
+  },
+  footer: {
+    marginTop: 8,
+  },
+});
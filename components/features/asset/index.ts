@@ -0,0 +1,2 @@
+export { IndicatorChart } from "./indicator-chart";
+export { CompanyFundamentals } from "./company-fundamentals";
@@ -0,0 +1,239 @@
+/**
+ * IndicatorChart — Pro mode price chart with technical indicators
+ *
+ * Draws the close with moving average, Bollinger Band and VWAP overlays,
+ * plus RSI and MACD sub-panes underneath. Chips toggle each indicator and
+ * show its latest value.
+ *
+ * Usage:
+ *   <IndicatorChart
+ *     indicators={indicators}
+ *     width={360}
+ *     positive={true}
+ *   />
+ */
+import React, { useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSLineChart, type ChartOverlay } from "@/components/ui/cds-line-chart";
+import { CDSBarChart } from "@/components/ui/cds-bar-chart";
+import { Caption1, Caption2 } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import type { IndicatorId, IndicatorSet, Series } from "@/server/indicators";
+
+interface IndicatorChartProps {
+  indicators: IndicatorSet;
+  width: number;
+  positive: boolean;
+}
+
+const TOGGLES: { id: IndicatorId; label: string }[] = [
+  { id: "sma", label: "SMA" },
+  { id: "ema", label: "EMA" },
+  { id: "bollinger", label: "BB" },
+  { id: "vwap", label: "VWAP" },
+  { id: "rsi", label: "RSI" },
+  { id: "macd", label: "MACD" },
+];
+
+const DEFAULT_VISIBLE: IndicatorId[] = ["sma", "bollinger", "rsi", "macd"];
+
+function latest(series: Series | undefined): number | null {
+  if (!series) return null;
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+}
+
+function formatValue(value: number | null, digits = 2): string {
+  return value === null ? "—" : value.toFixed(digits);
+}
+
+export function IndicatorChart({ indicators, width, positive }: IndicatorChartProps) {
+  const colors = useColors();
+  const [visible, setVisible] = useState<IndicatorId[]>(DEFAULT_VISIBLE);
+  const isOn = (id: IndicatorId) => visible.includes(id);
+
+  const toggle = (id: IndicatorId) =>
+    setVisible((current) => (current.includes(id) ? current.filter((v) => v !== id) : [...current, id]));
+
+  const averageColors = [colors.primary, colors.gold, colors.accent];
+  const overlays: ChartOverlay[] = [];
+  const legend: { label: string; color: string; value: string }[] = [];
+
+  if (isOn("sma")) {
+    indicators.sma.forEach((ma, i) => {
+      overlays.push({ data: ma.values, color: averageColors[i % averageColors.length] });
+      legend.push({ label: `SMA ${ma.period}`, color: averageColors[i % averageColors.length], value: formatValue(latest(ma.values)) });
+    });
+  }
+  if (isOn("ema")) {
+    indicators.ema.forEach((ma, i) => {
+      const color = averageColors[(i + 2) % averageColors.length];
+      overlays.push({ data: ma.values, color, dashed: true });
+      legend.push({ label: `EMA ${ma.period}`, color, value: formatValue(latest(ma.values)) });
+    });
+  }
+  if (isOn("vwap") && indicators.vwap) {
+    overlays.push({ data: indicators.vwap, color: colors.warning, dashed: true });
+    legend.push({ label: "VWAP", color: colors.warning, value: formatValue(latest(indicators.vwap)) });
+  }
+
+  const bollinger = isOn("bollinger") ? indicators.bollinger : null;
+  if (bollinger) {
+    legend.push({
+      label: `BB ${bollinger.period},${bollinger.stdDev}`,
+      color: colors.muted,
+      value: `${formatValue(latest(bollinger.lower))}–${formatValue(latest(bollinger.upper))}`,
+    });
+  }
+
+  const rsi = isOn("rsi") ? indicators.rsi : null;
+  const macd = isOn("macd") ? indicators.macd : null;
+  const rsiValue = latest(rsi?.values);
+
+  return (
+    <View style={styles.container}>
+      {legend.length > 0 && (
+        <View style={styles.legendRow}>
+          {legend.map((item) => (
+            <View key={item.label} style={styles.legendItem}>
+              <View style={[styles.legendLine, { backgroundColor: item.color }]} />
+              <Caption2 color="muted">
+                {item.label} {item.value}
+              </Caption2>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <CDSLineChart
+        data={indicators.close}
+        width={width}
+        height={200}
+        positive={positive}
+        smooth={false}
+        showGradient={!bollinger}
+        overlays={overlays}
+        band={bollinger ? { upper: bollinger.upper, lower: bollinger.lower, color: colors.muted } : undefined}
+      />
+
+      {rsi && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>
+            RSI {rsi.period}{" "}
+            <Caption2
+              style={{
+                color: rsiValue === null ? colors.muted : rsiValue >= 70 ? colors.error : rsiValue <= 30 ? colors.success : colors.foreground,
+                fontFamily: FontFamily.semibold,
+              }}
+            >
+              {formatValue(rsiValue, 1)}
+            </Caption2>
+          </Caption2>
+          <CDSLineChart
+            data={rsi.values.map((v) => v ?? 50)}
+            width={width}
+            height={90}
+            positive
+            smooth={false}
+            showGradient={false}
+            strokeWidth={1.5}
+            domain={[0, 100]}
+            referenceLines={[30, 70]}
+          />
+        </View>
+      )}
+
+      {macd && (
+        <View style={styles.pane}>
+          <Caption2 color="muted" style={styles.paneLabel}>
+            MACD {macd.fast},{macd.slow},{macd.signal} {formatValue(latest(macd.macd), 3)} / {formatValue(latest(macd.signalLine), 3)}
+          </Caption2>
+          <CDSBarChart
+            data={macd.histogram.map((v) => v ?? 0)}
+            width={width}
+            height={90}
+            signed
+            barSpacing={1}
+            borderRadius={1}
+            lines={[
+              { data: macd.macd, color: colors.primary },
+              { data: macd.signalLine, color: colors.warning },
+            ]}
+          />
+        </View>
+      )}
+
+      <View style={styles.chipRow}>
+        {TOGGLES.map((t) => {
+          const selected = isOn(t.id);
+          return (
+            <AnimatedPressable
+              key={t.id}
+              variant="chip"
+              onPress={() => toggle(t.id)}
+              style={[styles.chip, { backgroundColor: selected ? colors.primaryAlpha : colors.surfaceSecondary }]}
+              accessibilityRole="button"
+              accessibilityLabel={`${selected ? "Hide" : "Show"} ${t.label}`}
+              accessibilityState={{ selected }}
+            >
+              <Caption1
+                color={selected ? "primary" : "muted"}
+                style={{ fontFamily: selected ? FontFamily.semibold : FontFamily.medium }}
+              >
+                {t.label}
+              </Caption1>
+            </AnimatedPressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    gap: 6,
+  },
+  legendRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendLine: {
+    width: 14,
+    height: 2,
+    borderRadius: 1,
+  },
+  pane: {
+    alignSelf: "stretch",
+    alignItems: "center",
+  },
+  paneLabel: {
+    alignSelf: "flex-start",
+    paddingLeft: 8,
+    fontFamily: FontFamily.medium,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 6,
+    marginTop: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+});
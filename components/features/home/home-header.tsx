@@ -23,6 +23,7 @@ import { IconSymbol } from "@/components/ui/icon-symbol";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { ViewModeToggle } from "@/components/ui/view-mode-toggle";
 import { useColors } from "@/hooks/use-colors";
+import type { DataStatus } from "@/hooks/use-stocks";
 import { Footnote, Title2, Caption1, Caption2 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
 
@@ -31,6 +32,8 @@ interface HomeHeaderProps {
   userName: string;
   isPro: boolean;
   isLive: boolean;
+  status?: DataStatus;
+  isStreaming?: boolean;
   lastUpdated?: number | null;
   userStreak: number;
   unreadCount: number;
@@ -41,6 +44,8 @@ export function HomeHeader({
   userName,
   isPro,
   isLive,
+  status,
+  isStreaming,
   lastUpdated,
   userStreak,
   unreadCount,
@@ -56,7 +61,7 @@ export function HomeHeader({
           <Title2>{userName}</Title2>
         </View>
         <View style={styles.headerActions}>
-          {isPro && <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />}
+          {isPro && <LiveBadge isLive={isLive} status={status} isStreaming={isStreaming} lastUpdated={lastUpdated} />}
           {isPro && (
             <View
               style={styles.streakBadge}
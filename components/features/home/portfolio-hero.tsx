@@ -1,7 +1,8 @@
 /**
  * PortfolioHero — Home screen portfolio hero
  *
- * Shows total balance, P&L, sparkline (Pro), and time period selectors (Pro).
+ * Shows total balance, P&L, and (Pro) the account value history for the
+ * selected period with its time-weighted return.
  *
  * Usage:
  *   <PortfolioHero
@@ -10,6 +11,9 @@
  *     portfolioPnlPercent={5}
  *     isPro={true}
  *     portfolioSparkline={[1, 2, 3, 4, 5]}
+ *     selectedRange="1M"
+ *     onRangeChange={setRange}
+ *     rangeReturn={2.4}
  *   />
  */
 import React from "react";
@@ -21,13 +25,19 @@ import { Sparkline } from "@/components/ui/sparkline";
 import { AnimatedNumber, AnimatedPnLNumber } from "@/components/ui/animated-number";
 import { Footnote, Caption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import { HISTORY_RANGES, type HistoryRange } from "@/hooks/use-portfolio-history";
 
 interface PortfolioHeroProps {
   totalAccountValue: number;
   portfolioPnl: number;
   portfolioPnlPercent: number;
   isPro: boolean;
+  /** Account value over the selected range */
   portfolioSparkline: number[];
+  selectedRange: HistoryRange;
+  onRangeChange: (range: HistoryRange) => void;
+  /** Time-weighted return over the selected range, in percent (null = no history) */
+  rangeReturn: number | null;
 }
 
 export function PortfolioHero({
@@ -36,9 +46,13 @@ export function PortfolioHero({
   portfolioPnlPercent,
   isPro,
   portfolioSparkline,
+  selectedRange,
+  onRangeChange,
+  rangeReturn,
 }: PortfolioHeroProps) {
   const colors = useColors();
   const isPositive = portfolioPnl >= 0;
+  const isRangePositive = rangeReturn !== null ? rangeReturn >= 0 : isPositive;
 
   return (
     <Animated.View entering={FadeInDown.duration(250).delay(60)} style={styles.portfolioHero}>
@@ -90,39 +104,55 @@ export function PortfolioHero({
               data={portfolioSparkline}
               width={320}
               height={44}
-              positive={isPositive}
+              positive={isRangePositive}
               strokeWidth={1.8}
             />
           </View>
+          {rangeReturn !== null && (
+            <Caption1 color="muted" style={{ marginTop: 6 }}>
+              {selectedRange} time-weighted return{" "}
+              <Caption1
+                color={rangeReturn >= 0 ? "success" : "error"}
+                style={{ fontFamily: FontFamily.monoMedium }}
+              >
+                {rangeReturn >= 0 ? "+" : ""}
+                {rangeReturn.toFixed(2)}%
+              </Caption1>
+            </Caption1>
+          )}
           <View
             style={styles.timePeriodRow}
             accessibilityRole="text"
             accessibilityLabel="Performance time period"
           >
-            {["1D", "1W", "1M", "3M", "1Y", "ALL"].map((period, i) => (
-              <AnimatedPressable
-                key={period}
-                variant="chip"
-                style={[
-                  styles.timePeriodButton,
-                  i === 0 && { backgroundColor: colors.primaryAlpha },
-                ]}
-                accessibilityLabel={`${period} performance`}
-                accessibilityHint={`View portfolio ${period.toLowerCase()} performance`}
-                accessibilityState={{ selected: i === 0 }}
-                accessibilityRole="button"
-              >
-                <Caption1
-                  color={i === 0 ? "primary" : "muted"}
-                  style={{
-                    fontFamily: i === 0 ? FontFamily.bold : FontFamily.medium,
-                    letterSpacing: 0.3,
-                  }}
+            {HISTORY_RANGES.map((period) => {
+              const isSelected = period === selectedRange;
+              return (
+                <AnimatedPressable
+                  key={period}
+                  variant="chip"
+                  onPress={() => onRangeChange(period)}
+                  style={[
+                    styles.timePeriodButton,
+                    isSelected && { backgroundColor: colors.primaryAlpha },
+                  ]}
+                  accessibilityLabel={`${period} performance`}
+                  accessibilityHint={`View portfolio ${period.toLowerCase()} performance`}
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityRole="button"
                 >
-                  {period}
-                </Caption1>
-              </AnimatedPressable>
-            ))}
+                  <Caption1
+                    color={isSelected ? "primary" : "muted"}
+                    style={{
+                      fontFamily: isSelected ? FontFamily.bold : FontFamily.medium,
+                      letterSpacing: 0.3,
+                    }}
+                  >
+                    {period}
+                  </Caption1>
+                </AnimatedPressable>
+              );
+            })}
           </View>
         </>
       )}
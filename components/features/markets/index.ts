@@ -2,3 +2,4 @@ export { MarketsHeader } from "./markets-header";
 export { SearchBarWithClear } from "./search-bar";
 export { SectorFilterChips } from "./sector-filter-chips";
 export { SortOptionChips } from "./sort-option-chips";
+export { ScreenerPanel } from "./screener-panel";
@@ -1,7 +1,8 @@
 /**
  * MarketsHeader — Markets screen header with live badge and market status
  *
- * Displays title, live badge, and ATHEX market status (open/closed) with colored indicator.
+ * Displays title, live badge, and the server's ATHEX session phase (open,
+ * auctions, closed or holiday) with colored indicator.
  *
  * Usage:
  *   <MarketsHeader
@@ -9,53 +10,49 @@
  *     lastUpdated={lastUpdateTimestamp}
  *   />
  */
-import React, { useMemo } from "react";
+import React from "react";
 import { View, StyleSheet } from "react-native";
 import Animated, { FadeIn } from "react-native-reanimated";
 import { useColors } from "@/hooks/use-colors";
+import type { DataStatus } from "@/hooks/use-stocks";
 import { Title1, Caption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
 import { LiveBadge } from "@/components/ui/live-badge";
+import { formatMarketPhase, useMarketStatus } from "@/hooks/use-market-status";
 
 interface MarketsHeaderProps {
   isLive: boolean;
+  status?: DataStatus;
+  isStreaming?: boolean;
   lastUpdated?: number | null;
 }
 
-export function MarketsHeader({ isLive, lastUpdated }: MarketsHeaderProps) {
+export function MarketsHeader({ isLive, status: dataStatus, isStreaming, lastUpdated }: MarketsHeaderProps) {
   const colors = useColors();
 
-  // ATHEX market status — derived in useMemo to satisfy React Compiler purity rules
-  const isMarketOpen = useMemo(() => {
-    const now = new Date();
-    const athensHour = new Date(
-      now.toLocaleString("en-US", { timeZone: "Europe/Athens" })
-    ).getHours();
-    const isWeekday = now.getDay() >= 1 && now.getDay() <= 5;
-    return isWeekday && athensHour >= 10 && athensHour < 17;
-  }, []); // Recalculates on every render, which is fine for time-based status
+  const { status, isOpen: isMarketOpen } = useMarketStatus();
+  const isAuction = status?.phase === "pre_open" || status?.phase === "closing_auction";
+  const statusColor = isMarketOpen ? "success" : isAuction ? "warning" : "muted";
 
   return (
     <Animated.View entering={FadeIn.duration(200)} style={styles.container}>
       <Title1>Markets</Title1>
       <View style={styles.headerRight}>
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} status={dataStatus} isStreaming={isStreaming} lastUpdated={lastUpdated} />
         <View style={styles.marketStatus}>
           <View
             style={[
               styles.statusDot,
               {
-                backgroundColor: isMarketOpen
-                  ? colors.success
-                  : colors.muted,
+                backgroundColor: colors[statusColor],
               },
             ]}
           />
           <Caption1
-            color={isMarketOpen ? "success" : "muted"}
+            color={statusColor}
             style={{ fontFamily: FontFamily.semibold }}
           >
-            {isMarketOpen ? "ATHEX Open" : "ATHEX Closed"}
+            {status ? formatMarketPhase(status) : "ATHEX"}
           </Caption1>
         </View>
       </View>
@@ -0,0 +1,478 @@
+/**
+ * ScreenerPanel — Stock screener with one-tap presets and a rule builder
+ *
+ * Preset chips apply a saved or built-in screen; the rule builder adds
+ * numeric rules (price, % change, volume, market cap, 52-week distance,
+ * dividend yield) or sector/category rules, matched with ALL (AND) or
+ * ANY (OR). Signed-in users can save the current screen by name.
+ *
+ * Under the match count, a note says how many screened stocks have reported
+ * fundamentals (and whether they are sample data): the rest have no market
+ * cap unless their quote carries one, so market-cap rules pass them over.
+ *
+ * Collapsed, it is a single header row showing whether a screen is active.
+ *
+ * Usage:
+ *   <ScreenerPanel
+ *     expanded={showScreener}
+ *     onToggle={() => setShowScreener((v) => !v)}
+ *     filter={screen}
+ *     onFilterChange={setScreen}
+ *     presets={presets}
+ *     canSave={canSave}
+ *     onSavePreset={savePreset}
+ *     onDeletePreset={deletePreset}
+ *     matchCount={total}
+ *     coverage={coverage}
+ *     isLoading={false}
+ *   />
+ */
+import React, { useState } from "react";
+import { View, TextInput, ScrollView, StyleSheet } from "react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { Caption1, Caption2, Footnote } from "@/components/ui/typography";
+import { useColors } from "@/hooks/use-colors";
+import { FontFamily } from "@/constants/typography";
+import {
+  describeScreen,
+  describeScreenRule,
+  isScreenFilter,
+  NUMERIC_SCREEN_FIELDS,
+  SCREEN_FIELD_LABELS,
+  STOCK_CATEGORIES,
+  type NumericScreenField,
+  type ScreenFilter,
+  type ScreenPreset,
+  type ScreenRule,
+} from "@shared/screener";
+import { SECTORS } from "@shared/sectors";
+
+interface ScreenCoverage {
+  /** Screened stocks with reported fundamentals */
+  covered: number;
+  /** Stocks screened */
+  universe: number;
+  /** The fundamentals are sample data */
+  indicative: boolean;
+}
+
+type EditorField = NumericScreenField | "sector" | "category";
+type EditorOp = "gte" | "lte" | "between";
+
+interface ScreenerPanelProps {
+  expanded: boolean;
+  onToggle: () => void;
+  filter: ScreenFilter | null;
+  onFilterChange: (filter: ScreenFilter | null) => void;
+  presets: ScreenPreset[];
+  canSave: boolean;
+  onSavePreset: (name: string, filter: ScreenFilter) => Promise<{ success: boolean; error?: string }>;
+  onDeletePreset: (id: string) => Promise<{ success: boolean; error?: string }>;
+  matchCount: number;
+  coverage: ScreenCoverage | null;
+  isLoading: boolean;
+}
+
+const EDITOR_FIELDS: EditorField[] = ["sector", "category", ...NUMERIC_SCREEN_FIELDS];
+
+const OPERATORS: { key: EditorOp; label: string }[] = [
+  { key: "gte", label: "≥" },
+  { key: "lte", label: "≤" },
+  { key: "between", label: "Between" },
+];
+
+/** Market cap is typed in € millions */
+const MARKET_CAP_UNIT = 1e6;
+
+function fieldLabel(field: EditorField): string {
+  return field === "marketCap" ? `${SCREEN_FIELD_LABELS.marketCap} (€M)` : SCREEN_FIELD_LABELS[field];
+}
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.replace(",", "."));
+  return text.trim() !== "" && Number.isFinite(value) ? value : null;
+}
+
+export function ScreenerPanel({
+  expanded,
+  onToggle,
+  filter,
+  onFilterChange,
+  presets,
+  canSave,
+  onSavePreset,
+  onDeletePreset,
+  matchCount,
+  coverage,
+  isLoading,
+}: ScreenerPanelProps) {
+  const colors = useColors();
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [field, setField] = useState<EditorField | null>(null);
+  const [op, setOp] = useState<EditorOp>("gte");
+  const [value, setValue] = useState("");
+  const [max, setMax] = useState("");
+  const [choices, setChoices] = useState<string[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const current: ScreenFilter = filter ?? { match: "all", rules: [] };
+
+  const resetEditor = () => {
+    setField(null);
+    setValue("");
+    setMax("");
+    setChoices([]);
+  };
+
+  const update = (next: ScreenFilter) => {
+    setActivePresetId(null);
+    setMessage(null);
+    onFilterChange(next.rules.length > 0 ? next : null);
+  };
+
+  const applyPreset = (preset: ScreenPreset) => {
+    if (activePresetId === preset.id) {
+      setActivePresetId(null);
+      onFilterChange(null);
+      return;
+    }
+    setActivePresetId(preset.id);
+    setMessage(null);
+    setPresetName(preset.builtIn ? "" : preset.name);
+    onFilterChange(preset.filter);
+  };
+
+  const buildRule = (): ScreenRule | null => {
+    if (!field) return null;
+    if (field === "sector") {
+      return choices.length > 0 ? { field, op: "in", values: choices as (typeof SECTORS)[number][] } : null;
+    }
+    if (field === "category") {
+      return choices.length > 0 ? { field, op: "in", values: choices as (typeof STOCK_CATEGORIES)[number][] } : null;
+    }
+    const unit = field === "marketCap" ? MARKET_CAP_UNIT : 1;
+    const low = parseNumber(value);
+    if (low === null) return null;
+    if (op === "between") {
+      const high = parseNumber(max);
+      return high !== null && high >= low ? { field, op, value: low * unit, max: high * unit } : null;
+    }
+    return { field, op, value: low * unit };
+  };
+
+  const pendingRule = buildRule();
+
+  const addRule = () => {
+    if (!pendingRule) return;
+    update({ ...current, rules: [...current.rules, pendingRule] });
+    resetEditor();
+  };
+
+  const removeRule = (index: number) => {
+    update({ ...current, rules: current.rules.filter((_, i) => i !== index) });
+  };
+
+  const save = async () => {
+    if (!filter || !presetName.trim()) return;
+    const result = await onSavePreset(presetName.trim(), filter);
+    setMessage(result.success ? `Saved “${presetName.trim()}”` : result.error ?? null);
+  };
+
+  const remove = async (preset: ScreenPreset) => {
+    const result = await onDeletePreset(preset.id);
+    if (result.success && activePresetId === preset.id) setActivePresetId(null);
+    setMessage(result.success ? `Deleted “${preset.name}”` : result.error ?? null);
+  };
+
+  const toggleChoice = (choice: string) =>
+    setChoices((prev) => (prev.includes(choice) ? prev.filter((c) => c !== choice) : [...prev, choice]));
+
+  const inputStyle = [
+    styles.input,
+    { color: colors.foreground, backgroundColor: colors.surface, borderColor: colors.border, fontFamily: FontFamily.medium },
+  ];
+
+  return (
+    <Animated.View entering={FadeInDown.duration(250).delay(140)} style={styles.container}>
+      <AnimatedPressable
+        variant="toggle"
+        onPress={onToggle}
+        style={styles.header}
+        accessibilityRole="button"
+        accessibilityLabel={expanded ? "Hide screener" : "Show screener"}
+        accessibilityState={{ expanded }}
+      >
+        <IconSymbol name="line.3.horizontal.decrease" size={16} color={filter ? colors.primary : colors.muted} />
+        <Caption1
+          color={filter ? "primary" : "muted"}
+          style={{ fontFamily: FontFamily.semibold, flex: 1 }}
+          numberOfLines={1}
+        >
+          {filter ? `Screener · ${describeScreen(filter)}` : "Screener"}
+        </Caption1>
+        {filter && !expanded && (
+          <AnimatedPressable
+            variant="icon"
+            onPress={() => update({ match: current.match, rules: [] })}
+            accessibilityRole="button"
+            accessibilityLabel="Clear screen"
+          >
+            <IconSymbol name="xmark.circle.fill" size={16} color={colors.muted} />
+          </AnimatedPressable>
+        )}
+        <IconSymbol
+          name="chevron.right"
+          size={14}
+          color={colors.muted}
+          style={{ transform: [{ rotate: expanded ? "90deg" : "0deg" }] }}
+        />
+      </AnimatedPressable>
+
+      {expanded && (
+        <>
+          {/* Presets */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipList}>
+            {presets.map((preset) => (
+              <View key={preset.id} style={styles.presetChip}>
+                <CDSChip label={preset.name} selected={activePresetId === preset.id} onPress={() => applyPreset(preset)} />
+                {!preset.builtIn && activePresetId === preset.id && (
+                  <AnimatedPressable
+                    variant="icon"
+                    onPress={() => remove(preset)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Delete ${preset.name}`}
+                  >
+                    <IconSymbol name="xmark.circle.fill" size={16} color={colors.muted} />
+                  </AnimatedPressable>
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            {/* Match mode and result count */}
+            <View style={styles.row}>
+              <View style={styles.row}>
+                {(["all", "any"] as const).map((mode) => (
+                  <CDSChip
+                    key={mode}
+                    label={mode === "all" ? "Match ALL" : "Match ANY"}
+                    selected={current.match === mode}
+                    onPress={() => update({ ...current, match: mode })}
+                  />
+                ))}
+              </View>
+              <Caption1 color="muted" style={{ fontFamily: FontFamily.medium }}>
+                {filter ? (isLoading ? "Screening…" : `${matchCount} ${matchCount === 1 ? "match" : "matches"}`) : "No rules"}
+              </Caption1>
+            </View>
+            {filter && !isLoading && coverage && coverage.covered < coverage.universe && (
+              <Caption2 color="muted" style={styles.coverage}>
+                {`Fundamentals cover ${coverage.covered} of ${coverage.universe} stocks${coverage.indicative ? " (indicative sample data)" : ""}. The rest have no market cap unless their quote has one, so market-cap rules skip them.`}
+              </Caption2>
+            )}
+
+            {/* Active rules */}
+            {current.rules.length > 0 && (
+              <View style={styles.ruleList}>
+                {current.rules.map((rule, i) => (
+                  <View key={i} style={[styles.rule, { backgroundColor: colors.primaryAlpha }]}>
+                    <Caption1 color="primary" style={{ fontFamily: FontFamily.semibold }}>
+                      {isScreenFilter(rule) ? `(${describeScreen(rule)})` : describeScreenRule(rule)}
+                    </Caption1>
+                    <AnimatedPressable
+                      variant="icon"
+                      onPress={() => removeRule(i)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Remove rule"
+                    >
+                      <IconSymbol name="xmark" size={12} color={colors.primary} />
+                    </AnimatedPressable>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Rule builder */}
+            <Caption2 color="muted" style={styles.sectionLabel}>
+              ADD RULE
+            </Caption2>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipList}>
+              {EDITOR_FIELDS.map((f) => (
+                <CDSChip
+                  key={f}
+                  label={fieldLabel(f)}
+                  selected={field === f}
+                  onPress={() => {
+                    resetEditor();
+                    setField(field === f ? null : f);
+                  }}
+                />
+              ))}
+            </ScrollView>
+
+            {field === "sector" || field === "category" ? (
+              <View style={styles.ruleList}>
+                {(field === "sector" ? SECTORS : STOCK_CATEGORIES).map((choice) => (
+                  <CDSChip key={choice} label={choice} selected={choices.includes(choice)} onPress={() => toggleChoice(choice)} />
+                ))}
+              </View>
+            ) : field ? (
+              <View style={styles.row}>
+                {OPERATORS.map((o) => (
+                  <CDSChip key={o.key} label={o.label} selected={op === o.key} onPress={() => setOp(o.key)} />
+                ))}
+                <TextInput
+                  style={inputStyle}
+                  value={value}
+                  onChangeText={setValue}
+                  keyboardType="numbers-and-punctuation"
+                  placeholder={op === "between" ? "From" : "Value"}
+                  placeholderTextColor={colors.muted}
+                  accessibilityLabel={`${fieldLabel(field)} value`}
+                />
+                {op === "between" && (
+                  <TextInput
+                    style={inputStyle}
+                    value={max}
+                    onChangeText={setMax}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="To"
+                    placeholderTextColor={colors.muted}
+                    accessibilityLabel={`${fieldLabel(field)} upper bound`}
+                  />
+                )}
+              </View>
+            ) : null}
+
+            {field && (
+              <AnimatedPressable
+                variant="chip"
+                onPress={addRule}
+                disabled={!pendingRule}
+                style={[styles.action, { backgroundColor: pendingRule ? colors.primary : colors.surfaceSecondary }]}
+                accessibilityRole="button"
+                accessibilityLabel="Add rule"
+              >
+                <Caption1 style={{ color: pendingRule ? colors.onPrimary : colors.muted, fontFamily: FontFamily.semibold }}>
+                  Add rule
+                </Caption1>
+              </AnimatedPressable>
+            )}
+
+            {/* Save */}
+            {filter && canSave && (
+              <View style={styles.row}>
+                <TextInput
+                  style={[inputStyle, styles.nameInput]}
+                  value={presetName}
+                  onChangeText={setPresetName}
+                  placeholder="Name this screen"
+                  placeholderTextColor={colors.muted}
+                  maxLength={64}
+                  accessibilityLabel="Screen name"
+                />
+                <AnimatedPressable
+                  variant="chip"
+                  onPress={save}
+                  disabled={!presetName.trim()}
+                  style={[styles.action, { backgroundColor: colors.primaryAlpha }]}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save screen"
+                >
+                  <Caption1 color="primary" style={{ fontFamily: FontFamily.semibold }}>
+                    Save
+                  </Caption1>
+                </AnimatedPressable>
+              </View>
+            )}
+            {filter && !canSave && <Footnote color="muted">Sign in to save screens</Footnote>}
+            {message && <Footnote color="muted">{message}</Footnote>}
+          </View>
+        </>
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingBottom: 10,
+    gap: 8,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chipList: {
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  presetChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  card: {
+    marginHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingVertical: 12,
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    flexWrap: "wrap",
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  coverage: {
+    paddingHorizontal: 12,
+    marginTop: 6,
+  },
+  ruleList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  rule: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 20,
+    gap: 6,
+  },
+  sectionLabel: {
+    paddingHorizontal: 12,
+    fontFamily: FontFamily.semibold,
+    letterSpacing: 0.5,
+  },
+  input: {
+    minWidth: 72,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 14,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  action: {
+    alignSelf: "flex-start",
+    marginHorizontal: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+});
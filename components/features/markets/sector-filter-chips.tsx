@@ -16,7 +16,7 @@ import React from "react";
 import { ScrollView, StyleSheet } from "react-native";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { CDSChip } from "@/components/ui/cds-chip";
-import { SECTORS, SECTOR_ICONS } from "@/lib/sectors";
+import { SECTORS, SECTOR_ICONS } from "@shared/sectors";
 
 type FilterMode = "All" | "Watchlist" | string;
 
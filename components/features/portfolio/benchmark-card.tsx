@@ -0,0 +1,240 @@
+/**
+ * BenchmarkCard — Pro mode portfolio vs. benchmark comparison
+ *
+ * Overlays the portfolio's time-weighted growth on an ATHEX index (both
+ * rebased to 100) and shows alpha, beta and tracking difference.
+ *
+ * Usage:
+ *   <BenchmarkCard
+ *     comparison={comparison}
+ *     isLoading={false}
+ *     selectedIndex="gd"
+ *     onIndexChange={setIndex}
+ *     selectedRange="1M"
+ *     onRangeChange={setRange}
+ *     chartWidth={340}
+ *   />
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import Animated, { FadeInDown } from "react-native-reanimated";
+import { useColors } from "@/hooks/use-colors";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSLineChart } from "@/components/ui/cds-line-chart";
+import { Caption1, Caption2, MonoCaption1 } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import { BENCHMARKS, type BenchmarkComparison, type IndexId } from "@/hooks/use-benchmark";
+import { HISTORY_RANGES, type HistoryRange } from "@/hooks/use-portfolio-history";
+
+interface BenchmarkCardProps {
+  comparison: BenchmarkComparison | null;
+  isLoading: boolean;
+  selectedIndex: IndexId;
+  onIndexChange: (indexId: IndexId) => void;
+  selectedRange: HistoryRange;
+  onRangeChange: (range: HistoryRange) => void;
+  chartWidth: number;
+}
+
+function formatPoints(value: number | null): string {
+  if (value === null) return "—";
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+export function BenchmarkCard({
+  comparison,
+  isLoading,
+  selectedIndex,
+  onIndexChange,
+  selectedRange,
+  onRangeChange,
+  chartWidth,
+}: BenchmarkCardProps) {
+  const colors = useColors();
+
+  const stats = comparison
+    ? [
+        { label: "Tracking Diff", value: formatPoints(comparison.trackingDifference), sign: comparison.trackingDifference },
+        { label: "Alpha", value: formatPoints(comparison.alpha), sign: comparison.alpha ?? 0 },
+        { label: "Beta", value: comparison.beta !== null ? comparison.beta.toFixed(2) : "—", sign: 0 },
+      ]
+    : [];
+
+  return (
+    <Animated.View entering={FadeInDown.duration(250).delay(300)} style={styles.section}>
+      <Caption1
+        color="muted"
+        style={{
+          fontFamily: FontFamily.semibold,
+          textTransform: "uppercase",
+          letterSpacing: 0.5,
+          marginBottom: 12,
+        }}
+      >
+        vs. Benchmark
+      </Caption1>
+
+      <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        {/* Benchmark selector */}
+        <View style={styles.chipRow}>
+          {BENCHMARKS.map((benchmark) => {
+            const isSelected = benchmark.id === selectedIndex;
+            return (
+              <AnimatedPressable
+                key={benchmark.id}
+                variant="chip"
+                onPress={() => onIndexChange(benchmark.id)}
+                style={[
+                  styles.chip,
+                  { backgroundColor: isSelected ? colors.primaryAlpha : colors.surfaceSecondary },
+                ]}
+                accessibilityRole="button"
+                accessibilityLabel={`Compare with ${benchmark.name}`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Caption1
+                  color={isSelected ? "primary" : "muted"}
+                  style={{ fontFamily: isSelected ? FontFamily.semibold : FontFamily.medium }}
+                >
+                  {benchmark.name}
+                </Caption1>
+              </AnimatedPressable>
+            );
+          })}
+        </View>
+
+        {/* Overlay chart */}
+        {comparison ? (
+          <>
+            <View style={styles.legendRow}>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendLine, { backgroundColor: comparison.portfolioReturn >= 0 ? colors.success : colors.error }]} />
+                <Caption2 color="muted">Portfolio {formatPoints(comparison.portfolioReturn)}</Caption2>
+              </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendLine, styles.legendDashed, { borderColor: colors.muted }]} />
+                <Caption2 color="muted">Index {formatPoints(comparison.benchmarkReturn)}</Caption2>
+              </View>
+            </View>
+            <CDSLineChart
+              data={comparison.portfolio}
+              comparisonData={comparison.benchmark}
+              width={chartWidth}
+              height={160}
+              positive={comparison.portfolioReturn >= 0}
+              showGradient={false}
+            />
+            <View style={styles.statsRow}>
+              {stats.map((stat) => (
+                <View key={stat.label} style={styles.statItem}>
+                  <Caption2 color="muted" style={{ fontFamily: FontFamily.semibold, letterSpacing: 0.3 }}>
+                    {stat.label.toUpperCase()}
+                  </Caption2>
+                  <MonoCaption1
+                    style={{
+                      fontFamily: FontFamily.monoMedium,
+                      color: stat.sign === 0 ? colors.foreground : stat.sign > 0 ? colors.success : colors.error,
+                    }}
+                  >
+                    {stat.value}
+                  </MonoCaption1>
+                </View>
+              ))}
+            </View>
+          </>
+        ) : (
+          <Caption1 color="muted" style={styles.emptyText}>
+            {isLoading ? "Loading comparison…" : "Not enough history for this period yet"}
+          </Caption1>
+        )}
+
+        {/* Range selector */}
+        <View style={styles.chipRow}>
+          {HISTORY_RANGES.map((range) => {
+            const isSelected = range === selectedRange;
+            return (
+              <AnimatedPressable
+                key={range}
+                variant="chip"
+                onPress={() => onRangeChange(range)}
+                style={[styles.rangeChip, isSelected && { backgroundColor: colors.primaryAlpha }]}
+                accessibilityRole="button"
+                accessibilityLabel={`${range} comparison`}
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Caption1
+                  color={isSelected ? "primary" : "muted"}
+                  style={{ fontFamily: isSelected ? FontFamily.bold : FontFamily.medium, letterSpacing: 0.3 }}
+                >
+                  {range}
+                </Caption1>
+              </AnimatedPressable>
+            );
+          })}
+        </View>
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: 16,
+    marginTop: 24,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    alignItems: "center",
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  rangeChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+  },
+  legendRow: {
+    flexDirection: "row",
+    gap: 16,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendLine: {
+    width: 14,
+    height: 2,
+    borderRadius: 1,
+  },
+  legendDashed: {
+    height: 0,
+    borderTopWidth: 2,
+    borderStyle: "dashed",
+  },
+  statsRow: {
+    flexDirection: "row",
+    alignSelf: "stretch",
+    justifyContent: "space-around",
+  },
+  statItem: {
+    alignItems: "center",
+    gap: 2,
+  },
+  emptyText: {
+    paddingVertical: 40,
+    textAlign: "center",
+  },
+});
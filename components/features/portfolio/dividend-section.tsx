@@ -1,50 +1,141 @@
 /**
- * DividendSection — Pro mode upcoming dividends
+ * DividendSection — Pro mode dividend calendar and income
  *
- * Shows list of upcoming dividend payments.
+ * Lists upcoming payments for the stocks the account holds (with the
+ * estimated net cash for the current position) and the dividends already
+ * received, newest first.
  *
  * Usage:
- *   <DividendSection />
+ *   <DividendSection
+ *     upcoming={upcoming}
+ *     account={state}
+ *     received={state.dividends}
+ *     income={getDividendIncome()}
+ *   />
  */
 import React from "react";
 import { View, StyleSheet } from "react-native";
 import Animated, { FadeInDown } from "react-native-reanimated";
 import { useColors } from "@/hooks/use-colors";
-import { Subhead, Caption2, MonoSubhead } from "@/components/ui/typography";
+import { Subhead, Caption1, Caption2, MonoSubhead, MonoCaption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import { formatDividendDate } from "@/hooks/use-dividends";
+import {
+  calculateDividend,
+  getEntitledShares,
+  type DividendAccount,
+  type DividendCredit,
+  type DividendEvent,
+} from "@shared/dividends";
 
-export function DividendSection() {
+interface DividendSectionProps {
+  /** Unpaid dividends for held stocks, soonest first */
+  upcoming: DividendEvent[];
+  account: Pick<DividendAccount, "holdings" | "trades">;
+  received: DividendCredit[];
+  /** Total net income received */
+  income: number;
+}
+
+/** Received rows shown before the list is cut off */
+const MAX_RECEIVED_ROWS = 5;
+
+function SectionLabel({ children }: { children: string }) {
+  return (
+    <Caption2
+      color="muted"
+      style={{
+        fontFamily: FontFamily.semibold,
+        textTransform: "uppercase",
+        letterSpacing: 0.5,
+        marginBottom: 12,
+      }}
+    >
+      {children}
+    </Caption2>
+  );
+}
+
+export function DividendSection({ upcoming, account, received, income }: DividendSectionProps) {
   const colors = useColors();
+  const now = Date.now();
+
+  // Shares are fixed once the ex-date passes; before that, assume the current position
+  const upcomingRows = upcoming
+    .map((event) => {
+      const shares =
+        event.exTimestamp <= now
+          ? getEntitledShares(account, event.stockId, event.exTimestamp)
+          : account.holdings[event.stockId]?.shares ?? 0;
+      return { event, shares, estimate: calculateDividend(shares, event.amount).amount };
+    })
+    .filter((row) => row.shares > 0);
+
+  const receivedRows = [...received]
+    .sort((a, b) => b.payDate.localeCompare(a.payDate))
+    .slice(0, MAX_RECEIVED_ROWS);
+
+  const rowBorder = (index: number, count: number) =>
+    index < count - 1
+      ? { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.border }
+      : null;
 
   return (
     <Animated.View entering={FadeInDown.duration(250).delay(390)} style={styles.dividendSection}>
-      <Caption2
-        color="muted"
-        style={{
-          fontFamily: FontFamily.semibold,
-          textTransform: "uppercase",
-          letterSpacing: 0.5,
-          marginBottom: 12,
-        }}
-      >
-        Upcoming Dividends
-      </Caption2>
+      <SectionLabel>Upcoming Dividends</SectionLabel>
       <View style={[styles.dividendCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
-        <View style={[styles.dividendRow, { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.border }]}>
-          <View style={styles.dividendLeft}>
-            <Subhead style={{ fontFamily: FontFamily.semibold }}>OPAP</Subhead>
-            <Caption2 color="muted">Mar 15, 2026</Caption2>
+        {upcomingRows.length === 0 ? (
+          <View style={styles.dividendRow}>
+            <Caption1 color="muted">No dividends announced for your holdings</Caption1>
           </View>
-          <MonoSubhead color="success" style={{ fontFamily: FontFamily.monoMedium }}>€0.60/share</MonoSubhead>
-        </View>
-        <View style={styles.dividendRow}>
-          <View style={styles.dividendLeft}>
-            <Subhead style={{ fontFamily: FontFamily.semibold }}>PPC</Subhead>
-            <Caption2 color="muted">Apr 02, 2026</Caption2>
+        ) : (
+          upcomingRows.map(({ event, estimate }, index) => (
+            <View key={event.id} style={[styles.dividendRow, rowBorder(index, upcomingRows.length)]}>
+              <View style={styles.dividendLeft}>
+                <Subhead style={{ fontFamily: FontFamily.semibold }}>{event.ticker}</Subhead>
+                <Caption2 color="muted">
+                  Ex {formatDividendDate(event.exDate)} · Pays {formatDividendDate(event.payDate)}
+                </Caption2>
+              </View>
+              <View style={styles.dividendRight}>
+                <MonoSubhead color="success" style={{ fontFamily: FontFamily.monoMedium }}>
+                  +€{estimate.toFixed(2)}
+                </MonoSubhead>
+                <MonoCaption1 color="muted">€{event.amount.toFixed(2)}/share</MonoCaption1>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      {receivedRows.length > 0 && (
+        <View style={styles.receivedBlock}>
+          <View style={styles.receivedHeader}>
+            <SectionLabel>Dividends Received</SectionLabel>
+            <MonoCaption1 color="success" style={{ fontFamily: FontFamily.monoMedium, marginBottom: 12 }}>
+              +€{income.toFixed(2)} net
+            </MonoCaption1>
+          </View>
+          <View style={[styles.dividendCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            {receivedRows.map((credit, index) => (
+              <View key={credit.id} style={[styles.dividendRow, rowBorder(index, receivedRows.length)]}>
+                <View style={styles.dividendLeft}>
+                  <Subhead style={{ fontFamily: FontFamily.semibold }}>{credit.ticker}</Subhead>
+                  <Caption2 color="muted">
+                    Paid {formatDividendDate(credit.payDate)} · {credit.shares} × €{credit.amountPerShare.toFixed(2)}
+                  </Caption2>
+                </View>
+                <View style={styles.dividendRight}>
+                  <MonoSubhead color="success" style={{ fontFamily: FontFamily.monoMedium }}>
+                    +€{credit.amount.toFixed(2)}
+                  </MonoSubhead>
+                  <MonoCaption1 color="muted">€{credit.tax.toFixed(2)} tax</MonoCaption1>
+                </View>
+              </View>
+            ))}
           </View>
-          <MonoSubhead color="success" style={{ fontFamily: FontFamily.monoMedium }}>€0.85/share</MonoSubhead>
         </View>
-      </View>
+      )}
     </Animated.View>
   );
 }
@@ -68,5 +159,18 @@ const styles = StyleSheet.create({
   },
   dividendLeft: {
     gap: 2,
+    flexShrink: 1,
+  },
+  dividendRight: {
+    alignItems: "flex-end",
+    gap: 2,
+  },
+  receivedBlock: {
+    marginTop: 20,
+  },
+  receivedHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
   },
 });
@@ -9,3 +9,4 @@ export { HoldingCardSimple } from "./holding-card-simple";
 export { HoldingCardPro } from "./holding-card-pro";
 export { SectorAllocationBar } from "./sector-allocation-bar";
 export { DividendSection } from "./dividend-section";
+export { BenchmarkCard } from "./benchmark-card";
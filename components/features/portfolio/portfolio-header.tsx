@@ -19,6 +19,7 @@ import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { IconSymbol } from "@/components/ui/icon-symbol";
 import { LiveBadge } from "@/components/ui/live-badge";
 import { useColors } from "@/hooks/use-colors";
+import type { DataStatus } from "@/hooks/use-stocks";
 import { Title1, Caption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
 
@@ -26,6 +27,8 @@ interface PortfolioHeaderProps {
   holdingCount: number;
   hasHoldings: boolean;
   isLive: boolean;
+  status?: DataStatus;
+  isStreaming?: boolean;
   lastUpdated?: number | null;
   onShare: () => void;
 }
@@ -34,6 +37,8 @@ export function PortfolioHeader({
   holdingCount,
   hasHoldings,
   isLive,
+  status,
+  isStreaming,
   lastUpdated,
   onShare,
 }: PortfolioHeaderProps) {
@@ -65,7 +70,7 @@ export function PortfolioHeader({
             <IconSymbol name="square.and.arrow.up" size={18} color={colors.primary} />
           </AnimatedPressable>
         )}
-        <LiveBadge isLive={isLive} lastUpdated={lastUpdated} />
+        <LiveBadge isLive={isLive} status={status} isStreaming={isStreaming} lastUpdated={lastUpdated} />
       </View>
     </Animated.View>
   );
@@ -1,13 +1,15 @@
 /**
  * PortfolioHeroPro — Pro mode portfolio hero with sparkline
  *
- * Shows total value, P&L pill, and portfolio sparkline.
+ * Shows total value, unrealized P&L pill, a realized / unrealized breakdown,
+ * and portfolio sparkline.
  *
  * Usage:
  *   <PortfolioHeroPro
  *     totalValue={10000}
  *     pnl={500}
  *     pnlPercent={5}
+ *     realizedPnl={120}
  *     hasHoldings={true}
  *     sparkline={[1, 2, 3, 4, 5]}
  *     sparklineWidth={340}
@@ -19,13 +21,16 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { useColors } from "@/hooks/use-colors";
 import { AnimatedNumber, AnimatedPnLNumber } from "@/components/ui/animated-number";
 import { Sparkline } from "@/components/ui/sparkline";
-import { Caption1 } from "@/components/ui/typography";
+import { Caption1, Caption2, MonoCaption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
 
 interface PortfolioHeroProProps {
   totalValue: number;
+  /** Unrealized P&L of open positions */
   pnl: number;
   pnlPercent: number;
+  /** P&L locked in by sells */
+  realizedPnl: number;
   hasHoldings: boolean;
   sparkline: number[];
   sparklineWidth: number;
@@ -35,6 +40,7 @@ export function PortfolioHeroPro({
   totalValue,
   pnl,
   pnlPercent,
+  realizedPnl,
   hasHoldings,
   sparkline,
   sparklineWidth,
@@ -42,6 +48,11 @@ export function PortfolioHeroPro({
   const colors = useColors();
   const isPositive = pnl >= 0;
 
+  const breakdown = [
+    { label: "Unrealized", value: pnl },
+    { label: "Realized", value: realizedPnl },
+  ];
+
   return (
     <Animated.View entering={FadeInDown.duration(250).delay(60)} style={styles.proHero}>
       <Caption1
@@ -68,6 +79,26 @@ export function PortfolioHeroPro({
           <AnimatedPnLNumber value={pnlPercent} format="percent" size="lg" showArrow={false} successColor={colors.success} errorColor={colors.error} mutedColor={colors.muted} />
         </View>
       </View>
+      <View style={styles.breakdownRow}>
+        {breakdown.map((item, i) => (
+          <React.Fragment key={item.label}>
+            {i > 0 && <View style={[styles.breakdownDivider, { backgroundColor: colors.border }]} />}
+            <View style={styles.breakdownItem}>
+              <Caption2 color="muted" style={{ fontFamily: FontFamily.semibold, letterSpacing: 0.3 }}>
+                {item.label.toUpperCase()}
+              </Caption2>
+              <MonoCaption1
+                style={{
+                  fontFamily: FontFamily.monoMedium,
+                  color: item.value === 0 ? colors.muted : item.value > 0 ? colors.success : colors.error,
+                }}
+              >
+                {item.value >= 0 ? "+" : "-"}€{Math.abs(item.value).toFixed(2)}
+              </MonoCaption1>
+            </View>
+          </React.Fragment>
+        ))}
+      </View>
       {hasHoldings && (
         <View style={styles.sparklineContainer}>
           <Sparkline
@@ -107,6 +138,20 @@ const styles = StyleSheet.create({
     borderRadius: 1.5,
     marginHorizontal: 6,
   },
+  breakdownRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+  },
+  breakdownItem: {
+    alignItems: "center",
+    gap: 2,
+    paddingHorizontal: 16,
+  },
+  breakdownDivider: {
+    width: StyleSheet.hairlineWidth,
+    height: 24,
+  },
   sparklineContainer: {
     marginTop: 20,
   },
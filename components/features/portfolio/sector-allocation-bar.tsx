@@ -17,7 +17,7 @@ import Animated, { FadeInDown } from "react-native-reanimated";
 import { useColors } from "@/hooks/use-colors";
 import { Caption1 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
-import type { Sector } from "@/lib/sectors";
+import type { Sector } from "@shared/sectors";
 
 interface SectorAllocationItem {
   sector: Sector;
@@ -3,3 +3,7 @@ export { AmountInput } from "./amount-input";
 export { QuickAmountChips } from "./quick-amount-chips";
 export { OrderPreview } from "./order-preview";
 export { TradeSuccessScreen } from "./trade-success-screen";
+export { OrderTypeSelector, ORDER_KIND_LABELS, type OrderKind } from "./order-type-selector";
+export { OrderPriceInput } from "./order-price-input";
+export { PendingOrdersList } from "./pending-orders-list";
+export { ShareCountInput } from "./share-count-input";
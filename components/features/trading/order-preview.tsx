@@ -1,13 +1,15 @@
 /**
  * OrderPreview — Trade order preview card (Pro mode)
  *
- * Displays estimated shares, price, commission, and balance after trade.
+ * Displays estimated shares, execution price, spread, commission, clearing
+ * fee, transaction tax and balance after trade, using the shared cost model.
  * Only shown in Pro mode when amount is valid.
  *
  * Usage:
  *   <OrderPreview
- *     amount={100}
- *     price={25.50}
+ *     estimate={estimateFill({ side: "buy", amount: 100, midPrice: 25.5, tier, broker })}
+ *     priceLabel="Price (limit)"
+ *     brokerName="Piraeus Securities"
  *     balanceAfter={4500}
  *   />
  */
@@ -15,22 +17,60 @@ import React from "react";
 import { View, StyleSheet } from "react-native";
 import { useColors } from "@/hooks/use-colors";
 import { Footnote, MonoSubhead } from "@/components/ui/typography";
+import {
+  formatShares,
+  GREEK_TRANSACTION_TAX_RATE,
+  type FillEstimate,
+} from "@shared/tradingCosts";
 
 interface OrderPreviewProps {
-  amount: number;
-  price: number;
+  estimate: FillEstimate;
+  /** Defaults to "Price (live)"; resting orders show their limit/stop price */
+  priceLabel?: string;
+  /** Broker whose commission schedule applies */
+  brokerName: string;
   balanceAfter: number;
 }
 
-export function OrderPreview({ amount, price, balanceAfter }: OrderPreviewProps) {
+function formatEuro(value: number): string {
+  return `€${value.toFixed(2)}`;
+}
+
+export function OrderPreview({
+  estimate,
+  priceLabel = "Price (live)",
+  brokerName,
+  balanceAfter,
+}: OrderPreviewProps) {
   const colors = useColors();
+  const isBuy = estimate.side === "buy";
 
   return (
     <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]}>
-      <Row label="Est. shares" value={(amount / price).toFixed(4)} />
-      <Row label="Price (live)" value={`€${price.toFixed(2)}`} />
-      <Row label="Commission" value="€0.00" valueColor="success" />
+      <Row label="Est. shares" value={formatShares(estimate.shares)} />
+      <Row label={priceLabel} value={formatEuro(estimate.midPrice)} />
+      <Row
+        label={isBuy ? "Est. ask" : "Est. bid"}
+        value={`€${estimate.price.toFixed(3)}`}
+      />
+      <Row label="Spread cost" value={formatEuro(estimate.spreadCost)} />
+      <Row
+        label={`Commission (${brokerName})`}
+        value={formatEuro(estimate.commission)}
+        valueColor={estimate.commission === 0 ? "success" : "foreground"}
+      />
+      <Row label="ATHEX clearing fee" value={formatEuro(estimate.clearingFee)} />
+      {!isBuy && (
+        <Row
+          label={`Transaction tax (${GREEK_TRANSACTION_TAX_RATE * 100}%)`}
+          value={formatEuro(estimate.transactionTax)}
+        />
+      )}
       <View style={[styles.divider, { backgroundColor: colors.border }]} />
+      <Row
+        label={isBuy ? "Total cost" : "You receive"}
+        value={formatEuro(estimate.netAmount)}
+      />
       <Row
         label="Balance after"
         value={`€${balanceAfter.toFixed(2)}`}
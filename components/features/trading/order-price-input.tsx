@@ -0,0 +1,100 @@
+/**
+ * OrderPriceInput — Compact € price field for limit and stop prices
+ *
+ * Label on the left, monospaced price input on the right. Shows the current
+ * market price as the placeholder.
+ *
+ * Usage:
+ *   <OrderPriceInput
+ *     label="Limit price"
+ *     value={limitText}
+ *     onChange={setLimitText}
+ *     marketPrice={16.42}
+ *   />
+ */
+import React from "react";
+import { View, TextInput, StyleSheet, Platform } from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { Footnote, MonoSubhead } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+
+interface OrderPriceInputProps {
+  label: string;
+  value: string;
+  onChange: (text: string) => void;
+  marketPrice: number;
+  hasError?: boolean;
+}
+
+export function OrderPriceInput({
+  label,
+  value,
+  onChange,
+  marketPrice,
+  hasError = false,
+}: OrderPriceInputProps) {
+  const colors = useColors();
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: colors.surface,
+          borderColor: hasError ? colors.error : colors.border,
+        },
+      ]}
+    >
+      <Footnote color="muted">{label}</Footnote>
+      <View style={styles.inputRow}>
+        <MonoSubhead color="muted" style={{ fontSize: 15 }}>
+          €
+        </MonoSubhead>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              color: hasError ? colors.error : colors.foreground,
+              fontFamily: FontFamily.monoMedium,
+            },
+          ]}
+          value={value}
+          onChangeText={onChange}
+          placeholder={marketPrice.toFixed(2)}
+          placeholderTextColor={colors.muted}
+          keyboardType="decimal-pad"
+          returnKeyType="done"
+          maxLength={9}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginHorizontal: 16,
+    marginBottom: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  input: {
+    fontSize: 15,
+    minWidth: 72,
+    textAlign: "right",
+    paddingVertical: 0,
+    paddingHorizontal: 4,
+    ...Platform.select({
+      web: { outlineStyle: "none" as any },
+    }),
+  },
+});
@@ -0,0 +1,60 @@
+/**
+ * OrderTypeSelector — Market / Limit / Stop / Stop-limit chips
+ *
+ * Row of CDSChips for picking how an order executes. Everything except
+ * Market rests on the server until its price is reached.
+ *
+ * Usage:
+ *   <OrderTypeSelector
+ *     value="limit"
+ *     onChange={setOrderKind}
+ *   />
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { CDSChip } from "@/components/ui/cds-chip";
+import type { OrderType } from "@/server/orderService";
+
+export type OrderKind = "market" | OrderType;
+
+export const ORDER_KIND_LABELS: Record<OrderKind, string> = {
+  market: "Market",
+  limit: "Limit",
+  stop: "Stop",
+  stop_limit: "Stop-limit",
+};
+
+const ORDER_KINDS: OrderKind[] = ["market", "limit", "stop", "stop_limit"];
+
+interface OrderTypeSelectorProps {
+  value: OrderKind;
+  onChange: (kind: OrderKind) => void;
+  /** Disable resting order types (e.g. when signed out) */
+  marketOnly?: boolean;
+}
+
+export function OrderTypeSelector({ value, onChange, marketOnly = false }: OrderTypeSelectorProps) {
+  return (
+    <View style={styles.container}>
+      {ORDER_KINDS.map((kind) => (
+        <CDSChip
+          key={kind}
+          label={ORDER_KIND_LABELS[kind]}
+          selected={value === kind}
+          disabled={marketOnly && kind !== "market"}
+          onPress={() => onChange(kind)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+});
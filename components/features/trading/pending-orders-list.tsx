@@ -0,0 +1,151 @@
+/**
+ * PendingOrdersList — Open limit/stop orders with cancel buttons
+ *
+ * Compact card listing resting orders: side, amount (or share count),
+ * ticker, trigger prices and expiry. Renders nothing when there are no open orders.
+ *
+ * Usage:
+ *   <PendingOrdersList
+ *     orders={openOrders}
+ *     cancellingId={cancellingId}
+ *     onCancel={(id) => cancelOrder(id)}
+ *   />
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { useColors } from "@/hooks/use-colors";
+import { Caption1, Footnote, MonoSubhead, Subhead } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import type { PendingOrder } from "@/server/orderService";
+import { formatShares } from "@shared/tradingCosts";
+import { ORDER_KIND_LABELS } from "./order-type-selector";
+
+interface PendingOrdersListProps {
+  orders: PendingOrder[];
+  /** Order currently being cancelled, shown as disabled */
+  cancellingId?: string | null;
+  onCancel: (orderId: string) => void;
+}
+
+/** "Limit €16.00", "Stop €15.00 → Limit €14.80", "At next open" */
+function describeTrigger(order: PendingOrder): string {
+  const limit = order.limitPrice !== null ? `€${order.limitPrice.toFixed(2)}` : "";
+  const stop = order.stopPrice !== null ? `€${order.stopPrice.toFixed(2)}` : "";
+
+  switch (order.orderType) {
+    case "market":
+      return "At next open";
+    case "limit":
+      return `Limit ${limit}`;
+    case "stop":
+      return `Stop ${stop}`;
+    case "stop_limit":
+      return order.stopTriggered ? `Limit ${limit} (stop hit)` : `Stop ${stop} → Limit ${limit}`;
+  }
+}
+
+function describeExpiry(order: PendingOrder): string {
+  if (order.timeInForce === "gtc" || order.expiresAt === null) return "Good till cancelled";
+  const expires = new Date(order.expiresAt);
+  return `Day · until ${expires.toLocaleDateString(undefined, { weekday: "short" })} close`;
+}
+
+export function PendingOrdersList({ orders, cancellingId, onCancel }: PendingOrdersListProps) {
+  const colors = useColors();
+
+  if (orders.length === 0) return null;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <Caption1
+        color="muted"
+        style={{ fontFamily: FontFamily.semibold, textTransform: "uppercase", letterSpacing: 0.5 }}
+      >
+        Pending orders
+      </Caption1>
+
+      {orders.map((order, index) => {
+        const isBuy = order.side === "buy";
+        const isCancelling = cancellingId === order.id;
+
+        return (
+          <View
+            key={order.id}
+            style={[
+              styles.row,
+              index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: colors.border },
+            ]}
+          >
+            <View style={styles.details}>
+              <View style={styles.titleRow}>
+                <Subhead
+                  color={isBuy ? "success" : "error"}
+                  style={{ fontFamily: FontFamily.semibold }}
+                >
+                  {isBuy ? "Buy" : "Sell"}
+                </Subhead>
+                <MonoSubhead style={{ fontSize: 14 }}>
+                  {order.shares !== null
+                    ? `${formatShares(order.shares)} sh`
+                    : `€${order.amount.toFixed(2)}`}
+                </MonoSubhead>
+                <Subhead style={{ fontFamily: FontFamily.semibold }}>{order.ticker}</Subhead>
+              </View>
+              <Footnote color="muted">
+                {describeTrigger(order)} · {ORDER_KIND_LABELS[order.orderType]}
+              </Footnote>
+              <Caption1 color="muted">{describeExpiry(order)}</Caption1>
+            </View>
+
+            <AnimatedPressable
+              variant="chip"
+              disabled={isCancelling}
+              onPress={() => onCancel(order.id)}
+              style={[
+                styles.cancelButton,
+                { backgroundColor: colors.errorAlpha, opacity: isCancelling ? 0.5 : 1 },
+              ]}
+            >
+              <Caption1 color="error" style={{ fontFamily: FontFamily.semibold }}>
+                {isCancelling ? "Cancelling…" : "Cancel"}
+              </Caption1>
+            </AnimatedPressable>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 14,
+    paddingTop: 12,
+    paddingBottom: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    gap: 12,
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 6,
+  },
+  cancelButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+});
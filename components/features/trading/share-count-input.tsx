@@ -0,0 +1,156 @@
+/**
+ * ShareCountInput — Whole-share quantity entry with stepper and numpad
+ *
+ * Used instead of AmountInput when the account trades whole shares (as on
+ * ATHEX). Shows the share count with a MAX pill, the estimated cash value,
+ * a CDSStepper for ±1 and a CDSNumpad without a decimal key.
+ *
+ * Usage:
+ *   <ShareCountInput
+ *     value={shareCount}
+ *     onChange={setShareCount}
+ *     max={maxShares}
+ *     estimatedAmount={fillEstimate?.netAmount ?? null}
+ *     validationError={error}
+ *     isBuy={true}
+ *     onMax={() => setShareCount(maxShares)}
+ *   />
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSNumpad } from "@/components/ui/cds-numpad";
+import { CDSStepper } from "@/components/ui/cds-stepper";
+import { useColors } from "@/hooks/use-colors";
+import { MonoLargeTitle, Caption1, Footnote } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import { formatShares } from "@shared/tradingCosts";
+
+/** Largest share count the numpad accepts */
+const MAX_DIGITS = 7;
+
+interface ShareCountInputProps {
+  value: number;
+  onChange: (shares: number) => void;
+  /** Most shares that can be traded (may be fractional when closing a position) */
+  max: number;
+  /** Cash debited (buy) or credited (sell) for `value` shares, costs included */
+  estimatedAmount: number | null;
+  validationError?: string | null;
+  isBuy: boolean;
+  onMax: () => void;
+}
+
+export function ShareCountInput({
+  value,
+  onChange,
+  max,
+  estimatedAmount,
+  validationError,
+  isBuy,
+  onMax,
+}: ShareCountInputProps) {
+  const colors = useColors();
+  const hasValue = value > 0;
+
+  const borderColor = hasValue
+    ? (validationError ? colors.error : (isBuy ? colors.success : colors.error))
+    : colors.border;
+
+  const handleKeyPress = (key: string) => {
+    const next = Math.floor(value) * 10 + Number(key);
+    if (String(next).length > MAX_DIGITS) return;
+    onChange(next);
+  };
+
+  return (
+    <View>
+      <View style={[styles.container, { borderColor }]}>
+        <View style={styles.inner}>
+          <MonoLargeTitle
+            color={hasValue ? (validationError ? "error" : "foreground") : "muted"}
+            style={styles.count}
+          >
+            {formatShares(value)}
+          </MonoLargeTitle>
+          <Footnote color="muted" style={{ fontFamily: FontFamily.medium }}>
+            {value === 1 ? "share" : "shares"}
+          </Footnote>
+        </View>
+
+        {/* MAX pill */}
+        <AnimatedPressable
+          variant="chip"
+          onPress={onMax}
+          style={[
+            styles.maxButton,
+            { backgroundColor: colors.primaryAlpha ?? colors.primary + "20" },
+          ]}
+        >
+          <Caption1 color="primary" style={{ fontFamily: FontFamily.bold, fontSize: 11 }}>
+            MAX
+          </Caption1>
+        </AnimatedPressable>
+      </View>
+
+      <View style={styles.controls}>
+        <Caption1 color="muted">
+          {estimatedAmount !== null
+            ? `≈ €${estimatedAmount.toFixed(2)} ${isBuy ? "incl. costs" : "after costs"}`
+            : "Whole shares only"}
+        </Caption1>
+        <CDSStepper
+          value={Math.floor(value)}
+          onChange={onChange}
+          min={0}
+          max={Math.max(0, Math.floor(max))}
+          size="sm"
+          showValue={false}
+        />
+      </View>
+
+      <CDSNumpad
+        onKeyPress={handleKeyPress}
+        onDelete={() => onChange(Math.floor(Math.floor(value) / 10))}
+        allowDecimal={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginHorizontal: 16,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  inner: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+    flex: 1,
+  },
+  count: {
+    fontSize: 32,
+    lineHeight: 40,
+  },
+  maxButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  controls: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginHorizontal: 18,
+    marginTop: 10,
+    marginBottom: 8,
+  },
+});
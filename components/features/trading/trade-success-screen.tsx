@@ -8,6 +8,7 @@
  *     isBuy={true}
  *     shares={10.5}
  *     amount={100}
+ *     leftover={3.25}
  *     ticker="OPAP"
  *     onShare={() => setShowShareModal(true)}
  *     onDone={() => dismiss()}
@@ -25,6 +26,8 @@ interface TradeSuccessScreenProps {
   isBuy: boolean;
   shares: string;
   amount: number;
+  /** Cash left unspent because only whole shares were bought */
+  leftover?: number;
   ticker: string;
   onShare: () => void;
   onDone: () => void;
@@ -34,6 +37,7 @@ export function TradeSuccessScreen({
   isBuy,
   shares,
   amount,
+  leftover = 0,
   ticker,
   onShare,
   onDone,
@@ -49,9 +53,14 @@ export function TradeSuccessScreen({
       <Callout color="muted" style={{ textAlign: "center", marginBottom: 8 }}>
         You {isBuy ? "bought" : "sold"} {shares} shares of {ticker}
       </Callout>
-      <MonoLargeTitle style={{ marginBottom: 32 }}>
+      <MonoLargeTitle style={{ marginBottom: leftover > 0 ? 8 : 32 }}>
         €{amount.toFixed(2)}
       </MonoLargeTitle>
+      {leftover > 0 && (
+        <Subhead color="muted" style={{ marginBottom: 32 }}>
+          €{leftover.toFixed(2)} left in cash
+        </Subhead>
+      )}
 
       {/* Share Button — Primary CTA */}
       <AnimatedPressable
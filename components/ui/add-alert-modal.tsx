@@ -3,6 +3,10 @@
  *
  * Bottom sheet-style modal for creating a new price alert.
  * Shows current price, allows selecting alert type and threshold.
+ * Types are grouped into price targets, moves (vs. previous close, a
+ * reference price, or opening gaps) and technical conditions (moving
+ * average crosses, volume spikes, 52-week highs/lows). Signed-in users
+ * also choose where it's delivered.
  */
 import React, { useState, useCallback } from "react";
 import {
@@ -16,7 +20,9 @@ import {
 import { useColors } from "@/hooks/use-colors";
 import { AnimatedPressable } from "@/components/ui/animated-pressable";
 import { IconSymbol } from "@/components/ui/icon-symbol";
+import { AlertChannelPicker } from "@/components/ui/alert-channel-picker";
 import { useNotifications } from "@/lib/notification-context";
+import { useAlertDelivery } from "@/hooks/use-alert-delivery";
 import {
   Title3,
   Body,
@@ -25,6 +31,8 @@ import {
   Caption1,
 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import { DEFAULT_ALERT_CHANNELS, type AlertChannel } from "@shared/alertDelivery";
+import { SMA_PERIODS } from "@shared/alertRules";
 import type { AlertType } from "@/server/priceAlertService";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
@@ -37,27 +45,130 @@ interface AddAlertModalProps {
   currentPrice: number;
 }
 
-const ALERT_TYPES: { type: AlertType; label: string; icon: string; description: string }[] = [
+type AlertGroup = "price" | "move" | "technical";
+
+/** What the threshold input asks for */
+type ThresholdInput = "price" | "percent" | "multiple" | "sma_period" | "none";
+
+const ALERT_GROUPS: { group: AlertGroup; label: string }[] = [
+  { group: "price", label: "Price" },
+  { group: "move", label: "Move" },
+  { group: "technical", label: "Technical" },
+];
+
+const ALERT_TYPES: {
+  type: AlertType;
+  group: AlertGroup;
+  label: string;
+  icon: string;
+  description: string;
+  input: ThresholdInput;
+}[] = [
   {
     type: "above",
+    group: "price",
     label: "Price Above",
     icon: "📈",
     description: "Alert when price rises above target",
+    input: "price",
   },
   {
     type: "below",
+    group: "price",
     label: "Price Below",
     icon: "📉",
     description: "Alert when price drops below target",
+    input: "price",
   },
   {
     type: "percent_change",
+    group: "move",
     label: "% Change",
     icon: "🔔",
-    description: "Alert on significant price movement",
+    description: "Move vs. previous close",
+    input: "percent",
+  },
+  {
+    type: "percent_from_reference",
+    group: "move",
+    label: "% From Price",
+    icon: "🎯",
+    description: "Move from a price you set",
+    input: "percent",
+  },
+  {
+    type: "gap_up",
+    group: "move",
+    label: "Gap Up",
+    icon: "⬆️",
+    description: "Opens above previous close",
+    input: "percent",
+  },
+  {
+    type: "gap_down",
+    group: "move",
+    label: "Gap Down",
+    icon: "⬇️",
+    description: "Opens below previous close",
+    input: "percent",
+  },
+  {
+    type: "sma_cross_above",
+    group: "technical",
+    label: "Crosses Above SMA",
+    icon: "〰️",
+    description: "Price crosses above its average",
+    input: "sma_period",
+  },
+  {
+    type: "sma_cross_below",
+    group: "technical",
+    label: "Crosses Below SMA",
+    icon: "〰️",
+    description: "Price crosses below its average",
+    input: "sma_period",
+  },
+  {
+    type: "volume_spike",
+    group: "technical",
+    label: "Volume Spike",
+    icon: "📊",
+    description: "Volume vs. 20-day average",
+    input: "multiple",
+  },
+  {
+    type: "high_52w",
+    group: "technical",
+    label: "52-Week High",
+    icon: "🚀",
+    description: "Trades above last year's high",
+    input: "none",
+  },
+  {
+    type: "low_52w",
+    group: "technical",
+    label: "52-Week Low",
+    icon: "⚠️",
+    description: "Trades below last year's low",
+    input: "none",
   },
 ];
 
+/** The threshold to save for an input, or null while it isn't valid */
+function parseThreshold(input: ThresholdInput, text: string, smaPeriod: number): number | null {
+  if (input === "none") return 0;
+  if (input === "sma_period") return smaPeriod;
+  const value = parseFloat(text);
+  if (isNaN(value) || value <= 0) return null;
+  if (input === "multiple" && value <= 1) return null;
+  return value;
+}
+
+function parsePrice(text: string): number | null {
+  const value = parseFloat(text);
+  return isNaN(value) || value <= 0 ? null : value;
+}
+
 // ─── Component ──────────────────────────────────────────────────────────────
 
 export function AddAlertModal({
@@ -69,17 +180,34 @@ export function AddAlertModal({
 }: AddAlertModalProps) {
   const colors = useColors();
   const { addPriceAlert, hasPermission, requestPermission } = useNotifications();
+  const { canConfigure, channelOptions } = useAlertDelivery();
 
   const [selectedType, setSelectedType] = useState<AlertType>("above");
   const [threshold, setThreshold] = useState("");
+  const [referencePrice, setReferencePrice] = useState("");
+  const [smaPeriod, setSmaPeriod] = useState<number>(50);
+  const [channels, setChannels] = useState<AlertChannel[]>([...DEFAULT_ALERT_CHANNELS]);
   const [loading, setLoading] = useState(false);
 
+  const selected = ALERT_TYPES.find((opt) => opt.type === selectedType)!;
+
+  const selectType = useCallback(
+    (type: AlertType) => {
+      setSelectedType(type);
+      setThreshold("");
+      if (type === "percent_from_reference") setReferencePrice(currentPrice.toFixed(2));
+    },
+    [currentPrice]
+  );
+
   const handleSave = useCallback(async () => {
-    const value = parseFloat(threshold);
-    if (isNaN(value) || value <= 0) return;
+    const value = parseThreshold(selected.input, threshold, smaPeriod);
+    if (value === null) return;
+    const reference = selectedType === "percent_from_reference" ? parsePrice(referencePrice) : null;
+    if (selectedType === "percent_from_reference" && reference === null) return;
 
-    // Request permission if not granted
-    if (!hasPermission) {
+    // Request permission if not granted (only push needs it)
+    if (channels.includes("push") && !hasPermission) {
       const granted = await requestPermission();
       if (!granted) return;
     }
@@ -91,21 +219,29 @@ export function AddAlertModal({
         stockName,
         type: selectedType,
         threshold: value,
+        referencePrice: reference,
+        channels,
       });
 
       if (alert) {
         onClose();
         setThreshold("");
+        setReferencePrice("");
         setSelectedType("above");
+        setChannels([...DEFAULT_ALERT_CHANNELS]);
       }
     } finally {
       setLoading(false);
     }
   }, [
     threshold,
+    referencePrice,
+    smaPeriod,
+    selected.input,
     selectedType,
     stockId,
     stockName,
+    channels,
     hasPermission,
     requestPermission,
     addPriceAlert,
@@ -119,19 +255,54 @@ export function AddAlertModal({
       case "below":
         return `e.g. ${(currentPrice * 0.9).toFixed(2)}`;
       case "percent_change":
+      case "percent_from_reference":
         return "e.g. 5.0";
+      case "gap_up":
+      case "gap_down":
+        return "e.g. 2.0";
+      case "volume_spike":
+        return "e.g. 3";
       default:
         return "0.00";
     }
   };
 
   const getUnit = (): string => {
-    return selectedType === "percent_change" ? "%" : "€";
+    switch (selected.input) {
+      case "percent":
+        return "%";
+      case "multiple":
+        return "×";
+      default:
+        return "€";
+    }
+  };
+
+  const getInputLabel = (): string => {
+    switch (selectedType) {
+      case "percent_change":
+      case "percent_from_reference":
+        return "Percentage Threshold";
+      case "gap_up":
+      case "gap_down":
+        return "Minimum Gap";
+      case "volume_spike":
+        return "Volume Multiple";
+      default:
+        return "Target Price";
+    }
   };
 
   const isValid = (): boolean => {
-    const value = parseFloat(threshold);
-    return !isNaN(value) && value > 0;
+    if (parseThreshold(selected.input, threshold, smaPeriod) === null) return false;
+    return selectedType !== "percent_from_reference" || parsePrice(referencePrice) !== null;
+  };
+
+  const sectionLabelStyle = {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.8,
+    marginBottom: 8,
   };
 
   return (
@@ -181,15 +352,38 @@ export function AddAlertModal({
             </Caption1>
           </View>
 
+          {/* Alert Group Tabs */}
+          <View style={[styles.groupTabs, { backgroundColor: colors.surfaceSecondary }]}>
+            {ALERT_GROUPS.map(({ group, label }) => {
+              const isActive = selected.group === group;
+              return (
+                <AnimatedPressable
+                  key={group}
+                  variant="toggle"
+                  onPress={() => selectType(ALERT_TYPES.find((opt) => opt.group === group)!.type)}
+                  style={[styles.groupTab, isActive && { backgroundColor: colors.surface }]}
+                  accessibilityLabel={`${label} alerts`}
+                >
+                  <Caption1
+                    color={isActive ? "foreground" : "muted"}
+                    style={{ fontFamily: isActive ? FontFamily.semibold : FontFamily.medium }}
+                  >
+                    {label}
+                  </Caption1>
+                </AnimatedPressable>
+              );
+            })}
+          </View>
+
           {/* Alert Type Selector */}
           <View style={styles.typeSelector} accessibilityRole="radiogroup">
-            {ALERT_TYPES.map((opt) => {
+            {ALERT_TYPES.filter((opt) => opt.group === selected.group).map((opt) => {
               const isSelected = selectedType === opt.type;
               return (
                 <AnimatedPressable
                   key={opt.type}
                   variant="chip"
-                  onPress={() => setSelectedType(opt.type)}
+                  onPress={() => selectType(opt.type)}
                   style={[
                     styles.typeOption,
                     {
@@ -212,6 +406,7 @@ export function AddAlertModal({
                         ? FontFamily.semibold
                         : FontFamily.regular,
                       color: isSelected ? colors.primary : colors.foreground,
+                      textAlign: "center",
                     }}
                   >
                     {opt.label}
@@ -233,59 +428,154 @@ export function AddAlertModal({
           </View>
 
           {/* Threshold Input */}
-          <View style={styles.inputSection}>
-            <Footnote
-              color="muted"
-              style={{
-                fontFamily: FontFamily.semibold,
-                textTransform: "uppercase",
-                letterSpacing: 0.8,
-                marginBottom: 8,
-              }}
-            >
-              {selectedType === "percent_change"
-                ? "Percentage Threshold"
-                : "Target Price"}
-            </Footnote>
-            <View
-              style={[
-                styles.inputRow,
-                {
-                  backgroundColor: colors.surface,
-                  borderColor: colors.border,
-                },
-              ]}
-            >
-              <Body
-                style={{
-                  fontFamily: FontFamily.semibold,
-                  color: colors.primary,
-                  marginRight: 4,
-                }}
-              >
-                {getUnit()}
-              </Body>
-              <TextInput
+          {(selected.input === "price" || selected.input === "percent" || selected.input === "multiple") && (
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                {getInputLabel()}
+              </Footnote>
+              <View
                 style={[
-                  styles.input,
+                  styles.inputRow,
                   {
-                    color: colors.foreground,
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                  },
+                ]}
+              >
+                <Body
+                  style={{
                     fontFamily: FontFamily.semibold,
+                    color: colors.primary,
+                    marginRight: 4,
+                  }}
+                >
+                  {getUnit()}
+                </Body>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      color: colors.foreground,
+                      fontFamily: FontFamily.semibold,
+                    },
+                  ]}
+                  value={threshold}
+                  onChangeText={setThreshold}
+                  placeholder={getPlaceholder()}
+                  placeholderTextColor={colors.muted}
+                  keyboardType="decimal-pad"
+                  returnKeyType="done"
+                  autoFocus
+                  accessibilityLabel={getInputLabel()}
+                />
+              </View>
+            </View>
+          )}
+
+          {/* Reference Price (percent_from_reference) */}
+          {selectedType === "percent_from_reference" && (
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Reference Price
+              </Footnote>
+              <View
+                style={[
+                  styles.inputRow,
+                  {
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
                   },
                 ]}
-                value={threshold}
-                onChangeText={setThreshold}
-                placeholder={getPlaceholder()}
-                placeholderTextColor={colors.muted}
-                keyboardType="decimal-pad"
-                returnKeyType="done"
-                autoFocus
-                accessibilityLabel={selectedType === "percent_change"
-                  ? "Percentage threshold"
-                  : "Target price"}
-              />
+              >
+                <Body
+                  style={{
+                    fontFamily: FontFamily.semibold,
+                    color: colors.primary,
+                    marginRight: 4,
+                  }}
+                >
+                  €
+                </Body>
+                <TextInput
+                  style={[
+                    styles.input,
+                    {
+                      color: colors.foreground,
+                      fontFamily: FontFamily.semibold,
+                    },
+                  ]}
+                  value={referencePrice}
+                  onChangeText={setReferencePrice}
+                  placeholder={currentPrice.toFixed(2)}
+                  placeholderTextColor={colors.muted}
+                  keyboardType="decimal-pad"
+                  returnKeyType="done"
+                  accessibilityLabel="Reference price"
+                />
+              </View>
             </View>
-          </View>
+          )}
+
+          {/* Moving Average Period */}
+          {selected.input === "sma_period" && (
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Moving Average
+              </Footnote>
+              <View style={styles.periodRow} accessibilityRole="radiogroup">
+                {SMA_PERIODS.map((period) => {
+                  const isSelected = smaPeriod === period;
+                  return (
+                    <AnimatedPressable
+                      key={period}
+                      variant="chip"
+                      onPress={() => setSmaPeriod(period)}
+                      style={[
+                        styles.periodOption,
+                        {
+                          backgroundColor: isSelected ? colors.primary + "15" : colors.surface,
+                          borderColor: isSelected ? colors.primary : colors.border,
+                        },
+                      ]}
+                      accessibilityLabel={`${period}-day moving average`}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Subhead
+                        style={{
+                          fontFamily: isSelected ? FontFamily.semibold : FontFamily.regular,
+                          color: isSelected ? colors.primary : colors.foreground,
+                        }}
+                      >
+                        {period}-day SMA
+                      </Subhead>
+                    </AnimatedPressable>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {/* 52-week alerts have nothing to set */}
+          {selected.input === "none" && (
+            <View style={styles.inputSection}>
+              <Caption1 color="muted">
+                {selectedType === "high_52w"
+                  ? `You'll be alerted when ${stockName} trades above its highest price of the past year.`
+                  : `You'll be alerted when ${stockName} trades below its lowest price of the past year.`}
+              </Caption1>
+            </View>
+          )}
+
+          {/* Delivery Channels (signed-in users, once email or a webhook is set up) */}
+          {canConfigure && channelOptions.length > 1 && (
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Deliver To
+              </Footnote>
+              <AlertChannelPicker value={channels} options={channelOptions} onChange={setChannels} />
+            </View>
+          )}
 
           {/* Save Button */}
           <AnimatedPressable
@@ -352,13 +642,27 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     gap: 4,
   },
+  groupTabs: {
+    flexDirection: "row",
+    borderRadius: 10,
+    padding: 3,
+    marginTop: 4,
+  },
+  groupTab: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
   typeSelector: {
     flexDirection: "row",
+    flexWrap: "wrap",
     gap: 8,
     paddingVertical: 12,
   },
   typeOption: {
-    flex: 1,
+    flexGrow: 1,
+    flexBasis: "30%",
     alignItems: "center",
     padding: 12,
     borderRadius: 14,
@@ -367,6 +671,17 @@ const styles = StyleSheet.create({
   inputSection: {
     paddingVertical: 12,
   },
+  periodRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  periodOption: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
   inputRow: {
     flexDirection: "row",
     alignItems: "center",
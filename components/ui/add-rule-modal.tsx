@@ -0,0 +1,607 @@
+/**
+ * Add Alert Rule Modal
+ *
+ * Bottom sheet-style modal for building a compound alert rule: a name,
+ * whether ALL (AND) or ANY (OR) of the conditions must hold, and the
+ * conditions themselves. Stock conditions are the single-alert conditions
+ * on a stock picked by search; portfolio conditions watch the demo
+ * portfolio's move today or any holding's distance from its cost. Once
+ * email or a webhook is set up, the rule's channels can be picked too.
+ *
+ * Usage:
+ *   <AddRuleModal
+ *     visible={showRuleModal}
+ *     onClose={() => setShowRuleModal(false)}
+ *     onSave={addRule}
+ *   />
+ */
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { useStockQuotes } from "@/hooks/use-stocks";
+import type { RuleActionResult } from "@/hooks/use-alert-rules";
+import { useAlertDelivery } from "@/hooks/use-alert-delivery";
+import { AlertChannelPicker } from "@/components/ui/alert-channel-picker";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { IconSymbol } from "@/components/ui/icon-symbol";
+import { Title3, Body, Footnote, Caption1 } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import { DEFAULT_ALERT_CHANNELS, type AlertChannel } from "@shared/alertDelivery";
+import {
+  describeRuleCondition,
+  MAX_RULE_CONDITIONS,
+  PORTFOLIO_METRIC_LABELS,
+  PORTFOLIO_METRICS,
+  SMA_PERIODS,
+  type AlertConditionType,
+  type AlertRuleCondition,
+  type AlertRuleGroup,
+  type PortfolioMetric,
+} from "@shared/alertRules";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface AddRuleModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSave: (name: string, rule: AlertRuleGroup, channels: AlertChannel[]) => Promise<RuleActionResult>;
+}
+
+type ConditionKind = "stock" | "portfolio";
+
+/** What the condition's value input asks for */
+type ValueInput = "price" | "percent" | "multiple" | "sma_period" | "none";
+
+const CONDITION_TYPES: { type: AlertConditionType; label: string; input: ValueInput }[] = [
+  { type: "above", label: "Above", input: "price" },
+  { type: "below", label: "Below", input: "price" },
+  { type: "percent_change", label: "% Day move", input: "percent" },
+  { type: "percent_from_reference", label: "% From price", input: "percent" },
+  { type: "volume_spike", label: "Volume spike", input: "multiple" },
+  { type: "sma_cross_above", label: "Cross above SMA", input: "sma_period" },
+  { type: "sma_cross_below", label: "Cross below SMA", input: "sma_period" },
+  { type: "high_52w", label: "52W high", input: "none" },
+  { type: "low_52w", label: "52W low", input: "none" },
+  { type: "gap_up", label: "Gap up", input: "percent" },
+  { type: "gap_down", label: "Gap down", input: "percent" },
+];
+
+const UNITS: Record<ValueInput, string> = {
+  price: "€",
+  percent: "%",
+  multiple: "×",
+  sma_period: "",
+  none: "",
+};
+
+/** Stocks offered while searching */
+const MAX_SEARCH_RESULTS = 6;
+
+function parseNumber(text: string): number | null {
+  const value = Number(text.replace(",", "."));
+  return text.trim() !== "" && Number.isFinite(value) ? value : null;
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function AddRuleModal({ visible, onClose, onSave }: AddRuleModalProps) {
+  const colors = useColors();
+  const { stocks } = useStockQuotes();
+  const { channelOptions } = useAlertDelivery();
+
+  const [name, setName] = useState("");
+  const [match, setMatch] = useState<AlertRuleGroup["match"]>("all");
+  const [conditions, setConditions] = useState<AlertRuleCondition[]>([]);
+  const [kind, setKind] = useState<ConditionKind>("stock");
+  const [search, setSearch] = useState("");
+  const [stock, setStock] = useState<{ id: string; ticker: string; price: number } | null>(null);
+  const [type, setType] = useState<AlertConditionType>("below");
+  const [metric, setMetric] = useState<PortfolioMetric>("dayChange");
+  const [op, setOp] = useState<"gte" | "lte">("lte");
+  const [value, setValue] = useState("");
+  const [referencePrice, setReferencePrice] = useState("");
+  const [smaPeriod, setSmaPeriod] = useState<number>(50);
+  const [channels, setChannels] = useState<AlertChannel[]>([...DEFAULT_ALERT_CHANNELS]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const input = CONDITION_TYPES.find((opt) => opt.type === type)!.input;
+
+  const searchResults = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return [];
+    return stocks
+      .filter((s) => s.ticker.toLowerCase().includes(q) || s.name.toLowerCase().includes(q))
+      .slice(0, MAX_SEARCH_RESULTS);
+  }, [stocks, search]);
+
+  const reset = () => {
+    setName("");
+    setMatch("all");
+    setConditions([]);
+    setStock(null);
+    setSearch("");
+    setValue("");
+    setReferencePrice("");
+    setChannels([...DEFAULT_ALERT_CHANNELS]);
+    setMessage(null);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  /** The condition in the editor, or null while it's incomplete */
+  const buildCondition = (): AlertRuleCondition | null => {
+    const amount = parseNumber(value);
+    if (kind === "portfolio") {
+      return amount !== null ? { kind: "portfolio", metric, op, value: amount } : null;
+    }
+    if (!stock) return null;
+
+    let threshold: number;
+    if (input === "none") threshold = 0;
+    else if (input === "sma_period") threshold = smaPeriod;
+    else if (amount === null || amount <= 0 || (input === "multiple" && amount <= 1)) return null;
+    else threshold = amount;
+
+    const reference = type === "percent_from_reference" ? parseNumber(referencePrice) : null;
+    if (type === "percent_from_reference" && (reference === null || reference <= 0)) return null;
+
+    return { kind: "stock", stockId: stock.id, stockName: stock.ticker, type, threshold, referencePrice: reference };
+  };
+
+  const pending = buildCondition();
+  const canAddCondition = pending !== null && conditions.length < MAX_RULE_CONDITIONS;
+  const canSave = name.trim() !== "" && conditions.length > 0 && !saving;
+
+  const addCondition = () => {
+    if (!pending || !canAddCondition) return;
+    setConditions((prev) => [...prev, pending]);
+    setValue("");
+    setMessage(null);
+  };
+
+  const selectType = (next: AlertConditionType) => {
+    setType(next);
+    setValue("");
+    if (next === "percent_from_reference" && stock) setReferencePrice(stock.price.toFixed(2));
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const result = await onSave(name.trim(), { match, conditions }, channels);
+      if (result.success) {
+        close();
+      } else {
+        setMessage(result.error ?? "Couldn't save the rule.");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sectionLabelStyle = {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.8,
+    marginBottom: 8,
+  };
+
+  const inputBox = [styles.inputRow, { backgroundColor: colors.surface, borderColor: colors.border }];
+  const inputText = [styles.input, { color: colors.foreground, fontFamily: FontFamily.semibold }];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={close}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.overlay}
+      >
+        <AnimatedPressable
+          variant="card"
+          style={styles.backdrop}
+          onPress={close}
+          haptic={false}
+          accessibilityLabel="Close modal"
+          accessibilityRole="button"
+        />
+        <View
+          style={[styles.sheet, { backgroundColor: colors.background, borderColor: colors.border }]}
+        >
+          {/* Handle */}
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colors.muted + "40" }]} />
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            {/* Header */}
+            <View style={styles.sheetHeader}>
+              <Title3 style={{ fontFamily: FontFamily.bold }}>New Alert Rule</Title3>
+              <Caption1 color="muted">
+                Combine conditions on stocks and your portfolio. You&apos;re notified when the rule holds.
+              </Caption1>
+            </View>
+
+            {/* Name */}
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Name
+              </Footnote>
+              <View style={inputBox}>
+                <TextInput
+                  style={inputText}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g. ETE dip on heavy volume"
+                  placeholderTextColor={colors.muted}
+                  maxLength={64}
+                  accessibilityLabel="Rule name"
+                />
+              </View>
+            </View>
+
+            {/* Match */}
+            <View style={[styles.segmented, { backgroundColor: colors.surfaceSecondary }]}>
+              {(["all", "any"] as const).map((m) => {
+                const isActive = match === m;
+                return (
+                  <AnimatedPressable
+                    key={m}
+                    variant="toggle"
+                    onPress={() => setMatch(m)}
+                    style={[styles.segment, isActive && { backgroundColor: colors.surface }]}
+                    accessibilityLabel={m === "all" ? "Match all conditions" : "Match any condition"}
+                  >
+                    <Caption1
+                      color={isActive ? "foreground" : "muted"}
+                      style={{ fontFamily: isActive ? FontFamily.semibold : FontFamily.medium }}
+                    >
+                      {m === "all" ? "All conditions (AND)" : "Any condition (OR)"}
+                    </Caption1>
+                  </AnimatedPressable>
+                );
+              })}
+            </View>
+
+            {/* Conditions */}
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Conditions ({conditions.length}/{MAX_RULE_CONDITIONS})
+              </Footnote>
+              {conditions.length === 0 ? (
+                <Caption1 color="muted">Add at least one condition below.</Caption1>
+              ) : (
+                conditions.map((condition, i) => (
+                  <View
+                    key={`${i}-${describeRuleCondition(condition)}`}
+                    style={[styles.conditionRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                  >
+                    {i > 0 && (
+                      <Caption1 color="muted" style={{ fontFamily: FontFamily.semibold }}>
+                        {match === "all" ? "AND" : "OR"}
+                      </Caption1>
+                    )}
+                    <Caption1 style={{ flex: 1 }}>{describeRuleCondition(condition)}</Caption1>
+                    <AnimatedPressable
+                      variant="icon"
+                      onPress={() => setConditions((prev) => prev.filter((_, j) => j !== i))}
+                      accessibilityLabel={`Remove ${describeRuleCondition(condition)}`}
+                      accessibilityRole="button"
+                    >
+                      <IconSymbol name="xmark" size={14} color={colors.muted} />
+                    </AnimatedPressable>
+                  </View>
+                ))
+              )}
+            </View>
+
+            {/* Condition Editor */}
+            <View style={[styles.editor, { borderColor: colors.border }]}>
+              <View style={styles.chipRow}>
+                <CDSChip label="Stock" selected={kind === "stock"} onPress={() => setKind("stock")} />
+                <CDSChip label="Portfolio" selected={kind === "portfolio"} onPress={() => setKind("portfolio")} />
+              </View>
+
+              {kind === "stock" ? (
+                <>
+                  {stock ? (
+                    <View style={styles.chipRow}>
+                      <CDSChip label={`${stock.ticker} · €${stock.price.toFixed(2)}`} selected onPress={() => setStock(null)} />
+                      <Caption1 color="muted">Tap to change</Caption1>
+                    </View>
+                  ) : (
+                    <>
+                      <View style={inputBox}>
+                        <TextInput
+                          style={inputText}
+                          value={search}
+                          onChangeText={setSearch}
+                          placeholder="Search stocks"
+                          placeholderTextColor={colors.muted}
+                          autoCapitalize="characters"
+                          accessibilityLabel="Search stocks"
+                        />
+                      </View>
+                      <View style={styles.chipRow}>
+                        {searchResults.map((s) => (
+                          <CDSChip
+                            key={s.id}
+                            label={s.ticker}
+                            onPress={() => {
+                              setStock({ id: s.id, ticker: s.ticker, price: s.price });
+                              setSearch("");
+                              if (type === "percent_from_reference") setReferencePrice(s.price.toFixed(2));
+                            }}
+                          />
+                        ))}
+                      </View>
+                    </>
+                  )}
+
+                  <View style={styles.chipRow}>
+                    {CONDITION_TYPES.map((opt) => (
+                      <CDSChip
+                        key={opt.type}
+                        label={opt.label}
+                        selected={type === opt.type}
+                        onPress={() => selectType(opt.type)}
+                      />
+                    ))}
+                  </View>
+
+                  {input === "sma_period" && (
+                    <View style={styles.chipRow}>
+                      {SMA_PERIODS.map((period) => (
+                        <CDSChip
+                          key={period}
+                          label={`${period}-day SMA`}
+                          selected={smaPeriod === period}
+                          onPress={() => setSmaPeriod(period)}
+                        />
+                      ))}
+                    </View>
+                  )}
+
+                  {(input === "price" || input === "percent" || input === "multiple") && (
+                    <View style={inputBox}>
+                      <Body style={[styles.unit, { color: colors.primary }]}>{UNITS[input]}</Body>
+                      <TextInput
+                        style={inputText}
+                        value={value}
+                        onChangeText={setValue}
+                        placeholder={input === "multiple" ? "e.g. 2" : input === "percent" ? "e.g. 3.0" : "0.00"}
+                        placeholderTextColor={colors.muted}
+                        keyboardType="decimal-pad"
+                        accessibilityLabel="Condition value"
+                      />
+                    </View>
+                  )}
+
+                  {type === "percent_from_reference" && (
+                    <View style={inputBox}>
+                      <Caption1 color="muted" style={{ marginRight: 8 }}>
+                        From €
+                      </Caption1>
+                      <TextInput
+                        style={inputText}
+                        value={referencePrice}
+                        onChangeText={setReferencePrice}
+                        placeholder="Reference price"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="decimal-pad"
+                        accessibilityLabel="Reference price"
+                      />
+                    </View>
+                  )}
+                </>
+              ) : (
+                <>
+                  <View style={styles.chipRow}>
+                    {PORTFOLIO_METRICS.map((m) => (
+                      <CDSChip
+                        key={m}
+                        label={PORTFOLIO_METRIC_LABELS[m]}
+                        selected={metric === m}
+                        onPress={() => setMetric(m)}
+                      />
+                    ))}
+                  </View>
+                  <View style={styles.chipRow}>
+                    <CDSChip label="≤ (down to)" selected={op === "lte"} onPress={() => setOp("lte")} />
+                    <CDSChip label="≥ (up to)" selected={op === "gte"} onPress={() => setOp("gte")} />
+                  </View>
+                  <View style={inputBox}>
+                    <Body style={[styles.unit, { color: colors.primary }]}>%</Body>
+                    <TextInput
+                      style={inputText}
+                      value={value}
+                      onChangeText={setValue}
+                      placeholder={op === "lte" ? "e.g. -3" : "e.g. 5"}
+                      placeholderTextColor={colors.muted}
+                      keyboardType="numbers-and-punctuation"
+                      accessibilityLabel="Percentage"
+                    />
+                  </View>
+                  <Caption1 color="muted">
+                    {metric === "dayChange"
+                      ? "Your whole portfolio's move since yesterday's close."
+                      : "Holds when any of your holdings is this far from its average cost."}
+                  </Caption1>
+                </>
+              )}
+
+              <AnimatedPressable
+                variant="button"
+                onPress={addCondition}
+                disabled={!canAddCondition}
+                style={[
+                  styles.addButton,
+                  { borderColor: canAddCondition ? colors.primary : colors.border },
+                ]}
+                accessibilityLabel="Add condition"
+                accessibilityRole="button"
+              >
+                <Caption1
+                  style={{
+                    color: canAddCondition ? colors.primary : colors.muted,
+                    fontFamily: FontFamily.semibold,
+                    textAlign: "center",
+                  }}
+                >
+                  + Add Condition
+                </Caption1>
+              </AnimatedPressable>
+            </View>
+
+            {/* Delivery Channels */}
+            {channelOptions.length > 1 && (
+              <View style={styles.inputSection}>
+                <Footnote color="muted" style={sectionLabelStyle}>
+                  Deliver To
+                </Footnote>
+                <AlertChannelPicker value={channels} options={channelOptions} onChange={setChannels} />
+              </View>
+            )}
+
+            {message && (
+              <Caption1 style={{ color: colors.error, marginTop: 8 }}>{message}</Caption1>
+            )}
+
+            {/* Save Button */}
+            <AnimatedPressable
+              variant="button"
+              onPress={handleSave}
+              disabled={!canSave}
+              style={[styles.saveButton, { backgroundColor: canSave ? colors.primary : colors.muted + "30" }]}
+            >
+              <Body
+                style={{
+                  color: canSave ? "#FFFFFF" : colors.muted,
+                  fontFamily: FontFamily.semibold,
+                  textAlign: "center",
+                }}
+              >
+                {saving ? "Saving..." : "Create Rule"}
+              </Body>
+            </AnimatedPressable>
+
+            {/* Bottom padding for safe area */}
+            <View style={{ height: 20 }} />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  sheet: {
+    maxHeight: "90%",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: 0,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === "ios" ? 34 : 20,
+  },
+  handleContainer: {
+    alignItems: "center",
+    paddingTop: 10,
+    paddingBottom: 8,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  sheetHeader: {
+    paddingVertical: 12,
+    gap: 4,
+  },
+  segmented: {
+    flexDirection: "row",
+    borderRadius: 10,
+    padding: 3,
+  },
+  segment: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  inputSection: {
+    paddingVertical: 12,
+  },
+  conditionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    marginBottom: 6,
+  },
+  editor: {
+    gap: 10,
+    padding: 12,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderStyle: "dashed",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 6,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  unit: {
+    fontFamily: FontFamily.semibold,
+    marginRight: 4,
+  },
+  addButton: {
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  saveButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,55 @@
+/**
+ * Alert Channel Picker
+ *
+ * Row of chips choosing where an alert is delivered (push, email, webhook).
+ * Only the channels the user has set up are offered, and at least one
+ * stays selected.
+ *
+ * Usage:
+ *   <AlertChannelPicker
+ *     value={channels}
+ *     options={channelOptions}
+ *     onChange={setChannels}
+ *   />
+ */
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { ALERT_CHANNELS, ALERT_CHANNEL_LABELS, type AlertChannel } from "@shared/alertDelivery";
+
+interface AlertChannelPickerProps {
+  value: AlertChannel[];
+  /** Channels that can be picked */
+  options: readonly AlertChannel[];
+  onChange: (channels: AlertChannel[]) => void;
+}
+
+export function AlertChannelPicker({ value, options, onChange }: AlertChannelPickerProps) {
+  const toggle = (channel: AlertChannel) => {
+    const next = value.includes(channel) ? value.filter((c) => c !== channel) : [...value, channel];
+    if (next.length === 0) return;
+    // Keep the canonical order
+    onChange(ALERT_CHANNELS.filter((c) => next.includes(c)));
+  };
+
+  return (
+    <View style={styles.row}>
+      {ALERT_CHANNELS.filter((channel) => options.includes(channel) || value.includes(channel)).map((channel) => (
+        <CDSChip
+          key={channel}
+          label={ALERT_CHANNEL_LABELS[channel]}
+          selected={value.includes(channel)}
+          onPress={() => toggle(channel)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+});
@@ -3,6 +3,8 @@
  *
  * Clean bar chart with CDS color palette and proper spacing.
  * Perfect for volume, portfolio allocation, and category breakdowns.
+ * In `signed` mode bars grow up or down from a zero line in success/error
+ * (e.g. a MACD histogram), with optional indicator lines on the same scale.
  *
  * Usage:
  *   <CDSBarChart
@@ -14,8 +16,9 @@
  */
 import React, { useMemo } from "react";
 import { View, StyleSheet } from "react-native";
-import Svg, { Rect, Defs, LinearGradient, Stop, Line } from "react-native-svg";
+import Svg, { Rect, Defs, LinearGradient, Stop, Line, Path } from "react-native-svg";
 import { useColors } from "@/hooks/use-colors";
+import type { ChartOverlay } from "./cds-line-chart";
 
 type BarColor = "primary" | "success" | "error" | "gold" | "muted";
 
@@ -32,6 +35,10 @@ interface CDSBarChartProps {
   showGradient?: boolean;
   /** Maximum value for y-axis (auto-calculated if not provided) */
   maxValue?: number;
+  /** Draw negative values below a zero line, colored by sign */
+  signed?: boolean;
+  /** Lines drawn over the bars on the same scale (signed mode) */
+  lines?: ChartOverlay[];
 }
 
 export function CDSBarChart({
@@ -43,6 +50,8 @@ export function CDSBarChart({
   borderRadius = 4,
   showGradient = true,
   maxValue,
+  signed = false,
+  lines,
 }: CDSBarChartProps) {
   const colors = useColors();
 
@@ -78,6 +87,43 @@ export function CDSBarChart({
 
     const barColor = getColor();
 
+    if (signed) {
+      const lineValues = (lines ?? []).flatMap((l) => l.data).filter((v): v is number => v !== null);
+      const top = Math.max(0, ...data, ...lineValues);
+      const bottom = Math.min(0, ...data, ...lineValues);
+      const span = top - bottom || 1;
+      const toY = (value: number) => padding.top + ((top - value) / span) * chartHeight;
+      const zeroY = toY(0);
+      const slot = chartWidth / data.length;
+
+      const bars = data.map((value, index) => {
+        const y = toY(value);
+        return {
+          x: padding.left + index * slot + barSpacing / 2,
+          y: Math.min(y, zeroY),
+          width: Math.max(slot - barSpacing, 1),
+          height: Math.abs(y - zeroY),
+          value,
+        };
+      });
+
+      const linePaths = (lines ?? []).map((l) => {
+        let d = "";
+        let drawing = false;
+        l.data.forEach((value, index) => {
+          if (value === null) {
+            drawing = false;
+            return;
+          }
+          d += `${drawing ? " L" : " M"} ${padding.left + (index + 0.5) * slot} ${toY(value)}`;
+          drawing = true;
+        });
+        return { ...l, path: d.trim() };
+      });
+
+      return { bars, padding, barColor: colors.success, chartHeight, zeroY, linePaths };
+    }
+
     const bars = data.map((value, index) => {
       const barHeight = (Math.abs(value) / range) * chartHeight;
       const x = padding.left + index * (barWidth + barSpacing);
@@ -92,12 +138,20 @@ export function CDSBarChart({
       };
     });
 
-    return { bars, padding, barColor, chartHeight };
-  }, [data, width, height, color, maxValue, barSpacing, colors]);
+    return { bars, padding, barColor, chartHeight, zeroY: padding.top + chartHeight, linePaths: [] };
+  }, [data, width, height, color, maxValue, barSpacing, signed, lines, colors]);
 
   if (!chartData) return null;
 
-  const { bars, padding, barColor, chartHeight } = chartData;
+  const { bars, padding, barColor, zeroY, linePaths } = chartData;
+  const fillFor = (value: number) =>
+    signed
+      ? value >= 0
+        ? colors.success
+        : colors.error
+      : showGradient
+      ? `url(#bar-gradient-${barColor})`
+      : barColor;
 
   return (
     <View style={{ width, height }}>
@@ -117,21 +171,38 @@ export function CDSBarChart({
             y={bar.y}
             width={bar.width}
             height={bar.height}
-            fill={showGradient ? `url(#bar-gradient-${barColor})` : barColor}
-            rx={borderRadius}
-            ry={borderRadius}
+            fill={fillFor(bar.value)}
+            fillOpacity={signed ? 0.7 : 1}
+            rx={signed ? Math.min(borderRadius, bar.width / 2) : borderRadius}
+            ry={signed ? Math.min(borderRadius, bar.width / 2) : borderRadius}
           />
         ))}
 
-        {/* Base line */}
+        {/* Base line (zero line in signed mode) */}
         <Line
           x1={padding.left}
-          y1={padding.top + chartHeight}
+          y1={zeroY}
           x2={width - padding.right}
-          y2={padding.top + chartHeight}
+          y2={zeroY}
           stroke={colors.border}
           strokeWidth={1}
         />
+
+        {/* Indicator lines */}
+        {linePaths.map((l, i) =>
+          l.path ? (
+            <Path
+              key={`line-${i}`}
+              d={l.path}
+              fill="none"
+              stroke={l.color}
+              strokeWidth={1.25}
+              strokeDasharray={l.dashed ? [4, 3] : undefined}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ) : null
+        )}
       </Svg>
     </View>
   );
@@ -0,0 +1,302 @@
+/**
+ * CDSCandlestickChart — OHLC candles with a volume histogram beneath
+ *
+ * Follows the CDS chart patterns: success/error candles by direction, a
+ * muted price axis, and volume bars tinted like their candle. Drag across
+ * the chart to scrub a crosshair with the bar's OHLCV; pinch to zoom the
+ * visible candles. Pinching past either zoom limit calls `onRangeStep` so
+ * the screen can move to the next shorter or longer range.
+ *
+ * Usage:
+ *   <CDSCandlestickChart
+ *     candles={candles}
+ *     width={360}
+ *     height={200}
+ *     onRangeStep={(step) => setPeriod(steppedRange(TIME_PERIODS, period, step) ?? period)}
+ *   />
+ */
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { View, StyleSheet, Platform } from "react-native";
+import Svg, { Line, Rect, Text as SvgText } from "react-native-svg";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import * as Haptics from "expo-haptics";
+import { useColors } from "@/hooks/use-colors";
+import { Caption2, MonoCaption2 } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import {
+  candleIndexAt,
+  fullWindow,
+  rangeStepForPinch,
+  zoomWindow,
+  type CandleWindow,
+} from "@/lib/candle-chart";
+import type { ChartDataPoint } from "@/server/stockService";
+
+interface CDSCandlestickChartProps {
+  candles: ChartDataPoint[];
+  width?: number;
+  /** Height of the price pane */
+  height?: number;
+  /** Height of the volume pane beneath it */
+  volumeHeight?: number;
+  /** Called when a pinch goes past the closest or widest zoom */
+  onRangeStep?: (step: "in" | "out") => void;
+}
+
+const PADDING = { top: 8, right: 48, bottom: 4, left: 4 };
+const PANE_GAP = 6;
+const AXIS_TICKS = 3;
+
+function formatVolume(volume: number): string {
+  if (volume >= 1_000_000) return `${(volume / 1_000_000).toFixed(1)}M`;
+  if (volume >= 1_000) return `${(volume / 1_000).toFixed(0)}K`;
+  return volume.toString();
+}
+
+function formatCandleTime(timestamp: number, intraday: boolean): string {
+  const date = new Date(timestamp * 1000);
+  return intraday
+    ? date.toLocaleString("en-GB", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit", timeZone: "Europe/Athens" })
+    : date.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric", timeZone: "Europe/Athens" });
+}
+
+export function CDSCandlestickChart({
+  candles,
+  width = 320,
+  height = 200,
+  volumeHeight = 56,
+  onRangeStep,
+}: CDSCandlestickChartProps) {
+  const colors = useColors();
+  const total = candles.length;
+  const [visible, setVisible] = useState<CandleWindow>(() => fullWindow(total));
+  const [crosshair, setCrosshair] = useState<number | null>(null);
+  const pinchStart = useRef<CandleWindow>(visible);
+
+  // A new range (or a refetch with more candles) starts fully zoomed out
+  const firstTimestamp = candles[0]?.timestamp;
+  useEffect(() => {
+    setVisible(fullWindow(total));
+    setCrosshair(null);
+  }, [total, firstTimestamp]);
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const priceHeight = height - PADDING.top - PADDING.bottom;
+  const volumeTop = height + PANE_GAP;
+
+  const chart = useMemo(() => {
+    const shown = candles.slice(visible.start, visible.end);
+    if (shown.length === 0) return null;
+
+    const high = Math.max(...shown.map((c) => c.high));
+    const low = Math.min(...shown.map((c) => c.low));
+    const range = high - low || 1;
+    const maxVolume = Math.max(...shown.map((c) => c.volume)) || 1;
+    const slot = plotWidth / shown.length;
+    const bodyWidth = Math.max(1, slot * 0.7);
+
+    const toY = (price: number) => PADDING.top + ((high - price) / range) * priceHeight;
+
+    const bars = shown.map((c, i) => {
+      const x = PADDING.left + i * slot + slot / 2;
+      const rising = c.close >= c.open;
+      const bodyTop = toY(Math.max(c.open, c.close));
+      const volumeBar = (c.volume / maxVolume) * volumeHeight;
+      return {
+        x,
+        rising,
+        wickTop: toY(c.high),
+        wickBottom: toY(c.low),
+        bodyTop,
+        bodyHeight: Math.max(1, toY(Math.min(c.open, c.close)) - bodyTop),
+        volumeY: volumeTop + volumeHeight - volumeBar,
+        volumeHeight: volumeBar,
+      };
+    });
+
+    const ticks = Array.from({ length: AXIS_TICKS }, (_, i) => {
+      const price = high - (range / (AXIS_TICKS - 1)) * i;
+      return { price, y: toY(price) };
+    });
+
+    return { bars, ticks, slot, bodyWidth, toY };
+  }, [candles, visible, plotWidth, priceHeight, volumeHeight, volumeTop]);
+
+  const intraday = total > 1 && candles[1].timestamp - candles[0].timestamp < 20 * 60 * 60;
+
+  const scrub = (x: number) => {
+    const index = candleIndexAt(x - PADDING.left, plotWidth, visible);
+    if (index !== crosshair) {
+      setCrosshair(index);
+      if (Platform.OS !== "web") Haptics.selectionAsync();
+    }
+  };
+
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      pinchStart.current = visible;
+    })
+    .onUpdate((event) => {
+      const focus = Math.min(1, Math.max(0, (event.focalX - PADDING.left) / plotWidth));
+      setVisible(zoomWindow(pinchStart.current, total, event.scale, focus));
+    })
+    .onEnd((event) => {
+      const step = rangeStepForPinch(pinchStart.current, total, event.scale);
+      if (step) onRangeStep?.(step);
+    });
+
+  // Horizontal drags scrub; vertical ones are left to the screen's scroll view
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .maxPointers(1)
+    .activeOffsetX([-6, 6])
+    .failOffsetY([-12, 12])
+    .onBegin((event) => scrub(event.x))
+    .onUpdate((event) => scrub(event.x))
+    .onFinalize(() => setCrosshair(null));
+
+  if (!chart) return null;
+
+  // Until the reset effect runs, the window may outlast a shorter range
+  const selected = (crosshair !== null ? candles[crosshair] : undefined) ?? candles[Math.min(visible.end, total) - 1];
+  const selectedBar = crosshair !== null ? chart.bars[crosshair - visible.start] ?? null : null;
+  const change = selected.close - selected.open;
+
+  return (
+    <View style={{ width }}>
+      {/* OHLCV readout for the scrubbed (or latest) candle */}
+      <View style={styles.readout}>
+        <Caption2 color="muted" style={{ fontFamily: FontFamily.medium }}>
+          {formatCandleTime(selected.timestamp, intraday)}
+        </Caption2>
+        <View style={styles.readoutValues}>
+          {[
+            { label: "O", value: selected.open.toFixed(2) },
+            { label: "H", value: selected.high.toFixed(2) },
+            { label: "L", value: selected.low.toFixed(2) },
+            { label: "C", value: selected.close.toFixed(2) },
+            { label: "V", value: formatVolume(selected.volume) },
+          ].map((item) => (
+            <MonoCaption2 key={item.label} color="muted">
+              {item.label}{" "}
+              <MonoCaption2
+                style={{
+                  fontFamily: FontFamily.monoMedium,
+                  color: item.label === "V" ? colors.foreground : change >= 0 ? colors.success : colors.error,
+                }}
+              >
+                {item.value}
+              </MonoCaption2>
+            </MonoCaption2>
+          ))}
+        </View>
+      </View>
+
+      <GestureDetector gesture={Gesture.Simultaneous(pinch, pan)}>
+        <View
+          accessible
+          accessibilityRole="image"
+          accessibilityLabel={`Candlestick chart, ${visible.end - visible.start} candles. Drag to inspect a candle, pinch to zoom.`}
+        >
+          <Svg width={width} height={volumeTop + volumeHeight}>
+            {/* Price axis */}
+            {chart.ticks.map((tick) => (
+              <React.Fragment key={tick.y}>
+                <Line
+                  x1={PADDING.left}
+                  y1={tick.y}
+                  x2={PADDING.left + plotWidth}
+                  y2={tick.y}
+                  stroke={colors.border}
+                  strokeWidth={0.5}
+                  strokeDasharray={[4, 4]}
+                />
+                <SvgText
+                  x={width - PADDING.right + 6}
+                  y={tick.y + 3}
+                  fill={colors.muted}
+                  fontSize={10}
+                  fontFamily={FontFamily.mono}
+                >
+                  {tick.price.toFixed(2)}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            {/* Candles and volume */}
+            {chart.bars.map((bar, i) => {
+              const color = bar.rising ? colors.success : colors.error;
+              return (
+                <React.Fragment key={visible.start + i}>
+                  <Line x1={bar.x} y1={bar.wickTop} x2={bar.x} y2={bar.wickBottom} stroke={color} strokeWidth={1} />
+                  <Rect
+                    x={bar.x - chart.bodyWidth / 2}
+                    y={bar.bodyTop}
+                    width={chart.bodyWidth}
+                    height={bar.bodyHeight}
+                    fill={color}
+                  />
+                  <Rect
+                    x={bar.x - chart.bodyWidth / 2}
+                    y={bar.volumeY}
+                    width={chart.bodyWidth}
+                    height={bar.volumeHeight}
+                    fill={color}
+                    fillOpacity={0.35}
+                  />
+                </React.Fragment>
+              );
+            })}
+
+            {/* Volume baseline */}
+            <Line
+              x1={PADDING.left}
+              y1={volumeTop + volumeHeight}
+              x2={PADDING.left + plotWidth}
+              y2={volumeTop + volumeHeight}
+              stroke={colors.border}
+              strokeWidth={1}
+            />
+
+            {/* Crosshair */}
+            {selectedBar && (
+              <>
+                <Line
+                  x1={selectedBar.x}
+                  y1={PADDING.top}
+                  x2={selectedBar.x}
+                  y2={volumeTop + volumeHeight}
+                  stroke={colors.muted}
+                  strokeWidth={0.75}
+                />
+                <Line
+                  x1={PADDING.left}
+                  y1={chart.toY(selected.close)}
+                  x2={PADDING.left + plotWidth}
+                  y2={chart.toY(selected.close)}
+                  stroke={colors.muted}
+                  strokeWidth={0.75}
+                  strokeDasharray={[3, 3]}
+                />
+              </>
+            )}
+          </Svg>
+        </View>
+      </GestureDetector>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  readout: {
+    paddingHorizontal: PADDING.left,
+    marginBottom: 4,
+    gap: 2,
+  },
+  readoutValues: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+  },
+});
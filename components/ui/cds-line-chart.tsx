@@ -2,7 +2,10 @@
  * CDSLineChart — Enhanced line chart following CDS chart design patterns
  *
  * Beautiful line chart with gradient fill, smooth curves, and CDS color palette.
- * Perfect for price history and trend visualization.
+ * Perfect for price history and trend visualization. An optional comparison
+ * series (e.g. a benchmark index) is drawn dashed on the same scale.
+ * Indicator overlays (moving averages, a Bollinger band) may contain nulls
+ * where they have no value yet; the line simply starts later.
  *
  * Usage:
  *   <CDSLineChart
@@ -11,6 +14,7 @@
  *     height={180}
  *     positive={true}
  *     showDots={true}
+ *     comparisonData={[10, 11, 11, 12, 13, 13, 14, 15]}
  *   />
  */
 import React, { useMemo } from "react";
@@ -18,6 +22,13 @@ import { View, StyleSheet } from "react-native";
 import Svg, { Path, Defs, LinearGradient, Stop, Circle, Line } from "react-native-svg";
 import { useColors } from "@/hooks/use-colors";
 
+/** An extra series aligned with `data`; nulls leave a gap */
+export interface ChartOverlay {
+  data: (number | null)[];
+  color: string;
+  dashed?: boolean;
+}
+
 interface CDSLineChartProps {
   data: number[];
   width?: number;
@@ -36,8 +47,22 @@ interface CDSLineChartProps {
   gridLines?: number;
   /** Optional labels for x-axis */
   labels?: string[];
+  /** Optional second series drawn as a dashed overlay on the same scale */
+  comparisonData?: number[];
+  /** Overlay color (defaults to muted) */
+  comparisonColor?: string;
+  /** Indicator lines drawn thin on the same scale */
+  overlays?: ChartOverlay[];
+  /** A shaded band between two series (e.g. Bollinger Bands) */
+  band?: { upper: (number | null)[]; lower: (number | null)[]; color: string };
+  /** Fixed y-axis range instead of fitting the data (e.g. [0, 100] for RSI) */
+  domain?: [number, number];
+  /** Horizontal dashed lines at these values (e.g. RSI 30/70) */
+  referenceLines?: number[];
 }
 
+const isValue = (v: number | null): v is number => v !== null;
+
 export function CDSLineChart({
   data,
   width = 320,
@@ -50,6 +75,12 @@ export function CDSLineChart({
   showGrid = false,
   gridLines = 5,
   labels,
+  comparisonData,
+  comparisonColor,
+  overlays,
+  band,
+  domain,
+  referenceLines,
 }: CDSLineChartProps) {
   const colors = useColors();
 
@@ -60,8 +91,13 @@ export function CDSLineChart({
       positive !== undefined ? positive : data[data.length - 1] >= data[0];
     const color = isPositive ? colors.success : colors.error;
 
-    const min = Math.min(...data);
-    const max = Math.max(...data);
+    const overlay = comparisonData && comparisonData.length >= 2 ? comparisonData : null;
+    const extras = [
+      ...(overlays ?? []).flatMap((o) => o.data),
+      ...(band ? [...band.upper, ...band.lower] : []),
+    ].filter(isValue);
+    const min = domain ? domain[0] : Math.min(...data, ...(overlay ?? []), ...extras);
+    const max = domain ? domain[1] : Math.max(...data, ...(overlay ?? []), ...extras);
     const range = max - min || 1;
 
     const padding = { top: 20, right: 20, bottom: 30, left: 50 };
@@ -69,11 +105,45 @@ export function CDSLineChart({
     const chartHeight = height - padding.top - padding.bottom;
 
     // Build points
-    const points = data.map((value, index) => {
-      const x = padding.left + (index / (data.length - 1)) * chartWidth;
-      const y = padding.top + chartHeight - ((value - min) / range) * chartHeight;
-      return { x, y, value };
-    });
+    const toPoints = (series: number[]) =>
+      series.map((value, index) => {
+        const x = padding.left + (index / (series.length - 1)) * chartWidth;
+        const y = padding.top + chartHeight - ((value - min) / range) * chartHeight;
+        return { x, y, value };
+      });
+    const points = toPoints(data);
+    const toY = (value: number) => padding.top + chartHeight - ((value - min) / range) * chartHeight;
+    const toX = (index: number) => padding.left + (index / (data.length - 1)) * chartWidth;
+
+    // Gappy series are drawn as straight segments between their nulls
+    const toSegmentsPath = (series: (number | null)[]) => {
+      let d = "";
+      let drawing = false;
+      series.forEach((value, index) => {
+        if (value === null) {
+          drawing = false;
+          return;
+        }
+        d += `${drawing ? " L" : " M"} ${toX(index)} ${toY(value)}`;
+        drawing = true;
+      });
+      return d.trim();
+    };
+    const overlayPaths = (overlays ?? []).map((o) => ({ ...o, path: toSegmentsPath(o.data) }));
+
+    let bandPath: string | null = null;
+    if (band) {
+      const indices = band.upper
+        .map((_, i) => i)
+        .filter((i) => isValue(band.upper[i]) && isValue(band.lower[i]));
+      if (indices.length >= 2) {
+        const upper = indices.map((i) => `${toX(i)} ${toY(band.upper[i] as number)}`);
+        const lower = indices.reverse().map((i) => `${toX(i)} ${toY(band.lower[i] as number)}`);
+        bandPath = `M ${upper.join(" L ")} L ${lower.join(" L ")} Z`;
+      }
+    }
+
+    const references = (referenceLines ?? []).map((value) => ({ value, y: toY(value) }));
 
     // Generate grid lines
     const gridLinesArr = [];
@@ -86,39 +156,42 @@ export function CDSLineChart({
     }
 
     // Create smooth bezier curve
-    let path = "";
-    if (smooth && points.length > 2) {
-      path = `M ${points[0].x} ${points[0].y}`;
+    const toPath = (pts: { x: number; y: number }[]) => {
+      if (!smooth || pts.length <= 2) {
+        // Straight lines
+        return pts.map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`).join(" ");
+      }
 
-      for (let i = 0; i < points.length - 1; i++) {
-        const p0 = points[Math.max(0, i - 1)];
-        const p1 = points[i];
-        const p2 = points[i + 1];
-        const p3 = points[Math.min(points.length - 1, i + 2)];
+      let d = `M ${pts[0].x} ${pts[0].y}`;
+      for (let i = 0; i < pts.length - 1; i++) {
+        const p0 = pts[Math.max(0, i - 1)];
+        const p1 = pts[i];
+        const p2 = pts[i + 1];
+        const p3 = pts[Math.min(pts.length - 1, i + 2)];
 
         const cp1x = p1.x + (p2.x - p0.x) / 6;
         const cp1y = p1.y + (p2.y - p0.y) / 6;
         const cp2x = p2.x - (p3.x - p1.x) / 6;
         const cp2y = p2.y - (p3.y - p1.y) / 6;
 
-        path += ` C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${p2.x} ${p2.y}`;
+        d += ` C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${p2.x} ${p2.y}`;
       }
-    } else {
-      // Straight lines
-      path = points.map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`).join(" ");
-    }
+      return d;
+    };
+    const path = toPath(points);
+    const comparisonPath = overlay ? toPath(toPoints(overlay)) : null;
 
     // Create gradient fill path
     const fillPath = showGradient
       ? `${path} L ${points[points.length - 1].x} ${padding.top + chartHeight} L ${points[0].x} ${padding.top + chartHeight} Z`
       : null;
 
-    return { points, path, fillPath, color, padding, gridLinesArr, isPositive };
-  }, [data, width, height, positive, colors.success, colors.error, showGradient, smooth, showGrid, gridLines]);
+    return { points, path, fillPath, comparisonPath, overlayPaths, bandPath, references, color, padding, gridLinesArr, isPositive };
+  }, [data, comparisonData, overlays, band, domain, referenceLines, width, height, positive, colors.success, colors.error, showGradient, smooth, showGrid, gridLines]);
 
   if (!chartData) return null;
 
-  const { points, path, fillPath, color, padding, gridLinesArr, isPositive } = chartData;
+  const { points, path, fillPath, comparisonPath, overlayPaths, bandPath, references, color, padding, gridLinesArr, isPositive } = chartData;
 
   return (
     <View style={{ width, height }}>
@@ -144,6 +217,25 @@ export function CDSLineChart({
           />
         ))}
 
+        {/* Reference lines */}
+        {references.map((line) => (
+          <Line
+            key={`ref-${line.value}`}
+            x1={padding.left}
+            y1={line.y}
+            x2={width - padding.right}
+            y2={line.y}
+            stroke={colors.muted}
+            strokeWidth={0.75}
+            strokeDasharray={[3, 3]}
+          />
+        ))}
+
+        {/* Indicator band */}
+        {bandPath && band && (
+          <Path d={bandPath} fill={band.color} fillOpacity={0.08} stroke={band.color} strokeOpacity={0.4} strokeWidth={0.75} />
+        )}
+
         {/* Gradient fill */}
         {fillPath && (
           <Path
@@ -153,6 +245,35 @@ export function CDSLineChart({
           />
         )}
 
+        {/* Comparison overlay */}
+        {comparisonPath && (
+          <Path
+            d={comparisonPath}
+            fill="none"
+            stroke={comparisonColor ?? colors.muted}
+            strokeWidth={1.5}
+            strokeDasharray={[5, 4]}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Indicator overlays */}
+        {overlayPaths.map((o, i) =>
+          o.path ? (
+            <Path
+              key={`overlay-${i}`}
+              d={o.path}
+              fill="none"
+              stroke={o.color}
+              strokeWidth={1.25}
+              strokeDasharray={o.dashed ? [4, 3] : undefined}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          ) : null
+        )}
+
         {/* Line */}
         <Path
           d={path}
@@ -10,6 +10,8 @@
  *     onDelete={() => deleteChar()}
  *     onSubmit={() => submit()}
  *   />
+ *
+ * Pass allowDecimal={false} for whole-number entry (e.g. share counts).
  */
 import React from "react";
 import { View, StyleSheet, Platform } from "react-native";
@@ -34,6 +36,8 @@ interface CDSNumpadProps {
   onSubmit?: () => void;
   submitText?: string;
   disabled?: boolean;
+  /** Show the "." key (hide it for whole-number entry) */
+  allowDecimal?: boolean;
 }
 
 const NUMPAD_LAYOUT: NumpadKey[][] = [
@@ -49,6 +53,7 @@ export function CDSNumpad({
   onSubmit,
   submitText = "Done",
   disabled = false,
+  allowDecimal = true,
 }: CDSNumpadProps) {
   const colors = useColors();
 
@@ -133,9 +138,13 @@ export function CDSNumpad({
     <View style={styles.container}>
       {NUMPAD_LAYOUT.map((row, rowIndex) => (
         <View key={rowIndex} style={styles.row}>
-          {row.map((keyValue, keyIndex) => (
-            <NumpadKey key={`${rowIndex}-${keyIndex}`} keyValue={keyValue} index={keyIndex} />
-          ))}
+          {row.map((keyValue, keyIndex) =>
+            keyValue === "." && !allowDecimal ? (
+              <View key={`${rowIndex}-${keyIndex}`} style={[styles.key, styles.actionKey]} />
+            ) : (
+              <NumpadKey key={`${rowIndex}-${keyIndex}`} keyValue={keyValue} index={keyIndex} />
+            )
+          )}
         </View>
       ))}
     </View>
@@ -0,0 +1,413 @@
+/**
+ * Alert Delivery Settings Modal
+ *
+ * Bottom sheet-style modal where signed-in users set where alerts can go
+ * besides push: an email address, confirmed with a code mailed to it, and
+ * a webhook URL (for chat bots), with the webhook's signing secret, test
+ * deliveries per channel and the recent delivery log.
+ *
+ * Usage:
+ *   <DeliverySettingsModal
+ *     visible={showDeliveryModal}
+ *     onClose={() => setShowDeliveryModal(false)}
+ *   />
+ */
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useColors } from "@/hooks/use-colors";
+import { useAlertDelivery, type AlertDelivery } from "@/hooks/use-alert-delivery";
+import { AnimatedPressable } from "@/components/ui/animated-pressable";
+import { CDSChip } from "@/components/ui/cds-chip";
+import { Title3, Body, Footnote, Caption1 } from "@/components/ui/typography";
+import { FontFamily } from "@/constants/typography";
+import { ALERT_CHANNEL_LABELS, type AlertChannel } from "@shared/alertDelivery";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+interface DeliverySettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+/** How many log entries the sheet shows */
+const RECENT_DELIVERIES = 10;
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function DeliverySettingsModal({ visible, onClose }: DeliverySettingsModalProps) {
+  const colors = useColors();
+  const { settings, deliveries, updateSettings, verifyEmail, resendCode, rotateSecret, sendTest } = useAlertDelivery();
+
+  const [email, setEmail] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [code, setCode] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Start from the saved settings each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    setEmail(settings?.email ?? "");
+    setWebhookUrl(settings?.webhookUrl ?? "");
+    setCode("");
+    setMessage(null);
+  }, [visible, settings?.email, settings?.webhookUrl]);
+
+  const emailAvailable = settings?.availableChannels.includes("email") ?? false;
+  const awaitingCode = emailAvailable && !!settings?.email && !settings.emailVerified;
+  const changed = email.trim() !== (settings?.email ?? "") || webhookUrl.trim() !== (settings?.webhookUrl ?? "");
+
+  /** Run an action, showing its outcome under the buttons */
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      setMessage(
+        result.success ? { text: done, error: false } : { text: result.error ?? "Something went wrong.", error: true }
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(
+      () => updateSettings(email.trim() || null, webhookUrl.trim() || null),
+      email.trim() && email.trim() !== (settings?.email ?? "") ? "Saved. Enter the code we emailed you." : "Saved."
+    );
+
+  const handleVerify = () =>
+    run(async () => {
+      const result = await verifyEmail(code.trim());
+      if (result.success) setCode("");
+      return result;
+    }, "Email address confirmed.");
+
+  const handleTest = (channel: AlertChannel) =>
+    run(() => sendTest(channel), `Test ${ALERT_CHANNEL_LABELS[channel].toLowerCase()} sent.`);
+
+  const testChannels = (settings?.availableChannels ?? []).filter(
+    (channel) =>
+      channel === "push" ||
+      (channel === "email" && !!settings?.emailVerified) ||
+      (channel === "webhook" && !!settings?.webhookUrl)
+  );
+
+  const sectionLabelStyle = {
+    fontFamily: FontFamily.semibold,
+    textTransform: "uppercase" as const,
+    letterSpacing: 0.8,
+    marginBottom: 8,
+  };
+
+  const inputBox = [styles.inputRow, { backgroundColor: colors.surface, borderColor: colors.border }];
+  const inputText = [styles.input, { color: colors.foreground, fontFamily: FontFamily.medium }];
+
+  const renderDelivery = (delivery: AlertDelivery) => (
+    <View key={delivery.id} style={[styles.deliveryRow, { borderColor: colors.border }]}>
+      <Body style={{ fontSize: 16 }}>{delivery.status === "sent" ? "✅" : "⚠️"}</Body>
+      <View style={{ flex: 1 }}>
+        <Caption1 style={{ fontFamily: FontFamily.semibold }} numberOfLines={1}>
+          {delivery.title}
+        </Caption1>
+        <Caption1 color="muted" numberOfLines={1}>
+          {ALERT_CHANNEL_LABELS[delivery.channel]} · {delivery.target} ·{" "}
+          {new Date(delivery.createdAt).toLocaleString()}
+          {delivery.attempts > 1 ? ` · ${delivery.attempts} tries` : ""}
+        </Caption1>
+        {delivery.error && (
+          <Caption1 style={{ color: colors.error }} numberOfLines={2}>
+            {delivery.error}
+          </Caption1>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.overlay}
+      >
+        <AnimatedPressable
+          variant="card"
+          style={styles.backdrop}
+          onPress={onClose}
+          haptic={false}
+          accessibilityLabel="Close modal"
+          accessibilityRole="button"
+        />
+        <View
+          style={[styles.sheet, { backgroundColor: colors.background, borderColor: colors.border }]}
+        >
+          {/* Handle */}
+          <View style={styles.handleContainer}>
+            <View style={[styles.handle, { backgroundColor: colors.muted + "40" }]} />
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+            {/* Header */}
+            <View style={styles.sheetHeader}>
+              <Title3 style={{ fontFamily: FontFamily.bold }}>Alert Delivery</Title3>
+              <Caption1 color="muted">
+                Get alerts by email or send them to a webhook, like a Telegram or Discord bot. Pick the
+                channels for each alert when you create it.
+              </Caption1>
+            </View>
+
+            {/* Email */}
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Email
+              </Footnote>
+              <View style={inputBox}>
+                <TextInput
+                  style={inputText}
+                  value={email}
+                  onChangeText={setEmail}
+                  placeholder="you@example.com"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={emailAvailable}
+                  accessibilityLabel="Alert email address"
+                />
+              </View>
+              {!emailAvailable && (
+                <Caption1 color="muted" style={{ marginTop: 6 }}>
+                  Email delivery isn&apos;t set up on this server.
+                </Caption1>
+              )}
+              {awaitingCode && (
+                <View style={styles.codeSection}>
+                  <Caption1 color="muted">
+                    Enter the 6-digit code we sent to {settings?.email}. Alerts go to this address once
+                    it&apos;s confirmed.
+                  </Caption1>
+                  <View style={styles.codeRow}>
+                    <View style={[...inputBox, { flex: 1 }]}>
+                      <TextInput
+                        style={inputText}
+                        value={code}
+                        onChangeText={setCode}
+                        placeholder="123456"
+                        placeholderTextColor={colors.muted}
+                        keyboardType="number-pad"
+                        maxLength={6}
+                        accessibilityLabel="Email confirmation code"
+                      />
+                    </View>
+                    <CDSChip label="Confirm" disabled={busy || code.trim().length < 6} onPress={handleVerify} />
+                  </View>
+                  <CDSChip
+                    label="Send a new code"
+                    disabled={busy}
+                    onPress={() => run(resendCode, "New code sent. Check your inbox.")}
+                  />
+                </View>
+              )}
+            </View>
+
+            {/* Webhook */}
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Webhook URL
+              </Footnote>
+              <View style={inputBox}>
+                <TextInput
+                  style={inputText}
+                  value={webhookUrl}
+                  onChangeText={setWebhookUrl}
+                  placeholder="https://example.com/agrx-alerts"
+                  placeholderTextColor={colors.muted}
+                  keyboardType="url"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel="Alert webhook URL"
+                />
+              </View>
+              {settings?.webhookSecret && (
+                <View style={[styles.secretBox, { backgroundColor: colors.surfaceSecondary }]}>
+                  <View style={{ flex: 1 }}>
+                    <Caption1 color="muted">Signing secret</Caption1>
+                    <Caption1 selectable style={{ fontFamily: FontFamily.mono }}>
+                      {settings.webhookSecret}
+                    </Caption1>
+                  </View>
+                  <CDSChip
+                    label="Rotate"
+                    disabled={busy}
+                    onPress={() => run(rotateSecret, "New secret saved. Update your bot to use it.")}
+                  />
+                </View>
+              )}
+              <Caption1 color="muted" style={{ marginTop: 6 }}>
+                Each POST carries X-AGRX-Signature: sha256= HMAC of &quot;timestamp.body&quot; with this
+                secret, and the timestamp in X-AGRX-Timestamp.
+              </Caption1>
+            </View>
+
+            {/* Save Button */}
+            <AnimatedPressable
+              variant="button"
+              onPress={handleSave}
+              disabled={!changed || busy}
+              style={[
+                styles.saveButton,
+                { backgroundColor: changed && !busy ? colors.primary : colors.muted + "30" },
+              ]}
+            >
+              <Body
+                style={{
+                  color: changed && !busy ? "#FFFFFF" : colors.muted,
+                  fontFamily: FontFamily.semibold,
+                  textAlign: "center",
+                }}
+              >
+                Save
+              </Body>
+            </AnimatedPressable>
+
+            {/* Test Deliveries */}
+            {testChannels.length > 0 && (
+              <View style={styles.inputSection}>
+                <Footnote color="muted" style={sectionLabelStyle}>
+                  Send a Test
+                </Footnote>
+                <View style={styles.chipRow}>
+                  {testChannels.map((channel) => (
+                    <CDSChip
+                      key={channel}
+                      label={ALERT_CHANNEL_LABELS[channel]}
+                      disabled={busy}
+                      onPress={() => handleTest(channel)}
+                    />
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {message && (
+              <Caption1 style={{ color: message.error ? colors.error : colors.success, marginTop: 4 }}>
+                {message.text}
+              </Caption1>
+            )}
+
+            {/* Delivery Log */}
+            <View style={styles.inputSection}>
+              <Footnote color="muted" style={sectionLabelStyle}>
+                Recent Deliveries
+              </Footnote>
+              {deliveries.length === 0 ? (
+                <Caption1 color="muted">Nothing delivered yet.</Caption1>
+              ) : (
+                deliveries.slice(0, RECENT_DELIVERIES).map(renderDelivery)
+              )}
+            </View>
+
+            {/* Bottom padding for safe area */}
+            <View style={{ height: 20 }} />
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  sheet: {
+    maxHeight: "90%",
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderBottomWidth: 0,
+    paddingHorizontal: 20,
+    paddingBottom: Platform.OS === "ios" ? 34 : 20,
+  },
+  handleContainer: {
+    alignItems: "center",
+    paddingTop: 10,
+    paddingBottom: 8,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+  },
+  sheetHeader: {
+    paddingVertical: 12,
+    gap: 4,
+  },
+  inputSection: {
+    paddingVertical: 12,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  codeSection: {
+    gap: 8,
+    marginTop: 8,
+    alignItems: "flex-start",
+  },
+  codeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    alignSelf: "stretch",
+  },
+  secretBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  saveButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    marginTop: 4,
+  },
+  deliveryRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+});
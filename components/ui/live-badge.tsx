@@ -1,35 +1,78 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { View, StyleSheet } from "react-native";
+import Animated, {
+  cancelAnimation,
+  useAnimatedStyle,
+  useSharedValue,
+  withSequence,
+  withTiming,
+} from "react-native-reanimated";
 import { useColors } from "@/hooks/use-colors";
 import { Caption2 } from "@/components/ui/typography";
 import { FontFamily } from "@/constants/typography";
+import type { DataStatus } from "@/hooks/use-stocks";
 
 interface LiveBadgeProps {
   isLive: boolean;
+  /** From the data hooks; overrides isLive so delayed and offline data are labelled */
+  status?: DataStatus;
+  /** Quotes are arriving over the stream; the dot pulses on each tick */
+  isStreaming?: boolean;
   lastUpdated?: number | null;
 }
 
-export function LiveBadge({ isLive, lastUpdated }: LiveBadgeProps) {
+/** Re-render this often so "Ns ago" keeps counting between ticks */
+const TIME_AGO_REFRESH_MS = 5_000;
+
+const STATUS_LABELS: Record<DataStatus, string> = {
+  live: "LIVE",
+  delayed: "DELAYED",
+  demo: "DEMO DATA",
+  offline: "OFFLINE",
+};
+
+export function LiveBadge({ isLive, status, isStreaming = false, lastUpdated }: LiveBadgeProps) {
   const colors = useColors();
+  const current = status ?? (isLive ? "live" : "demo");
+  const tint = current === "live" ? colors.success : current === "offline" ? colors.error : colors.warning;
+  const isPulsing = isStreaming && current === "live";
+  const [, setNow] = useState(Date.now());
+  const pulse = useSharedValue(1);
+
+  useEffect(() => {
+    if (!lastUpdated) return;
+    const timer = setInterval(() => setNow(Date.now()), TIME_AGO_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [lastUpdated]);
+
+  useEffect(() => {
+    if (!isPulsing) {
+      cancelAnimation(pulse);
+      pulse.value = 1;
+      return;
+    }
+    pulse.value = withSequence(withTiming(0.3, { duration: 150 }), withTiming(1, { duration: 600 }));
+  }, [isPulsing, lastUpdated, pulse]);
+
+  const dotStyle = useAnimatedStyle(() => ({ opacity: pulse.value }));
 
   const timeAgo = lastUpdated ? formatTimeAgo(lastUpdated) : null;
 
   return (
-    <View style={styles.container}>
-      <View
-        style={[
-          styles.dot,
-          { backgroundColor: isLive ? colors.success : colors.warning },
-        ]}
-      />
+    <View
+      style={styles.container}
+      accessibilityRole="text"
+      accessibilityLabel={timeAgo ? `${STATUS_LABELS[current]}, updated ${timeAgo}` : STATUS_LABELS[current]}
+    >
+      <Animated.View style={[styles.dot, { backgroundColor: tint }, dotStyle]} />
       <Caption2
         style={{
-          color: isLive ? colors.success : colors.warning,
+          color: tint,
           fontFamily: FontFamily.bold,
           letterSpacing: 0.3,
         }}
       >
-        {isLive ? "LIVE" : "DEMO DATA"}
+        {STATUS_LABELS[current]}
       </Caption2>
       {timeAgo && (
         <Caption2 color="muted" style={{ fontFamily: FontFamily.medium }}>
@@ -28,6 +28,7 @@ import Svg, {
   Circle,
 } from "react-native-svg";
 import { FontFamily } from "@/constants/typography";
+import { formatShares } from "@shared/tradingCosts";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -276,7 +277,7 @@ export function ShareCard({ data, ref }: { data: ShareCardData; ref?: React.Ref<
           {/* Shares info */}
           {shares !== undefined && shares > 0 && (
             <Text style={styles.sharesText}>
-              {shares.toFixed(4)} shares
+              {formatShares(shares)} shares
             </Text>
           )}
 
@@ -0,0 +1,44 @@
+CREATE TABLE `holdings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`shares` decimal(18,6) NOT NULL,
+	`totalCost` decimal(14,4) NOT NULL,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `holdings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `holdings_portfolio_stock_idx` UNIQUE(`portfolioId`,`stockId`)
+);
+--> statement-breakpoint
+CREATE TABLE `portfolios` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`balance` decimal(14,4) NOT NULL,
+	`xp` int NOT NULL DEFAULT 0,
+	`streak` int NOT NULL DEFAULT 0,
+	`version` int NOT NULL DEFAULT 1,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `portfolios_id` PRIMARY KEY(`id`),
+	CONSTRAINT `portfolios_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `trades` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`tradeId` varchar(64) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` enum('buy','sell') NOT NULL,
+	`amount` decimal(14,4) NOT NULL,
+	`shares` decimal(18,6) NOT NULL,
+	`price` decimal(14,4) NOT NULL,
+	`executedAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `trades_id` PRIMARY KEY(`id`),
+	CONSTRAINT `trades_portfolio_trade_idx` UNIQUE(`portfolioId`,`tradeId`)
+);
+--> statement-breakpoint
+CREATE INDEX `trades_portfolio_executed_idx` ON `trades` (`portfolioId`,`executedAt`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `trades` ADD `verified` boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `orders` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`orderId` varchar(64) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`side` enum('buy','sell') NOT NULL,
+	`orderType` enum('limit','stop','stop_limit') NOT NULL,
+	`amount` decimal(14,4) NOT NULL,
+	`limitPrice` decimal(14,4),
+	`stopPrice` decimal(14,4),
+	`timeInForce` enum('gtc','day') NOT NULL DEFAULT 'gtc',
+	`status` enum('open','filled','cancelled','expired','rejected') NOT NULL DEFAULT 'open',
+	`stopTriggeredAt` timestamp,
+	`expiresAt` timestamp,
+	`fillPrice` decimal(14,4),
+	`filledAt` timestamp,
+	`statusReason` varchar(255),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `orders_id` PRIMARY KEY(`id`),
+	CONSTRAINT `orders_user_order_idx` UNIQUE(`userId`,`orderId`)
+);
+--> statement-breakpoint
+CREATE INDEX `orders_status_idx` ON `orders` (`status`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `portfolios` ADD `broker` varchar(32) DEFAULT 'piraeus' NOT NULL;--> statement-breakpoint
+ALTER TABLE `trades` ADD `fees` decimal(14,4) DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `trades` ADD `tax` decimal(14,4) DEFAULT 0 NOT NULL;
\ No newline at end of file
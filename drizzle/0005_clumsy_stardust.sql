@@ -0,0 +1,2 @@
+ALTER TABLE `orders` ADD `shares` decimal(18,6);--> statement-breakpoint
+ALTER TABLE `portfolios` ADD `shareMode` enum('whole','fractional') DEFAULT 'whole' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `orders` MODIFY COLUMN `orderType` enum('market','limit','stop','stop_limit') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `holdings` ADD `lots` json;--> statement-breakpoint
+ALTER TABLE `portfolios` ADD `costBasisMethod` enum('fifo','average') DEFAULT 'fifo' NOT NULL;--> statement-breakpoint
+ALTER TABLE `trades` ADD `costBasis` decimal(14,4);--> statement-breakpoint
+ALTER TABLE `trades` ADD `realizedPnL` decimal(14,4);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `portfolio_history` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`date` varchar(10) NOT NULL,
+	`cash` decimal(14,4) NOT NULL,
+	`holdingsValue` decimal(14,4) NOT NULL,
+	`value` decimal(14,4) NOT NULL,
+	`netFlow` decimal(14,4) NOT NULL DEFAULT 0,
+	`recordedAt` timestamp NOT NULL,
+	CONSTRAINT `portfolio_history_id` PRIMARY KEY(`id`),
+	CONSTRAINT `portfolio_history_user_date_idx` UNIQUE(`userId`,`date`)
+);
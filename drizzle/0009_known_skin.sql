@@ -0,0 +1,19 @@
+CREATE TABLE `dividend_payments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`dividendId` varchar(64) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`ticker` varchar(32) NOT NULL,
+	`shares` decimal(18,6) NOT NULL,
+	`amountPerShare` decimal(14,4) NOT NULL,
+	`grossAmount` decimal(14,4) NOT NULL,
+	`tax` decimal(14,4) NOT NULL,
+	`amount` decimal(14,4) NOT NULL,
+	`exDate` varchar(10) NOT NULL,
+	`payDate` varchar(10) NOT NULL,
+	`creditedAt` timestamp NOT NULL,
+	CONSTRAINT `dividend_payments_id` PRIMARY KEY(`id`),
+	CONSTRAINT `dividend_payments_portfolio_dividend_idx` UNIQUE(`portfolioId`,`dividendId`)
+);
+--> statement-breakpoint
+ALTER TABLE `portfolios` ADD `dividendsSince` timestamp;
\ No newline at end of file
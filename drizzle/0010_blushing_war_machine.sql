@@ -0,0 +1,16 @@
+CREATE TABLE `corporate_action_adjustments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`portfolioId` int NOT NULL,
+	`actionId` varchar(96) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`type` enum('split','reverse_split','rights_issue','capital_return') NOT NULL,
+	`exDate` varchar(10) NOT NULL,
+	`sharesBefore` decimal(18,6) NOT NULL,
+	`sharesAfter` decimal(18,6) NOT NULL,
+	`cashAmount` decimal(14,4) NOT NULL DEFAULT 0,
+	`appliedAt` timestamp NOT NULL,
+	CONSTRAINT `corporate_action_adjustments_id` PRIMARY KEY(`id`),
+	CONSTRAINT `corporate_action_adjustments_portfolio_action_idx` UNIQUE(`portfolioId`,`actionId`)
+);
+--> statement-breakpoint
+ALTER TABLE `portfolios` ADD `corporateActionsSince` timestamp;
\ No newline at end of file
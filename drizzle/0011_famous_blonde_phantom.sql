@@ -0,0 +1,10 @@
+CREATE TABLE `screener_presets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`filter` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `screener_presets_id` PRIMARY KEY(`id`),
+	CONSTRAINT `screener_presets_user_name_idx` UNIQUE(`userId`,`name`)
+);
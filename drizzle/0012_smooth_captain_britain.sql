@@ -0,0 +1,40 @@
+CREATE TABLE `notification_devices` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`deviceId` varchar(64) NOT NULL,
+	`pushToken` varchar(255) NOT NULL,
+	`platform` enum('ios','android','web') NOT NULL,
+	`lastSeen` timestamp NOT NULL DEFAULT (now()),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `notification_devices_id` PRIMARY KEY(`id`),
+	CONSTRAINT `notification_devices_deviceId_unique` UNIQUE(`deviceId`)
+);
+--> statement-breakpoint
+CREATE TABLE `notification_preferences` (
+	`deviceId` varchar(64) NOT NULL,
+	`priceAlerts` boolean NOT NULL DEFAULT true,
+	`dailyChallenge` boolean NOT NULL DEFAULT true,
+	`socialActivity` boolean NOT NULL DEFAULT false,
+	`marketNews` boolean NOT NULL DEFAULT true,
+	`percentThreshold` decimal(6,2) NOT NULL DEFAULT 5,
+	`quietHoursStart` int,
+	`quietHoursEnd` int,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `notification_preferences_deviceId` PRIMARY KEY(`deviceId`)
+);
+--> statement-breakpoint
+CREATE TABLE `price_alerts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`deviceId` varchar(64) NOT NULL,
+	`stockId` varchar(32) NOT NULL,
+	`stockName` varchar(255) NOT NULL,
+	`type` enum('above','below','percent_change') NOT NULL,
+	`threshold` decimal(14,4) NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`lastTriggered` timestamp,
+	`lastPrice` decimal(14,4),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `price_alerts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `price_alerts_device_idx` ON `price_alerts` (`deviceId`);--> statement-breakpoint
+CREATE INDEX `price_alerts_stock_idx` ON `price_alerts` (`stockId`);
\ No newline at end of file
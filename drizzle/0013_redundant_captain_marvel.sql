@@ -0,0 +1,11 @@
+ALTER TABLE `notification_preferences` DROP PRIMARY KEY;--> statement-breakpoint
+ALTER TABLE `notification_preferences` MODIFY COLUMN `deviceId` varchar(64);--> statement-breakpoint
+ALTER TABLE `price_alerts` MODIFY COLUMN `deviceId` varchar(64);--> statement-breakpoint
+ALTER TABLE `notification_devices` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `id` int AUTO_INCREMENT NOT NULL PRIMARY KEY FIRST;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `userId` int;--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_userId_unique` UNIQUE(`userId`);--> statement-breakpoint
+ALTER TABLE `notification_preferences` ADD CONSTRAINT `notification_preferences_deviceId_unique` UNIQUE(`deviceId`);--> statement-breakpoint
+CREATE INDEX `notification_devices_user_idx` ON `notification_devices` (`userId`);--> statement-breakpoint
+CREATE INDEX `price_alerts_user_idx` ON `price_alerts` (`userId`);
\ No newline at end of file
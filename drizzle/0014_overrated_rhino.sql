@@ -0,0 +1,2 @@
+ALTER TABLE `price_alerts` MODIFY COLUMN `type` enum('above','below','percent_change','percent_from_reference','sma_cross_above','sma_cross_below','volume_spike','high_52w','low_52w','gap_up','gap_down') NOT NULL;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `referencePrice` decimal(14,4);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `alert_rules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`rule` json NOT NULL,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`lastTriggered` timestamp,
+	`lastPrices` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `alert_rules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `alert_rules_user_idx` ON `alert_rules` (`userId`);
\ No newline at end of file
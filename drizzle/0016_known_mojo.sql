@@ -0,0 +1,32 @@
+CREATE TABLE `alert_deliveries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`deviceId` varchar(64),
+	`alertId` int,
+	`ruleId` int,
+	`channel` enum('push','email','webhook') NOT NULL,
+	`target` varchar(320) NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`status` enum('sent','failed') NOT NULL,
+	`attempts` int NOT NULL,
+	`error` varchar(255),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `alert_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `alert_destinations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`email` varchar(320),
+	`webhookUrl` varchar(512),
+	`webhookSecret` varchar(64),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `alert_destinations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `alert_destinations_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+ALTER TABLE `alert_rules` ADD `channels` json;--> statement-breakpoint
+ALTER TABLE `price_alerts` ADD `channels` json;--> statement-breakpoint
+CREATE INDEX `alert_deliveries_user_idx` ON `alert_deliveries` (`userId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `alert_deliveries_device_idx` ON `alert_deliveries` (`deviceId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `alert_deliveries_created_idx` ON `alert_deliveries` (`createdAt`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `alert_destinations` ADD `emailVerifiedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `alert_destinations` ADD `emailCodeHash` varchar(64);--> statement-breakpoint
+ALTER TABLE `alert_destinations` ADD `emailCodeSentAt` timestamp;--> statement-breakpoint
+ALTER TABLE `alert_destinations` ADD `emailCodeAttempts` int DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -1 +1,20 @@
-import {} from "./schema";
+import { relations } from "drizzle-orm";
+import { holdings, orders, portfolios, trades, users } from "./schema";
+
+export const portfoliosRelations = relations(portfolios, ({ one, many }) => ({
+  user: one(users, { fields: [portfolios.userId], references: [users.id] }),
+  holdings: many(holdings),
+  trades: many(trades),
+}));
+
+export const holdingsRelations = relations(holdings, ({ one }) => ({
+  portfolio: one(portfolios, { fields: [holdings.portfolioId], references: [portfolios.id] }),
+}));
+
+export const tradesRelations = relations(trades, ({ one }) => ({
+  portfolio: one(portfolios, { fields: [trades.portfolioId], references: [portfolios.id] }),
+}));
+
+export const ordersRelations = relations(orders, ({ one }) => ({
+  user: one(users, { fields: [orders.userId], references: [users.id] }),
+}));
@@ -1,4 +1,20 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  boolean,
+  decimal,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/mysql-core";
+import type { AlertChannel } from "../shared/alertDelivery";
+import type { AlertRuleGroup } from "../shared/alertRules";
+import type { TaxLot } from "../shared/costBasis";
+import type { ScreenFilter } from "../shared/screener";
 
 /**
  * Core user table backing auth flow.
@@ -25,4 +41,409 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
+// ─── Demo Portfolio ─────────────────────────────────────────────────────────
+
+/**
+ * One demo trading account per signed-in user.
+ * `version` is bumped on every accepted write so clients can detect whether
+ * the server changed since their last sync.
+ */
+export const portfolios = mysqlTable("portfolios", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  balance: decimal("balance", { precision: 14, scale: 4, mode: "number" }).notNull(),
+  xp: int("xp").default(0).notNull(),
+  streak: int("streak").default(0).notNull(),
+  /** Commission schedule used for fills (see shared/tradingCosts.ts) */
+  broker: varchar("broker", { length: 32 }).default("piraeus").notNull(),
+  /** Whole-share trading like ATHEX, or fractional "learning mode" */
+  shareMode: mysqlEnum("shareMode", ["whole", "fractional"]).default("whole").notNull(),
+  /** How sells pick the lots they close (see shared/costBasis.ts) */
+  costBasisMethod: mysqlEnum("costBasisMethod", ["fifo", "average"]).default("fifo").notNull(),
+  /** Account opening or last reset — dividends with earlier ex-dates are not owed */
+  dividendsSince: timestamp("dividendsSince"),
+  /** Account opening or last reset — corporate actions with earlier ex-dates don't apply */
+  corporateActionsSince: timestamp("corporateActionsSince"),
+  version: int("version").default(1).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/** Current position in a single stock. Rewritten wholesale on each sync. */
+export const holdings = mysqlTable(
+  "holdings",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    shares: decimal("shares", { precision: 18, scale: 6, mode: "number" }).notNull(),
+    /** Total cost paid for all shares (avgCost = totalCost / shares) */
+    totalCost: decimal("totalCost", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Open tax lots; null for positions saved before lots were tracked */
+    lots: json("lots").$type<TaxLot[]>(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("holdings_portfolio_stock_idx").on(table.portfolioId, table.stockId)],
+);
+
+/** Immutable trade log. `tradeId` is the client-generated ID, unique per portfolio. */
+export const trades = mysqlTable(
+  "trades",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    tradeId: varchar("tradeId", { length: 64 }).notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    type: mysqlEnum("type", ["buy", "sell"]).notNull(),
+    amount: decimal("amount", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    shares: decimal("shares", { precision: 18, scale: 6, mode: "number" }).notNull(),
+    /** Execution price after spread and tick rounding */
+    price: decimal("price", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Commission plus ATHEX clearing fee */
+    fees: decimal("fees", { precision: 14, scale: 4, mode: "number" }).default(0).notNull(),
+    /** Greek transaction tax (sells only) */
+    tax: decimal("tax", { precision: 14, scale: 4, mode: "number" }).default(0).notNull(),
+    /** Sells only: cost of the lots closed, and net proceeds minus that cost */
+    costBasis: decimal("costBasis", { precision: 14, scale: 4, mode: "number" }),
+    realizedPnL: decimal("realizedPnL", { precision: 14, scale: 4, mode: "number" }),
+    executedAt: timestamp("executedAt").notNull(),
+    /** Filled by the server at its own quote (vs. a local fill pushed by sync) */
+    verified: boolean("verified").default(false).notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("trades_portfolio_trade_idx").on(table.portfolioId, table.tradeId),
+    index("trades_portfolio_executed_idx").on(table.portfolioId, table.executedAt),
+  ],
+);
+
+/**
+ * Cash dividends paid into a portfolio (see shared/dividends.ts). Append-only;
+ * `dividendId` is the dividend event ID, so each event is paid at most once.
+ */
+export const dividendPayments = mysqlTable(
+  "dividend_payments",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    dividendId: varchar("dividendId", { length: 64 }).notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    /** Shares entitled at the ex-date */
+    shares: decimal("shares", { precision: 18, scale: 6, mode: "number" }).notNull(),
+    amountPerShare: decimal("amountPerShare", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    grossAmount: decimal("grossAmount", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Greek dividend withholding tax */
+    tax: decimal("tax", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Cash credited: grossAmount − tax */
+    amount: decimal("amount", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Athens calendar dates, YYYY-MM-DD */
+    exDate: varchar("exDate", { length: 10 }).notNull(),
+    payDate: varchar("payDate", { length: 10 }).notNull(),
+    creditedAt: timestamp("creditedAt").notNull(),
+  },
+  (table) => [uniqueIndex("dividend_payments_portfolio_dividend_idx").on(table.portfolioId, table.dividendId)],
+);
+
+/**
+ * Corporate actions applied to a portfolio's holdings (see
+ * shared/corporateActions.ts). Append-only; `actionId` is the corporate action
+ * ID, so each action is applied at most once.
+ */
+export const corporateActionAdjustments = mysqlTable(
+  "corporate_action_adjustments",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    portfolioId: int("portfolioId").notNull(),
+    actionId: varchar("actionId", { length: 96 }).notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    type: mysqlEnum("type", ["split", "reverse_split", "rights_issue", "capital_return"]).notNull(),
+    /** Athens calendar date, YYYY-MM-DD */
+    exDate: varchar("exDate", { length: 10 }).notNull(),
+    sharesBefore: decimal("sharesBefore", { precision: 18, scale: 6, mode: "number" }).notNull(),
+    sharesAfter: decimal("sharesAfter", { precision: 18, scale: 6, mode: "number" }).notNull(),
+    /** Cash credited: cash in lieu, rights proceeds or capital returned */
+    cashAmount: decimal("cashAmount", { precision: 14, scale: 4, mode: "number" }).default(0).notNull(),
+    appliedAt: timestamp("appliedAt").notNull(),
+  },
+  (table) => [
+    uniqueIndex("corporate_action_adjustments_portfolio_action_idx").on(table.portfolioId, table.actionId),
+  ],
+);
+
+/**
+ * Resting limit / stop / stop-limit orders, and market orders queued outside
+ * ATHEX hours. Matched server-side against the quote polling in
+ * priceAlertService; a fill is recorded as a normal trade whose tradeId
+ * equals the orderId.
+ */
+export const orders = mysqlTable(
+  "orders",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** Client-generated ID, unique per user */
+    orderId: varchar("orderId", { length: 64 }).notNull(),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    ticker: varchar("ticker", { length: 32 }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    side: mysqlEnum("side", ["buy", "sell"]).notNull(),
+    /** "market" = a trade requested while ATHEX was closed, queued for the next open */
+    orderType: mysqlEnum("orderType", ["market", "limit", "stop", "stop_limit"]).notNull(),
+    /**
+     * Euro amount to buy or sell once filled. For share-count orders this is
+     * the estimated value at the order's own price.
+     */
+    amount: decimal("amount", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Whole-share orders: exact share count to trade (null = size by amount) */
+    shares: decimal("shares", { precision: 18, scale: 6, mode: "number" }),
+    limitPrice: decimal("limitPrice", { precision: 14, scale: 4, mode: "number" }),
+    stopPrice: decimal("stopPrice", { precision: 14, scale: 4, mode: "number" }),
+    timeInForce: mysqlEnum("timeInForce", ["gtc", "day"]).default("gtc").notNull(),
+    status: mysqlEnum("status", ["open", "filled", "cancelled", "expired", "rejected"])
+      .default("open")
+      .notNull(),
+    /** When a stop-limit's stop price was hit and it became a resting limit */
+    stopTriggeredAt: timestamp("stopTriggeredAt"),
+    /** Day orders only — end of the trading session they were placed in */
+    expiresAt: timestamp("expiresAt"),
+    fillPrice: decimal("fillPrice", { precision: 14, scale: 4, mode: "number" }),
+    filledAt: timestamp("filledAt"),
+    /** Why the order was rejected or expired, shown to the user */
+    statusReason: varchar("statusReason", { length: 255 }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("orders_user_order_idx").on(table.userId, table.orderId),
+    index("orders_status_idx").on(table.status),
+  ],
+);
+
+/**
+ * One row per user per Athens calendar day: the account marked at the close,
+ * plus any external cash flow that day (the opening deposit, or the jump in
+ * value when the demo account is reset). Drives portfolio.getHistory.
+ */
+export const portfolioHistory = mysqlTable(
+  "portfolio_history",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    /** Athens calendar date, YYYY-MM-DD */
+    date: varchar("date", { length: 10 }).notNull(),
+    cash: decimal("cash", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    holdingsValue: decimal("holdingsValue", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** cash + holdingsValue */
+    value: decimal("value", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** Net external cash flow that day (deposits positive) */
+    netFlow: decimal("netFlow", { precision: 14, scale: 4, mode: "number" }).default(0).notNull(),
+    /** When `value` was last marked */
+    recordedAt: timestamp("recordedAt").notNull(),
+  },
+  (table) => [uniqueIndex("portfolio_history_user_date_idx").on(table.userId, table.date)],
+);
+
+/**
+ * Named stock screener filters saved by a user (see shared/screener.ts).
+ * Saving under an existing name replaces that preset.
+ */
+export const screenerPresets = mysqlTable(
+  "screener_presets",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 64 }).notNull(),
+    filter: json("filter").$type<ScreenFilter>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [uniqueIndex("screener_presets_user_name_idx").on(table.userId, table.name)],
+);
+
+/**
+ * Devices registered for push notifications, keyed by the client-generated
+ * device ID. Re-registering updates the push token and platform. A device
+ * linked to a signed-in user receives that user's alerts; one without a
+ * user is anonymous (demo) and only receives its own.
+ */
+export const notificationDevices = mysqlTable(
+  "notification_devices",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    deviceId: varchar("deviceId", { length: 64 }).notNull().unique(),
+    userId: int("userId"),
+    pushToken: varchar("pushToken", { length: 255 }).notNull(),
+    platform: mysqlEnum("platform", ["ios", "android", "web"]).notNull(),
+    lastSeen: timestamp("lastSeen").defaultNow().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("notification_devices_user_idx").on(table.userId)],
+);
+
+/**
+ * Price alerts, checked by priceAlertService. An alert belongs to a user
+ * (userId set, deviceId null) or to an anonymous device (deviceId set,
+ * userId null). `lastPrice` is the price seen at the previous check, for
+ * percent_change alerts. `channels` is where the alert is delivered; null
+ * means push only (alerts from before there was a choice).
+ */
+export const priceAlerts = mysqlTable(
+  "price_alerts",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId"),
+    deviceId: varchar("deviceId", { length: 64 }),
+    stockId: varchar("stockId", { length: 32 }).notNull(),
+    stockName: varchar("stockName", { length: 255 }).notNull(),
+    type: mysqlEnum("type", [
+      "above",
+      "below",
+      "percent_change",
+      "percent_from_reference",
+      "sma_cross_above",
+      "sma_cross_below",
+      "volume_spike",
+      "high_52w",
+      "low_52w",
+      "gap_up",
+      "gap_down",
+    ]).notNull(),
+    /** What the threshold means depends on the type (see priceAlertService) */
+    threshold: decimal("threshold", { precision: 14, scale: 4, mode: "number" }).notNull(),
+    /** percent_from_reference only: the price the move is measured from */
+    referencePrice: decimal("referencePrice", { precision: 14, scale: 4, mode: "number" }),
+    enabled: boolean("enabled").default(true).notNull(),
+    lastTriggered: timestamp("lastTriggered"),
+    lastPrice: decimal("lastPrice", { precision: 14, scale: 4, mode: "number" }),
+    channels: json("channels").$type<AlertChannel[]>(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("price_alerts_user_idx").on(table.userId),
+    index("price_alerts_device_idx").on(table.deviceId),
+    index("price_alerts_stock_idx").on(table.stockId),
+  ],
+);
+
+/**
+ * Compound alert rules (see shared/alertRules.ts), checked by
+ * priceAlertService alongside price alerts. Rules belong to signed-in users,
+ * whose synced portfolio the portfolio conditions watch. `lastPrices` holds
+ * the prices seen at the previous check, by stock, for moving-average crosses.
+ * `channels` works as on price alerts.
+ */
+export const alertRules = mysqlTable(
+  "alert_rules",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId").notNull(),
+    name: varchar("name", { length: 64 }).notNull(),
+    rule: json("rule").$type<AlertRuleGroup>().notNull(),
+    enabled: boolean("enabled").default(true).notNull(),
+    lastTriggered: timestamp("lastTriggered"),
+    lastPrices: json("lastPrices").$type<Record<string, number>>(),
+    channels: json("channels").$type<AlertChannel[]>(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [index("alert_rules_user_idx").on(table.userId)],
+);
+
+/**
+ * Where a signed-in user's email and webhook alerts go. The webhook secret
+ * is generated when a webhook is first set, and signs every delivery. Email
+ * alerts only go out once the user has entered the code mailed to the
+ * address; `emailCodeHash` is the SHA-256 of the code still pending.
+ */
+export const alertDestinations = mysqlTable("alert_destinations", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  email: varchar("email", { length: 320 }),
+  emailVerifiedAt: timestamp("emailVerifiedAt"),
+  emailCodeHash: varchar("emailCodeHash", { length: 64 }),
+  emailCodeSentAt: timestamp("emailCodeSentAt"),
+  emailCodeAttempts: int("emailCodeAttempts").default(0).notNull(),
+  webhookUrl: varchar("webhookUrl", { length: 512 }),
+  webhookSecret: varchar("webhookSecret", { length: 64 }),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+/**
+ * Delivery log: one row per alert notification per target, after retries.
+ * `target` leaves out secrets (see alertDelivery.describeTarget). Pruned by
+ * priceAlertService after a few weeks.
+ */
+export const alertDeliveries = mysqlTable(
+  "alert_deliveries",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId"),
+    deviceId: varchar("deviceId", { length: 64 }),
+    alertId: int("alertId"),
+    ruleId: int("ruleId"),
+    channel: mysqlEnum("channel", ["push", "email", "webhook"]).notNull(),
+    target: varchar("target", { length: 320 }).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    status: mysqlEnum("status", ["sent", "failed"]).notNull(),
+    attempts: int("attempts").notNull(),
+    error: varchar("error", { length: 255 }),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+  },
+  (table) => [
+    index("alert_deliveries_user_idx").on(table.userId, table.createdAt),
+    index("alert_deliveries_device_idx").on(table.deviceId, table.createdAt),
+    index("alert_deliveries_created_idx").on(table.createdAt),
+  ],
+);
+
+/**
+ * Notification preferences per user, or per anonymous device (exactly one
+ * of userId/deviceId is set). An owner without a row uses the defaults.
+ */
+export const notificationPreferences = mysqlTable("notification_preferences", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").unique(),
+  deviceId: varchar("deviceId", { length: 64 }).unique(),
+  priceAlerts: boolean("priceAlerts").default(true).notNull(),
+  dailyChallenge: boolean("dailyChallenge").default(true).notNull(),
+  socialActivity: boolean("socialActivity").default(false).notNull(),
+  marketNews: boolean("marketNews").default(true).notNull(),
+  percentThreshold: decimal("percentThreshold", { precision: 6, scale: 2, mode: "number" }).default(5).notNull(),
+  /** Hour 0-23; no notifications between start and end */
+  quietHoursStart: int("quietHoursStart"),
+  quietHoursEnd: int("quietHoursEnd"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Portfolio = typeof portfolios.$inferSelect;
+export type InsertPortfolio = typeof portfolios.$inferInsert;
+export type Holding = typeof holdings.$inferSelect;
+export type InsertHolding = typeof holdings.$inferInsert;
+export type Trade = typeof trades.$inferSelect;
+export type InsertTrade = typeof trades.$inferInsert;
+export type DividendPayment = typeof dividendPayments.$inferSelect;
+export type InsertDividendPayment = typeof dividendPayments.$inferInsert;
+export type CorporateActionAdjustment = typeof corporateActionAdjustments.$inferSelect;
+export type InsertCorporateActionAdjustment = typeof corporateActionAdjustments.$inferInsert;
+export type Order = typeof orders.$inferSelect;
+export type InsertOrder = typeof orders.$inferInsert;
+export type PortfolioHistoryRow = typeof portfolioHistory.$inferSelect;
+export type InsertPortfolioHistoryRow = typeof portfolioHistory.$inferInsert;
+export type ScreenerPreset = typeof screenerPresets.$inferSelect;
+export type InsertScreenerPreset = typeof screenerPresets.$inferInsert;
+export type NotificationDevice = typeof notificationDevices.$inferSelect;
+export type InsertNotificationDevice = typeof notificationDevices.$inferInsert;
+export type PriceAlertRow = typeof priceAlerts.$inferSelect;
+export type InsertPriceAlertRow = typeof priceAlerts.$inferInsert;
+export type AlertRuleRow = typeof alertRules.$inferSelect;
+export type InsertAlertRuleRow = typeof alertRules.$inferInsert;
+export type AlertDestinationRow = typeof alertDestinations.$inferSelect;
+export type InsertAlertDestinationRow = typeof alertDestinations.$inferInsert;
+export type AlertDeliveryRow = typeof alertDeliveries.$inferSelect;
+export type InsertAlertDeliveryRow = typeof alertDeliveries.$inferInsert;
+export type NotificationPreferencesRow = typeof notificationPreferences.$inferSelect;
+export type InsertNotificationPreferencesRow = typeof notificationPreferences.$inferInsert;
@@ -0,0 +1,144 @@
+/**
+ * AGRX Alert Delivery Hooks
+ *
+ * Client-side hook for where alerts are delivered: the signed-in user's
+ * email address (confirmed with a mailed code) and webhook (with its
+ * signing secret), test deliveries and the delivery log. Anonymous users
+ * only get push on their device.
+ */
+import { useCallback } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_ALERT_CHANNELS, type AlertChannel } from "@shared/alertDelivery";
+import type { AlertDelivery, DeliverySettings } from "@/server/priceAlertService";
+
+export type { AlertChannel, AlertDelivery, DeliverySettings };
+
+export interface DeliveryActionResult {
+  success: boolean;
+  error?: string;
+  settings?: DeliverySettings;
+}
+
+const CONNECTION_ERROR = "Couldn't reach the server. Check your connection and try again.";
+
+/**
+ * The signed-in user's delivery settings and recent deliveries
+ */
+export function useAlertDelivery() {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const settingsQuery = trpc.notifications.account.getDeliverySettings.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 60_000,
+  });
+  const deliveriesQuery = trpc.notifications.account.getDeliveries.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 30_000,
+  });
+  const updateMutation = trpc.notifications.account.updateDeliverySettings.useMutation();
+  const verifyMutation = trpc.notifications.account.verifyEmail.useMutation();
+  const resendMutation = trpc.notifications.account.resendEmailCode.useMutation();
+  const rotateMutation = trpc.notifications.account.rotateWebhookSecret.useMutation();
+  const testMutation = trpc.notifications.account.sendTestDelivery.useMutation();
+
+  const settings = isAuthenticated && settingsQuery.data?.success ? settingsQuery.data.data : null;
+  const deliveries = isAuthenticated && deliveriesQuery.data?.success ? deliveriesQuery.data.data : [];
+
+  /** Channels the user can pick for an alert: push, plus whatever is set up */
+  const channelOptions: AlertChannel[] = settings
+    ? settings.availableChannels.filter(
+        (channel) =>
+          channel === "push" ||
+          (channel === "email" && settings.emailVerified) ||
+          (channel === "webhook" && !!settings.webhookUrl)
+      )
+    : [...DEFAULT_ALERT_CHANNELS];
+
+  const updateSettings = useCallback(
+    async (email: string | null, webhookUrl: string | null): Promise<DeliveryActionResult> => {
+      if (!isAuthenticated) {
+        return { success: false, error: "Sign in to get alerts by email or webhook" };
+      }
+      try {
+        const response = await updateMutation.mutateAsync({ email, webhookUrl });
+        if (!response.success) return { success: false, error: response.error };
+        await utils.notifications.account.getDeliverySettings.invalidate();
+        return { success: true, settings: response.data };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [isAuthenticated, updateMutation.mutateAsync, utils]
+  );
+
+  /** Confirm the email address with the code mailed to it */
+  const verifyEmail = useCallback(
+    async (code: string): Promise<DeliveryActionResult> => {
+      try {
+        const response = await verifyMutation.mutateAsync({ code });
+        if (!response.success) return { success: false, error: response.error };
+        await utils.notifications.account.getDeliverySettings.invalidate();
+        return { success: true, settings: response.data };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [verifyMutation.mutateAsync, utils]
+  );
+
+  const resendCode = useCallback(async (): Promise<DeliveryActionResult> => {
+    try {
+      const response = await resendMutation.mutateAsync();
+      await utils.notifications.account.getDeliveries.invalidate();
+      if (!response.success) return { success: false, error: response.error };
+      return { success: true, settings: response.data };
+    } catch {
+      return { success: false, error: CONNECTION_ERROR };
+    }
+  }, [resendMutation.mutateAsync, utils]);
+
+  const rotateSecret = useCallback(async (): Promise<DeliveryActionResult> => {
+    try {
+      const response = await rotateMutation.mutateAsync();
+      if (!response.success) return { success: false, error: response.error };
+      await utils.notifications.account.getDeliverySettings.invalidate();
+      return { success: true, settings: response.data };
+    } catch {
+      return { success: false, error: CONNECTION_ERROR };
+    }
+  }, [rotateMutation.mutateAsync, utils]);
+
+  /** Send a test alert on one channel; fails if nothing arrived */
+  const sendTest = useCallback(
+    async (channel: AlertChannel): Promise<DeliveryActionResult> => {
+      try {
+        const response = await testMutation.mutateAsync({ channel });
+        await utils.notifications.account.getDeliveries.invalidate();
+        if (!response.success) return { success: false, error: response.error };
+        const failed = response.data.find((result) => result.status === "failed");
+        if (response.data.length === 0) return { success: false, error: "Nowhere to send it yet." };
+        if (failed) return { success: false, error: failed.error ?? "Delivery failed" };
+        return { success: true };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [testMutation.mutateAsync, utils]
+  );
+
+  return {
+    settings,
+    deliveries,
+    channelOptions,
+    isLoading: isAuthenticated && settingsQuery.isLoading,
+    canConfigure: isAuthenticated,
+    updateSettings,
+    verifyEmail,
+    resendCode,
+    rotateSecret,
+    sendTest,
+    refreshDeliveries: () => deliveriesQuery.refetch(),
+  };
+}
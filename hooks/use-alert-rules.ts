@@ -0,0 +1,110 @@
+/**
+ * AGRX Alert Rule Hooks
+ *
+ * Client-side hook for compound alert rules: conditions combined with
+ * AND/OR, including triggers on the demo portfolio. Rules belong to the
+ * signed-in user and are checked on the server with their price alerts;
+ * anonymous users have none.
+ */
+import { useCallback } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import type { AlertChannel } from "@shared/alertDelivery";
+import type { AlertRuleGroup } from "@shared/alertRules";
+import type { AlertRule } from "@/server/priceAlertService";
+
+export type { AlertRule, AlertRuleGroup };
+
+export interface RuleActionResult {
+  success: boolean;
+  error?: string;
+  rule?: AlertRule;
+}
+
+const CONNECTION_ERROR = "Couldn't reach the server. Check your connection and try again.";
+
+/**
+ * The signed-in user's alert rules, with add/remove/toggle and where each
+ * is delivered
+ */
+export function useAlertRules() {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const query = trpc.notifications.account.getRules.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 60_000,
+  });
+  const addMutation = trpc.notifications.account.addRule.useMutation();
+  const removeMutation = trpc.notifications.account.removeRule.useMutation();
+  const toggleMutation = trpc.notifications.account.toggleRule.useMutation();
+  const channelsMutation = trpc.notifications.account.setRuleChannels.useMutation();
+
+  const rules = isAuthenticated && query.data?.success ? query.data.data : [];
+
+  const addRule = useCallback(
+    async (name: string, rule: AlertRuleGroup, channels?: AlertChannel[]): Promise<RuleActionResult> => {
+      if (!isAuthenticated) {
+        return { success: false, error: "Sign in to set up alert rules" };
+      }
+      try {
+        const response = await addMutation.mutateAsync({ name, rule, channels });
+        if (!response.success) return { success: false, error: response.error };
+        await utils.notifications.account.getRules.invalidate();
+        return { success: true, rule: response.data };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [isAuthenticated, addMutation.mutateAsync, utils]
+  );
+
+  const removeRule = useCallback(
+    async (ruleId: string): Promise<boolean> => {
+      try {
+        const response = await removeMutation.mutateAsync({ ruleId });
+        await utils.notifications.account.getRules.invalidate();
+        return response.success;
+      } catch {
+        return false;
+      }
+    },
+    [removeMutation.mutateAsync, utils]
+  );
+
+  const toggleRule = useCallback(
+    async (ruleId: string): Promise<boolean> => {
+      try {
+        const response = await toggleMutation.mutateAsync({ ruleId });
+        await utils.notifications.account.getRules.invalidate();
+        return response.success;
+      } catch {
+        return false;
+      }
+    },
+    [toggleMutation.mutateAsync, utils]
+  );
+
+  const setRuleChannels = useCallback(
+    async (ruleId: string, channels: AlertChannel[]): Promise<boolean> => {
+      try {
+        const response = await channelsMutation.mutateAsync({ ruleId, channels });
+        await utils.notifications.account.getRules.invalidate();
+        return response.success;
+      } catch {
+        return false;
+      }
+    },
+    [channelsMutation.mutateAsync, utils]
+  );
+
+  return {
+    rules,
+    isLoading: isAuthenticated && query.isLoading,
+    canAddRules: isAuthenticated,
+    addRule,
+    removeRule,
+    toggleRule,
+    setRuleChannels,
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * AGRX Benchmark Hook
+ *
+ * Compares the signed-in user's portfolio history against a benchmark index
+ * over the same range (rebased lines, alpha, beta and tracking difference).
+ */
+import { useMemo } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useIndexChart } from "@/hooks/use-stocks";
+import { usePortfolioHistory, type HistoryRange } from "@/hooks/use-portfolio-history";
+import {
+  compareToBenchmark,
+  INDEX_IDS,
+  INDEX_NAMES,
+  type BenchmarkComparison,
+  type IndexId,
+} from "@shared/benchmark";
+
+export type { BenchmarkComparison, IndexId };
+
+/** Selectable benchmarks, in display order */
+export const BENCHMARKS = INDEX_IDS.map((id) => ({ id, name: INDEX_NAMES[id] }));
+
+/**
+ * Hook to compare portfolio performance with a benchmark index.
+ * Returns a null comparison until both series have loaded.
+ */
+export function useBenchmarkComparison(range: HistoryRange, indexId: IndexId) {
+  const { isAuthenticated } = useAuth();
+  const { history, isLoading: historyLoading } = usePortfolioHistory(range);
+  const { chart, isLoading: chartLoading } = useIndexChart(indexId, range, isAuthenticated);
+
+  const comparison: BenchmarkComparison | null = useMemo(
+    () => (history && chart ? compareToBenchmark(history.points, chart.data) : null),
+    [history, chart]
+  );
+
+  return {
+    comparison,
+    benchmarkName: INDEX_NAMES[indexId],
+    isLoading: historyLoading || chartLoading,
+  };
+}
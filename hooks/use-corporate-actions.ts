@@ -0,0 +1,71 @@
+/**
+ * AGRX Corporate Actions Hook
+ *
+ * Client-side hook for a stock's splits, reverse splits, rights issues and
+ * capital returns, used by the asset screen to explain chart and holding
+ * adjustments around an ex-date.
+ */
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import { describeCorporateAction, type CorporateAction } from "@shared/corporateActions";
+import { formatDividendDate } from "@/hooks/use-dividends";
+
+export type { CorporateAction };
+
+/** Show a notice this long before and after an ex-date */
+const NOTICE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface CorporateActionNotice {
+  action: CorporateAction;
+  /** Ex-date still ahead */
+  isUpcoming: boolean;
+  title: string;
+  message: string;
+}
+
+/**
+ * The notice for the action nearest to `now` within the window, or null.
+ */
+export function getCorporateActionNotice(
+  actions: CorporateAction[],
+  now: number,
+): CorporateActionNotice | null {
+  const nearest = actions
+    .filter((a) => Math.abs(a.exTimestamp - now) <= NOTICE_WINDOW_MS)
+    .sort((a, b) => Math.abs(a.exTimestamp - now) - Math.abs(b.exTimestamp - now))[0];
+  if (!nearest) return null;
+
+  const isUpcoming = nearest.exTimestamp > now;
+  const exDate = formatDividendDate(nearest.exDate);
+  return {
+    action: nearest,
+    isUpcoming,
+    title: describeCorporateAction(nearest),
+    message: isUpcoming
+      ? `Goes ex on ${exDate}. Holdings are adjusted automatically and resting orders are cancelled.`
+      : `Went ex on ${exDate}. Earlier prices are adjusted and holdings were updated automatically.`,
+  };
+}
+
+/**
+ * Hook to fetch a stock's corporate actions and the notice to show for them.
+ * The fixture only changes on deploy, so it is cached for an hour.
+ */
+export function useCorporateActions(stockId: string) {
+  const query = trpc.corporateActions.getActions.useQuery(
+    { stockIds: [stockId] },
+    {
+      enabled: !!stockId,
+      staleTime: 60 * 60 * 1000,
+      retry: 1,
+    }
+  );
+
+  const actions: CorporateAction[] = useMemo(
+    () => (query.data?.success ? query.data.data : []),
+    [query.data]
+  );
+  const notice = useMemo(() => getCorporateActionNotice(actions, Date.now()), [actions]);
+
+  return { actions, notice, isLoading: query.isLoading };
+}
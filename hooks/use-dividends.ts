@@ -0,0 +1,49 @@
+/**
+ * AGRX Dividends Hook
+ *
+ * Client-side hook for the ATHEX dividend calendar, limited to the stocks
+ * the user holds. Received dividends live on the demo account itself
+ * (useDemo().state.dividends).
+ */
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import type { DividendEvent } from "@shared/dividends";
+
+export type { DividendEvent };
+
+/**
+ * Hook to fetch unpaid dividends for a set of stocks, soonest first.
+ * The calendar only changes when an issuer declares, so it is cached for
+ * an hour.
+ */
+export function useUpcomingDividends(stockIds: string[]) {
+  const query = trpc.dividends.getUpcoming.useQuery(
+    { stockIds },
+    {
+      enabled: stockIds.length > 0,
+      staleTime: 60 * 60 * 1000,
+      retry: 1,
+    }
+  );
+
+  const upcoming: DividendEvent[] = useMemo(
+    () => (query.data?.success ? query.data.data : []),
+    [query.data]
+  );
+
+  return {
+    upcoming,
+    isLoading: query.isLoading && stockIds.length > 0,
+  };
+}
+
+/** Format an Athens calendar date (YYYY-MM-DD) as "Mar 15, 2026" */
+export function formatDividendDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
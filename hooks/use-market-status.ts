@@ -0,0 +1,63 @@
+/**
+ * AGRX Market Status Hook
+ *
+ * Client-side hook for the server's ATHEX calendar (sessions, auctions and
+ * exchange holidays), so every screen agrees on whether the market is open.
+ */
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import type { MarketPhase, MarketStatus } from "@/server/marketCalendar";
+
+export type { MarketPhase, MarketStatus };
+
+/** Header label for each session phase */
+const PHASE_LABELS: Record<MarketPhase, string> = {
+  pre_open: "Pre-open Auction",
+  open: "ATHEX Open",
+  closing_auction: "Closing Auction",
+  closed: "ATHEX Closed",
+};
+
+/** "ATHEX Open", "Closing Auction", "Closed · Clean Monday" */
+export function formatMarketPhase(status: MarketStatus): string {
+  if (status.phase === "closed" && status.holiday) {
+    return `Closed · ${status.holiday}`;
+  }
+  return PHASE_LABELS[status.phase];
+}
+
+/** "Opens Mon 10:30" — next continuous session start in Athens time */
+export function formatNextOpen(status: MarketStatus): string {
+  const formatted = new Date(status.nextOpen).toLocaleString("en-GB", {
+    timeZone: "Europe/Athens",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `Opens ${formatted.replace(",", "")}`;
+}
+
+/**
+ * Hook to fetch the current ATHEX status.
+ * Refetches every minute so phase changes show up without a reload.
+ */
+export function useMarketStatus() {
+  const query = trpc.market.status.useQuery(undefined, {
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+    refetchOnWindowFocus: true,
+    retry: 1,
+  });
+
+  const status = useMemo(
+    () => (query.data?.success ? query.data.data : null),
+    [query.data]
+  );
+
+  return {
+    status,
+    /** Continuous trading is running; false while unknown */
+    isOpen: status?.isOpen ?? false,
+    isLoading: query.isLoading,
+  };
+}
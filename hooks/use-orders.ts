@@ -0,0 +1,116 @@
+/**
+ * AGRX Order Hooks
+ *
+ * Client-side hooks for resting limit / stop / stop-limit orders. Orders are
+ * matched on the server, so they are only available to signed-in users; when
+ * the server reports a fill we pull the portfolio so the new trade shows up.
+ */
+import { useCallback, useEffect, useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import { createTradeId, useDemo } from "@/lib/demo-context";
+import { useAuth } from "@/hooks/use-auth";
+import type { OrderSide, OrderType, PendingOrder, TimeInForce } from "@/server/orderService";
+
+export type { OrderType, PendingOrder, TimeInForce };
+
+export interface PlaceOrderInput {
+  stockId: string;
+  side: OrderSide;
+  /** Market orders are only ever queued by trades.execute while ATHEX is closed */
+  orderType: Exclude<OrderType, "market">;
+  /** Euro amount to trade (ignored when `shares` is set) */
+  amount?: number;
+  /** Exact share count — how whole-share accounts size orders */
+  shares?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+}
+
+export interface OrderActionResult {
+  success: boolean;
+  error?: string;
+  order?: PendingOrder;
+}
+
+const CONNECTION_ERROR = "Couldn't reach the trading server. Check your connection and try again.";
+
+/**
+ * Hook for the signed-in user's orders.
+ * Polls every minute — the server matches orders every few minutes anyway.
+ */
+export function useOrders() {
+  const { isAuthenticated } = useAuth();
+  const { state, syncNow } = useDemo();
+  const utils = trpc.useUtils();
+
+  const query = trpc.orders.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+    refetchOnWindowFocus: true,
+    retry: 1,
+  });
+  const placeMutation = trpc.orders.place.useMutation();
+  const cancelMutation = trpc.orders.cancel.useMutation();
+
+  const orders = useMemo(
+    () => (query.data?.success ? query.data.data : []),
+    [query.data]
+  );
+  const openOrders = useMemo(() => orders.filter((o) => o.status === "open"), [orders]);
+
+  // A fill we haven't seen locally yet means the server portfolio moved on
+  const hasUnsyncedFill = useMemo(() => {
+    const known = new Set(state.trades.map((t) => t.id));
+    return orders.some((o) => o.status === "filled" && !known.has(o.id));
+  }, [orders, state.trades]);
+
+  useEffect(() => {
+    if (hasUnsyncedFill) syncNow();
+  }, [hasUnsyncedFill, syncNow]);
+
+  const placeOrder = useCallback(
+    async (input: PlaceOrderInput): Promise<OrderActionResult> => {
+      if (!isAuthenticated) {
+        return { success: false, error: "Sign in to place limit and stop orders" };
+      }
+      try {
+        const response = await placeMutation.mutateAsync({ id: createTradeId(), ...input });
+        if (!response.success) return { success: false, error: response.error };
+        await utils.orders.list.invalidate();
+        return { success: true, order: response.data.order };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [isAuthenticated, placeMutation.mutateAsync, utils]
+  );
+
+  const cancelOrder = useCallback(
+    async (orderId: string): Promise<OrderActionResult> => {
+      try {
+        const response = await cancelMutation.mutateAsync({ id: orderId });
+        await utils.orders.list.invalidate();
+        if (!response.success) return { success: false, error: response.error };
+        return { success: true, order: response.data };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [cancelMutation.mutateAsync, utils]
+  );
+
+  /** Re-fetch after something else (e.g. a queued off-hours trade) adds an order */
+  const refresh = useCallback(() => utils.orders.list.invalidate(), [utils]);
+
+  return {
+    orders,
+    openOrders,
+    isLoading: query.isLoading,
+    isAvailable: isAuthenticated,
+    placeOrder,
+    cancelOrder,
+    refresh,
+  };
+}
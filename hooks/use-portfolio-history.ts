@@ -0,0 +1,50 @@
+/**
+ * AGRX Portfolio History Hook
+ *
+ * Client-side hook for the signed-in user's recorded account value history
+ * and time/money-weighted returns. Signed-out demo accounts have no server
+ * history, so the hook is disabled for them.
+ */
+import { useMemo } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import type { HistoryRange, PortfolioHistory } from "@/server/performanceService";
+
+export type { HistoryRange, PortfolioHistory };
+
+export const HISTORY_RANGES: HistoryRange[] = ["1D", "1W", "1M", "3M", "1Y", "ALL"];
+
+/**
+ * Hook to fetch portfolio history for a range.
+ * Intraday (1D) refreshes every 5 minutes; longer ranges only change after
+ * the daily close.
+ */
+export function usePortfolioHistory(range: HistoryRange) {
+  const { isAuthenticated } = useAuth();
+  const query = trpc.portfolio.getHistory.useQuery(
+    { range },
+    {
+      enabled: isAuthenticated,
+      staleTime: range === "1D" ? 60 * 1000 : 10 * 60 * 1000,
+      refetchInterval: range === "1D" ? 5 * 60 * 1000 : false,
+      retry: 1,
+    }
+  );
+
+  const history = useMemo(
+    () => (query.data?.success ? query.data.data : null),
+    [query.data]
+  );
+
+  // Chart series — empty until there are at least two points to draw
+  const series = useMemo(
+    () => (history && history.points.length >= 2 ? history.points.map((p) => p.value) : []),
+    [history]
+  );
+
+  return {
+    history,
+    series,
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * AGRX Screener Hooks
+ *
+ * Client-side hooks for the stock screener. Screens run on the server over
+ * the whole ATHEX universe (stocks.screen); presets are the built-in ones
+ * plus, for signed-in users, their saved screens.
+ */
+import { useCallback } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import { getDataStatus } from "@/hooks/use-stocks";
+import { BUILT_IN_SCREEN_PRESETS, type ScreenFilter, type ScreenPreset } from "@shared/screener";
+
+export type { ScreenFilter, ScreenPreset };
+
+export interface PresetActionResult {
+  success: boolean;
+  error?: string;
+  preset?: ScreenPreset;
+}
+
+const CONNECTION_ERROR = "Couldn't reach the server. Check your connection and try again.";
+
+/**
+ * Run a screen. Pass null while no screen is active.
+ */
+export function useScreen(filter: ScreenFilter | null) {
+  const query = trpc.stocks.screen.useQuery(
+    { filter: filter ?? { match: "all", rules: [] } },
+    {
+      enabled: filter !== null,
+      refetchInterval: 60_000,
+      staleTime: 30_000,
+      retry: 1,
+    }
+  );
+
+  const result = query.data?.success ? query.data.data : null;
+
+  return {
+    matches: result?.matches ?? [],
+    total: result?.total ?? 0,
+    unavailable: result?.unavailable ?? 0,
+    /** How many screened stocks have reported figures; null until the screen runs */
+    coverage: result ? { ...result.fundamentals, universe: result.universe } : null,
+    isLoading: filter !== null && query.isLoading,
+    isError: query.isError,
+    status: getDataStatus(query.data?.freshness, !!result && result.universe > 0, query.isError),
+  };
+}
+
+/**
+ * Built-in and saved screener presets. Saving needs a signed-in user.
+ */
+export function useScreenPresets() {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const query = trpc.screener.listPresets.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000,
+    retry: 1,
+  });
+  const saveMutation = trpc.screener.savePreset.useMutation();
+  const deleteMutation = trpc.screener.deletePreset.useMutation();
+
+  const presets = query.data?.success ? query.data.data : BUILT_IN_SCREEN_PRESETS;
+
+  const savePreset = useCallback(
+    async (name: string, filter: ScreenFilter): Promise<PresetActionResult> => {
+      if (!isAuthenticated) {
+        return { success: false, error: "Sign in to save screens" };
+      }
+      try {
+        const response = await saveMutation.mutateAsync({ name, filter });
+        if (!response.success) return { success: false, error: response.error };
+        await utils.screener.listPresets.invalidate();
+        return { success: true, preset: response.data };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [isAuthenticated, saveMutation.mutateAsync, utils]
+  );
+
+  const deletePreset = useCallback(
+    async (id: string): Promise<PresetActionResult> => {
+      try {
+        const response = await deleteMutation.mutateAsync({ id });
+        await utils.screener.listPresets.invalidate();
+        if (!response.success) return { success: false, error: response.error };
+        return { success: true };
+      } catch {
+        return { success: false, error: CONNECTION_ERROR };
+      }
+    },
+    [deleteMutation.mutateAsync, utils]
+  );
+
+  return {
+    presets,
+    isLoading: query.isLoading,
+    canSave: isAuthenticated,
+    savePreset,
+    deletePreset,
+  };
+}
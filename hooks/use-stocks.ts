@@ -2,15 +2,34 @@
  * Client-side hooks for live ATHEX stock data.
  *
  * Uses tRPC + React Query for automatic caching, refetching, and loading states.
+ * Quotes stream in over the stocks.onQuotes WebSocket subscription and are
+ * merged into the query cache; polling slows to every few minutes while the
+ * stream is up, just to keep freshness current when prices don't move.
  * Falls back to mock data when the server returns empty results (e.g. rate limit)
  * or is completely unreachable.
+ *
+ * Each hook reports a `status` for LiveBadge from the server's freshness
+ * descriptor: live, delayed (the server served stale data), demo (mock or
+ * simulated data) or offline (the server can't be reached).
  */
 import { trpc } from "@/lib/trpc";
-import { GREEK_STOCKS, PORTFOLIO_HOLDINGS, generateChartData } from "@/lib/mock-data";
+import { GREEK_STOCKS, generateChartData } from "@/lib/mock-data";
 import type { Asset } from "@/lib/mock-data";
-import { getSector, type Sector } from "@/lib/sectors";
+import { getSector, type Sector } from "@shared/sectors";
+import type { IndexId } from "@shared/benchmark";
+import type { HistoryRange } from "@/server/performanceService";
+import type { DataFreshness, StockQuote } from "@/server/stockService";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Quote refetch interval while the stream is up (5 minutes) */
+const STREAMING_REFETCH_MS = 5 * 60_000;
 
 // ─── Types ──────────────────────────────────────────────────────────────────
+
+/** What kind of data a screen is showing, as labelled by LiveBadge */
+export type DataStatus = "live" | "delayed" | "demo" | "offline";
+
 export interface LiveStockQuote {
   id: string;
   ticker: string;
@@ -21,7 +40,8 @@ export interface LiveStockQuote {
   sparkline: number[];
   category: "blue-chip" | "growth" | "dividend";
   sector: Sector;
-  marketCap: string;
+  /** Euros; null when unknown */
+  marketCap: number | null;
   dayHigh: number;
   dayLow: number;
   volume: number;
@@ -45,7 +65,7 @@ function mockToQuote(s: Asset): LiveStockQuote {
     sparkline: s.sparkline,
     category: s.category,
     sector: getSector(s.id),
-    marketCap: s.marketCap ?? "N/A",
+    marketCap: s.marketCap ?? null,
     dayHigh: s.price * 1.02,
     dayLow: s.price * 0.98,
     volume: 0,
@@ -56,6 +76,46 @@ function mockToQuote(s: Asset): LiveStockQuote {
   };
 }
 
+/**
+ * Status of a hook's data. Offline wins even when older data is still on
+ * screen; without live data the user is looking at the mock fallback.
+ */
+export function getDataStatus(
+  freshness: DataFreshness | undefined,
+  hasLiveData: boolean,
+  isError: boolean
+): DataStatus {
+  if (isError) return "offline";
+  if (!hasLiveData || freshness?.source === "mock") return "demo";
+  return freshness?.source === "stale" ? "delayed" : "live";
+}
+
+/**
+ * Freshness after streamed quotes fetched at `at` (the oldest of them): a
+ * poller tick is moments old, but the snapshot a subscription starts with
+ * can be older than what the client already has, which then stands.
+ */
+export function freshnessAfterTick(
+  freshness: DataFreshness | undefined,
+  at: number,
+  now: number = Date.now()
+): DataFreshness {
+  if (freshness && freshness.asOf !== null && freshness.asOf >= at) return freshness;
+  return {
+    source: freshness?.source === "mock" ? "mock" : "live",
+    asOf: at,
+    ageMs: Math.max(0, now - at),
+    provider: freshness?.provider ?? "stream",
+    error: null,
+  };
+}
+
+/** Replace quotes with streamed ticks of the same stock */
+export function mergeQuoteTicks(quotes: StockQuote[], ticks: StockQuote[]): StockQuote[] {
+  const byId = new Map(ticks.map((q) => [q.id, q]));
+  return quotes.map((q) => byId.get(q.id) ?? q);
+}
+
 // ─── Hooks ──────────────────────────────────────────────────────────────────
 
 /**
@@ -66,8 +126,26 @@ function mockToQuote(s: Asset): LiveStockQuote {
  * contains no stocks — in that case we fall back to mock data.
  */
 export function useStockQuotes() {
+  const utils = trpc.useUtils();
+  const stream = trpc.stocks.onQuotes.useSubscription(undefined, {
+    onData: (ticks) =>
+      utils.stocks.getQuotes.setData(undefined, (old) =>
+        old
+          ? {
+              ...old,
+              data: mergeQuoteTicks(old.data, ticks),
+              lastUpdated: Date.now(),
+              freshness: freshnessAfterTick(old.freshness, Math.min(...ticks.map((q) => q.lastUpdated))),
+            }
+          : old
+      ),
+  });
+  const isStreaming = stream.status === "pending";
+
+  // The stream only carries price changes, so keep refetching now and then
+  // to keep freshness current through quiet spells and closed sessions
   const query = trpc.stocks.getQuotes.useQuery(undefined, {
-    refetchInterval: 60_000,
+    refetchInterval: isStreaming ? STREAMING_REFETCH_MS : 60_000,
     staleTime: 30_000,
     retry: 2,
   });
@@ -97,12 +175,17 @@ export function useStockQuotes() {
       }))
     : GREEK_STOCKS.map(mockToQuote);
 
+  const freshness = query.data?.freshness;
+
   return {
     stocks,
     isLoading: query.isLoading,
     isError: query.isError,
     isLive: hasLiveData,
-    lastUpdated: query.data?.lastUpdated ?? null,
+    isStreaming: hasLiveData && isStreaming,
+    status: getDataStatus(freshness, hasLiveData, query.isError),
+    freshness,
+    lastUpdated: freshness?.asOf ?? query.data?.lastUpdated ?? null,
     refetch: query.refetch,
   };
 }
@@ -111,10 +194,28 @@ export function useStockQuotes() {
  * Fetch a single stock quote.
  */
 export function useStockQuote(stockId: string) {
+  const utils = trpc.useUtils();
+  const stream = trpc.stocks.onQuotes.useSubscription(
+    { stockIds: [stockId] },
+    {
+      enabled: !!stockId,
+      onData: ([tick]) => {
+        if (tick) {
+          utils.stocks.getQuote.setData({ stockId }, (old) => ({
+            success: true as const,
+            data: tick,
+            freshness: freshnessAfterTick(old?.freshness, tick.lastUpdated),
+          }));
+        }
+      },
+    }
+  );
+  const isStreaming = stream.status === "pending";
+
   const query = trpc.stocks.getQuote.useQuery(
     { stockId },
     {
-      refetchInterval: 30_000,
+      refetchInterval: isStreaming ? STREAMING_REFETCH_MS : 30_000,
       staleTime: 15_000,
       retry: 2,
       enabled: !!stockId,
@@ -148,11 +249,17 @@ export function useStockQuote(stockId: string) {
     ? mockToQuote(mockStock)
     : null;
 
+  const freshness = query.data?.freshness;
+
   return {
     stock,
     isLoading: query.isLoading,
     isError: query.isError,
     isLive: hasLiveData,
+    isStreaming: hasLiveData && isStreaming,
+    status: getDataStatus(freshness, hasLiveData, query.isError),
+    freshness,
+    lastUpdated: freshness?.asOf ?? null,
     refetch: query.refetch,
   };
 }
@@ -204,16 +311,92 @@ export function useStockChart(stockId: string, range: string = "1M") {
 
   return {
     chartData,
+    /** OHLCV candles for the candlestick chart; empty without live data */
+    candles: hasLiveChart ? query.data!.data!.data : [],
     isLoading: query.isLoading,
     isError: query.isError,
     isLive: hasLiveChart,
+    status: getDataStatus(query.data?.freshness, hasLiveChart, query.isError),
     refetch: query.refetch,
   };
 }
 
 /**
- * Mutation to force-refresh the server cache
+ * Fetch technical indicators for a stock's chart (Pro mode). No mock
+ * fallback — callers draw the plain chart when indicators are unavailable.
  */
-export function useRefreshCache() {
-  return trpc.stocks.refreshCache.useMutation();
+export function useStockIndicators(stockId: string, range: string = "1M", enabled = true) {
+  const validRange = ["1D", "1W", "1M", "3M", "1Y", "ALL"].includes(range)
+    ? (range as "1D" | "1W" | "1M" | "3M" | "1Y" | "ALL")
+    : ("1M" as const);
+
+  const query = trpc.stocks.getIndicators.useQuery(
+    { stockId, range: validRange },
+    {
+      refetchInterval: range === "1D" ? 60_000 : 300_000,
+      staleTime: range === "1D" ? 30_000 : 120_000,
+      retry: 2,
+      enabled: enabled && !!stockId,
+    }
+  );
+
+  const indicators = query.data?.success ? query.data.data : null;
+  const isLive = !!indicators && indicators.close.length > 0;
+
+  return {
+    indicators,
+    isLoading: query.isLoading && enabled,
+    isError: query.isError,
+    isLive,
+    status: getDataStatus(query.data?.freshness, isLive, query.isError),
+  };
+}
+
+/**
+ * Fetch company fundamentals (profile, annual figures, valuation at the
+ * current price). No mock fallback — callers hide the section without them.
+ */
+export function useStockFundamentals(stockId: string) {
+  const query = trpc.stocks.getFundamentals.useQuery(
+    { stockId },
+    {
+      refetchInterval: 300_000,
+      staleTime: 120_000,
+      retry: 1,
+      enabled: !!stockId,
+    }
+  );
+
+  return {
+    fundamentals: query.data?.success ? query.data.data : null,
+    isLoading: query.isLoading && !!stockId,
+    isError: query.isError,
+  };
+}
+
+/**
+ * Fetch chart data for a benchmark index. No mock fallback — callers hide
+ * the comparison when the index is unavailable.
+ */
+export function useIndexChart(indexId: IndexId, range: HistoryRange = "1M", enabled = true) {
+  const query = trpc.stocks.getIndexChart.useQuery(
+    { indexId, range },
+    {
+      refetchInterval: range === "1D" ? 60_000 : 300_000,
+      staleTime: range === "1D" ? 30_000 : 120_000,
+      retry: 2,
+      enabled,
+    }
+  );
+
+  const chart = query.data?.success ? query.data.data : null;
+  const isLive = !!chart && chart.data.length > 0;
+
+  return {
+    chart,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    isLive,
+    status: getDataStatus(query.data?.freshness, isLive, query.isError),
+  };
 }
@@ -0,0 +1,70 @@
+/**
+ * Candlestick Chart Geometry
+ *
+ * Pure helpers behind CDSCandlestickChart: the visible window of candles
+ * under pinch-zoom, which candle a crosshair touch lands on, and when a
+ * pinch should move on to the next shorter or longer range.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Visible candles, as indices [start, end) into the chart's candles */
+export interface CandleWindow {
+  start: number;
+  end: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Pinching in stops at this many candles */
+export const MIN_VISIBLE_CANDLES = 12;
+
+/** A pinch past the zoom limit by this factor steps to the next range */
+export const RANGE_STEP_SCALE = 1.3;
+
+// ─── Window ─────────────────────────────────────────────────────────────────
+
+export function fullWindow(total: number): CandleWindow {
+  return { start: 0, end: total };
+}
+
+/**
+ * Zoom `from` by `scale` (>1 zooms in) around `focus`, a 0–1 position
+ * across the chart, keeping the candle under the fingers in place.
+ */
+export function zoomWindow(from: CandleWindow, total: number, scale: number, focus = 0.5): CandleWindow {
+  const count = from.end - from.start;
+  const minimum = Math.min(MIN_VISIBLE_CANDLES, total);
+  const next = Math.round(Math.min(total, Math.max(minimum, count / Math.max(scale, 0.01))));
+
+  const anchor = from.start + focus * count;
+  const start = Math.round(Math.min(total - next, Math.max(0, anchor - focus * next)));
+  return { start, end: start + next };
+}
+
+/**
+ * Which way a finished pinch should change the range: "out" to a longer
+ * range when pinched closed on the whole chart, "in" to a shorter one when
+ * pinched open at the closest zoom, otherwise null.
+ */
+export function rangeStepForPinch(from: CandleWindow, total: number, scale: number): "in" | "out" | null {
+  const count = from.end - from.start;
+  if (scale <= 1 / RANGE_STEP_SCALE && count >= total) return "out";
+  if (scale >= RANGE_STEP_SCALE && count <= Math.min(MIN_VISIBLE_CANDLES, total)) return "in";
+  return null;
+}
+
+/** The candle index under `x` (relative to the plot area of `plotWidth`) */
+export function candleIndexAt(x: number, plotWidth: number, window: CandleWindow): number {
+  const count = window.end - window.start;
+  const slot = plotWidth / Math.max(count, 1);
+  const offset = Math.floor(Math.min(Math.max(x, 0), plotWidth - 0.001) / slot);
+  return window.start + Math.min(offset, count - 1);
+}
+
+/** The neighbouring range in `ranges`, or null at either end */
+export function steppedRange<T>(ranges: readonly T[], current: T, step: "in" | "out"): T | null {
+  const index = ranges.indexOf(current);
+  const next = index + (step === "out" ? 1 : -1);
+  return index === -1 || next < 0 || next >= ranges.length ? null : ranges[next];
+}
@@ -5,15 +5,50 @@ import React, {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
   type ReactNode,
 } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
+import type { PendingOrder } from "@/server/orderService";
+import { GREEK_STOCKS, type Asset } from "@/lib/mock-data";
 import {
-  DEMO_BALANCE,
-  PORTFOLIO_HOLDINGS,
-  GREEK_STOCKS,
-  type Asset,
-} from "@/lib/mock-data";
+  buildSeedHoldings,
+  calculateSeedBalance,
+  DEMO_START_STREAK,
+  DEMO_START_XP,
+} from "@shared/demoAccount";
+import {
+  DEFAULT_BROKER,
+  DEFAULT_SHARE_MODE,
+  formatShares,
+  getLiquidityTier,
+  isBrokerId,
+  isShareMode,
+  sizeTrade,
+  type BrokerId,
+  type ShareMode,
+} from "@shared/tradingCosts";
+import {
+  addLot,
+  calculateRealizedPnL,
+  DEFAULT_COST_BASIS_METHOD,
+  disposeLots,
+  isCostBasisMethod,
+  totalRealizedPnL,
+  type CostBasisMethod,
+  type TaxLot,
+} from "@shared/costBasis";
+import {
+  applyDueCorporateActions,
+  type CorporateAdjustment,
+} from "@shared/corporateActions";
+import {
+  creditDueDividends,
+  totalDividendIncome,
+  type DividendCredit,
+} from "@shared/dividends";
 
 // ─── Types ──────────────────────────────────────────────────────────────
 
@@ -25,6 +60,8 @@ export interface DemoHolding {
   shares: number;
   /** Total cost paid for all shares (used to derive avgCost = totalCost / shares) */
   totalCost: number;
+  /** Open tax lots — absent for positions held before lots were tracked */
+  lots?: TaxLot[];
 }
 
 /** A recorded trade (immutable log entry) */
@@ -34,10 +71,22 @@ export interface DemoTrade {
   ticker: string;
   name: string;
   type: "buy" | "sell";
+  /** Cash debited (buy) or credited (sell), costs included */
   amount: number;
   shares: number;
+  /** Execution price after spread and tick rounding */
   price: number;
+  /** Commission plus ATHEX clearing fee */
+  fees?: number;
+  /** Greek transaction tax (sells only) */
+  tax?: number;
+  /** Sells only: cost of the lots closed */
+  costBasis?: number;
+  /** Sells only: net proceeds minus `costBasis` — the gain or loss locked in */
+  realizedPnL?: number;
   timestamp: number;
+  /** Filled by the server at its own quote (signed-in accounts only) */
+  verified?: boolean;
 }
 
 /** Trade input — what the caller passes to executeTrade */
@@ -46,8 +95,13 @@ export interface TradeInput {
   ticker: string;
   name: string;
   type: "buy" | "sell";
+  /** Euro amount to buy or sell (ignored when `shares` is set) */
   amount: number;
+  /** Exact share count — how whole-share accounts trade */
+  shares?: number;
   price: number;
+  /** Stock category — sets the liquidity tier used for the spread */
+  category?: string;
 }
 
 /** Result of a trade attempt */
@@ -55,11 +109,18 @@ export interface TradeResult {
   success: boolean;
   error?: string;
   trade?: DemoTrade;
+  /** Whole-share mode: cash from `amount` left unspent */
+  leftover?: number;
+  /** Set instead of `trade` when ATHEX was closed and the trade was queued */
+  queuedOrder?: PendingOrder;
 }
 
 /** Live price lookup — stockId → current price */
 export type LivePriceMap = Record<string, number>;
 
+/** Cloud sync state for signed-in users */
+export type SyncStatus = "local" | "syncing" | "synced" | "offline" | "error";
+
 interface DemoState {
   isDemo: boolean;
   balance: number;
@@ -68,29 +129,70 @@ interface DemoState {
   xp: number;
   level: number;
   streak: number;
+  /** Commission schedule used for fills */
+  broker: BrokerId;
+  /** Whole shares only (as on ATHEX), or fractional "learning mode" */
+  shareMode: ShareMode;
+  /** Which lots sells close (FIFO or average cost) */
+  costBasisMethod: CostBasisMethod;
+  /** Cash dividends paid into the account */
+  dividends: DividendCredit[];
+  /** Account opening or last reset — dividends with earlier ex-dates are not owed */
+  dividendsSince: number | null;
+  /** Splits, rights issues and capital returns applied to holdings */
+  corporateActions: CorporateAdjustment[];
+  /** Account opening or last reset — corporate actions with earlier ex-dates don't apply */
+  corporateActionsSince: number | null;
   isLoaded: boolean;
+  /** Server portfolio version this state was last synced from (null = never synced) */
+  syncVersion: number | null;
+  /** Local changes not yet accepted by the server */
+  dirty: boolean;
+  /** A local reset that must overwrite the server copy on next sync */
+  pendingReset: boolean;
 }
 
 interface DemoContextType {
   state: DemoState;
-  /** Execute a trade — returns success/error. Updates balance + holdings atomically. */
-  executeTrade: (input: TradeInput) => TradeResult;
+  /**
+   * Execute a trade — returns success/error. Updates balance + holdings atomically.
+   * Signed-in users are filled by the server at its own quote (or queued for
+   * the next open while ATHEX is closed); `input.price` is only used for
+   * local (signed-out) fills.
+   */
+  executeTrade: (input: TradeInput) => Promise<TradeResult>;
   addXP: (amount: number) => void;
   resetDemo: () => void;
+  /** Switch the broker whose commission schedule is applied to fills */
+  setBroker: (broker: BrokerId) => void;
+  /** Switch between whole-share trading and fractional learning mode */
+  setShareMode: (mode: ShareMode) => void;
+  /** Switch how later sells pick their lots */
+  setCostBasisMethod: (method: CostBasisMethod) => void;
   /** Get all holdings as an array (convenience) */
   holdingsArray: DemoHolding[];
   /** Derive portfolio total value from live prices */
   getPortfolioValue: (livePrices: LivePriceMap) => number;
   /** Derive portfolio total cost basis */
   getPortfolioCost: () => number;
-  /** Derive portfolio P&L from live prices */
+  /** Derive unrealized portfolio P&L (open positions) from live prices */
   getPortfolioPnL: (livePrices: LivePriceMap) => { pnl: number; pnlPercent: number };
+  /** Total P&L locked in by sells */
+  getRealizedPnL: () => number;
+  /** Total dividend income received, net of withholding tax */
+  getDividendIncome: () => number;
   /** Check if user can afford a buy */
   canBuy: (amount: number) => boolean;
   /** Check if user has enough shares to sell */
   canSell: (stockId: string, shares: number) => boolean;
   /** Get holding for a specific stock (or undefined) */
   getHolding: (stockId: string) => DemoHolding | undefined;
+  /** Cloud sync status ("local" when signed out) */
+  syncStatus: SyncStatus;
+  /** Timestamp of the last successful sync */
+  lastSyncedAt: number | null;
+  /** Trigger a sync immediately */
+  syncNow: () => void;
 }
 
 // ─── Storage Keys ───────────────────────────────────────────────────────
@@ -100,79 +202,136 @@ const STORAGE_KEY_HOLDINGS = "agrx_demo_holdings";
 const STORAGE_KEY_TRADES = "agrx_demo_trades";
 const STORAGE_KEY_XP = "agrx_demo_xp";
 const STORAGE_KEY_STREAK = "agrx_demo_streak";
+const STORAGE_KEY_SYNC = "agrx_demo_sync";
+const STORAGE_KEY_BROKER = "agrx_demo_broker";
+const STORAGE_KEY_SHARE_MODE = "agrx_demo_share_mode";
+const STORAGE_KEY_COST_BASIS = "agrx_demo_cost_basis";
+const STORAGE_KEY_DIVIDENDS = "agrx_demo_dividends";
+const STORAGE_KEY_CORPORATE_ACTIONS = "agrx_demo_corporate_actions";
 
-// ─── Seed Holdings ──────────────────────────────────────────────────────
+/** Wait this long after the last local change before pushing to the server */
+const SYNC_DEBOUNCE_MS = 2_000;
 
-/** Build initial holdings from the mock PORTFOLIO_HOLDINGS so users start with positions */
-function buildSeedHoldings(): Record<string, DemoHolding> {
-  const holdings: Record<string, DemoHolding> = {};
-  for (const h of PORTFOLIO_HOLDINGS) {
-    holdings[h.asset.id] = {
-      stockId: h.asset.id,
-      ticker: h.asset.ticker,
-      name: h.asset.name,
-      shares: h.shares,
-      totalCost: h.shares * h.avgCost,
-    };
-  }
-  return holdings;
-}
+/** How often signed-out accounts check for dividends and corporate actions while the app is open */
+const CORPORATE_EVENTS_CHECK_INTERVAL_MS = 60 * 60 * 1000;
 
-/** Calculate initial balance: DEMO_BALANCE minus the cost of seed holdings */
-function calculateSeedBalance(): number {
-  const seedCost = PORTFOLIO_HOLDINGS.reduce(
-    (sum, h) => sum + h.shares * h.avgCost,
-    0
-  );
-  return DEMO_BALANCE - seedCost;
+export function createTradeId(): string {
+  return `trade-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
 }
 
+// ─── Seed Holdings ──────────────────────────────────────────────────────
+
+/** Seed positions so users start invested (see shared/demoAccount) */
+const SEED_HOLDINGS = buildSeedHoldings();
+
 // ─── Initial State ──────────────────────────────────────────────────────
 
 const initialState: DemoState = {
   isDemo: true,
   balance: calculateSeedBalance(),
-  holdings: buildSeedHoldings(),
+  holdings: SEED_HOLDINGS,
   trades: [],
-  xp: 240,
-  level: 3,
-  streak: 5,
+  xp: DEMO_START_XP,
+  level: Math.floor(DEMO_START_XP / 100) + 1,
+  streak: DEMO_START_STREAK,
+  broker: DEFAULT_BROKER,
+  shareMode: DEFAULT_SHARE_MODE,
+  costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+  dividends: [],
+  dividendsSince: null,
+  corporateActions: [],
+  corporateActionsSince: null,
   isLoaded: false,
+  syncVersion: null,
+  dirty: false,
+  pendingReset: false,
 };
 
 // ─── Context ────────────────────────────────────────────────────────────
 
 const DemoContext = createContext<DemoContextType>({
   state: initialState,
-  executeTrade: () => ({ success: false, error: "Not initialized" }),
+  executeTrade: async () => ({ success: false, error: "Not initialized" }),
   addXP: () => {},
   resetDemo: () => {},
+  setBroker: () => {},
+  setShareMode: () => {},
+  setCostBasisMethod: () => {},
   holdingsArray: [],
   getPortfolioValue: () => 0,
   getPortfolioCost: () => 0,
   getPortfolioPnL: () => ({ pnl: 0, pnlPercent: 0 }),
+  getRealizedPnL: () => 0,
+  getDividendIncome: () => 0,
   canBuy: () => false,
   canSell: () => false,
   getHolding: () => undefined,
+  syncStatus: "local",
+  lastSyncedAt: null,
+  syncNow: () => {},
 });
 
 // ─── Provider ───────────────────────────────────────────────────────────
 
 export function DemoProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<DemoState>(initialState);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("local");
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const { isAuthenticated } = useAuth();
+  const syncMutation = trpc.portfolio.sync.useMutation();
+  const executeMutation = trpc.trades.execute.useMutation();
+  // Signed-in accounts are credited and adjusted by the server; signed-out ones locally
+  const dividendEventsQuery = trpc.dividends.getEvents.useQuery(undefined, {
+    enabled: !isAuthenticated,
+    staleTime: CORPORATE_EVENTS_CHECK_INTERVAL_MS,
+    retry: 1,
+  });
+  const corporateActionsQuery = trpc.corporateActions.getActions.useQuery(undefined, {
+    enabled: !isAuthenticated,
+    staleTime: CORPORATE_EVENTS_CHECK_INTERVAL_MS,
+    retry: 1,
+  });
+
+  // Latest state for the async sync callback, and a counter bumped on every
+  // local change so we can tell whether the user traded while a sync was in flight
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const localRevision = useRef(0);
+  const syncInFlight = useRef(false);
 
   // ── Load persisted state on mount ──────────────────────────────────
   useEffect(() => {
     (async () => {
       try {
-        const [balanceStr, holdingsStr, tradesStr, xpStr, streakStr] =
-          await Promise.all([
-            AsyncStorage.getItem(STORAGE_KEY_BALANCE),
-            AsyncStorage.getItem(STORAGE_KEY_HOLDINGS),
-            AsyncStorage.getItem(STORAGE_KEY_TRADES),
-            AsyncStorage.getItem(STORAGE_KEY_XP),
-            AsyncStorage.getItem(STORAGE_KEY_STREAK),
-          ]);
+        const [
+          balanceStr,
+          holdingsStr,
+          tradesStr,
+          xpStr,
+          streakStr,
+          syncStr,
+          brokerStr,
+          shareModeStr,
+          costBasisStr,
+          dividendsStr,
+          corporateActionsStr,
+        ] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEY_BALANCE),
+          AsyncStorage.getItem(STORAGE_KEY_HOLDINGS),
+          AsyncStorage.getItem(STORAGE_KEY_TRADES),
+          AsyncStorage.getItem(STORAGE_KEY_XP),
+          AsyncStorage.getItem(STORAGE_KEY_STREAK),
+          AsyncStorage.getItem(STORAGE_KEY_SYNC),
+          AsyncStorage.getItem(STORAGE_KEY_BROKER),
+          AsyncStorage.getItem(STORAGE_KEY_SHARE_MODE),
+          AsyncStorage.getItem(STORAGE_KEY_COST_BASIS),
+          AsyncStorage.getItem(STORAGE_KEY_DIVIDENDS),
+          AsyncStorage.getItem(STORAGE_KEY_CORPORATE_ACTIONS),
+        ]);
+        const sync = syncStr != null ? JSON.parse(syncStr) : null;
+        const dividends = dividendsStr != null ? JSON.parse(dividendsStr) : null;
+        const corporateActions =
+          corporateActionsStr != null ? JSON.parse(corporateActionsStr) : null;
 
         setState((prev) => ({
           ...prev,
@@ -182,7 +341,21 @@ export function DemoProvider({ children }: { children: ReactNode }) {
           trades: tradesStr != null ? JSON.parse(tradesStr) : prev.trades,
           xp: xpStr != null ? JSON.parse(xpStr) : prev.xp,
           streak: streakStr != null ? JSON.parse(streakStr) : prev.streak,
+          broker: brokerStr != null && isBrokerId(brokerStr) ? brokerStr : prev.broker,
+          shareMode:
+            shareModeStr != null && isShareMode(shareModeStr) ? shareModeStr : prev.shareMode,
+          costBasisMethod:
+            costBasisStr != null && isCostBasisMethod(costBasisStr)
+              ? costBasisStr
+              : prev.costBasisMethod,
+          dividends: dividends?.dividends ?? prev.dividends,
+          dividendsSince: dividends?.since ?? prev.dividendsSince,
+          corporateActions: corporateActions?.actions ?? prev.corporateActions,
+          corporateActionsSince: corporateActions?.since ?? prev.corporateActionsSince,
           level: xpStr != null ? Math.floor(JSON.parse(xpStr) / 100) + 1 : prev.level,
+          syncVersion: sync?.syncVersion ?? prev.syncVersion,
+          dirty: sync?.dirty ?? prev.dirty,
+          pendingReset: sync?.pendingReset ?? prev.pendingReset,
           isLoaded: true,
         }));
       } catch {
@@ -200,22 +373,230 @@ export function DemoProvider({ children }: { children: ReactNode }) {
     AsyncStorage.setItem(STORAGE_KEY_TRADES, JSON.stringify(state.trades));
     AsyncStorage.setItem(STORAGE_KEY_XP, JSON.stringify(state.xp));
     AsyncStorage.setItem(STORAGE_KEY_STREAK, JSON.stringify(state.streak));
-  }, [state.isLoaded, state.balance, state.holdings, state.trades, state.xp, state.streak]);
+    AsyncStorage.setItem(STORAGE_KEY_BROKER, state.broker);
+    AsyncStorage.setItem(STORAGE_KEY_SHARE_MODE, state.shareMode);
+    AsyncStorage.setItem(STORAGE_KEY_COST_BASIS, state.costBasisMethod);
+    AsyncStorage.setItem(
+      STORAGE_KEY_DIVIDENDS,
+      JSON.stringify({ dividends: state.dividends, since: state.dividendsSince })
+    );
+    AsyncStorage.setItem(
+      STORAGE_KEY_CORPORATE_ACTIONS,
+      JSON.stringify({ actions: state.corporateActions, since: state.corporateActionsSince })
+    );
+    AsyncStorage.setItem(
+      STORAGE_KEY_SYNC,
+      JSON.stringify({
+        syncVersion: state.syncVersion,
+        dirty: state.dirty,
+        pendingReset: state.pendingReset,
+      })
+    );
+  }, [
+    state.isLoaded,
+    state.balance,
+    state.holdings,
+    state.trades,
+    state.xp,
+    state.streak,
+    state.broker,
+    state.shareMode,
+    state.costBasisMethod,
+    state.dividends,
+    state.dividendsSince,
+    state.corporateActions,
+    state.corporateActionsSince,
+    state.syncVersion,
+    state.dirty,
+    state.pendingReset,
+  ]);
+
+  // ── Cloud Sync ────────────────────────────────────────────────────
+  const adoptServerState = useCallback(
+    (
+      snapshot: Pick<
+        DemoState,
+        | "balance"
+        | "holdings"
+        | "trades"
+        | "xp"
+        | "streak"
+        | "broker"
+        | "shareMode"
+        | "costBasisMethod"
+        | "dividends"
+        | "dividendsSince"
+        | "corporateActions"
+        | "corporateActionsSince"
+      >,
+      version: number
+    ) => {
+      setState((prev) => ({
+        ...prev,
+        balance: snapshot.balance,
+        holdings: snapshot.holdings,
+        trades: snapshot.trades,
+        xp: snapshot.xp,
+        level: Math.floor(snapshot.xp / 100) + 1,
+        streak: snapshot.streak,
+        broker: snapshot.broker,
+        shareMode: snapshot.shareMode,
+        costBasisMethod: snapshot.costBasisMethod,
+        dividends: snapshot.dividends,
+        dividendsSince: snapshot.dividendsSince,
+        corporateActions: snapshot.corporateActions,
+        corporateActionsSince: snapshot.corporateActionsSince,
+        syncVersion: version,
+        dirty: false,
+        pendingReset: false,
+      }));
+    },
+    []
+  );
 
-  // ── Execute Trade ─────────────────────────────────────────────────
-  const executeTrade = useCallback(
+  const runSync = useCallback(async () => {
+    if (syncInFlight.current) return;
+    const current = stateRef.current;
+    const revision = localRevision.current;
+
+    syncInFlight.current = true;
+    setSyncStatus("syncing");
+    try {
+      const response = await syncMutation.mutateAsync({
+        baseVersion: current.syncVersion,
+        dirty: current.dirty,
+        reset: current.pendingReset,
+        snapshot: {
+          balance: current.balance,
+          holdings: current.holdings,
+          trades: current.trades,
+          xp: current.xp,
+          streak: current.streak,
+          broker: current.broker,
+          shareMode: current.shareMode,
+          costBasisMethod: current.costBasisMethod,
+          dividends: current.dividends,
+          dividendsSince: current.dividendsSince,
+          corporateActions: current.corporateActions,
+          corporateActionsSince: current.corporateActionsSince,
+        },
+      });
+
+      if (!response.success) {
+        setSyncStatus("error");
+        return;
+      }
+
+      setLastSyncedAt(Date.now());
+
+      // The user traded while we were syncing — keep the local state dirty and
+      // go again. The server merges by trade ID so nothing is applied twice.
+      if (localRevision.current !== revision) {
+        setSyncStatus("syncing");
+        setTimeout(() => runSyncRef.current(), SYNC_DEBOUNCE_MS);
+        return;
+      }
+
+      adoptServerState(response.data.snapshot, response.data.version);
+      setSyncStatus("synced");
+    } catch {
+      // Network failure — local state stays dirty and is pushed next time
+      setSyncStatus("offline");
+    } finally {
+      syncInFlight.current = false;
+    }
+  }, [syncMutation.mutateAsync, adoptServerState]);
+
+  const runSyncRef = useRef(runSync);
+  runSyncRef.current = runSync;
+
+  // Pull the server copy once the user is signed in and local state is loaded
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setSyncStatus("local");
+      return;
+    }
+    if (!state.isLoaded) return;
+    runSyncRef.current();
+  }, [isAuthenticated, state.isLoaded]);
+
+  // Push local changes shortly after they happen
+  useEffect(() => {
+    if (!isAuthenticated || !state.isLoaded || !state.dirty) return;
+    const timer = setTimeout(() => runSyncRef.current(), SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [
+    isAuthenticated,
+    state.isLoaded,
+    state.dirty,
+    state.trades,
+    state.xp,
+    state.broker,
+    state.shareMode,
+    state.costBasisMethod,
+    state.pendingReset,
+  ]);
+
+  const syncNow = useCallback(() => {
+    if (isAuthenticated) runSyncRef.current();
+  }, [isAuthenticated]);
+
+  // ── Dividends & Corporate Actions (signed-out accounts) ───────────
+  const dividendEvents = dividendEventsQuery.data?.success ? dividendEventsQuery.data.data : null;
+  const corporateActions = corporateActionsQuery.data?.success
+    ? corporateActionsQuery.data.data
+    : null;
+
+  useEffect(() => {
+    if (isAuthenticated || !state.isLoaded || (!dividendEvents && !corporateActions)) return;
+    // Actions first, so later dividends see the adjusted share counts
+    const settle = () =>
+      setState((prev) => {
+        const now = Date.now();
+        let next = prev;
+        if (corporateActions) next = applyDueCorporateActions(next, corporateActions, now).account;
+        if (dividendEvents) next = creditDueDividends(next, dividendEvents, now).account;
+        return next;
+      });
+    settle();
+    const timer = setInterval(settle, CORPORATE_EVENTS_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isAuthenticated, state.isLoaded, dividendEvents, corporateActions]);
+
+  // ── Execute Trade (local fill) ────────────────────────────────────
+  const executeLocalTrade = useCallback(
     (input: TradeInput): TradeResult => {
-      const { stockId, ticker, name, type, amount, price } = input;
-      const shares = amount / price;
+      const { stockId, ticker, name, type } = input;
 
       // Validation
-      if (amount <= 0) {
+      if (input.shares === undefined && input.amount <= 0) {
         return { success: false, error: "Amount must be positive" };
       }
-      if (price <= 0) {
+      if (input.price <= 0) {
         return { success: false, error: "Price must be positive" };
       }
 
+      // Same sizing and cost model the server uses for signed-in fills
+      const { broker, shareMode, costBasisMethod, holdings } = stateRef.current;
+      const sized = sizeTrade({
+        side: type,
+        amount: input.shares === undefined ? input.amount : undefined,
+        shares: input.shares,
+        midPrice: input.price,
+        tier: getLiquidityTier(input.category),
+        broker,
+        shareMode,
+        ownedShares: holdings[stockId]?.shares ?? 0,
+        ticker,
+      });
+      if (!sized.success) {
+        return { success: false, error: sized.error };
+      }
+      const { fill, leftover } = sized;
+      const { netAmount: amount, shares, price } = fill;
+      const fees = fill.commission + fill.clearingFee;
+      const tax = fill.transactionTax;
+
       let result: TradeResult = { success: false };
 
       setState((prev) => {
@@ -229,24 +610,19 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             return prev;
           }
 
-          // Update holdings
+          // Update holdings — each buy opens a new tax lot
+          const tradeId = createTradeId();
+          const timestamp = Date.now();
           const existing = prev.holdings[stockId];
-          const newHolding: DemoHolding = existing
-            ? {
-                ...existing,
-                shares: existing.shares + shares,
-                totalCost: existing.totalCost + amount,
-              }
-            : {
-                stockId,
-                ticker,
-                name,
-                shares,
-                totalCost: amount,
-              };
+          const newHolding: DemoHolding = {
+            stockId,
+            ticker: existing?.ticker ?? ticker,
+            name: existing?.name ?? name,
+            ...addLot(existing, { id: tradeId, shares, cost: amount, openedAt: timestamp }),
+          };
 
           const trade: DemoTrade = {
-            id: `trade-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+            id: tradeId,
             stockId,
             ticker,
             name,
@@ -254,10 +630,12 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             amount,
             shares,
             price,
-            timestamp: Date.now(),
+            fees,
+            tax,
+            timestamp,
           };
 
-          result = { success: true, trade };
+          result = { success: true, trade, leftover };
 
           return {
             ...prev,
@@ -266,6 +644,7 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             trades: [...prev.trades, trade],
             xp: prev.xp + 15,
             level: Math.floor((prev.xp + 15) / 100) + 1,
+            dirty: true,
           };
         } else {
           // Sell
@@ -274,32 +653,34 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             const ownedShares = existing?.shares ?? 0;
             result = {
               success: false,
-              error: `Insufficient shares. You own ${ownedShares.toFixed(4)} shares of ${ticker} but tried to sell ${shares.toFixed(4)}`,
+              error: `Insufficient shares. You own ${formatShares(ownedShares)} shares of ${ticker} but tried to sell ${formatShares(shares)}`,
             };
             return prev;
           }
 
-          // Calculate proportional cost basis being removed
-          const avgCost = existing.totalCost / existing.shares;
-          const costRemoved = avgCost * shares;
-          const newShares = existing.shares - shares;
-          const newTotalCost = existing.totalCost - costRemoved;
+          // Close lots by the account's cost basis method
+          const disposal = disposeLots(existing, shares, costBasisMethod);
+          if (!disposal) {
+            result = { success: false, error: `Insufficient shares of ${ticker}` };
+            return prev;
+          }
 
           // Build updated holdings
           const updatedHoldings = { ...prev.holdings };
-          if (newShares < 0.0001) {
+          if (disposal.shares < 0.0001) {
             // Essentially sold all shares — remove the holding
             delete updatedHoldings[stockId];
           } else {
             updatedHoldings[stockId] = {
               ...existing,
-              shares: newShares,
-              totalCost: Math.max(0, newTotalCost),
+              shares: disposal.shares,
+              totalCost: disposal.totalCost,
+              lots: disposal.lots,
             };
           }
 
           const trade: DemoTrade = {
-            id: `trade-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+            id: createTradeId(),
             stockId,
             ticker,
             name,
@@ -307,10 +688,14 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             amount,
             shares,
             price,
+            fees,
+            tax,
+            costBasis: disposal.costBasis,
+            realizedPnL: calculateRealizedPnL(amount, disposal.costBasis),
             timestamp: Date.now(),
           };
 
-          result = { success: true, trade };
+          result = { success: true, trade, leftover };
 
           return {
             ...prev,
@@ -319,27 +704,97 @@ export function DemoProvider({ children }: { children: ReactNode }) {
             trades: [...prev.trades, trade],
             xp: prev.xp + 15,
             level: Math.floor((prev.xp + 15) / 100) + 1,
+            dirty: true,
           };
         }
       });
 
+      if (result.success) localRevision.current++;
       return result;
     },
     []
   );
 
+  // ── Execute Trade (server fill) ───────────────────────────────────
+  const executeServerTrade = useCallback(
+    async (input: TradeInput): Promise<TradeResult> => {
+      // Push offline changes first so the server fills against our latest state
+      if (stateRef.current.dirty) await runSyncRef.current();
+      const revision = localRevision.current;
+
+      try {
+        const response = await executeMutation.mutateAsync({
+          id: createTradeId(),
+          stockId: input.stockId,
+          type: input.type,
+          ...(input.shares !== undefined ? { shares: input.shares } : { amount: input.amount }),
+        });
+        if (!response.success) {
+          return { success: false, error: response.error };
+        }
+
+        // Market closed — the server queued the trade for the next open
+        if (response.data.queued) {
+          return { success: true, queuedOrder: response.data.order };
+        }
+
+        const { trade, snapshot, version, leftover } = response.data;
+        if (localRevision.current === revision) {
+          adoptServerState(snapshot, version);
+        } else {
+          // Local state moved on meanwhile — let the next sync merge the fill in
+          runSyncRef.current();
+        }
+        return { success: true, trade, leftover };
+      } catch {
+        return {
+          success: false,
+          error: "Couldn't reach the trading server. Check your connection and try again.",
+        };
+      }
+    },
+    [executeMutation.mutateAsync, adoptServerState]
+  );
+
+  // ── Execute Trade ─────────────────────────────────────────────────
+  const executeTrade = useCallback(
+    async (input: TradeInput): Promise<TradeResult> => {
+      if (input.shares !== undefined ? input.shares <= 0 : input.amount <= 0) {
+        return { success: false, error: "Amount must be positive" };
+      }
+      return isAuthenticated ? executeServerTrade(input) : executeLocalTrade(input);
+    },
+    [isAuthenticated, executeServerTrade, executeLocalTrade]
+  );
+
   // ── Add XP ────────────────────────────────────────────────────────
   const addXP = useCallback((amount: number) => {
     setState((prev) => {
       const newXP = prev.xp + amount;
       const newLevel = Math.floor(newXP / 100) + 1;
-      return { ...prev, xp: newXP, level: newLevel };
+      return { ...prev, xp: newXP, level: newLevel, dirty: true };
     });
+    localRevision.current++;
   }, []);
 
   // ── Reset Demo ────────────────────────────────────────────────────
   const resetDemo = useCallback(() => {
-    setState({ ...initialState, isLoaded: true });
+    // Keep the sync version so the reset is pushed over the server copy, and
+    // the broker, share mode and cost basis method since they're preferences,
+    // not account state
+    setState((prev) => ({
+      ...initialState,
+      isLoaded: true,
+      dividendsSince: Date.now(),
+      corporateActionsSince: Date.now(),
+      broker: prev.broker,
+      shareMode: prev.shareMode,
+      costBasisMethod: prev.costBasisMethod,
+      syncVersion: prev.syncVersion,
+      dirty: true,
+      pendingReset: true,
+    }));
+    localRevision.current++;
     // Clear persisted data
     AsyncStorage.multiRemove([
       STORAGE_KEY_BALANCE,
@@ -347,9 +802,31 @@ export function DemoProvider({ children }: { children: ReactNode }) {
       STORAGE_KEY_TRADES,
       STORAGE_KEY_XP,
       STORAGE_KEY_STREAK,
+      STORAGE_KEY_DIVIDENDS,
+      STORAGE_KEY_CORPORATE_ACTIONS,
     ]);
   }, []);
 
+  // ── Broker ────────────────────────────────────────────────────────
+  const setBroker = useCallback((broker: BrokerId) => {
+    setState((prev) => (prev.broker === broker ? prev : { ...prev, broker, dirty: true }));
+    localRevision.current++;
+  }, []);
+
+  // ── Share Mode ────────────────────────────────────────────────────
+  const setShareMode = useCallback((shareMode: ShareMode) => {
+    setState((prev) => (prev.shareMode === shareMode ? prev : { ...prev, shareMode, dirty: true }));
+    localRevision.current++;
+  }, []);
+
+  // ── Cost Basis Method ─────────────────────────────────────────────
+  const setCostBasisMethod = useCallback((costBasisMethod: CostBasisMethod) => {
+    setState((prev) =>
+      prev.costBasisMethod === costBasisMethod ? prev : { ...prev, costBasisMethod, dirty: true }
+    );
+    localRevision.current++;
+  }, []);
+
   // ── Derived: holdings array ───────────────────────────────────────
   const holdingsArray = useMemo(
     () => Object.values(state.holdings),
@@ -392,6 +869,18 @@ export function DemoProvider({ children }: { children: ReactNode }) {
     [getPortfolioValue, getPortfolioCost]
   );
 
+  // ── Derived: realized P&L ─────────────────────────────────────────
+  const getRealizedPnL = useCallback(
+    (): number => totalRealizedPnL(state.trades),
+    [state.trades]
+  );
+
+  // ── Derived: dividend income ──────────────────────────────────────
+  const getDividendIncome = useCallback(
+    (): number => totalDividendIncome(state.dividends),
+    [state.dividends]
+  );
+
   // ── Helpers ───────────────────────────────────────────────────────
   const canBuy = useCallback(
     (amount: number): boolean => amount > 0 && amount <= state.balance,
@@ -418,26 +907,42 @@ export function DemoProvider({ children }: { children: ReactNode }) {
       executeTrade,
       addXP,
       resetDemo,
+      setBroker,
+      setShareMode,
+      setCostBasisMethod,
       holdingsArray,
       getPortfolioValue,
       getPortfolioCost,
       getPortfolioPnL,
+      getRealizedPnL,
+      getDividendIncome,
       canBuy,
       canSell,
       getHolding,
+      syncStatus,
+      lastSyncedAt,
+      syncNow,
     }),
     [
       state,
       executeTrade,
       addXP,
       resetDemo,
+      setBroker,
+      setShareMode,
+      setCostBasisMethod,
       holdingsArray,
       getPortfolioValue,
       getPortfolioCost,
       getPortfolioPnL,
+      getRealizedPnL,
+      getDividendIncome,
       canBuy,
       canSell,
       getHolding,
+      syncStatus,
+      lastSyncedAt,
+      syncNow,
     ]
   );
 
@@ -24,7 +24,9 @@ import * as Notifications from "expo-notifications";
 import type { EventSubscription } from "expo-modules-core";
 import { useRouter } from "expo-router";
 import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/hooks/use-auth";
 import type { PriceAlert, NotificationPreferences, AlertType } from "@/server/priceAlertService";
+import type { AlertChannel } from "@shared/alertDelivery";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -32,6 +34,11 @@ const DEVICE_ID_KEY = "@agrx/device-id";
 const PUSH_TOKEN_KEY = "@agrx/push-token";
 const PERMISSION_ASKED_KEY = "@agrx/notification-permission-asked";
 const NOTIFICATION_HISTORY_KEY = "@agrx/notification-history";
+/** Last alerts/preferences seen from the server, sent back on registration */
+const ALERTS_CACHE_KEY = "@agrx/price-alerts";
+const PREFERENCES_CACHE_KEY = "@agrx/notification-preferences";
+/** Set once the device is linked to a signed-in user */
+const DEVICE_LINKED_KEY = "@agrx/device-linked";
 const MAX_HISTORY_ITEMS = 100;
 
 // ─── Configure notification handler ────────────────────────────────────────
@@ -101,11 +108,17 @@ interface NotificationContextValue {
     stockName: string;
     type: AlertType;
     threshold: number;
+    /** percent_from_reference only */
+    referencePrice?: number | null;
+    /** Where the alert is delivered (signed-in users; push by default) */
+    channels?: AlertChannel[];
   }) => Promise<PriceAlert | null>;
   /** Remove a price alert */
   removePriceAlert: (alertId: string) => Promise<boolean>;
   /** Toggle a price alert on/off */
   togglePriceAlert: (alertId: string) => Promise<boolean>;
+  /** Change where a price alert is delivered (signed-in users only) */
+  setPriceAlertChannels: (alertId: string, channels: AlertChannel[]) => Promise<boolean>;
   /** Get all alerts for the current device */
   alerts: PriceAlert[];
   /** Get alerts for a specific stock */
@@ -153,6 +166,7 @@ const NotificationContext = createContext<NotificationContextValue>({
   addPriceAlert: async () => null,
   removePriceAlert: async () => false,
   togglePriceAlert: async () => false,
+  setPriceAlertChannels: async () => false,
   alerts: [],
   getAlertsForStock: () => [],
   updatePreferences: async () => {},
@@ -215,6 +229,66 @@ async function saveHistory(items: NotificationHistoryItem[]): Promise<void> {
   }
 }
 
+async function loadCached<T>(key: string): Promise<T | null> {
+  try {
+    const stored = await AsyncStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveCached(key: string, value: unknown): void {
+  AsyncStorage.setItem(key, JSON.stringify(value)).catch(() => {});
+}
+
+/**
+ * History bucket for an alert type: upside events, downside events, or moves.
+ */
+function historyTypeForAlert(alertType: string | undefined): NotificationHistoryItemType {
+  switch (alertType) {
+    case "below":
+    case "sma_cross_below":
+    case "low_52w":
+    case "gap_down":
+      return "price_below";
+    case "percent_change":
+    case "percent_from_reference":
+    case "volume_spike":
+      return "percent_change";
+    default:
+      return "price_above";
+  }
+}
+
+/** History text for a newly created alert */
+function describeNewAlert(params: { type: AlertType; threshold: number; referencePrice?: number | null }): string {
+  switch (params.type) {
+    case "above":
+      return `Above €${params.threshold.toFixed(2)}`;
+    case "below":
+      return `Below €${params.threshold.toFixed(2)}`;
+    case "percent_change":
+      return `±${params.threshold.toFixed(1)}% vs. previous close`;
+    case "percent_from_reference":
+      return `±${params.threshold.toFixed(1)}% from €${(params.referencePrice ?? 0).toFixed(2)}`;
+    case "sma_cross_above":
+      return `Cross above ${params.threshold}-day average`;
+    case "sma_cross_below":
+      return `Cross below ${params.threshold}-day average`;
+    case "volume_spike":
+      return `Volume ${params.threshold}× average`;
+    case "high_52w":
+      return "New 52-week high";
+    case "low_52w":
+      return "New 52-week low";
+    case "gap_up":
+      return `Gap up ${params.threshold.toFixed(1)}%+`;
+    case "gap_down":
+      return `Gap down ${params.threshold.toFixed(1)}%+`;
+  }
+}
+
 /**
  * Map notification data to a history item type.
  */
@@ -222,10 +296,9 @@ function mapNotificationToHistoryType(data: Record<string, any> | undefined): No
   if (!data) return "system";
   switch (data.type) {
     case "price_alert":
-      if (data.alertType === "above") return "price_above";
-      if (data.alertType === "below") return "price_below";
-      if (data.alertType === "percent_change") return "percent_change";
-      return "price_above";
+      return historyTypeForAlert(data.alertType);
+    case "alert_rule":
+      return "percent_change";
     case "market_news":
       return "market_news";
     case "daily_challenge":
@@ -241,6 +314,7 @@ function mapNotificationToHistoryType(data: Record<string, any> | undefined): No
 
 export function NotificationProvider({ children }: { children: React.ReactNode }) {
   const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
   const [isSupported, setIsSupported] = useState(false);
   const [hasPermission, setHasPermission] = useState(false);
   const [permissionAsked, setPermissionAsked] = useState(false);
@@ -253,25 +327,44 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
 
   const notificationListener = useRef<EventSubscription | undefined>(undefined);
   const responseListener = useRef<EventSubscription | undefined>(undefined);
+  /** Whether the cached alerts/preferences have been loaded (don't overwrite them before) */
+  const cacheLoaded = useRef(false);
 
-  // tRPC mutations
+  // tRPC mutations — signed-in users manage their account's alerts, shared
+  // by all their devices; anonymous (demo) users manage this device's
   const registerMutation = trpc.notifications.registerDevice.useMutation();
   const addAlertMutation = trpc.notifications.addAlert.useMutation();
   const removeAlertMutation = trpc.notifications.removeAlert.useMutation();
   const toggleAlertMutation = trpc.notifications.toggleAlert.useMutation();
   const updatePrefsMutation = trpc.notifications.updatePreferences.useMutation();
+  const accountAddAlertMutation = trpc.notifications.account.addAlert.useMutation();
+  const accountRemoveAlertMutation = trpc.notifications.account.removeAlert.useMutation();
+  const accountToggleAlertMutation = trpc.notifications.account.toggleAlert.useMutation();
+  const accountSetChannelsMutation = trpc.notifications.account.setAlertChannels.useMutation();
+  const accountUpdatePrefsMutation = trpc.notifications.account.updatePreferences.useMutation();
 
-  // tRPC queries (disabled until we have a deviceId)
+  // tRPC queries (device queries disabled until we have a deviceId)
   const alertsQuery = trpc.notifications.getAlerts.useQuery(
     { deviceId: deviceId ?? "" },
-    { enabled: !!deviceId && !!pushToken }
+    { enabled: !isAuthenticated && !!deviceId && !!pushToken }
   );
 
   const prefsQuery = trpc.notifications.getPreferences.useQuery(
     { deviceId: deviceId ?? "" },
-    { enabled: !!deviceId && !!pushToken }
+    { enabled: !isAuthenticated && !!deviceId && !!pushToken }
   );
 
+  const accountAlertsQuery = trpc.notifications.account.getAlerts.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const accountPrefsQuery = trpc.notifications.account.getPreferences.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+
+  const activeAlertsQuery = isAuthenticated ? accountAlertsQuery : alertsQuery;
+  const activePrefsQuery = isAuthenticated ? accountPrefsQuery : prefsQuery;
+
   // ── Derived: unread count ──
   const unreadCount = useMemo(() => history.filter((h) => !h.read).length, [history]);
 
@@ -279,6 +372,15 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   useEffect(() => {
     (async () => {
       try {
+        // Show cached alerts/preferences until the server answers
+        const [cachedAlerts, cachedPrefs] = await Promise.all([
+          loadCached<PriceAlert[]>(ALERTS_CACHE_KEY),
+          loadCached<NotificationPreferences>(PREFERENCES_CACHE_KEY),
+        ]);
+        if (Array.isArray(cachedAlerts)) setAlerts(cachedAlerts);
+        if (cachedPrefs) setPreferences(cachedPrefs);
+        cacheLoaded.current = true;
+
         // Get or create device ID
         const id = await getOrCreateDeviceId();
         setDeviceId(id);
@@ -324,41 +426,110 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   }, []);
 
   // ── Register with server when we have both deviceId and pushToken ──
+  // Registering while signed in links the device to the user, who adopts
+  // its anonymous alerts. The cached alerts/preferences go along so a
+  // server that lost them (or predates persistent alerts) can restore them.
   useEffect(() => {
-    if (!deviceId || !pushToken) return;
-
-    registerMutation.mutate(
-      {
-        deviceId,
-        pushToken,
-        platform: Platform.OS === "web" ? "web" : Platform.OS === "ios" ? "ios" : "android",
-      },
-      {
-        onSuccess: (result) => {
-          if (result.success) {
-            console.log("[Notifications] Device registered with server");
-          }
-        },
-        onError: (error) => {
-          console.warn("[Notifications] Registration failed:", error.message);
-        },
+    if (!deviceId || !pushToken || authLoading) return;
+
+    /** Carry on under a new device ID, optionally dropping the cached alerts */
+    const startFreshDevice = async (keepCache: boolean) => {
+      const freshId = generateDeviceId();
+      await AsyncStorage.multiRemove(
+        keepCache ? [DEVICE_LINKED_KEY] : [DEVICE_LINKED_KEY, ALERTS_CACHE_KEY, PREFERENCES_CACHE_KEY]
+      );
+      await AsyncStorage.setItem(DEVICE_ID_KEY, freshId);
+      if (!keepCache) {
+        setAlerts([]);
+        setPreferences(null);
       }
-    );
-  }, [deviceId, pushToken]);
+      setDeviceId(freshId);
+    };
+
+    (async () => {
+      // A linked device ID stays with the account that signed out on it;
+      // carry on as a fresh anonymous device
+      if (!isAuthenticated && (await AsyncStorage.getItem(DEVICE_LINKED_KEY)) === "true") {
+        await startFreshDevice(false);
+        return;
+      }
+
+      const [cachedAlerts, cachedPrefs] = await Promise.all([
+        loadCached<PriceAlert[]>(ALERTS_CACHE_KEY),
+        loadCached<NotificationPreferences>(PREFERENCES_CACHE_KEY),
+      ]);
+
+      registerMutation.mutate(
+        {
+          deviceId,
+          pushToken,
+          platform: Platform.OS === "web" ? "web" : Platform.OS === "ios" ? "ios" : "android",
+          alerts: Array.isArray(cachedAlerts)
+            ? cachedAlerts.slice(0, 100).map(({ stockId, stockName, type, threshold, enabled }) => ({
+                stockId,
+                stockName,
+                type,
+                threshold,
+                enabled,
+              }))
+            : undefined,
+          preferences: cachedPrefs ?? undefined,
+        },
+        {
+          onSuccess: (result) => {
+            if (!result.success) {
+              console.warn("[Notifications] Registration refused:", result.error);
+              // The server won't let this device ID be claimed (another
+              // account's device, or its push token changed). Register
+              // afresh; the cached alerts go along and are restored
+              if ("claimRefused" in result && result.claimRefused) {
+                startFreshDevice(true).catch(() => {});
+              }
+              return;
+            }
+            console.log("[Notifications] Device registered with server");
+            if (result.data.userId !== null) {
+              AsyncStorage.setItem(DEVICE_LINKED_KEY, "true").catch(() => {});
+            }
+            if (result.data.adoptedAlerts > 0) {
+              console.log(`[Notifications] Account adopted ${result.data.adoptedAlerts} alerts from this device`);
+            }
+            if (result.data.restoredAlerts > 0) {
+              console.log(`[Notifications] Server restored ${result.data.restoredAlerts} alerts`);
+            }
+            activeAlertsQuery.refetch();
+            activePrefsQuery.refetch();
+          },
+          onError: (error) => {
+            console.warn("[Notifications] Registration failed:", error.message);
+          },
+        }
+      );
+    })();
+  }, [deviceId, pushToken, isAuthenticated, authLoading]);
 
   // ── Sync alerts from server ──
   useEffect(() => {
-    if (alertsQuery.data?.success && alertsQuery.data.data) {
-      setAlerts(alertsQuery.data.data);
+    if (activeAlertsQuery.data?.success && activeAlertsQuery.data.data) {
+      setAlerts(activeAlertsQuery.data.data);
     }
-  }, [alertsQuery.data]);
+  }, [activeAlertsQuery.data]);
 
   // ── Sync preferences from server ──
   useEffect(() => {
-    if (prefsQuery.data?.success && prefsQuery.data.data) {
-      setPreferences(prefsQuery.data.data);
+    if (activePrefsQuery.data?.success && activePrefsQuery.data.data) {
+      setPreferences(activePrefsQuery.data.data);
     }
-  }, [prefsQuery.data]);
+  }, [activePrefsQuery.data]);
+
+  // ── Cache alerts/preferences for the next registration ──
+  useEffect(() => {
+    if (cacheLoaded.current) saveCached(ALERTS_CACHE_KEY, alerts);
+  }, [alerts]);
+
+  useEffect(() => {
+    if (cacheLoaded.current && preferences) saveCached(PREFERENCES_CACHE_KEY, preferences);
+  }, [preferences]);
 
   // ── Helper: add item to history ──
   const addToHistory = useCallback((item: NotificationHistoryItem) => {
@@ -416,6 +587,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
 
         if (data?.type === "price_alert" && data?.stockId) {
           router.push(`/asset/${data.stockId}` as any);
+        } else if (data?.type === "alert_rule") {
+          router.push("/price-alerts" as any);
         }
       }
     );
@@ -484,15 +657,19 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       stockName: string;
       type: AlertType;
       threshold: number;
+      referencePrice?: number | null;
+      channels?: AlertChannel[];
     }): Promise<PriceAlert | null> => {
-      if (!deviceId) return null;
+      if (!isAuthenticated && !deviceId) return null;
 
       try {
-        const result = await addAlertMutation.mutateAsync({
-          deviceId,
-          ...params,
-          enabled: true,
-        });
+        const result = isAuthenticated
+          ? await accountAddAlertMutation.mutateAsync({ ...params, enabled: true })
+          : await addAlertMutation.mutateAsync({
+              deviceId: deviceId!,
+              ...params,
+              enabled: true,
+            });
 
         if (result.success && result.data) {
           setAlerts((prev) => [...prev, result.data as PriceAlert]);
@@ -501,8 +678,8 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
           addToHistory({
             id: generateHistoryId(),
             title: "Price Alert Created",
-            body: `${params.type === "above" ? "Above" : params.type === "below" ? "Below" : "±"} €${params.threshold.toFixed(2)} alert set for ${params.stockName}`,
-            type: params.type === "above" ? "price_above" : params.type === "below" ? "price_below" : "percent_change",
+            body: `${describeNewAlert(params)} alert set for ${params.stockName}`,
+            type: historyTypeForAlert(params.type),
             stockId: params.stockId,
             stockTicker: params.stockName,
             threshold: params.threshold,
@@ -518,19 +695,21 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return null;
       }
     },
-    [deviceId, addAlertMutation, addToHistory]
+    [deviceId, isAuthenticated, addAlertMutation, accountAddAlertMutation, addToHistory]
   );
 
   // ── Remove Price Alert ──
   const removePriceAlert = useCallback(
     async (alertId: string): Promise<boolean> => {
-      if (!deviceId) return false;
+      if (!isAuthenticated && !deviceId) return false;
 
       try {
-        const result = await removeAlertMutation.mutateAsync({
-          deviceId,
-          alertId,
-        });
+        const result = isAuthenticated
+          ? await accountRemoveAlertMutation.mutateAsync({ alertId })
+          : await removeAlertMutation.mutateAsync({
+              deviceId: deviceId!,
+              alertId,
+            });
 
         if (result.success) {
           setAlerts((prev) => prev.filter((a) => a.id !== alertId));
@@ -541,19 +720,21 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return false;
       }
     },
-    [deviceId, removeAlertMutation]
+    [deviceId, isAuthenticated, removeAlertMutation, accountRemoveAlertMutation]
   );
 
   // ── Toggle Price Alert ──
   const togglePriceAlert = useCallback(
     async (alertId: string): Promise<boolean> => {
-      if (!deviceId) return false;
+      if (!isAuthenticated && !deviceId) return false;
 
       try {
-        const result = await toggleAlertMutation.mutateAsync({
-          deviceId,
-          alertId,
-        });
+        const result = isAuthenticated
+          ? await accountToggleAlertMutation.mutateAsync({ alertId })
+          : await toggleAlertMutation.mutateAsync({
+              deviceId: deviceId!,
+              alertId,
+            });
 
         if (result.success) {
           setAlerts((prev) =>
@@ -568,7 +749,26 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         return false;
       }
     },
-    [deviceId, toggleAlertMutation]
+    [deviceId, isAuthenticated, toggleAlertMutation, accountToggleAlertMutation]
+  );
+
+  // ── Set Price Alert Channels ──
+  const setPriceAlertChannels = useCallback(
+    async (alertId: string, channels: AlertChannel[]): Promise<boolean> => {
+      if (!isAuthenticated) return false;
+
+      try {
+        const result = await accountSetChannelsMutation.mutateAsync({ alertId, channels });
+        if (result.success) {
+          setAlerts((prev) => prev.map((a) => (a.id === alertId ? { ...a, channels } : a)));
+        }
+        return result.success;
+      } catch (error) {
+        console.warn("[Notifications] Set alert channels error:", error);
+        return false;
+      }
+    },
+    [isAuthenticated, accountSetChannelsMutation]
   );
 
   // ── Get Alerts for Stock ──
@@ -582,13 +782,15 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
   // ── Update Preferences ──
   const updatePreferencesHandler = useCallback(
     async (prefs: Partial<NotificationPreferences>): Promise<void> => {
-      if (!deviceId) return;
+      if (!isAuthenticated && !deviceId) return;
 
       try {
-        const result = await updatePrefsMutation.mutateAsync({
-          deviceId,
-          preferences: prefs,
-        });
+        const result = isAuthenticated
+          ? await accountUpdatePrefsMutation.mutateAsync({ preferences: prefs })
+          : await updatePrefsMutation.mutateAsync({
+              deviceId: deviceId!,
+              preferences: prefs,
+            });
 
         if (result.success && result.data) {
           setPreferences(result.data as NotificationPreferences);
@@ -597,14 +799,14 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
         console.warn("[Notifications] Update preferences error:", error);
       }
     },
-    [deviceId, updatePrefsMutation]
+    [deviceId, isAuthenticated, updatePrefsMutation, accountUpdatePrefsMutation]
   );
 
   // ── Refresh Alerts ──
   const refreshAlerts = useCallback(() => {
-    alertsQuery.refetch();
-    prefsQuery.refetch();
-  }, [alertsQuery, prefsQuery]);
+    activeAlertsQuery.refetch();
+    activePrefsQuery.refetch();
+  }, [activeAlertsQuery, activePrefsQuery]);
 
   // ── History: Mark as Read ──
   const markAsRead = useCallback((notificationId: string) => {
@@ -653,6 +855,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       addPriceAlert,
       removePriceAlert,
       togglePriceAlert,
+      setPriceAlertChannels,
       alerts,
       getAlertsForStock,
       updatePreferences: updatePreferencesHandler,
@@ -676,6 +879,7 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
       addPriceAlert,
       removePriceAlert,
       togglePriceAlert,
+      setPriceAlertChannels,
       alerts,
       getAlertsForStock,
       updatePreferencesHandler,
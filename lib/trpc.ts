@@ -1,5 +1,5 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { httpBatchLink } from "@trpc/client";
+import { createWSClient, httpBatchLink, splitLink, wsLink, type TRPCLink } from "@trpc/client";
 import superjson from "superjson";
 import type { AppRouter } from "@/server/routers";
 import { getApiBaseUrl } from "@/constants/oauth";
@@ -14,29 +14,54 @@ import * as Auth from "@/lib/_core/auth";
  */
 export const trpc = createTRPCReact<AppRouter>();
 
+/**
+ * WebSocket URL for subscriptions, derived from the API base URL (or the
+ * page origin on web when the API is same-origin). Null when neither is known.
+ */
+function getWebSocketUrl(): string | null {
+  const base =
+    getApiBaseUrl() || (typeof window !== "undefined" && window.location ? window.location.origin : "");
+  if (!base) return null;
+  return `${base.replace(/^http/, "ws")}/api/trpc`;
+}
+
 /**
  * Creates the tRPC client with proper configuration.
  * Call this once in your app's root layout.
  */
 export function createTRPCClient() {
-  return trpc.createClient({
-    links: [
-      httpBatchLink({
-        url: `${getApiBaseUrl()}/api/trpc`,
-        // tRPC v11: transformer MUST be inside httpBatchLink, not at root
-        transformer: superjson,
-        async headers() {
-          const token = await Auth.getSessionToken();
-          return token ? { Authorization: `Bearer ${token}` } : {};
-        },
-        // Custom fetch to include credentials for cookie-based auth
-        fetch(url, options) {
-          return fetch(url, {
-            ...options,
-            credentials: "include",
-          });
-        },
-      }),
-    ],
+  const httpLink = httpBatchLink({
+    url: `${getApiBaseUrl()}/api/trpc`,
+    // tRPC v11: transformer MUST be inside httpBatchLink, not at root
+    transformer: superjson,
+    async headers() {
+      const token = await Auth.getSessionToken();
+      return token ? { Authorization: `Bearer ${token}` } : {};
+    },
+    // Custom fetch to include credentials for cookie-based auth
+    fetch(url, options) {
+      return fetch(url, {
+        ...options,
+        credentials: "include",
+      });
+    },
   });
+
+  // Subscriptions (live quotes) go over a WebSocket that only opens while
+  // something is subscribed; queries and mutations stay on HTTP
+  const wsUrl = getWebSocketUrl();
+  const links: TRPCLink<AppRouter>[] = wsUrl
+    ? [
+        splitLink({
+          condition: (op) => op.type === "subscription",
+          true: wsLink({
+            client: createWSClient({ url: wsUrl, lazy: { enabled: true, closeMs: 10_000 } }),
+            transformer: superjson,
+          }),
+          false: httpLink,
+        }),
+      ]
+    : [httpLink];
+
+  return trpc.createClient({ links });
 }
@@ -5,6 +5,9 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export type ViewMode = "simple" | "pro";
 
+/** How Pro mode draws price charts */
+export type ChartStyle = "line" | "candles";
+
 interface ViewModeContextValue {
   /** Current view mode */
   mode: ViewMode;
@@ -16,6 +19,10 @@ interface ViewModeContextValue {
   toggle: () => void;
   /** Set a specific mode */
   setMode: (mode: ViewMode) => void;
+  /** Pro mode chart style (Simple mode always draws lines) */
+  chartStyle: ChartStyle;
+  /** Set the Pro mode chart style */
+  setChartStyle: (style: ChartStyle) => void;
   /** Whether the mode has been loaded from storage */
   isLoaded: boolean;
 }
@@ -24,6 +31,8 @@ interface ViewModeContextValue {
 
 const STORAGE_KEY = "@agrx/view-mode";
 const DEFAULT_MODE: ViewMode = "simple";
+const CHART_STYLE_KEY = "@agrx/chart-style";
+const DEFAULT_CHART_STYLE: ChartStyle = "line";
 
 // ─── Context ────────────────────────────────────────────────────────────────
 
@@ -33,6 +42,8 @@ const ViewModeContext = createContext<ViewModeContextValue>({
   isPro: false,
   toggle: () => {},
   setMode: () => {},
+  chartStyle: DEFAULT_CHART_STYLE,
+  setChartStyle: () => {},
   isLoaded: false,
 });
 
@@ -40,16 +51,23 @@ const ViewModeContext = createContext<ViewModeContextValue>({
 
 export function ViewModeProvider({ children }: { children: React.ReactNode }) {
   const [mode, setModeState] = useState<ViewMode>(DEFAULT_MODE);
+  const [chartStyle, setChartStyleState] = useState<ChartStyle>(DEFAULT_CHART_STYLE);
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Hydrate from AsyncStorage
   useEffect(() => {
     (async () => {
       try {
-        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const [stored, storedChartStyle] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEY),
+          AsyncStorage.getItem(CHART_STYLE_KEY),
+        ]);
         if (stored === "simple" || stored === "pro") {
           setModeState(stored);
         }
+        if (storedChartStyle === "line" || storedChartStyle === "candles") {
+          setChartStyleState(storedChartStyle);
+        }
       } catch {
         // Silently fall back to default
       } finally {
@@ -71,12 +89,19 @@ export function ViewModeProvider({ children }: { children: React.ReactNode }) {
     });
   }, []);
 
+  const setChartStyle = useCallback((style: ChartStyle) => {
+    setChartStyleState(style);
+    AsyncStorage.setItem(CHART_STYLE_KEY, style).catch(() => {});
+  }, []);
+
   const value: ViewModeContextValue = {
     mode,
     isSimple: mode === "simple",
     isPro: mode === "pro",
     toggle,
     setMode,
+    chartStyle,
+    setChartStyle,
     isLoaded,
   };
 
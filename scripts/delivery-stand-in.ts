@@ -0,0 +1,47 @@
+/**
+ * Run the email and webhook stand-ins for local development.
+ *
+ *   pnpm delivery:standin [smtpPort] [webhookPort]
+ *
+ * Then start the server with SMTP_URL=smtp://127.0.0.1:<smtpPort> (default
+ * port 2525), and set http://127.0.0.1:<webhookPort>/hooks/agrx (default
+ * port 8025) as your webhook in the alert delivery settings. Everything
+ * delivered is printed here.
+ */
+import { startSmtpStandIn, startWebhookStandIn } from "../server/alertDeliveryStandIn";
+
+async function main() {
+  const smtp = await startSmtpStandIn({ port: Number(process.argv[2] ?? 2525) });
+  const webhook = await startWebhookStandIn({ port: Number(process.argv[3] ?? 8025) });
+  console.log(`[Delivery] SMTP stand-in listening on ${smtp.url}`);
+  console.log(`[Delivery] Webhook stand-in listening on ${webhook.url}`);
+
+  // Print what arrives since the last poll
+  let emailsSeen = 0;
+  let webhooksSeen = 0;
+  const poll = setInterval(() => {
+    for (const email of smtp.messages().slice(emailsSeen)) {
+      console.log(`[Delivery] Email to ${email.to.join(", ")}: ${email.subject}\n${email.text}\n`);
+    }
+    for (const request of webhook.requests().slice(webhooksSeen)) {
+      console.log(
+        `[Delivery] Webhook ${request.headers["x-agrx-delivery"] ?? ""} ` +
+          `(signature ${request.headers["x-agrx-signature"] ?? "missing"}):\n${request.body}\n`
+      );
+    }
+    emailsSeen = smtp.messages().length;
+    webhooksSeen = webhook.requests().length;
+  }, 500);
+
+  const shutdown = () => {
+    clearInterval(poll);
+    Promise.all([smtp.close(), webhook.close()]).then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("[Delivery] Stand-in failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+/**
+ * Record live market data for the replay provider.
+ *
+ * Fetches the last five 5-minute sessions and a year of daily candles from
+ * Yahoo Finance and writes them in the ReplayRecording format, ready for
+ * MARKET_DATA_PROVIDER=replay with MARKET_DATA_REPLAY_FILE.
+ *
+ *   pnpm record:market [out.json] [stockId ...]
+ *
+ * Without stock IDs the blue chips and benchmark indices are recorded.
+ */
+import "dotenv/config";
+import fs from "fs";
+import type { ChartDataPoint } from "../server/marketData";
+import type { ReplayCandle, ReplayRecording } from "../server/replayMarketData";
+import { ATHEX_SYMBOLS, INDEX_SYMBOLS } from "../server/stockService";
+import { createYahooProvider } from "../server/yahooMarketData";
+
+const toCandle = (c: ChartDataPoint): ReplayCandle => [c.timestamp, c.open, c.high, c.low, c.close, c.volume];
+
+async function main() {
+  const [out = "market-replay.json", ...stockIds] = process.argv.slice(2);
+  const symbols = stockIds.length
+    ? stockIds.map((id) => ATHEX_SYMBOLS[id]?.yahoo ?? id)
+    : [
+        ...Object.values(ATHEX_SYMBOLS)
+          .filter((s) => s.category === "blue-chip")
+          .map((s) => s.yahoo),
+        ...Object.values(INDEX_SYMBOLS),
+      ];
+
+  const yahoo = createYahooProvider();
+  const recording: ReplayRecording = { recordedAt: Date.now(), symbols: {} };
+
+  for (const symbol of symbols) {
+    const [intraday, daily] = await Promise.all([
+      yahoo.getChart(symbol, "5m", "5d"),
+      yahoo.getChart(symbol, "1d", "1y"),
+    ]);
+    if (!intraday || !daily) {
+      console.warn(`[Record] No data for ${symbol}, skipping`);
+      continue;
+    }
+    recording.symbols[symbol] = {
+      name: intraday.name ?? symbol,
+      currency: intraday.currency,
+      exchange: intraday.exchange,
+      marketCap: intraday.marketCap,
+      daily: daily.candles.map(toCandle),
+      intraday: intraday.candles.map(toCandle),
+    };
+    console.log(`[Record] ${symbol}: ${intraday.candles.length} intraday, ${daily.candles.length} daily`);
+  }
+
+  fs.writeFileSync(out, JSON.stringify(recording));
+  console.log(`[Record] Wrote ${Object.keys(recording.symbols).length} symbols to ${out}`);
+}
+
+main().catch((error) => {
+  console.error("[Record] Failed:", error);
+  process.exit(1);
+});
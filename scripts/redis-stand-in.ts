@@ -0,0 +1,26 @@
+/**
+ * Run the Redis stand-in for local development.
+ *
+ *   pnpm redis:standin [port]
+ *
+ * Then start the server with CACHE_BACKEND=redis and
+ * REDIS_URL=redis://127.0.0.1:<port> (default port 6379).
+ */
+import { startRedisStandIn } from "../server/redisStandIn";
+
+async function main() {
+  const port = Number(process.argv[2] ?? 6379);
+  const standIn = await startRedisStandIn({ port });
+  console.log(`[Redis] Stand-in listening on redis://127.0.0.1:${standIn.port}`);
+
+  const shutdown = () => {
+    standIn.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("[Redis] Stand-in failed:", error);
+  process.exit(1);
+});
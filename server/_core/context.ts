@@ -1,4 +1,5 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
+import type { CreateWSSContextFnOptions } from "@trpc/server/adapters/ws";
 import type { User } from "../../drizzle/schema";
 import { sdk } from "./sdk";
 
@@ -24,3 +25,25 @@ export async function createContext(opts: CreateExpressContextOptions): Promise<
     user,
   };
 }
+
+/**
+ * Context for tRPC calls over the WebSocket (subscriptions). The upgrade
+ * request carries the same cookies and headers as HTTP calls; there is no
+ * Express response, so procedures that set cookies must stay on HTTP.
+ */
+export async function createWSContext(opts: CreateWSSContextFnOptions): Promise<TrpcContext> {
+  const req = opts.req as unknown as TrpcContext["req"];
+  let user: User | null = null;
+
+  try {
+    user = await sdk.authenticateRequest(req);
+  } catch (error) {
+    user = null;
+  }
+
+  return {
+    req,
+    res: opts.res as unknown as TrpcContext["res"],
+    user,
+  };
+}
@@ -3,9 +3,11 @@ import express from "express";
 import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
+import { applyWSSHandler } from "@trpc/server/adapters/ws";
+import WebSocket from "ws";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
-import { createContext } from "./context";
+import { createContext, createWSContext } from "./context";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise((resolve) => {
@@ -68,6 +70,15 @@ async function startServer() {
     }),
   );
 
+  // tRPC subscriptions (live quotes) over WebSocket on the same path
+  const wss = new WebSocket.Server({ server, path: "/api/trpc" });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext: createWSContext,
+    keepAlive: { enabled: true, pingMs: 30_000, pongWaitMs: 5_000 },
+  });
+
   const preferredPort = parseInt(process.env.PORT || "3000");
   const port = await findAvailablePort(preferredPort);
 
@@ -1,6 +1,8 @@
 import { z } from "zod";
 import { notifyOwner } from "./notification";
 import { adminProcedure, publicProcedure, router } from "./trpc";
+import { getCacheStats } from "../cache";
+import { getUpstreamMetrics } from "../stockService";
 
 export const systemRouter = router({
   health: publicProcedure
@@ -13,6 +15,12 @@ export const systemRouter = router({
       ok: true,
     })),
 
+  /** Market data calls per minute, cache hits and coalesced requests */
+  marketDataMetrics: adminProcedure.query(() => getUpstreamMetrics()),
+
+  /** Cache backend and hit/miss counts per cache namespace */
+  cacheStats: adminProcedure.query(() => getCacheStats()),
+
   notifyOwner: adminProcedure
     .input(
       z.object({
@@ -0,0 +1,664 @@
+/**
+ * AGRX Alert Delivery
+ *
+ * Pluggable transports for alert notifications, one per channel (see
+ * shared/alertDelivery):
+ * - push: the Expo push API
+ * - email: a minimal SMTP client for SMTP_URL (smtp:// or smtps://, with
+ *   AUTH PLAIN when the URL has credentials); without SMTP_URL email is off
+ * - webhook: a JSON POST signed with the owner's secret (see
+ *   signWebhookPayload), so bots can check it came from us. The host is
+ *   resolved before every send and must be public (see resolveWebhookHost);
+ *   the request goes to the address that was checked
+ *
+ * Deliveries are retried with exponential backoff while the failure looks
+ * temporary (network errors, timeouts, 429, 5xx); the caller records the
+ * outcome in the delivery log. Callers hand deliveries to a DeliveryQueue so
+ * a slow endpoint holds up only its own slot, not whoever queued it.
+ * alertDeliveryStandIn runs a local SMTP server
+ * and webhook receiver for development and tests.
+ *
+ * URL format: smtp[s]://[user:password@]host[:port]
+ */
+import * as crypto from "crypto";
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import type { AlertChannel, DeliveryStatus } from "../shared/alertDelivery";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface DeliveryMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+export interface DeliveryTarget {
+  channel: AlertChannel;
+  /** Push token, email address or webhook URL */
+  address: string;
+  /** webhook only: the owner's signing secret */
+  secret?: string;
+}
+
+export interface DeliveryTransport {
+  channel: AlertChannel;
+  /**
+   * Resolves once the message is accepted; throws DeliveryError otherwise.
+   * `deliveryId` is the same on every retry of one delivery.
+   */
+  send(target: DeliveryTarget, message: DeliveryMessage, deliveryId: string): Promise<void>;
+}
+
+export type DeliveryTransports = Partial<Record<AlertChannel, DeliveryTransport>>;
+
+export interface DeliveryResult {
+  channel: AlertChannel;
+  /** The target without secrets, for the delivery log */
+  target: string;
+  status: DeliveryStatus;
+  attempts: number;
+  error: string | null;
+}
+
+/** Resolves a host name to every address it has */
+export type HostLookup = (hostname: string) => Promise<dns.LookupAddress[]>;
+
+export interface WebhookTransportOptions {
+  /** Let webhooks reach private and loopback hosts, for the local stand-in; never in production */
+  allowPrivateHosts?: boolean;
+  lookup?: HostLookup;
+}
+
+export interface DeliveryQueue {
+  /** Run `job` once a slot is free; returns straight away */
+  push(job: () => Promise<void>): void;
+  /** Jobs running or waiting */
+  readonly size: number;
+  /** Resolves once every job queued so far has finished */
+  idle(): Promise<void>;
+}
+
+export interface RetryOptions {
+  /** Tries in all, including the first (default 3) */
+  attempts?: number;
+  /** Wait before the first retry; doubles for each one after (default 1s) */
+  baseDelayMs?: number;
+}
+
+/** A delivery failed; `retryable` when trying again might work */
+export class DeliveryError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = "DeliveryError";
+    this.retryable = retryable;
+  }
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Expo Push API endpoint */
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1_000;
+
+/** Give up on a single webhook request or SMTP conversation after this long */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Deliveries a queue runs at once, and how many may wait behind them */
+const DEFAULT_QUEUE_CONCURRENCY = 4;
+const DEFAULT_QUEUE_LIMIT = 1_000;
+
+const DEFAULT_EMAIL_FROM = "AGRX Alerts <alerts@agrx.app>";
+
+/** Headers of a webhook delivery */
+export const WEBHOOK_SIGNATURE_HEADER = "X-AGRX-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-AGRX-Timestamp";
+export const WEBHOOK_DELIVERY_HEADER = "X-AGRX-Delivery";
+
+// ─── Retry ──────────────────────────────────────────────────────────────────
+
+/** Wait before retry `retry` (1 for the first): the base delay, doubling */
+export function retryDelay(retry: number, baseDelayMs: number = DEFAULT_BASE_DELAY_MS): number {
+  return baseDelayMs * 2 ** (retry - 1);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** What the delivery log shows for a target: no push token in full, no webhook path or query */
+export function describeTarget(target: DeliveryTarget): string {
+  switch (target.channel) {
+    case "push":
+      return `…${target.address.slice(-6)}`;
+    case "email":
+      return target.address;
+    case "webhook":
+      try {
+        const url = new URL(target.address);
+        return `${url.protocol}//${url.host}`;
+      } catch {
+        return "invalid URL";
+      }
+  }
+}
+
+/**
+ * Send one message to one target, retrying temporary failures with
+ * exponential backoff. Never throws; the result says what happened.
+ */
+export async function deliver(
+  transport: DeliveryTransport,
+  target: DeliveryTarget,
+  message: DeliveryMessage,
+  options: RetryOptions = {}
+): Promise<DeliveryResult> {
+  const attempts = Math.max(1, options.attempts ?? DEFAULT_ATTEMPTS);
+  const deliveryId = crypto.randomUUID();
+  const result = { channel: target.channel, target: describeTarget(target) };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await transport.send(target, message, deliveryId);
+      return { ...result, status: "sent", attempts: attempt, error: null };
+    } catch (error) {
+      const retryable = !(error instanceof DeliveryError) || error.retryable;
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!retryable || attempt >= attempts) {
+        console.warn(`[AlertDelivery] ${target.channel} to ${result.target} failed after ${attempt} attempt(s): ${reason}`);
+        return { ...result, status: "failed", attempts: attempt, error: reason.slice(0, 255) };
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, options.baseDelayMs)));
+    }
+  }
+}
+
+// ─── Webhook Hosts ──────────────────────────────────────────────────────────
+
+/**
+ * Addresses a webhook may not reach: unspecified, private, shared (CGNAT),
+ * loopback, link-local (incl. the 169.254.169.254 cloud metadata service),
+ * benchmarking, multicast and reserved, in IPv4 and IPv6. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** Host names that only mean something inside a network */
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".intranet", ".lan", ".home.arpa"];
+
+const lookupAll: HostLookup = (hostname) => dns.promises.lookup(hostname, { all: true });
+
+/** Whether `address` is an IP address on the public internet */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve a webhook URL's host, refusing anything that isn't on the public
+ * internet: localhost, single-label and internal names, and names with any
+ * non-public address. Throws DeliveryError: retryable when the lookup
+ * failed, permanent when the host is refused.
+ */
+export async function resolveWebhookHost(url: URL, lookup: HostLookup = lookupAll): Promise<dns.LookupAddress[]> {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1").replace(/\.$/, "").toLowerCase();
+  const family = net.isIP(hostname);
+  let addresses: dns.LookupAddress[];
+  if (family !== 0) {
+    addresses = [{ address: hostname, family }];
+  } else {
+    if (
+      hostname === "localhost" ||
+      !hostname.includes(".") ||
+      INTERNAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+    ) {
+      throw new DeliveryError(`${hostname} is an internal host`, false);
+    }
+    try {
+      addresses = await lookup(hostname);
+    } catch (error) {
+      throw new DeliveryError(`Couldn't look up ${hostname}: ${(error as Error).message}`, true);
+    }
+    if (addresses.length === 0) throw new DeliveryError(`${hostname} has no addresses`, true);
+  }
+  if (addresses.some((entry) => !isPublicAddress(entry.address))) {
+    throw new DeliveryError(`${hostname} points to a private or reserved address`, false);
+  }
+  return addresses;
+}
+
+// ─── Queue ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run deliveries a few at a time, in the order they were queued. A job that
+ * throws is logged and dropped; once `limit` jobs are waiting, new ones are
+ * dropped with a warning rather than piling up behind a dead endpoint.
+ */
+export function createDeliveryQueue(
+  concurrency: number = DEFAULT_QUEUE_CONCURRENCY,
+  limit: number = DEFAULT_QUEUE_LIMIT
+): DeliveryQueue {
+  const waiting: (() => Promise<void>)[] = [];
+  let running = 0;
+  let idleWaiters: (() => void)[] = [];
+
+  const next = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      job()
+        .catch((error) => console.warn("[AlertDelivery] Queued delivery failed:", error))
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+    if (running === 0 && waiting.length === 0) {
+      const resolve = idleWaiters;
+      idleWaiters = [];
+      resolve.forEach((done) => done());
+    }
+  };
+
+  return {
+    push(job) {
+      if (waiting.length >= limit) {
+        console.warn(`[AlertDelivery] Delivery queue full (${limit} waiting), dropping a delivery`);
+        return;
+      }
+      waiting.push(job);
+      next();
+    },
+    get size() {
+      return running + waiting.length;
+    },
+    idle() {
+      if (running === 0 && waiting.length === 0) return Promise.resolve();
+      return new Promise((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
+
+// ─── Push ───────────────────────────────────────────────────────────────────
+
+export function createPushTransport(url: string = EXPO_PUSH_URL): DeliveryTransport {
+  return {
+    channel: "push",
+
+    async send(target, message) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            Accept: "application/json",
+            "Accept-Encoding": "gzip, deflate",
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: target.address,
+            sound: "default",
+            title: message.title,
+            body: message.body,
+            data: message.data ?? {},
+            priority: "high",
+            channelId: "price-alerts",
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new DeliveryError(`Push request failed: ${(error as Error).message}`, true);
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new DeliveryError(`Push failed (${response.status}): ${text}`, isRetryableStatus(response.status));
+      }
+
+      const result = await response.json().catch(() => null);
+      // Expo returns { data: [{ status: "ok" }] } on success
+      const ticket = result?.data?.[0];
+      if (ticket?.status === "error") {
+        // An uninstalled app or a revoked token won't come back on a retry
+        const permanent = ticket.details?.error === "DeviceNotRegistered";
+        throw new DeliveryError(`Push error: ${ticket.message}`, !permanent);
+      }
+    },
+  };
+}
+
+// ─── Webhook ────────────────────────────────────────────────────────────────
+
+/**
+ * The signature header of a webhook body: HMAC-SHA256 of
+ * "<timestamp>.<body>" with the owner's secret, as "sha256=<hex>". The
+ * timestamp (Unix seconds) is sent in X-AGRX-Timestamp, so receivers can
+ * reject replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: number, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** The JSON body of a webhook delivery */
+export function buildWebhookPayload(message: DeliveryMessage, deliveryId: string, sentAt: Date): string {
+  return JSON.stringify({
+    id: deliveryId,
+    event: message.data?.type ?? "alert",
+    title: message.title,
+    body: message.body,
+    data: message.data ?? {},
+    sentAt: sentAt.toISOString(),
+  });
+}
+
+/**
+ * POST `body` to `url` and resolve with the status code. With `pinned`, the
+ * connection goes to that address whatever the host resolves to now, while
+ * TLS still checks the certificate against the host name. Redirects aren't
+ * followed.
+ */
+function postWebhook(
+  url: URL,
+  pinned: dns.LookupAddress | null,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  const lookup: net.LookupFunction | undefined = pinned
+    ? (_hostname, options, callback) =>
+        options.all ? callback(null, [pinned]) : callback(null, pinned.address, pinned.family)
+    : undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url.toString(),
+      { method: "POST", headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) }, lookup },
+      (response) => {
+        clearTimeout(timer);
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    const timer = setTimeout(() => request.destroy(new Error("Timed out")), REQUEST_TIMEOUT_MS);
+    request.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new DeliveryError(`Webhook request failed: ${error.message}`, true));
+    });
+    request.end(body);
+  });
+}
+
+export function createWebhookTransport(options: WebhookTransportOptions = {}): DeliveryTransport {
+  return {
+    channel: "webhook",
+
+    async send(target, message, deliveryId) {
+      if (!target.secret) throw new DeliveryError("Webhook has no signing secret", false);
+      let url: URL;
+      try {
+        url = new URL(target.address);
+      } catch {
+        throw new DeliveryError("Invalid webhook URL", false);
+      }
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        throw new DeliveryError("Webhook URLs must use https", false);
+      }
+      // Checked on every send, not just when saved: the name may point somewhere else by now
+      const pinned = options.allowPrivateHosts ? null : (await resolveWebhookHost(url, options.lookup))[0];
+
+      const body = buildWebhookPayload(message, deliveryId, new Date());
+      const timestamp = Math.floor(Date.now() / 1000);
+      const status = await postWebhook(
+        url,
+        pinned,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "AGRX-Alerts/1.0",
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(target.secret, timestamp, body),
+          [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+        },
+        body
+      );
+
+      if (status < 200 || status >= 300) {
+        throw new DeliveryError(`Webhook returned ${status}`, isRetryableStatus(status));
+      }
+    },
+  };
+}
+
+// ─── Email ──────────────────────────────────────────────────────────────────
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** Keep CR/LF out of headers and SMTP commands */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/** RFC 2047 encoded-word for non-ASCII header text (subjects carry emoji) */
+function encodeHeader(value: string): string {
+  const clean = headerValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+/** The bare address of "Name <address>" or "address" */
+function mailbox(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return headerValue(match ? match[1] : value);
+}
+
+/** A plain-text email, base64 encoded so any text survives SMTP as is */
+export function buildEmailMessage(options: {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  date?: Date;
+}): string {
+  const date = options.date ?? new Date();
+  const domain = mailbox(options.from).split("@")[1] ?? "agrx.app";
+  const body = Buffer.from(options.text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64");
+  return [
+    `From: ${headerValue(options.from)}`,
+    `To: ${mailbox(options.to)}`,
+    `Subject: ${encodeHeader(options.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(body.match(/.{1,76}/g) ?? []),
+  ].join("\r\n");
+}
+
+/**
+ * One SMTP conversation: greeting, EHLO, AUTH PLAIN when there are
+ * credentials, then MAIL/RCPT/DATA for a single message. 4xx replies and
+ * connection trouble are retryable; 5xx replies are not.
+ */
+async function sendSmtpMail(url: URL, from: string, to: string, data: string): Promise<void> {
+  const host = url.hostname || "127.0.0.1";
+  const secure = url.protocol === "smtps:";
+  const port = Number(url.port) || (secure ? 465 : 25);
+
+  const socket: net.Socket = secure
+    ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+    : net.createConnection({ host, port });
+  socket.setTimeout(REQUEST_TIMEOUT_MS);
+
+  const replies: SmtpReply[] = [];
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  let failure: DeliveryError | null = null;
+  let buffer = "";
+  let lines: string[] = [];
+
+  const fail = (error: DeliveryError) => {
+    failure ??= error;
+    waiting?.reject(failure);
+    waiting = null;
+    socket.destroy();
+  };
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    for (let end = buffer.indexOf("\r\n"); end !== -1; end = buffer.indexOf("\r\n")) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (line[3] === "-") continue;
+      const reply = { code: Number(line.slice(0, 3)), text: lines.join(" ") };
+      lines = [];
+      if (waiting) {
+        waiting.resolve(reply);
+        waiting = null;
+      } else {
+        replies.push(reply);
+      }
+    }
+  });
+  socket.on("timeout", () => fail(new DeliveryError("SMTP server timed out", true)));
+  socket.on("error", (error) => fail(new DeliveryError(`SMTP connection failed: ${error.message}`, true)));
+  socket.on("close", () => fail(new DeliveryError("SMTP connection closed", true)));
+
+  const next = (): Promise<SmtpReply> => {
+    const queued = replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  const expect = async (line: string | null, ...codes: number[]): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await next();
+    if (!codes.includes(reply.code)) {
+      const command = line?.split(" ")[0] ?? "greeting";
+      throw new DeliveryError(`SMTP ${command} rejected: ${reply.code} ${reply.text}`, reply.code < 500);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, 220);
+    await expect("EHLO agrx", 250);
+    if (url.username) {
+      const credentials = `\0${decodeURIComponent(url.username)}\0${decodeURIComponent(url.password)}`;
+      await expect(`AUTH PLAIN ${Buffer.from(credentials).toString("base64")}`, 235);
+    }
+    await expect(`MAIL FROM:<${mailbox(from)}>`, 250);
+    await expect(`RCPT TO:<${mailbox(to)}>`, 250, 251);
+    await expect("DATA", 354);
+    await expect(`${data}\r\n.`, 250);
+    socket.write("QUIT\r\n");
+    socket.end();
+  } finally {
+    socket.removeAllListeners("close");
+    socket.destroy();
+  }
+}
+
+export function createEmailTransport(smtpUrl: string, from: string = DEFAULT_EMAIL_FROM): DeliveryTransport {
+  const url = new URL(smtpUrl);
+  return {
+    channel: "email",
+
+    async send(target, message) {
+      const text = [
+        message.body,
+        "",
+        "—",
+        "You're getting this because email delivery is on for this alert in AGRX.",
+      ].join("\n");
+      await sendSmtpMail(
+        url,
+        from,
+        target.address,
+        buildEmailMessage({ from, to: target.address, subject: message.title, text })
+      );
+    },
+  };
+}
+
+// ─── Transport Selection ────────────────────────────────────────────────────
+
+let transports: DeliveryTransports | null = null;
+
+/**
+ * Build the transports the environment supports: push and webhooks always,
+ * email when SMTP_URL is set (sent from ALERT_EMAIL_FROM). Outside
+ * production webhooks may reach local hosts, for the stand-in.
+ */
+export function createDeliveryTransports(env: NodeJS.ProcessEnv = process.env): DeliveryTransports {
+  const available: DeliveryTransports = {
+    push: createPushTransport(),
+    webhook: createWebhookTransport({ allowPrivateHosts: env.NODE_ENV !== "production" }),
+  };
+  if (env.SMTP_URL) {
+    try {
+      available.email = createEmailTransport(env.SMTP_URL, env.ALERT_EMAIL_FROM || undefined);
+    } catch {
+      console.warn("[AlertDelivery] Invalid SMTP_URL, email delivery is off");
+    }
+  }
+  return available;
+}
+
+/** The active transports, created from the environment on first use */
+export function getDeliveryTransports(): DeliveryTransports {
+  if (!transports) {
+    transports = createDeliveryTransports();
+    console.log(`[AlertDelivery] Channels: ${Object.keys(transports).join(", ")}`);
+  }
+  return transports;
+}
+
+/** Swap the active transports (tests, scripts). Pass null to go back to the environment's. */
+export function setDeliveryTransports(next: DeliveryTransports | null): void {
+  transports = next;
+}
@@ -0,0 +1,248 @@
+/**
+ * AGRX Alert Delivery Stand-In
+ *
+ * In-process stand-ins for the email and webhook channels: an SMTP server
+ * speaking enough of the protocol for alertDelivery (EHLO/HELO, AUTH, MAIL,
+ * RCPT, DATA, RSET, NOOP, QUIT) and an HTTP endpoint taking webhook POSTs.
+ * Both keep what they receive, so local development and tests can deliver
+ * alerts without a mail provider or a bot (scripts/delivery-stand-in.ts).
+ * Either can fail its first few deliveries with a temporary error, to
+ * exercise retries. Not for production: nothing is relayed or stored.
+ */
+import * as http from "http";
+import * as net from "net";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface StandInOptions {
+  /** 0 (default) picks a free port */
+  port?: number;
+  host?: string;
+  /** Answer the first N deliveries with a temporary failure (451 / 503) */
+  failures?: number;
+}
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  /** The raw message, as sent after DATA */
+  data: string;
+  /** Decoded Subject header */
+  subject: string;
+  /** Decoded body */
+  text: string;
+}
+
+export interface ReceivedWebhook {
+  /** Lower-cased header names */
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SmtpStandIn {
+  port: number;
+  /** smtp:// URL for SMTP_URL */
+  url: string;
+  messages(): ReceivedEmail[];
+  close(): Promise<void>;
+}
+
+export interface WebhookStandIn {
+  port: number;
+  /** URL to set as a webhook */
+  url: string;
+  requests(): ReceivedWebhook[];
+  close(): Promise<void>;
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+/** Undo RFC 2047 base64 encoded-words */
+function decodeHeader(value: string): string {
+  return value.replace(/=\?UTF-8\?B\?([^?]*)\?=/gi, (_, encoded: string) =>
+    Buffer.from(encoded, "base64").toString("utf8")
+  );
+}
+
+function parseEmail(from: string, to: string[], data: string): ReceivedEmail {
+  const split = data.indexOf("\r\n\r\n");
+  const head = split === -1 ? data : data.slice(0, split);
+  const rawBody = split === -1 ? "" : data.slice(split + 4);
+  const headers = new Map<string, string>();
+  for (const line of head.split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.set(line.slice(0, colon).toLowerCase(), line.slice(colon + 1).trim());
+  }
+  const base64 = headers.get("content-transfer-encoding")?.toLowerCase() === "base64";
+  return {
+    from,
+    to,
+    data,
+    subject: decodeHeader(headers.get("subject") ?? ""),
+    text: base64 ? Buffer.from(rawBody.replace(/\r\n/g, ""), "base64").toString("utf8") : rawBody,
+  };
+}
+
+// ─── SMTP ───────────────────────────────────────────────────────────────────
+
+export function startSmtpStandIn(options: StandInOptions = {}): Promise<SmtpStandIn> {
+  const messages: ReceivedEmail[] = [];
+  const sockets = new Set<net.Socket>();
+  let failuresLeft = options.failures ?? 0;
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer = "";
+    let from = "";
+    let to: string[] = [];
+    let data: string[] | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    const handle = (line: string) => {
+      if (data) {
+        if (line === ".") {
+          messages.push(parseEmail(from, to, data.join("\r\n")));
+          data = null;
+          from = "";
+          to = [];
+          reply("250 OK: queued");
+        } else {
+          // Undo dot-stuffing
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        return;
+      }
+
+      const verb = line.split(" ")[0].toUpperCase();
+      const address = /<([^>]*)>/.exec(line)?.[1] ?? "";
+      switch (verb) {
+        case "EHLO":
+          reply("250-agrx-stand-in");
+          reply("250 AUTH PLAIN");
+          return;
+        case "HELO":
+          reply("250 agrx-stand-in");
+          return;
+        case "AUTH":
+          reply("235 Authentication succeeded");
+          return;
+        case "MAIL":
+          if (failuresLeft > 0) {
+            failuresLeft--;
+            reply("451 Try again later");
+            return;
+          }
+          from = address;
+          to = [];
+          reply("250 OK");
+          return;
+        case "RCPT":
+          if (!from) {
+            reply("503 MAIL first");
+            return;
+          }
+          to.push(address);
+          reply("250 OK");
+          return;
+        case "DATA":
+          if (to.length === 0) {
+            reply("503 RCPT first");
+            return;
+          }
+          data = [];
+          reply("354 End data with <CR><LF>.<CR><LF>");
+          return;
+        case "RSET":
+          from = "";
+          to = [];
+          reply("250 OK");
+          return;
+        case "NOOP":
+          reply("250 OK");
+          return;
+        case "QUIT":
+          reply("221 Bye");
+          socket.end();
+          return;
+        default:
+          reply("502 Command not implemented");
+      }
+    };
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (let end = buffer.indexOf("\r\n"); end !== -1; end = buffer.indexOf("\r\n")) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        handle(line);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => sockets.delete(socket));
+    reply("220 agrx-stand-in ESMTP");
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        url: `smtp://${address.address}:${address.port}`,
+        messages: () => messages,
+        close: () =>
+          new Promise<void>((done) => {
+            for (const socket of sockets) socket.destroy();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+// ─── Webhook ────────────────────────────────────────────────────────────────
+
+export function startWebhookStandIn(options: StandInOptions = {}): Promise<WebhookStandIn> {
+  const requests: ReceivedWebhook[] = [];
+  let failuresLeft = options.failures ?? 0;
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        res.writeHead(503).end("Try again later");
+        return;
+      }
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(", ") : value;
+      }
+      requests.push({ headers, body: Buffer.concat(chunks).toString("utf8") });
+      res.writeHead(200, { "Content-Type": "text/plain" }).end("ok");
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        url: `http://${address.address}:${address.port}/hooks/agrx`,
+        requests: () => requests,
+        close: () =>
+          new Promise<void>((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,293 @@
+/**
+ * AGRX Cache
+ *
+ * Namespaced caches for quotes, charts and news, shared across restarts and
+ * replicas when backed by Redis. Each cache has a TTL (fresh) and an
+ * optional stale window after it: stale values are still served while a
+ * refresh runs (stale-while-revalidate), and stay available as a fallback
+ * when the refresh fails. Backend errors are logged and treated as misses —
+ * a cache outage slows the app down but never breaks it.
+ *
+ * Backends (selected with CACHE_BACKEND):
+ * - "memory" (default): per-process Map
+ * - "redis": any Redis-compatible server at REDIS_URL (see redisCache)
+ */
+import { createRedisBackend } from "./redisCache";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Key-value storage of serialized entries with a hard expiry */
+export interface CacheBackend {
+  /** Shown in stats and logs */
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  getMany(keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /** Every live key starting with `prefix` */
+  keys(prefix: string): Promise<string[]>;
+}
+
+export interface CacheOptions {
+  /** Values are fresh this long after being stored */
+  ttlMs: number;
+  /** Then served stale for this long while refreshing (default 0) */
+  staleMs?: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  /** Epoch ms */
+  storedAt: number;
+  /** Still within the TTL */
+  isFresh: boolean;
+}
+
+export interface Cache<T> {
+  readonly namespace: string;
+  /** Fresh or stale value, or null on a miss */
+  get(key: string): Promise<CachedValue<T> | null>;
+  getMany(keys: string[]): Promise<(CachedValue<T> | null)[]>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  /**
+   * Fresh values are returned as is. Stale values are returned while `load`
+   * refreshes them in the background. Misses wait for `load`. Concurrent
+   * loads of one key share a single call.
+   */
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+export interface CacheStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  sets: number;
+  errors: number;
+}
+
+interface Envelope<T> {
+  v: T;
+  t: number;
+}
+
+// ─── Memory Backend ─────────────────────────────────────────────────────────
+
+/** Evict the oldest entries beyond this many */
+const MAX_MEMORY_ENTRIES = 10_000;
+
+export function createMemoryBackend(): CacheBackend {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  function read(key: string): string | null {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  return {
+    name: "memory",
+
+    async get(key) {
+      return read(key);
+    },
+
+    async getMany(keys) {
+      return keys.map(read);
+    },
+
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > MAX_MEMORY_ENTRIES) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+
+    async delete(keys) {
+      for (const key of keys) entries.delete(key);
+    },
+
+    async keys(prefix) {
+      return Array.from(entries.keys()).filter((key) => key.startsWith(prefix) && read(key) !== null);
+    },
+  };
+}
+
+// ─── Backend Selection ──────────────────────────────────────────────────────
+
+/** Prefix for every key, so the cache can share a Redis database */
+const KEY_PREFIX = "agrx:";
+
+let backend: CacheBackend | null = null;
+
+/**
+ * Build the backend named by `name` (CACHE_BACKEND by default). Unknown
+ * names, and "redis" without REDIS_URL, fall back to memory with a warning.
+ */
+export function createCacheBackend(name: string | undefined = process.env.CACHE_BACKEND): CacheBackend {
+  switch (name ?? "memory") {
+    case "memory":
+      return createMemoryBackend();
+    case "redis": {
+      const url = process.env.REDIS_URL;
+      if (url) return createRedisBackend(url);
+      console.warn("[Cache] CACHE_BACKEND=redis without REDIS_URL, using memory");
+      return createMemoryBackend();
+    }
+    default:
+      console.warn(`[Cache] Unknown CACHE_BACKEND "${name}", using memory`);
+      return createMemoryBackend();
+  }
+}
+
+/** The active backend, created from the environment on first use */
+export function getCacheBackend(): CacheBackend {
+  if (!backend) {
+    backend = createCacheBackend();
+    console.log(`[Cache] Using ${backend.name} backend`);
+  }
+  return backend;
+}
+
+/**
+ * Swap the active backend (tests, scripts). Pass null to go back to the
+ * environment's choice. Existing caches pick up the new backend.
+ */
+export function setCacheBackend(next: CacheBackend | null): void {
+  backend = next;
+}
+
+// ─── Stats ──────────────────────────────────────────────────────────────────
+
+const statsByNamespace = new Map<string, CacheStats>();
+
+function statsFor(namespace: string): CacheStats {
+  let stats = statsByNamespace.get(namespace);
+  if (!stats) {
+    stats = { hits: 0, staleHits: 0, misses: 0, sets: 0, errors: 0 };
+    statsByNamespace.set(namespace, stats);
+  }
+  return stats;
+}
+
+/** Hit/miss counts per namespace since startup */
+export function getCacheStats() {
+  const namespaces = Object.fromEntries(
+    Array.from(statsByNamespace, ([namespace, stats]) => {
+      const lookups = stats.hits + stats.staleHits + stats.misses;
+      return [namespace, { ...stats, hitRate: lookups > 0 ? (stats.hits + stats.staleHits) / lookups : 0 }];
+    }),
+  );
+  return { backend: getCacheBackend().name, namespaces };
+}
+
+// ─── Caches ─────────────────────────────────────────────────────────────────
+
+/**
+ * A typed cache over the active backend. Values are stored as JSON, so
+ * they must survive a JSON round trip.
+ */
+export function createCache<T>(namespace: string, options: CacheOptions): Cache<T> {
+  const prefix = `${KEY_PREFIX}${namespace}:`;
+  const staleMs = options.staleMs ?? 0;
+  const stats = statsFor(namespace);
+  const loading = new Map<string, Promise<T>>();
+
+  function unwrap(raw: string | null): CachedValue<T> | null {
+    if (raw === null) {
+      stats.misses++;
+      return null;
+    }
+    const { v, t } = JSON.parse(raw) as Envelope<T>;
+    const isFresh = Date.now() - t < options.ttlMs;
+    if (isFresh) stats.hits++;
+    else stats.staleHits++;
+    return { value: v, storedAt: t, isFresh };
+  }
+
+  function failed(action: string, error: unknown): void {
+    stats.errors++;
+    console.warn(`[Cache] ${namespace} ${action} failed:`, error);
+  }
+
+  const cache: Cache<T> = {
+    namespace,
+
+    async get(key) {
+      try {
+        return unwrap(await getCacheBackend().get(prefix + key));
+      } catch (error) {
+        failed("get", error);
+        return null;
+      }
+    },
+
+    async getMany(keys) {
+      if (keys.length === 0) return [];
+      try {
+        const raws = await getCacheBackend().getMany(keys.map((key) => prefix + key));
+        return raws.map(unwrap);
+      } catch (error) {
+        failed("getMany", error);
+        return keys.map(() => null);
+      }
+    },
+
+    async set(key, value) {
+      const envelope: Envelope<T> = { v: value, t: Date.now() };
+      try {
+        await getCacheBackend().set(prefix + key, JSON.stringify(envelope), options.ttlMs + staleMs);
+        stats.sets++;
+      } catch (error) {
+        failed("set", error);
+      }
+    },
+
+    async delete(key) {
+      try {
+        await getCacheBackend().delete([prefix + key]);
+      } catch (error) {
+        failed("delete", error);
+      }
+    },
+
+    async clear() {
+      try {
+        const store = getCacheBackend();
+        await store.delete(await store.keys(prefix));
+      } catch (error) {
+        failed("clear", error);
+      }
+    },
+
+    async getOrLoad(key, load) {
+      const cached = await cache.get(key);
+      if (cached?.isFresh) return cached.value;
+
+      let pending = loading.get(key);
+      if (!pending) {
+        pending = load()
+          .then(async (value) => {
+            await cache.set(key, value);
+            return value;
+          })
+          .finally(() => loading.delete(key));
+        loading.set(key, pending);
+      }
+
+      if (cached) {
+        // Stale: answer now, let the refresh land for the next caller
+        pending.catch((error) => console.warn(`[Cache] ${namespace} refresh of ${key} failed:`, error));
+        return cached.value;
+      }
+      return pending;
+    },
+  };
+  return cache;
+}
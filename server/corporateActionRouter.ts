@@ -0,0 +1,29 @@
+/**
+ * AGRX Corporate Action Router
+ *
+ * tRPC router for ATHEX corporate actions (splits, reverse splits, rights
+ * issues, capital returns). Signed-out clients use the full list to adjust
+ * their local accounts; the asset screen uses it for its notice.
+ */
+import { z } from "zod";
+import { publicProcedure, router } from "./_core/trpc";
+import { getCorporateActions } from "./corporateActionService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const stockIdsSchema = z
+  .object({
+    stockIds: z.array(z.string()).optional(),
+  })
+  .optional();
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const corporateActionRouter = router({
+  /**
+   * All corporate actions, oldest ex-date first
+   */
+  getActions: publicProcedure.input(stockIdsSchema).query(({ input }) => {
+    return { success: true as const, data: getCorporateActions(input?.stockIds) };
+  }),
+});
@@ -0,0 +1,96 @@
+/**
+ * AGRX Corporate Action Service
+ *
+ * Splits, reverse splits, rights issues and capital returns for the
+ * ATHEX_SYMBOLS universe, read from a local fixture so they work without an
+ * upstream feed. Used to adjust chart history (stockService), to cancel
+ * resting orders priced before an ex-date (orderService) and to adjust
+ * stored demo portfolios (see shared/corporateActions).
+ */
+import {
+  applyDueCorporateActions,
+  type CorporateAction,
+  type CorporateAdjustment,
+} from "../shared/corporateActions";
+import { CORPORATE_ACTION_FIXTURE } from "./fixtures/corporateActions";
+import { getAthensDayStart } from "./marketCalendar";
+import { updatePortfolio, type PortfolioSnapshot } from "./portfolioService";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Fixture rows resolved to actions, built on first use */
+let actions: CorporateAction[] | null = null;
+
+// ─── Actions ────────────────────────────────────────────────────────────────
+
+function loadActions(): CorporateAction[] {
+  if (!actions) {
+    actions = CORPORATE_ACTION_FIXTURE.map((row) => ({
+      id: `${row.stockId}:${row.exDate}:${row.type}`,
+      stockId: row.stockId,
+      type: row.type,
+      exDate: row.exDate,
+      exTimestamp: getAthensDayStart(row.exDate),
+      ratio: row.ratio,
+      subscriptionPrice: row.subscriptionPrice ?? null,
+      cashPerShare: row.cashPerShare ?? null,
+      referencePrice: row.referencePrice,
+    })).sort((a, b) => a.exTimestamp - b.exTimestamp);
+  }
+  return actions;
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Corporate actions, oldest ex-date first. Filters to `stockIds` when given.
+ */
+export function getCorporateActions(stockIds?: string[]): CorporateAction[] {
+  const all = loadActions();
+  if (!stockIds) return all;
+  const wanted = new Set(stockIds);
+  return all.filter((a) => wanted.has(a.stockId));
+}
+
+/**
+ * The first action for a stock with an ex-date in (after, now] — e.g. one
+ * that went ex since an order was placed.
+ */
+export function findCorporateActionSince(
+  stockId: string,
+  after: number,
+  now: number = Date.now(),
+): CorporateAction | null {
+  return (
+    loadActions().find(
+      (a) => a.stockId === stockId && a.exTimestamp > after && a.exTimestamp <= now,
+    ) ?? null
+  );
+}
+
+/**
+ * Apply every due action to a snapshot. Used inside other read-modify-write
+ * updates (e.g. a fill) so they see adjusted holdings.
+ */
+export function adjustSnapshot(
+  snapshot: PortfolioSnapshot,
+  now: number = Date.now(),
+): { snapshot: PortfolioSnapshot; applied: CorporateAdjustment[] } {
+  const { account, applied } = applyDueCorporateActions(snapshot, loadActions(), now);
+  return { snapshot: account, applied };
+}
+
+/**
+ * Apply every corporate action a user's stored portfolio is due. Returns the
+ * adjustments made (empty if none were due or the user has no portfolio).
+ */
+export async function adjustPortfolioForCorporateActions(
+  userId: number,
+  now: number = Date.now(),
+): Promise<CorporateAdjustment[]> {
+  const updated = await updatePortfolio(userId, (stored) => {
+    const { snapshot, applied } = adjustSnapshot(stored, now);
+    return { snapshot, result: applied };
+  });
+  return updated?.result ?? [];
+}
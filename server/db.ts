@@ -1,6 +1,51 @@
-import { eq } from "drizzle-orm";
+import { and, asc, count, countDistinct, desc, eq, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import type { AlertChannel } from "../shared/alertDelivery";
+import {
+  alertDeliveries,
+  alertDestinations,
+  alertRules,
+  corporateActionAdjustments,
+  dividendPayments,
+  holdings,
+  InsertAlertDeliveryRow,
+  InsertAlertDestinationRow,
+  InsertAlertRuleRow,
+  InsertCorporateActionAdjustment,
+  InsertDividendPayment,
+  InsertHolding,
+  InsertNotificationDevice,
+  InsertNotificationPreferencesRow,
+  InsertOrder,
+  InsertPortfolioHistoryRow,
+  InsertPriceAlertRow,
+  InsertScreenerPreset,
+  InsertTrade,
+  InsertUser,
+  notificationDevices,
+  notificationPreferences,
+  orders,
+  portfolioHistory,
+  portfolios,
+  priceAlerts,
+  screenerPresets,
+  trades,
+  users,
+  type AlertDeliveryRow,
+  type AlertDestinationRow,
+  type AlertRuleRow,
+  type CorporateActionAdjustment,
+  type DividendPayment,
+  type Holding,
+  type NotificationDevice,
+  type NotificationPreferencesRow,
+  type Order,
+  type Portfolio,
+  type PortfolioHistoryRow,
+  type PriceAlertRow,
+  type ScreenerPreset,
+  type Trade,
+} from "../drizzle/schema";
 import { ENV } from "./_core/env";
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -89,4 +134,895 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-// TODO: add feature queries here as your schema grows.
+// ─── Demo Portfolio ─────────────────────────────────────────────────────────
+
+export type PortfolioRecord = {
+  portfolio: Portfolio;
+  holdings: Holding[];
+  trades: Trade[];
+  dividends: DividendPayment[];
+  corporateActions: CorporateActionAdjustment[];
+};
+
+export type PortfolioWrite = {
+  balance: number;
+  xp: number;
+  streak: number;
+  broker: string;
+  shareMode: Portfolio["shareMode"];
+  costBasisMethod: Portfolio["costBasisMethod"];
+  dividendsSince: Date | null;
+  corporateActionsSince: Date | null;
+  holdings: Omit<InsertHolding, "id" | "portfolioId" | "updatedAt">[];
+  trades: Omit<InsertTrade, "id" | "portfolioId" | "createdAt">[];
+  dividends: Omit<InsertDividendPayment, "id" | "portfolioId">[];
+  corporateActions: Omit<InsertCorporateActionAdjustment, "id" | "portfolioId">[];
+};
+
+export async function getPortfolioByUserId(userId: number): Promise<PortfolioRecord | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get portfolio: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(portfolios).where(eq(portfolios.userId, userId)).limit(1);
+  if (result.length === 0) return undefined;
+
+  const portfolio = result[0];
+  const [holdingRows, tradeRows, dividendRows, corporateActionRows] = await Promise.all([
+    db.select().from(holdings).where(eq(holdings.portfolioId, portfolio.id)),
+    db
+      .select()
+      .from(trades)
+      .where(eq(trades.portfolioId, portfolio.id))
+      .orderBy(asc(trades.executedAt)),
+    db
+      .select()
+      .from(dividendPayments)
+      .where(eq(dividendPayments.portfolioId, portfolio.id))
+      .orderBy(asc(dividendPayments.creditedAt)),
+    db
+      .select()
+      .from(corporateActionAdjustments)
+      .where(eq(corporateActionAdjustments.portfolioId, portfolio.id))
+      .orderBy(asc(corporateActionAdjustments.appliedAt)),
+  ]);
+
+  return {
+    portfolio,
+    holdings: holdingRows,
+    trades: tradeRows,
+    dividends: dividendRows,
+    corporateActions: corporateActionRows,
+  };
+}
+
+/**
+ * Write a user's full portfolio state and bump its version.
+ *
+ * Uses optimistic concurrency: the write only happens if the stored version
+ * still equals `expectedVersion` (null = no portfolio yet). Returns the new
+ * version, or null when another writer got there first.
+ *
+ * Trades, dividend payments and corporate action adjustments are append-only
+ * — rows with an existing ID are left untouched — unless `replaceTrades` is
+ * set (used by demo reset), which clears all three.
+ */
+export async function writePortfolio(
+  userId: number,
+  data: PortfolioWrite,
+  expectedVersion: number | null,
+  options: { replaceTrades?: boolean } = {},
+): Promise<number | null> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select()
+      .from(portfolios)
+      .where(eq(portfolios.userId, userId))
+      .limit(1)
+      .for("update");
+
+    const currentVersion = existing.length > 0 ? existing[0].version : null;
+    if (currentVersion !== expectedVersion) return null;
+
+    let portfolioId: number;
+    let version: number;
+
+    if (existing.length === 0) {
+      const inserted = await tx
+        .insert(portfolios)
+        .values({
+          userId,
+          balance: data.balance,
+          xp: data.xp,
+          streak: data.streak,
+          broker: data.broker,
+          shareMode: data.shareMode,
+          costBasisMethod: data.costBasisMethod,
+          dividendsSince: data.dividendsSince,
+          corporateActionsSince: data.corporateActionsSince,
+          version: 1,
+        })
+        .$returningId();
+      portfolioId = inserted[0].id;
+      version = 1;
+    } else {
+      portfolioId = existing[0].id;
+      version = existing[0].version + 1;
+      await tx
+        .update(portfolios)
+        .set({
+          balance: data.balance,
+          xp: data.xp,
+          streak: data.streak,
+          broker: data.broker,
+          shareMode: data.shareMode,
+          costBasisMethod: data.costBasisMethod,
+          dividendsSince: data.dividendsSince,
+          corporateActionsSince: data.corporateActionsSince,
+          version,
+        })
+        .where(eq(portfolios.id, portfolioId));
+    }
+
+    await tx.delete(holdings).where(eq(holdings.portfolioId, portfolioId));
+    if (data.holdings.length > 0) {
+      await tx.insert(holdings).values(data.holdings.map((h) => ({ ...h, portfolioId })));
+    }
+
+    if (options.replaceTrades) {
+      await tx.delete(trades).where(eq(trades.portfolioId, portfolioId));
+      await tx.delete(dividendPayments).where(eq(dividendPayments.portfolioId, portfolioId));
+      await tx
+        .delete(corporateActionAdjustments)
+        .where(eq(corporateActionAdjustments.portfolioId, portfolioId));
+    }
+    if (data.trades.length > 0) {
+      await tx
+        .insert(trades)
+        .ignore()
+        .values(data.trades.map((t) => ({ ...t, portfolioId })));
+    }
+    if (data.dividends.length > 0) {
+      await tx
+        .insert(dividendPayments)
+        .ignore()
+        .values(data.dividends.map((d) => ({ ...d, portfolioId })));
+    }
+    if (data.corporateActions.length > 0) {
+      await tx
+        .insert(corporateActionAdjustments)
+        .ignore()
+        .values(data.corporateActions.map((a) => ({ ...a, portfolioId })));
+    }
+
+    return version;
+  });
+}
+
+export async function getPortfolioUserIds(): Promise<number[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot list portfolios: database not available");
+    return [];
+  }
+
+  const result = await db.select({ userId: portfolios.userId }).from(portfolios);
+  return result.map((r) => r.userId);
+}
+
+// ─── Portfolio History ──────────────────────────────────────────────────────
+
+export type PortfolioHistoryWrite = Omit<InsertPortfolioHistoryRow, "id" | "netFlow">;
+
+/**
+ * Insert or re-mark a user's row for `entry.date`. `flow` is added to the
+ * day's net cash flow rather than replacing it.
+ */
+export async function upsertPortfolioHistory(
+  entry: PortfolioHistoryWrite,
+  flow: number = 0,
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .insert(portfolioHistory)
+    .values({ ...entry, netFlow: flow })
+    .onDuplicateKeyUpdate({
+      set: {
+        cash: entry.cash,
+        holdingsValue: entry.holdingsValue,
+        value: entry.value,
+        recordedAt: entry.recordedAt,
+        netFlow: sql`${portfolioHistory.netFlow} + ${flow}`,
+      },
+    });
+}
+
+/** A user's rows from `sinceDate` (inclusive, or all when null), oldest first */
+export async function getPortfolioHistory(
+  userId: number,
+  sinceDate: string | null,
+): Promise<PortfolioHistoryRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get portfolio history: database not available");
+    return [];
+  }
+
+  const filter = sinceDate
+    ? and(eq(portfolioHistory.userId, userId), gte(portfolioHistory.date, sinceDate))
+    : eq(portfolioHistory.userId, userId);
+  return db.select().from(portfolioHistory).where(filter).orderBy(asc(portfolioHistory.date));
+}
+
+/** The user's last row before `date` — the baseline for a range starting then */
+export async function getPortfolioHistoryBefore(
+  userId: number,
+  date: string,
+): Promise<PortfolioHistoryRow | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get portfolio history: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(portfolioHistory)
+    .where(and(eq(portfolioHistory.userId, userId), lt(portfolioHistory.date, date)))
+    .orderBy(desc(portfolioHistory.date))
+    .limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ─── Demo Orders ────────────────────────────────────────────────────────────
+
+export type OrderUpdate = Partial<
+  Pick<Order, "status" | "stopTriggeredAt" | "fillPrice" | "filledAt" | "statusReason">
+>;
+
+export async function getOrder(userId: number, orderId: string): Promise<Order | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get order: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(orders)
+    .where(and(eq(orders.userId, userId), eq(orders.orderId, orderId)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getOrdersByUserId(userId: number, limit: number): Promise<Order[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get orders: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(orders)
+    .where(eq(orders.userId, userId))
+    .orderBy(desc(orders.createdAt), desc(orders.id))
+    .limit(limit);
+}
+
+export async function getOpenOrders(): Promise<Order[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get open orders: database not available");
+    return [];
+  }
+
+  return db.select().from(orders).where(eq(orders.status, "open")).orderBy(asc(orders.createdAt));
+}
+
+/**
+ * Insert an order. Re-inserting an existing (userId, orderId) is a no-op so
+ * retried requests don't create duplicates.
+ */
+export async function insertOrder(order: InsertOrder): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.insert(orders).ignore().values(order);
+}
+
+/**
+ * Update an order only if it is still in `expectedStatus`. Returns false when
+ * another writer (a cancel, or a concurrent match) already moved it on.
+ */
+export async function updateOrder(
+  id: number,
+  expectedStatus: Order["status"],
+  update: OrderUpdate,
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(orders)
+    .set(update)
+    .where(and(eq(orders.id, id), eq(orders.status, expectedStatus)));
+
+  return result.affectedRows > 0;
+}
+
+export async function cancelOpenOrdersForUser(userId: number, reason: string): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .update(orders)
+    .set({ status: "cancelled", statusReason: reason })
+    .where(and(eq(orders.userId, userId), eq(orders.status, "open")));
+}
+
+// ─── Screener Presets ───────────────────────────────────────────────────────
+
+export async function getScreenerPresets(userId: number): Promise<ScreenerPreset[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get screener presets: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(screenerPresets)
+    .where(eq(screenerPresets.userId, userId))
+    .orderBy(asc(screenerPresets.name));
+}
+
+/** Insert a preset, replacing the filter of one with the same name */
+export async function upsertScreenerPreset(preset: InsertScreenerPreset): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .insert(screenerPresets)
+    .values(preset)
+    .onDuplicateKeyUpdate({ set: { filter: preset.filter } });
+}
+
+export async function deleteScreenerPreset(userId: number, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .delete(screenerPresets)
+    .where(and(eq(screenerPresets.userId, userId), eq(screenerPresets.id, id)));
+
+  return result.affectedRows > 0;
+}
+
+// ─── Notification Devices & Price Alerts ────────────────────────────────────
+
+/** Who alerts and preferences belong to: a signed-in user or an anonymous device */
+export type NotificationOwner = { userId: number } | { deviceId: string };
+
+function alertOwnerWhere(owner: NotificationOwner) {
+  return "userId" in owner
+    ? eq(priceAlerts.userId, owner.userId)
+    : and(eq(priceAlerts.deviceId, owner.deviceId), isNull(priceAlerts.userId));
+}
+
+function deliveryOwnerWhere(owner: NotificationOwner) {
+  return "userId" in owner
+    ? eq(alertDeliveries.userId, owner.userId)
+    : and(eq(alertDeliveries.deviceId, owner.deviceId), isNull(alertDeliveries.userId));
+}
+
+function preferencesOwnerWhere(owner: NotificationOwner) {
+  return "userId" in owner
+    ? eq(notificationPreferences.userId, owner.userId)
+    : eq(notificationPreferences.deviceId, owner.deviceId);
+}
+
+export async function getNotificationDevice(deviceId: string): Promise<NotificationDevice | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get notification device: database not available");
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(notificationDevices)
+    .where(eq(notificationDevices.deviceId, deviceId))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/** Devices linked to any of `userIds`, plus the anonymous devices in `deviceIds` */
+export async function getNotificationDevices(owners: {
+  userIds: number[];
+  deviceIds: string[];
+}): Promise<NotificationDevice[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get notification devices: database not available");
+    return [];
+  }
+  if (owners.userIds.length === 0 && owners.deviceIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(notificationDevices)
+    .where(
+      or(
+        owners.userIds.length > 0 ? inArray(notificationDevices.userId, owners.userIds) : undefined,
+        owners.deviceIds.length > 0
+          ? and(inArray(notificationDevices.deviceId, owners.deviceIds), isNull(notificationDevices.userId))
+          : undefined,
+      ),
+    );
+}
+
+/** Insert a device, or update the push token, platform and user of a known one */
+export async function upsertNotificationDevice(device: InsertNotificationDevice): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .insert(notificationDevices)
+    .values(device)
+    .onDuplicateKeyUpdate({
+      set: {
+        pushToken: device.pushToken,
+        platform: device.platform,
+        userId: device.userId ?? null,
+        lastSeen: new Date(),
+      },
+    });
+}
+
+/** Delete a device with its anonymous alerts and preferences (a user's stay) */
+export async function deleteNotificationDevice(deviceId: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  return db.transaction(async (tx) => {
+    await tx.delete(priceAlerts).where(alertOwnerWhere({ deviceId }));
+    await tx.delete(notificationPreferences).where(preferencesOwnerWhere({ deviceId }));
+    await tx.delete(alertDeliveries).where(deliveryOwnerWhere({ deviceId }));
+    const [result] = await tx.delete(notificationDevices).where(eq(notificationDevices.deviceId, deviceId));
+    return result.affectedRows > 0;
+  });
+}
+
+export async function getPriceAlerts(owner: NotificationOwner): Promise<PriceAlertRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get price alerts: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(priceAlerts)
+    .where(alertOwnerWhere(owner))
+    .orderBy(asc(priceAlerts.createdAt), asc(priceAlerts.id));
+}
+
+export async function getEnabledPriceAlerts(): Promise<PriceAlertRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get enabled price alerts: database not available");
+    return [];
+  }
+
+  return db.select().from(priceAlerts).where(eq(priceAlerts.enabled, true));
+}
+
+/** Insert alerts and return the new rows' IDs, in order */
+export async function insertPriceAlerts(alerts: InsertPriceAlertRow[]): Promise<number[]> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (alerts.length === 0) return [];
+
+  const ids = await db.insert(priceAlerts).values(alerts).$returningId();
+  return ids.map((row) => row.id);
+}
+
+export async function deletePriceAlert(owner: NotificationOwner, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .delete(priceAlerts)
+    .where(and(alertOwnerWhere(owner), eq(priceAlerts.id, id)));
+
+  return result.affectedRows > 0;
+}
+
+export async function togglePriceAlert(owner: NotificationOwner, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(priceAlerts)
+    .set({ enabled: sql`NOT ${priceAlerts.enabled}` })
+    .where(and(alertOwnerWhere(owner), eq(priceAlerts.id, id)));
+
+  return result.affectedRows > 0;
+}
+
+export async function markPriceAlertTriggered(id: number, at: Date): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(priceAlerts).set({ lastTriggered: at }).where(eq(priceAlerts.id, id));
+}
+
+export async function setPriceAlertChannels(
+  owner: NotificationOwner,
+  id: number,
+  channels: AlertChannel[],
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(priceAlerts)
+    .set({ channels })
+    .where(and(alertOwnerWhere(owner), eq(priceAlerts.id, id)));
+  return result.affectedRows > 0;
+}
+
+/** Record the price seen at this check on every alert for the stock */
+export async function setPriceAlertLastPrice(stockId: string, price: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(priceAlerts).set({ lastPrice: price }).where(eq(priceAlerts.stockId, stockId));
+}
+
+export async function getAlertRules(userId: number): Promise<AlertRuleRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get alert rules: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(alertRules)
+    .where(eq(alertRules.userId, userId))
+    .orderBy(asc(alertRules.createdAt), asc(alertRules.id));
+}
+
+export async function getEnabledAlertRules(): Promise<AlertRuleRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get enabled alert rules: database not available");
+    return [];
+  }
+
+  return db.select().from(alertRules).where(eq(alertRules.enabled, true));
+}
+
+export async function countAlertRules(userId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db.select({ total: count() }).from(alertRules).where(eq(alertRules.userId, userId));
+  return result.total;
+}
+
+/** Insert a rule and return the new row's ID */
+export async function insertAlertRule(rule: InsertAlertRuleRow): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [row] = await db.insert(alertRules).values(rule).$returningId();
+  return row.id;
+}
+
+export async function deleteAlertRule(userId: number, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db.delete(alertRules).where(and(eq(alertRules.userId, userId), eq(alertRules.id, id)));
+  return result.affectedRows > 0;
+}
+
+export async function toggleAlertRule(userId: number, id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(alertRules)
+    .set({ enabled: sql`NOT ${alertRules.enabled}` })
+    .where(and(eq(alertRules.userId, userId), eq(alertRules.id, id)));
+  return result.affectedRows > 0;
+}
+
+export async function setAlertRuleChannels(userId: number, id: number, channels: AlertChannel[]): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(alertRules)
+    .set({ channels })
+    .where(and(eq(alertRules.userId, userId), eq(alertRules.id, id)));
+  return result.affectedRows > 0;
+}
+
+export async function markAlertRuleTriggered(id: number, at: Date): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(alertRules).set({ lastTriggered: at }).where(eq(alertRules.id, id));
+}
+
+/** Record the prices seen at this check for a rule's stocks */
+export async function setAlertRuleLastPrices(id: number, prices: Record<string, number>): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(alertRules).set({ lastPrices: prices }).where(eq(alertRules.id, id));
+}
+
+/**
+ * Move an anonymous device's alerts and preferences to the user who just
+ * signed in on it. `adopt` alerts become the user's and `drop` alerts are
+ * deleted; the device's preferences become the user's if the user has none.
+ */
+export async function adoptDeviceAlerts(
+  userId: number,
+  deviceId: string,
+  alerts: { adopt: number[]; drop: number[] },
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.transaction(async (tx) => {
+    const device = alertOwnerWhere({ deviceId });
+    if (alerts.drop.length > 0) {
+      await tx.delete(priceAlerts).where(and(device, inArray(priceAlerts.id, alerts.drop)));
+    }
+    if (alerts.adopt.length > 0) {
+      await tx
+        .update(priceAlerts)
+        .set({ userId, deviceId: null })
+        .where(and(device, inArray(priceAlerts.id, alerts.adopt)));
+    }
+
+    const [userPrefs] = await tx
+      .select({ id: notificationPreferences.id })
+      .from(notificationPreferences)
+      .where(preferencesOwnerWhere({ userId }))
+      .limit(1);
+    if (userPrefs) {
+      await tx.delete(notificationPreferences).where(preferencesOwnerWhere({ deviceId }));
+    } else {
+      await tx
+        .update(notificationPreferences)
+        .set({ userId, deviceId: null })
+        .where(preferencesOwnerWhere({ deviceId }));
+    }
+  });
+}
+
+export async function getNotificationPreferencesRow(
+  owner: NotificationOwner,
+): Promise<NotificationPreferencesRow | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get notification preferences: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(notificationPreferences).where(preferencesOwnerWhere(owner)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/** Preferences of any of `userIds` and of the anonymous devices in `deviceIds` */
+export async function getNotificationPreferencesRows(owners: {
+  userIds: number[];
+  deviceIds: string[];
+}): Promise<NotificationPreferencesRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get notification preferences: database not available");
+    return [];
+  }
+  if (owners.userIds.length === 0 && owners.deviceIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(notificationPreferences)
+    .where(
+      or(
+        owners.userIds.length > 0 ? inArray(notificationPreferences.userId, owners.userIds) : undefined,
+        owners.deviceIds.length > 0 ? inArray(notificationPreferences.deviceId, owners.deviceIds) : undefined,
+      ),
+    );
+}
+
+export async function upsertNotificationPreferences(
+  preferences: Omit<InsertNotificationPreferencesRow, "id">,
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const { userId: _userId, deviceId: _deviceId, ...set } = preferences;
+  await db.insert(notificationPreferences).values(preferences).onDuplicateKeyUpdate({ set });
+}
+
+// ─── Alert Delivery ─────────────────────────────────────────────────────────
+
+export async function getAlertDestination(userId: number): Promise<AlertDestinationRow | undefined> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get alert destination: database not available");
+    return undefined;
+  }
+
+  const result = await db.select().from(alertDestinations).where(eq(alertDestinations.userId, userId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getAlertDestinations(userIds: number[]): Promise<AlertDestinationRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get alert destinations: database not available");
+    return [];
+  }
+  if (userIds.length === 0) return [];
+
+  return db.select().from(alertDestinations).where(inArray(alertDestinations.userId, userIds));
+}
+
+export async function upsertAlertDestination(
+  destination: Omit<InsertAlertDestinationRow, "id" | "updatedAt">,
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const { userId: _userId, ...set } = destination;
+  await db.insert(alertDestinations).values(destination).onDuplicateKeyUpdate({ set });
+}
+
+/** Count a guess at the pending email code, before it is checked */
+export async function incrementEmailCodeAttempts(userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .update(alertDestinations)
+    .set({ emailCodeAttempts: sql`${alertDestinations.emailCodeAttempts} + 1` })
+    .where(eq(alertDestinations.userId, userId));
+}
+
+export async function insertAlertDeliveries(deliveries: InsertAlertDeliveryRow[]): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (deliveries.length === 0) return;
+
+  await db.insert(alertDeliveries).values(deliveries);
+}
+
+/** The owner's most recent deliveries, newest first */
+export async function getAlertDeliveries(owner: NotificationOwner, limit: number): Promise<AlertDeliveryRow[]> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot get alert deliveries: database not available");
+    return [];
+  }
+
+  return db
+    .select()
+    .from(alertDeliveries)
+    .where(deliveryOwnerWhere(owner))
+    .orderBy(desc(alertDeliveries.createdAt), desc(alertDeliveries.id))
+    .limit(limit);
+}
+
+export async function deleteAlertDeliveriesBefore(cutoff: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db.delete(alertDeliveries).where(lt(alertDeliveries.createdAt, cutoff));
+  return result.affectedRows;
+}
+
+export async function getPriceAlertCounts(): Promise<{
+  devices: number;
+  alerts: number;
+  activeAlerts: number;
+  stocksMonitored: number;
+}> {
+  const db = await getDb();
+  if (!db) {
+    console.warn("[Database] Cannot count price alerts: database not available");
+    return { devices: 0, alerts: 0, activeAlerts: 0, stocksMonitored: 0 };
+  }
+
+  const [[devices], [alerts]] = await Promise.all([
+    db.select({ total: count() }).from(notificationDevices),
+    db
+      .select({
+        total: count(),
+        active: sql<number>`cast(coalesce(sum(${priceAlerts.enabled}), 0) as signed)`,
+        stocks: countDistinct(sql`case when ${priceAlerts.enabled} then ${priceAlerts.stockId} end`),
+      })
+      .from(priceAlerts),
+  ]);
+
+  return {
+    devices: devices.total,
+    alerts: alerts.total,
+    activeAlerts: Number(alerts.active),
+    stocksMonitored: alerts.stocks,
+  };
+}
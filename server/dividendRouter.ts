@@ -0,0 +1,37 @@
+/**
+ * AGRX Dividend Router
+ *
+ * tRPC router for the ATHEX cash dividend calendar:
+ * - Every event (ex-date, record date, pay date, amount per share), which
+ *   signed-out clients also use to credit their local accounts
+ * - Upcoming payments for a set of stocks
+ */
+import { z } from "zod";
+import { publicProcedure, router } from "./_core/trpc";
+import { getDividendEvents, getUpcomingDividends } from "./dividendService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const stockIdsSchema = z
+  .object({
+    stockIds: z.array(z.string()).optional(),
+  })
+  .optional();
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const dividendRouter = router({
+  /**
+   * All dividend events, oldest ex-date first
+   */
+  getEvents: publicProcedure.input(stockIdsSchema).query(({ input }) => {
+    return { success: true as const, data: getDividendEvents(input?.stockIds) };
+  }),
+
+  /**
+   * Dividends not yet paid, soonest first
+   */
+  getUpcoming: publicProcedure.input(stockIdsSchema).query(({ input }) => {
+    return { success: true as const, data: getUpcomingDividends(Date.now(), input?.stockIds) };
+  }),
+});
@@ -0,0 +1,85 @@
+/**
+ * AGRX Dividend Service
+ *
+ * Cash dividend calendar for the ATHEX_SYMBOLS universe, read from a local
+ * fixture so it works without an upstream feed, and crediting of paid
+ * dividends into stored demo portfolios (see shared/dividends).
+ */
+import { creditDueDividends, type DividendCredit, type DividendEvent } from "../shared/dividends";
+import { DIVIDEND_FIXTURE } from "./fixtures/dividends";
+import { getAthensDayStart } from "./marketCalendar";
+import { updatePortfolio } from "./portfolioService";
+import { ATHEX_SYMBOLS } from "./stockService";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Fixture rows resolved to events, built on first use */
+let events: DividendEvent[] | null = null;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// ─── Events ─────────────────────────────────────────────────────────────────
+
+function loadEvents(): DividendEvent[] {
+  if (!events) {
+    events = DIVIDEND_FIXTURE.filter((row) => ATHEX_SYMBOLS[row.stockId])
+      .map((row) => ({
+        id: `${row.stockId}:${row.exDate}`,
+        stockId: row.stockId,
+        ticker: ATHEX_SYMBOLS[row.stockId].yahoo.replace(".AT", ""),
+        exDate: row.exDate,
+        recordDate: row.recordDate,
+        payDate: row.payDate,
+        amount: row.amount,
+        exTimestamp: getAthensDayStart(row.exDate),
+        payTimestamp: getAthensDayStart(row.payDate),
+      }))
+      .sort((a, b) => a.exTimestamp - b.exTimestamp);
+  }
+  return events;
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Dividend events, oldest ex-date first. Filters to `stockIds` when given.
+ */
+export function getDividendEvents(stockIds?: string[]): DividendEvent[] {
+  const all = loadEvents();
+  if (!stockIds) return all;
+  const wanted = new Set(stockIds);
+  return all.filter((e) => wanted.has(e.stockId));
+}
+
+/**
+ * Events not yet paid at `now`, soonest first.
+ */
+export function getUpcomingDividends(now: number = Date.now(), stockIds?: string[]): DividendEvent[] {
+  return getDividendEvents(stockIds)
+    .filter((e) => e.payTimestamp > now)
+    .sort((a, b) => a.payTimestamp - b.payTimestamp);
+}
+
+/**
+ * Cash dividends per share that went ex in the twelve months up to `now`.
+ */
+export function getTrailingDividends(stockId: string, now: number = Date.now()): number {
+  return getDividendEvents([stockId])
+    .filter((e) => e.exTimestamp <= now && e.exTimestamp > now - YEAR_MS)
+    .reduce((sum, e) => sum + e.amount, 0);
+}
+
+/**
+ * Credit every dividend a user's stored portfolio is owed. Returns the
+ * credits added (empty if none were due or the user has no portfolio).
+ */
+export async function creditPortfolioDividends(
+  userId: number,
+  now: number = Date.now(),
+): Promise<DividendCredit[]> {
+  const updated = await updatePortfolio(userId, (snapshot) => {
+    const { account, credited } = creditDueDividends(snapshot, loadEvents(), now);
+    return { snapshot: account, result: credited };
+  });
+  return updated?.result ?? [];
+}
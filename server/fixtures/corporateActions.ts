@@ -0,0 +1,42 @@
+/**
+ * AGRX Corporate Action Fixture
+ *
+ * Splits, reverse splits, rights issues and share capital returns for the
+ * ATHEX_SYMBOLS universe, shaped like ATHEX corporate announcements. Served
+ * by corporateActionService so chart adjustment and holding adjustments can
+ * be exercised without the live API. Terms are indicative — modelled on the
+ * kind of actions Greek small caps announce, not an official record.
+ */
+import type { CorporateActionType } from "../../shared/corporateActions";
+
+export interface CorporateActionFixtureRow {
+  stockId: string;
+  type: CorporateActionType;
+  /** Athens calendar date, YYYY-MM-DD */
+  exDate: string;
+  /** Splits: new shares per old share. Rights issues: new shares per share held */
+  ratio: number;
+  /** Rights issues: price per new share, in euros */
+  subscriptionPrice?: number;
+  /** Capital returns: cash per share, in euros */
+  cashPerShare?: number;
+  /** Last close before the ex-date, in euros */
+  referencePrice: number;
+}
+
+export const CORPORATE_ACTION_FIXTURE: CorporateActionFixtureRow[] = [
+  // ── 2025 ────────────────────────────────────────────────────────────────
+  { stockId: "attica",   type: "capital_return", exDate: "2025-04-07", ratio: 1, cashPerShare: 0.10, referencePrice: 2.30 },
+  { stockId: "intrk",    type: "rights_issue",   exDate: "2025-06-16", ratio: 0.5, subscriptionPrice: 1.80, referencePrice: 2.60 },
+  { stockId: "ellaktor", type: "capital_return", exDate: "2025-07-28", ratio: 1, cashPerShare: 0.25, referencePrice: 1.42 },
+  { stockId: "lavi",     type: "rights_issue",   exDate: "2025-09-15", ratio: 0.4, subscriptionPrice: 0.50, referencePrice: 0.72 },
+
+  // ── 2026 ────────────────────────────────────────────────────────────────
+  { stockId: "sunmezz",  type: "reverse_split",  exDate: "2026-03-09", ratio: 0.1, referencePrice: 0.05 },
+  { stockId: "yknot",    type: "rights_issue",   exDate: "2026-05-18", ratio: 1, subscriptionPrice: 0.30, referencePrice: 0.48 },
+  { stockId: "intek",    type: "capital_return", exDate: "2026-07-14", ratio: 1, cashPerShare: 0.12, referencePrice: 2.35 },
+  { stockId: "aktr",     type: "reverse_split",  exDate: "2026-10-12", ratio: 0.2, referencePrice: 1.15 },
+  { stockId: "bylot",    type: "reverse_split",  exDate: "2026-11-16", ratio: 0.25, referencePrice: 1.20 },
+  { stockId: "ellaktor", type: "capital_return", exDate: "2026-11-23", ratio: 1, cashPerShare: 0.30, referencePrice: 1.55 },
+  { stockId: "pvmezz",   type: "reverse_split",  exDate: "2026-12-07", ratio: 0.05, referencePrice: 0.03 },
+];
@@ -0,0 +1,76 @@
+/**
+ * AGRX Dividend Fixture
+ *
+ * Cash dividends for the ATHEX_SYMBOLS universe, shaped like ATHEX corporate
+ * announcements. Served by dividendService so the calendar and demo crediting
+ * work offline. Amounts are gross per share in euros and indicative — close
+ * to what each issuer has paid, not an official record.
+ */
+
+export interface DividendFixtureRow {
+  stockId: string;
+  /** Athens calendar dates, YYYY-MM-DD */
+  exDate: string;
+  recordDate: string;
+  payDate: string;
+  /** Gross amount per share, in euros */
+  amount: number;
+}
+
+export const DIVIDEND_FIXTURE: DividendFixtureRow[] = [
+  // ── 2025 ────────────────────────────────────────────────────────────────
+  { stockId: "opap",      exDate: "2025-04-29", recordDate: "2025-04-30", payDate: "2025-05-06", amount: 0.80 },
+  { stockId: "hto",       exDate: "2025-07-01", recordDate: "2025-07-02", payDate: "2025-07-08", amount: 0.56 },
+  { stockId: "mtln",      exDate: "2025-06-24", recordDate: "2025-06-25", payDate: "2025-07-01", amount: 1.50 },
+  { stockId: "ete",       exDate: "2025-06-03", recordDate: "2025-06-04", payDate: "2025-06-10", amount: 0.44 },
+  { stockId: "eurob",     exDate: "2025-05-27", recordDate: "2025-05-28", payDate: "2025-06-03", amount: 0.09 },
+  { stockId: "tpeir",     exDate: "2025-06-05", recordDate: "2025-06-06", payDate: "2025-06-12", amount: 0.19 },
+  { stockId: "ppc",       exDate: "2025-07-14", recordDate: "2025-07-15", payDate: "2025-07-21", amount: 0.40 },
+  { stockId: "moh",       exDate: "2025-06-30", recordDate: "2025-07-01", payDate: "2025-07-07", amount: 1.00 },
+  { stockId: "elpe",      exDate: "2025-07-01", recordDate: "2025-07-02", payDate: "2025-07-08", amount: 0.60 },
+  { stockId: "bela",      exDate: "2025-07-21", recordDate: "2025-07-22", payDate: "2025-07-28", amount: 0.95 },
+  { stockId: "opap",      exDate: "2025-11-03", recordDate: "2025-11-04", payDate: "2025-11-10", amount: 0.50 },
+  { stockId: "bela",      exDate: "2025-11-24", recordDate: "2025-11-25", payDate: "2025-12-01", amount: 0.50 },
+  { stockId: "hto",       exDate: "2025-12-08", recordDate: "2025-12-09", payDate: "2025-12-15", amount: 0.30 },
+
+  // ── 2026 ────────────────────────────────────────────────────────────────
+  { stockId: "opap",      exDate: "2026-04-28", recordDate: "2026-04-29", payDate: "2026-05-05", amount: 0.85 },
+  { stockId: "eee",       exDate: "2026-05-21", recordDate: "2026-05-22", payDate: "2026-06-23", amount: 1.10 },
+  { stockId: "ete",       exDate: "2026-06-02", recordDate: "2026-06-03", payDate: "2026-06-09", amount: 0.56 },
+  { stockId: "eurob",     exDate: "2026-05-26", recordDate: "2026-05-27", payDate: "2026-06-02", amount: 0.12 },
+  { stockId: "alpha",     exDate: "2026-06-09", recordDate: "2026-06-10", payDate: "2026-06-16", amount: 0.06 },
+  { stockId: "tpeir",     exDate: "2026-06-04", recordDate: "2026-06-05", payDate: "2026-06-11", amount: 0.23 },
+  { stockId: "mtln",      exDate: "2026-06-23", recordDate: "2026-06-24", payDate: "2026-06-30", amount: 1.60 },
+  { stockId: "hto",       exDate: "2026-06-30", recordDate: "2026-07-01", payDate: "2026-07-07", amount: 0.62 },
+  { stockId: "ppc",       exDate: "2026-07-13", recordDate: "2026-07-14", payDate: "2026-07-20", amount: 0.60 },
+  { stockId: "moh",       exDate: "2026-06-29", recordDate: "2026-06-30", payDate: "2026-07-06", amount: 1.20 },
+  { stockId: "elpe",      exDate: "2026-06-30", recordDate: "2026-07-01", payDate: "2026-07-07", amount: 0.70 },
+  { stockId: "bela",      exDate: "2026-07-20", recordDate: "2026-07-21", payDate: "2026-07-27", amount: 1.00 },
+  { stockId: "aia",       exDate: "2026-05-12", recordDate: "2026-05-13", payDate: "2026-05-19", amount: 0.42 },
+  { stockId: "titc",      exDate: "2026-07-02", recordDate: "2026-07-03", payDate: "2026-07-09", amount: 1.00 },
+  { stockId: "gekterna",  exDate: "2026-07-06", recordDate: "2026-07-07", payDate: "2026-07-13", amount: 0.30 },
+  { stockId: "ppa",       exDate: "2026-06-15", recordDate: "2026-06-16", payDate: "2026-06-22", amount: 1.85 },
+  { stockId: "eydap",     exDate: "2026-07-27", recordDate: "2026-07-28", payDate: "2026-08-03", amount: 0.30 },
+  { stockId: "eyaps",     exDate: "2026-07-29", recordDate: "2026-07-30", payDate: "2026-08-05", amount: 0.18 },
+  { stockId: "admie",     exDate: "2026-07-20", recordDate: "2026-07-21", payDate: "2026-07-27", amount: 0.16 },
+  { stockId: "kare",      exDate: "2026-06-22", recordDate: "2026-06-23", payDate: "2026-06-29", amount: 1.20 },
+  { stockId: "kri",       exDate: "2026-06-15", recordDate: "2026-06-16", payDate: "2026-06-22", amount: 0.40 },
+  { stockId: "prodea",    exDate: "2026-06-29", recordDate: "2026-06-30", payDate: "2026-07-06", amount: 0.14 },
+  { stockId: "noval",     exDate: "2026-06-08", recordDate: "2026-06-09", payDate: "2026-06-15", amount: 0.02 },
+  { stockId: "trastor",   exDate: "2026-07-06", recordDate: "2026-07-07", payDate: "2026-07-13", amount: 0.04 },
+  { stockId: "briq",      exDate: "2026-06-01", recordDate: "2026-06-02", payDate: "2026-06-08", amount: 0.10 },
+  { stockId: "premia",    exDate: "2026-06-22", recordDate: "2026-06-23", payDate: "2026-06-29", amount: 0.03 },
+  { stockId: "trestates", exDate: "2026-06-29", recordDate: "2026-06-30", payDate: "2026-07-06", amount: 0.07 },
+  { stockId: "credia",    exDate: "2026-06-16", recordDate: "2026-06-17", payDate: "2026-06-23", amount: 0.05 },
+  { stockId: "mtln",      exDate: "2026-10-13", recordDate: "2026-10-14", payDate: "2026-10-20", amount: 0.50 },
+  { stockId: "opap",      exDate: "2026-11-02", recordDate: "2026-11-03", payDate: "2026-11-09", amount: 0.50 },
+  { stockId: "ete",       exDate: "2026-11-16", recordDate: "2026-11-17", payDate: "2026-11-23", amount: 0.20 },
+  { stockId: "eurob",     exDate: "2026-11-09", recordDate: "2026-11-10", payDate: "2026-11-16", amount: 0.05 },
+  { stockId: "moh",       exDate: "2026-11-30", recordDate: "2026-12-01", payDate: "2026-12-07", amount: 0.40 },
+  { stockId: "bela",      exDate: "2026-11-23", recordDate: "2026-11-24", payDate: "2026-11-30", amount: 0.55 },
+  { stockId: "hto",       exDate: "2026-12-07", recordDate: "2026-12-08", payDate: "2026-12-14", amount: 0.32 },
+
+  // ── 2027 (declared) ─────────────────────────────────────────────────────
+  { stockId: "opap",      exDate: "2027-04-27", recordDate: "2027-04-28", payDate: "2027-05-04", amount: 0.90 },
+  { stockId: "ete",       exDate: "2027-06-01", recordDate: "2027-06-02", payDate: "2027-06-08", amount: 0.60 },
+];
@@ -0,0 +1,233 @@
+/**
+ * AGRX Fundamentals Fixture
+ *
+ * Latest annual figures and a short profile for the larger ATHEX_SYMBOLS
+ * names, served by the fixture fundamentals provider so the asset screen
+ * and screener work offline. Amounts are in euros and indicative — close to
+ * each issuer's reported results, not an official record.
+ */
+import type { ReportedFundamentals } from "../../shared/fundamentals";
+
+export const FUNDAMENTALS_FIXTURE: ReportedFundamentals[] = [
+  // ── Blue-Chip ───────────────────────────────────────────────────────────
+  {
+    stockId: "eee", fiscalYear: 2025, sharesOutstanding: 364_000_000, freeFloat: 77,
+    eps: 2.12, bookValuePerShare: 8.7, revenue: 10_750_000_000, netIncome: 772_000_000,
+    profile: {
+      description: "Bottler of Coca-Cola system brands across 29 countries in Europe and Africa.",
+      headquarters: "Steinhausen, Switzerland", founded: 1969, employees: 33_000, website: "coca-colahellenic.com",
+    },
+  },
+  {
+    stockId: "eurob", fiscalYear: 2025, sharesOutstanding: 3_670_000_000, freeFloat: 98,
+    eps: 0.36, bookValuePerShare: 2.2, revenue: 2_900_000_000, netIncome: 1_320_000_000,
+    profile: {
+      description: "Greek universal bank with operations in Cyprus, Bulgaria and Luxembourg.",
+      headquarters: "Athens, Greece", founded: 1990, employees: 11_000, website: "eurobank.gr",
+    },
+  },
+  {
+    stockId: "ete", fiscalYear: 2025, sharesOutstanding: 914_700_000, freeFloat: 92,
+    eps: 1.18, bookValuePerShare: 9.5, revenue: 2_900_000_000, netIncome: 1_080_000_000,
+    profile: {
+      description: "Greece's oldest commercial bank, serving retail and corporate clients nationwide.",
+      headquarters: "Athens, Greece", founded: 1841, employees: 7_900, website: "nbg.gr",
+    },
+  },
+  {
+    stockId: "tpeir", fiscalYear: 2025, sharesOutstanding: 1_250_000_000, freeFloat: 92,
+    eps: 0.8, bookValuePerShare: 7.0, revenue: 3_000_000_000, netIncome: 1_000_000_000,
+    profile: {
+      description: "Largest Greek bank by assets, with retail, corporate and asset management arms.",
+      headquarters: "Athens, Greece", founded: 1916, employees: 8_700, website: "piraeusholdings.gr",
+    },
+  },
+  {
+    stockId: "alpha", fiscalYear: 2025, sharesOutstanding: 2_310_000_000, freeFloat: 71,
+    eps: 0.3, bookValuePerShare: 3.3, revenue: 2_200_000_000, netIncome: 690_000_000,
+    profile: {
+      description: "Greek banking group with operations in Cyprus and Romania.",
+      headquarters: "Athens, Greece", founded: 1879, employees: 8_200, website: "alpha.gr",
+    },
+  },
+  {
+    stockId: "ppc", fiscalYear: 2025, sharesOutstanding: 367_000_000, freeFloat: 57,
+    eps: 1.1, bookValuePerShare: 14.6, revenue: 8_900_000_000, netIncome: 404_000_000,
+    profile: {
+      description: "Integrated power utility in generation, distribution and retail across Greece and Romania.",
+      headquarters: "Athens, Greece", founded: 1950, employees: 19_000, website: "ppcgroup.com",
+    },
+  },
+  {
+    stockId: "hto", fiscalYear: 2025, sharesOutstanding: 410_000_000, freeFloat: 45,
+    eps: 1.15, bookValuePerShare: 4.6, revenue: 3_600_000_000, netIncome: 472_000_000,
+    profile: {
+      description: "Incumbent fixed and mobile telecom operator, part of the Deutsche Telekom group.",
+      headquarters: "Athens, Greece", founded: 1949, employees: 10_000, website: "cosmote.gr",
+    },
+  },
+  {
+    stockId: "opap", fiscalYear: 2025, sharesOutstanding: 370_000_000, freeFloat: 48,
+    eps: 1.35, bookValuePerShare: 1.8, revenue: 2_100_000_000, netIncome: 500_000_000,
+    profile: {
+      description: "Licensed operator of lotteries, sports betting and online gaming in Greece and Cyprus.",
+      headquarters: "Athens, Greece", founded: 1958, employees: 1_700, website: "opap.gr",
+    },
+  },
+  {
+    stockId: "mtln", fiscalYear: 2025, sharesOutstanding: 143_000_000, freeFloat: 55,
+    eps: 4.4, bookValuePerShare: 20.3, revenue: 5_700_000_000, netIncome: 630_000_000,
+    profile: {
+      description: "Industrial group in metallurgy, energy generation and infrastructure projects.",
+      headquarters: "Athens, Greece", founded: 1990, employees: 6_400, website: "metlengroup.com",
+    },
+  },
+  {
+    stockId: "bochgr", fiscalYear: 2025, sharesOutstanding: 435_000_000, freeFloat: 90,
+    eps: 1.12, bookValuePerShare: 6.6, revenue: 1_100_000_000, netIncome: 487_000_000,
+    profile: {
+      description: "Largest banking and financial services group in Cyprus.",
+      headquarters: "Nicosia, Cyprus", founded: 1899, employees: 2_900, website: "bankofcyprus.com",
+    },
+  },
+  {
+    stockId: "cener", fiscalYear: 2025, sharesOutstanding: 211_000_000, freeFloat: 36,
+    eps: 0.6, bookValuePerShare: 3.2, revenue: 1_600_000_000, netIncome: 127_000_000,
+    profile: {
+      description: "Maker of power and telecom cables and steel pipes for energy transmission.",
+      headquarters: "Brussels, Belgium", founded: 2016, employees: 2_300, website: "cenergyholdings.com",
+    },
+  },
+  {
+    stockId: "titc", fiscalYear: 2025, sharesOutstanding: 75_000_000, freeFloat: 63,
+    eps: 3.4, bookValuePerShare: 25.0, revenue: 2_600_000_000, netIncome: 255_000_000,
+    profile: {
+      description: "Cement and building materials producer in the US, Europe and the Eastern Mediterranean.",
+      headquarters: "Brussels, Belgium", founded: 1902, employees: 6_000, website: "titan-cement.com",
+    },
+  },
+  {
+    stockId: "moh", fiscalYear: 2025, sharesOutstanding: 110_800_000, freeFloat: 60,
+    eps: 5.0, bookValuePerShare: 24.0, revenue: 13_100_000_000, netIncome: 554_000_000,
+    profile: {
+      description: "Crude oil refiner and fuels marketer operating the Corinth refinery.",
+      headquarters: "Marousi, Greece", founded: 1970, employees: 3_000, website: "moh.gr",
+    },
+  },
+  {
+    stockId: "gekterna", fiscalYear: 2025, sharesOutstanding: 103_400_000, freeFloat: 55,
+    eps: 1.45, bookValuePerShare: 12.0, revenue: 1_500_000_000, netIncome: 150_000_000,
+    profile: {
+      description: "Construction, concessions and energy group behind major Greek motorways.",
+      headquarters: "Athens, Greece", founded: 1960, employees: 4_500, website: "gekterna.com",
+    },
+  },
+  {
+    stockId: "aia", fiscalYear: 2025, sharesOutstanding: 300_000_000, freeFloat: 55,
+    eps: 0.73, bookValuePerShare: 1.8, revenue: 760_000_000, netIncome: 219_000_000,
+    profile: {
+      description: "Concession holder and operator of Athens International Airport Eleftherios Venizelos.",
+      headquarters: "Spata, Greece", founded: 1996, employees: 900, website: "aia.gr",
+    },
+  },
+  {
+    stockId: "bela", fiscalYear: 2025, sharesOutstanding: 136_000_000, freeFloat: 80,
+    eps: 2.4, bookValuePerShare: 10.0, revenue: 1_100_000_000, netIncome: 327_000_000,
+    profile: {
+      description: "Toy and seasonal goods retailer with stores in Greece, Cyprus, Bulgaria and Romania.",
+      headquarters: "Moschato, Greece", founded: 1986, employees: 6_200, website: "e-jumbo.gr",
+    },
+  },
+  {
+    stockId: "vio", fiscalYear: 2025, sharesOutstanding: 259_200_000, freeFloat: 35,
+    eps: 0.55, bookValuePerShare: 6.5, revenue: 6_000_000_000, netIncome: 143_000_000,
+    profile: {
+      description: "Holding company of aluminium, copper, cable and steel processing businesses.",
+      headquarters: "Brussels, Belgium", founded: 1937, employees: 12_000, website: "viohalco.com",
+    },
+  },
+  {
+    stockId: "elpe", fiscalYear: 2025, sharesOutstanding: 305_600_000, freeFloat: 24,
+    eps: 0.6, bookValuePerShare: 10.0, revenue: 12_800_000_000, netIncome: 183_000_000,
+    profile: {
+      description: "Refiner and fuels marketer with three Greek refineries and a growing renewables arm.",
+      headquarters: "Marousi, Greece", founded: 1998, employees: 3_500, website: "helleniqenergy.gr",
+    },
+  },
+
+  // ── Dividend / Utilities ────────────────────────────────────────────────
+  {
+    stockId: "kare", fiscalYear: 2025, sharesOutstanding: 2_760_000, freeFloat: 18,
+    eps: 25.0, bookValuePerShare: 190.0, revenue: 200_000_000, netIncome: 69_000_000,
+    profile: {
+      description: "Family-run tobacco manufacturer exporting cigarettes to over 70 countries.",
+      headquarters: "Kalamata, Greece", founded: 1888, employees: 500, website: "karelia.gr",
+    },
+  },
+  {
+    stockId: "ppa", fiscalYear: 2025, sharesOutstanding: 25_000_000, freeFloat: 25,
+    eps: 2.4, bookValuePerShare: 14.0, revenue: 220_000_000, netIncome: 60_000_000,
+    profile: {
+      description: "Operator of the container, cruise and car terminals at the Port of Piraeus.",
+      headquarters: "Piraeus, Greece", founded: 1930, employees: 1_100, website: "olp.gr",
+    },
+  },
+  {
+    stockId: "eydap", fiscalYear: 2025, sharesOutstanding: 106_500_000, freeFloat: 27,
+    eps: 0.45, bookValuePerShare: 7.5, revenue: 340_000_000, netIncome: 48_000_000,
+    profile: {
+      description: "Water supply and sewerage utility for the greater Athens area.",
+      headquarters: "Athens, Greece", founded: 1980, employees: 2_300, website: "eydap.gr",
+    },
+  },
+  {
+    stockId: "kri", fiscalYear: 2025, sharesOutstanding: 33_000_000, freeFloat: 40,
+    eps: 1.0, bookValuePerShare: 4.0, revenue: 250_000_000, netIncome: 33_000_000,
+    profile: {
+      description: "Dairy producer best known for Greek yogurt sold across Europe.",
+      headquarters: "Serres, Greece", founded: 1954, employees: 600, website: "krikri.gr",
+    },
+  },
+
+  // ── Growth / Mid-Cap ────────────────────────────────────────────────────
+  {
+    stockId: "aegn", fiscalYear: 2025, sharesOutstanding: 90_200_000, freeFloat: 55,
+    eps: 1.2, bookValuePerShare: 5.0, revenue: 1_750_000_000, netIncome: 108_000_000,
+    profile: {
+      description: "Largest Greek airline, with Olympic Air as its regional subsidiary.",
+      headquarters: "Kifissia, Greece", founded: 1987, employees: 3_000, website: "aegeanair.com",
+    },
+  },
+  {
+    stockId: "lamda", fiscalYear: 2025, sharesOutstanding: 176_700_000, freeFloat: 50,
+    eps: 0.2, bookValuePerShare: 5.6, revenue: 300_000_000, netIncome: 35_000_000,
+    profile: {
+      description: "Real estate developer of shopping malls and the Ellinikon urban regeneration project.",
+      headquarters: "Marousi, Greece", founded: 1977, employees: 450, website: "lamdadev.com",
+    },
+  },
+  {
+    stockId: "exae", fiscalYear: 2025, sharesOutstanding: 57_200_000, freeFloat: 90,
+    eps: 0.26, bookValuePerShare: 1.7, revenue: 50_000_000, netIncome: 15_000_000,
+    profile: {
+      description: "Operator of the Athens Stock Exchange, its clearing house and central depository.",
+      headquarters: "Athens, Greece", founded: 1876, employees: 250, website: "athexgroup.gr",
+    },
+  },
+  {
+    stockId: "prof", fiscalYear: 2025, sharesOutstanding: 24_600_000, freeFloat: 50,
+    eps: 0.25, bookValuePerShare: 2.0, revenue: 37_000_000, netIncome: 6_000_000,
+    profile: {
+      description: "Software vendor for investment management, banking and treasury.",
+      headquarters: "Athens, Greece", founded: 1990, employees: 400, website: "profilesw.com",
+    },
+  },
+  {
+    stockId: "frigo", fiscalYear: 2025, sharesOutstanding: 356_900_000, freeFloat: 55,
+    eps: -0.05, bookValuePerShare: -0.1, revenue: 440_000_000, netIncome: -18_000_000,
+    profile: {
+      description: "Maker of commercial beverage coolers and glass containers.",
+      headquarters: "Kifissia, Greece", founded: 1993, employees: 2_600, website: "frigoglass.com",
+    },
+  },
+];
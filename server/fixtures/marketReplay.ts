@@ -0,0 +1,880 @@
+/**
+ * AGRX Market Replay Sample
+ *
+ * A small recorded-format sample for the replay market data provider: two
+ * 5-minute sessions (15–16 Oct 2026) and the daily candles before them for
+ * three blue chips and the Composite index. The series are synthetic random
+ * walks around realistic price levels, not real ATHEX prints — record a real
+ * file with `pnpm record:market` and point MARKET_DATA_REPLAY_FILE at it.
+ */
+import type { ReplayRecording } from "../replayMarketData";
+
+export const SAMPLE_REPLAY_RECORDING: ReplayRecording = {
+  recordedAt: 1792172400000,
+  symbols: {
+    "ETE.AT": {
+      name: "National Bank of Greece",
+      currency: "EUR",
+      exchange: "ATH",
+      marketCap: 13900000000,
+      daily: [
+        [1787209200, 17.08, 17.147, 16.91, 16.922, 1987275],
+        [1787295600, 16.958, 17.202, 16.814, 17.19, 3264490],
+        [1787554800, 17.1, 17.139, 16.952, 17.109, 2495137],
+        [1787641200, 17.007, 17.038, 16.746, 16.766, 4117719],
+        [1787727600, 16.863, 17.234, 16.799, 17.169, 2002228],
+        [1787814000, 17.055, 17.217, 17.032, 17.171, 2145512],
+        [1787900400, 17.126, 17.186, 16.779, 16.828, 3532601],
+        [1788159600, 16.841, 16.968, 16.761, 16.854, 2203977],
+        [1788246000, 16.758, 16.825, 16.643, 16.801, 1840997],
+        [1788332400, 16.813, 16.82, 16.615, 16.643, 3961093],
+        [1788418800, 16.619, 16.697, 16.1, 16.432, 3987321],
+        [1788505200, 16.371, 16.602, 16.34, 16.377, 2696497],
+        [1788764400, 16.469, 16.495, 16.32, 16.382, 3817080],
+        [1788850800, 16.483, 16.49, 16.059, 16.246, 4139743],
+        [1788937200, 16.238, 16.255, 15.938, 16.116, 3008124],
+        [1789023600, 16.165, 16.167, 15.978, 16.006, 3127509],
+        [1789110000, 16.012, 16.133, 15.894, 16.073, 2182930],
+        [1789369200, 15.944, 16.13, 15.871, 16.002, 2173246],
+        [1789455600, 16.051, 16.058, 15.895, 15.955, 3081435],
+        [1789542000, 16.046, 16.227, 15.997, 16.134, 1846240],
+        [1789628400, 16.107, 16.14, 15.869, 16.03, 3463517],
+        [1789714800, 15.975, 16.018, 15.725, 15.774, 1941956],
+        [1789974000, 15.737, 15.766, 15.611, 15.647, 3814255],
+        [1790060400, 15.665, 15.891, 15.548, 15.819, 3355009],
+        [1790146800, 15.84, 15.975, 15.805, 15.831, 2342750],
+        [1790233200, 15.866, 15.947, 15.761, 15.851, 2622873],
+        [1790319600, 15.798, 15.891, 15.508, 15.586, 2864987],
+        [1790578800, 15.571, 15.672, 15.524, 15.618, 3287295],
+        [1790665200, 15.675, 15.723, 15.369, 15.381, 4071130],
+        [1790751600, 15.391, 15.568, 15.37, 15.485, 2923474],
+        [1790838000, 15.457, 15.6, 15.217, 15.589, 2752606],
+        [1790924400, 15.582, 15.948, 15.54, 15.88, 3963447],
+        [1791183600, 16.025, 16.077, 15.679, 15.848, 3252789],
+        [1791270000, 15.941, 15.955, 15.602, 15.623, 1753782],
+        [1791356400, 15.601, 15.649, 15.138, 15.182, 3255795],
+        [1791442800, 15.306, 15.32, 15.024, 15.069, 3693854],
+        [1791529200, 15.062, 15.251, 15.016, 15.182, 2582342],
+        [1791788400, 15.225, 15.234, 15.149, 15.155, 2602580],
+        [1791874800, 15.078, 15.103, 14.981, 15.001, 2673431],
+        [1791961200, 14.991, 15.084, 14.866, 14.912, 3113460],
+        [1792047600, 14.922, 15.207, 14.852, 15.089, 2661328],
+        [1792134000, 14.97, 15.28, 14.748, 15.25, 2744069],
+      ],
+      intraday: [
+        [1792049400, 14.922, 14.923, 14.901, 14.922, 88483],
+        [1792049700, 14.922, 14.927, 14.881, 14.905, 74046],
+        [1792050000, 14.905, 14.94, 14.904, 14.924, 45903],
+        [1792050300, 14.924, 14.932, 14.882, 14.918, 34049],
+        [1792050600, 14.918, 14.927, 14.892, 14.923, 46990],
+        [1792050900, 14.923, 14.928, 14.889, 14.905, 57211],
+        [1792051200, 14.905, 14.953, 14.88, 14.952, 20000],
+        [1792051500, 14.952, 14.965, 14.887, 14.89, 29150],
+        [1792051800, 14.89, 14.906, 14.874, 14.886, 20209],
+        [1792052100, 14.886, 14.938, 14.852, 14.933, 40967],
+        [1792052400, 14.933, 14.961, 14.926, 14.952, 31124],
+        [1792052700, 14.952, 14.959, 14.93, 14.952, 28574],
+        [1792053000, 14.952, 14.979, 14.946, 14.969, 19015],
+        [1792053300, 14.969, 14.989, 14.943, 14.964, 27980],
+        [1792053600, 14.964, 14.997, 14.945, 14.978, 13857],
+        [1792053900, 14.978, 15.032, 14.977, 15.004, 16063],
+        [1792054200, 15.004, 15.006, 14.986, 14.992, 28768],
+        [1792054500, 14.992, 15.009, 14.966, 15.001, 36707],
+        [1792054800, 15.001, 15.012, 14.98, 15.008, 19422],
+        [1792055100, 15.008, 15.024, 14.977, 15.021, 20692],
+        [1792055400, 15.021, 15.041, 14.996, 15.03, 21151],
+        [1792055700, 15.03, 15.045, 14.992, 15.007, 22226],
+        [1792056000, 15.007, 15.009, 14.977, 14.984, 37260],
+        [1792056300, 14.984, 14.995, 14.967, 14.983, 39846],
+        [1792056600, 14.983, 14.989, 14.979, 14.98, 30426],
+        [1792056900, 14.98, 14.985, 14.934, 14.954, 32414],
+        [1792057200, 14.954, 14.969, 14.921, 14.953, 20369],
+        [1792057500, 14.953, 14.961, 14.951, 14.958, 19692],
+        [1792057800, 14.958, 15.003, 14.952, 14.988, 29225],
+        [1792058100, 14.988, 15.014, 14.967, 14.976, 30467],
+        [1792058400, 14.976, 14.978, 14.96, 14.964, 21453],
+        [1792058700, 14.964, 14.991, 14.953, 14.98, 14104],
+        [1792059000, 14.98, 14.988, 14.943, 14.966, 32855],
+        [1792059300, 14.966, 14.971, 14.949, 14.966, 23649],
+        [1792059600, 14.966, 14.98, 14.959, 14.978, 34541],
+        [1792059900, 14.978, 14.98, 14.959, 14.964, 34068],
+        [1792060200, 14.964, 14.97, 14.927, 14.929, 29976],
+        [1792060500, 14.929, 14.982, 14.909, 14.964, 36943],
+        [1792060800, 14.964, 14.994, 14.953, 14.973, 36884],
+        [1792061100, 14.973, 14.99, 14.95, 14.958, 27096],
+        [1792061400, 14.958, 14.965, 14.952, 14.96, 18544],
+        [1792061700, 14.96, 14.985, 14.945, 14.957, 28549],
+        [1792062000, 14.957, 14.963, 14.935, 14.957, 19865],
+        [1792062300, 14.957, 14.968, 14.923, 14.967, 15229],
+        [1792062600, 14.967, 14.982, 14.945, 14.95, 39717],
+        [1792062900, 14.95, 14.965, 14.932, 14.964, 17734],
+        [1792063200, 14.964, 15.003, 14.959, 14.99, 25387],
+        [1792063500, 14.99, 15.027, 14.981, 15.002, 31142],
+        [1792063800, 15.002, 15.058, 14.979, 15.043, 14530],
+        [1792064100, 15.043, 15.075, 15.038, 15.058, 32447],
+        [1792064400, 15.058, 15.085, 15.036, 15.069, 37967],
+        [1792064700, 15.069, 15.074, 15.043, 15.072, 22223],
+        [1792065000, 15.072, 15.095, 15.066, 15.076, 24591],
+        [1792065300, 15.076, 15.08, 15.042, 15.057, 32988],
+        [1792065600, 15.057, 15.081, 15.048, 15.07, 24802],
+        [1792065900, 15.07, 15.09, 15.068, 15.081, 33827],
+        [1792066200, 15.081, 15.091, 15.051, 15.084, 20311],
+        [1792066500, 15.084, 15.109, 15.064, 15.068, 23194],
+        [1792066800, 15.068, 15.106, 15.062, 15.086, 28354],
+        [1792067100, 15.086, 15.129, 15.083, 15.118, 23323],
+        [1792067400, 15.118, 15.133, 15.099, 15.119, 30838],
+        [1792067700, 15.119, 15.121, 15.078, 15.105, 14628],
+        [1792068000, 15.105, 15.129, 15.096, 15.119, 16334],
+        [1792068300, 15.119, 15.124, 15.105, 15.114, 39685],
+        [1792068600, 15.114, 15.148, 15.103, 15.131, 21932],
+        [1792068900, 15.131, 15.133, 15.118, 15.123, 30711],
+        [1792069200, 15.123, 15.143, 15.102, 15.122, 38086],
+        [1792069500, 15.122, 15.149, 15.111, 15.142, 38705],
+        [1792069800, 15.142, 15.168, 15.119, 15.158, 40219],
+        [1792070100, 15.158, 15.179, 15.134, 15.149, 17873],
+        [1792070400, 15.149, 15.174, 15.147, 15.169, 40289],
+        [1792070700, 15.169, 15.177, 15.16, 15.161, 29440],
+        [1792071000, 15.161, 15.166, 15.118, 15.127, 38888],
+        [1792071300, 15.127, 15.17, 15.119, 15.158, 24864],
+        [1792071600, 15.158, 15.199, 15.157, 15.195, 39486],
+        [1792071900, 15.195, 15.207, 15.162, 15.177, 37036],
+        [1792072200, 15.177, 15.199, 15.144, 15.151, 31964],
+        [1792072500, 15.151, 15.161, 15.122, 15.143, 68708],
+        [1792072800, 15.143, 15.155, 15.106, 15.11, 91139],
+        [1792073100, 15.11, 15.114, 15.106, 15.114, 86528],
+        [1792073400, 15.114, 15.132, 15.097, 15.105, 58667],
+        [1792073700, 15.105, 15.108, 15.073, 15.089, 36729],
+        [1792135800, 14.97, 14.973, 14.959, 14.97, 66870],
+        [1792136100, 14.97, 15.017, 14.961, 14.997, 41285],
+        [1792136400, 14.997, 15.058, 14.995, 15.027, 57481],
+        [1792136700, 15.027, 15.035, 14.983, 15.002, 87334],
+        [1792137000, 15.002, 15.003, 14.962, 14.986, 81069],
+        [1792137300, 14.986, 15.001, 14.979, 15.0, 64901],
+        [1792137600, 15.0, 15.004, 14.995, 15.004, 28561],
+        [1792137900, 15.004, 15.018, 14.989, 15.0, 17088],
+        [1792138200, 15.0, 15.003, 14.976, 15.0, 29699],
+        [1792138500, 15.0, 15.022, 14.986, 15.021, 37749],
+        [1792138800, 15.021, 15.049, 14.961, 14.969, 37212],
+        [1792139100, 14.969, 14.971, 14.916, 14.922, 16261],
+        [1792139400, 14.922, 14.936, 14.918, 14.93, 38386],
+        [1792139700, 14.93, 14.934, 14.918, 14.926, 16639],
+        [1792140000, 14.926, 14.947, 14.895, 14.913, 28419],
+        [1792140300, 14.913, 14.92, 14.882, 14.897, 25612],
+        [1792140600, 14.897, 14.911, 14.89, 14.891, 28394],
+        [1792140900, 14.891, 14.901, 14.891, 14.899, 38096],
+        [1792141200, 14.899, 14.941, 14.897, 14.91, 38599],
+        [1792141500, 14.91, 14.924, 14.871, 14.889, 30967],
+        [1792141800, 14.889, 14.892, 14.843, 14.87, 15291],
+        [1792142100, 14.87, 14.876, 14.856, 14.861, 37130],
+        [1792142400, 14.861, 14.881, 14.822, 14.842, 34097],
+        [1792142700, 14.842, 14.864, 14.84, 14.848, 26650],
+        [1792143000, 14.848, 14.866, 14.833, 14.851, 15493],
+        [1792143300, 14.851, 14.872, 14.804, 14.813, 28456],
+        [1792143600, 14.813, 14.817, 14.786, 14.798, 27249],
+        [1792143900, 14.798, 14.808, 14.761, 14.769, 40840],
+        [1792144200, 14.769, 14.788, 14.765, 14.77, 19645],
+        [1792144500, 14.77, 14.805, 14.748, 14.774, 29666],
+        [1792144800, 14.774, 14.812, 14.757, 14.81, 16049],
+        [1792145100, 14.81, 14.83, 14.802, 14.823, 30839],
+        [1792145400, 14.823, 14.826, 14.807, 14.825, 29724],
+        [1792145700, 14.825, 14.829, 14.803, 14.811, 30756],
+        [1792146000, 14.811, 14.818, 14.81, 14.81, 26872],
+        [1792146300, 14.81, 14.819, 14.778, 14.806, 33569],
+        [1792146600, 14.806, 14.826, 14.779, 14.812, 19744],
+        [1792146900, 14.812, 14.84, 14.806, 14.837, 20201],
+        [1792147200, 14.837, 14.841, 14.811, 14.811, 28108],
+        [1792147500, 14.811, 14.852, 14.79, 14.8, 34192],
+        [1792147800, 14.8, 14.825, 14.794, 14.81, 34483],
+        [1792148100, 14.81, 14.861, 14.804, 14.843, 37205],
+        [1792148400, 14.843, 14.864, 14.824, 14.859, 21902],
+        [1792148700, 14.859, 14.889, 14.854, 14.881, 38958],
+        [1792149000, 14.881, 14.884, 14.843, 14.862, 35836],
+        [1792149300, 14.862, 14.874, 14.812, 14.833, 35095],
+        [1792149600, 14.833, 14.865, 14.817, 14.853, 40346],
+        [1792149900, 14.853, 14.891, 14.851, 14.879, 28911],
+        [1792150200, 14.879, 14.891, 14.854, 14.854, 24649],
+        [1792150500, 14.854, 14.861, 14.84, 14.852, 31739],
+        [1792150800, 14.852, 14.869, 14.835, 14.839, 39260],
+        [1792151100, 14.839, 14.864, 14.829, 14.863, 22170],
+        [1792151400, 14.863, 14.891, 14.851, 14.891, 37326],
+        [1792151700, 14.891, 14.912, 14.885, 14.888, 23105],
+        [1792152000, 14.888, 14.928, 14.879, 14.926, 29956],
+        [1792152300, 14.926, 14.981, 14.924, 14.965, 13728],
+        [1792152600, 14.965, 14.979, 14.946, 14.962, 22935],
+        [1792152900, 14.962, 14.978, 14.949, 14.973, 33694],
+        [1792153200, 14.973, 14.988, 14.97, 14.979, 30878],
+        [1792153500, 14.979, 14.987, 14.959, 14.984, 20753],
+        [1792153800, 14.984, 15.042, 14.97, 15.029, 38862],
+        [1792154100, 15.029, 15.069, 15.024, 15.057, 35885],
+        [1792154400, 15.057, 15.076, 15.051, 15.067, 37706],
+        [1792154700, 15.067, 15.111, 15.049, 15.1, 19236],
+        [1792155000, 15.1, 15.125, 15.073, 15.093, 17485],
+        [1792155300, 15.093, 15.121, 15.091, 15.112, 19841],
+        [1792155600, 15.112, 15.152, 15.111, 15.135, 26471],
+        [1792155900, 15.135, 15.217, 15.133, 15.19, 33764],
+        [1792156200, 15.19, 15.228, 15.156, 15.162, 31333],
+        [1792156500, 15.162, 15.174, 15.107, 15.127, 17151],
+        [1792156800, 15.127, 15.144, 15.117, 15.142, 14069],
+        [1792157100, 15.142, 15.149, 15.129, 15.141, 24711],
+        [1792157400, 15.141, 15.186, 15.122, 15.148, 39346],
+        [1792157700, 15.148, 15.166, 15.139, 15.159, 14466],
+        [1792158000, 15.159, 15.171, 15.153, 15.169, 32337],
+        [1792158300, 15.169, 15.19, 15.163, 15.188, 46334],
+        [1792158600, 15.188, 15.248, 15.186, 15.226, 31231],
+        [1792158900, 15.226, 15.241, 15.215, 15.223, 42443],
+        [1792159200, 15.223, 15.242, 15.223, 15.232, 87353],
+        [1792159500, 15.232, 15.241, 15.227, 15.237, 55733],
+        [1792159800, 15.237, 15.28, 15.233, 15.271, 65979],
+        [1792160100, 15.271, 15.278, 15.233, 15.25, 54211],
+      ],
+    },
+    "OPAP.AT": {
+      name: "OPAP S.A.",
+      currency: "EUR",
+      exchange: "ATH",
+      marketCap: 6400000000,
+      daily: [
+        [1787209200, 17.148, 17.233, 16.798, 16.854, 399648],
+        [1787295600, 16.804, 16.88, 16.716, 16.748, 597390],
+        [1787554800, 16.789, 16.795, 16.379, 16.466, 457709],
+        [1787641200, 16.473, 16.689, 16.428, 16.559, 450996],
+        [1787727600, 16.548, 16.567, 16.511, 16.555, 302755],
+        [1787814000, 16.524, 16.58, 16.449, 16.473, 408825],
+        [1787900400, 16.496, 16.593, 16.345, 16.398, 577463],
+        [1788159600, 16.426, 16.566, 16.319, 16.53, 276194],
+        [1788246000, 16.604, 16.616, 16.482, 16.587, 386773],
+        [1788332400, 16.687, 16.754, 16.322, 16.354, 659418],
+        [1788418800, 16.331, 16.436, 16.086, 16.261, 479616],
+        [1788505200, 16.25, 16.265, 16.054, 16.19, 347956],
+        [1788764400, 16.189, 16.24, 16.167, 16.219, 442080],
+        [1788850800, 16.249, 16.28, 16.16, 16.191, 275143],
+        [1788937200, 16.135, 16.26, 16.108, 16.207, 671180],
+        [1789023600, 16.219, 16.322, 16.181, 16.27, 542542],
+        [1789110000, 16.318, 16.483, 16.247, 16.478, 435517],
+        [1789369200, 16.439, 16.533, 16.318, 16.482, 532084],
+        [1789455600, 16.508, 16.784, 16.344, 16.706, 602427],
+        [1789542000, 16.756, 16.772, 16.53, 16.664, 448259],
+        [1789628400, 16.648, 16.664, 16.632, 16.644, 448285],
+        [1789714800, 16.605, 16.748, 16.532, 16.665, 345189],
+        [1789974000, 16.72, 16.86, 16.471, 16.611, 658892],
+        [1790060400, 16.608, 16.711, 16.606, 16.681, 435545],
+        [1790146800, 16.635, 16.919, 16.549, 16.821, 613509],
+        [1790233200, 16.811, 16.932, 16.716, 16.859, 459549],
+        [1790319600, 16.827, 16.883, 16.817, 16.83, 533252],
+        [1790578800, 16.842, 16.86, 16.822, 16.836, 607823],
+        [1790665200, 16.859, 17.093, 16.745, 16.949, 339507],
+        [1790751600, 16.857, 17.373, 16.832, 17.271, 572708],
+        [1790838000, 17.247, 17.284, 17.098, 17.249, 502897],
+        [1790924400, 17.267, 17.458, 17.256, 17.452, 492405],
+        [1791183600, 17.548, 17.715, 17.514, 17.646, 359159],
+        [1791270000, 17.634, 17.663, 17.482, 17.529, 396655],
+        [1791356400, 17.519, 17.536, 17.407, 17.47, 328538],
+        [1791442800, 17.448, 17.511, 17.424, 17.476, 632070],
+        [1791529200, 17.454, 17.552, 17.222, 17.27, 604060],
+        [1791788400, 17.254, 17.308, 17.217, 17.254, 314881],
+        [1791874800, 17.253, 17.358, 17.205, 17.269, 443242],
+        [1791961200, 17.357, 17.393, 16.929, 16.949, 546996],
+        [1792047600, 16.873, 17.292, 16.784, 17.249, 421709],
+        [1792134000, 17.193, 17.524, 17.162, 17.48, 426797],
+      ],
+      intraday: [
+        [1792049400, 16.873, 16.892, 16.866, 16.873, 5800],
+        [1792049700, 16.873, 16.901, 16.872, 16.873, 11036],
+        [1792050000, 16.873, 16.878, 16.849, 16.853, 6628],
+        [1792050300, 16.853, 16.878, 16.848, 16.865, 6637],
+        [1792050600, 16.865, 16.869, 16.852, 16.857, 4982],
+        [1792050900, 16.857, 16.865, 16.845, 16.848, 12876],
+        [1792051200, 16.848, 16.852, 16.815, 16.844, 2331],
+        [1792051500, 16.844, 16.857, 16.805, 16.843, 5064],
+        [1792051800, 16.843, 16.852, 16.821, 16.846, 6170],
+        [1792052100, 16.846, 16.86, 16.828, 16.849, 6200],
+        [1792052400, 16.849, 16.85, 16.809, 16.839, 5003],
+        [1792052700, 16.839, 16.846, 16.799, 16.814, 6438],
+        [1792053000, 16.814, 16.842, 16.8, 16.821, 4678],
+        [1792053300, 16.821, 16.846, 16.816, 16.835, 3849],
+        [1792053600, 16.835, 16.854, 16.824, 16.85, 4850],
+        [1792053900, 16.85, 16.851, 16.803, 16.812, 3261],
+        [1792054200, 16.812, 16.817, 16.803, 16.806, 5940],
+        [1792054500, 16.806, 16.825, 16.804, 16.81, 5028],
+        [1792054800, 16.81, 16.815, 16.798, 16.804, 5491],
+        [1792055100, 16.804, 16.834, 16.784, 16.812, 2639],
+        [1792055400, 16.812, 16.849, 16.807, 16.842, 4966],
+        [1792055700, 16.842, 16.844, 16.82, 16.835, 6519],
+        [1792056000, 16.835, 16.849, 16.821, 16.845, 5350],
+        [1792056300, 16.845, 16.859, 16.837, 16.853, 4118],
+        [1792056600, 16.853, 16.901, 16.85, 16.877, 4112],
+        [1792056900, 16.877, 16.896, 16.852, 16.854, 3336],
+        [1792057200, 16.854, 16.879, 16.846, 16.867, 2643],
+        [1792057500, 16.867, 16.891, 16.852, 16.872, 5025],
+        [1792057800, 16.872, 16.918, 16.857, 16.9, 6350],
+        [1792058100, 16.9, 16.942, 16.887, 16.935, 3684],
+        [1792058400, 16.935, 16.996, 16.907, 16.982, 4819],
+        [1792058700, 16.982, 17.025, 16.978, 17.02, 6013],
+        [1792059000, 17.02, 17.056, 17.019, 17.05, 2951],
+        [1792059300, 17.05, 17.066, 17.038, 17.054, 6322],
+        [1792059600, 17.054, 17.112, 17.047, 17.101, 5868],
+        [1792059900, 17.101, 17.126, 17.094, 17.125, 6237],
+        [1792060200, 17.125, 17.131, 17.114, 17.129, 4469],
+        [1792060500, 17.129, 17.129, 17.121, 17.121, 5511],
+        [1792060800, 17.121, 17.141, 17.107, 17.114, 5983],
+        [1792061100, 17.114, 17.136, 17.106, 17.131, 5495],
+        [1792061400, 17.131, 17.155, 17.123, 17.151, 3516],
+        [1792061700, 17.151, 17.169, 17.145, 17.157, 4933],
+        [1792062000, 17.157, 17.164, 17.141, 17.15, 4828],
+        [1792062300, 17.15, 17.158, 17.122, 17.143, 2745],
+        [1792062600, 17.143, 17.145, 17.13, 17.135, 3389],
+        [1792062900, 17.135, 17.138, 17.11, 17.111, 3537],
+        [1792063200, 17.111, 17.115, 17.102, 17.112, 5793],
+        [1792063500, 17.112, 17.154, 17.091, 17.128, 5331],
+        [1792063800, 17.128, 17.161, 17.115, 17.146, 3209],
+        [1792064100, 17.146, 17.147, 17.111, 17.131, 2461],
+        [1792064400, 17.131, 17.156, 17.124, 17.149, 3708],
+        [1792064700, 17.149, 17.158, 17.124, 17.149, 3301],
+        [1792065000, 17.149, 17.151, 17.143, 17.144, 6565],
+        [1792065300, 17.144, 17.157, 17.137, 17.148, 3777],
+        [1792065600, 17.148, 17.183, 17.144, 17.167, 4546],
+        [1792065900, 17.167, 17.192, 17.165, 17.188, 5453],
+        [1792066200, 17.188, 17.194, 17.173, 17.192, 3205],
+        [1792066500, 17.192, 17.203, 17.157, 17.172, 2881],
+        [1792066800, 17.172, 17.214, 17.166, 17.199, 5651],
+        [1792067100, 17.199, 17.24, 17.191, 17.234, 5010],
+        [1792067400, 17.234, 17.247, 17.177, 17.217, 5877],
+        [1792067700, 17.217, 17.225, 17.21, 17.214, 2772],
+        [1792068000, 17.214, 17.239, 17.205, 17.231, 3662],
+        [1792068300, 17.231, 17.27, 17.227, 17.261, 2634],
+        [1792068600, 17.261, 17.292, 17.25, 17.277, 2413],
+        [1792068900, 17.277, 17.287, 17.274, 17.28, 4806],
+        [1792069200, 17.28, 17.285, 17.276, 17.278, 2662],
+        [1792069500, 17.278, 17.282, 17.226, 17.246, 6373],
+        [1792069800, 17.246, 17.256, 17.238, 17.24, 5662],
+        [1792070100, 17.24, 17.264, 17.234, 17.25, 4463],
+        [1792070400, 17.25, 17.268, 17.22, 17.22, 2828],
+        [1792070700, 17.22, 17.236, 17.205, 17.235, 6337],
+        [1792071000, 17.235, 17.242, 17.235, 17.239, 4108],
+        [1792071300, 17.239, 17.268, 17.237, 17.243, 6444],
+        [1792071600, 17.243, 17.259, 17.23, 17.256, 2823],
+        [1792071900, 17.256, 17.276, 17.254, 17.271, 7529],
+        [1792072200, 17.271, 17.287, 17.25, 17.253, 11296],
+        [1792072500, 17.253, 17.256, 17.237, 17.246, 6579],
+        [1792072800, 17.246, 17.267, 17.246, 17.259, 8242],
+        [1792073100, 17.259, 17.287, 17.249, 17.277, 7016],
+        [1792073400, 17.277, 17.284, 17.256, 17.271, 9729],
+        [1792073700, 17.271, 17.279, 17.225, 17.249, 8943],
+        [1792135800, 17.193, 17.196, 17.191, 17.193, 7791],
+        [1792136100, 17.193, 17.22, 17.182, 17.22, 8798],
+        [1792136400, 17.22, 17.22, 17.191, 17.212, 11551],
+        [1792136700, 17.212, 17.213, 17.193, 17.21, 7338],
+        [1792137000, 17.21, 17.222, 17.201, 17.204, 14120],
+        [1792137300, 17.204, 17.205, 17.177, 17.2, 12243],
+        [1792137600, 17.2, 17.243, 17.186, 17.23, 4965],
+        [1792137900, 17.23, 17.232, 17.185, 17.2, 2648],
+        [1792138200, 17.2, 17.22, 17.172, 17.215, 4496],
+        [1792138500, 17.215, 17.247, 17.213, 17.227, 3382],
+        [1792138800, 17.227, 17.249, 17.2, 17.239, 6394],
+        [1792139100, 17.239, 17.264, 17.237, 17.259, 5671],
+        [1792139400, 17.259, 17.277, 17.253, 17.266, 6037],
+        [1792139700, 17.266, 17.279, 17.254, 17.265, 2319],
+        [1792140000, 17.265, 17.311, 17.257, 17.304, 4153],
+        [1792140300, 17.304, 17.31, 17.299, 17.304, 6433],
+        [1792140600, 17.304, 17.317, 17.296, 17.301, 5107],
+        [1792140900, 17.301, 17.321, 17.278, 17.319, 2416],
+        [1792141200, 17.319, 17.338, 17.307, 17.328, 4289],
+        [1792141500, 17.328, 17.355, 17.298, 17.349, 4870],
+        [1792141800, 17.349, 17.355, 17.336, 17.344, 3129],
+        [1792142100, 17.344, 17.348, 17.283, 17.291, 4031],
+        [1792142400, 17.291, 17.323, 17.289, 17.294, 6181],
+        [1792142700, 17.294, 17.358, 17.289, 17.324, 5938],
+        [1792143000, 17.324, 17.341, 17.301, 17.308, 3293],
+        [1792143300, 17.308, 17.337, 17.287, 17.335, 2458],
+        [1792143600, 17.335, 17.342, 17.306, 17.314, 5122],
+        [1792143900, 17.314, 17.333, 17.313, 17.319, 3028],
+        [1792144200, 17.319, 17.335, 17.295, 17.303, 6149],
+        [1792144500, 17.303, 17.316, 17.257, 17.263, 2354],
+        [1792144800, 17.263, 17.267, 17.253, 17.257, 6187],
+        [1792145100, 17.257, 17.275, 17.251, 17.257, 4226],
+        [1792145400, 17.257, 17.268, 17.237, 17.262, 6225],
+        [1792145700, 17.262, 17.279, 17.261, 17.264, 2300],
+        [1792146000, 17.264, 17.285, 17.252, 17.257, 3505],
+        [1792146300, 17.257, 17.268, 17.253, 17.254, 3835],
+        [1792146600, 17.254, 17.266, 17.24, 17.256, 4757],
+        [1792146900, 17.256, 17.263, 17.226, 17.242, 2729],
+        [1792147200, 17.242, 17.26, 17.222, 17.248, 3791],
+        [1792147500, 17.248, 17.252, 17.224, 17.23, 5727],
+        [1792147800, 17.23, 17.252, 17.229, 17.229, 5103],
+        [1792148100, 17.229, 17.274, 17.225, 17.258, 5847],
+        [1792148400, 17.258, 17.285, 17.218, 17.224, 3544],
+        [1792148700, 17.224, 17.251, 17.211, 17.242, 4611],
+        [1792149000, 17.242, 17.256, 17.236, 17.256, 4742],
+        [1792149300, 17.256, 17.261, 17.22, 17.232, 3040],
+        [1792149600, 17.232, 17.24, 17.206, 17.207, 3362],
+        [1792149900, 17.207, 17.221, 17.188, 17.196, 2507],
+        [1792150200, 17.196, 17.197, 17.187, 17.192, 6313],
+        [1792150500, 17.192, 17.203, 17.167, 17.179, 4647],
+        [1792150800, 17.179, 17.193, 17.162, 17.169, 3863],
+        [1792151100, 17.169, 17.198, 17.163, 17.179, 3129],
+        [1792151400, 17.179, 17.194, 17.166, 17.171, 5668],
+        [1792151700, 17.171, 17.209, 17.162, 17.204, 2987],
+        [1792152000, 17.204, 17.232, 17.201, 17.229, 2560],
+        [1792152300, 17.229, 17.234, 17.22, 17.227, 6137],
+        [1792152600, 17.227, 17.267, 17.224, 17.256, 2455],
+        [1792152900, 17.256, 17.26, 17.237, 17.258, 5269],
+        [1792153200, 17.258, 17.29, 17.244, 17.261, 4641],
+        [1792153500, 17.261, 17.299, 17.258, 17.289, 2363],
+        [1792153800, 17.289, 17.346, 17.288, 17.334, 2310],
+        [1792154100, 17.334, 17.364, 17.331, 17.337, 3328],
+        [1792154400, 17.337, 17.361, 17.325, 17.35, 4273],
+        [1792154700, 17.35, 17.388, 17.347, 17.371, 5597],
+        [1792155000, 17.371, 17.386, 17.354, 17.38, 2387],
+        [1792155300, 17.38, 17.388, 17.367, 17.372, 3749],
+        [1792155600, 17.372, 17.375, 17.36, 17.366, 5428],
+        [1792155900, 17.366, 17.376, 17.339, 17.346, 5184],
+        [1792156200, 17.346, 17.361, 17.336, 17.36, 5115],
+        [1792156500, 17.36, 17.377, 17.337, 17.343, 4665],
+        [1792156800, 17.343, 17.349, 17.331, 17.34, 3912],
+        [1792157100, 17.34, 17.363, 17.34, 17.346, 3077],
+        [1792157400, 17.346, 17.371, 17.33, 17.36, 5020],
+        [1792157700, 17.36, 17.367, 17.31, 17.332, 3014],
+        [1792158000, 17.332, 17.386, 17.329, 17.371, 3808],
+        [1792158300, 17.371, 17.377, 17.364, 17.365, 7696],
+        [1792158600, 17.365, 17.443, 17.355, 17.425, 7274],
+        [1792158900, 17.425, 17.514, 17.422, 17.489, 14728],
+        [1792159200, 17.489, 17.494, 17.47, 17.492, 11857],
+        [1792159500, 17.492, 17.494, 17.452, 17.487, 8622],
+        [1792159800, 17.487, 17.519, 17.485, 17.513, 13702],
+        [1792160100, 17.513, 17.524, 17.48, 17.48, 9277],
+      ],
+    },
+    "PPC.AT": {
+      name: "Public Power Corp",
+      currency: "EUR",
+      exchange: "ATH",
+      marketCap: 4900000000,
+      daily: [
+        [1787209200, 14.052, 14.121, 13.965, 13.989, 1330352],
+        [1787295600, 13.974, 14.12, 13.8, 13.881, 984169],
+        [1787554800, 13.924, 13.941, 13.718, 13.733, 1013529],
+        [1787641200, 13.729, 14.036, 13.695, 14.013, 834752],
+        [1787727600, 14.056, 14.11, 13.886, 13.889, 1298096],
+        [1787814000, 13.861, 13.981, 13.748, 13.768, 951958],
+        [1787900400, 13.782, 13.804, 13.663, 13.758, 1093789],
+        [1788159600, 13.875, 13.958, 13.457, 13.534, 1058907],
+        [1788246000, 13.529, 13.721, 13.201, 13.288, 933663],
+        [1788332400, 13.269, 13.55, 13.234, 13.467, 923494],
+        [1788418800, 13.399, 13.412, 13.265, 13.295, 1173870],
+        [1788505200, 13.248, 13.542, 13.077, 13.497, 795732],
+        [1788764400, 13.471, 13.525, 13.266, 13.366, 788350],
+        [1788850800, 13.369, 13.49, 13.351, 13.425, 852322],
+        [1788937200, 13.498, 13.552, 13.264, 13.32, 1211235],
+        [1789023600, 13.413, 13.537, 13.259, 13.283, 1098194],
+        [1789110000, 13.276, 13.455, 13.241, 13.447, 770648],
+        [1789369200, 13.463, 13.79, 13.346, 13.661, 919519],
+        [1789455600, 13.688, 13.729, 13.595, 13.602, 1022040],
+        [1789542000, 13.588, 13.594, 13.241, 13.297, 1258754],
+        [1789628400, 13.265, 13.533, 13.188, 13.446, 676734],
+        [1789714800, 13.441, 13.561, 13.306, 13.417, 1241909],
+        [1789974000, 13.454, 13.527, 13.4, 13.451, 921918],
+        [1790060400, 13.414, 13.726, 13.408, 13.623, 840906],
+        [1790146800, 13.609, 13.918, 13.585, 13.897, 964052],
+        [1790233200, 13.913, 13.964, 13.884, 13.893, 1047854],
+        [1790319600, 13.89, 14.204, 13.789, 14.038, 772997],
+        [1790578800, 13.988, 14.204, 13.967, 14.203, 772080],
+        [1790665200, 14.263, 14.301, 14.151, 14.189, 1316648],
+        [1790751600, 14.124, 14.158, 14.106, 14.138, 999412],
+        [1790838000, 14.083, 14.407, 14.061, 14.382, 1200833],
+        [1790924400, 14.475, 14.509, 14.33, 14.419, 1062895],
+        [1791183600, 14.431, 14.475, 14.143, 14.295, 1245030],
+        [1791270000, 14.303, 14.496, 14.262, 14.294, 953650],
+        [1791356400, 14.324, 14.41, 14.218, 14.23, 1190694],
+        [1791442800, 14.244, 14.39, 13.83, 13.843, 1089476],
+        [1791529200, 13.888, 13.894, 13.57, 13.677, 598421],
+        [1791788400, 13.668, 13.823, 13.567, 13.724, 656043],
+        [1791874800, 13.74, 13.813, 13.574, 13.662, 907594],
+        [1791961200, 13.655, 13.706, 13.53, 13.588, 1200379],
+        [1792047600, 13.611, 13.631, 13.446, 13.464, 829944],
+        [1792134000, 13.407, 13.645, 13.357, 13.62, 836785],
+      ],
+      intraday: [
+        [1792049400, 13.611, 13.616, 13.603, 13.611, 22380],
+        [1792049700, 13.611, 13.616, 13.606, 13.607, 22730],
+        [1792050000, 13.607, 13.631, 13.602, 13.623, 26244],
+        [1792050300, 13.623, 13.63, 13.579, 13.609, 14006],
+        [1792050600, 13.609, 13.614, 13.57, 13.585, 13369],
+        [1792050900, 13.585, 13.586, 13.561, 13.57, 24286],
+        [1792051200, 13.57, 13.601, 13.557, 13.579, 8494],
+        [1792051500, 13.579, 13.61, 13.542, 13.551, 5590],
+        [1792051800, 13.551, 13.578, 13.538, 13.566, 9253],
+        [1792052100, 13.566, 13.574, 13.562, 13.563, 5316],
+        [1792052400, 13.563, 13.564, 13.535, 13.552, 7582],
+        [1792052700, 13.552, 13.565, 13.54, 13.545, 5238],
+        [1792053000, 13.545, 13.562, 13.533, 13.559, 6779],
+        [1792053300, 13.559, 13.566, 13.533, 13.545, 4755],
+        [1792053600, 13.545, 13.549, 13.539, 13.547, 12738],
+        [1792053900, 13.547, 13.552, 13.52, 13.527, 12156],
+        [1792054200, 13.527, 13.542, 13.517, 13.54, 11726],
+        [1792054500, 13.54, 13.558, 13.539, 13.541, 10357],
+        [1792054800, 13.541, 13.546, 13.522, 13.543, 11596],
+        [1792055100, 13.543, 13.566, 13.538, 13.556, 7011],
+        [1792055400, 13.556, 13.576, 13.555, 13.561, 7224],
+        [1792055700, 13.561, 13.574, 13.551, 13.564, 4422],
+        [1792056000, 13.564, 13.568, 13.546, 13.552, 10832],
+        [1792056300, 13.552, 13.567, 13.54, 13.542, 6554],
+        [1792056600, 13.542, 13.597, 13.521, 13.577, 6020],
+        [1792056900, 13.577, 13.602, 13.554, 13.569, 12076],
+        [1792057200, 13.569, 13.601, 13.562, 13.588, 5538],
+        [1792057500, 13.588, 13.604, 13.552, 13.571, 10394],
+        [1792057800, 13.571, 13.587, 13.57, 13.581, 6946],
+        [1792058100, 13.581, 13.587, 13.551, 13.554, 11782],
+        [1792058400, 13.554, 13.575, 13.515, 13.533, 8453],
+        [1792058700, 13.533, 13.545, 13.52, 13.539, 4518],
+        [1792059000, 13.539, 13.557, 13.536, 13.543, 5926],
+        [1792059300, 13.543, 13.558, 13.534, 13.537, 6200],
+        [1792059600, 13.537, 13.54, 13.524, 13.535, 6961],
+        [1792059900, 13.535, 13.549, 13.515, 13.539, 10333],
+        [1792060200, 13.539, 13.54, 13.505, 13.515, 5036],
+        [1792060500, 13.515, 13.523, 13.502, 13.522, 10605],
+        [1792060800, 13.522, 13.529, 13.507, 13.527, 11735],
+        [1792061100, 13.527, 13.538, 13.522, 13.537, 11571],
+        [1792061400, 13.537, 13.541, 13.532, 13.537, 10705],
+        [1792061700, 13.537, 13.538, 13.529, 13.535, 7458],
+        [1792062000, 13.535, 13.54, 13.503, 13.513, 12468],
+        [1792062300, 13.513, 13.523, 13.485, 13.501, 6464],
+        [1792062600, 13.501, 13.519, 13.473, 13.493, 8346],
+        [1792062900, 13.493, 13.494, 13.473, 13.486, 11956],
+        [1792063200, 13.486, 13.511, 13.479, 13.507, 11221],
+        [1792063500, 13.507, 13.533, 13.5, 13.516, 7227],
+        [1792063800, 13.516, 13.53, 13.512, 13.515, 6642],
+        [1792064100, 13.515, 13.534, 13.488, 13.499, 8011],
+        [1792064400, 13.499, 13.503, 13.492, 13.495, 10041],
+        [1792064700, 13.495, 13.513, 13.487, 13.513, 8816],
+        [1792065000, 13.513, 13.559, 13.51, 13.525, 7924],
+        [1792065300, 13.525, 13.543, 13.518, 13.52, 12712],
+        [1792065600, 13.52, 13.547, 13.516, 13.54, 8743],
+        [1792065900, 13.54, 13.574, 13.528, 13.57, 8435],
+        [1792066200, 13.57, 13.594, 13.564, 13.584, 5460],
+        [1792066500, 13.584, 13.597, 13.549, 13.561, 12860],
+        [1792066800, 13.561, 13.567, 13.555, 13.558, 11127],
+        [1792067100, 13.558, 13.578, 13.518, 13.531, 6605],
+        [1792067400, 13.531, 13.564, 13.517, 13.532, 7305],
+        [1792067700, 13.532, 13.543, 13.522, 13.543, 12427],
+        [1792068000, 13.543, 13.585, 13.54, 13.576, 5794],
+        [1792068300, 13.576, 13.582, 13.538, 13.548, 4549],
+        [1792068600, 13.548, 13.56, 13.527, 13.547, 7224],
+        [1792068900, 13.547, 13.557, 13.538, 13.552, 6041],
+        [1792069200, 13.552, 13.553, 13.519, 13.523, 9510],
+        [1792069500, 13.523, 13.54, 13.516, 13.521, 8846],
+        [1792069800, 13.521, 13.533, 13.517, 13.525, 9386],
+        [1792070100, 13.525, 13.562, 13.515, 13.555, 11381],
+        [1792070400, 13.555, 13.565, 13.517, 13.522, 6518],
+        [1792070700, 13.522, 13.523, 13.486, 13.496, 9039],
+        [1792071000, 13.496, 13.509, 13.481, 13.49, 10425],
+        [1792071300, 13.49, 13.497, 13.459, 13.487, 9684],
+        [1792071600, 13.487, 13.497, 13.469, 13.482, 10848],
+        [1792071900, 13.482, 13.502, 13.46, 13.467, 17306],
+        [1792072200, 13.467, 13.492, 13.467, 13.484, 12797],
+        [1792072500, 13.484, 13.512, 13.479, 13.508, 19150],
+        [1792072800, 13.508, 13.515, 13.504, 13.506, 11123],
+        [1792073100, 13.506, 13.527, 13.503, 13.511, 10446],
+        [1792073400, 13.511, 13.524, 13.491, 13.498, 20603],
+        [1792073700, 13.498, 13.505, 13.446, 13.464, 21589],
+        [1792135800, 13.407, 13.409, 13.397, 13.407, 13247],
+        [1792136100, 13.407, 13.407, 13.39, 13.394, 13509],
+        [1792136400, 13.394, 13.427, 13.394, 13.414, 14892],
+        [1792136700, 13.414, 13.439, 13.405, 13.405, 22019],
+        [1792137000, 13.405, 13.426, 13.39, 13.397, 10619],
+        [1792137300, 13.397, 13.409, 13.389, 13.401, 10245],
+        [1792137600, 13.401, 13.413, 13.379, 13.387, 8676],
+        [1792137900, 13.387, 13.397, 13.386, 13.393, 12003],
+        [1792138200, 13.393, 13.408, 13.357, 13.394, 10049],
+        [1792138500, 13.394, 13.427, 13.387, 13.427, 8919],
+        [1792138800, 13.427, 13.446, 13.411, 13.414, 9221],
+        [1792139100, 13.414, 13.444, 13.393, 13.415, 7419],
+        [1792139400, 13.415, 13.434, 13.404, 13.424, 5337],
+        [1792139700, 13.424, 13.443, 13.413, 13.422, 5322],
+        [1792140000, 13.422, 13.452, 13.407, 13.439, 6088],
+        [1792140300, 13.439, 13.443, 13.404, 13.412, 5989],
+        [1792140600, 13.412, 13.451, 13.412, 13.447, 7059],
+        [1792140900, 13.447, 13.483, 13.443, 13.469, 11643],
+        [1792141200, 13.469, 13.474, 13.447, 13.455, 11761],
+        [1792141500, 13.455, 13.458, 13.426, 13.442, 12052],
+        [1792141800, 13.442, 13.445, 13.412, 13.414, 6730],
+        [1792142100, 13.414, 13.427, 13.373, 13.401, 11768],
+        [1792142400, 13.401, 13.417, 13.398, 13.416, 4731],
+        [1792142700, 13.416, 13.457, 13.394, 13.435, 6279],
+        [1792143000, 13.435, 13.467, 13.432, 13.448, 11372],
+        [1792143300, 13.448, 13.457, 13.436, 13.451, 7442],
+        [1792143600, 13.451, 13.474, 13.432, 13.469, 10433],
+        [1792143900, 13.469, 13.475, 13.432, 13.433, 10293],
+        [1792144200, 13.433, 13.454, 13.426, 13.449, 8090],
+        [1792144500, 13.449, 13.463, 13.426, 13.426, 10277],
+        [1792144800, 13.426, 13.458, 13.414, 13.431, 6590],
+        [1792145100, 13.431, 13.443, 13.419, 13.421, 8050],
+        [1792145400, 13.421, 13.421, 13.4, 13.411, 7799],
+        [1792145700, 13.411, 13.413, 13.379, 13.397, 8667],
+        [1792146000, 13.397, 13.422, 13.384, 13.421, 6593],
+        [1792146300, 13.421, 13.44, 13.417, 13.422, 5868],
+        [1792146600, 13.422, 13.434, 13.397, 13.409, 10094],
+        [1792146900, 13.409, 13.47, 13.403, 13.458, 8534],
+        [1792147200, 13.458, 13.476, 13.446, 13.47, 5100],
+        [1792147500, 13.47, 13.507, 13.467, 13.479, 12669],
+        [1792147800, 13.479, 13.501, 13.464, 13.494, 9014],
+        [1792148100, 13.494, 13.511, 13.483, 13.488, 4820],
+        [1792148400, 13.488, 13.516, 13.488, 13.499, 12176],
+        [1792148700, 13.499, 13.534, 13.495, 13.524, 6534],
+        [1792149000, 13.524, 13.539, 13.513, 13.528, 11829],
+        [1792149300, 13.528, 13.585, 13.519, 13.584, 8847],
+        [1792149600, 13.584, 13.608, 13.576, 13.595, 11002],
+        [1792149900, 13.595, 13.6, 13.585, 13.598, 6311],
+        [1792150200, 13.598, 13.618, 13.59, 13.595, 9696],
+        [1792150500, 13.595, 13.598, 13.582, 13.598, 7195],
+        [1792150800, 13.598, 13.612, 13.591, 13.593, 13168],
+        [1792151100, 13.593, 13.601, 13.583, 13.589, 5314],
+        [1792151400, 13.589, 13.627, 13.589, 13.609, 12921],
+        [1792151700, 13.609, 13.645, 13.601, 13.629, 10875],
+        [1792152000, 13.629, 13.632, 13.597, 13.623, 8639],
+        [1792152300, 13.623, 13.627, 13.61, 13.613, 11402],
+        [1792152600, 13.613, 13.616, 13.602, 13.608, 8494],
+        [1792152900, 13.608, 13.623, 13.57, 13.603, 10153],
+        [1792153200, 13.603, 13.645, 13.574, 13.592, 9159],
+        [1792153500, 13.592, 13.598, 13.572, 13.59, 8780],
+        [1792153800, 13.59, 13.605, 13.577, 13.578, 4787],
+        [1792154100, 13.578, 13.625, 13.567, 13.608, 5418],
+        [1792154400, 13.608, 13.635, 13.578, 13.579, 11389],
+        [1792154700, 13.579, 13.602, 13.573, 13.585, 5675],
+        [1792155000, 13.585, 13.602, 13.572, 13.577, 9808],
+        [1792155300, 13.577, 13.601, 13.554, 13.582, 9502],
+        [1792155600, 13.582, 13.604, 13.581, 13.597, 6680],
+        [1792155900, 13.597, 13.611, 13.588, 13.591, 5512],
+        [1792156200, 13.591, 13.598, 13.555, 13.57, 12429],
+        [1792156500, 13.57, 13.588, 13.568, 13.573, 6747],
+        [1792156800, 13.573, 13.617, 13.571, 13.611, 12956],
+        [1792157100, 13.611, 13.625, 13.604, 13.623, 10763],
+        [1792157400, 13.623, 13.635, 13.593, 13.599, 8732],
+        [1792157700, 13.599, 13.61, 13.566, 13.585, 8731],
+        [1792158000, 13.585, 13.605, 13.551, 13.579, 11275],
+        [1792158300, 13.579, 13.599, 13.575, 13.595, 25098],
+        [1792158600, 13.595, 13.605, 13.55, 13.56, 18923],
+        [1792158900, 13.56, 13.598, 13.547, 13.573, 13677],
+        [1792159200, 13.573, 13.579, 13.564, 13.567, 29589],
+        [1792159500, 13.567, 13.593, 13.543, 13.558, 12640],
+        [1792159800, 13.558, 13.595, 13.55, 13.581, 20631],
+        [1792160100, 13.581, 13.63, 13.577, 13.62, 26046],
+      ],
+    },
+    "GD.AT": {
+      name: "ATHEX Composite Index",
+      currency: "EUR",
+      exchange: "ATH",
+      marketCap: null,
+      daily: [
+        [1787209200, 2044.47, 2049.99, 2042.93, 2049.74, 0],
+        [1787295600, 2044.7, 2057.7, 2042.4, 2056.49, 0],
+        [1787554800, 2051.04, 2073.83, 2043.69, 2070.86, 0],
+        [1787641200, 2069.86, 2095.22, 2056.11, 2090.91, 0],
+        [1787727600, 2081.08, 2094.74, 2073.21, 2087.73, 0],
+        [1787814000, 2091.01, 2104.18, 2083.56, 2093.8, 0],
+        [1787900400, 2097.6, 2111.24, 2093.61, 2095.05, 0],
+        [1788159600, 2085.14, 2103.75, 2079.26, 2098.05, 0],
+        [1788246000, 2094.32, 2097.84, 2088.35, 2091.92, 0],
+        [1788332400, 2096.47, 2111.96, 2089.77, 2100.28, 0],
+        [1788418800, 2098.84, 2113.85, 2092.62, 2109.33, 0],
+        [1788505200, 2111.8, 2119.68, 2101.18, 2102.78, 0],
+        [1788764400, 2104.38, 2108.28, 2104.17, 2105.14, 0],
+        [1788850800, 2106.51, 2113.46, 2088.99, 2090.12, 0],
+        [1788937200, 2084.61, 2097.19, 2069.09, 2072.52, 0],
+        [1789023600, 2073.97, 2098.86, 2071.17, 2093.56, 0],
+        [1789110000, 2094.29, 2098.05, 2087.46, 2092.85, 0],
+        [1789369200, 2105.72, 2116.55, 2086.36, 2094.61, 0],
+        [1789455600, 2099.13, 2105.06, 2094.34, 2095.04, 0],
+        [1789542000, 2095.21, 2101.34, 2053.48, 2062.0, 0],
+        [1789628400, 2068.93, 2071.54, 2064.31, 2064.36, 0],
+        [1789714800, 2065.33, 2065.61, 2028.64, 2036.49, 0],
+        [1789974000, 2039.21, 2042.25, 2038.25, 2039.84, 0],
+        [1790060400, 2046.09, 2047.68, 2014.98, 2022.13, 0],
+        [1790146800, 2018.72, 2020.23, 2013.76, 2019.77, 0],
+        [1790233200, 2017.21, 2021.01, 2010.44, 2015.26, 0],
+        [1790319600, 2024.56, 2049.1, 2023.0, 2034.91, 0],
+        [1790578800, 2036.78, 2066.44, 2033.62, 2060.8, 0],
+        [1790665200, 2059.27, 2076.98, 2058.79, 2061.28, 0],
+        [1790751600, 2067.89, 2074.65, 2027.48, 2038.2, 0],
+        [1790838000, 2034.82, 2036.48, 2019.52, 2024.77, 0],
+        [1790924400, 2024.19, 2027.78, 2017.29, 2019.68, 0],
+        [1791183600, 2020.93, 2042.44, 2016.26, 2034.54, 0],
+        [1791270000, 2026.81, 2044.2, 2015.89, 2039.89, 0],
+        [1791356400, 2040.89, 2043.85, 2034.48, 2038.29, 0],
+        [1791442800, 2039.74, 2044.2, 2018.54, 2019.78, 0],
+        [1791529200, 2020.16, 2029.59, 2011.33, 2019.63, 0],
+        [1791788400, 2021.35, 2024.83, 1999.01, 2013.33, 0],
+        [1791874800, 2018.64, 2019.27, 1994.8, 2001.31, 0],
+        [1791961200, 2000.64, 2009.11, 1994.17, 1994.97, 0],
+        [1792047600, 1993.52, 2000.43, 1984.96, 1991.29, 0],
+        [1792134000, 1988.92, 2016.04, 1984.72, 2012.4, 0],
+      ],
+      intraday: [
+        [1792049400, 1993.52, 1996.04, 1993.34, 1993.52, 0],
+        [1792049700, 1993.52, 1993.78, 1989.79, 1991.62, 0],
+        [1792050000, 1991.62, 1995.86, 1991.16, 1994.61, 0],
+        [1792050300, 1994.61, 1997.76, 1993.75, 1996.87, 0],
+        [1792050600, 1996.87, 1998.1, 1993.95, 1995.68, 0],
+        [1792050900, 1995.68, 2000.07, 1994.69, 1999.9, 0],
+        [1792051200, 1999.9, 2000.43, 1995.91, 1996.84, 0],
+        [1792051500, 1996.84, 1997.69, 1995.85, 1996.8, 0],
+        [1792051800, 1996.8, 1997.17, 1994.55, 1995.69, 0],
+        [1792052100, 1995.69, 1995.82, 1990.6, 1992.6, 0],
+        [1792052400, 1992.6, 1995.61, 1992.45, 1994.93, 0],
+        [1792052700, 1994.93, 1996.34, 1994.32, 1995.6, 0],
+        [1792053000, 1995.6, 1998.88, 1995.23, 1997.5, 0],
+        [1792053300, 1997.5, 1999.41, 1996.43, 1998.84, 0],
+        [1792053600, 1998.84, 1998.95, 1994.17, 1996.56, 0],
+        [1792053900, 1996.56, 1998.82, 1994.25, 1998.4, 0],
+        [1792054200, 1998.4, 2000.03, 1997.91, 1998.67, 0],
+        [1792054500, 1998.67, 1999.29, 1996.72, 1997.39, 0],
+        [1792054800, 1997.39, 1999.88, 1993.71, 1994.02, 0],
+        [1792055100, 1994.02, 1994.46, 1990.68, 1990.85, 0],
+        [1792055400, 1990.85, 1993.77, 1988.11, 1992.1, 0],
+        [1792055700, 1992.1, 1993.33, 1990.82, 1990.84, 0],
+        [1792056000, 1990.84, 1991.76, 1990.17, 1991.2, 0],
+        [1792056300, 1991.2, 1991.86, 1990.63, 1990.75, 0],
+        [1792056600, 1990.75, 1992.36, 1990.34, 1991.37, 0],
+        [1792056900, 1991.37, 1992.97, 1990.47, 1991.44, 0],
+        [1792057200, 1991.44, 1992.81, 1989.54, 1989.96, 0],
+        [1792057500, 1989.96, 1991.69, 1989.95, 1990.1, 0],
+        [1792057800, 1990.1, 1990.63, 1988.85, 1989.52, 0],
+        [1792058100, 1989.52, 1989.97, 1988.36, 1989.53, 0],
+        [1792058400, 1989.53, 1991.28, 1988.46, 1991.11, 0],
+        [1792058700, 1991.11, 1995.13, 1990.73, 1993.6, 0],
+        [1792059000, 1993.6, 1993.62, 1991.58, 1993.14, 0],
+        [1792059300, 1993.14, 1995.14, 1990.81, 1991.92, 0],
+        [1792059600, 1991.92, 1993.24, 1991.35, 1992.9, 0],
+        [1792059900, 1992.9, 1994.79, 1991.53, 1991.78, 0],
+        [1792060200, 1991.78, 1995.66, 1991.54, 1994.94, 0],
+        [1792060500, 1994.94, 1996.19, 1993.94, 1995.45, 0],
+        [1792060800, 1995.45, 1997.22, 1995.21, 1996.43, 0],
+        [1792061100, 1996.43, 1997.96, 1995.3, 1996.01, 0],
+        [1792061400, 1996.01, 1996.97, 1992.79, 1993.95, 0],
+        [1792061700, 1993.95, 1994.04, 1990.54, 1992.63, 0],
+        [1792062000, 1992.63, 1993.7, 1989.78, 1990.21, 0],
+        [1792062300, 1990.21, 1992.37, 1987.59, 1988.14, 0],
+        [1792062600, 1988.14, 1990.81, 1987.72, 1989.57, 0],
+        [1792062900, 1989.57, 1993.39, 1988.33, 1992.55, 0],
+        [1792063200, 1992.55, 1996.22, 1991.33, 1995.55, 0],
+        [1792063500, 1995.55, 1995.92, 1994.98, 1995.47, 0],
+        [1792063800, 1995.47, 1997.82, 1992.59, 1994.12, 0],
+        [1792064100, 1994.12, 1995.68, 1992.22, 1993.83, 0],
+        [1792064400, 1993.83, 1995.54, 1993.19, 1994.08, 0],
+        [1792064700, 1994.08, 1996.11, 1993.3, 1993.8, 0],
+        [1792065000, 1993.8, 1994.84, 1990.32, 1992.09, 0],
+        [1792065300, 1992.09, 1993.62, 1990.37, 1991.54, 0],
+        [1792065600, 1991.54, 1992.09, 1990.99, 1991.09, 0],
+        [1792065900, 1991.09, 1994.2, 1990.24, 1992.79, 0],
+        [1792066200, 1992.79, 1994.47, 1990.09, 1991.08, 0],
+        [1792066500, 1991.08, 1991.58, 1987.77, 1988.86, 0],
+        [1792066800, 1988.86, 1992.63, 1988.1, 1990.53, 0],
+        [1792067100, 1990.53, 1990.95, 1988.8, 1989.73, 0],
+        [1792067400, 1989.73, 1990.7, 1988.74, 1989.15, 0],
+        [1792067700, 1989.15, 1990.43, 1988.46, 1989.06, 0],
+        [1792068000, 1989.06, 1989.56, 1988.64, 1988.93, 0],
+        [1792068300, 1988.93, 1992.97, 1987.61, 1992.09, 0],
+        [1792068600, 1992.09, 1992.65, 1986.62, 1989.58, 0],
+        [1792068900, 1989.58, 1991.26, 1987.54, 1991.05, 0],
+        [1792069200, 1991.05, 1991.99, 1990.1, 1991.77, 0],
+        [1792069500, 1991.77, 1992.8, 1989.71, 1992.21, 0],
+        [1792069800, 1992.21, 1992.71, 1989.36, 1989.37, 0],
+        [1792070100, 1989.37, 1990.31, 1988.61, 1989.02, 0],
+        [1792070400, 1989.02, 1990.17, 1988.4, 1989.14, 0],
+        [1792070700, 1989.14, 1989.39, 1988.88, 1989.23, 0],
+        [1792071000, 1989.23, 1990.35, 1987.21, 1990.18, 0],
+        [1792071300, 1990.18, 1990.66, 1989.7, 1989.93, 0],
+        [1792071600, 1989.93, 1991.61, 1985.94, 1987.4, 0],
+        [1792071900, 1987.4, 1991.16, 1987.13, 1990.23, 0],
+        [1792072200, 1990.23, 1990.35, 1989.68, 1989.8, 0],
+        [1792072500, 1989.8, 1990.15, 1987.53, 1988.44, 0],
+        [1792072800, 1988.44, 1989.31, 1986.91, 1988.64, 0],
+        [1792073100, 1988.64, 1990.25, 1984.96, 1987.21, 0],
+        [1792073400, 1987.21, 1990.34, 1986.29, 1990.12, 0],
+        [1792073700, 1990.12, 1992.21, 1989.26, 1991.29, 0],
+        [1792135800, 1988.92, 1990.13, 1988.48, 1988.92, 0],
+        [1792136100, 1988.92, 1990.43, 1988.55, 1989.77, 0],
+        [1792136400, 1989.77, 1991.43, 1989.51, 1991.3, 0],
+        [1792136700, 1991.3, 1993.45, 1989.87, 1992.04, 0],
+        [1792137000, 1992.04, 1995.37, 1991.77, 1993.89, 0],
+        [1792137300, 1993.89, 1995.25, 1989.3, 1990.34, 0],
+        [1792137600, 1990.34, 1991.39, 1988.75, 1990.93, 0],
+        [1792137900, 1990.93, 1991.09, 1989.35, 1990.23, 0],
+        [1792138200, 1990.23, 1991.07, 1989.01, 1989.06, 0],
+        [1792138500, 1989.06, 1993.09, 1987.52, 1990.65, 0],
+        [1792138800, 1990.65, 1992.62, 1989.73, 1991.81, 0],
+        [1792139100, 1991.81, 1992.6, 1990.03, 1990.81, 0],
+        [1792139400, 1990.81, 1991.75, 1990.28, 1990.67, 0],
+        [1792139700, 1990.67, 1992.23, 1987.63, 1987.88, 0],
+        [1792140000, 1987.88, 1988.24, 1985.48, 1986.65, 0],
+        [1792140300, 1986.65, 1988.42, 1985.33, 1986.61, 0],
+        [1792140600, 1986.61, 1987.86, 1985.58, 1986.37, 0],
+        [1792140900, 1986.37, 1987.28, 1985.92, 1987.05, 0],
+        [1792141200, 1987.05, 1988.51, 1985.77, 1988.11, 0],
+        [1792141500, 1988.11, 1988.89, 1987.41, 1987.73, 0],
+        [1792141800, 1987.73, 1988.74, 1984.72, 1985.92, 0],
+        [1792142100, 1985.92, 1987.8, 1985.7, 1987.16, 0],
+        [1792142400, 1987.16, 1987.54, 1986.0, 1987.47, 0],
+        [1792142700, 1987.47, 1987.69, 1986.79, 1986.89, 0],
+        [1792143000, 1986.89, 1987.66, 1986.34, 1987.49, 0],
+        [1792143300, 1987.49, 1990.47, 1985.97, 1989.14, 0],
+        [1792143600, 1989.14, 1989.71, 1985.45, 1989.7, 0],
+        [1792143900, 1989.7, 1991.0, 1988.14, 1988.51, 0],
+        [1792144200, 1988.51, 1989.33, 1986.67, 1989.03, 0],
+        [1792144500, 1989.03, 1990.05, 1985.27, 1986.81, 0],
+        [1792144800, 1986.81, 1989.17, 1986.74, 1987.38, 0],
+        [1792145100, 1987.38, 1989.61, 1985.96, 1988.5, 0],
+        [1792145400, 1988.5, 1989.3, 1986.52, 1987.25, 0],
+        [1792145700, 1987.25, 1987.94, 1986.15, 1986.3, 0],
+        [1792146000, 1986.3, 1989.18, 1985.31, 1988.16, 0],
+        [1792146300, 1988.16, 1990.12, 1988.14, 1989.47, 0],
+        [1792146600, 1989.47, 1991.34, 1988.99, 1990.55, 0],
+        [1792146900, 1990.55, 1991.8, 1988.03, 1989.54, 0],
+        [1792147200, 1989.54, 1992.52, 1988.21, 1990.52, 0],
+        [1792147500, 1990.52, 1992.69, 1989.6, 1990.54, 0],
+        [1792147800, 1990.54, 1992.71, 1989.5, 1992.26, 0],
+        [1792148100, 1992.26, 1992.43, 1991.26, 1991.44, 0],
+        [1792148400, 1991.44, 1991.86, 1990.75, 1991.57, 0],
+        [1792148700, 1991.57, 1993.09, 1990.37, 1992.18, 0],
+        [1792149000, 1992.18, 1993.63, 1991.77, 1993.51, 0],
+        [1792149300, 1993.51, 1994.68, 1992.9, 1994.68, 0],
+        [1792149600, 1994.68, 2000.86, 1993.3, 1999.3, 0],
+        [1792149900, 1999.3, 2001.77, 1999.23, 2000.68, 0],
+        [1792150200, 2000.68, 2001.96, 1998.47, 2000.88, 0],
+        [1792150500, 2000.88, 2002.39, 2000.04, 2001.53, 0],
+        [1792150800, 2001.53, 2002.44, 2000.09, 2001.2, 0],
+        [1792151100, 2001.2, 2001.95, 1999.51, 2000.24, 0],
+        [1792151400, 2000.24, 2003.93, 1998.13, 2003.31, 0],
+        [1792151700, 2003.31, 2004.68, 2002.41, 2003.97, 0],
+        [1792152000, 2003.97, 2005.33, 2002.94, 2005.18, 0],
+        [1792152300, 2005.18, 2006.98, 2004.41, 2006.43, 0],
+        [1792152600, 2006.43, 2010.08, 2005.97, 2006.65, 0],
+        [1792152900, 2006.65, 2008.05, 2004.3, 2005.53, 0],
+        [1792153200, 2005.53, 2008.48, 2005.14, 2007.74, 0],
+        [1792153500, 2007.74, 2008.17, 2003.98, 2005.29, 0],
+        [1792153800, 2005.29, 2006.23, 2002.53, 2003.86, 0],
+        [1792154100, 2003.86, 2008.87, 2003.0, 2006.44, 0],
+        [1792154400, 2006.44, 2008.7, 2006.29, 2007.69, 0],
+        [1792154700, 2007.69, 2007.98, 2006.33, 2006.67, 0],
+        [1792155000, 2006.67, 2007.1, 2003.79, 2005.59, 0],
+        [1792155300, 2005.59, 2005.83, 2005.3, 2005.5, 0],
+        [1792155600, 2005.5, 2006.65, 2003.71, 2005.81, 0],
+        [1792155900, 2005.81, 2006.08, 2003.49, 2005.81, 0],
+        [1792156200, 2005.81, 2006.53, 2005.64, 2006.15, 0],
+        [1792156500, 2006.15, 2006.68, 2002.67, 2005.12, 0],
+        [1792156800, 2005.12, 2005.67, 2003.09, 2003.57, 0],
+        [1792157100, 2003.57, 2005.6, 2002.41, 2004.64, 0],
+        [1792157400, 2004.64, 2005.36, 2000.51, 2000.83, 0],
+        [1792157700, 2000.83, 2002.47, 1999.64, 2002.0, 0],
+        [1792158000, 2002.0, 2004.77, 2001.87, 2004.5, 0],
+        [1792158300, 2004.5, 2005.19, 2003.14, 2003.57, 0],
+        [1792158600, 2003.57, 2006.45, 2003.36, 2005.07, 0],
+        [1792158900, 2005.07, 2007.04, 2004.85, 2006.87, 0],
+        [1792159200, 2006.87, 2007.84, 2006.06, 2007.51, 0],
+        [1792159500, 2007.51, 2012.94, 2007.28, 2012.8, 0],
+        [1792159800, 2012.8, 2013.24, 2011.36, 2012.98, 0],
+        [1792160100, 2012.98, 2016.04, 2010.8, 2012.4, 0],
+      ],
+    },
+  },
+};
@@ -0,0 +1,199 @@
+/**
+ * AGRX Fundamentals Service
+ *
+ * Company fundamentals (see shared/fundamentals) for the ATHEX_SYMBOLS
+ * universe. A fundamentals provider reports the latest annual figures for
+ * every company it covers in one call; the answer is cached (see cache) as
+ * one snapshot, refreshed in the background, and valued at the current
+ * quote on request.
+ *
+ * Reported figures only change with annual results, so the snapshot is
+ * fresh for hours and a failed refresh keeps serving the last one.
+ *
+ * Providers:
+ * - "fixture" (default): indicative figures from fixtures/fundamentals for
+ *   the larger names only, so the asset screen and screener work offline.
+ *   Snapshots and stocks.getFundamentals carry `indicative` so the client
+ *   labels them as sample data rather than reported results.
+ */
+import {
+  computeValuation,
+  type ReportedFundamentals,
+  type StockFundamentals,
+} from "../shared/fundamentals";
+import { createCache } from "./cache";
+import { getTrailingDividends } from "./dividendService";
+import { FUNDAMENTALS_FIXTURE } from "./fixtures/fundamentals";
+import { ATHEX_SYMBOLS, getStockQuote, type StockQuote } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface FundamentalsProvider {
+  /** Shown in logs */
+  readonly name: string;
+  /** Figures are samples close to reported results, not the filings themselves */
+  readonly indicative?: boolean;
+  /** Latest figures for every company covered; throws on upstream failure */
+  getAll(): Promise<ReportedFundamentals[]>;
+}
+
+export interface FundamentalsSnapshot {
+  /** When the provider returned these figures (epoch ms) */
+  fetchedAt: number;
+  /** The provider's figures are indicative (see FundamentalsProvider) */
+  indicative: boolean;
+  byStock: Map<string, ReportedFundamentals>;
+}
+
+interface StoredSnapshot {
+  fetchedAt: number;
+  indicative: boolean;
+  companies: ReportedFundamentals[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const FUNDAMENTALS_TTL_MS = 6 * 60 * 60_000;
+const FUNDAMENTALS_STALE_MS = 7 * 24 * 60 * 60_000;
+
+/** Background refresh, inside the TTL so requests never wait on the provider */
+const REFRESH_INTERVAL_MS = 4 * 60 * 60_000;
+
+const SNAPSHOT_KEY = "snapshot";
+
+const fundamentalsCache = createCache<StoredSnapshot>("fundamentals", {
+  ttlMs: FUNDAMENTALS_TTL_MS,
+  staleMs: FUNDAMENTALS_STALE_MS,
+});
+
+// ─── Providers ──────────────────────────────────────────────────────────────
+
+export function createFixtureFundamentalsProvider(
+  rows: ReportedFundamentals[] = FUNDAMENTALS_FIXTURE,
+): FundamentalsProvider {
+  return {
+    name: "fixture",
+    indicative: true,
+    getAll: async () => rows,
+  };
+}
+
+let provider: FundamentalsProvider | null = null;
+
+export function getFundamentalsProvider(): FundamentalsProvider {
+  if (!provider) provider = createFixtureFundamentalsProvider();
+  return provider;
+}
+
+/**
+ * Swap the active provider (tests, scripts). Pass null to go back to the
+ * default. Callers should also clear the cache.
+ */
+export function setFundamentalsProvider(next: FundamentalsProvider | null): void {
+  provider = next;
+}
+
+// ─── Snapshot ───────────────────────────────────────────────────────────────
+
+async function loadSnapshot(): Promise<StoredSnapshot> {
+  const source = getFundamentalsProvider();
+  const companies = await source.getAll();
+  return {
+    fetchedAt: Date.now(),
+    indicative: source.indicative ?? false,
+    companies: companies.filter((c) => ATHEX_SYMBOLS[c.stockId]),
+  };
+}
+
+/**
+ * Reported figures for every covered stock. Empty when the provider fails
+ * and nothing is cached.
+ */
+export async function getFundamentalsSnapshot(): Promise<FundamentalsSnapshot> {
+  try {
+    const stored = await fundamentalsCache.getOrLoad(SNAPSHOT_KEY, loadSnapshot);
+    return {
+      fetchedAt: stored.fetchedAt,
+      indicative: stored.indicative,
+      byStock: new Map(stored.companies.map((c) => [c.stockId, c])),
+    };
+  } catch (error) {
+    console.error("[FundamentalsService] Failed to load fundamentals:", error);
+    return { fetchedAt: Date.now(), indicative: false, byStock: new Map() };
+  }
+}
+
+/**
+ * Fetch fresh figures from the provider into the cache. Returns how many
+ * companies came back.
+ */
+export async function refreshFundamentals(): Promise<number> {
+  const snapshot = await loadSnapshot();
+  await fundamentalsCache.set(SNAPSHOT_KEY, snapshot);
+  return snapshot.companies.length;
+}
+
+export async function clearFundamentalsCache(): Promise<void> {
+  await fundamentalsCache.clear();
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Reported figures for one stock, valued at its current quote. The quote is
+ * returned for freshness; fundamentals are null when the provider doesn't
+ * cover the stock.
+ */
+export async function getStockFundamentals(
+  stockId: string,
+  now: number = Date.now(),
+): Promise<{ fundamentals: StockFundamentals | null; quote: StockQuote | null }> {
+  if (!ATHEX_SYMBOLS[stockId]) return { fundamentals: null, quote: null };
+
+  const [snapshot, quote] = await Promise.all([getFundamentalsSnapshot(), getStockQuote(stockId)]);
+  const reported = snapshot.byStock.get(stockId);
+  if (!reported) return { fundamentals: null, quote };
+
+  const price = quote?.price ?? 0;
+  return {
+    fundamentals: {
+      ...reported,
+      valuation: computeValuation(price, reported, getTrailingDividends(stockId, now), quote?.marketCap ?? null),
+      fetchedAt: snapshot.fetchedAt,
+      indicative: snapshot.indicative,
+    },
+    quote,
+  };
+}
+
+// ─── Background Refresh ─────────────────────────────────────────────────────
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleNextRefresh(delay: number): void {
+  refreshTimer = setTimeout(() => {
+    refreshFundamentals()
+      .catch((err) => console.warn("[FundamentalsService] Refresh failed:", err))
+      .finally(() => {
+        if (refreshTimer !== null) scheduleNextRefresh(REFRESH_INTERVAL_MS);
+      });
+  }, delay);
+}
+
+/** Start refreshing fundamentals in the background */
+export function startFundamentalsRefresh(): void {
+  if (refreshTimer) return;
+  console.log(`[FundamentalsService] Refreshing ${getFundamentalsProvider().name} fundamentals every ${REFRESH_INTERVAL_MS / 3_600_000}h`);
+  scheduleNextRefresh(0);
+}
+
+export function stopFundamentalsRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+export function isFundamentalsRefreshRunning(): boolean {
+  return refreshTimer !== null;
+}
@@ -0,0 +1,249 @@
+/**
+ * AGRX Technical Indicators
+ *
+ * Pure indicator math over chart candles, for the Pro chart overlays
+ * (stocks.getIndicators). Every series is aligned with the input candles:
+ * one value per candle, null until the indicator has enough history.
+ *
+ * - SMA / EMA: simple and exponential moving averages of the close; the EMA
+ *   is seeded with the SMA of its first `period` closes
+ * - Bollinger Bands: SMA ± k population standard deviations
+ * - RSI: Wilder's smoothing of average gains and losses
+ * - MACD: fast EMA − slow EMA, a signal EMA of that, and their difference
+ * - VWAP: cumulative typical price × volume over volume, restarting every
+ *   Athens session for intraday candles and anchored at the first candle
+ *   shown for daily and longer ones
+ */
+import { getAthensDateKey } from "./marketCalendar";
+import type { ChartDataPoint } from "./marketData";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** One value per candle; null while an indicator warms up */
+export type Series = (number | null)[];
+
+export const INDICATOR_IDS = ["sma", "ema", "bollinger", "rsi", "macd", "vwap"] as const;
+export type IndicatorId = (typeof INDICATOR_IDS)[number];
+
+export interface IndicatorOptions {
+  indicators: IndicatorId[];
+  smaPeriods: number[];
+  emaPeriods: number[];
+  bollingerPeriod: number;
+  bollingerStdDev: number;
+  rsiPeriod: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+}
+
+export interface MovingAverage {
+  period: number;
+  values: Series;
+}
+
+export interface IndicatorSet {
+  /** Candle timestamps (epoch seconds) the series are aligned with */
+  timestamps: number[];
+  close: number[];
+  sma: MovingAverage[];
+  ema: MovingAverage[];
+  bollinger: { period: number; stdDev: number; upper: Series; middle: Series; lower: Series } | null;
+  rsi: { period: number; values: Series } | null;
+  macd: { fast: number; slow: number; signal: number; macd: Series; signalLine: Series; histogram: Series } | null;
+  vwap: Series | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** The usual chart-platform defaults */
+export const DEFAULT_INDICATOR_OPTIONS: IndicatorOptions = {
+  indicators: [...INDICATOR_IDS],
+  smaPeriods: [20, 50],
+  emaPeriods: [12],
+  bollingerPeriod: 20,
+  bollingerStdDev: 2,
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+};
+
+/** Candles at or above this spacing are daily or longer (VWAP is anchored) */
+const DAILY_SECONDS = 20 * 60 * 60;
+
+// ─── Moving Averages ────────────────────────────────────────────────────────
+
+export function sma(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/** EMA of `values`, which may start with nulls (e.g. the MACD line) */
+export function ema(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  const k = 2 / (period + 1);
+  const start = values.findIndex((v) => v !== null);
+  if (start === -1 || values.length - start < period) return result;
+
+  let previous = 0;
+  for (let i = start; i < start + period; i++) previous += values[i] as number;
+  previous /= period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (values[i] as number) * k + previous * (1 - k);
+    result[i] = previous;
+  }
+  return result;
+}
+
+// ─── Bands and Oscillators ──────────────────────────────────────────────────
+
+export function bollingerBands(values: number[], period: number, stdDev: number) {
+  const middle = sma(values, period);
+  const upper: Series = new Array(values.length).fill(null);
+  const lower: Series = new Array(values.length).fill(null);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i] as number;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (values[j] - mean) ** 2;
+    const deviation = Math.sqrt(variance / period) * stdDev;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  }
+  return { upper, middle, lower };
+}
+
+export function rsi(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+
+  const toRsi = () => (loss === 0 ? (gain === 0 ? 50 : 100) : 100 - 100 / (1 + gain / loss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+}
+
+export function macd(values: number[], fast: number, slow: number, signal: number) {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null,
+  );
+  const signalLine = ema(line, signal);
+  const histogram: Series = line.map((v, i) =>
+    v !== null && signalLine[i] !== null ? v - (signalLine[i] as number) : null,
+  );
+  return { macd: line, signalLine, histogram };
+}
+
+// ─── Volume ─────────────────────────────────────────────────────────────────
+
+export function vwap(candles: ChartDataPoint[]): Series {
+  const isIntraday =
+    candles.length > 1 && candles[1].timestamp - candles[0].timestamp < DAILY_SECONDS;
+
+  const result: Series = [];
+  let session: string | null = null;
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (const candle of candles) {
+    if (isIntraday) {
+      const key = getAthensDateKey(new Date(candle.timestamp * 1000));
+      if (key !== session) {
+        session = key;
+        priceVolume = 0;
+        volume = 0;
+      }
+    }
+    const typical = (candle.high + candle.low + candle.close) / 3;
+    priceVolume += typical * candle.volume;
+    volume += candle.volume;
+    result.push(volume > 0 ? priceVolume / volume : null);
+  }
+  return result;
+}
+
+// ─── All Indicators ─────────────────────────────────────────────────────────
+
+/**
+ * Compute the requested indicators over `candles`. Pass `from` (epoch
+ * seconds) to compute over extra leading history for warm-up but return
+ * only the candles from then on.
+ */
+export function computeIndicators(
+  candles: ChartDataPoint[],
+  options: IndicatorOptions = DEFAULT_INDICATOR_OPTIONS,
+  from?: number,
+): IndicatorSet {
+  const wanted = new Set(options.indicators);
+  const close = candles.map((c) => c.close);
+  const firstShown = from !== undefined ? candles.findIndex((c) => c.timestamp >= from) : 0;
+  const start = firstShown === -1 ? candles.length : firstShown;
+  const trim = <T>(series: T[]): T[] => series.slice(start);
+
+  const bands = wanted.has("bollinger")
+    ? bollingerBands(close, options.bollingerPeriod, options.bollingerStdDev)
+    : null;
+  const convergence = wanted.has("macd")
+    ? macd(close, options.macdFast, options.macdSlow, options.macdSignal)
+    : null;
+
+  return {
+    timestamps: trim(candles.map((c) => c.timestamp)),
+    close: trim(close),
+    sma: wanted.has("sma")
+      ? options.smaPeriods.map((period) => ({ period, values: trim(sma(close, period)) }))
+      : [],
+    ema: wanted.has("ema")
+      ? options.emaPeriods.map((period) => ({ period, values: trim(ema(close, period)) }))
+      : [],
+    bollinger: bands
+      ? {
+          period: options.bollingerPeriod,
+          stdDev: options.bollingerStdDev,
+          upper: trim(bands.upper),
+          middle: trim(bands.middle),
+          lower: trim(bands.lower),
+        }
+      : null,
+    rsi: wanted.has("rsi") ? { period: options.rsiPeriod, values: trim(rsi(close, options.rsiPeriod)) } : null,
+    macd: convergence
+      ? {
+          fast: options.macdFast,
+          slow: options.macdSlow,
+          signal: options.macdSignal,
+          macd: trim(convergence.macd),
+          signalLine: trim(convergence.signalLine),
+          histogram: trim(convergence.histogram),
+        }
+      : null,
+    // Anchored at the first candle shown, not the warm-up history
+    vwap: wanted.has("vwap") ? vwap(candles.slice(start)) : null,
+  };
+}
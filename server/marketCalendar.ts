@@ -0,0 +1,237 @@
+/**
+ * AGRX Market Calendar
+ *
+ * ATHEX trading calendar, in Athens local time:
+ * - 10:00–10:30 pre-opening auction
+ * - 10:30–17:20 continuous trading (the only phase the demo fills in)
+ * - 17:20–17:30 closing auction
+ * - Closed at weekends and on ATHEX holidays, including the moveable feasts
+ *   that follow Orthodox Easter (Clean Monday, Good Friday, Easter Monday,
+ *   Whit Monday)
+ *
+ * Pure functions of the current time — no I/O — so the trade, order and
+ * alert pipelines can all ask the same question.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type MarketPhase = "pre_open" | "open" | "closing_auction" | "closed";
+
+export interface MarketHoliday {
+  /** Athens calendar date, YYYY-MM-DD */
+  date: string;
+  name: string;
+}
+
+export interface MarketStatus {
+  phase: MarketPhase;
+  /** Continuous trading is running — trades fill and orders match */
+  isOpen: boolean;
+  /** Today is a weekday that isn't an exchange holiday */
+  isTradingDay: boolean;
+  /** Name of today's exchange holiday, if any */
+  holiday: string | null;
+  /** Start of continuous trading for the current or next session (epoch ms) */
+  nextOpen: number;
+  /** End of continuous trading for the current or next session (epoch ms) */
+  nextClose: number;
+  /** When this status was computed (epoch ms) */
+  asOf: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const ATHENS_TIME_ZONE = "Europe/Athens";
+
+/** Session phases in minutes after Athens midnight */
+const SESSION_PHASES: { phase: Exclude<MarketPhase, "closed">; start: number; end: number }[] = [
+  { phase: "pre_open", start: 10 * 60, end: 10 * 60 + 30 },
+  { phase: "open", start: 10 * 60 + 30, end: 17 * 60 + 20 },
+  { phase: "closing_auction", start: 17 * 60 + 20, end: 17 * 60 + 30 },
+];
+
+const CONTINUOUS_OPEN = 10 * 60 + 30;
+const CONTINUOUS_CLOSE = 17 * 60 + 20;
+
+/** Fixed-date ATHEX holidays as [month (1-12), day, name] */
+const FIXED_HOLIDAYS: [number, number, string][] = [
+  [1, 1, "New Year's Day"],
+  [1, 6, "Epiphany"],
+  [3, 25, "Independence Day"],
+  [5, 1, "Labour Day"],
+  [8, 15, "Assumption Day"],
+  [10, 28, "Ochi Day"],
+  [12, 24, "Christmas Eve"],
+  [12, 25, "Christmas Day"],
+  [12, 26, "Boxing Day"],
+  [12, 31, "New Year's Eve"],
+];
+
+/** Holidays relative to Orthodox Easter Sunday, in days */
+const EASTER_HOLIDAYS: [number, string][] = [
+  [-48, "Clean Monday"],
+  [-2, "Good Friday"],
+  [1, "Easter Monday"],
+  [50, "Whit Monday"],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Never look further ahead than this for the next session */
+const MAX_LOOKAHEAD_DAYS = 14;
+
+// ─── Athens Time ────────────────────────────────────────────────────────────
+
+/** Offset of Athens wall-clock time from UTC at the given instant, in ms */
+function athensOffsetMs(date: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: ATHENS_TIME_ZONE,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** Athens midnight of `date`'s Athens calendar day, expressed as if it were UTC */
+function athensDay(date: Date): { day: number; minutes: number } {
+  const local = date.getTime() + athensOffsetMs(date);
+  const day = Math.floor(local / DAY_MS) * DAY_MS;
+  return { day, minutes: Math.floor((local - day) / 60_000) };
+}
+
+/** The instant an Athens wall-clock time occurs (`day` as from athensDay) */
+function fromAthens(day: number, minutes: number): number {
+  const wallClock = day + minutes * 60_000;
+  // Re-derive the offset at the result in case DST changes that day
+  const guess = wallClock - athensOffsetMs(new Date(wallClock));
+  return wallClock - athensOffsetMs(new Date(guess));
+}
+
+function toDateKey(day: number): string {
+  return new Date(day).toISOString().slice(0, 10);
+}
+
+// ─── Holidays ───────────────────────────────────────────────────────────────
+
+/**
+ * Orthodox Easter Sunday for a year, as a UTC-midnight date. Meeus' Julian
+ * algorithm plus the 13-day Julian→Gregorian shift (valid 1900–2099).
+ */
+export function getOrthodoxEaster(year: number): Date {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day) + 13 * DAY_MS);
+}
+
+/** Every ATHEX holiday in a year, in date order (weekend dates included) */
+export function getMarketHolidays(year: number): MarketHoliday[] {
+  const easter = getOrthodoxEaster(year).getTime();
+  const holidays: MarketHoliday[] = [
+    ...FIXED_HOLIDAYS.map(([month, day, name]) => ({
+      date: toDateKey(Date.UTC(year, month - 1, day)),
+      name,
+    })),
+    ...EASTER_HOLIDAYS.map(([offset, name]) => ({
+      date: toDateKey(easter + offset * DAY_MS),
+      name,
+    })),
+  ];
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+function getHolidayName(day: number): string | null {
+  const year = new Date(day).getUTCFullYear();
+  let byDate = holidayCache.get(year);
+  if (!byDate) {
+    byDate = new Map(getMarketHolidays(year).map((h) => [h.date, h.name]));
+    holidayCache.set(year, byDate);
+  }
+  return byDate.get(toDateKey(day)) ?? null;
+}
+
+function isTradingDayKey(day: number): boolean {
+  const weekday = new Date(day).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && getHolidayName(day) === null;
+}
+
+/** Athens calendar date of `date`, YYYY-MM-DD */
+export function getAthensDateKey(date: Date): string {
+  return toDateKey(athensDay(date).day);
+}
+
+/** Athens midnight at the start of a YYYY-MM-DD calendar date (epoch ms) */
+export function getAthensDayStart(dateKey: string): number {
+  return fromAthens(Date.parse(`${dateKey}T00:00:00Z`), 0);
+}
+
+/** Whether the Athens calendar day containing `date` is an ATHEX trading day */
+export function isTradingDay(date: Date): boolean {
+  return isTradingDayKey(athensDay(date).day);
+}
+
+// ─── Sessions ───────────────────────────────────────────────────────────────
+
+/**
+ * The first time after `now` that the Athens wall clock reads `minutes` on a
+ * trading day.
+ */
+function nextSessionTime(now: Date, minutes: number): number {
+  const { day } = athensDay(now);
+  for (let i = 0; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const candidate = day + i * DAY_MS;
+    if (!isTradingDayKey(candidate)) continue;
+    const at = fromAthens(candidate, minutes);
+    if (at > now.getTime()) return at;
+  }
+  throw new Error("No ATHEX session found in the lookahead window");
+}
+
+/** End of continuous trading for the session in progress, or the next one */
+export function getNextSessionClose(now: Date): Date {
+  return new Date(nextSessionTime(now, CONTINUOUS_CLOSE));
+}
+
+/** ATHEX status at `now` */
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+  const { day, minutes } = athensDay(now);
+  const tradingDay = isTradingDayKey(day);
+
+  const session = tradingDay
+    ? SESSION_PHASES.find((p) => minutes >= p.start && minutes < p.end)
+    : undefined;
+  const phase: MarketPhase = session?.phase ?? "closed";
+  const isOpen = phase === "open";
+
+  return {
+    phase,
+    isOpen,
+    isTradingDay: tradingDay,
+    holiday: getHolidayName(day),
+    nextOpen: isOpen ? fromAthens(day, CONTINUOUS_OPEN) : nextSessionTime(now, CONTINUOUS_OPEN),
+    nextClose: nextSessionTime(now, CONTINUOUS_CLOSE),
+    asOf: now.getTime(),
+  };
+}
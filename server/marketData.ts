@@ -0,0 +1,111 @@
+/**
+ * AGRX Market Data Provider
+ *
+ * The seam between stockService and wherever prices come from. A provider
+ * answers one question — "OHLCV candles plus quote metadata for a symbol at
+ * an interval and range" — and stockService builds quotes, sparklines and
+ * charts from the answer.
+ *
+ * Providers (selected with MARKET_DATA_PROVIDER):
+ * - "yahoo" (default): Yahoo Finance through the built-in data API
+ * - "replay": recorded sessions served from a file with a simulated clock
+ *   (see replayMarketData), for demos, deterministic tests and offline dev
+ */
+import { createReplayProvider } from "./replayMarketData";
+import { createYahooProvider } from "./yahooMarketData";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type ChartInterval = "5m" | "15m" | "1d" | "1wk" | "1mo";
+
+export type ChartRange = "1d" | "5d" | "1mo" | "3mo" | "1y" | "5y";
+
+export interface ChartDataPoint {
+  /** Epoch seconds */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/** Candles for a symbol plus the quote fields that come with them */
+export interface MarketChart {
+  symbol: string;
+  interval: ChartInterval;
+  range: ChartRange;
+  /** Oldest first, zero closes dropped */
+  candles: ChartDataPoint[];
+  name: string | null;
+  currency: string;
+  exchange: string;
+  regularMarketPrice: number | null;
+  /** Close of the session before the first candle */
+  previousClose: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  fiftyTwoWeekHigh: number | null;
+  fiftyTwoWeekLow: number | null;
+  marketCap: number | null;
+}
+
+export interface MarketDataProvider {
+  /** Shown in logs and health output */
+  readonly name: string;
+  /** Serves recorded or synthetic prices, not a live feed (responses say "mock") */
+  readonly simulated?: boolean;
+  /** Null when the provider has nothing for the symbol; throws on upstream failure */
+  getChart(symbol: string, interval: ChartInterval, range: ChartRange): Promise<MarketChart | null>;
+  /**
+   * Several symbols in one upstream call, keyed by symbol (missing symbols
+   * left out). Quote fields the batch can't carry may be null. Optional —
+   * stockService falls back to one getChart per symbol without it.
+   */
+  getCharts?(symbols: string[], interval: ChartInterval, range: ChartRange): Promise<Map<string, MarketChart>>;
+}
+
+export type MarketDataProviderName = "yahoo" | "replay";
+
+// ─── Selection ──────────────────────────────────────────────────────────────
+
+let provider: MarketDataProvider | null = null;
+
+/**
+ * Build the provider named by `name` (MARKET_DATA_PROVIDER by default).
+ * Unknown names fall back to Yahoo with a warning.
+ */
+export function createMarketDataProvider(
+  name: string | undefined = process.env.MARKET_DATA_PROVIDER,
+): MarketDataProvider {
+  switch (name ?? "yahoo") {
+    case "yahoo":
+      return createYahooProvider();
+    case "replay":
+      return createReplayProvider({
+        file: process.env.MARKET_DATA_REPLAY_FILE || undefined,
+        speed: Number(process.env.MARKET_DATA_REPLAY_SPEED) || undefined,
+      });
+    default:
+      console.warn(`[MarketData] Unknown MARKET_DATA_PROVIDER "${name}", using yahoo`);
+      return createYahooProvider();
+  }
+}
+
+/** The active provider, created from the environment on first use */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!provider) {
+    provider = createMarketDataProvider();
+    console.log(`[MarketData] Using ${provider.name} provider`);
+  }
+  return provider;
+}
+
+/**
+ * Swap the active provider (tests, scripts). Pass null to go back to the
+ * environment's choice. Callers should also clear stockService's caches.
+ */
+export function setMarketDataProvider(next: MarketDataProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,19 @@
+/**
+ * AGRX Market Router
+ *
+ * tRPC router for ATHEX market hours:
+ * - Current session phase, holiday and next open/close times
+ */
+import { publicProcedure, router } from "./_core/trpc";
+import { getMarketStatus } from "./marketCalendar";
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const marketRouter = router({
+  /**
+   * Whether ATHEX is open right now, and when it next opens and closes
+   */
+  status: publicProcedure.query(() => {
+    return { success: true as const, data: getMarketStatus() };
+  }),
+});
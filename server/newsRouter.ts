@@ -45,8 +45,8 @@ export const newsRouter = router({
   /**
    * Force refresh news cache
    */
-  refreshNews: publicProcedure.mutation(() => {
-    clearNewsCache();
+  refreshNews: publicProcedure.mutation(async () => {
+    await clearNewsCache();
     return { success: true as const };
   }),
 });
@@ -3,8 +3,10 @@
  *
  * Fetches real-time stock news from Google News RSS (free, no API key)
  * and computes sentiment scores via OpenRouter LLM analysis.
- * Includes in-memory caching to avoid excessive requests.
+ * Results are cached (see cache) to avoid excessive requests; stale news is
+ * served while it refreshes, and stale sentiment stands in when the LLM fails.
  */
+import { createCache } from "./cache";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -75,20 +77,26 @@ const STOCK_SEARCH_TERMS: Record<string, string> = {
 
 // ─── Cache ──────────────────────────────────────────────────────────────────
 
-interface CacheEntry {
-  data: StockNews;
-  timestamp: number;
-}
-
-const newsCache = new Map<string, CacheEntry>();
 const NEWS_CACHE_TTL = 15 * 60 * 1000; // 15 minutes
+const NEWS_STALE_MS = 60 * 60 * 1000; // then 1 hour stale
 const SENTIMENT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes for sentiment
+const SENTIMENT_STALE_MS = 2 * 60 * 60 * 1000;
+const MARKET_NEWS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const MARKET_NEWS_STALE_MS = 30 * 60 * 1000;
 
-const sentimentCache = new Map<string, { sentiment: StockNews["sentiment"]; timestamp: number }>();
+const newsCache = createCache<StockNews>("news", { ttlMs: NEWS_CACHE_TTL, staleMs: NEWS_STALE_MS });
 
-// General market news cache
-let marketNewsCache: { articles: NewsArticle[]; timestamp: number } | null = null;
-const MARKET_NEWS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const sentimentCache = createCache<StockNews["sentiment"]>("sentiment", {
+  ttlMs: SENTIMENT_CACHE_TTL,
+  staleMs: SENTIMENT_STALE_MS,
+});
+
+// General market news cache, under a single key
+const marketNewsCache = createCache<NewsArticle[]>("market-news", {
+  ttlMs: MARKET_NEWS_CACHE_TTL,
+  staleMs: MARKET_NEWS_STALE_MS,
+});
+const MARKET_NEWS_KEY = "athex";
 
 // ─── Google News RSS Parser ─────────────────────────────────────────────────
 
@@ -185,9 +193,9 @@ async function analyzeSentiment(
   headlines: string[]
 ): Promise<StockNews["sentiment"]> {
   // Check sentiment cache first
-  const cached = sentimentCache.get(stockId);
-  if (cached && Date.now() - cached.timestamp < SENTIMENT_CACHE_TTL) {
-    return cached.sentiment;
+  const cached = await sentimentCache.get(stockId);
+  if (cached?.isFresh) {
+    return cached.value;
   }
 
   const apiKey = process.env.OPENROUTER_API_KEY;
@@ -195,6 +203,9 @@ async function analyzeSentiment(
     return computeFallbackSentiment(headlines);
   }
 
+  // An older LLM reading beats keyword matching
+  const fallback = () => cached?.value ?? computeFallbackSentiment(headlines);
+
   try {
     const prompt = `Analyze the sentiment of these news headlines about ${stockName} (Greek stock market). For each headline, classify as bullish, bearish, or neutral. Then provide an overall sentiment score.
 
@@ -221,7 +232,7 @@ Respond ONLY with valid JSON in this exact format, no other text:
 
     if (!response.ok) {
       console.warn(`[NewsService] OpenRouter returned ${response.status}`);
-      return computeFallbackSentiment(headlines);
+      return fallback();
     }
 
     const data = await response.json() as {
@@ -232,7 +243,7 @@ Respond ONLY with valid JSON in this exact format, no other text:
     // Extract JSON from response (handle markdown code blocks)
     const jsonMatch = content.match(/\{[\s\S]*?\}/);
     if (!jsonMatch) {
-      return computeFallbackSentiment(headlines);
+      return fallback();
     }
 
     const parsed = JSON.parse(jsonMatch[0]) as {
@@ -252,12 +263,12 @@ Respond ONLY with valid JSON in this exact format, no other text:
     };
 
     // Cache the result
-    sentimentCache.set(stockId, { sentiment, timestamp: Date.now() });
+    await sentimentCache.set(stockId, sentiment);
 
     return sentiment;
   } catch (error) {
     console.warn(`[NewsService] Sentiment analysis failed for ${stockId}:`, error);
-    return computeFallbackSentiment(headlines);
+    return fallback();
   }
 }
 
@@ -309,12 +320,10 @@ function computeFallbackSentiment(headlines: string[]): StockNews["sentiment"] {
  * Get news and sentiment for a specific stock.
  */
 export async function getStockNews(stockId: string): Promise<StockNews> {
-  // Check cache
-  const cached = newsCache.get(stockId);
-  if (cached && Date.now() - cached.timestamp < NEWS_CACHE_TTL) {
-    return cached.data;
-  }
+  return newsCache.getOrLoad(stockId, () => loadStockNews(stockId));
+}
 
+async function loadStockNews(stockId: string): Promise<StockNews> {
   // Build search query
   const searchTerm = STOCK_SEARCH_TERMS[stockId];
   const query = searchTerm || `${stockId} Greece stock`;
@@ -345,27 +354,22 @@ export async function getStockNews(stockId: string): Promise<StockNews> {
     };
   });
 
-  const result: StockNews = {
+  return {
     stockId,
     articles: taggedArticles,
     sentiment,
     lastUpdated: Date.now(),
   };
-
-  // Cache
-  newsCache.set(stockId, { data: result, timestamp: Date.now() });
-
-  return result;
 }
 
 /**
  * Get general ATHEX market news (not stock-specific).
  */
 export async function getMarketNews(): Promise<NewsArticle[]> {
-  if (marketNewsCache && Date.now() - marketNewsCache.timestamp < MARKET_NEWS_CACHE_TTL) {
-    return marketNewsCache.articles;
-  }
+  return marketNewsCache.getOrLoad(MARKET_NEWS_KEY, loadMarketNews);
+}
 
+async function loadMarketNews(): Promise<NewsArticle[]> {
   const queries = [
     "Athens stock exchange ATHEX",
     "Greek stock market",
@@ -389,17 +393,12 @@ export async function getMarketNews(): Promise<NewsArticle[]> {
   // Sort by date (newest first)
   unique.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
 
-  const result = unique.slice(0, 15);
-  marketNewsCache = { articles: result, timestamp: Date.now() };
-
-  return result;
+  return unique.slice(0, 15);
 }
 
 /**
  * Clear all news caches.
  */
-export function clearNewsCache(): void {
-  newsCache.clear();
-  sentimentCache.clear();
-  marketNewsCache = null;
+export async function clearNewsCache(): Promise<void> {
+  await Promise.all([newsCache.clear(), sentimentCache.clear(), marketNewsCache.clear()]);
 }
@@ -2,45 +2,128 @@
  * AGRX Notification Router
  *
  * tRPC router for push notification management:
- * - Device registration (push token)
- * - Price alert CRUD
- * - Notification preference management
+ * - Device registration (push token); registering while signed in links
+ *   the device to the user
+ * - Price alert CRUD and notification preferences, for the signed-in user
+ *   (`account`) or for an anonymous demo device (keyed by deviceId)
+ * - Compound alert rules (AND/OR conditions, portfolio triggers) for the
+ *   signed-in user
+ * - Delivery channels per alert or rule, the signed-in user's email and
+ *   webhook settings, test deliveries and the delivery log
  * - Service stats
  */
 import { z } from "zod";
-import { publicProcedure, router } from "./_core/trpc";
+import { ALERT_CHANNELS } from "../shared/alertDelivery";
+import {
+  MAX_RULE_CONDITIONS,
+  MAX_RULE_DEPTH,
+  PORTFOLIO_METRICS,
+  ruleDepth,
+  type AlertRuleGroup,
+} from "../shared/alertRules";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import {
   registerDevice,
+  linkDevice,
   unregisterDevice,
-  getDevice,
   addAlert,
   removeAlert,
   toggleAlert,
   getAlerts,
   getAlertsForStock,
+  addRule,
+  removeRule,
+  toggleRule,
+  getRules,
+  setAlertChannels,
+  setRuleChannels,
+  getDeliverySettings,
+  updateDeliverySettings,
+  resendEmailCode,
+  verifyEmail,
+  rotateWebhookSecret,
+  sendTestDelivery,
+  getDeliveryLog,
   updatePreferences,
   getPreferences,
   getServiceStats,
   startPriceAlertService,
   isServiceRunning,
-  type AlertType,
+  DeviceClaimError,
+  PriceAlertError,
+  ALERT_TYPES,
+  type AlertOwner,
 } from "./priceAlertService";
 
 // ─── Input Schemas ──────────────────────────────────────────────────────────
 
+const alertTypeSchema = z.enum(ALERT_TYPES);
+
+const preferencesSchema = z.object({
+  priceAlerts: z.boolean().optional(),
+  dailyChallenge: z.boolean().optional(),
+  socialActivity: z.boolean().optional(),
+  marketNews: z.boolean().optional(),
+  percentThreshold: z.number().min(0.1).max(100).optional(),
+  quietHoursStart: z.number().min(0).max(23).nullable().optional(),
+  quietHoursEnd: z.number().min(0).max(23).nullable().optional(),
+});
+
+/** Where an alert or rule is delivered; push only when not given */
+const channelsSchema = z.array(z.enum(ALERT_CHANNELS)).min(1).max(ALERT_CHANNELS.length);
+
+const alertDraftSchema = z.object({
+  stockId: z.string().min(1),
+  stockName: z.string().min(1),
+  type: alertTypeSchema,
+  /** Checked against the type by the service (52-week alerts have none) */
+  threshold: z.number().nonnegative(),
+  referencePrice: z.number().positive().nullable().optional(),
+  enabled: z.boolean().default(true),
+  channels: channelsSchema.optional(),
+});
+
+const ruleConditionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("stock"),
+    stockId: z.string().min(1),
+    stockName: z.string().min(1),
+    type: alertTypeSchema,
+    threshold: z.number().nonnegative(),
+    referencePrice: z.number().positive().nullable().optional(),
+  }),
+  z.object({
+    kind: z.literal("portfolio"),
+    metric: z.enum(PORTFOLIO_METRICS),
+    op: z.enum(["gte", "lte"]),
+    value: z.number().min(-100).max(1000),
+  }),
+]);
+
+const ruleGroupSchema: z.ZodType<AlertRuleGroup> = z.lazy(() =>
+  z.object({
+    match: z.enum(["all", "any"]),
+    conditions: z.array(z.union([ruleConditionSchema, ruleGroupSchema])).min(1).max(MAX_RULE_CONDITIONS),
+  })
+);
+
+/** A rule: AND/OR groups of conditions, nested at most MAX_RULE_DEPTH deep */
+const alertRuleSchema = ruleGroupSchema.refine((rule) => ruleDepth(rule) <= MAX_RULE_DEPTH, {
+  message: `Rules can nest at most ${MAX_RULE_DEPTH} groups deep`,
+});
+
 const registerDeviceSchema = z.object({
   deviceId: z.string().min(1),
   pushToken: z.string().min(1),
   platform: z.enum(["ios", "android", "web"]),
+  /** The client's copy of its alerts, restored if the server has none */
+  alerts: z.array(alertDraftSchema).max(100).optional(),
+  /** The client's copy of its preferences, restored if the server has none */
+  preferences: preferencesSchema.optional(),
 });
 
-const addAlertSchema = z.object({
+const addAlertSchema = alertDraftSchema.extend({
   deviceId: z.string().min(1),
-  stockId: z.string().min(1),
-  stockName: z.string().min(1),
-  type: z.enum(["above", "below", "percent_change"]) as z.ZodType<AlertType>,
-  threshold: z.number().positive(),
-  enabled: z.boolean().default(true),
 });
 
 const removeAlertSchema = z.object({
@@ -58,78 +141,260 @@ const getAlertsSchema = z.object({
   stockId: z.string().optional(),
 });
 
+const deliverySettingsSchema = z.object({
+  email: z.email().max(320).nullable(),
+  webhookUrl: z.url().max(512).nullable(),
+});
+
 const updatePreferencesSchema = z.object({
   deviceId: z.string().min(1),
-  preferences: z.object({
-    priceAlerts: z.boolean().optional(),
-    dailyChallenge: z.boolean().optional(),
-    socialActivity: z.boolean().optional(),
-    marketNews: z.boolean().optional(),
-    percentThreshold: z.number().min(0.1).max(100).optional(),
-    quietHoursStart: z.number().min(0).max(23).nullable().optional(),
-    quietHoursEnd: z.number().min(0).max(23).nullable().optional(),
+  preferences: preferencesSchema,
+});
+
+const UNAVAILABLE_ERROR = "Alerts are unavailable right now. Please try again.";
+
+// ─── Shared Handlers ────────────────────────────────────────────────────────
+
+async function handleAddAlert(owner: AlertOwner, input: z.infer<typeof alertDraftSchema>) {
+  try {
+    const alert = await addAlert(owner, {
+      stockId: input.stockId,
+      stockName: input.stockName,
+      type: input.type,
+      threshold: input.threshold,
+      referencePrice: input.referencePrice,
+      enabled: input.enabled,
+      channels: input.channels,
+    });
+    return { success: true as const, data: alert };
+  } catch (error) {
+    if (error instanceof PriceAlertError) {
+      return { success: false as const, error: error.message };
+    }
+    console.error("[NotificationRouter] Failed to add alert:", error);
+    return { success: false as const, error: UNAVAILABLE_ERROR };
+  }
+}
+
+async function handleAlertChange(change: () => Promise<boolean>) {
+  try {
+    return { success: await change() };
+  } catch (error) {
+    console.error("[NotificationRouter] Failed to change alert:", error);
+    return { success: false };
+  }
+}
+
+/** A signed-in user's change that may be refused with a PriceAlertError */
+async function handleAccountChange<T>(userId: number, action: string, change: () => Promise<T>) {
+  try {
+    return { success: true as const, data: await change() };
+  } catch (error) {
+    if (error instanceof PriceAlertError) {
+      return { success: false as const, error: error.message };
+    }
+    console.error(`[NotificationRouter] Failed to ${action} for user ${userId}:`, error);
+    return { success: false as const, error: UNAVAILABLE_ERROR };
+  }
+}
+
+async function handleUpdatePreferences(owner: AlertOwner, preferences: z.infer<typeof preferencesSchema>) {
+  try {
+    const prefs = await updatePreferences(owner, preferences);
+    if (!prefs) {
+      return {
+        success: false as const,
+        error: "Device not registered.",
+      };
+    }
+    return { success: true as const, data: prefs };
+  } catch (error) {
+    console.error("[NotificationRouter] Failed to update preferences:", error);
+    return { success: false as const, error: UNAVAILABLE_ERROR };
+  }
+}
+
+/**
+ * The signed-in user's alerts, rules, preferences and delivery settings,
+ * shared by all of their devices
+ */
+const accountRouter = router({
+  getAlerts: protectedProcedure
+    .input(z.object({ stockId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const owner = { userId: ctx.user.id };
+      const alerts = input?.stockId
+        ? await getAlertsForStock(owner, input.stockId)
+        : await getAlerts(owner);
+
+      return { success: true as const, data: alerts };
+    }),
+
+  addAlert: protectedProcedure
+    .input(alertDraftSchema)
+    .mutation(({ ctx, input }) => handleAddAlert({ userId: ctx.user.id }, input)),
+
+  removeAlert: protectedProcedure
+    .input(z.object({ alertId: z.string().min(1) }))
+    .mutation(({ ctx, input }) => handleAlertChange(() => removeAlert({ userId: ctx.user.id }, input.alertId))),
+
+  toggleAlert: protectedProcedure
+    .input(z.object({ alertId: z.string().min(1) }))
+    .mutation(({ ctx, input }) => handleAlertChange(() => toggleAlert({ userId: ctx.user.id }, input.alertId))),
+
+  getPreferences: protectedProcedure.query(async ({ ctx }) => {
+    return { success: true as const, data: await getPreferences({ userId: ctx.user.id }) };
   }),
+
+  updatePreferences: protectedProcedure
+    .input(z.object({ preferences: preferencesSchema }))
+    .mutation(({ ctx, input }) => handleUpdatePreferences({ userId: ctx.user.id }, input.preferences)),
+
+  getRules: protectedProcedure.query(async ({ ctx }) => {
+    return { success: true as const, data: await getRules(ctx.user.id) };
+  }),
+
+  addRule: protectedProcedure
+    .input(z.object({ name: z.string().min(1).max(64), rule: alertRuleSchema, channels: channelsSchema.optional() }))
+    .mutation(({ ctx, input }) =>
+      handleAccountChange(ctx.user.id, "add rule", () => addRule(ctx.user.id, input.name, input.rule, input.channels))
+    ),
+
+  removeRule: protectedProcedure
+    .input(z.object({ ruleId: z.string().min(1) }))
+    .mutation(({ ctx, input }) => handleAlertChange(() => removeRule(ctx.user.id, input.ruleId))),
+
+  toggleRule: protectedProcedure
+    .input(z.object({ ruleId: z.string().min(1) }))
+    .mutation(({ ctx, input }) => handleAlertChange(() => toggleRule(ctx.user.id, input.ruleId))),
+
+  setAlertChannels: protectedProcedure
+    .input(z.object({ alertId: z.string().min(1), channels: channelsSchema }))
+    .mutation(({ ctx, input }) =>
+      handleAlertChange(() => setAlertChannels({ userId: ctx.user.id }, input.alertId, input.channels))
+    ),
+
+  setRuleChannels: protectedProcedure
+    .input(z.object({ ruleId: z.string().min(1), channels: channelsSchema }))
+    .mutation(({ ctx, input }) =>
+      handleAlertChange(() => setRuleChannels(ctx.user.id, input.ruleId, input.channels))
+    ),
+
+  getDeliverySettings: protectedProcedure.query(async ({ ctx }) => {
+    return { success: true as const, data: await getDeliverySettings(ctx.user.id) };
+  }),
+
+  updateDeliverySettings: protectedProcedure
+    .input(deliverySettingsSchema)
+    .mutation(({ ctx, input }) =>
+      handleAccountChange(ctx.user.id, "update delivery settings", () => updateDeliverySettings(ctx.user.id, input))
+    ),
+
+  /** Confirm the email address with the code mailed to it; email alerts need it */
+  verifyEmail: protectedProcedure
+    .input(z.object({ code: z.string().min(1).max(16) }))
+    .mutation(({ ctx, input }) =>
+      handleAccountChange(ctx.user.id, "verify email", () => verifyEmail(ctx.user.id, input.code))
+    ),
+
+  resendEmailCode: protectedProcedure.mutation(({ ctx }) =>
+    handleAccountChange(ctx.user.id, "resend email code", () => resendEmailCode(ctx.user.id))
+  ),
+
+  rotateWebhookSecret: protectedProcedure.mutation(({ ctx }) =>
+    handleAccountChange(ctx.user.id, "rotate webhook secret", () => rotateWebhookSecret(ctx.user.id))
+  ),
+
+  /** Send a test alert on one channel, so the user can check it arrives (once a minute per channel) */
+  sendTestDelivery: protectedProcedure
+    .input(z.object({ channel: z.enum(ALERT_CHANNELS) }))
+    .mutation(({ ctx, input }) =>
+      handleAccountChange(ctx.user.id, "send test delivery", () => sendTestDelivery(ctx.user.id, input.channel))
+    ),
+
+  /** Recent deliveries, newest first */
+  getDeliveries: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      return { success: true as const, data: await getDeliveryLog({ userId: ctx.user.id }, input?.limit) };
+    }),
 });
 
 // ─── Router ─────────────────────────────────────────────────────────────────
 
 export const notificationRouter = router({
   /**
-   * Register a device for push notifications
+   * Register a device for push notifications, linked to the user when
+   * signed in (adopting its anonymous alerts). Clients send their copy of
+   * their alerts and preferences so an owner the server lost is restored.
    */
   registerDevice: publicProcedure
     .input(registerDeviceSchema)
-    .mutation(({ input }) => {
-      const device = registerDevice(input.deviceId, input.pushToken, input.platform);
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const restore = { alerts: input.alerts, preferences: input.preferences };
+        const device = ctx.user
+          ? await linkDevice(ctx.user.id, input.deviceId, input.pushToken, input.platform, restore)
+          : await registerDevice(input.deviceId, input.pushToken, input.platform, restore);
 
-      // Auto-start the price alert service when first device registers
-      if (!isServiceRunning()) {
-        startPriceAlertService();
-      }
+        // Auto-start the price alert service when first device registers
+        if (!isServiceRunning()) {
+          startPriceAlertService();
+        }
 
-      return {
-        success: true as const,
-        data: {
-          deviceId: device.deviceId,
-          platform: device.platform,
-          alertCount: device.alerts.length,
-          preferences: device.preferences,
-        },
-      };
+        return {
+          success: true as const,
+          data: {
+            deviceId: device.deviceId,
+            platform: device.platform,
+            userId: device.userId,
+            alertCount: device.alertCount,
+            restoredAlerts: device.restoredAlerts,
+            adoptedAlerts: device.adoptedAlerts,
+            preferences: device.preferences,
+          },
+        };
+      } catch (error) {
+        if (error instanceof DeviceClaimError) {
+          // The client should carry on under a new device ID
+          return { success: false as const, error: error.message, claimRefused: true };
+        }
+        if (error instanceof PriceAlertError) {
+          return { success: false as const, error: error.message };
+        }
+        console.error(`[NotificationRouter] Failed to register device ${input.deviceId}:`, error);
+        return { success: false as const, error: UNAVAILABLE_ERROR };
+      }
     }),
 
   /**
-   * Unregister a device
+   * Unregister a device (a linked device only by its user)
    */
   unregisterDevice: publicProcedure
     .input(z.object({ deviceId: z.string().min(1) }))
-    .mutation(({ input }) => {
-      const deleted = unregisterDevice(input.deviceId);
-      return { success: deleted };
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return { success: await unregisterDevice(input.deviceId, ctx.user?.id ?? null) };
+      } catch (error) {
+        console.error(`[NotificationRouter] Failed to unregister device ${input.deviceId}:`, error);
+        return { success: false };
+      }
     }),
 
+  /** The signed-in user's alerts and preferences */
+  account: accountRouter,
+
+  // Anonymous (demo) devices. Devices linked to a user are refused or see
+  // nothing here; their alerts are under `account`.
+
   /**
    * Add a price alert
    */
   addAlert: publicProcedure
     .input(addAlertSchema)
     .mutation(({ input }) => {
-      const alert = addAlert(input.deviceId, {
-        stockId: input.stockId,
-        stockName: input.stockName,
-        type: input.type,
-        threshold: input.threshold,
-        enabled: input.enabled,
-      });
-
-      if (!alert) {
-        return {
-          success: false as const,
-          error: "Failed to add alert. Device not registered or max alerts reached.",
-        };
-      }
-
-      return { success: true as const, data: alert };
+      const { deviceId, ...draft } = input;
+      return handleAddAlert({ deviceId }, draft);
     }),
 
   /**
@@ -137,30 +402,25 @@ export const notificationRouter = router({
    */
   removeAlert: publicProcedure
     .input(removeAlertSchema)
-    .mutation(({ input }) => {
-      const removed = removeAlert(input.deviceId, input.alertId);
-      return { success: removed };
-    }),
+    .mutation(({ input }) => handleAlertChange(() => removeAlert({ deviceId: input.deviceId }, input.alertId))),
 
   /**
    * Toggle a price alert on/off
    */
   toggleAlert: publicProcedure
     .input(toggleAlertSchema)
-    .mutation(({ input }) => {
-      const toggled = toggleAlert(input.deviceId, input.alertId);
-      return { success: toggled };
-    }),
+    .mutation(({ input }) => handleAlertChange(() => toggleAlert({ deviceId: input.deviceId }, input.alertId))),
 
   /**
    * Get all alerts (optionally filtered by stock)
    */
   getAlerts: publicProcedure
     .input(getAlertsSchema)
-    .query(({ input }) => {
+    .query(async ({ input }) => {
+      const owner = { deviceId: input.deviceId };
       const alerts = input.stockId
-        ? getAlertsForStock(input.deviceId, input.stockId)
-        : getAlerts(input.deviceId);
+        ? await getAlertsForStock(owner, input.stockId)
+        : await getAlerts(owner);
 
       return { success: true as const, data: alerts };
     }),
@@ -170,26 +430,15 @@ export const notificationRouter = router({
    */
   updatePreferences: publicProcedure
     .input(updatePreferencesSchema)
-    .mutation(({ input }) => {
-      const prefs = updatePreferences(input.deviceId, input.preferences);
-
-      if (!prefs) {
-        return {
-          success: false as const,
-          error: "Device not registered.",
-        };
-      }
-
-      return { success: true as const, data: prefs };
-    }),
+    .mutation(({ input }) => handleUpdatePreferences({ deviceId: input.deviceId }, input.preferences)),
 
   /**
    * Get notification preferences
    */
   getPreferences: publicProcedure
     .input(z.object({ deviceId: z.string().min(1) }))
-    .query(({ input }) => {
-      const prefs = getPreferences(input.deviceId);
+    .query(async ({ input }) => {
+      const prefs = await getPreferences({ deviceId: input.deviceId });
       return {
         success: prefs !== null,
         data: prefs,
@@ -199,7 +448,7 @@ export const notificationRouter = router({
   /**
    * Get service stats (for debugging/admin)
    */
-  getStats: publicProcedure.query(() => {
-    return { success: true as const, data: getServiceStats() };
+  getStats: publicProcedure.query(async () => {
+    return { success: true as const, data: await getServiceStats() };
   }),
 });
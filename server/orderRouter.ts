@@ -0,0 +1,96 @@
+/**
+ * AGRX Order Router
+ *
+ * tRPC router for resting demo orders (limit, stop, stop-limit):
+ * - Place and cancel orders
+ * - List recent orders with their status
+ *
+ * Open orders are matched by the price alert poller, so placing or listing
+ * orders makes sure it is running.
+ */
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { cancelOrder, listOrders, placeOrder } from "./orderService";
+import { isServiceRunning, startPriceAlertService } from "./priceAlertService";
+import { TradeRejectedError } from "./tradeService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const placeOrderSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    stockId: z.string().min(1),
+    side: z.enum(["buy", "sell"]),
+    orderType: z.enum(["limit", "stop", "stop_limit"]),
+    amount: z.number().positive().optional(),
+    shares: z.number().positive().optional(),
+    limitPrice: z.number().positive().optional(),
+    stopPrice: z.number().positive().optional(),
+    timeInForce: z.enum(["gtc", "day"]).default("gtc"),
+  })
+  .refine((input) => (input.amount === undefined) !== (input.shares === undefined), {
+    message: "Provide either an amount or a share count",
+  });
+
+const cancelOrderSchema = z.object({
+  id: z.string().min(1).max(64),
+});
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function ensureMatcherRunning(): void {
+  if (!isServiceRunning()) {
+    startPriceAlertService();
+  }
+}
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const orderRouter = router({
+  /**
+   * Place a limit, stop or stop-limit order
+   */
+  place: protectedProcedure.input(placeOrderSchema).mutation(async ({ ctx, input }) => {
+    ensureMatcherRunning();
+    try {
+      const result = await placeOrder(ctx.user.id, input);
+      return { success: true as const, data: result };
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return { success: false as const, error: error.message };
+      }
+      console.error(`[OrderRouter] Failed to place order for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Order failed. Please try again." };
+    }
+  }),
+
+  /**
+   * Cancel an open order
+   */
+  cancel: protectedProcedure.input(cancelOrderSchema).mutation(async ({ ctx, input }) => {
+    try {
+      const order = await cancelOrder(ctx.user.id, input.id);
+      return { success: true as const, data: order };
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return { success: false as const, error: error.message };
+      }
+      console.error(`[OrderRouter] Failed to cancel order for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Couldn't cancel the order. Please try again." };
+    }
+  }),
+
+  /**
+   * Recent orders (open and closed), newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    ensureMatcherRunning();
+    try {
+      const orders = await listOrders(ctx.user.id);
+      return { success: true as const, data: orders };
+    } catch (error) {
+      console.error(`[OrderRouter] Failed to list orders for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Failed to load orders" };
+    }
+  }),
+});
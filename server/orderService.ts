@@ -0,0 +1,491 @@
+/**
+ * AGRX Order Service
+ *
+ * Limit, stop and stop-limit orders for the demo trading engine, plus market
+ * orders queued while ATHEX is closed. Orders rest in the database until the
+ * matcher sees a quote that satisfies them; the matcher runs on the same
+ * polling cycle as price alerts (priceAlertService.checkPriceAlerts) and only
+ * during continuous trading (see marketCalendar).
+ *
+ * Matching rules (against the last traded price):
+ * - Queued market orders fill at the first quote after the open
+ * - Limit buys fill at or below the limit, limit sells at or above it
+ * - Stop buys trigger at or above the stop, stop sells at or below it,
+ *   then fill at the market
+ * - Stop-limits trigger like a stop, then rest as a limit order
+ * - Limits are checked against the estimated ask (buys) or bid (sells)
+ * - Fills always happen at the market, never the order's own price
+ *
+ * Cash and shares are not reserved while an order rests; an order that can
+ * no longer be afforded when it matches is rejected.
+ *
+ * Orders are sized either by euro amount or by share count. Whole-share
+ * accounts size amount orders down to whole shares at fill time (see
+ * tradeService.fillTrade).
+ *
+ * As on ATHEX, orders resting when a stock goes ex for a corporate action
+ * are cancelled — their prices and share counts no longer apply.
+ */
+import type { Order } from "../drizzle/schema";
+import { describeCorporateAction } from "../shared/corporateActions";
+import { getExecutionPrice, getLiquidityTier, sizeTrade } from "../shared/tradingCosts";
+import { findCorporateActionSince } from "./corporateActionService";
+import {
+  getOpenOrders,
+  getOrder,
+  getOrdersByUserId,
+  insertOrder,
+  updateOrder,
+} from "./db";
+import { getMarketStatus, getNextSessionClose } from "./marketCalendar";
+import { getPortfolioSnapshot } from "./portfolioService";
+import type { StockQuote } from "./stockService";
+import {
+  assertMinimumAmount,
+  fillTrade,
+  getFillQuote,
+  isQuoteFresh,
+  TradeRejectedError,
+  type TradeExecution,
+  type TradeRequest,
+} from "./tradeService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type OrderSide = "buy" | "sell";
+/** "market" orders are trades queued while the market was closed */
+export type OrderType = "market" | "limit" | "stop" | "stop_limit";
+/** Good-till-cancelled, or expires at the end of the trading session */
+export type TimeInForce = "gtc" | "day";
+export type OrderStatus = Order["status"];
+
+export interface OrderRequest {
+  /** Client-generated ID; also used as the trade ID once filled */
+  id: string;
+  stockId: string;
+  side: OrderSide;
+  orderType: OrderType;
+  /** Euro amount to buy or sell (ignored when `shares` is set) */
+  amount?: number;
+  /** Exact share count to buy or sell */
+  shares?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+}
+
+/** Client-facing view of an order */
+export interface PendingOrder {
+  id: string;
+  stockId: string;
+  ticker: string;
+  name: string;
+  side: OrderSide;
+  orderType: OrderType;
+  /** Euro amount; for share-count orders, the estimate at the order price */
+  amount: number;
+  /** Share count for share-count orders, null for amount orders */
+  shares: number | null;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  timeInForce: TimeInForce;
+  status: OrderStatus;
+  /** Stop-limit only: the stop was hit and the order now rests as a limit */
+  stopTriggered: boolean;
+  expiresAt: number | null;
+  fillPrice: number | null;
+  filledAt: number | null;
+  statusReason: string | null;
+  createdAt: number;
+}
+
+export interface PlaceOrderResult {
+  order: PendingOrder;
+  /** Set when the order was marketable and filled straight away */
+  execution: TradeExecution | null;
+}
+
+export interface MatchResult {
+  checked: number;
+  filled: number;
+  expired: number;
+  rejected: number;
+  /** Cancelled because the stock went ex for a corporate action */
+  cancelled: number;
+}
+
+/** The fields evaluateOrder needs — shared by DB rows and tests */
+export interface OrderTerms {
+  side: OrderSide;
+  orderType: OrderType;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  stopTriggered: boolean;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** How many recent orders `listOrders` returns */
+const MAX_LISTED_ORDERS = 50;
+
+// ─── Pure Helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Check the prices on a new order against the current market price.
+ * Returns a user-facing error, or null if the order is acceptable.
+ */
+export function validateOrderPrices(
+  request: Pick<OrderRequest, "side" | "orderType" | "limitPrice" | "stopPrice">,
+  marketPrice: number,
+): string | null {
+  const needsLimit = request.orderType === "limit" || request.orderType === "stop_limit";
+  const needsStop = request.orderType === "stop" || request.orderType === "stop_limit";
+
+  if (needsLimit && !(request.limitPrice && request.limitPrice > 0)) {
+    return "Enter a limit price";
+  }
+  if (needsStop && !(request.stopPrice && request.stopPrice > 0)) {
+    return "Enter a stop price";
+  }
+
+  // A stop that is already through the market would fill immediately
+  if (needsStop && request.stopPrice) {
+    if (request.side === "buy" && request.stopPrice <= marketPrice) {
+      return `Buy stop must be above the current price (€${marketPrice.toFixed(2)})`;
+    }
+    if (request.side === "sell" && request.stopPrice >= marketPrice) {
+      return `Sell stop must be below the current price (€${marketPrice.toFixed(2)})`;
+    }
+  }
+
+  // Once triggered, a limit on the wrong side of the stop couldn't fill at the stop
+  if (request.orderType === "stop_limit" && request.stopPrice && request.limitPrice) {
+    if (request.side === "buy" && request.limitPrice < request.stopPrice) {
+      return "Buy stop-limit's limit must be at or above its stop price";
+    }
+    if (request.side === "sell" && request.limitPrice > request.stopPrice) {
+      return "Sell stop-limit's limit must be at or below its stop price";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate an order against a price. `triggered` reports whether the stop
+ * has been hit (always false for plain limits); `fill` whether it should
+ * execute now. Stops trigger on the last price; limits are checked against
+ * `executionPrice` — the ask for buys, bid for sells — when given.
+ */
+export function evaluateOrder(
+  order: OrderTerms,
+  price: number,
+  executionPrice: number = price,
+): { triggered: boolean; fill: boolean } {
+  const isBuy = order.side === "buy";
+
+  if (order.orderType === "market") {
+    return { triggered: false, fill: true };
+  }
+
+  let triggered = order.stopTriggered;
+  if (order.orderType !== "limit" && !triggered && order.stopPrice !== null) {
+    triggered = isBuy ? price >= order.stopPrice : price <= order.stopPrice;
+  }
+
+  if (order.orderType === "stop") {
+    return { triggered, fill: triggered };
+  }
+
+  const withinLimit =
+    order.limitPrice !== null &&
+    (isBuy ? executionPrice <= order.limitPrice : executionPrice >= order.limitPrice);
+
+  if (order.orderType === "limit") {
+    return { triggered: false, fill: withinLimit };
+  }
+  return { triggered, fill: triggered && withinLimit };
+}
+
+/**
+ * When a day order placed at `now` expires: the close of continuous trading
+ * (17:20 Athens time) on the current or next trading day. Orders placed after
+ * the close, at weekends or on exchange holidays carry over to the next
+ * session.
+ */
+export function getDayOrderExpiry(now: Date): Date {
+  return getNextSessionClose(now);
+}
+
+function toPendingOrder(order: Order): PendingOrder {
+  return {
+    id: order.orderId,
+    stockId: order.stockId,
+    ticker: order.ticker,
+    name: order.name,
+    side: order.side,
+    orderType: order.orderType,
+    amount: order.amount,
+    shares: order.shares,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    timeInForce: order.timeInForce,
+    status: order.status,
+    stopTriggered: order.stopTriggeredAt !== null,
+    expiresAt: order.expiresAt?.getTime() ?? null,
+    fillPrice: order.fillPrice,
+    filledAt: order.filledAt?.getTime() ?? null,
+    statusReason: order.statusReason,
+    createdAt: order.createdAt.getTime(),
+  };
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+/**
+ * The ID of the trade an order fills as. Generated from the order's row ID
+ * rather than the client's order ID, which could name one of the user's
+ * existing trades.
+ */
+export function orderFillTradeId(order: Pick<Order, "id">): string {
+  return `order-${order.id}`;
+}
+
+/**
+ * Try to fill one open order at a quote. The order is claimed (moved to
+ * "filled") before the portfolio is touched so a concurrent cancel or match
+ * can't also act on it; a fill the portfolio refuses is marked "rejected".
+ */
+async function matchOrder(
+  userId: number,
+  order: Order,
+  quote: StockQuote,
+): Promise<{ outcome: "none" | "filled" | "rejected"; execution: TradeExecution | null }> {
+  const { triggered, fill } = evaluateOrder(
+    { ...order, stopTriggered: order.stopTriggeredAt !== null },
+    quote.price,
+    getExecutionPrice(order.side, quote.price, getLiquidityTier(quote.category)),
+  );
+
+  if (!fill) {
+    if (triggered && !order.stopTriggeredAt) {
+      await updateOrder(order.id, "open", { stopTriggeredAt: new Date() });
+    }
+    return { outcome: "none", execution: null };
+  }
+
+  const claimed = await updateOrder(order.id, "open", {
+    status: "filled",
+    fillPrice: quote.price,
+    filledAt: new Date(),
+    stopTriggeredAt: order.stopTriggeredAt ?? (triggered ? new Date() : null),
+  });
+  if (!claimed) return { outcome: "none", execution: null };
+
+  try {
+    const execution = await fillTrade(
+      userId,
+      {
+        id: orderFillTradeId(order),
+        stockId: order.stockId,
+        type: order.side,
+        ...(order.shares !== null ? { shares: order.shares } : { amount: order.amount }),
+      },
+      quote,
+      { replay: false },
+    );
+    // Record the price actually paid (after spread), not the mid we claimed at
+    await updateOrder(order.id, "filled", { fillPrice: execution.trade.price });
+    return { outcome: "filled", execution };
+  } catch (error) {
+    if (error instanceof TradeRejectedError) {
+      await updateOrder(order.id, "filled", {
+        status: "rejected",
+        statusReason: error.message,
+        fillPrice: null,
+        filledAt: null,
+      });
+      return { outcome: "rejected", execution: null };
+    }
+
+    // Unexpected failure — put the order back so the next poll retries it
+    await updateOrder(order.id, "filled", { status: "open", fillPrice: null, filledAt: null });
+    throw error;
+  }
+}
+
+/**
+ * Match every open order against freshly polled quotes, expiring day orders
+ * whose session has closed and cancelling orders placed before a corporate
+ * action's ex-date. Nothing matches outside continuous trading.
+ * Called from priceAlertService.checkPriceAlerts.
+ */
+export async function matchOpenOrders(quotes: StockQuote[]): Promise<MatchResult> {
+  const result: MatchResult = { checked: 0, filled: 0, expired: 0, rejected: 0, cancelled: 0 };
+  const quoteMap = new Map(quotes.map((q) => [q.id, q]));
+  const now = Date.now();
+  const { isOpen } = getMarketStatus(new Date(now));
+
+  for (const order of await getOpenOrders()) {
+    if (order.expiresAt && order.expiresAt.getTime() <= now) {
+      const expired = await updateOrder(order.id, "open", {
+        status: "expired",
+        statusReason: "Day order expired at market close",
+      });
+      if (expired) result.expired++;
+      continue;
+    }
+
+    const action = findCorporateActionSince(order.stockId, order.createdAt.getTime(), now);
+    if (action) {
+      const cancelled = await updateOrder(order.id, "open", {
+        status: "cancelled",
+        statusReason: `Cancelled for ${describeCorporateAction(action)} (ex-date ${action.exDate})`,
+      });
+      if (cancelled) result.cancelled++;
+      continue;
+    }
+    if (!isOpen) continue;
+
+    const quote = quoteMap.get(order.stockId);
+    if (!quote || !isQuoteFresh(quote)) continue;
+
+    result.checked++;
+    try {
+      const { outcome } = await matchOrder(order.userId, order, quote);
+      if (outcome === "filled") result.filled++;
+      if (outcome === "rejected") result.rejected++;
+    } catch (error) {
+      console.warn(`[OrderService] Failed to match order ${order.orderId}:`, error);
+    }
+  }
+
+  return result;
+}
+
+/** Stock IDs with at least one open order, so the poller fetches their quotes */
+export async function getOpenOrderStockIds(): Promise<string[]> {
+  const open = await getOpenOrders();
+  return Array.from(new Set(open.map((o) => o.stockId)));
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Place a resting order. Orders that are marketable at the current quote
+ * (e.g. a buy limit above the market) fill immediately while the market is
+ * open. Placing the same order ID twice returns the existing order.
+ */
+export async function placeOrder(userId: number, request: OrderRequest): Promise<PlaceOrderResult> {
+  const existing = await getOrder(userId, request.id);
+  if (existing) return { order: toPendingOrder(existing), execution: null };
+
+  const quote = await getFillQuote(request.stockId);
+  if (!quote || quote.price <= 0) {
+    throw new TradeRejectedError("No price available for this stock right now");
+  }
+
+  const priceError = validateOrderPrices(request, quote.price);
+  if (priceError) throw new TradeRejectedError(priceError);
+
+  if (request.shares === undefined) assertMinimumAmount(request.amount ?? 0);
+
+  const stored = await getPortfolioSnapshot(userId);
+  if (!stored) {
+    throw new TradeRejectedError("Your portfolio hasn't synced yet. Please try again in a moment.");
+  }
+  const holding = stored.snapshot.holdings[request.stockId];
+  if (request.side === "sell" && !holding) {
+    throw new TradeRejectedError(`You don't own any ${quote.ticker} shares to sell`);
+  }
+
+  // Size the order at its own price so share counts and whole-share amounts
+  // are checked now rather than when the order matches
+  const sized = sizeTrade({
+    side: request.side,
+    amount: request.amount,
+    shares: request.shares,
+    midPrice: request.limitPrice ?? request.stopPrice ?? quote.price,
+    tier: getLiquidityTier(quote.category),
+    broker: stored.snapshot.broker,
+    shareMode: stored.snapshot.shareMode,
+    ownedShares: holding?.shares ?? 0,
+    ticker: quote.ticker,
+  });
+  if (!sized.success) throw new TradeRejectedError(sized.error);
+  const amount = request.shares !== undefined ? sized.fill.netAmount : (request.amount ?? 0);
+  if (request.shares !== undefined) assertMinimumAmount(amount);
+
+  await insertOrder({
+    userId,
+    orderId: request.id,
+    stockId: request.stockId,
+    ticker: quote.ticker,
+    name: quote.name,
+    side: request.side,
+    orderType: request.orderType,
+    amount,
+    shares: request.shares ?? null,
+    limitPrice: request.orderType === "stop" ? null : (request.limitPrice ?? null),
+    stopPrice: request.orderType === "limit" ? null : (request.stopPrice ?? null),
+    timeInForce: request.timeInForce,
+    expiresAt: request.timeInForce === "day" ? getDayOrderExpiry(new Date()) : null,
+  });
+
+  let order = await getOrder(userId, request.id);
+  if (!order) throw new Error("Order was not saved");
+
+  let execution: TradeExecution | null = null;
+  if (isQuoteFresh(quote) && getMarketStatus().isOpen) {
+    ({ execution } = await matchOrder(userId, order, quote));
+    order = (await getOrder(userId, request.id)) ?? order;
+  }
+
+  return { order: toPendingOrder(order), execution };
+}
+
+/**
+ * Queue a market trade requested while ATHEX is closed. It rests as a day
+ * market order and fills at the first quote of the next session, expiring at
+ * that session's close if it can't be filled.
+ */
+export async function queueMarketOrder(userId: number, request: TradeRequest): Promise<PendingOrder> {
+  const { order } = await placeOrder(userId, {
+    id: request.id,
+    stockId: request.stockId,
+    side: request.type,
+    orderType: "market",
+    amount: request.amount,
+    shares: request.shares,
+    timeInForce: "day",
+  });
+  return order;
+}
+
+/**
+ * Cancel an open order. Throws TradeRejectedError if it has already been
+ * filled, cancelled or expired.
+ */
+export async function cancelOrder(userId: number, orderId: string): Promise<PendingOrder> {
+  const order = await getOrder(userId, orderId);
+  if (!order) throw new TradeRejectedError("Order not found");
+
+  const cancelled =
+    order.status === "open" &&
+    (await updateOrder(order.id, "open", { status: "cancelled", statusReason: null }));
+
+  if (!cancelled) {
+    const current = (await getOrder(userId, orderId)) ?? order;
+    throw new TradeRejectedError(`This order is already ${current.status}`);
+  }
+
+  return toPendingOrder({ ...order, status: "cancelled", statusReason: null });
+}
+
+/**
+ * A user's most recent orders, newest first
+ */
+export async function listOrders(userId: number): Promise<PendingOrder[]> {
+  const rows = await getOrdersByUserId(userId, MAX_LISTED_ORDERS);
+  return rows.map(toPendingOrder);
+}
@@ -0,0 +1,356 @@
+/**
+ * AGRX Portfolio Performance Service
+ *
+ * Daily portfolio value history and the returns derived from it.
+ *
+ * - After every ATHEX session close each stored portfolio is marked to
+ *   market (cash + holdings at the closing quotes) and written to
+ *   portfolio_history, one row per Athens calendar day
+ * - External cash flows are recorded on the day they happen: the opening
+ *   deposit when a portfolio is created, and the jump in value when the
+ *   demo account is reset
+ * - Time-weighted return chains daily returns with each day's flow taken at
+ *   the start of the day, so resets don't count as performance
+ * - Money-weighted return is the daily-compounded rate that discounts the
+ *   start value and flows to the end value, reported for the whole period
+ * - 1D history is intraday: today's holdings marked along each stock's
+ *   5-minute chart
+ * - Dividends are credited before the close is marked; they are income, not
+ *   external flows, so they count towards both returns
+ * - Corporate actions are applied before dividends; they leave the account's
+ *   value unchanged (cash replaces the price drop), so they need no flow
+ */
+import type { PortfolioHistoryRow } from "../drizzle/schema";
+import {
+  getPortfolioHistory as getHistoryRows,
+  getPortfolioHistoryBefore,
+  getPortfolioUserIds,
+  upsertPortfolioHistory,
+} from "./db";
+import { adjustPortfolioForCorporateActions } from "./corporateActionService";
+import { creditPortfolioDividends } from "./dividendService";
+import { getAthensDateKey, getNextSessionClose } from "./marketCalendar";
+import { getPortfolioSnapshot, type PortfolioSnapshot } from "./portfolioService";
+import { getMultipleQuotes, getStockChart, type StockQuote } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type HistoryRange = "1D" | "1W" | "1M" | "3M" | "1Y" | "ALL";
+
+export interface PortfolioValuation {
+  cash: number;
+  holdingsValue: number;
+  value: number;
+}
+
+/** A portfolio value with the external cash flow that preceded it */
+export interface ValuePoint {
+  timestamp: number;
+  value: number;
+  /** Net deposits since the previous point (taken at the start of the period) */
+  flow: number;
+}
+
+export interface PortfolioHistory {
+  range: HistoryRange;
+  /** Account value over the range, oldest first (epoch ms), with the flows between points */
+  points: ValuePoint[];
+  startValue: number;
+  endValue: number;
+  /** Net deposits and reset adjustments inside the range */
+  netFlows: number;
+  /** Time-weighted return over the range, in percent */
+  twr: number;
+  /** Money-weighted return over the range, in percent (null if it has no solution) */
+  mwr: number | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const HISTORY_RANGES: HistoryRange[] = ["1D", "1W", "1M", "3M", "1Y", "ALL"];
+
+/** Calendar days covered by each range (ALL = everything) */
+const RANGE_DAYS: Record<Exclude<HistoryRange, "ALL">, number> = {
+  "1D": 1,
+  "1W": 7,
+  "1M": 30,
+  "3M": 91,
+  "1Y": 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Mark portfolios this long after continuous trading ends (after the closing auction) */
+const SNAPSHOT_DELAY_MS = 15 * 60 * 1000;
+
+/** Bisection steps when solving for the money-weighted rate */
+const MWR_ITERATIONS = 100;
+
+/** Timer for the next after-close snapshot run */
+let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Valuation ──────────────────────────────────────────────────────────────
+
+/**
+ * Cash plus holdings at the given quotes. Holdings without a quote are
+ * carried at cost.
+ */
+export function valuePortfolio(
+  snapshot: Pick<PortfolioSnapshot, "balance" | "holdings">,
+  quotes: Pick<StockQuote, "id" | "price">[],
+): PortfolioValuation {
+  const prices = new Map(quotes.map((q) => [q.id, q.price]));
+  let holdingsValue = 0;
+  for (const h of Object.values(snapshot.holdings)) {
+    const price = prices.get(h.stockId);
+    holdingsValue += price !== undefined ? h.shares * price : h.totalCost;
+  }
+  return { cash: snapshot.balance, holdingsValue, value: snapshot.balance + holdingsValue };
+}
+
+async function valueAtLatestQuotes(
+  snapshots: Pick<PortfolioSnapshot, "balance" | "holdings">[],
+): Promise<PortfolioValuation[]> {
+  const stockIds = new Set(snapshots.flatMap((s) => Object.keys(s.holdings)));
+  const quotes = stockIds.size > 0 ? await getMultipleQuotes(Array.from(stockIds)) : [];
+  return snapshots.map((s) => valuePortfolio(s, quotes));
+}
+
+// ─── Returns ────────────────────────────────────────────────────────────────
+
+/**
+ * Time-weighted return in percent. The first point is the starting value;
+ * each later point's flow is added to the previous value before its return
+ * is measured. Periods that start from nothing are skipped.
+ */
+export function calculateTimeWeightedReturn(points: ValuePoint[]): number {
+  let growth = 1;
+  for (let i = 1; i < points.length; i++) {
+    const base = points[i - 1].value + points[i].flow;
+    if (base <= 0) continue;
+    growth *= points[i].value / base;
+  }
+  return (growth - 1) * 100;
+}
+
+/**
+ * Money-weighted return in percent over the whole period: the daily rate r
+ * at which the start value and every flow (dated, like the time-weighted
+ * return, at the start of its period), compounded to the last point, equal
+ * the end value — reported as (1 + r)^days − 1.
+ */
+export function calculateMoneyWeightedReturn(points: ValuePoint[]): number | null {
+  if (points.length < 2) return 0;
+  const start = points[0];
+  const end = points[points.length - 1];
+  const days = (end.timestamp - start.timestamp) / DAY_MS;
+
+  const invested = start.value + points.slice(1).reduce((sum, p) => sum + p.flow, 0);
+  if (invested <= 0) return null;
+  if (days <= 0) return ((end.value - invested) / invested) * 100;
+
+  // Surplus of the end value over everything invested, grown at daily rate r
+  const surplus = (rate: number) => {
+    let grown = start.value * Math.pow(1 + rate, days);
+    for (let i = 1; i < points.length; i++) {
+      const flowAt = points[i - 1].timestamp;
+      grown += points[i].flow * Math.pow(1 + rate, (end.timestamp - flowAt) / DAY_MS);
+    }
+    return end.value - grown;
+  };
+
+  let low = -0.99;
+  let high = 1;
+  if (Math.sign(surplus(low)) === Math.sign(surplus(high))) return null;
+  for (let i = 0; i < MWR_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(surplus(mid)) === Math.sign(surplus(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (Math.pow(1 + (low + high) / 2, days) - 1) * 100;
+}
+
+// ─── History ────────────────────────────────────────────────────────────────
+
+function toValuePoint(row: PortfolioHistoryRow): ValuePoint {
+  return { timestamp: row.recordedAt.getTime(), value: row.value, flow: row.netFlow };
+}
+
+/**
+ * Today's holdings marked along each stock's intraday chart, plus cash.
+ * Shares bought or sold today are treated as held all day.
+ */
+async function getIntradayValues(snapshot: PortfolioSnapshot): Promise<ValuePoint[]> {
+  const holdings = Object.values(snapshot.holdings);
+  const charts = await Promise.all(holdings.map((h) => getStockChart(h.stockId, "1D")));
+
+  const timestamps = new Set<number>();
+  for (const chart of charts) {
+    for (const candle of chart?.data ?? []) timestamps.add(candle.timestamp);
+  }
+
+  return Array.from(timestamps)
+    .sort((a, b) => a - b)
+    .map((ts) => {
+      let value = snapshot.balance;
+      holdings.forEach((h, i) => {
+        const candles = charts[i]?.data ?? [];
+        // Last close at or before this time, else the first of the day
+        let price = candles[0]?.close;
+        for (const candle of candles) {
+          if (candle.timestamp > ts) break;
+          price = candle.close;
+        }
+        value += price !== undefined ? h.shares * price : h.totalCost;
+      });
+      return { timestamp: ts * 1000, value, flow: 0 };
+    });
+}
+
+/**
+ * Portfolio value history for a range, ending with the live value.
+ * Returns null if the user has never synced a portfolio.
+ */
+export async function getPortfolioHistory(
+  userId: number,
+  range: HistoryRange,
+): Promise<PortfolioHistory | null> {
+  const stored = await getPortfolioSnapshot(userId);
+  if (!stored) return null;
+
+  const now = new Date();
+  const today = getAthensDateKey(now);
+  // 1D runs from the previous close; the others from the range's first day
+  const since =
+    range === "ALL"
+      ? null
+      : range === "1D"
+        ? today
+        : getAthensDateKey(new Date(now.getTime() - RANGE_DAYS[range] * DAY_MS));
+
+  const [[live], rows, before] = await Promise.all([
+    valueAtLatestQuotes([stored.snapshot]),
+    getHistoryRows(userId, since),
+    since ? getPortfolioHistoryBefore(userId, since) : Promise.resolve(undefined),
+  ]);
+
+  // Today's row only carries today's flow — the live value supersedes it
+  const todayRow = rows.find((r) => r.date === today);
+  const daily: ValuePoint[] = [
+    ...rows.filter((r) => r.date !== today).map(toValuePoint),
+    { timestamp: now.getTime(), value: live.value, flow: todayRow?.netFlow ?? 0 },
+  ];
+
+  // Baseline: the last close before the range, or an empty account before
+  // the opening deposit
+  let chartStart = 0;
+  if (before) {
+    daily.unshift(toValuePoint(before));
+  } else if (daily[0].flow > 0) {
+    daily.unshift({ timestamp: daily[0].timestamp, value: 0, flow: 0 });
+    chartStart = 1;
+  }
+
+  // Off-hours the intraday chart is the last session's, already behind the baseline
+  const intraday =
+    range === "1D" && Object.keys(stored.snapshot.holdings).length > 0
+      ? (await getIntradayValues(stored.snapshot)).filter((p) => p.timestamp > daily[0].timestamp)
+      : [];
+  const chart = [...daily.slice(0, -1), ...intraday, daily[daily.length - 1]];
+
+  return {
+    range,
+    points: chart.slice(chartStart),
+    startValue: daily[0].value,
+    endValue: live.value,
+    netFlows: daily.slice(1).reduce((sum, p) => sum + p.flow, 0),
+    twr: calculateTimeWeightedReturn(daily),
+    mwr: calculateMoneyWeightedReturn(daily),
+  };
+}
+
+// ─── Recording ──────────────────────────────────────────────────────────────
+
+/**
+ * Record an external cash flow: a new portfolio (`before` = null deposits
+ * its whole value) or a reset (the difference between the two accounts).
+ */
+export async function recordCashFlow(
+  userId: number,
+  before: PortfolioSnapshot | null,
+  after: PortfolioSnapshot,
+): Promise<void> {
+  const [afterValue, beforeValue] = await valueAtLatestQuotes(before ? [after, before] : [after]);
+  const now = new Date();
+  await upsertPortfolioHistory(
+    { userId, date: getAthensDateKey(now), ...afterValue, recordedAt: now },
+    afterValue.value - (beforeValue?.value ?? 0),
+  );
+}
+
+/**
+ * Apply due corporate actions and credit due dividends, then mark every
+ * stored portfolio at the latest quotes under today's date
+ */
+export async function recordDailySnapshots(): Promise<number> {
+  const userIds = await getPortfolioUserIds();
+  for (const userId of userIds) {
+    try {
+      await adjustPortfolioForCorporateActions(userId);
+    } catch (error) {
+      console.warn(`[PerformanceService] Failed to apply corporate actions for user ${userId}:`, error);
+    }
+    try {
+      await creditPortfolioDividends(userId);
+    } catch (error) {
+      console.warn(`[PerformanceService] Failed to credit dividends for user ${userId}:`, error);
+    }
+  }
+  const stored = await Promise.all(userIds.map((id) => getPortfolioSnapshot(id)));
+  const present = userIds
+    .map((userId, i) => ({ userId, snapshot: stored[i]?.snapshot }))
+    .filter((p): p is { userId: number; snapshot: PortfolioSnapshot } => !!p.snapshot);
+
+  const values = await valueAtLatestQuotes(present.map((p) => p.snapshot));
+  const now = new Date();
+  const date = getAthensDateKey(now);
+  for (let i = 0; i < present.length; i++) {
+    await upsertPortfolioHistory({ userId: present[i].userId, date, ...values[i], recordedAt: now });
+  }
+  return present.length;
+}
+
+// ─── Job Lifecycle ──────────────────────────────────────────────────────────
+
+function scheduleNextSnapshot(): void {
+  const runAt = getNextSessionClose(new Date()).getTime() + SNAPSHOT_DELAY_MS;
+  snapshotTimer = setTimeout(() => {
+    recordDailySnapshots()
+      .then((count) => console.log(`[PerformanceService] Recorded ${count} closing snapshots`))
+      .catch((err) => console.warn("[PerformanceService] Snapshot run failed:", err))
+      .finally(() => {
+        if (snapshotTimer !== null) scheduleNextSnapshot();
+      });
+  }, Math.max(0, runAt - Date.now()));
+}
+
+/** Start recording closing snapshots after every ATHEX session */
+export function startSnapshotJob(): void {
+  if (snapshotTimer) return;
+  console.log("[PerformanceService] Scheduling closing snapshots");
+  scheduleNextSnapshot();
+}
+
+export function stopSnapshotJob(): void {
+  if (snapshotTimer) {
+    clearTimeout(snapshotTimer);
+    snapshotTimer = null;
+  }
+}
+
+export function isSnapshotJobRunning(): boolean {
+  return snapshotTimer !== null;
+}
@@ -0,0 +1,199 @@
+/**
+ * AGRX Portfolio Router
+ *
+ * tRPC router for server-side demo portfolio persistence and performance
+ * history. All endpoints require a signed-in user; anonymous demo accounts
+ * stay device-local in AsyncStorage.
+ */
+import { z } from "zod";
+import { DEFAULT_COST_BASIS_METHOD } from "../shared/costBasis";
+import {
+  BROKER_SCHEDULES,
+  DEFAULT_BROKER,
+  DEFAULT_SHARE_MODE,
+  type BrokerId,
+} from "../shared/tradingCosts";
+import { protectedProcedure, router } from "./_core/trpc";
+import { adjustPortfolioForCorporateActions } from "./corporateActionService";
+import { creditPortfolioDividends } from "./dividendService";
+import {
+  getPortfolioHistory,
+  HISTORY_RANGES,
+  isSnapshotJobRunning,
+  recordCashFlow,
+  startSnapshotJob,
+  type HistoryRange,
+} from "./performanceService";
+import { getPortfolioSnapshot, syncPortfolio, type SyncResult } from "./portfolioService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const holdingSchema = z.object({
+  stockId: z.string().min(1),
+  ticker: z.string().min(1),
+  name: z.string().min(1),
+  shares: z.number().nonnegative(),
+  totalCost: z.number().nonnegative(),
+  lots: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(64),
+        shares: z.number().nonnegative(),
+        cost: z.number().nonnegative(),
+        openedAt: z.number().int().nonnegative(),
+      }),
+    )
+    .optional(),
+});
+
+const tradeSchema = z.object({
+  id: z.string().min(1).max(64),
+  stockId: z.string().min(1),
+  ticker: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(["buy", "sell"]),
+  amount: z.number().positive(),
+  shares: z.number().positive(),
+  price: z.number().positive(),
+  fees: z.number().nonnegative().optional(),
+  tax: z.number().nonnegative().optional(),
+  costBasis: z.number().nonnegative().optional(),
+  realizedPnL: z.number().optional(),
+  timestamp: z.number().int().positive(),
+});
+
+const dividendSchema = z.object({
+  id: z.string().min(1).max(64),
+  stockId: z.string().min(1),
+  ticker: z.string().min(1),
+  shares: z.number().nonnegative(),
+  amountPerShare: z.number().nonnegative(),
+  grossAmount: z.number().nonnegative(),
+  tax: z.number().nonnegative(),
+  amount: z.number().nonnegative(),
+  exDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  payDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  creditedAt: z.number().int().positive(),
+});
+
+const corporateActionSchema = z.object({
+  id: z.string().min(1).max(96),
+  stockId: z.string().min(1),
+  type: z.enum(["split", "reverse_split", "rights_issue", "capital_return"]),
+  exDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  sharesBefore: z.number().nonnegative(),
+  sharesAfter: z.number().nonnegative(),
+  cashAmount: z.number().nonnegative(),
+  appliedAt: z.number().int().positive(),
+});
+
+const snapshotSchema = z.object({
+  balance: z.number(),
+  holdings: z.record(z.string(), holdingSchema),
+  trades: z.array(tradeSchema),
+  xp: z.number().int().nonnegative(),
+  streak: z.number().int().nonnegative(),
+  broker: z
+    .enum(Object.keys(BROKER_SCHEDULES) as [BrokerId, ...BrokerId[]])
+    .default(DEFAULT_BROKER),
+  shareMode: z.enum(["whole", "fractional"]).default(DEFAULT_SHARE_MODE),
+  costBasisMethod: z.enum(["fifo", "average"]).default(DEFAULT_COST_BASIS_METHOD),
+  dividends: z.array(dividendSchema).default([]),
+  dividendsSince: z.number().int().positive().nullable().default(null),
+  corporateActions: z.array(corporateActionSchema).default([]),
+  corporateActionsSince: z.number().int().positive().nullable().default(null),
+});
+
+const syncSchema = z.object({
+  baseVersion: z.number().int().positive().nullable(),
+  dirty: z.boolean(),
+  reset: z.boolean().default(false),
+  snapshot: snapshotSchema,
+});
+
+const historySchema = z.object({
+  range: z.enum(HISTORY_RANGES as [HistoryRange, ...HistoryRange[]]).default("1M"),
+});
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function ensureSnapshotJobRunning(): void {
+  if (!isSnapshotJobRunning()) {
+    startSnapshotJob();
+  }
+}
+
+/**
+ * Apply due corporate actions and pay any dividends the stored account is
+ * owed before reconciling, so the client pulls them with this sync. Actions
+ * go first so later dividends see the adjusted share counts.
+ */
+async function settleBeforeSync(userId: number): Promise<void> {
+  try {
+    await adjustPortfolioForCorporateActions(userId);
+  } catch (error) {
+    console.warn(`[PortfolioRouter] Failed to apply corporate actions for user ${userId}:`, error);
+  }
+  try {
+    await creditPortfolioDividends(userId);
+  } catch (error) {
+    console.warn(`[PortfolioRouter] Failed to credit dividends for user ${userId}:`, error);
+  }
+}
+
+/** A new or reset account is a deposit (or withdrawal) for return calculations */
+async function recordSyncCashFlow(userId: number, result: SyncResult): Promise<void> {
+  if (result.resolution !== "created" && result.resolution !== "reset") return;
+  try {
+    await recordCashFlow(userId, result.replaced ?? null, result.snapshot);
+  } catch (error) {
+    console.warn(`[PortfolioRouter] Failed to record cash flow for user ${userId}:`, error);
+  }
+}
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const portfolioRouter = router({
+  /**
+   * Get the signed-in user's stored portfolio (null if never synced)
+   */
+  get: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const stored = await getPortfolioSnapshot(ctx.user.id);
+      return { success: true as const, data: stored };
+    } catch (error) {
+      console.error(`[PortfolioRouter] Failed to load portfolio for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Failed to load portfolio" };
+    }
+  }),
+
+  /**
+   * Reconcile local demo state with the server copy
+   */
+  sync: protectedProcedure.input(syncSchema).mutation(async ({ ctx, input }) => {
+    try {
+      ensureSnapshotJobRunning();
+      if (!input.reset) await settleBeforeSync(ctx.user.id);
+      const { replaced, ...result } = await syncPortfolio(ctx.user.id, input);
+      await recordSyncCashFlow(ctx.user.id, { ...result, replaced });
+      return { success: true as const, data: result };
+    } catch (error) {
+      console.error(`[PortfolioRouter] Failed to sync portfolio for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Failed to sync portfolio" };
+    }
+  }),
+
+  /**
+   * Account value history and time/money-weighted returns for a range
+   */
+  getHistory: protectedProcedure.input(historySchema).query(async ({ ctx, input }) => {
+    ensureSnapshotJobRunning();
+    try {
+      const history = await getPortfolioHistory(ctx.user.id, input.range);
+      return { success: true as const, data: history };
+    } catch (error) {
+      console.error(`[PortfolioRouter] Failed to load history for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Failed to load portfolio history" };
+    }
+  }),
+});
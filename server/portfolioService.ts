@@ -0,0 +1,512 @@
+/**
+ * AGRX Demo Portfolio Service
+ *
+ * Server-side persistence for the demo trading account so a signed-in user's
+ * balance, holdings, trades, XP and streak follow them across devices.
+ *
+ * Sync model:
+ * - The server keeps a monotonically increasing `version` per portfolio
+ * - Clients send the version they last synced from plus a `dirty` flag
+ * - Clean clients simply pull the server copy
+ * - Clients never set balance, holdings or trades: new and reset accounts
+ *   start from the seed in shared/demoAccount, and every fill comes from
+ *   tradeService at the server's own quote. Trades only the client has
+ *   (made while signed out) are rejected, since nothing vouches for their
+ *   price; the client takes the server copy back
+ * - XP, streak and the account settings sync from the client
+ *
+ * Holdings carry tax lots and sells record their realized P&L (see
+ * shared/costBasis).
+ * Dividends and corporate actions are only ever applied by the server (see
+ * dividendService, corporateActionService), so a merge keeps the server's
+ * payments and adjustments.
+ */
+import type { CorporateActionAdjustment, DividendPayment, Holding, Trade } from "../drizzle/schema";
+import {
+  addLot,
+  calculateRealizedPnL,
+  disposeLots,
+  type CostBasisMethod,
+  type TaxLot,
+} from "../shared/costBasis";
+import type { CorporateAdjustment } from "../shared/corporateActions";
+import { buildSeedHoldings, calculateSeedBalance } from "../shared/demoAccount";
+import type { DividendCredit } from "../shared/dividends";
+import {
+  DEFAULT_BROKER,
+  isBrokerId,
+  type BrokerId,
+  type ShareMode,
+} from "../shared/tradingCosts";
+import {
+  cancelOpenOrdersForUser,
+  getPortfolioByUserId,
+  writePortfolio,
+  type PortfolioRecord,
+  type PortfolioWrite,
+} from "./db";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface SnapshotHolding {
+  stockId: string;
+  ticker: string;
+  name: string;
+  shares: number;
+  totalCost: number;
+  /** Open tax lots (absent for positions saved before lots were tracked) */
+  lots?: TaxLot[];
+}
+
+export interface SnapshotTrade {
+  id: string;
+  stockId: string;
+  ticker: string;
+  name: string;
+  type: "buy" | "sell";
+  amount: number;
+  shares: number;
+  price: number;
+  /** Commission plus clearing fee (see shared/tradingCosts) */
+  fees?: number;
+  /** Greek transaction tax on sells */
+  tax?: number;
+  /** Sells only: cost of the lots closed */
+  costBasis?: number;
+  /** Sells only: net proceeds minus `costBasis` */
+  realizedPnL?: number;
+  timestamp: number;
+  /** Filled by the server at its own quote (see tradeService) */
+  verified?: boolean;
+}
+
+export interface PortfolioSnapshot {
+  balance: number;
+  holdings: Record<string, SnapshotHolding>;
+  trades: SnapshotTrade[];
+  xp: number;
+  streak: number;
+  /** Commission schedule applied to fills */
+  broker: BrokerId;
+  /** Whole shares only, or fractional "learning mode" */
+  shareMode: ShareMode;
+  /** Which lots sells close */
+  costBasisMethod: CostBasisMethod;
+  /** Cash dividends paid into the account */
+  dividends: DividendCredit[];
+  /** Account opening or last reset — earlier ex-dates are not owed (null = not set yet) */
+  dividendsSince: number | null;
+  /** Splits, rights issues and capital returns applied to holdings */
+  corporateActions: CorporateAdjustment[];
+  /** Account opening or last reset — earlier ex-dates don't apply (null = not set yet) */
+  corporateActionsSince: number | null;
+}
+
+/** How a sync request was resolved */
+export type SyncResolution = "created" | "pushed" | "pulled" | "merged" | "reset" | "unchanged";
+
+export interface SyncRequest {
+  /** Server version the client last synced from (null = never synced) */
+  baseVersion: number | null;
+  /** Whether the client has local changes since `baseVersion` */
+  dirty: boolean;
+  /** Discard server state and replace it with the client snapshot */
+  reset: boolean;
+  snapshot: PortfolioSnapshot;
+}
+
+export interface SyncResult {
+  snapshot: PortfolioSnapshot;
+  version: number;
+  resolution: SyncResolution;
+  /** Client-only trades the server refused (see mergeSnapshots) */
+  rejectedTradeIds: string[];
+  /** The stored snapshot a reset overwrote (reset only) */
+  replaced?: PortfolioSnapshot | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Holdings below this share count are treated as fully sold */
+const DUST_SHARES = 0.0001;
+
+/** Tolerance for floating point comparisons on money and shares */
+const EPSILON = 1e-6;
+
+/** How many times to retry a write that lost an optimistic-concurrency race */
+const MAX_WRITE_ATTEMPTS = 3;
+
+// ─── Pure Helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Apply a single trade to a snapshot. Returns the new snapshot, or null if the
+ * trade is not possible (insufficient balance or shares).
+ */
+export function applyTrade(
+  snapshot: PortfolioSnapshot,
+  trade: SnapshotTrade,
+): PortfolioSnapshot | null {
+  const existing = snapshot.holdings[trade.stockId];
+
+  if (trade.type === "buy") {
+    if (trade.amount > snapshot.balance + EPSILON) return null;
+
+    const position = addLot(existing, {
+      id: trade.id,
+      shares: trade.shares,
+      cost: trade.amount,
+      openedAt: trade.timestamp,
+    });
+    const holding: SnapshotHolding = {
+      stockId: trade.stockId,
+      ticker: existing?.ticker ?? trade.ticker,
+      name: existing?.name ?? trade.name,
+      ...position,
+    };
+
+    return {
+      ...snapshot,
+      balance: snapshot.balance - trade.amount,
+      holdings: { ...snapshot.holdings, [trade.stockId]: holding },
+      trades: [...snapshot.trades, trade],
+    };
+  }
+
+  if (!existing || existing.shares + EPSILON < trade.shares) return null;
+
+  const disposal = disposeLots(existing, trade.shares, snapshot.costBasisMethod);
+  if (!disposal) return null;
+
+  const updatedHoldings = { ...snapshot.holdings };
+  if (disposal.shares < DUST_SHARES) {
+    delete updatedHoldings[trade.stockId];
+  } else {
+    updatedHoldings[trade.stockId] = {
+      ...existing,
+      shares: disposal.shares,
+      totalCost: disposal.totalCost,
+      lots: disposal.lots,
+    };
+  }
+
+  return {
+    ...snapshot,
+    balance: snapshot.balance + trade.amount,
+    holdings: updatedHoldings,
+    trades: [
+      ...snapshot.trades,
+      {
+        ...trade,
+        costBasis: disposal.costBasis,
+        realizedPnL: calculateRealizedPnL(trade.amount, disposal.costBasis),
+      },
+    ],
+  };
+}
+
+/**
+ * Merge a client snapshot into the server snapshot.
+ * Balance, holdings and trades stay the server's: trades the server doesn't
+ * have were filled on the client at a price nothing vouches for, so they're
+ * rejected rather than replayed. XP and streak take the higher of the two
+ * values; the broker, share mode and cost basis method are user settings,
+ * so the client's win.
+ */
+export function mergeSnapshots(
+  server: PortfolioSnapshot,
+  client: PortfolioSnapshot,
+): { snapshot: PortfolioSnapshot; rejectedTradeIds: string[] } {
+  const known = new Set(server.trades.map((t) => t.id));
+
+  return {
+    snapshot: {
+      ...server,
+      xp: Math.max(server.xp, client.xp),
+      streak: Math.max(server.streak, client.streak),
+      broker: client.broker,
+      shareMode: client.shareMode,
+      costBasisMethod: client.costBasisMethod,
+    },
+    rejectedTradeIds: client.trades.filter((t) => !known.has(t.id)).map((t) => t.id),
+  };
+}
+
+/**
+ * A new or reset account: the seed cash and positions, with no history.
+ * Only XP, streak and the settings come from the client; dividends and
+ * corporate actions are owed from `now` on.
+ */
+export function openAccount(client: PortfolioSnapshot, now: number = Date.now()): PortfolioSnapshot {
+  return {
+    balance: calculateSeedBalance(),
+    holdings: buildSeedHoldings(),
+    trades: [],
+    xp: client.xp,
+    streak: client.streak,
+    broker: client.broker,
+    shareMode: client.shareMode,
+    costBasisMethod: client.costBasisMethod,
+    dividends: [],
+    dividendsSince: now,
+    corporateActions: [],
+    corporateActionsSince: now,
+  };
+}
+
+// ─── Row Mapping ────────────────────────────────────────────────────────────
+
+function toSnapshot(
+  portfolio: Pick<
+    PortfolioRecord["portfolio"],
+    | "balance"
+    | "xp"
+    | "streak"
+    | "broker"
+    | "shareMode"
+    | "costBasisMethod"
+    | "dividendsSince"
+    | "corporateActionsSince"
+  >,
+  holdingRows: Holding[],
+  tradeRows: Trade[],
+  dividendRows: DividendPayment[],
+  corporateActionRows: CorporateActionAdjustment[],
+): PortfolioSnapshot {
+  const holdings: Record<string, SnapshotHolding> = {};
+  for (const h of holdingRows) {
+    holdings[h.stockId] = {
+      stockId: h.stockId,
+      ticker: h.ticker,
+      name: h.name,
+      shares: h.shares,
+      totalCost: h.totalCost,
+      ...(h.lots ? { lots: h.lots } : {}),
+    };
+  }
+
+  return {
+    balance: portfolio.balance,
+    holdings,
+    trades: tradeRows.map((t) => ({
+      id: t.tradeId,
+      stockId: t.stockId,
+      ticker: t.ticker,
+      name: t.name,
+      type: t.type,
+      amount: t.amount,
+      shares: t.shares,
+      price: t.price,
+      fees: t.fees,
+      tax: t.tax,
+      ...(t.costBasis !== null ? { costBasis: t.costBasis } : {}),
+      ...(t.realizedPnL !== null ? { realizedPnL: t.realizedPnL } : {}),
+      timestamp: t.executedAt.getTime(),
+      verified: t.verified,
+    })),
+    xp: portfolio.xp,
+    streak: portfolio.streak,
+    broker: isBrokerId(portfolio.broker) ? portfolio.broker : DEFAULT_BROKER,
+    shareMode: portfolio.shareMode,
+    costBasisMethod: portfolio.costBasisMethod,
+    dividends: dividendRows.map((d) => ({
+      id: d.dividendId,
+      stockId: d.stockId,
+      ticker: d.ticker,
+      shares: d.shares,
+      amountPerShare: d.amountPerShare,
+      grossAmount: d.grossAmount,
+      tax: d.tax,
+      amount: d.amount,
+      exDate: d.exDate,
+      payDate: d.payDate,
+      creditedAt: d.creditedAt.getTime(),
+    })),
+    dividendsSince: portfolio.dividendsSince?.getTime() ?? null,
+    corporateActions: corporateActionRows.map((a) => ({
+      id: a.actionId,
+      stockId: a.stockId,
+      type: a.type,
+      exDate: a.exDate,
+      sharesBefore: a.sharesBefore,
+      sharesAfter: a.sharesAfter,
+      cashAmount: a.cashAmount,
+      appliedAt: a.appliedAt.getTime(),
+    })),
+    corporateActionsSince: portfolio.corporateActionsSince?.getTime() ?? null,
+  };
+}
+
+function toWrite(snapshot: PortfolioSnapshot): PortfolioWrite {
+  return {
+    balance: snapshot.balance,
+    xp: snapshot.xp,
+    streak: snapshot.streak,
+    broker: snapshot.broker,
+    shareMode: snapshot.shareMode,
+    costBasisMethod: snapshot.costBasisMethod,
+    dividendsSince: snapshot.dividendsSince !== null ? new Date(snapshot.dividendsSince) : null,
+    corporateActionsSince:
+      snapshot.corporateActionsSince !== null ? new Date(snapshot.corporateActionsSince) : null,
+    holdings: Object.values(snapshot.holdings).map((h) => ({
+      stockId: h.stockId,
+      ticker: h.ticker,
+      name: h.name,
+      shares: h.shares,
+      totalCost: h.totalCost,
+      lots: h.lots ?? null,
+    })),
+    trades: snapshot.trades.map((t) => ({
+      tradeId: t.id,
+      stockId: t.stockId,
+      ticker: t.ticker,
+      name: t.name,
+      type: t.type,
+      amount: t.amount,
+      shares: t.shares,
+      price: t.price,
+      fees: t.fees ?? 0,
+      tax: t.tax ?? 0,
+      costBasis: t.costBasis ?? null,
+      realizedPnL: t.realizedPnL ?? null,
+      executedAt: new Date(t.timestamp),
+      verified: t.verified ?? false,
+    })),
+    dividends: snapshot.dividends.map((d) => ({
+      dividendId: d.id,
+      stockId: d.stockId,
+      ticker: d.ticker,
+      shares: d.shares,
+      amountPerShare: d.amountPerShare,
+      grossAmount: d.grossAmount,
+      tax: d.tax,
+      amount: d.amount,
+      exDate: d.exDate,
+      payDate: d.payDate,
+      creditedAt: new Date(d.creditedAt),
+    })),
+    corporateActions: snapshot.corporateActions.map((a) => ({
+      actionId: a.id,
+      stockId: a.stockId,
+      type: a.type,
+      exDate: a.exDate,
+      sharesBefore: a.sharesBefore,
+      sharesAfter: a.sharesAfter,
+      cashAmount: a.cashAmount,
+      appliedAt: new Date(a.appliedAt),
+    })),
+  };
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+/**
+ * Load a user's portfolio snapshot (or null if they have never synced)
+ */
+export async function getPortfolioSnapshot(
+  userId: number,
+): Promise<{ snapshot: PortfolioSnapshot; version: number } | null> {
+  const record = await getPortfolioByUserId(userId);
+  if (!record) return null;
+
+  return {
+    snapshot: toSnapshot(
+      record.portfolio,
+      record.holdings,
+      record.trades,
+      record.dividends,
+      record.corporateActions,
+    ),
+    version: record.portfolio.version,
+  };
+}
+
+/**
+ * Reconcile a client snapshot with the stored portfolio.
+ * Retries when another device writes between our read and write.
+ */
+export async function syncPortfolio(userId: number, request: SyncRequest): Promise<SyncResult> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const stored = await getPortfolioSnapshot(userId);
+    const storedVersion = stored?.version ?? null;
+
+    if (request.reset) {
+      const snapshot = openAccount(request.snapshot);
+      const version = await writePortfolio(userId, toWrite(snapshot), storedVersion, {
+        replaceTrades: true,
+      });
+      if (version === null) continue;
+      // Resting orders belong to the old account
+      await cancelOpenOrdersForUser(userId, "Cancelled by demo reset");
+      return {
+        snapshot,
+        version,
+        resolution: "reset",
+        rejectedTradeIds: [],
+        replaced: stored?.snapshot ?? null,
+      };
+    }
+
+    if (!stored) {
+      const snapshot = openAccount(request.snapshot);
+      const version = await writePortfolio(userId, toWrite(snapshot), null);
+      if (version === null) continue;
+      return {
+        snapshot,
+        version,
+        resolution: "created",
+        rejectedTradeIds: request.snapshot.trades.map((t) => t.id),
+      };
+    }
+
+    const serverChanged = request.baseVersion !== stored.version;
+
+    if (!request.dirty) {
+      return {
+        snapshot: stored.snapshot,
+        version: stored.version,
+        resolution: serverChanged ? "pulled" : "unchanged",
+        rejectedTradeIds: [],
+      };
+    }
+
+    // Keep the server's money and positions so a client can't push a made-up balance
+    const { snapshot, rejectedTradeIds } = mergeSnapshots(stored.snapshot, request.snapshot);
+    const version = await writePortfolio(userId, toWrite(snapshot), stored.version);
+    if (version === null) continue;
+    return {
+      snapshot,
+      version,
+      resolution: serverChanged ? "merged" : "pushed",
+      rejectedTradeIds,
+    };
+  }
+
+  throw new Error("Portfolio was modified concurrently, please retry");
+}
+
+/**
+ * Read-modify-write a stored portfolio with optimistic-concurrency retries.
+ * `update` returns the next snapshot (or the same object to skip the write)
+ * plus a result passed back to the caller. Returns null if the user has no
+ * stored portfolio yet.
+ */
+export async function updatePortfolio<T>(
+  userId: number,
+  update: (snapshot: PortfolioSnapshot) => { snapshot: PortfolioSnapshot; result: T },
+): Promise<{ snapshot: PortfolioSnapshot; version: number; result: T } | null> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const stored = await getPortfolioSnapshot(userId);
+    if (!stored) return null;
+
+    const { snapshot, result } = update(stored.snapshot);
+    if (snapshot === stored.snapshot) {
+      return { snapshot, version: stored.version, result };
+    }
+
+    const version = await writePortfolio(userId, toWrite(snapshot), stored.version);
+    if (version === null) continue;
+    return { snapshot, version, result };
+  }
+
+  throw new Error("Portfolio was modified concurrently, please retry");
+}
@@ -5,43 +5,220 @@
  * push notifications when user-defined thresholds are breached.
  *
  * Architecture:
- * - In-memory store for push tokens and alert preferences (no DB required for MVP)
- * - Periodic price checks via the existing stockService
- * - Expo Push Notification delivery for native devices
- * - Cooldown mechanism to prevent notification spam
+ * - Devices, alerts and notification preferences are stored in the database
+ *   (see db.ts), so they survive deploys and are shared across replicas
+ * - Alerts belong to a signed-in user and reach every device linked to
+ *   that user; anonymous (demo) devices keep their own alerts. A device
+ *   registered while signed in is linked to the user and its anonymous
+ *   alerts are adopted (see planAlertAdoption). Claiming a device that's
+ *   already registered takes its push token as proof of possession, and a
+ *   device linked to one user can't be claimed by another (see
+ *   checkDeviceClaim)
+ * - Clients send their copy of their alerts when they register; an owner
+ *   the server has no alerts for gets them back (see planAlertRestore)
+ * - Periodic price checks via the existing stockService; conditions on
+ *   moving averages, volume and 52-week ranges also use a year of daily
+ *   candles (see buildAlertMarketSnapshot)
+ * - Signed-in users can also set compound rules (see shared/alertRules):
+ *   stock conditions combined with AND/OR, plus conditions on their demo
+ *   portfolio, checked in the same loop against the same quotes
+ * - Each alert and rule is delivered on the channels chosen for it (Expo
+ *   push, email, signed webhooks; see alertDelivery), with retries, and
+ *   every delivery is logged for its owner. Deliveries run on a bounded
+ *   queue, so a slow endpoint never holds up the check loop
+ * - Email alerts only go to an address the user has confirmed with a
+ *   mailed code (see verifyEmail), and test deliveries and codes go out at
+ *   most once a minute per user and channel, so the server can't be used
+ *   to mail strangers
+ * - Cooldown mechanism to prevent notification spam; it starts when an
+ *   alert fires, whether or not its deliveries get through
+ * - The same quotes drive the resting-order matcher (see orderService)
+ * - Polls every few minutes during ATHEX sessions and backs off while the
+ *   market is closed (see marketCalendar)
  */
 
-import { getMultipleQuotes, type StockQuote } from "./stockService";
+import * as crypto from "crypto";
+import type {
+  AlertDeliveryRow,
+  AlertDestinationRow,
+  AlertRuleRow,
+  NotificationPreferencesRow,
+  PriceAlertRow,
+} from "../drizzle/schema";
+import { ALERT_CHANNEL_LABELS, resolveAlertChannels, type AlertChannel } from "../shared/alertDelivery";
+import {
+  ALERT_CONDITION_TYPES,
+  describeAlertRule,
+  describeRuleCondition,
+  isAlertRuleGroup,
+  matchesAlertRule,
+  MAX_RULE_CONDITIONS,
+  MAX_RULE_DEPTH,
+  ruleConditions,
+  ruleDepth,
+  SMA_PERIODS,
+  type AlertConditionType,
+  type AlertRuleCondition,
+  type AlertRuleGroup,
+  type PortfolioCondition,
+} from "../shared/alertRules";
+import { ENV } from "./_core/env";
+import {
+  createDeliveryQueue,
+  deliver,
+  DeliveryError,
+  describeTarget,
+  getDeliveryTransports,
+  resolveWebhookHost,
+  type HostLookup,
+  type DeliveryMessage,
+  type DeliveryResult,
+  type DeliveryTarget,
+} from "./alertDelivery";
+import { createCache } from "./cache";
+import {
+  adoptDeviceAlerts,
+  countAlertRules,
+  deleteAlertDeliveriesBefore,
+  deleteAlertRule,
+  deleteNotificationDevice,
+  deletePriceAlert,
+  getAlertDeliveries,
+  getAlertDestination,
+  getAlertDestinations,
+  getAlertRules,
+  getEnabledAlertRules,
+  getEnabledPriceAlerts,
+  getNotificationDevice,
+  getNotificationDevices,
+  getNotificationPreferencesRow,
+  getNotificationPreferencesRows,
+  getPriceAlertCounts,
+  getPriceAlerts,
+  incrementEmailCodeAttempts,
+  insertAlertDeliveries,
+  insertAlertRule,
+  insertPriceAlerts,
+  markAlertRuleTriggered,
+  markPriceAlertTriggered,
+  setAlertRuleChannels,
+  setAlertRuleLastPrices,
+  setPriceAlertChannels,
+  setPriceAlertLastPrice,
+  toggleAlertRule,
+  togglePriceAlert,
+  upsertAlertDestination,
+  upsertNotificationDevice,
+  upsertNotificationPreferences,
+  type NotificationOwner,
+} from "./db";
+import { sma } from "./indicators";
+import type { ChartDataPoint } from "./marketData";
+import { getAthensDateKey, getMarketStatus } from "./marketCalendar";
+import { getOpenOrderStockIds, matchOpenOrders } from "./orderService";
+import { getPortfolioSnapshot, type PortfolioSnapshot } from "./portfolioService";
+import { getDailyHistory, getMultipleQuotes, type StockQuote } from "./stockService";
+import { FILL_QUOTE_OPTIONS } from "./tradeService";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
-export type AlertType = "above" | "below" | "percent_change";
+/** What an alert watches for (see ALERT_CONDITION_TYPES for thresholds) */
+export const ALERT_TYPES = ALERT_CONDITION_TYPES;
+
+export type AlertType = AlertConditionType;
+
+/** A signed-in user, or an anonymous (demo) device */
+export type AlertOwner = NotificationOwner;
 
 export interface PriceAlert {
   id: string;
   stockId: string;
   stockName: string;
   type: AlertType;
-  /** Target price for above/below, or percentage for percent_change */
+  /** Target price, percentage, SMA period or volume multiple (see AlertType) */
   threshold: number;
+  /** percent_from_reference only: the price the move is measured from */
+  referencePrice: number | null;
   /** Whether the alert is currently active */
   enabled: boolean;
+  /** Where the alert is delivered */
+  channels: AlertChannel[];
   /** Timestamp of last trigger (for cooldown) */
   lastTriggered: number | null;
   /** Created timestamp */
   createdAt: number;
 }
 
+/** An alert as the client remembers it, sent back when it re-registers */
+export type AlertDraft = Pick<PriceAlert, "stockId" | "stockName" | "type" | "threshold" | "enabled"> & {
+  referencePrice?: number | null;
+  /** Push only when not given */
+  channels?: AlertChannel[] | null;
+};
+
+/** What a stock is doing now, for the alerts on it */
+export interface AlertMarketSnapshot {
+  price: number;
+  previousClose: number;
+  /** Today's opening price; null before the session's first trade */
+  open: number | null;
+  /** Volume traded today */
+  volume: number;
+  /** Average daily volume over the sessions before today; null without history */
+  averageVolume: number | null;
+  /** N-day SMA of the close, with today's price as the latest close */
+  sma: Partial<Record<number, number | null>>;
+  /** Highest high / lowest low of the 52 weeks before today */
+  priorHigh52w: number | null;
+  priorLow52w: number | null;
+}
+
+/** A compound alert rule (see shared/alertRules) */
+export interface AlertRule {
+  id: string;
+  name: string;
+  rule: AlertRuleGroup;
+  /** The rule in words, e.g. "ETE below €14.00 AND ETE volume ≥ 2× average" */
+  description: string;
+  enabled: boolean;
+  channels: AlertChannel[];
+  lastTriggered: number | null;
+  createdAt: number;
+}
+
+/** What a user's demo portfolio is doing now, for portfolio conditions */
+export interface PortfolioAlertMetrics {
+  /** % change in value since the previous close; null with nothing to value */
+  dayChange: number | null;
+  /** Each quoted holding's % from its average cost */
+  holdingsFromCost: { stockId: string; ticker: string; fromCost: number }[];
+}
+
+/** What a rule is checked against */
+export interface AlertRuleContext {
+  markets: Map<string, AlertMarketSnapshot>;
+  /** Prices at the rule's previous check, by stock, for moving-average crosses */
+  previousPrices: Record<string, number>;
+  /** The owner's portfolio; null when they have none */
+  portfolio: PortfolioAlertMetrics | null;
+}
+
 export interface DeviceRegistration {
   pushToken: string;
   deviceId: string;
   platform: "ios" | "android" | "web";
-  /** All alerts for this device */
-  alerts: PriceAlert[];
+  /** The signed-in user the device is linked to; null for anonymous devices */
+  userId: number | null;
+  /** Number of alerts the device receives */
+  alertCount: number;
   /** Global notification preferences */
   preferences: NotificationPreferences;
   /** Last seen timestamp */
   lastSeen: number;
+  /** Alerts re-created from the client's copy on this registration */
+  restoredAlerts: number;
+  /** Anonymous alerts moved to the user on this registration */
+  adoptedAlerts: number;
 }
 
 export interface NotificationPreferences {
@@ -56,10 +233,56 @@ export interface NotificationPreferences {
   quietHoursEnd: number | null;   // hour 0-23
 }
 
-export interface NotificationPayload {
+export type NotificationPayload = DeliveryMessage;
+
+/** Where a signed-in user's email and webhook alerts go */
+export interface DeliverySettings {
+  email: string | null;
+  /** The user entered the code mailed to `email`; email alerts need it */
+  emailVerified: boolean;
+  webhookUrl: string | null;
+  /** Signs webhook deliveries (see alertDelivery.signWebhookPayload) */
+  webhookSecret: string | null;
+  /** Channels this server can deliver on (email needs SMTP_URL) */
+  availableChannels: AlertChannel[];
+}
+
+/** One entry of the delivery log */
+export interface AlertDelivery {
+  id: string;
+  channel: AlertChannel;
+  /** The push device, address or webhook host, without secrets */
+  target: string;
   title: string;
-  body: string;
-  data?: Record<string, string>;
+  status: DeliveryResult["status"];
+  attempts: number;
+  error: string | null;
+  createdAt: number;
+}
+
+/** Everywhere an owner's notifications can go */
+export interface AlertRecipient {
+  owner: AlertOwner;
+  /** Push tokens of every device the owner is signed in on */
+  pushTokens: string[];
+  preferences: NotificationPreferences;
+  destination: Pick<DeliverySettings, "email" | "emailVerified" | "webhookUrl" | "webhookSecret"> | null;
+}
+
+/** An alert could not be added or changed; the message is shown to the user */
+export class PriceAlertError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceAlertError";
+  }
+}
+
+/** Registration refused because the device belongs to someone else (see checkDeviceClaim) */
+export class DeviceClaimError extends PriceAlertError {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceClaimError";
+  }
 }
 
 // ─── Constants ──────────────────────────────────────────────────────────────
@@ -67,215 +290,999 @@ export interface NotificationPayload {
 /** Minimum time between repeated alerts for the same stock (30 minutes) */
 const ALERT_COOLDOWN_MS = 30 * 60 * 1000;
 
-/** How often to check prices (5 minutes) */
+/** Sessions averaged for volume_spike */
+const AVERAGE_VOLUME_SESSIONS = 20;
+
+/** Conditions about the session as a whole fire at most once per session */
+const ONCE_PER_SESSION: ReadonlySet<AlertType> = new Set<AlertType>([
+  "percent_change",
+  "volume_spike",
+  "high_52w",
+  "low_52w",
+  "gap_up",
+  "gap_down",
+]);
+
+/** Conditions that need daily history beyond the quote */
+const NEEDS_HISTORY: ReadonlySet<AlertType> = new Set<AlertType>([
+  "sma_cross_above",
+  "sma_cross_below",
+  "volume_spike",
+  "high_52w",
+  "low_52w",
+  "gap_up",
+  "gap_down",
+]);
+
+/** How often to check prices while ATHEX is trading (5 minutes) */
 const CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
-/** Maximum alerts per device */
-const MAX_ALERTS_PER_DEVICE = 50;
+/** How often to check while the market is closed (30 minutes) */
+const CLOSED_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+/** Never schedule checks closer together than this */
+const MIN_CHECK_DELAY_MS = 10_000;
+
+/** Maximum alerts per user or anonymous device */
+export const MAX_ALERTS = 50;
+
+/** Maximum compound rules per user */
+export const MAX_ALERT_RULES = 20;
+
+const LINKED_DEVICE_ERROR = "This device is linked to an account. Sign in to manage its alerts.";
+const OTHER_ACCOUNT_DEVICE_ERROR = "This device is linked to another account.";
+const DEVICE_TOKEN_ERROR = "This device is registered with a different push token.";
+
+/** Entries returned from the delivery log */
+const DELIVERY_LOG_LIMIT = 50;
+
+/** How long delivery log entries are kept (30 days) */
+const DELIVERY_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** How often old delivery log entries are pruned (daily) */
+const DELIVERY_LOG_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const SIGN_IN_FOR_CHANNELS_ERROR = "Sign in to get alerts by email or webhook.";
+
+/** Test deliveries per channel, and email codes, per user: one a minute */
+const SEND_INTERVAL_MS = 60_000;
+
+/** How long a mailed email code stays valid (30 minutes) */
+const EMAIL_CODE_TTL_MS = 30 * 60 * 1000;
+
+/** Guesses allowed per email code before a new one must be sent */
+const MAX_EMAIL_CODE_ATTEMPTS = 5;
+
+/** When each user last sent a test on each channel, shared by replicas */
+const testDeliveryCache = createCache<number>("test-deliveries", { ttlMs: SEND_INTERVAL_MS });
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  priceAlerts: true,
+  dailyChallenge: true,
+  socialActivity: false,
+  marketNews: true,
+  percentThreshold: 5,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+/** Timer for the next scheduled check */
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** When old delivery log entries were last pruned */
+let lastDeliveryLogPrune = 0;
+
+/** Alert and rule notifications waiting to go out, a few at a time */
+const deliveryQueue = createDeliveryQueue();
+
+// ─── Row Mapping ────────────────────────────────────────────────────────────
+
+function toPriceAlert(row: PriceAlertRow): PriceAlert {
+  return {
+    id: String(row.id),
+    stockId: row.stockId,
+    stockName: row.stockName,
+    type: row.type,
+    threshold: row.threshold,
+    referencePrice: row.referencePrice,
+    enabled: row.enabled,
+    channels: resolveAlertChannels(row.channels),
+    lastTriggered: row.lastTriggered?.getTime() ?? null,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: String(row.id),
+    name: row.name,
+    rule: row.rule,
+    description: describeAlertRule(row.rule),
+    enabled: row.enabled,
+    channels: resolveAlertChannels(row.channels),
+    lastTriggered: row.lastTriggered?.getTime() ?? null,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+function toPreferences(row: NotificationPreferencesRow | undefined): NotificationPreferences {
+  if (!row) return { ...DEFAULT_PREFERENCES };
+  return {
+    priceAlerts: row.priceAlerts,
+    dailyChallenge: row.dailyChallenge,
+    socialActivity: row.socialActivity,
+    marketNews: row.marketNews,
+    percentThreshold: row.percentThreshold,
+    quietHoursStart: row.quietHoursStart,
+    quietHoursEnd: row.quietHoursEnd,
+  };
+}
+
+function toDestination(row: AlertDestinationRow | undefined): AlertRecipient["destination"] {
+  if (!row) return null;
+  return {
+    email: row.email,
+    emailVerified: !!row.email && row.emailVerifiedAt !== null,
+    webhookUrl: row.webhookUrl,
+    webhookSecret: row.webhookSecret,
+  };
+}
+
+function toDeliverySettings(row: AlertDestinationRow | undefined): DeliverySettings {
+  return {
+    email: row?.email ?? null,
+    emailVerified: !!row?.email && row.emailVerifiedAt !== null,
+    webhookUrl: row?.webhookUrl ?? null,
+    webhookSecret: row?.webhookSecret ?? null,
+    availableChannels: availableChannels(),
+  };
+}
+
+function toAlertDelivery(row: AlertDeliveryRow): AlertDelivery {
+  return {
+    id: String(row.id),
+    channel: row.channel,
+    target: row.target,
+    title: row.title,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error,
+    createdAt: row.createdAt.getTime(),
+  };
+}
 
-/** Expo Push API endpoint */
-const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+/** Groups alert, device and preference rows by who they belong to */
+function rowOwnerKey(row: { userId: number | null; deviceId: string | null }): string {
+  return row.userId !== null ? `user:${row.userId}` : `device:${row.deviceId}`;
+}
 
-// ─── In-Memory Store ────────────────────────────────────────────────────────
+/** Alert IDs are row IDs; anything else can't be one of ours */
+function parseAlertId(alertId: string): number | null {
+  const id = Number(alertId);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
 
-/** Map of deviceId -> DeviceRegistration */
-const deviceStore = new Map<string, DeviceRegistration>();
+function ownerLabel(owner: AlertOwner): string {
+  return "userId" in owner ? `user ${owner.userId}` : `device ${owner.deviceId}`;
+}
 
-/** Track last known prices for change detection */
-const lastKnownPrices = new Map<string, number>();
+/** The owner columns of a new alert row */
+function ownerColumns(owner: AlertOwner): { userId: number | null; deviceId: string | null } {
+  return "userId" in owner
+    ? { userId: owner.userId, deviceId: null }
+    : { userId: null, deviceId: owner.deviceId };
+}
 
-/** Interval handle for periodic checks */
-let checkInterval: ReturnType<typeof setInterval> | null = null;
+/**
+ * A device-scoped request must name a registered anonymous device. Devices
+ * linked to a user are only reachable through that user's session.
+ */
+async function assertAnonymousDevice(owner: AlertOwner): Promise<void> {
+  if ("userId" in owner) return;
+  const device = await getNotificationDevice(owner.deviceId);
+  if (!device) throw new PriceAlertError("Device not registered.");
+  if (device.userId !== null) throw new PriceAlertError(LINKED_DEVICE_ERROR);
+}
 
 // ─── Device Registration ────────────────────────────────────────────────────
 
-export function registerDevice(
+function alertKey(alert: AlertDraft): string {
+  return `${alert.stockId}:${alert.type}:${alert.threshold}:${alert.referencePrice ?? ""}`;
+}
+
+/**
+ * Check a new alert's threshold against its type, and drop what the type
+ * doesn't use. Throws PriceAlertError with a message for the user.
+ */
+export function normalizeAlertDraft(draft: AlertDraft): AlertDraft & { referencePrice: number | null } {
+  switch (draft.type) {
+    case "high_52w":
+    case "low_52w":
+      return { ...draft, threshold: 0, referencePrice: null };
+    case "sma_cross_above":
+    case "sma_cross_below":
+      if (!(SMA_PERIODS as readonly number[]).includes(draft.threshold)) {
+        throw new PriceAlertError(`Moving average alerts watch the ${SMA_PERIODS.join("- or ")}-day SMA.`);
+      }
+      return { ...draft, referencePrice: null };
+    case "percent_from_reference":
+      if (!draft.referencePrice || draft.referencePrice <= 0) {
+        throw new PriceAlertError("Set the reference price to measure the move from.");
+      }
+      break;
+    case "volume_spike":
+      if (draft.threshold <= 1) {
+        throw new PriceAlertError("A volume spike is more than 1× the average volume.");
+      }
+      break;
+  }
+  if (!(draft.threshold > 0)) {
+    throw new PriceAlertError("Enter a threshold above zero.");
+  }
+  return {
+    ...draft,
+    referencePrice: draft.type === "percent_from_reference" ? draft.referencePrice! : null,
+  };
+}
+
+/**
+ * An alert's channels, in order and without repeats (push only when none
+ * are given). Email and webhooks need a signed-in owner.
+ */
+export function normalizeAlertChannels(
+  owner: AlertOwner,
+  channels: AlertChannel[] | null | undefined
+): AlertChannel[] {
+  const resolved = resolveAlertChannels(channels);
+  if (!("userId" in owner) && resolved.some((channel) => channel !== "push")) {
+    throw new PriceAlertError(SIGN_IN_FOR_CHANNELS_ERROR);
+  }
+  return resolved;
+}
+
+/**
+ * Check a new rule's shape and each stock condition's threshold (as for
+ * single alerts). Throws PriceAlertError with a message for the user.
+ */
+export function normalizeAlertRule(group: AlertRuleGroup): AlertRuleGroup {
+  const conditions = ruleConditions(group);
+  if (conditions.length === 0) {
+    throw new PriceAlertError("Add at least one condition to the rule.");
+  }
+  if (conditions.length > MAX_RULE_CONDITIONS) {
+    throw new PriceAlertError(`A rule can have up to ${MAX_RULE_CONDITIONS} conditions.`);
+  }
+  if (ruleDepth(group) > MAX_RULE_DEPTH) {
+    throw new PriceAlertError(`Rules can nest at most ${MAX_RULE_DEPTH} groups deep.`);
+  }
+
+  const normalize = (entry: AlertRuleCondition | AlertRuleGroup): AlertRuleCondition | AlertRuleGroup => {
+    if (isAlertRuleGroup(entry)) {
+      if (entry.conditions.length === 0) throw new PriceAlertError("A rule group can't be empty.");
+      return normalizeGroup(entry);
+    }
+    if (entry.kind === "portfolio") return entry;
+    const draft = normalizeAlertDraft({ ...entry, enabled: true });
+    return {
+      kind: "stock",
+      stockId: draft.stockId,
+      stockName: draft.stockName,
+      type: draft.type,
+      threshold: draft.threshold,
+      referencePrice: draft.referencePrice,
+    };
+  };
+  const normalizeGroup = (g: AlertRuleGroup): AlertRuleGroup => ({
+    match: g.match,
+    conditions: g.conditions.map(normalize),
+  });
+  return normalizeGroup(group);
+}
+
+/**
+ * Which of a re-registering client's alerts to re-create. Only an owner the
+ * server holds no alerts for is restored (its alerts were lost, e.g. before
+ * they were stored in the database); otherwise the server's copy wins.
+ * Duplicates are dropped and the alert limit applies.
+ */
+export function planAlertRestore(existingCount: number, drafts: AlertDraft[]): AlertDraft[] {
+  if (existingCount > 0) return [];
+  return planAlertAdoption([], drafts).adopt;
+}
+
+/**
+ * Which of an anonymous device's alerts a user takes over when they sign in
+ * on it. Alerts the user already has, duplicates, and alerts over the limit
+ * are dropped.
+ */
+export function planAlertAdoption<T extends AlertDraft>(
+  userAlerts: AlertDraft[],
+  deviceAlerts: T[],
+): { adopt: T[]; drop: T[] } {
+  const seen = new Set(userAlerts.map(alertKey));
+  const adopt: T[] = [];
+  const drop: T[] = [];
+  for (const alert of deviceAlerts) {
+    const key = alertKey(alert);
+    if (seen.has(key) || userAlerts.length + adopt.length >= MAX_ALERTS) {
+      drop.push(alert);
+      continue;
+    }
+    seen.add(key);
+    adopt.push(alert);
+  }
+  return { adopt, drop };
+}
+
+type AlertRestore = { alerts?: AlertDraft[]; preferences?: Partial<NotificationPreferences> };
+
+/**
+ * Put back a client's copy of its alerts and preferences if the server has
+ * none for the owner. Returns how many alerts were restored.
+ */
+async function restoreOwner(
+  owner: AlertOwner,
+  existingCount: number,
+  prefsRow: NotificationPreferencesRow | undefined,
+  restore: AlertRestore,
+): Promise<{ restored: number; preferences: NotificationPreferences }> {
+  const valid = (restore.alerts ?? []).flatMap((draft) => {
+    try {
+      return [normalizeAlertDraft(draft)];
+    } catch {
+      return [];
+    }
+  });
+  const toRestore = planAlertRestore(existingCount, valid);
+  if (toRestore.length > 0) {
+    // An anonymous device's alerts go back to push
+    const channels = (draft: AlertDraft) => ("userId" in owner ? resolveAlertChannels(draft.channels) : null);
+    await insertPriceAlerts(
+      toRestore.map((draft) => ({ ...draft, channels: channels(draft), ...ownerColumns(owner) }))
+    );
+    console.log(`[PriceAlertService] Restored ${toRestore.length} alerts for ${ownerLabel(owner)}`);
+  }
+
+  let preferences = toPreferences(prefsRow);
+  if (!prefsRow && restore.preferences) {
+    preferences = { ...preferences, ...restore.preferences };
+    await upsertNotificationPreferences({ ...ownerColumns(owner), ...preferences });
+  }
+  return { restored: toRestore.length, preferences };
+}
+
+/**
+ * Why a caller can't claim an already-registered device, or null if they
+ * can. A device linked to a user stays that user's; anyone else, signed in
+ * or not, must present the push token it was registered with. Device IDs
+ * show up in logs, but push tokens are never sent back to clients.
+ */
+export function checkDeviceClaim(
+  existing: { userId: number | null; pushToken: string } | undefined,
+  userId: number | null,
+  pushToken: string
+): string | null {
+  if (!existing) return null;
+  if (existing.userId !== null) {
+    if (existing.userId === userId) return null;
+    return userId === null ? LINKED_DEVICE_ERROR : OTHER_ACCOUNT_DEVICE_ERROR;
+  }
+  return existing.pushToken === pushToken ? null : DEVICE_TOKEN_ERROR;
+}
+
+/**
+ * Register an anonymous device, or refresh its push token. A client
+ * re-registering after its alerts or preferences were lost sends its own
+ * copy of them in `restore`, and they are put back. A device linked to a
+ * user can't be registered anonymously.
+ */
+export async function registerDevice(
   deviceId: string,
   pushToken: string,
-  platform: "ios" | "android" | "web"
-): DeviceRegistration {
-  const existing = deviceStore.get(deviceId);
-
-  if (existing) {
-    // Update token and last seen
-    existing.pushToken = pushToken;
-    existing.platform = platform;
-    existing.lastSeen = Date.now();
-    return existing;
+  platform: "ios" | "android" | "web",
+  restore: AlertRestore = {}
+): Promise<DeviceRegistration> {
+  const existing = await getNotificationDevice(deviceId);
+  const claimError = checkDeviceClaim(existing, null, pushToken);
+  if (claimError) throw new DeviceClaimError(claimError);
+  await upsertNotificationDevice({ deviceId, pushToken, platform, userId: null });
+
+  const owner = { deviceId };
+  const [alerts, prefsRow] = await Promise.all([
+    getPriceAlerts(owner),
+    getNotificationPreferencesRow(owner),
+  ]);
+  const { restored, preferences } = await restoreOwner(owner, alerts.length, prefsRow, restore);
+
+  if (!existing) {
+    console.log(`[PriceAlertService] Device registered: ${deviceId} (${platform})`);
   }
 
-  const registration: DeviceRegistration = {
+  return {
     pushToken,
     deviceId,
     platform,
-    alerts: [],
-    preferences: {
-      priceAlerts: true,
-      dailyChallenge: true,
-      socialActivity: false,
-      marketNews: true,
-      percentThreshold: 5,
-      quietHoursStart: null,
-      quietHoursEnd: null,
-    },
+    userId: null,
+    alertCount: alerts.length + restored,
+    preferences,
     lastSeen: Date.now(),
+    restoredAlerts: restored,
+    adoptedAlerts: 0,
   };
+}
+
+/**
+ * Register a device for a signed-in user. The device receives all of the
+ * user's alerts, and on the first sign-in its anonymous alerts and
+ * preferences become the user's. Only a caller holding the device's push
+ * token can link an anonymous device, and a device linked to another user
+ * is refused (clients start over with a fresh device ID after signing out).
+ */
+export async function linkDevice(
+  userId: number,
+  deviceId: string,
+  pushToken: string,
+  platform: "ios" | "android" | "web",
+  restore: AlertRestore = {}
+): Promise<DeviceRegistration> {
+  const existing = await getNotificationDevice(deviceId);
+  const claimError = checkDeviceClaim(existing, userId, pushToken);
+  if (claimError) throw new DeviceClaimError(claimError);
+  await upsertNotificationDevice({ deviceId, pushToken, platform, userId });
+
+  let adopted = 0;
+  if (!existing || existing.userId === null) {
+    const [userAlerts, deviceAlerts] = await Promise.all([
+      getPriceAlerts({ userId }),
+      getPriceAlerts({ deviceId }),
+    ]);
+    const plan = planAlertAdoption(userAlerts, deviceAlerts);
+    await adoptDeviceAlerts(userId, deviceId, {
+      adopt: plan.adopt.map((a) => a.id),
+      drop: plan.drop.map((a) => a.id),
+    });
+    adopted = plan.adopt.length;
+    if (adopted > 0) {
+      console.log(`[PriceAlertService] User ${userId} adopted ${adopted} alerts from device ${deviceId}`);
+    }
+  }
 
-  deviceStore.set(deviceId, registration);
-  console.log(`[PriceAlertService] Device registered: ${deviceId} (${platform})`);
-  return registration;
+  const owner = { userId };
+  const [alerts, prefsRow] = await Promise.all([
+    getPriceAlerts(owner),
+    getNotificationPreferencesRow(owner),
+  ]);
+  const { restored, preferences } = await restoreOwner(owner, alerts.length, prefsRow, restore);
+
+  if (existing?.userId !== userId) {
+    console.log(`[PriceAlertService] Device ${deviceId} (${platform}) linked to user ${userId}`);
+  }
+
+  return {
+    pushToken,
+    deviceId,
+    platform,
+    userId,
+    alertCount: alerts.length + restored,
+    preferences,
+    lastSeen: Date.now(),
+    restoredAlerts: restored,
+    adoptedAlerts: adopted,
+  };
 }
 
-export function unregisterDevice(deviceId: string): boolean {
-  const deleted = deviceStore.delete(deviceId);
+/**
+ * Stop sending notifications to a device. A device linked to a user can
+ * only be unregistered by that user; the user's alerts are kept.
+ */
+export async function unregisterDevice(deviceId: string, userId: number | null = null): Promise<boolean> {
+  const device = await getNotificationDevice(deviceId);
+  if (!device || (device.userId !== null && device.userId !== userId)) return false;
+
+  const deleted = await deleteNotificationDevice(deviceId);
   if (deleted) {
     console.log(`[PriceAlertService] Device unregistered: ${deviceId}`);
   }
   return deleted;
 }
 
-export function getDevice(deviceId: string): DeviceRegistration | undefined {
-  return deviceStore.get(deviceId);
+export async function getDevice(deviceId: string): Promise<DeviceRegistration | undefined> {
+  const device = await getNotificationDevice(deviceId);
+  if (!device) return undefined;
+
+  const owner: AlertOwner = device.userId !== null ? { userId: device.userId } : { deviceId };
+  const [alerts, prefsRow] = await Promise.all([
+    getPriceAlerts(owner),
+    getNotificationPreferencesRow(owner),
+  ]);
+  return {
+    pushToken: device.pushToken,
+    deviceId: device.deviceId,
+    platform: device.platform,
+    userId: device.userId,
+    alertCount: alerts.length,
+    preferences: toPreferences(prefsRow),
+    lastSeen: device.lastSeen.getTime(),
+    restoredAlerts: 0,
+    adoptedAlerts: 0,
+  };
 }
 
-export function getRegisteredDeviceCount(): number {
-  return deviceStore.size;
+export async function getRegisteredDeviceCount(): Promise<number> {
+  return (await getPriceAlertCounts()).devices;
 }
 
 // ─── Alert Management ───────────────────────────────────────────────────────
 
-export function addAlert(
-  deviceId: string,
-  alert: Omit<PriceAlert, "id" | "lastTriggered" | "createdAt">
-): PriceAlert | null {
-  const device = deviceStore.get(deviceId);
-  if (!device) return null;
+export async function addAlert(owner: AlertOwner, alert: AlertDraft): Promise<PriceAlert> {
+  const draft = normalizeAlertDraft(alert);
+  const channels = normalizeAlertChannels(owner, alert.channels);
+  await assertAnonymousDevice(owner);
 
-  if (device.alerts.length >= MAX_ALERTS_PER_DEVICE) {
-    console.warn(`[PriceAlertService] Max alerts reached for device ${deviceId}`);
-    return null;
+  const alerts = await getPriceAlerts(owner);
+  if (alerts.length >= MAX_ALERTS) {
+    console.warn(`[PriceAlertService] Max alerts reached for ${ownerLabel(owner)}`);
+    throw new PriceAlertError(`You can set up to ${MAX_ALERTS} alerts.`);
   }
 
-  const newAlert: PriceAlert = {
-    ...alert,
-    id: `${deviceId}-${alert.stockId}-${Date.now()}`,
+  const [id] = await insertPriceAlerts([{ ...draft, channels, ...ownerColumns(owner) }]);
+  console.log(
+    `[PriceAlertService] Alert added: ${draft.type} ${draft.threshold} for ${draft.stockId}`
+  );
+  return {
+    ...draft,
+    channels,
+    id: String(id),
     lastTriggered: null,
     createdAt: Date.now(),
   };
+}
 
-  device.alerts.push(newAlert);
-  console.log(
-    `[PriceAlertService] Alert added: ${newAlert.type} ${newAlert.threshold} for ${newAlert.stockId}`
-  );
-  return newAlert;
+export async function removeAlert(owner: AlertOwner, alertId: string): Promise<boolean> {
+  const id = parseAlertId(alertId);
+  return id !== null && deletePriceAlert(owner, id);
 }
 
-export function removeAlert(deviceId: string, alertId: string): boolean {
-  const device = deviceStore.get(deviceId);
-  if (!device) return false;
+export async function toggleAlert(owner: AlertOwner, alertId: string): Promise<boolean> {
+  const id = parseAlertId(alertId);
+  return id !== null && togglePriceAlert(owner, id);
+}
 
-  const idx = device.alerts.findIndex((a) => a.id === alertId);
-  if (idx === -1) return false;
+/** Change where an alert is delivered */
+export async function setAlertChannels(owner: AlertOwner, alertId: string, channels: AlertChannel[]): Promise<boolean> {
+  const id = parseAlertId(alertId);
+  return id !== null && setPriceAlertChannels(owner, id, normalizeAlertChannels(owner, channels));
+}
 
-  device.alerts.splice(idx, 1);
-  return true;
+export async function getAlerts(owner: AlertOwner): Promise<PriceAlert[]> {
+  return (await getPriceAlerts(owner)).map(toPriceAlert);
 }
 
-export function toggleAlert(deviceId: string, alertId: string): boolean {
-  const device = deviceStore.get(deviceId);
-  if (!device) return false;
+export async function getAlertsForStock(owner: AlertOwner, stockId: string): Promise<PriceAlert[]> {
+  return (await getAlerts(owner)).filter((a) => a.stockId === stockId);
+}
 
-  const alert = device.alerts.find((a) => a.id === alertId);
-  if (!alert) return false;
+// ─── Rule Management ────────────────────────────────────────────────────────
+
+export async function addRule(
+  userId: number,
+  name: string,
+  group: AlertRuleGroup,
+  channels?: AlertChannel[]
+): Promise<AlertRule> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new PriceAlertError("Give the rule a name.");
+  const rule = normalizeAlertRule(group);
+  const ruleChannels = resolveAlertChannels(channels);
+
+  if ((await countAlertRules(userId)) >= MAX_ALERT_RULES) {
+    console.warn(`[PriceAlertService] Max rules reached for user ${userId}`);
+    throw new PriceAlertError(`You can set up to ${MAX_ALERT_RULES} rules.`);
+  }
 
-  alert.enabled = !alert.enabled;
-  return true;
+  const id = await insertAlertRule({ userId, name: trimmed, rule, channels: ruleChannels });
+  console.log(`[PriceAlertService] Rule added for user ${userId}: ${describeAlertRule(rule)}`);
+  return toAlertRule({
+    id,
+    userId,
+    name: trimmed,
+    rule,
+    enabled: true,
+    lastTriggered: null,
+    lastPrices: null,
+    channels: ruleChannels,
+    createdAt: new Date(),
+  });
 }
 
-export function getAlerts(deviceId: string): PriceAlert[] {
-  return deviceStore.get(deviceId)?.alerts ?? [];
+export async function removeRule(userId: number, ruleId: string): Promise<boolean> {
+  const id = parseAlertId(ruleId);
+  return id !== null && deleteAlertRule(userId, id);
 }
 
-export function getAlertsForStock(deviceId: string, stockId: string): PriceAlert[] {
-  return (deviceStore.get(deviceId)?.alerts ?? []).filter(
-    (a) => a.stockId === stockId
-  );
+export async function toggleRule(userId: number, ruleId: string): Promise<boolean> {
+  const id = parseAlertId(ruleId);
+  return id !== null && toggleAlertRule(userId, id);
+}
+
+export async function setRuleChannels(userId: number, ruleId: string, channels: AlertChannel[]): Promise<boolean> {
+  const id = parseAlertId(ruleId);
+  return id !== null && setAlertRuleChannels(userId, id, resolveAlertChannels(channels));
+}
+
+export async function getRules(userId: number): Promise<AlertRule[]> {
+  return (await getAlertRules(userId)).map(toAlertRule);
+}
+
+// ─── Delivery Settings ──────────────────────────────────────────────────────
+
+/** Channels the server has a transport for */
+function availableChannels(): AlertChannel[] {
+  return resolveAlertChannels(Object.keys(getDeliveryTransports()) as AlertChannel[]);
+}
+
+/**
+ * Check a webhook URL: https to a public host, or outside production also
+ * plain http and local hosts so the stand-in works. The transport checks
+ * the host again on every send. Throws PriceAlertError with a message for
+ * the user.
+ */
+export async function normalizeWebhookUrl(
+  input: string,
+  production: boolean = ENV.isProduction,
+  lookup?: HostLookup
+): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new PriceAlertError("Enter the full webhook URL, starting with https://.");
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && !production)) {
+    throw new PriceAlertError("Webhook URLs must start with https://.");
+  }
+  if (url.username || url.password) {
+    throw new PriceAlertError("Leave credentials out of the webhook URL.");
+  }
+  if (production) {
+    await resolveWebhookHost(url, lookup).catch((error: DeliveryError) => {
+      throw new PriceAlertError(
+        error.retryable
+          ? `Couldn't find ${url.hostname}. Check the webhook URL.`
+          : "Webhook URLs must point to a public host, not a private or internal address."
+      );
+    });
+  }
+  return url.toString();
+}
+
+function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+// ─── Email Verification ─────────────────────────────────────────────────────
+
+function generateEmailCode(): string {
+  return crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+function hashEmailCode(code: string): string {
+  return crypto.createHash("sha256").update(code.trim()).digest("hex");
+}
+
+/**
+ * Columns for an unverified address with `code` pending (none if null).
+ * Without a new code the last send time is kept, so clearing the address
+ * and setting another doesn't get round SEND_INTERVAL_MS.
+ */
+function pendingEmailCode(code: string | null, lastSentAt: Date | null = null) {
+  return {
+    emailVerifiedAt: null,
+    emailCodeHash: code ? hashEmailCode(code) : null,
+    emailCodeSentAt: code ? new Date() : lastSentAt,
+    emailCodeAttempts: 0,
+  };
+}
+
+/** Throws PriceAlertError if the last email went out under SEND_INTERVAL_MS ago */
+function assertSendInterval(lastSentAt: Date | null, action: string, now: number = Date.now()): void {
+  const waitMs = lastSentAt ? lastSentAt.getTime() + SEND_INTERVAL_MS - now : 0;
+  if (waitMs > 0) {
+    throw new PriceAlertError(`Wait ${Math.ceil(waitMs / 1000)}s before you ${action}.`);
+  }
+}
+
+/**
+ * Why `code` doesn't confirm the pending address, or null if it does.
+ * `emailCodeAttempts` already counts this guess.
+ */
+export function checkEmailCode(
+  pending: Pick<AlertDestinationRow, "emailCodeHash" | "emailCodeSentAt" | "emailCodeAttempts">,
+  code: string,
+  now: number = Date.now()
+): string | null {
+  if (!pending.emailCodeHash || !pending.emailCodeSentAt) return "Send a code to your email address first.";
+  if (now - pending.emailCodeSentAt.getTime() > EMAIL_CODE_TTL_MS) return "That code has expired. Send a new one.";
+  if (pending.emailCodeAttempts > MAX_EMAIL_CODE_ATTEMPTS) return "Too many wrong codes. Send a new one.";
+  const expected = Buffer.from(pending.emailCodeHash, "hex");
+  const actual = Buffer.from(hashEmailCode(code), "hex");
+  return crypto.timingSafeEqual(expected, actual) ? null : "That code isn't right. Check the email and try again.";
+}
+
+/** Mail `code` to the address waiting to be confirmed, logged like any delivery */
+function queueEmailCode(userId: number, email: string, code: string): void {
+  deliveryQueue.push(async () => {
+    await deliverToOwner({ userId }, [{ channel: "email", address: email }], {
+      title: "Confirm your AGRX alert email",
+      body: `Your code is ${code}. It expires in ${EMAIL_CODE_TTL_MS / 60_000} minutes. If you didn't ask for AGRX alerts, ignore this email.`,
+      data: { type: "verify-email" },
+    });
+  });
+}
+
+/**
+ * Allow one test delivery per user and channel every SEND_INTERVAL_MS.
+ * Throws PriceAlertError with the wait otherwise.
+ */
+export async function claimTestDelivery(userId: number, channel: AlertChannel): Promise<void> {
+  const key = `${userId}:${channel}`;
+  const last = await testDeliveryCache.get(key);
+  if (last?.isFresh) {
+    assertSendInterval(new Date(last.value), `send another test ${ALERT_CHANNEL_LABELS[channel].toLowerCase()}`);
+  }
+  await testDeliveryCache.set(key, Date.now());
+}
+
+export async function getDeliverySettings(userId: number): Promise<DeliverySettings> {
+  return toDeliverySettings(await getAlertDestination(userId));
+}
+
+/**
+ * Set or clear the user's email address and webhook URL. A webhook gets a
+ * signing secret the first time one is set. A new email address starts
+ * unverified and is mailed a code (see verifyEmail).
+ */
+export async function updateDeliverySettings(
+  userId: number,
+  settings: { email: string | null; webhookUrl: string | null }
+): Promise<DeliverySettings> {
+  const current = await getAlertDestination(userId);
+  const webhookUrl = settings.webhookUrl ? await normalizeWebhookUrl(settings.webhookUrl) : null;
+  const email = settings.email?.trim() || null;
+  const emailChanged = email !== (current?.email ?? null);
+
+  let code: string | null = null;
+  if (emailChanged && email && availableChannels().includes("email")) {
+    assertSendInterval(current?.emailCodeSentAt ?? null, "change your email address");
+    code = generateEmailCode();
+  }
+
+  const destination = {
+    userId,
+    email,
+    webhookUrl,
+    webhookSecret: current?.webhookSecret ?? (webhookUrl ? generateWebhookSecret() : null),
+    ...(emailChanged ? pendingEmailCode(code, current?.emailCodeSentAt ?? null) : {}),
+  };
+  await upsertAlertDestination(destination);
+  if (email && code) queueEmailCode(userId, email, code);
+
+  return toDeliverySettings({
+    ...pendingEmailCode(null),
+    ...current,
+    ...destination,
+    id: current?.id ?? 0,
+    updatedAt: new Date(),
+  });
+}
+
+/** Mail a new code to the user's unverified email address */
+export async function resendEmailCode(userId: number): Promise<DeliverySettings> {
+  const current = await getAlertDestination(userId);
+  if (!current?.email) throw new PriceAlertError("Add an email address first.");
+  if (current.emailVerifiedAt) throw new PriceAlertError("Your email address is already confirmed.");
+  if (!availableChannels().includes("email")) {
+    throw new PriceAlertError("Email delivery isn't set up on this server.");
+  }
+  assertSendInterval(current.emailCodeSentAt, "send another code");
+
+  const code = generateEmailCode();
+  const destination = {
+    userId,
+    email: current.email,
+    webhookUrl: current.webhookUrl,
+    webhookSecret: current.webhookSecret,
+    ...pendingEmailCode(code),
+  };
+  await upsertAlertDestination(destination);
+  queueEmailCode(userId, current.email, code);
+  return toDeliverySettings({ ...current, ...destination });
+}
+
+/**
+ * Confirm the user's email address with the code mailed to it. Every guess
+ * is counted before it is checked, so parallel guesses can't get past
+ * MAX_EMAIL_CODE_ATTEMPTS.
+ */
+export async function verifyEmail(userId: number, code: string): Promise<DeliverySettings> {
+  await incrementEmailCodeAttempts(userId);
+  const current = await getAlertDestination(userId);
+  if (!current?.email) throw new PriceAlertError("Add an email address first.");
+  if (current.emailVerifiedAt) return toDeliverySettings(current);
+
+  const error = checkEmailCode(current, code);
+  if (error) throw new PriceAlertError(error);
+
+  const destination = {
+    userId,
+    email: current.email,
+    webhookUrl: current.webhookUrl,
+    webhookSecret: current.webhookSecret,
+    emailVerifiedAt: new Date(),
+    emailCodeHash: null,
+    emailCodeSentAt: current.emailCodeSentAt,
+    emailCodeAttempts: 0,
+  };
+  await upsertAlertDestination(destination);
+  console.log(`[PriceAlertService] Email address confirmed for user ${userId}`);
+  return toDeliverySettings({ ...current, ...destination });
+}
+
+/** Replace the webhook signing secret, e.g. after it leaked */
+export async function rotateWebhookSecret(userId: number): Promise<DeliverySettings> {
+  const current = await getAlertDestination(userId);
+  if (!current?.webhookUrl) throw new PriceAlertError("Add a webhook URL first.");
+  const destination = { ...current, webhookSecret: generateWebhookSecret() };
+  await upsertAlertDestination({
+    userId,
+    email: destination.email,
+    webhookUrl: destination.webhookUrl,
+    webhookSecret: destination.webhookSecret,
+  });
+  console.log(`[PriceAlertService] Webhook secret rotated for user ${userId}`);
+  return toDeliverySettings(destination);
+}
+
+/** The owner's most recent deliveries, newest first */
+export async function getDeliveryLog(owner: AlertOwner, limit: number = DELIVERY_LOG_LIMIT): Promise<AlertDelivery[]> {
+  return (await getAlertDeliveries(owner, limit)).map(toAlertDelivery);
 }
 
 // ─── Notification Preferences ───────────────────────────────────────────────
 
-export function updatePreferences(
-  deviceId: string,
+/** Returns null for an unregistered or linked device */
+export async function updatePreferences(
+  owner: AlertOwner,
   prefs: Partial<NotificationPreferences>
-): NotificationPreferences | null {
-  const device = deviceStore.get(deviceId);
-  if (!device) return null;
+): Promise<NotificationPreferences | null> {
+  const current = await getPreferences(owner);
+  if (!current) return null;
 
-  device.preferences = { ...device.preferences, ...prefs };
-  return device.preferences;
+  const preferences = { ...current, ...prefs };
+  await upsertNotificationPreferences({ ...ownerColumns(owner), ...preferences });
+  return preferences;
 }
 
-export function getPreferences(deviceId: string): NotificationPreferences | null {
-  return deviceStore.get(deviceId)?.preferences ?? null;
+/** Returns null for an unregistered or linked device */
+export async function getPreferences(owner: AlertOwner): Promise<NotificationPreferences | null> {
+  if (!("userId" in owner)) {
+    const device = await getNotificationDevice(owner.deviceId);
+    if (!device || device.userId !== null) return null;
+  }
+  return toPreferences(await getNotificationPreferencesRow(owner));
 }
 
-// ─── Push Notification Delivery ─────────────────────────────────────────────
+// ─── Delivery ───────────────────────────────────────────────────────────────
 
-async function sendPushNotification(
-  pushToken: string,
-  notification: NotificationPayload
-): Promise<boolean> {
-  try {
-    const response = await fetch(EXPO_PUSH_URL, {
-      method: "POST",
-      headers: {
-        Accept: "application/json",
-        "Accept-Encoding": "gzip, deflate",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        to: pushToken,
-        sound: "default",
-        title: notification.title,
-        body: notification.body,
-        data: notification.data ?? {},
-        priority: "high",
-        channelId: "price-alerts",
-      }),
-    });
+/**
+ * Where a notification on `channels` goes for this owner: every device for
+ * push, plus the email address and webhook if set up. Channels without a
+ * destination are skipped.
+ */
+export function planDeliveryTargets(owner: AlertRecipient, channels: AlertChannel[]): DeliveryTarget[] {
+  const targets: DeliveryTarget[] = [];
+  if (channels.includes("push")) {
+    targets.push(...owner.pushTokens.map((pushToken) => ({ channel: "push" as const, address: pushToken })));
+  }
+  const destination = owner.destination;
+  if (channels.includes("email") && destination?.email && destination.emailVerified) {
+    targets.push({ channel: "email", address: destination.email });
+  }
+  if (channels.includes("webhook") && destination?.webhookUrl && destination.webhookSecret) {
+    targets.push({ channel: "webhook", address: destination.webhookUrl, secret: destination.webhookSecret });
+  }
+  return targets;
+}
 
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
-      console.warn(
-        `[PriceAlertService] Push failed (${response.status}): ${text}`
-      );
-      return false;
-    }
+/**
+ * Deliver to each target on its channel's transport (with retries) and log
+ * every outcome for the owner. A channel the server can't deliver on is
+ * logged as failed.
+ */
+async function deliverToOwner(
+  owner: AlertOwner,
+  targets: DeliveryTarget[],
+  notification: NotificationPayload,
+  source: { alertId?: number; ruleId?: number } = {}
+): Promise<DeliveryResult[]> {
+  const transports = getDeliveryTransports();
+  const results = await Promise.all(
+    targets.map((target): Promise<DeliveryResult> => {
+      const transport = transports[target.channel];
+      if (transport) return deliver(transport, target, notification);
+      return Promise.resolve({
+        channel: target.channel,
+        target: describeTarget(target),
+        status: "failed",
+        attempts: 0,
+        error: `${target.channel} delivery isn't set up on this server`,
+      });
+    })
+  );
 
-    const result = await response.json();
-    // Expo returns { data: [{ status: "ok" }] } on success
-    if (result?.data?.[0]?.status === "error") {
-      console.warn(
-        `[PriceAlertService] Push error: ${result.data[0].message}`
-      );
-      return false;
-    }
+  await insertAlertDeliveries(
+    results.map((result) => ({
+      ...ownerColumns(owner),
+      alertId: source.alertId ?? null,
+      ruleId: source.ruleId ?? null,
+      channel: result.channel,
+      target: result.target.slice(0, 320),
+      title: notification.title.slice(0, 255),
+      status: result.status,
+      attempts: result.attempts,
+      error: result.error,
+    }))
+  ).catch((error) => console.warn(`[PriceAlertService] Failed to log deliveries for ${ownerLabel(owner)}:`, error));
+
+  return results;
+}
 
-    return true;
-  } catch (error) {
-    console.warn("[PriceAlertService] Push delivery error:", error);
-    return false;
+/**
+ * Send a test notification on one channel to the signed-in user, so they
+ * can check their email address or webhook. Throws PriceAlertError when the
+ * channel has nowhere to go.
+ */
+export async function sendTestDelivery(userId: number, channel: AlertChannel): Promise<DeliveryResult[]> {
+  if (!availableChannels().includes(channel)) {
+    throw new PriceAlertError(`${channel === "email" ? "Email" : "This"} delivery isn't set up on this server.`);
+  }
+  const owner = { userId };
+  const [devices, destination] = await Promise.all([
+    getNotificationDevices({ userIds: [userId], deviceIds: [] }),
+    getAlertDestination(userId),
+  ]);
+  const recipient: AlertRecipient = {
+    owner,
+    pushTokens: devices.map((device) => device.pushToken),
+    preferences: { ...DEFAULT_PREFERENCES },
+    destination: toDestination(destination),
+  };
+  const targets = planDeliveryTargets(recipient, [channel]);
+  if (targets.length === 0) {
+    throw new PriceAlertError(
+      channel === "push"
+        ? "Turn on notifications on a device you're signed in on first."
+        : channel === "email" && destination?.email
+          ? "Confirm your email address with the code we sent first."
+          : `Add ${channel === "email" ? "an email address" : "a webhook URL"} first.`
+    );
   }
+  await claimTestDelivery(userId, channel);
+
+  return deliverToOwner(owner, targets, {
+    title: "🔔 AGRX test alert",
+    body: "Alerts will reach you here.",
+    data: { type: "test" },
+  });
 }
 
 // ─── Quiet Hours Check ──────────────────────────────────────────────────────
 
-function isInQuietHours(prefs: NotificationPreferences): boolean {
+export function isInQuietHours(prefs: NotificationPreferences, now: Date = new Date()): boolean {
   if (prefs.quietHoursStart === null || prefs.quietHoursEnd === null) {
     return false;
   }
 
-  const now = new Date();
   const currentHour = now.getHours();
   const start = prefs.quietHoursStart;
   const end = prefs.quietHoursEnd;
@@ -290,113 +1297,486 @@ function isInQuietHours(prefs: NotificationPreferences): boolean {
 
 // ─── Price Check Logic ──────────────────────────────────────────────────────
 
-function checkAlertCondition(
-  alert: PriceAlert,
-  currentPrice: number,
-  previousPrice: number | undefined
-): boolean {
-  if (!alert.enabled) return false;
+function percentMove(from: number, to: number): number {
+  return ((to - from) / from) * 100;
+}
 
-  // Cooldown check
-  if (
-    alert.lastTriggered &&
-    Date.now() - alert.lastTriggered < ALERT_COOLDOWN_MS
-  ) {
-    return false;
+/**
+ * What a stock is doing now, from its quote and (for conditions that need
+ * them) a year of daily candles. Today's candle, if any, gives the open;
+ * averages and 52-week ranges use the sessions before today.
+ */
+export function buildAlertMarketSnapshot(
+  quote: Pick<StockQuote, "price" | "previousClose" | "volume">,
+  candles: ChartDataPoint[] | null,
+  now: Date = new Date()
+): AlertMarketSnapshot {
+  const today = getAthensDateKey(now);
+  const history = candles ?? [];
+  const prior = history.filter((c) => getAthensDateKey(new Date(c.timestamp * 1000)) < today);
+  const session = history.find((c) => getAthensDateKey(new Date(c.timestamp * 1000)) === today);
+
+  const closes = [...prior.map((c) => c.close), quote.price];
+  const smaValues: Partial<Record<number, number | null>> = {};
+  for (const period of SMA_PERIODS) {
+    smaValues[period] = sma(closes, period).at(-1) ?? null;
   }
 
+  const recentVolumes = prior.slice(-AVERAGE_VOLUME_SESSIONS).map((c) => c.volume);
+  const yearAgo = now.getTime() / 1000 - 365 * 86_400;
+  const lastYear = prior.filter((c) => c.timestamp >= yearAgo);
+
+  return {
+    price: quote.price,
+    previousClose: quote.previousClose,
+    open: session && session.open > 0 ? session.open : null,
+    volume: quote.volume,
+    averageVolume:
+      recentVolumes.length === AVERAGE_VOLUME_SESSIONS
+        ? recentVolumes.reduce((sum, v) => sum + v, 0) / AVERAGE_VOLUME_SESSIONS
+        : null,
+    sma: smaValues,
+    priorHigh52w: lastYear.length > 0 ? Math.max(...lastYear.map((c) => c.high)) : null,
+    priorLow52w: lastYear.length > 0 ? Math.min(...lastYear.map((c) => c.low)) : null,
+  };
+}
+
+/**
+ * Session conditions fire once per Athens trading day; the rest wait out a
+ * cooldown
+ */
+function isCoolingDown(lastTriggered: number | null, oncePerSession: boolean, now: number): boolean {
+  if (!lastTriggered) return false;
+  if (oncePerSession) {
+    const day = (ms: number) => getAthensDateKey(new Date(ms));
+    return day(lastTriggered) === day(now);
+  }
+  return now - lastTriggered < ALERT_COOLDOWN_MS;
+}
+
+/**
+ * Whether a stock condition holds, cooldown aside. `previousPrice` is the
+ * price at the previous check, which moving-average crosses compare against.
+ */
+function matchesStockCondition(
+  alert: { type: AlertType; threshold: number; referencePrice?: number | null },
+  market: AlertMarketSnapshot,
+  previousPrice: number | undefined
+): boolean {
+  const { price, previousClose } = market;
   switch (alert.type) {
     case "above":
-      return currentPrice >= alert.threshold;
+      return price >= alert.threshold;
     case "below":
-      return currentPrice <= alert.threshold;
-    case "percent_change": {
-      if (!previousPrice || previousPrice === 0) return false;
-      const change = Math.abs(
-        ((currentPrice - previousPrice) / previousPrice) * 100
+      return price <= alert.threshold;
+    case "percent_change":
+      return previousClose > 0 && Math.abs(percentMove(previousClose, price)) >= alert.threshold;
+    case "percent_from_reference":
+      return (
+        !!alert.referencePrice &&
+        Math.abs(percentMove(alert.referencePrice, price)) >= alert.threshold
       );
-      return change >= alert.threshold;
+    case "sma_cross_above":
+    case "sma_cross_below": {
+      const average = market.sma[alert.threshold];
+      if (average == null || previousPrice === undefined) return false;
+      return alert.type === "sma_cross_above"
+        ? previousPrice < average && price >= average
+        : previousPrice > average && price <= average;
+    }
+    case "volume_spike":
+      return !!market.averageVolume && market.volume >= alert.threshold * market.averageVolume;
+    case "high_52w":
+      return market.priorHigh52w !== null && price > market.priorHigh52w;
+    case "low_52w":
+      return market.priorLow52w !== null && price < market.priorLow52w;
+    case "gap_up":
+    case "gap_down": {
+      if (market.open === null || previousClose <= 0) return false;
+      const gap = percentMove(previousClose, market.open);
+      return alert.type === "gap_up" ? gap >= alert.threshold : -gap >= alert.threshold;
     }
     default:
       return false;
   }
 }
 
-function formatAlertMessage(
+/** Whether an alert fires now (see matchesStockCondition, isCoolingDown) */
+export function checkAlertCondition(
   alert: PriceAlert,
-  currentPrice: number,
-  previousPrice: number | undefined
+  market: AlertMarketSnapshot,
+  previousPrice: number | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!alert.enabled) return false;
+  if (isCoolingDown(alert.lastTriggered, ONCE_PER_SESSION.has(alert.type), now)) return false;
+  return matchesStockCondition(alert, market, previousPrice);
+}
+
+// ─── Rule Check Logic ───────────────────────────────────────────────────────
+
+/**
+ * A portfolio at the given quotes. As in valuePortfolio, holdings without a
+ * quote are carried at cost (so they don't move the day's change); the
+ * change is measured on today's holdings.
+ */
+export function buildPortfolioAlertMetrics(
+  snapshot: Pick<PortfolioSnapshot, "balance" | "holdings">,
+  quotes: Pick<StockQuote, "id" | "price" | "previousClose">[]
+): PortfolioAlertMetrics {
+  const byId = new Map(quotes.map((q) => [q.id, q]));
+  let value = snapshot.balance;
+  let previousValue = snapshot.balance;
+  const holdingsFromCost: PortfolioAlertMetrics["holdingsFromCost"] = [];
+
+  for (const holding of Object.values(snapshot.holdings)) {
+    const quote = byId.get(holding.stockId);
+    if (!quote || holding.shares <= 0) {
+      value += holding.totalCost;
+      previousValue += holding.totalCost;
+      continue;
+    }
+    value += holding.shares * quote.price;
+    previousValue += holding.shares * (quote.previousClose > 0 ? quote.previousClose : quote.price);
+
+    const averageCost = holding.totalCost / holding.shares;
+    if (averageCost > 0) {
+      holdingsFromCost.push({
+        stockId: holding.stockId,
+        ticker: holding.ticker,
+        fromCost: percentMove(averageCost, quote.price),
+      });
+    }
+  }
+
+  return {
+    dayChange: previousValue > 0 ? percentMove(previousValue, value) : null,
+    holdingsFromCost,
+  };
+}
+
+function meetsPortfolioCondition(condition: PortfolioCondition, value: number): boolean {
+  return condition.op === "gte" ? value >= condition.value : value <= condition.value;
+}
+
+function matchesRuleCondition(condition: AlertRuleCondition, context: AlertRuleContext): boolean {
+  if (condition.kind === "portfolio") {
+    const { portfolio } = context;
+    if (!portfolio) return false;
+    if (condition.metric === "dayChange") {
+      return portfolio.dayChange !== null && meetsPortfolioCondition(condition, portfolio.dayChange);
+    }
+    return portfolio.holdingsFromCost.some((h) => meetsPortfolioCondition(condition, h.fromCost));
+  }
+
+  const market = context.markets.get(condition.stockId);
+  return !!market && matchesStockCondition(condition, market, context.previousPrices[condition.stockId]);
+}
+
+/**
+ * Whether a rule fires now. A rule with a session or portfolio condition
+ * fires once per session; others wait out the cooldown.
+ */
+export function checkAlertRule(
+  rule: Pick<AlertRule, "rule" | "enabled" | "lastTriggered">,
+  context: AlertRuleContext,
+  now: number = Date.now()
+): boolean {
+  if (!rule.enabled) return false;
+  const oncePerSession = ruleConditions(rule.rule).some(
+    (c) => c.kind === "portfolio" || ONCE_PER_SESSION.has(c.type)
+  );
+  if (isCoolingDown(rule.lastTriggered, oncePerSession, now)) return false;
+  return matchesAlertRule(rule.rule, (condition) => matchesRuleCondition(condition, context));
+}
+
+/** The rule's name, then each condition that holds with the reading behind it */
+export function formatRuleMessage(
+  rule: Pick<AlertRule, "id" | "name" | "rule">,
+  context: AlertRuleContext
 ): NotificationPayload {
-  const priceStr = `€${currentPrice.toFixed(2)}`;
+  const signed = (pct: number) => `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`;
+  const readings = ruleConditions(rule.rule)
+    .filter((condition) => matchesRuleCondition(condition, context))
+    .map((condition) => {
+      if (condition.kind === "stock") {
+        const price = context.markets.get(condition.stockId)!.price;
+        return `${describeRuleCondition(condition)} (now €${price.toFixed(2)})`;
+      }
+      const portfolio = context.portfolio!;
+      if (condition.metric === "dayChange") {
+        return `Your portfolio is ${signed(portfolio.dayChange!)} today`;
+      }
+      return portfolio.holdingsFromCost
+        .filter((h) => meetsPortfolioCondition(condition, h.fromCost))
+        .map((h) => `${h.ticker} is ${signed(h.fromCost)} from your cost`)
+        .join(", ");
+    });
+
+  return {
+    title: `🔔 ${rule.name}`,
+    body: `${readings.join(". ")}.`,
+    data: { ruleId: rule.id, type: "alert_rule" },
+  };
+}
+
+export function formatAlertMessage(
+  alert: PriceAlert,
+  market: AlertMarketSnapshot
+): NotificationPayload {
+  const { stockName } = alert;
+  const priceStr = `€${market.price.toFixed(2)}`;
+  const data = { stockId: alert.stockId, alertId: alert.id, type: "price_alert", alertType: alert.type };
+  const signed = (pct: number) => `${pct >= 0 ? "+" : ""}${pct.toFixed(1)}%`;
 
   switch (alert.type) {
     case "above":
       return {
-        title: `📈 ${alert.stockName} hit €${alert.threshold.toFixed(2)}`,
-        body: `${alert.stockName} is now trading at ${priceStr}, above your target of €${alert.threshold.toFixed(2)}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        title: `📈 ${stockName} hit €${alert.threshold.toFixed(2)}`,
+        body: `${stockName} is now trading at ${priceStr}, above your target of €${alert.threshold.toFixed(2)}.`,
+        data,
       };
     case "below":
       return {
-        title: `📉 ${alert.stockName} dropped to ${priceStr}`,
-        body: `${alert.stockName} is now trading at ${priceStr}, below your target of €${alert.threshold.toFixed(2)}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        title: `📉 ${stockName} dropped to ${priceStr}`,
+        body: `${stockName} is now trading at ${priceStr}, below your target of €${alert.threshold.toFixed(2)}.`,
+        data,
       };
-    case "percent_change": {
-      const change = previousPrice
-        ? ((currentPrice - previousPrice) / previousPrice) * 100
-        : 0;
+    case "percent_change":
+    case "percent_from_reference": {
+      const from = alert.type === "percent_change" ? market.previousClose : alert.referencePrice ?? market.price;
+      const change = from > 0 ? percentMove(from, market.price) : 0;
       const direction = change >= 0 ? "up" : "down";
       const emoji = change >= 0 ? "🔥" : "⚠️";
+      const basis =
+        alert.type === "percent_change" ? "yesterday's close" : `your reference of €${from.toFixed(2)}`;
+      return {
+        title: `${emoji} ${stockName} moved ${Math.abs(change).toFixed(1)}% ${direction}`,
+        body: `${stockName} is now at ${priceStr} (${signed(change)} from ${basis}).`,
+        data,
+      };
+    }
+    case "sma_cross_above":
+    case "sma_cross_below": {
+      const average = market.sma[alert.threshold] ?? market.price;
+      const above = alert.type === "sma_cross_above";
       return {
-        title: `${emoji} ${alert.stockName} moved ${Math.abs(change).toFixed(1)}% ${direction}`,
-        body: `${alert.stockName} is now at ${priceStr} (${change >= 0 ? "+" : ""}${change.toFixed(1)}%).`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        title: `${above ? "📈" : "📉"} ${stockName} crossed ${above ? "above" : "below"} its ${alert.threshold}-day average`,
+        body: `${stockName} is now at ${priceStr}, ${above ? "above" : "below"} its ${alert.threshold}-day moving average of €${average.toFixed(2)}.`,
+        data,
+      };
+    }
+    case "volume_spike": {
+      const multiple = market.averageVolume ? market.volume / market.averageVolume : alert.threshold;
+      return {
+        title: `📊 Heavy trading in ${stockName}`,
+        body: `${market.volume.toLocaleString("en-US")} shares traded today, ${multiple.toFixed(1)}× the ${AVERAGE_VOLUME_SESSIONS}-day average. ${stockName} is at ${priceStr}.`,
+        data,
+      };
+    }
+    case "high_52w":
+      return {
+        title: `🚀 ${stockName} hit a 52-week high`,
+        body: `${stockName} is now at ${priceStr}, above its previous 52-week high of €${(market.priorHigh52w ?? market.price).toFixed(2)}.`,
+        data,
+      };
+    case "low_52w":
+      return {
+        title: `⚠️ ${stockName} hit a 52-week low`,
+        body: `${stockName} is now at ${priceStr}, below its previous 52-week low of €${(market.priorLow52w ?? market.price).toFixed(2)}.`,
+        data,
+      };
+    case "gap_up":
+    case "gap_down": {
+      const open = market.open ?? market.price;
+      const gap = market.previousClose > 0 ? percentMove(market.previousClose, open) : 0;
+      return {
+        title: `${gap >= 0 ? "⬆️" : "⬇️"} ${stockName} gapped ${gap >= 0 ? "up" : "down"} ${Math.abs(gap).toFixed(1)}%`,
+        body: `${stockName} opened at €${open.toFixed(2)} against yesterday's close of €${market.previousClose.toFixed(2)} (${signed(gap)}).`,
+        data,
       };
     }
     default:
       return {
-        title: `Price Alert: ${alert.stockName}`,
-        body: `${alert.stockName} is now at ${priceStr}.`,
-        data: { stockId: alert.stockId, alertId: alert.id, type: "price_alert" },
+        title: `Price Alert: ${stockName}`,
+        body: `${stockName} is now at ${priceStr}.`,
+        data,
       };
   }
 }
 
+/**
+ * Queue a notification on each of the alert's channels and return straight
+ * away; the outcomes land in the owner's delivery log. Returns how many
+ * targets it was queued for.
+ */
+export function notifyOwner(
+  owner: AlertRecipient,
+  notification: NotificationPayload,
+  channels: AlertChannel[],
+  source: { alertId?: number; ruleId?: number }
+): number {
+  const targets = planDeliveryTargets(owner, channels);
+  if (targets.length > 0) {
+    deliveryQueue.push(async () => {
+      await deliverToOwner(owner.owner, targets, notification, source);
+    });
+  }
+  return targets.length;
+}
+
+/** Resolves once every queued notification has been delivered or given up on */
+export function deliveriesSettled(): Promise<void> {
+  return deliveryQueue.idle();
+}
+
+/** Drop delivery log entries past their retention, at most once a day */
+async function pruneDeliveryLog(now: Date): Promise<void> {
+  if (now.getTime() - lastDeliveryLogPrune < DELIVERY_LOG_PRUNE_INTERVAL_MS) return;
+  lastDeliveryLogPrune = now.getTime();
+  try {
+    const pruned = await deleteAlertDeliveriesBefore(new Date(now.getTime() - DELIVERY_LOG_RETENTION_MS));
+    if (pruned > 0) console.log(`[PriceAlertService] Pruned ${pruned} old delivery log entries`);
+  } catch (error) {
+    console.warn("[PriceAlertService] Failed to prune the delivery log:", error);
+  }
+}
+
+function watchesCrosses(group: AlertRuleGroup): boolean {
+  return ruleConditions(group).some(
+    (c) => c.kind === "stock" && (c.type === "sma_cross_above" || c.type === "sma_cross_below")
+  );
+}
+
 /**
  * Main price check loop — called periodically.
- * Fetches current prices for all stocks that have active alerts,
- * checks conditions, and sends notifications.
+ * Fetches current prices for all stocks that have active alerts, rules or
+ * open orders, checks conditions, queues notifications and matches orders.
  */
 export async function checkPriceAlerts(): Promise<{
   checked: number;
   triggered: number;
-  sent: number;
+  queued: number;
+  ordersFilled: number;
 }> {
   let checked = 0;
   let triggered = 0;
-  let sent = 0;
-
-  // Collect all unique stock IDs with active alerts
-  const stockIdsToCheck = new Set<string>();
-  for (const device of deviceStore.values()) {
-    if (!device.preferences.priceAlerts) continue;
-    for (const alert of device.alerts) {
-      if (alert.enabled) {
-        stockIdsToCheck.add(alert.stockId);
-      }
+  let queued = 0;
+  let ordersFilled = 0;
+
+  // Enabled alerts and rules whose owner wants price alerts and has somewhere to receive them
+  let alertRows: PriceAlertRow[] = [];
+  let ruleRows: AlertRuleRow[] = [];
+  const recipients = new Map<string, AlertRecipient>();
+  try {
+    [alertRows, ruleRows] = await Promise.all([getEnabledPriceAlerts(), getEnabledAlertRules()]);
+    const owners = {
+      userIds: Array.from(
+        new Set([
+          ...alertRows.flatMap((a) => (a.userId !== null ? [a.userId] : [])),
+          ...ruleRows.map((r) => r.userId),
+        ])
+      ),
+      deviceIds: Array.from(
+        new Set(alertRows.flatMap((a) => (a.userId === null && a.deviceId !== null ? [a.deviceId] : [])))
+      ),
+    };
+    const [deviceRows, prefsRows, destinationRows] = await Promise.all([
+      getNotificationDevices(owners),
+      getNotificationPreferencesRows(owners),
+      getAlertDestinations(owners.userIds),
+    ]);
+    const prefsByOwner = new Map(prefsRows.map((row) => [rowOwnerKey(row), row]));
+    const destinationsByUser = new Map(destinationRows.map((row) => [row.userId, row]));
+    const ownerList: AlertOwner[] = [
+      ...owners.userIds.map((userId) => ({ userId })),
+      ...owners.deviceIds.map((deviceId) => ({ deviceId })),
+    ];
+    for (const owner of ownerList) {
+      const key = rowOwnerKey(ownerColumns(owner));
+      const destination = "userId" in owner ? destinationsByUser.get(owner.userId) : undefined;
+      recipients.set(key, {
+        owner,
+        pushTokens: [],
+        preferences: toPreferences(prefsByOwner.get(key)),
+        destination: toDestination(destination),
+      });
     }
+    for (const device of deviceRows) {
+      recipients.get(rowOwnerKey(device))?.pushTokens.push(device.pushToken);
+    }
+  } catch (error) {
+    console.warn("[PriceAlertService] Failed to load alerts:", error);
   }
+  const canNotify = (key: string, channels: AlertChannel[] | null) => {
+    const recipient = recipients.get(key);
+    return (
+      !!recipient?.preferences.priceAlerts &&
+      planDeliveryTargets(recipient, resolveAlertChannels(channels)).length > 0
+    );
+  };
+  alertRows = alertRows.filter((a) => canNotify(rowOwnerKey(a), a.channels));
+  const ruleOwnerKey = (rule: AlertRuleRow) => rowOwnerKey({ userId: rule.userId, deviceId: null });
+  ruleRows = ruleRows.filter((r) => canNotify(ruleOwnerKey(r), r.channels));
+
+  // Portfolios of the users whose rules watch them
+  const portfolios = new Map<number, PortfolioSnapshot>();
+  const portfolioUserIds = new Set(
+    ruleRows.filter((r) => ruleConditions(r.rule).some((c) => c.kind === "portfolio")).map((r) => r.userId)
+  );
+  await Promise.all(
+    Array.from(portfolioUserIds).map(async (userId) => {
+      try {
+        const stored = await getPortfolioSnapshot(userId);
+        if (stored) portfolios.set(userId, stored.snapshot);
+      } catch (error) {
+        console.warn(`[PriceAlertService] Failed to load portfolio for user ${userId}:`, error);
+      }
+    })
+  );
 
-  if (stockIdsToCheck.size === 0) return { checked, triggered, sent };
+  const ruleStockConditions = ruleRows.flatMap((r) =>
+    ruleConditions(r.rule).flatMap((c) => (c.kind === "stock" ? [c] : []))
+  );
+  const stockIdsToCheck = new Set([
+    ...alertRows.map((a) => a.stockId),
+    ...ruleStockConditions.map((c) => c.stockId),
+    ...Array.from(portfolios.values()).flatMap((p) => Object.values(p.holdings).map((h) => h.stockId)),
+  ]);
 
-  // Fetch current prices
+  let orderStockIds: string[] = [];
+  try {
+    orderStockIds = await getOpenOrderStockIds();
+  } catch (error) {
+    console.warn("[PriceAlertService] Failed to load open orders:", error);
+  }
+  for (const stockId of orderStockIds) {
+    stockIdsToCheck.add(stockId);
+  }
+
+  if (stockIdsToCheck.size === 0) return { checked, triggered, queued, ordersFilled };
+
+  // Fetch current prices, refetching any too old for the order matcher to fill at
   let quotes: StockQuote[];
   try {
-    quotes = await getMultipleQuotes(Array.from(stockIdsToCheck));
+    quotes = await getMultipleQuotes(Array.from(stockIdsToCheck), FILL_QUOTE_OPTIONS);
   } catch (error) {
     console.warn("[PriceAlertService] Failed to fetch quotes:", error);
-    return { checked, triggered, sent };
+    return { checked, triggered, queued, ordersFilled };
+  }
+
+  if (orderStockIds.length > 0) {
+    try {
+      const matched = await matchOpenOrders(quotes);
+      ordersFilled = matched.filled;
+      if (matched.filled + matched.expired + matched.rejected + matched.cancelled > 0) {
+        console.log(
+          `[PriceAlertService] Orders: ${matched.filled} filled, ${matched.expired} expired, ${matched.rejected} rejected, ${matched.cancelled} cancelled`
+        );
+      }
+    } catch (error) {
+      console.warn("[PriceAlertService] Order matching failed:", error);
+    }
   }
 
   // Build price map
@@ -405,110 +1785,161 @@ export async function checkPriceAlerts(): Promise<{
     priceMap.set(quote.id, quote.price);
   }
 
-  // Check each device's alerts
-  for (const device of deviceStore.values()) {
-    if (!device.preferences.priceAlerts) continue;
-    if (isInQuietHours(device.preferences)) continue;
+  // Daily history only for the stocks whose alerts or rules look past the quote
+  const historyStockIds = new Set(
+    [...alertRows, ...ruleStockConditions].filter((a) => NEEDS_HISTORY.has(a.type)).map((a) => a.stockId)
+  );
+  const snapshots = new Map<string, AlertMarketSnapshot>();
+  const checkedAt = new Date();
+  await Promise.all(
+    quotes.map(async (quote) => {
+      let candles: ChartDataPoint[] | null = null;
+      if (historyStockIds.has(quote.id)) {
+        candles = await getDailyHistory(quote.id).catch((error) => {
+          console.warn(`[PriceAlertService] Failed to load daily history for ${quote.id}:`, error);
+          return null;
+        });
+      }
+      snapshots.set(quote.id, buildAlertMarketSnapshot(quote, candles, checkedAt));
+    })
+  );
 
-    for (const alert of device.alerts) {
-      const currentPrice = priceMap.get(alert.stockId);
-      if (currentPrice === undefined) continue;
+  // Check each alert against its owner's preferences
+  for (const row of alertRows) {
+    const owner = recipients.get(rowOwnerKey(row))!;
+    if (isInQuietHours(owner.preferences)) continue;
 
-      checked++;
-      const previousPrice = lastKnownPrices.get(alert.stockId);
+    const market = snapshots.get(row.stockId);
+    if (!market) continue;
 
-      if (checkAlertCondition(alert, currentPrice, previousPrice)) {
-        triggered++;
-        const notification = formatAlertMessage(alert, currentPrice, previousPrice);
+    checked++;
+    const alert = toPriceAlert(row);
+    const previousPrice = row.lastPrice ?? undefined;
 
-        const success = await sendPushNotification(
-          device.pushToken,
-          notification
-        );
+    if (checkAlertCondition(alert, market, previousPrice, checkedAt.getTime())) {
+      triggered++;
+      await markPriceAlertTriggered(row.id, new Date()).catch((error) =>
+        console.warn(`[PriceAlertService] Failed to record trigger for alert ${row.id}:`, error)
+      );
+      queued += notifyOwner(owner, formatAlertMessage(alert, market), alert.channels, { alertId: row.id });
+    }
+  }
 
-        if (success) {
-          sent++;
-          alert.lastTriggered = Date.now();
-        }
-      }
+  // Check each rule against the same snapshots and its owner's portfolio
+  for (const row of ruleRows) {
+    const owner = recipients.get(ruleOwnerKey(row))!;
+    if (isInQuietHours(owner.preferences)) continue;
+
+    checked++;
+    const rule = toAlertRule(row);
+    const portfolio = portfolios.get(row.userId);
+    const context: AlertRuleContext = {
+      markets: snapshots,
+      previousPrices: row.lastPrices ?? {},
+      portfolio: portfolio ? buildPortfolioAlertMetrics(portfolio, quotes) : null,
+    };
+
+    if (checkAlertRule(rule, context, checkedAt.getTime())) {
+      triggered++;
+      await markAlertRuleTriggered(row.id, new Date()).catch((error) =>
+        console.warn(`[PriceAlertService] Failed to record trigger for rule ${row.id}:`, error)
+      );
+      queued += notifyOwner(owner, formatRuleMessage(rule, context), rule.channels, { ruleId: row.id });
     }
   }
 
-  // Update last known prices
-  for (const [stockId, price] of priceMap) {
-    lastKnownPrices.set(stockId, price);
+  // Remember this check's prices for the next moving-average cross check
+  for (const stockId of new Set(alertRows.map((a) => a.stockId))) {
+    const price = priceMap.get(stockId);
+    if (price === undefined) continue;
+    await setPriceAlertLastPrice(stockId, price).catch((error) =>
+      console.warn(`[PriceAlertService] Failed to record last price for ${stockId}:`, error)
+    );
+  }
+  for (const row of ruleRows.filter((r) => watchesCrosses(r.rule))) {
+    const prices: Record<string, number> = { ...row.lastPrices };
+    for (const condition of ruleConditions(row.rule)) {
+      if (condition.kind !== "stock") continue;
+      const price = priceMap.get(condition.stockId);
+      if (price !== undefined) prices[condition.stockId] = price;
+    }
+    await setAlertRuleLastPrices(row.id, prices).catch((error) =>
+      console.warn(`[PriceAlertService] Failed to record last prices for rule ${row.id}:`, error)
+    );
   }
 
+  await pruneDeliveryLog(checkedAt);
+
   if (triggered > 0) {
     console.log(
-      `[PriceAlertService] Check complete: ${checked} checked, ${triggered} triggered, ${sent} sent`
+      `[PriceAlertService] Check complete: ${checked} checked, ${triggered} triggered, ${queued} queued`
     );
   }
 
-  return { checked, triggered, sent };
+  return { checked, triggered, queued, ordersFilled };
 }
 
 // ─── Service Lifecycle ──────────────────────────────────────────────────────
 
+/**
+ * Delay until the next price check. Every CHECK_INTERVAL_MS during a
+ * session; while closed, every CLOSED_CHECK_INTERVAL_MS (so day orders still
+ * expire) but never later than the next open.
+ */
+export function getNextCheckDelay(now: Date = new Date()): number {
+  const status = getMarketStatus(now);
+  if (status.isOpen) return CHECK_INTERVAL_MS;
+  const untilOpen = status.nextOpen - now.getTime();
+  return Math.max(MIN_CHECK_DELAY_MS, Math.min(CLOSED_CHECK_INTERVAL_MS, untilOpen));
+}
+
+function scheduleNextCheck(delay: number): void {
+  checkTimer = setTimeout(() => {
+    checkPriceAlerts()
+      .catch((err) => console.warn("[PriceAlertService] Periodic check failed:", err))
+      .finally(() => {
+        // stopPriceAlertService() may have run while the check was in flight
+        if (checkTimer !== null) scheduleNextCheck(getNextCheckDelay());
+      });
+  }, delay);
+}
+
 export function startPriceAlertService(): void {
-  if (checkInterval) {
+  if (checkTimer) {
     console.warn("[PriceAlertService] Service already running");
     return;
   }
 
   console.log(
-    `[PriceAlertService] Starting price alert service (interval: ${CHECK_INTERVAL_MS / 1000}s)`
+    `[PriceAlertService] Starting price alert service (interval: ${CHECK_INTERVAL_MS / 1000}s open, ${CLOSED_CHECK_INTERVAL_MS / 1000}s closed)`
   );
 
-  // Run initial check after a short delay
-  setTimeout(() => {
-    checkPriceAlerts().catch((err) =>
-      console.warn("[PriceAlertService] Initial check failed:", err)
-    );
-  }, 10_000);
-
-  // Set up periodic checks
-  checkInterval = setInterval(() => {
-    checkPriceAlerts().catch((err) =>
-      console.warn("[PriceAlertService] Periodic check failed:", err)
-    );
-  }, CHECK_INTERVAL_MS);
+  // Run initial check after a short delay, then follow the market calendar
+  scheduleNextCheck(MIN_CHECK_DELAY_MS);
 }
 
 export function stopPriceAlertService(): void {
-  if (checkInterval) {
-    clearInterval(checkInterval);
-    checkInterval = null;
+  if (checkTimer) {
+    clearTimeout(checkTimer);
+    checkTimer = null;
     console.log("[PriceAlertService] Service stopped");
   }
 }
 
 export function isServiceRunning(): boolean {
-  return checkInterval !== null;
+  return checkTimer !== null;
 }
 
 // ─── Stats ──────────────────────────────────────────────────────────────────
 
-export function getServiceStats() {
-  let totalAlerts = 0;
-  let activeAlerts = 0;
-  const stocksMonitored = new Set<string>();
-
-  for (const device of deviceStore.values()) {
-    for (const alert of device.alerts) {
-      totalAlerts++;
-      if (alert.enabled) {
-        activeAlerts++;
-        stocksMonitored.add(alert.stockId);
-      }
-    }
-  }
-
+export async function getServiceStats() {
+  const counts = await getPriceAlertCounts();
   return {
-    registeredDevices: deviceStore.size,
-    totalAlerts,
-    activeAlerts,
-    stocksMonitored: stocksMonitored.size,
+    registeredDevices: counts.devices,
+    totalAlerts: counts.alerts,
+    activeAlerts: counts.activeAlerts,
+    stocksMonitored: counts.stocksMonitored,
+    deliveryChannels: availableChannels(),
     isRunning: isServiceRunning(),
   };
 }
@@ -0,0 +1,155 @@
+/**
+ * AGRX Quote Stream Service
+ *
+ * Fans live price ticks out to subscribed clients. A single poller fetches
+ * each subscribed symbol once per interval — no matter how many clients
+ * watch it — and publishes only the quotes that changed. It reads through
+ * stockService's quote cache, so symbols the cache warmer (or anyone else)
+ * fetched within the interval aren't fetched again, and the rest go
+ * upstream in batches. The poller runs while anyone is subscribed and stops
+ * with the last subscriber.
+ *
+ * A new subscription first gets the current cached quotes for its symbols,
+ * so it isn't left waiting for the next poll — or, when another client
+ * already watches the same symbols, for the next price change.
+ *
+ * Clients subscribe through stocks.onQuotes over the tRPC WebSocket
+ * (see _core/index.ts).
+ */
+import { EventEmitter, on } from "events";
+import { getMarketStatus } from "./marketCalendar";
+import { ATHEX_SYMBOLS, getMultipleQuotes, type StockQuote } from "./stockService";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Poll subscribed symbols this often during a session */
+const STREAM_INTERVAL_MS = 15_000;
+
+/** Prices don't move while the market is closed; just catch late prints */
+const CLOSED_STREAM_INTERVAL_MS = 5 * 60_000;
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+/** stockId -> number of open subscriptions watching it */
+const subscriberCounts = new Map<string, number>();
+
+/** Open subscriptions, across all symbols */
+let subscriptionCount = 0;
+
+/** stockId -> fingerprint of the last published quote */
+const lastPublished = new Map<string, string>();
+
+const ticks = new EventEmitter();
+ticks.setMaxListeners(0);
+
+/** Timer for the next poll */
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function fingerprint(quote: StockQuote): string {
+  return [quote.price, quote.previousClose, quote.volume, quote.dayHigh, quote.dayLow].join("|");
+}
+
+function getStreamDelay(now: Date = new Date()): number {
+  return getMarketStatus(now).isOpen ? STREAM_INTERVAL_MS : CLOSED_STREAM_INTERVAL_MS;
+}
+
+function schedulePoll(delay: number): void {
+  pollTimer = setTimeout(() => {
+    pollQuotes()
+      .catch((err) => console.warn("[QuoteStream] Poll failed:", err))
+      .finally(() => {
+        // The last subscriber may have left while the poll was in flight
+        if (pollTimer !== null) schedulePoll(getStreamDelay());
+      });
+  }, delay);
+}
+
+function addSubscriber(stockIds: string[]): void {
+  subscriptionCount++;
+  for (const id of stockIds) {
+    subscriberCounts.set(id, (subscriberCounts.get(id) ?? 0) + 1);
+  }
+  if (!pollTimer) schedulePoll(getStreamDelay());
+}
+
+function removeSubscriber(stockIds: string[]): void {
+  subscriptionCount--;
+  for (const id of stockIds) {
+    const count = (subscriberCounts.get(id) ?? 0) - 1;
+    if (count > 0) {
+      subscriberCounts.set(id, count);
+    } else {
+      subscriberCounts.delete(id);
+      lastPublished.delete(id);
+    }
+  }
+  if (subscriptionCount === 0 && pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
+
+// ─── Polling ────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch every subscribed symbol not fetched within the last interval and
+ * publish the quotes that changed since the last poll. Returns the
+ * published quotes.
+ */
+export async function pollQuotes(): Promise<StockQuote[]> {
+  const stockIds = Array.from(subscriberCounts.keys());
+  if (stockIds.length === 0) return [];
+
+  const quotes = await getMultipleQuotes(stockIds, { maxAgeMs: STREAM_INTERVAL_MS });
+  const changed = quotes.filter((q) => {
+    const next = fingerprint(q);
+    if (lastPublished.get(q.id) === next) return false;
+    lastPublished.set(q.id, next);
+    return true;
+  });
+
+  if (changed.length > 0) ticks.emit("quotes", changed);
+  return changed;
+}
+
+// ─── Subscriptions ──────────────────────────────────────────────────────────
+
+/**
+ * Stream quotes for `stockIds` (all symbols when omitted) until `signal`
+ * aborts. The first yield is the current quotes; each one after is the
+ * batch of changed quotes from one poll.
+ */
+export async function* streamQuotes(
+  stockIds: string[] | undefined,
+  signal?: AbortSignal,
+): AsyncGenerator<StockQuote[]> {
+  const ids = (stockIds ?? Object.keys(ATHEX_SYMBOLS)).filter((id) => id in ATHEX_SYMBOLS);
+  const watched = new Set(ids);
+  addSubscriber(ids);
+
+  try {
+    // Listen before reading the snapshot so a poll in between isn't missed
+    const published = on(ticks, "quotes", { signal });
+    const current = await getMultipleQuotes(ids);
+    if (current.length > 0 && !signal?.aborted) yield current;
+
+    for await (const [quotes] of published) {
+      const mine = (quotes as StockQuote[]).filter((q) => watched.has(q.id));
+      if (mine.length > 0) yield mine;
+    }
+  } finally {
+    removeSubscriber(ids);
+  }
+}
+
+// ─── Stats ──────────────────────────────────────────────────────────────────
+
+export function getQuoteStreamStats() {
+  return {
+    isPolling: pollTimer !== null,
+    symbols: subscriberCounts.size,
+    subscriptions: subscriptionCount,
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * AGRX Redis Cache Backend
+ *
+ * A minimal RESP2 client for the handful of commands the cache needs (GET,
+ * MGET, SET PX, DEL, SCAN), over a single lazily opened connection. Works
+ * with Redis, Valkey, KeyDB, or the bundled stand-in (redisStandIn) for
+ * local development and tests.
+ *
+ * Connecting gives up after a timeout, and after a failed connect commands
+ * fail at once for a short, growing backoff before the next attempt — an
+ * unreachable server costs the cache a miss, not a wait.
+ *
+ * URL format: redis://[:password@]host[:port][/db]
+ */
+import * as net from "net";
+import type { CacheBackend } from "./cache";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+type Reply = string | number | null | Reply[];
+
+interface PendingCommand {
+  resolve: (reply: Reply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface RedisBackendOptions {
+  /** Fail a command that gets no reply within this long (default 2s) */
+  commandTimeoutMs?: number;
+  /** Give up on a connection that isn't ready within this long (default 2s) */
+  connectTimeoutMs?: number;
+  /** Wait after a failed connect before the next; doubles up to 30s (default 1s) */
+  reconnectDelayMs?: number;
+  /** Opens the socket (tests pass one that never connects) */
+  createConnection?: (options: net.NetConnectOpts) => net.Socket;
+}
+
+// ─── Protocol ───────────────────────────────────────────────────────────────
+
+export function encodeCommand(args: string[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  return out;
+}
+
+/** An error reply from the server (e.g. "-ERR wrong number of arguments") */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisReplyError";
+  }
+}
+
+/**
+ * Parse one reply starting at `offset`. Returns the reply and the offset
+ * after it, or null when the buffer does not hold a complete reply yet.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { reply: Reply | RedisReplyError; next: number } | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, next: afterLine };
+    case "-":
+      return { reply: new RedisReplyError(line), next: afterLine };
+    case ":":
+      return { reply: Number(line), next: afterLine };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { reply: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { reply: buffer.toString("utf8", afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { reply: null, next: afterLine };
+      const items: Reply[] = [];
+      let error: RedisReplyError | null = null;
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        if (item.reply instanceof RedisReplyError) error ??= item.reply;
+        else items.push(item.reply);
+        next = item.next;
+      }
+      return { reply: error ?? items, next };
+    }
+    default:
+      throw new Error(`Unexpected RESP type "${type}"`);
+  }
+}
+
+// ─── Backend ────────────────────────────────────────────────────────────────
+
+const SCAN_COUNT = "500";
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export function createRedisBackend(url: string, options: RedisBackendOptions = {}): CacheBackend & {
+  /** Close the connection; the next command reopens it */
+  disconnect(): void;
+} {
+  const parsed = new URL(url);
+  const host = parsed.hostname || "127.0.0.1";
+  const port = Number(parsed.port) || 6379;
+  const password = parsed.password ? decodeURIComponent(parsed.password) : null;
+  const db = parsed.pathname.length > 1 ? parsed.pathname.slice(1) : null;
+  const commandTimeoutMs = options.commandTimeoutMs ?? 2_000;
+  const connectTimeoutMs = options.connectTimeoutMs ?? 2_000;
+  const reconnectDelayMs = options.reconnectDelayMs ?? 1_000;
+  const createConnection = options.createConnection ?? net.createConnection;
+
+  let socket: net.Socket | null = null;
+  let ready: Promise<void> | null = null;
+  /** No connect attempts before this (epoch ms) */
+  let retryAt = 0;
+  let failedConnects = 0;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: PendingCommand[] = [];
+
+  function failAll(error: Error): void {
+    for (const command of pending.splice(0)) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+  }
+
+  function onData(chunk: Buffer): void {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    let offset = 0;
+    for (;;) {
+      const parsedReply = parseReply(buffer, offset);
+      if (!parsedReply) break;
+      offset = parsedReply.next;
+      const command = pending.shift();
+      if (!command) continue;
+      clearTimeout(command.timer);
+      if (parsedReply.reply instanceof RedisReplyError) command.reject(parsedReply.reply);
+      else command.resolve(parsedReply.reply);
+    }
+    buffer = buffer.subarray(offset);
+  }
+
+  function reset(error: Error): void {
+    socket?.destroy();
+    socket = null;
+    ready = null;
+    buffer = Buffer.alloc(0);
+    failAll(error);
+  }
+
+  function send(args: string[]): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      if (!socket) return reject(new Error("Redis is not connected"));
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost reply poisons the connection
+        reset(new Error(`Redis ${args[0]} timed out after ${commandTimeoutMs}ms`));
+      }, commandTimeoutMs);
+      pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  function connect(): Promise<void> {
+    if (ready) return ready;
+    const wait = retryAt - Date.now();
+    if (wait > 0) return Promise.reject(new Error(`Redis is unreachable, retrying in ${wait}ms`));
+
+    ready = new Promise<void>((resolve, reject) => {
+      const conn = createConnection({ host, port });
+      socket = conn;
+      let settled = false;
+      const timer = setTimeout(
+        () => fail(new Error(`Redis connect timed out after ${connectTimeoutMs}ms`)),
+        connectTimeoutMs,
+      );
+
+      /** Drop this connection; if it never got ready, back off before the next */
+      function fail(error: Error): void {
+        clearTimeout(timer);
+        console.warn(`[Redis] Connection to ${host}:${port} failed:`, error.message);
+        if (socket === conn) reset(error);
+        else conn.destroy();
+        if (settled) return;
+        settled = true;
+        retryAt = Date.now() + Math.min(reconnectDelayMs * 2 ** failedConnects, MAX_RECONNECT_DELAY_MS);
+        failedConnects++;
+        reject(error);
+      }
+
+      conn.setNoDelay(true);
+      conn.on("data", onData);
+      conn.once("connect", () => {
+        const setup: Promise<Reply>[] = [];
+        if (password) setup.push(send(["AUTH", password]));
+        if (db) setup.push(send(["SELECT", db]));
+        Promise.all(setup).then(
+          () => {
+            clearTimeout(timer);
+            settled = true;
+            failedConnects = 0;
+            resolve();
+          },
+          (error: Error) => fail(error),
+        );
+      });
+      conn.on("error", fail);
+      conn.on("close", () => {
+        if (socket === conn) reset(new Error("Redis connection closed"));
+      });
+    });
+    // A failed connect is retried on a later command, after the backoff
+    ready.catch(() => undefined);
+    return ready;
+  }
+
+  async function command(args: string[]): Promise<Reply> {
+    await connect();
+    return send(args);
+  }
+
+  return {
+    name: "redis",
+
+    async get(key) {
+      return (await command(["GET", key])) as string | null;
+    },
+
+    async getMany(keys) {
+      if (keys.length === 0) return [];
+      return (await command(["MGET", ...keys])) as (string | null)[];
+    },
+
+    async set(key, value, ttlMs) {
+      await command(["SET", key, value, "PX", String(Math.max(1, Math.round(ttlMs)))]);
+    },
+
+    async delete(keys) {
+      if (keys.length === 0) return;
+      await command(["DEL", ...keys]);
+    },
+
+    async keys(prefix) {
+      const found = new Set<string>();
+      let cursor = "0";
+      do {
+        const [next, batch] = (await command(["SCAN", cursor, "MATCH", `${prefix}*`, "COUNT", SCAN_COUNT])) as [
+          string,
+          string[],
+        ];
+        for (const key of batch) found.add(key);
+        cursor = next;
+      } while (cursor !== "0");
+      return Array.from(found);
+    },
+
+    disconnect() {
+      socket?.end();
+      reset(new Error("Redis disconnected"));
+    },
+  };
+}
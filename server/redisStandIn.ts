@@ -0,0 +1,163 @@
+/**
+ * AGRX Redis Stand-In
+ *
+ * An in-process server speaking enough of the Redis protocol for the cache
+ * backend: PING, GET, MGET, SET (PX/EX), DEL, SCAN, FLUSHDB, AUTH, SELECT
+ * and QUIT, with per-key expiry. Lets CACHE_BACKEND=redis run in local
+ * development and tests without installing Redis (scripts/redis-stand-in.ts).
+ * Not for production: one keyspace, no persistence.
+ */
+import * as net from "net";
+import { parseReply } from "./redisCache";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface RedisStandInOptions {
+  /** 0 (default) picks a free port */
+  port?: number;
+  host?: string;
+}
+
+export interface RedisStandIn {
+  port: number;
+  /** Number of commands served, for tests */
+  commandCount(): number;
+  close(): Promise<void>;
+}
+
+// ─── Replies ────────────────────────────────────────────────────────────────
+
+const OK = "+OK\r\n";
+
+function bulk(value: string | null): string {
+  return value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+function integer(value: number): string {
+  return `:${value}\r\n`;
+}
+
+function error(message: string): string {
+  return `-ERR ${message}\r\n`;
+}
+
+/** Redis glob with only the `*` wildcard, which is all the cache uses */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+// ─── Server ─────────────────────────────────────────────────────────────────
+
+export function startRedisStandIn(options: RedisStandInOptions = {}): Promise<RedisStandIn> {
+  const store = new Map<string, { value: string; expiresAt: number | null }>();
+  const sockets = new Set<net.Socket>();
+  let commands = 0;
+
+  function read(key: string): string | null {
+    const entry = store.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  function execute(args: string[]): string {
+    commands++;
+    const [name = "", ...rest] = args;
+    switch (name.toUpperCase()) {
+      case "PING":
+        return rest.length ? bulk(rest[0]) : "+PONG\r\n";
+      case "AUTH":
+      case "SELECT":
+        return OK;
+      case "GET":
+        return bulk(read(rest[0]));
+      case "MGET":
+        return `*${rest.length}\r\n${rest.map((key) => bulk(read(key))).join("")}`;
+      case "SET": {
+        const [key, value, ...flags] = rest;
+        if (key === undefined || value === undefined) return error("wrong number of arguments for 'set'");
+        let expiresAt: number | null = null;
+        for (let i = 0; i < flags.length; i += 2) {
+          const amount = Number(flags[i + 1]);
+          if (!Number.isFinite(amount) || amount <= 0) return error("invalid expire time in 'set'");
+          const flag = flags[i].toUpperCase();
+          if (flag === "PX") expiresAt = Date.now() + amount;
+          else if (flag === "EX") expiresAt = Date.now() + amount * 1000;
+          else return error("syntax error");
+        }
+        store.set(key, { value, expiresAt });
+        return OK;
+      }
+      case "DEL": {
+        let removed = 0;
+        for (const key of rest) if (read(key) !== null && store.delete(key)) removed++;
+        return integer(removed);
+      }
+      case "SCAN": {
+        // One pass over the whole keyspace; cursor is always "0" on return
+        const matchAt = rest.findIndex((arg) => arg.toUpperCase() === "MATCH");
+        const pattern = matchAt >= 0 ? globToRegExp(rest[matchAt + 1] ?? "*") : null;
+        const keys = Array.from(store.keys()).filter((key) => read(key) !== null && (!pattern || pattern.test(key)));
+        return `*2\r\n${bulk("0")}*${keys.length}\r\n${keys.map(bulk).join("")}`;
+      }
+      case "FLUSHDB":
+      case "FLUSHALL":
+        store.clear();
+        return OK;
+      case "QUIT":
+        return OK;
+      default:
+        return error(`unknown command '${name}'`);
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer: Buffer = Buffer.alloc(0);
+
+    socket.on("data", (chunk) => {
+      buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+      let offset = 0;
+      let out = "";
+      let quit = false;
+      try {
+        for (;;) {
+          const parsed = parseReply(buffer, offset);
+          if (!parsed) break;
+          offset = parsed.next;
+          const args = Array.isArray(parsed.reply) ? parsed.reply.map(String) : [];
+          out += args.length ? execute(args) : error("expected a command array");
+          if (args[0]?.toUpperCase() === "QUIT") quit = true;
+        }
+      } catch {
+        out += error("protocol error");
+        quit = true;
+      }
+      buffer = buffer.subarray(offset);
+      if (out) socket.write(out);
+      if (quit) socket.end();
+    });
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => sockets.delete(socket));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      const address = server.address() as net.AddressInfo;
+      resolve({
+        port: address.port,
+        commandCount: () => commands,
+        close: () =>
+          new Promise<void>((done) => {
+            for (const socket of sockets) socket.destroy();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
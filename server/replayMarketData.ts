@@ -0,0 +1,217 @@
+/**
+ * AGRX Replay Market Data Provider
+ *
+ * Serves recorded OHLCV sessions as if they were trading now. A simulated
+ * clock walks through the recorded 5-minute candles — one candle per five
+ * real minutes at speed 1 — and loops back to the first session at the end.
+ * Timestamps are shifted by whole days so the session being replayed lands
+ * on today, and the current session's daily candle, day range and previous
+ * close are derived from the candles revealed so far.
+ *
+ * Recordings are JSON files written by scripts/record-market-data.ts
+ * (MARKET_DATA_REPLAY_FILE); without one the bundled sample is used.
+ */
+import * as fs from "fs";
+import { SAMPLE_REPLAY_RECORDING } from "./fixtures/marketReplay";
+import { getAthensDateKey } from "./marketCalendar";
+import type { ChartDataPoint, ChartInterval, ChartRange, MarketChart, MarketDataProvider } from "./marketData";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** [epoch seconds, open, high, low, close, volume] */
+export type ReplayCandle = [number, number, number, number, number, number];
+
+export interface ReplaySymbol {
+  name: string;
+  currency: string;
+  exchange: string;
+  marketCap: number | null;
+  /** Daily candles up to and including the recorded sessions, oldest first */
+  daily: ReplayCandle[];
+  /** 5-minute candles of the recorded sessions, oldest first */
+  intraday: ReplayCandle[];
+}
+
+export interface ReplayRecording {
+  /** When the recording was made (epoch ms) */
+  recordedAt: number;
+  /** Keyed by Yahoo symbol (e.g. "ETE.AT") */
+  symbols: Record<string, ReplaySymbol>;
+}
+
+export interface ReplayProviderOptions {
+  /** JSON recording to load; ignored when `recording` is given */
+  file?: string;
+  recording?: ReplayRecording;
+  /** Simulated minutes per real minute (default 1) */
+  speed?: number;
+  /** Real clock in epoch ms, injectable for tests */
+  now?: () => number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const CANDLE_MS = 5 * 60 * 1000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/** How far back each range reaches, in days */
+const RANGE_DAYS: Record<ChartRange, number> = {
+  "1d": 1,
+  "5d": 5,
+  "1mo": 31,
+  "3mo": 92,
+  "1y": 366,
+  "5y": 5 * 366,
+};
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function toPoint([timestamp, open, high, low, close, volume]: ReplayCandle): ChartDataPoint {
+  return { timestamp, open, high, low, close, volume };
+}
+
+function dateKeyOf(timestamp: number): string {
+  return getAthensDateKey(new Date(timestamp * 1000));
+}
+
+/** Merge consecutive candles that share a bucket key */
+export function aggregateCandles(
+  candles: ChartDataPoint[],
+  bucketOf: (timestamp: number) => string | number,
+): ChartDataPoint[] {
+  const result: ChartDataPoint[] = [];
+  let lastKey: string | number | null = null;
+  for (const candle of candles) {
+    const key = bucketOf(candle.timestamp);
+    const last = result[result.length - 1];
+    if (last && key === lastKey) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      result.push({ ...candle });
+    }
+    lastKey = key;
+  }
+  return result;
+}
+
+function bucketFor(interval: ChartInterval): (timestamp: number) => string | number {
+  switch (interval) {
+    case "15m":
+      return (ts) => Math.floor(ts / 900);
+    case "1wk":
+      // Epoch day 0 was a Thursday; shift so weeks start on Monday
+      return (ts) => Math.floor((ts / DAY_SECONDS + 3) / 7);
+    case "1mo":
+      return (ts) => dateKeyOf(ts).slice(0, 7);
+    default:
+      return (ts) => ts;
+  }
+}
+
+function loadRecording(file: string): ReplayRecording {
+  const parsed = JSON.parse(fs.readFileSync(file, "utf-8")) as ReplayRecording;
+  if (!parsed || typeof parsed.symbols !== "object") {
+    throw new Error(`Replay recording ${file} has no symbols`);
+  }
+  return parsed;
+}
+
+// ─── Provider ───────────────────────────────────────────────────────────────
+
+export function createReplayProvider(options: ReplayProviderOptions = {}): MarketDataProvider {
+  const recording =
+    options.recording ?? (options.file ? loadRecording(options.file) : SAMPLE_REPLAY_RECORDING);
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+
+  // One shared timeline so every symbol replays the same moment
+  const timeline = Array.from(
+    new Set(Object.values(recording.symbols).flatMap((s) => s.intraday.map((c) => c[0]))),
+  ).sort((a, b) => a - b);
+
+  /** Recorded timestamp (epoch seconds) of the latest revealed candle */
+  function playhead(): number | null {
+    if (timeline.length === 0) return null;
+    const step = Math.floor(((now() - startedAt) * speed) / CANDLE_MS);
+    return timeline[step % timeline.length];
+  }
+
+  function chartFor(symbol: string, interval: ChartInterval, range: ChartRange): MarketChart | null {
+    const recorded = recording.symbols[symbol];
+    const head = playhead();
+    if (!recorded || head === null) return null;
+
+    const sessionKey = dateKeyOf(head);
+    const today = getAthensDateKey(new Date(now()));
+    const shift =
+      Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${sessionKey}T00:00:00Z`)) / 1000 / DAY_SECONDS) *
+      DAY_SECONDS;
+
+    // Revealed intraday candles, and the sessions they belong to
+    const intraday = recorded.intraday.filter((c) => c[0] <= head).map(toPoint);
+    const session = intraday.filter((c) => dateKeyOf(c.timestamp) === sessionKey);
+
+    // Finished sessions from the daily series, plus today's so far
+    const daily = recorded.daily.filter((c) => dateKeyOf(c[0]) < sessionKey).map(toPoint);
+    const todayCandle = aggregateCandles(session, () => sessionKey)[0];
+    if (todayCandle) daily.push(todayCandle);
+
+    let candles: ChartDataPoint[];
+    if (range === "1d") {
+      candles = session;
+    } else if (range === "5d") {
+      const sessionKeys = Array.from(new Set(intraday.map((c) => dateKeyOf(c.timestamp)))).slice(-5);
+      candles = intraday.filter((c) => sessionKeys.includes(dateKeyOf(c.timestamp)));
+    } else {
+      const from = head - RANGE_DAYS[range] * DAY_SECONDS;
+      candles = daily.filter((c) => c.timestamp >= from);
+    }
+    candles = aggregateCandles(candles, bucketFor(interval));
+
+    const firstKey = candles[0] ? dateKeyOf(candles[0].timestamp) : sessionKey;
+    const before = daily.filter((c) => dateKeyOf(c.timestamp) < firstKey);
+    const yearAgo = head - 365 * DAY_SECONDS;
+    const lastYear = daily.filter((c) => c.timestamp >= yearAgo);
+    const last = session[session.length - 1] ?? daily[daily.length - 1];
+
+    return {
+      symbol,
+      interval,
+      range,
+      candles: candles.map((c) => ({ ...c, timestamp: c.timestamp + shift })),
+      name: recorded.name,
+      currency: recorded.currency,
+      exchange: recorded.exchange,
+      regularMarketPrice: last?.close ?? null,
+      previousClose: before[before.length - 1]?.close ?? null,
+      dayHigh: todayCandle?.high ?? null,
+      dayLow: todayCandle?.low ?? null,
+      volume: todayCandle?.volume ?? null,
+      fiftyTwoWeekHigh: lastYear.length ? Math.max(...lastYear.map((c) => c.high)) : null,
+      fiftyTwoWeekLow: lastYear.length ? Math.min(...lastYear.map((c) => c.low)) : null,
+      marketCap: recorded.marketCap,
+    };
+  }
+
+  return {
+    name: "replay",
+    simulated: true,
+
+    async getChart(symbol, interval, range) {
+      return chartFor(symbol, interval, range);
+    },
+
+    async getCharts(symbols, interval, range) {
+      const charts = new Map<string, MarketChart>();
+      for (const symbol of symbols) {
+        const chart = chartFor(symbol, interval, range);
+        if (chart) charts.set(symbol, chart);
+      }
+      return charts;
+    },
+  };
+}
@@ -5,6 +5,13 @@ import { publicProcedure, router } from "./_core/trpc";
 import { stockRouter } from "./stockRouter";
 import { newsRouter } from "./newsRouter";
 import { notificationRouter } from "./notificationRouter";
+import { portfolioRouter } from "./portfolioRouter";
+import { tradeRouter } from "./tradeRouter";
+import { orderRouter } from "./orderRouter";
+import { marketRouter } from "./marketRouter";
+import { dividendRouter } from "./dividendRouter";
+import { corporateActionRouter } from "./corporateActionRouter";
+import { screenerRouter } from "./screenerRouter";
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -23,6 +30,13 @@ export const appRouter = router({
   stocks: stockRouter,
   news: newsRouter,
   notifications: notificationRouter,
+  portfolio: portfolioRouter,
+  trades: tradeRouter,
+  orders: orderRouter,
+  market: marketRouter,
+  dividends: dividendRouter,
+  corporateActions: corporateActionRouter,
+  screener: screenerRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,118 @@
+/**
+ * AGRX Screener Router
+ *
+ * tRPC router for stock screener presets:
+ * - Built-in presets (everyone) plus the user's saved ones
+ * - Save a named screen, or replace one with the same name
+ * - Delete a saved screen
+ *
+ * Screens themselves run through stocks.screen, which shares the filter
+ * schema defined here.
+ */
+import { z } from "zod";
+import {
+  MAX_SCREEN_DEPTH,
+  NUMERIC_OPERATORS,
+  NUMERIC_SCREEN_FIELDS,
+  screenDepth,
+  STOCK_CATEGORIES,
+  type ScreenFilter,
+} from "../shared/screener";
+import { SECTORS } from "../shared/sectors";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import {
+  deleteScreenPreset,
+  listScreenPresets,
+  saveScreenPreset,
+  ScreenPresetError,
+} from "./screenerService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const screenRuleSchema = z.union([
+  z
+    .object({
+      field: z.enum(NUMERIC_SCREEN_FIELDS),
+      op: z.enum(NUMERIC_OPERATORS),
+      value: z.number().finite(),
+      max: z.number().finite().optional(),
+    })
+    .refine((rule) => rule.op !== "between" || (rule.max !== undefined && rule.max >= rule.value), {
+      message: "A range needs an upper bound at or above its lower bound",
+    }),
+  z.object({
+    field: z.literal("category"),
+    op: z.literal("in"),
+    values: z.array(z.enum(STOCK_CATEGORIES)).min(1),
+  }),
+  z.object({
+    field: z.literal("sector"),
+    op: z.literal("in"),
+    values: z.array(z.enum(SECTORS)).min(1),
+  }),
+]);
+
+const screenGroupSchema: z.ZodType<ScreenFilter> = z.lazy(() =>
+  z.object({
+    match: z.enum(["all", "any"]),
+    rules: z.array(z.union([screenRuleSchema, screenGroupSchema])).max(20),
+  })
+);
+
+/** A screen: AND/OR groups of rules, nested at most MAX_SCREEN_DEPTH deep */
+export const screenFilterSchema = screenGroupSchema.refine(
+  (filter) => screenDepth(filter) <= MAX_SCREEN_DEPTH,
+  { message: `Screens can nest at most ${MAX_SCREEN_DEPTH} groups deep` }
+);
+
+const savePresetSchema = z.object({
+  name: z.string().min(1).max(64),
+  filter: screenFilterSchema,
+});
+
+const deletePresetSchema = z.object({
+  id: z.string().min(1),
+});
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const screenerRouter = router({
+  /**
+   * Built-in presets, plus the signed-in user's saved screens
+   */
+  listPresets: publicProcedure.query(async ({ ctx }) => {
+    return { success: true as const, data: await listScreenPresets(ctx.user?.id ?? null) };
+  }),
+
+  /**
+   * Save a named screen (replaces a saved screen with the same name)
+   */
+  savePreset: protectedProcedure.input(savePresetSchema).mutation(async ({ ctx, input }) => {
+    try {
+      const preset = await saveScreenPreset(ctx.user.id, input.name, input.filter);
+      return { success: true as const, data: preset };
+    } catch (error) {
+      if (error instanceof ScreenPresetError) {
+        return { success: false as const, error: error.message };
+      }
+      console.error(`[ScreenerRouter] Failed to save preset for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Couldn't save the screen. Please try again." };
+    }
+  }),
+
+  /**
+   * Delete a saved screen
+   */
+  deletePreset: protectedProcedure.input(deletePresetSchema).mutation(async ({ ctx, input }) => {
+    try {
+      await deleteScreenPreset(ctx.user.id, input.id);
+      return { success: true as const };
+    } catch (error) {
+      if (error instanceof ScreenPresetError) {
+        return { success: false as const, error: error.message };
+      }
+      console.error(`[ScreenerRouter] Failed to delete preset for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Couldn't delete the screen. Please try again." };
+    }
+  }),
+});
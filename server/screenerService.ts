@@ -0,0 +1,174 @@
+/**
+ * AGRX Screener Service
+ *
+ * Runs stock screens (see shared/screener) over the whole ATHEX_SYMBOLS
+ * universe, and keeps each signed-in user's named presets.
+ *
+ * - Metrics come from the same cached quotes as stocks.getQuotes
+ * - Market cap and dividend yield are valued like stocks.getFundamentals:
+ *   the quote's market cap or price × shares outstanding, and the trailing
+ *   twelve months of cash dividends over the current price
+ * - Stocks without a quote (upstream failure) are left out of the results
+ *   and counted as unavailable
+ * - Reported figures don't cover every stock, so results say how many of
+ *   the evaluated stocks had them; the rest only have a market cap when
+ *   their quote does
+ */
+import type { ScreenerPreset } from "../drizzle/schema";
+import { computeValuation, type ReportedFundamentals } from "../shared/fundamentals";
+import {
+  BUILT_IN_SCREEN_PRESETS,
+  matchesScreen,
+  type NumericScreenField,
+  type ScreenFilter,
+  type ScreenMetrics,
+  type ScreenPreset,
+} from "../shared/screener";
+import { getSector } from "../shared/sectors";
+import { deleteScreenerPreset, getScreenerPresets, upsertScreenerPreset } from "./db";
+import { getTrailingDividends } from "./dividendService";
+import { getFundamentalsSnapshot } from "./fundamentalsService";
+import { ATHEX_SYMBOLS, getMultipleQuotes, type StockQuote } from "./stockService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ScreenSort {
+  field: NumericScreenField;
+  direction: "asc" | "desc";
+}
+
+export interface ScreenResult {
+  /** Matching stocks, sorted, at most `limit` */
+  matches: ScreenMetrics[];
+  /** Matching stocks before the limit */
+  total: number;
+  /** Stocks evaluated (those with a quote) */
+  universe: number;
+  /** Stocks skipped because no quote was available */
+  unavailable: number;
+  /** Reported figures behind market cap, for how many evaluated stocks */
+  fundamentals: FundamentalsCoverage;
+  /** The quotes the screen ran over, for freshness */
+  quotes: StockQuote[];
+}
+
+export interface FundamentalsCoverage {
+  /** Evaluated stocks with reported figures */
+  covered: number;
+  /** The figures are indicative sample data (see fundamentalsService) */
+  indicative: boolean;
+}
+
+/** A preset could not be saved or deleted; the message is shown to the user */
+export class ScreenPresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScreenPresetError";
+  }
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_SORT: ScreenSort = { field: "marketCap", direction: "desc" };
+const MAX_SAVED_PRESETS = 20;
+
+// ─── Metrics ────────────────────────────────────────────────────────────────
+
+export function buildScreenMetrics(
+  quote: StockQuote,
+  now: number = Date.now(),
+  reported: ReportedFundamentals | null = null,
+): ScreenMetrics {
+  const { price, fiftyTwoWeekHigh: high, fiftyTwoWeekLow: low } = quote;
+  const valuation = computeValuation(price, reported, getTrailingDividends(quote.id, now), quote.marketCap);
+  return {
+    stockId: quote.id,
+    ticker: quote.ticker,
+    name: quote.name,
+    price,
+    changePercent: quote.changePercent,
+    volume: quote.volume,
+    marketCap: valuation.marketCap,
+    fromHigh52w: high > 0 ? Math.max(0, ((high - price) / high) * 100) : null,
+    fromLow52w: low > 0 ? Math.max(0, ((price - low) / low) * 100) : null,
+    dividendYield: valuation.dividendYield ?? 0,
+    category: quote.category,
+    sector: getSector(quote.id),
+  };
+}
+
+function compareBy(sort: ScreenSort) {
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return (a: ScreenMetrics, b: ScreenMetrics) => {
+    const x = a[sort.field];
+    const y = b[sort.field];
+    // Missing values sort last either way
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return (x - y) * sign || a.ticker.localeCompare(b.ticker);
+  };
+}
+
+// ─── Screening ──────────────────────────────────────────────────────────────
+
+export async function screenStocks(
+  filter: ScreenFilter,
+  options: { sort?: ScreenSort; limit?: number } = {},
+): Promise<ScreenResult> {
+  const [quotes, fundamentals] = await Promise.all([getMultipleQuotes(), getFundamentalsSnapshot()]);
+  const now = Date.now();
+  const matches = quotes
+    .map((q) => buildScreenMetrics(q, now, fundamentals.byStock.get(q.id) ?? null))
+    .filter((m) => matchesScreen(filter, m))
+    .sort(compareBy(options.sort ?? DEFAULT_SORT));
+
+  return {
+    matches: options.limit !== undefined ? matches.slice(0, options.limit) : matches,
+    total: matches.length,
+    universe: quotes.length,
+    unavailable: Object.keys(ATHEX_SYMBOLS).length - quotes.length,
+    fundamentals: {
+      covered: quotes.filter((q) => fundamentals.byStock.has(q.id)).length,
+      indicative: fundamentals.indicative,
+    },
+    quotes,
+  };
+}
+
+// ─── Presets ────────────────────────────────────────────────────────────────
+
+function toPreset(row: ScreenerPreset): ScreenPreset {
+  return { id: String(row.id), name: row.name, filter: row.filter, builtIn: false };
+}
+
+/** Built-in presets, then the user's saved ones by name */
+export async function listScreenPresets(userId: number | null): Promise<ScreenPreset[]> {
+  const saved = userId !== null ? await getScreenerPresets(userId) : [];
+  return [...BUILT_IN_SCREEN_PRESETS, ...saved.map(toPreset)];
+}
+
+/** Save a named preset, replacing any saved preset with the same name */
+export async function saveScreenPreset(userId: number, name: string, filter: ScreenFilter): Promise<ScreenPreset> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ScreenPresetError("Give the screen a name");
+
+  const existing = await getScreenerPresets(userId);
+  const replacing = existing.some((p) => p.name === trimmed);
+  if (!replacing && existing.length >= MAX_SAVED_PRESETS) {
+    throw new ScreenPresetError(`You can save up to ${MAX_SAVED_PRESETS} screens. Delete one first.`);
+  }
+
+  await upsertScreenerPreset({ userId, name: trimmed, filter });
+  const saved = (await getScreenerPresets(userId)).find((p) => p.name === trimmed);
+  if (!saved) throw new Error(`Preset "${trimmed}" was not stored`);
+  return toPreset(saved);
+}
+
+export async function deleteScreenPreset(userId: number, id: string): Promise<void> {
+  const numericId = Number(id);
+  if (!Number.isInteger(numericId)) {
+    throw new ScreenPresetError("Built-in screens can't be deleted");
+  }
+  if (!(await deleteScreenerPreset(userId, numericId))) {
+    throw new ScreenPresetError("Screen not found");
+  }
+}
@@ -2,17 +2,59 @@
  * AGRX Stock Router
  * 
  * tRPC router exposing live ATHEX stock data endpoints.
- * All endpoints are public (no auth required) for the MVP.
+ * Data endpoints are public (no auth required) for the MVP; refreshCache
+ * clears the cache every replica shares, so only admins may call it.
+ * Every response carries a `freshness` descriptor (see DataFreshness) so
+ * clients can tell live data from stale or simulated data.
  */
 import { z } from "zod";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, router } from "./_core/trpc";
 import {
+  ATHEX_SYMBOLS,
+  INDEX_SYMBOLS,
+  getChartFreshness,
+  getProviderFreshness,
+  getQuoteFreshness,
   getStockQuote,
   getMultipleQuotes,
   getStockChart,
+  getStockIndicators,
+  getIndexChart,
   getAvailableStocks,
   clearCache,
+  isQuoteWarmerRunning,
+  startQuoteWarmer,
 } from "./stockService";
+import { NUMERIC_SCREEN_FIELDS } from "../shared/screener";
+import {
+  getStockFundamentals,
+  isFundamentalsRefreshRunning,
+  startFundamentalsRefresh,
+} from "./fundamentalsService";
+import { DEFAULT_INDICATOR_OPTIONS, INDICATOR_IDS } from "./indicators";
+import { streamQuotes } from "./quoteStreamService";
+import { screenFilterSchema } from "./screenerRouter";
+import { screenStocks } from "./screenerService";
+import { INDEX_IDS, INDEX_NAMES } from "../shared/benchmark";
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function ensureWarmerRunning(): void {
+  if (!isQuoteWarmerRunning()) {
+    startQuoteWarmer();
+  }
+}
+
+function ensureFundamentalsRefreshRunning(): void {
+  if (!isFundamentalsRefreshRunning()) {
+    startFundamentalsRefresh();
+  }
+}
+
+/** Indicator look-back, in candles */
+const periodSchema = z.number().int().min(2).max(200);
+
+// ─── Router ─────────────────────────────────────────────────────────────────
 
 export const stockRouter = router({
   /**
@@ -22,10 +64,11 @@ export const stockRouter = router({
     .input(z.object({ stockId: z.string() }))
     .query(async ({ input }) => {
       const quote = await getStockQuote(input.stockId);
+      const freshness = getQuoteFreshness(quote ? [quote] : [], [input.stockId]);
       if (!quote) {
-        return { success: false as const, error: "Stock not found" };
+        return { success: false as const, error: "Stock not found", freshness };
       }
-      return { success: true as const, data: quote };
+      return { success: true as const, data: quote, freshness };
     }),
 
   /**
@@ -38,15 +81,29 @@ export const stockRouter = router({
       }).optional()
     )
     .query(async ({ input }) => {
+      ensureWarmerRunning();
       const quotes = await getMultipleQuotes(input?.stockIds);
       return {
         success: true as const,
         data: quotes,
         count: quotes.length,
         lastUpdated: Date.now(),
+        freshness: getQuoteFreshness(quotes, input?.stockIds),
       };
     }),
 
+  /**
+   * Stream changed quotes for the given stocks (or all) as they tick.
+   * WebSocket only; clients poll getQuotes when the socket is down.
+   */
+  onQuotes: publicProcedure
+    .input(
+      z.object({
+        stockIds: z.array(z.string()).optional(),
+      }).optional()
+    )
+    .subscription(({ input, signal }) => streamQuotes(input?.stockIds, signal)),
+
   /**
    * Get chart data for a stock
    */
@@ -59,10 +116,118 @@ export const stockRouter = router({
     )
     .query(async ({ input }) => {
       const chart = await getStockChart(input.stockId, input.range);
+      const symbol = ATHEX_SYMBOLS[input.stockId]?.yahoo ?? input.stockId;
+      const freshness = getChartFreshness(symbol, chart, input.range);
+      if (!chart) {
+        return { success: false as const, error: "Chart data not found", freshness };
+      }
+      return { success: true as const, data: chart, freshness };
+    }),
+
+  /**
+   * Get technical indicators (SMA/EMA, Bollinger Bands, RSI, MACD, VWAP)
+   * over a stock's chart, one value per candle. Omitted options use the
+   * usual defaults (SMA 20/50, EMA 12, Bollinger 20/2, RSI 14, MACD 12/26/9).
+   */
+  getIndicators: publicProcedure
+    .input(
+      z.object({
+        stockId: z.string(),
+        range: z.enum(["1D", "1W", "1M", "3M", "1Y", "ALL"]).default("1M"),
+        indicators: z.array(z.enum(INDICATOR_IDS)).optional(),
+        smaPeriods: z.array(periodSchema).max(3).optional(),
+        emaPeriods: z.array(periodSchema).max(3).optional(),
+        bollingerPeriod: periodSchema.optional(),
+        bollingerStdDev: z.number().min(0.5).max(4).optional(),
+        rsiPeriod: periodSchema.optional(),
+        macdFast: periodSchema.optional(),
+        macdSlow: periodSchema.optional(),
+        macdSignal: periodSchema.optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const { stockId, range, ...overrides } = input;
+      const options = { ...DEFAULT_INDICATOR_OPTIONS };
+      for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) Object.assign(options, { [key]: value });
+      }
+
+      const result = await getStockIndicators(stockId, range, options);
+      const symbol = ATHEX_SYMBOLS[stockId]?.yahoo ?? stockId;
+      const freshness = getChartFreshness(symbol, result?.chart ?? null, range);
+      if (!result) {
+        return { success: false as const, error: "Chart data not found", freshness };
+      }
+      return { success: true as const, data: result.indicators, freshness };
+    }),
+
+  /**
+   * Get company fundamentals: profile, latest annual figures (EPS, book
+   * value, revenue, net income, shares outstanding, free float) and
+   * valuation at the current price (market cap, P/E, P/B, dividend yield)
+   */
+  getFundamentals: publicProcedure
+    .input(z.object({ stockId: z.string() }))
+    .query(async ({ input }) => {
+      ensureFundamentalsRefreshRunning();
+      const { fundamentals, quote } = await getStockFundamentals(input.stockId);
+      const freshness = getQuoteFreshness(quote ? [quote] : [], [input.stockId]);
+      if (!fundamentals) {
+        return { success: false as const, error: "Fundamentals not available", freshness };
+      }
+      return { success: true as const, data: fundamentals, freshness };
+    }),
+
+  /**
+   * Screen every ATHEX stock with AND/OR rules on price, % change, volume,
+   * market cap, distance from the 52-week high/low, category, sector and
+   * dividend yield. Sorted by market cap (largest first) unless asked.
+   */
+  screen: publicProcedure
+    .input(
+      z.object({
+        filter: screenFilterSchema,
+        sort: z
+          .object({
+            field: z.enum(NUMERIC_SCREEN_FIELDS),
+            direction: z.enum(["asc", "desc"]),
+          })
+          .optional(),
+        limit: z.number().int().min(1).max(200).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      ensureWarmerRunning();
+      ensureFundamentalsRefreshRunning();
+      const { quotes, ...result } = await screenStocks(input.filter, { sort: input.sort, limit: input.limit });
+      return {
+        success: true as const,
+        data: result,
+        freshness: getQuoteFreshness(quotes),
+      };
+    }),
+
+  /**
+   * Get chart data for a benchmark index (ATHEX Composite, FTSE/ATHEX Large Cap)
+   */
+  getIndexChart: publicProcedure
+    .input(
+      z.object({
+        indexId: z.enum(INDEX_IDS),
+        range: z.enum(["1D", "1W", "1M", "3M", "1Y", "ALL"]).default("1M"),
+      })
+    )
+    .query(async ({ input }) => {
+      const chart = await getIndexChart(input.indexId, input.range);
+      const freshness = getChartFreshness(INDEX_SYMBOLS[input.indexId], chart, input.range);
       if (!chart) {
-        return { success: false as const, error: "Chart data not found" };
+        return { success: false as const, error: "Index data not found", freshness };
       }
-      return { success: true as const, data: chart };
+      return {
+        success: true as const,
+        data: { ...chart, name: INDEX_NAMES[input.indexId] },
+        freshness,
+      };
     }),
 
   /**
@@ -72,14 +237,16 @@ export const stockRouter = router({
     return {
       success: true as const,
       data: getAvailableStocks(),
+      freshness: getProviderFreshness(),
     };
   }),
 
   /**
-   * Force refresh cache (for pull-to-refresh)
+   * Clear the shared quote and chart caches (admin only: every replica reads
+   * them, so a clear sends the whole deployment upstream at once)
    */
-  refreshCache: publicProcedure.mutation(() => {
-    clearCache();
-    return { success: true as const };
+  refreshCache: adminProcedure.mutation(async () => {
+    await clearCache();
+    return { success: true as const, freshness: getProviderFreshness() };
   }),
 });
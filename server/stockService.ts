@@ -1,11 +1,30 @@
 /**
  * AGRX Stock Data Service
  * 
- * Server-side service that fetches live ATHEX stock data from Yahoo Finance
- * via the built-in data API. Includes an in-memory cache to respect rate limits
- * and provide fast responses. Covers the complete ATHEX listing (135 verified symbols).
+ * Server-side service that fetches live ATHEX stock data through the active
+ * market data provider (Yahoo Finance by default, see marketData). Quotes and charts are cached (see cache) to
+ * respect rate limits and provide fast responses; stale entries are served while they refresh in the background.
+ * Covers the complete ATHEX listing (135 verified symbols).
+ *
+ * Yahoo doesn't reliably back-adjust ATHEX history for corporate actions, so
+ * stock charts are adjusted here for every split, rights issue and capital
+ * return in corporateActionService, and a quote's previous close is adjusted
+ * on the ex-date.
  */
-import { callDataApi } from "./_core/dataApi";
+import type { IndexId } from "../shared/benchmark";
+import { adjustPriceHistory, getPriceFactor } from "../shared/corporateActions";
+import { createCache, type CachedValue } from "./cache";
+import { computeIndicators, DEFAULT_INDICATOR_OPTIONS, type IndicatorOptions, type IndicatorSet } from "./indicators";
+import { getCorporateActions } from "./corporateActionService";
+import { getAthensDateKey, getMarketStatus } from "./marketCalendar";
+import {
+  getMarketDataProvider,
+  type ChartDataPoint,
+  type ChartInterval,
+  type ChartRange,
+  type MarketChart,
+  type MarketDataProvider,
+} from "./marketData";
 
 // ─── Symbol Mapping ─────────────────────────────────────────────────────────
 // Maps our internal AGRX stock IDs to Yahoo Finance ATHEX symbols (.AT suffix)
@@ -153,6 +172,13 @@ export const ATHEX_SYMBOLS: Record<string, { yahoo: string; name: string; catego
   yalco:     { yahoo: "YALCO.AT",     name: "YALCO",                          category: "growth" },
 };
 
+// ─── Index Mapping ──────────────────────────────────────────────────────────
+// Benchmark indices, fetched through the same chart endpoint as stocks
+export const INDEX_SYMBOLS: Record<IndexId, string> = {
+  gd:   "GD.AT",   // ATHEX Composite
+  ftse: "FTSE.AT", // FTSE/ATHEX Large Cap
+};
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 export interface StockQuote {
   id: string;
@@ -168,7 +194,8 @@ export interface StockQuote {
   volume: number;
   fiftyTwoWeekHigh: number;
   fiftyTwoWeekLow: number;
-  marketCap: string;
+  /** Euros, as reported by the provider; null when it has none */
+  marketCap: number | null;
   currency: string;
   exchange: string;
   category: "blue-chip" | "growth" | "dividend";
@@ -176,14 +203,7 @@ export interface StockQuote {
   lastUpdated: number;
 }
 
-export interface ChartDataPoint {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
+export type { ChartDataPoint };
 
 export interface ChartResponse {
   symbol: string;
@@ -195,40 +215,60 @@ export interface ChartResponse {
     exchange: string;
     regularMarketPrice: number;
   };
+  /** When the provider returned this chart (epoch ms) */
+  fetchedAt: number;
 }
 
-// ─── Cache ──────────────────────────────────────────────────────────────────
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
+/** Where a response's market data came from */
+export type DataSource = "live" | "stale" | "mock";
+
+/** Attached to every stocks.* response so clients can label old data */
+export interface DataFreshness {
+  /** "stale" when a refresh failed or the data is overdue; "mock" for simulated providers */
+  source: DataSource;
+  /** When the oldest value in the response was fetched (epoch ms) */
+  asOf: number | null;
+  /** Age of that value when the response was built */
+  ageMs: number | null;
+  provider: string;
+  /** The provider error behind stale data */
+  error: string | null;
 }
 
-const quoteCache = new Map<string, CacheEntry<StockQuote>>();
-const chartCache = new Map<string, CacheEntry<ChartResponse>>();
+// ─── Cache ──────────────────────────────────────────────────────────────────
 
-// Cache TTLs in milliseconds
-const QUOTE_CACHE_TTL = 60_000;       // 1 minute for quotes
-const CHART_CACHE_TTL_1D = 60_000;    // 1 minute for intraday
+// Cache TTLs in milliseconds; stale entries are served while refreshing, and
+// as a fallback when the provider fails
+export const QUOTE_CACHE_TTL = 60_000; // 1 minute for quotes
+const QUOTE_STALE_MS = 10 * 60_000;    // then 10 minutes stale
+const CHART_CACHE_TTL_1D = 60_000;     // 1 minute for intraday
+const CHART_STALE_MS_1D = 10 * 60_000;
 const CHART_CACHE_TTL_OTHER = 300_000; // 5 minutes for longer ranges
+const CHART_STALE_MS_OTHER = 60 * 60_000;
+
+const quoteCache = createCache<StockQuote>("quotes", { ttlMs: QUOTE_CACHE_TTL, staleMs: QUOTE_STALE_MS });
+const intradayChartCache = createCache<ChartResponse>("charts-intraday", {
+  ttlMs: CHART_CACHE_TTL_1D,
+  staleMs: CHART_STALE_MS_1D,
+});
+const chartCache = createCache<ChartResponse>("charts", {
+  ttlMs: CHART_CACHE_TTL_OTHER,
+  staleMs: CHART_STALE_MS_OTHER,
+});
 
 // Concurrency limiter to avoid overwhelming the API
 const MAX_CONCURRENT = 10;
 
-function isCacheValid<T>(entry: CacheEntry<T> | undefined, ttl: number): entry is CacheEntry<T> {
-  if (!entry) return false;
-  return Date.now() - entry.timestamp < ttl;
-}
+// Symbols per call for providers with a multi-symbol path
+const QUOTE_BATCH_SIZE = 20;
 
-// ─── Format Helpers ─────────────────────────────────────────────────────────
-function formatMarketCap(value: number | undefined): string {
-  if (!value) return "N/A";
-  if (value >= 1e9) return `€${(value / 1e9).toFixed(1)}B`;
-  if (value >= 1e6) return `€${(value / 1e6).toFixed(0)}M`;
-  return `€${value.toLocaleString()}`;
-}
+// Requests already on their way upstream, joined instead of repeated
+const inflightQuotes = new Map<string, Promise<StockQuote | null>>();
+const inflightCharts = new Map<string, Promise<ChartResponse | null>>();
 
-function mapIntervalToYahoo(interval: string): string {
-  const mapping: Record<string, string> = {
+// ─── Format Helpers ─────────────────────────────────────────────────────────
+function mapIntervalToYahoo(interval: string): ChartInterval {
+  const mapping: Record<string, ChartInterval> = {
     "1D": "5m",
     "1W": "15m",
     "1M": "1d",
@@ -239,8 +279,8 @@ function mapIntervalToYahoo(interval: string): string {
   return mapping[interval] || "1d";
 }
 
-function mapRangeToYahoo(range: string): string {
-  const mapping: Record<string, string> = {
+function mapRangeToYahoo(range: string): ChartRange {
+  const mapping: Record<string, ChartRange> = {
     "1D": "1d",
     "1W": "5d",
     "1M": "1mo",
@@ -276,84 +316,242 @@ async function runWithConcurrency<T>(
   return results;
 }
 
-// ─── API Functions ──────────────────────────────────────────────────────────
+// ─── Upstream Metrics ───────────────────────────────────────────────────────
+
+/** Keep per-minute call counts for this long */
+const METRICS_WINDOW_MINUTES = 15;
+
+/** Epoch minute -> upstream calls made in it */
+const upstreamCallsByMinute = new Map<number, number>();
+
+const counters = {
+  upstreamCalls: 0,
+  batchCalls: 0,
+  cacheHits: 0,
+  coalesced: 0,
+  errors: 0,
+};
+
+const metricsSince = Date.now();
+
+/** Yahoo symbol -> failed fetch since its last success; older data is stale */
+const upstreamFailures = new Map<string, { message: string; at: number }>();
+
+function recordFailure(symbol: string, error: unknown): void {
+  counters.errors++;
+  upstreamFailures.set(symbol, {
+    message: error instanceof Error ? error.message : String(error),
+    at: Date.now(),
+  });
+}
+
+/** Count one provider call. Every path upstream goes through here */
+function callUpstream<T>(call: (provider: MarketDataProvider) => Promise<T>): Promise<T> {
+  const minute = Math.floor(Date.now() / 60_000);
+  upstreamCallsByMinute.set(minute, (upstreamCallsByMinute.get(minute) ?? 0) + 1);
+  for (const key of upstreamCallsByMinute.keys()) {
+    if (key <= minute - METRICS_WINDOW_MINUTES) upstreamCallsByMinute.delete(key);
+  }
+  counters.upstreamCalls++;
+  return call(getMarketDataProvider());
+}
+
+/** Join the in-flight request for `key`, or start one with `load` */
+function coalesce<T>(inflight: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) {
+    counters.coalesced++;
+    return pending;
+  }
+  const promise = load().finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
 
 /**
- * Fetch a single stock quote with sparkline data
+ * Upstream call counts since startup, and per minute over the last
+ * METRICS_WINDOW_MINUTES (oldest first, current minute last).
  */
-export async function getStockQuote(stockId: string): Promise<StockQuote | null> {
+export function getUpstreamMetrics(now: number = Date.now()) {
+  const minute = Math.floor(now / 60_000);
+  const perMinute = Array.from({ length: METRICS_WINDOW_MINUTES }, (_, i) => {
+    const key = minute - METRICS_WINDOW_MINUTES + 1 + i;
+    return { minute: key * 60_000, calls: upstreamCallsByMinute.get(key) ?? 0 };
+  });
+  // Average over full minutes only, and not before the process started
+  const fullMinutes = perMinute.slice(0, -1).filter((m) => m.minute >= metricsSince - 60_000);
+  const callsPerMinute = fullMinutes.length
+    ? fullMinutes.reduce((sum, m) => sum + m.calls, 0) / fullMinutes.length
+    : perMinute[perMinute.length - 1].calls;
+
+  return {
+    provider: getMarketDataProvider().name,
+    since: metricsSince,
+    ...counters,
+    callsLastMinute: perMinute[perMinute.length - 2]?.calls ?? 0,
+    callsPerMinute,
+    perMinute,
+    inflight: inflightQuotes.size + inflightCharts.size,
+  };
+}
+
+// ─── Quote Building ─────────────────────────────────────────────────────────
+
+/**
+ * Quote from a provider's intraday chart, previous close adjusted on an
+ * ex-date. Fields a batched chart leaves out keep `previous`'s values —
+ * volume only from earlier the same day.
+ */
+function buildQuote(stockId: string, chart: MarketChart, previous?: StockQuote): StockQuote {
   const symbolInfo = ATHEX_SYMBOLS[stockId];
-  if (!symbolInfo) return null;
+  const closePrices = chart.candles.map((c) => c.close);
+
+  const price = chart.regularMarketPrice ?? closePrices[closePrices.length - 1] ?? 0;
+  const today = getAthensDateKey(new Date());
+  const previousClose = getCorporateActions([stockId])
+    .filter((a) => a.exDate === today)
+    .reduce((close, a) => close * getPriceFactor(a), chart.previousClose ?? price);
+  const change = price - previousClose;
+  const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
+
+  // Build sparkline from intraday close prices (sample every ~6 points for ~14 data points)
+  const step = Math.max(1, Math.floor(closePrices.length / 14));
+  const sparkline = closePrices.filter((_: number, i: number) => i % step === 0 || i === closePrices.length - 1);
+
+  const sameDay = previous && getAthensDateKey(new Date(previous.lastUpdated)) === today;
+
+  return {
+    id: stockId,
+    ticker: symbolInfo.yahoo.replace(".AT", ""),
+    yahooSymbol: symbolInfo.yahoo,
+    name: chart.name || previous?.name || symbolInfo.name,
+    price,
+    previousClose,
+    change,
+    changePercent,
+    dayHigh: chart.dayHigh ?? Math.max(...closePrices),
+    dayLow: chart.dayLow ?? Math.min(...closePrices),
+    volume: chart.volume ?? (sameDay ? previous.volume : 0),
+    fiftyTwoWeekHigh: chart.fiftyTwoWeekHigh ?? previous?.fiftyTwoWeekHigh ?? 0,
+    fiftyTwoWeekLow: chart.fiftyTwoWeekLow ?? previous?.fiftyTwoWeekLow ?? 0,
+    marketCap: chart.marketCap ?? previous?.marketCap ?? null,
+    currency: chart.currency,
+    exchange: chart.exchange,
+    category: symbolInfo.category,
+    sparkline,
+    lastUpdated: Date.now(),
+  };
+}
 
-  // Check cache
-  const cached = quoteCache.get(stockId);
-  if (isCacheValid(cached, QUOTE_CACHE_TTL)) {
-    return cached.data;
+/** Build a quote from `chart` and store it in the cache */
+async function storeQuote(stockId: string, chart: MarketChart): Promise<StockQuote> {
+  const partial = chart.volume === null || chart.fiftyTwoWeekHigh === null;
+  const previous = partial ? (await quoteCache.get(stockId))?.value : undefined;
+  const quote = buildQuote(stockId, chart, previous);
+  upstreamFailures.delete(ATHEX_SYMBOLS[stockId].yahoo);
+  await quoteCache.set(stockId, quote);
+  return quote;
+}
+
+/** Log a failed quote fetch and fall back to the stale cache if there is one */
+async function staleQuote(stockId: string, error: unknown): Promise<StockQuote | null> {
+  console.error(`[StockService] Failed to fetch quote for ${stockId}:`, error);
+  recordFailure(ATHEX_SYMBOLS[stockId].yahoo, error);
+  return (await quoteCache.get(stockId))?.value ?? null;
+}
+
+/** Fetch one quote from the provider, joining a request already in flight */
+function refreshQuote(stockId: string): Promise<StockQuote | null> {
+  return coalesce(inflightQuotes, stockId, async () => {
+    try {
+      const chart = await callUpstream((provider) => provider.getChart(ATHEX_SYMBOLS[stockId].yahoo, "5m", "1d"));
+      return chart ? await storeQuote(stockId, chart) : null;
+    } catch (error) {
+      return staleQuote(stockId, error);
+    }
+  });
+}
+
+/**
+ * Fetch one batch of quotes through the provider's multi-symbol path and
+ * register each symbol as in flight, so per-symbol callers join the batch.
+ * Returns each symbol's share of the batch.
+ */
+function fetchQuoteBatch(stockIds: string[]): Map<string, Promise<StockQuote | null>> {
+  const batch = callUpstream((provider) =>
+    provider.getCharts!(stockIds.map((id) => ATHEX_SYMBOLS[id].yahoo), "5m", "1d"),
+  );
+  counters.batchCalls++;
+
+  const pending = new Map<string, Promise<StockQuote | null>>();
+  for (const id of stockIds) {
+    const promise = batch
+      .then((charts) => {
+        const chart = charts.get(ATHEX_SYMBOLS[id].yahoo);
+        return chart ? storeQuote(id, chart) : null;
+      })
+      .catch((error) => staleQuote(id, error))
+      .finally(() => inflightQuotes.delete(id));
+    inflightQuotes.set(id, promise);
+    pending.set(id, promise);
   }
+  return pending;
+}
+
+// ─── API Functions ──────────────────────────────────────────────────────────
+
+export interface QuoteOptions {
+  /** Skip the cache and fetch from the provider */
+  fresh?: boolean;
+  /**
+   * Fetch cached quotes older than this instead of serving them. Fills use
+   * it so they never price off a stale entry; the quote stream's poller and
+   * the cache warmer use it so a quote one of them just fetched isn't
+   * fetched again by the other
+   */
+  maxAgeMs?: number;
+}
 
-  try {
-    const response = await callDataApi("YahooFinance/get_stock_chart", {
-      query: {
-        symbol: symbolInfo.yahoo,
-        interval: "5m",
-        range: "1d",
-      },
-    }) as any;
-
-    if (!response?.chart?.result?.[0]) return null;
-
-    const result = response.chart.result[0];
-    const meta = result.meta;
-    const quotes = result.indicators?.quote?.[0] || {};
-    const closePrices = (quotes.close || []).filter((p: number | null) => p !== null);
-
-    const price = meta.regularMarketPrice ?? closePrices[closePrices.length - 1] ?? 0;
-    const previousClose = meta.chartPreviousClose ?? meta.previousClose ?? price;
-    const change = price - previousClose;
-    const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-
-    // Build sparkline from intraday close prices (sample every ~6 points for ~14 data points)
-    const step = Math.max(1, Math.floor(closePrices.length / 14));
-    const sparkline = closePrices.filter((_: number, i: number) => i % step === 0 || i === closePrices.length - 1);
-
-    const quote: StockQuote = {
-      id: stockId,
-      ticker: symbolInfo.yahoo.replace(".AT", ""),
-      yahooSymbol: symbolInfo.yahoo,
-      name: meta.longName || meta.shortName || symbolInfo.name,
-      price,
-      previousClose,
-      change,
-      changePercent,
-      dayHigh: meta.regularMarketDayHigh ?? Math.max(...closePrices),
-      dayLow: meta.regularMarketDayLow ?? Math.min(...closePrices),
-      volume: meta.regularMarketVolume ?? 0,
-      fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? 0,
-      fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? 0,
-      marketCap: formatMarketCap(meta.marketCap),
-      currency: meta.currency ?? "EUR",
-      exchange: meta.exchangeName ?? "ATH",
-      category: symbolInfo.category,
-      sparkline,
-      lastUpdated: Date.now(),
-    };
-
-    quoteCache.set(stockId, { data: quote, timestamp: Date.now() });
-    return quote;
-  } catch (error) {
-    console.error(`[StockService] Failed to fetch quote for ${stockId}:`, error);
-    // Return stale cache if available
-    const staleQuote = quoteCache.get(stockId);
-    if (staleQuote) return staleQuote.data;
-    return null;
+/** Whether a cached quote may answer a request with `options` */
+function isUsable(entry: CachedValue<StockQuote>, options: QuoteOptions): boolean {
+  if (options.fresh) return false;
+  return options.maxAgeMs === undefined || Date.now() - entry.value.lastUpdated <= options.maxAgeMs;
+}
+
+/**
+ * Fetch a single stock quote with sparkline data. A stale cached quote is
+ * returned at once and refreshed in the background.
+ */
+export async function getStockQuote(
+  stockId: string,
+  options: QuoteOptions = {},
+): Promise<StockQuote | null> {
+  if (!ATHEX_SYMBOLS[stockId]) return null;
+
+  if (!options.fresh) {
+    const cached = await quoteCache.get(stockId);
+    if (cached && isUsable(cached, options)) {
+      counters.cacheHits++;
+      if (!cached.isFresh) void refreshQuote(stockId);
+      return cached.value;
+    }
   }
+
+  return refreshQuote(stockId);
 }
 
 /**
  * Fetch quotes for multiple stocks in parallel with concurrency limiting.
  * When fetching all stocks, prioritizes blue-chips first for faster initial render.
+ *
+ * Providers with a multi-symbol path get the cold symbols in batches of
+ * QUOTE_BATCH_SIZE; the rest go one call per symbol. Either way, symbols
+ * already in flight are joined rather than fetched again.
  */
-export async function getMultipleQuotes(stockIds?: string[]): Promise<StockQuote[]> {
+export async function getMultipleQuotes(
+  stockIds?: string[],
+  options: QuoteOptions = {},
+): Promise<StockQuote[]> {
   const allIds = stockIds ?? Object.keys(ATHEX_SYMBOLS);
   
   // Sort: blue-chips first, then dividends, then growth — so the most important
@@ -365,7 +563,36 @@ export async function getMultipleQuotes(stockIds?: string[]): Promise<StockQuote
     return (catOrder[catA] ?? 2) - (catOrder[catB] ?? 2);
   });
 
-  const tasks = sortedIds.map((id) => () => getStockQuote(id));
+  const cached = new Map<string, CachedValue<StockQuote>>();
+  const batched = new Map<string, Promise<StockQuote | null>>();
+  if (getMarketDataProvider().getCharts) {
+    const ids = sortedIds.filter((id) => id in ATHEX_SYMBOLS);
+    if (!options.fresh) {
+      const entries = await quoteCache.getMany(ids);
+      ids.forEach((id, i) => {
+        const entry = entries[i];
+        if (entry && isUsable(entry, options)) cached.set(id, entry);
+      });
+    }
+
+    // Stale symbols are served from the cache while their batch runs
+    const cold = ids.filter((id) => !inflightQuotes.has(id) && !cached.get(id)?.isFresh);
+    for (let i = 0; i < cold.length; i += QUOTE_BATCH_SIZE) {
+      for (const [id, promise] of fetchQuoteBatch(cold.slice(i, i + QUOTE_BATCH_SIZE))) {
+        batched.set(id, promise);
+      }
+    }
+  }
+
+  // Everything not cached or batched is already in flight, or goes one by one
+  const tasks = sortedIds.map((id) => async () => {
+    const hit = cached.get(id);
+    if (hit) {
+      counters.cacheHits++;
+      return hit.value;
+    }
+    return batched.get(id) ?? getStockQuote(id, options);
+  });
   const results = await runWithConcurrency(tasks, MAX_CONCURRENT);
 
   return results
@@ -375,7 +602,59 @@ export async function getMultipleQuotes(stockIds?: string[]): Promise<StockQuote
 }
 
 /**
- * Fetch chart data for a specific stock and time range
+ * Fetch and cache chart data for a Yahoo symbol. Stale data is served while
+ * it refreshes in the background, and if the upstream call fails. The
+ * candle interval follows the range unless one is given.
+ */
+async function fetchChart(
+  yahooSymbol: string,
+  cacheKey: string,
+  range: string,
+  interval: ChartInterval = mapIntervalToYahoo(range),
+): Promise<ChartResponse | null> {
+  const yahooRange = mapRangeToYahoo(range);
+  const cache = range === "1D" ? intradayChartCache : chartCache;
+
+  const refresh = () => coalesce(inflightCharts, cacheKey, async () => {
+    try {
+      const chart = await callUpstream((provider) => provider.getChart(yahooSymbol, interval, yahooRange));
+      if (!chart) return null;
+
+      const chartResponse: ChartResponse = {
+        symbol: yahooSymbol,
+        interval,
+        range: yahooRange,
+        data: chart.candles,
+        meta: {
+          currency: chart.currency,
+          exchange: chart.exchange,
+          regularMarketPrice: chart.regularMarketPrice ?? 0,
+        },
+        fetchedAt: Date.now(),
+      };
+
+      upstreamFailures.delete(yahooSymbol);
+      await cache.set(cacheKey, chartResponse);
+      return chartResponse;
+    } catch (error) {
+      console.error(`[StockService] Failed to fetch chart for ${cacheKey}:`, error);
+      recordFailure(yahooSymbol, error);
+      return (await cache.get(cacheKey))?.value ?? null;
+    }
+  });
+
+  const cached = await cache.get(cacheKey);
+  if (cached) {
+    counters.cacheHits++;
+    if (!cached.isFresh) void refresh();
+    return cached.value;
+  }
+  return refresh();
+}
+
+/**
+ * Fetch chart data for a specific stock and time range, with prices before
+ * each corporate action's ex-date adjusted so the series is continuous
  */
 export async function getStockChart(
   stockId: string,
@@ -383,63 +662,115 @@ export async function getStockChart(
 ): Promise<ChartResponse | null> {
   const symbolInfo = ATHEX_SYMBOLS[stockId];
   if (!symbolInfo) return null;
+  const chart = await fetchChart(symbolInfo.yahoo, `${stockId}:${range}`, range);
+  if (!chart) return null;
 
-  const interval = mapIntervalToYahoo(range);
-  const yahooRange = mapRangeToYahoo(range);
-  const cacheKey = `${stockId}:${range}`;
+  const actions = getCorporateActions([stockId]);
+  return actions.length > 0 ? { ...chart, data: adjustPriceHistory(chart.data, actions) } : chart;
+}
+
+/**
+ * A year of daily candles (adjusted like getStockChart), for conditions that
+ * need more daily history than the 3M chart has: the 200-day SMA and
+ * 52-week highs and lows
+ */
+export async function getDailyHistory(stockId: string): Promise<ChartDataPoint[] | null> {
+  const symbolInfo = ATHEX_SYMBOLS[stockId];
+  if (!symbolInfo) return null;
+  const chart = await fetchChart(symbolInfo.yahoo, `${stockId}:1Y:1d`, "1Y", "1d");
+  if (!chart) return null;
+
+  const actions = getCorporateActions([stockId]);
+  return actions.length > 0 ? adjustPriceHistory(chart.data, actions) : chart.data;
+}
+
+/** A longer range with the same candle interval, for indicator warm-up */
+const INDICATOR_WARMUP_RANGES: Record<string, string> = { "1M": "3M" };
+
+/**
+ * Technical indicators over a stock's (adjusted) chart. Where a longer
+ * range has the same candles, its earlier history warms the indicators up
+ * so a 1M chart gets its 50-day SMA from the first day shown.
+ */
+export async function getStockIndicators(
+  stockId: string,
+  range: string = "1M",
+  options: IndicatorOptions = DEFAULT_INDICATOR_OPTIONS,
+): Promise<{ chart: ChartResponse; indicators: IndicatorSet } | null> {
+  const chart = await getStockChart(stockId, range);
+  if (!chart || chart.data.length === 0) return null;
+
+  const warmupRange = INDICATOR_WARMUP_RANGES[range];
+  const history = warmupRange ? await getStockChart(stockId, warmupRange) : null;
+  const first = chart.data[0].timestamp;
+  const candles = [...(history?.data.filter((c) => c.timestamp < first) ?? []), ...chart.data];
+
+  return { chart, indicators: computeIndicators(candles, options, first) };
+}
+
+/**
+ * Fetch chart data for a benchmark index and time range
+ */
+export async function getIndexChart(
+  indexId: IndexId,
+  range: string = "1M",
+): Promise<ChartResponse | null> {
+  const symbol = INDEX_SYMBOLS[indexId];
+  if (!symbol) return null;
+  return fetchChart(symbol, `index:${indexId}:${range}`, range);
+}
+
+// ─── Freshness ──────────────────────────────────────────────────────────────
+
+/** In session, data older than this many cache TTLs is overdue */
+const OVERDUE_AFTER_TTLS = 2;
+
+/**
+ * Describe data for `items` (Yahoo symbol and fetch time, null when the
+ * response has nothing for the symbol). Values fetched before their
+ * symbol's latest failure are being served stale; with no values at all,
+ * any failure explains the gap.
+ */
+function describeFreshness(items: { symbol: string; fetchedAt: number | null }[], ttlMs: number): DataFreshness {
+  const now = Date.now();
+  const provider = getMarketDataProvider();
+  const served = items.filter((i): i is { symbol: string; fetchedAt: number } => i.fetchedAt !== null);
+  const asOf = served.length > 0 ? Math.min(...served.map((i) => i.fetchedAt)) : null;
+
+  const failures = (served.length > 0 ? served : items)
+    .map((i) => ({ failure: upstreamFailures.get(i.symbol), fetchedAt: i.fetchedAt ?? 0 }))
+    .filter(({ failure, fetchedAt }) => failure && failure.at >= fetchedAt)
+    .map(({ failure }) => failure!);
+  const latestFailure = failures.sort((a, b) => b.at - a.at)[0] ?? null;
+  const isOverdue = asOf !== null && getMarketStatus().isOpen && now - asOf > ttlMs * OVERDUE_AFTER_TTLS;
+
+  return {
+    source: provider.simulated ? "mock" : latestFailure || isOverdue ? "stale" : "live",
+    asOf,
+    ageMs: asOf !== null ? now - asOf : null,
+    provider: provider.name,
+    error: latestFailure?.message ?? null,
+  };
+}
 
-  // Check cache
+/** Freshness of quotes returned for `stockIds` (all stocks when omitted) */
+export function getQuoteFreshness(quotes: StockQuote[], stockIds?: string[]): DataFreshness {
+  const byId = new Map(quotes.map((q) => [q.id, q]));
+  const items = (stockIds ?? Object.keys(ATHEX_SYMBOLS))
+    .filter((id) => id in ATHEX_SYMBOLS)
+    .map((id) => ({ symbol: ATHEX_SYMBOLS[id].yahoo, fetchedAt: byId.get(id)?.lastUpdated ?? null }));
+  return describeFreshness(items, QUOTE_CACHE_TTL);
+}
+
+/** Freshness of a chart for Yahoo `symbol` (null when none was returned) */
+export function getChartFreshness(symbol: string, chart: ChartResponse | null, range: string): DataFreshness {
   const ttl = range === "1D" ? CHART_CACHE_TTL_1D : CHART_CACHE_TTL_OTHER;
-  const cached = chartCache.get(cacheKey);
-  if (isCacheValid(cached, ttl)) {
-    return cached.data;
-  }
+  return describeFreshness([{ symbol, fetchedAt: chart?.fetchedAt ?? null }], ttl);
+}
 
-  try {
-    const response = await callDataApi("YahooFinance/get_stock_chart", {
-      query: {
-        symbol: symbolInfo.yahoo,
-        interval,
-        range: yahooRange,
-      },
-    }) as any;
-
-    if (!response?.chart?.result?.[0]) return null;
-
-    const result = response.chart.result[0];
-    const meta = result.meta;
-    const timestamps = result.timestamp || [];
-    const quotes = result.indicators?.quote?.[0] || {};
-
-    const data: ChartDataPoint[] = timestamps.map((ts: number, i: number) => ({
-      timestamp: ts,
-      open: quotes.open?.[i] ?? 0,
-      high: quotes.high?.[i] ?? 0,
-      low: quotes.low?.[i] ?? 0,
-      close: quotes.close?.[i] ?? 0,
-      volume: quotes.volume?.[i] ?? 0,
-    })).filter((d: ChartDataPoint) => d.close > 0);
-
-    const chartResponse: ChartResponse = {
-      symbol: symbolInfo.yahoo,
-      interval,
-      range: yahooRange,
-      data,
-      meta: {
-        currency: meta.currency ?? "EUR",
-        exchange: meta.exchangeName ?? "ATH",
-        regularMarketPrice: meta.regularMarketPrice ?? 0,
-      },
-    };
-
-    chartCache.set(cacheKey, { data: chartResponse, timestamp: Date.now() });
-    return chartResponse;
-  } catch (error) {
-    console.error(`[StockService] Failed to fetch chart for ${stockId}:`, error);
-    const staleChart = chartCache.get(cacheKey);
-    if (staleChart) return staleChart.data;
-    return null;
-  }
+/** Freshness for responses without market data (stock list, cache refresh) */
+export function getProviderFreshness(): DataFreshness {
+  return describeFreshness([], QUOTE_CACHE_TTL);
 }
 
 /**
@@ -459,7 +790,60 @@ export function getStockCount(): number {
 /**
  * Clear all caches (useful for testing or forced refresh)
  */
-export function clearCache(): void {
-  quoteCache.clear();
-  chartCache.clear();
+export async function clearCache(): Promise<void> {
+  await Promise.all([quoteCache.clear(), intradayChartCache.clear(), chartCache.clear()]);
+}
+
+// ─── Cache Warmer ───────────────────────────────────────────────────────────
+
+/** Refresh blue chips inside QUOTE_CACHE_TTL so they never go cold in a session */
+const WARM_INTERVAL_MS = 45_000;
+
+/** Closed-market refresh; prices only move on late prints and corrections */
+const CLOSED_WARM_INTERVAL_MS = 5 * 60_000;
+
+/** Timer for the next warm-up */
+let warmTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Blue chips fetched more recently than this will still be fresh at the next warm-up */
+const WARM_MAX_AGE_MS = QUOTE_CACHE_TTL - WARM_INTERVAL_MS;
+
+/**
+ * Fetch blue-chip quotes into the cache, skipping those fetched in the last
+ * few seconds (e.g. by the quote stream). Returns how many came back.
+ */
+export async function warmQuoteCache(): Promise<number> {
+  const blueChips = Object.keys(ATHEX_SYMBOLS).filter((id) => ATHEX_SYMBOLS[id].category === "blue-chip");
+  const quotes = await getMultipleQuotes(blueChips, { maxAgeMs: WARM_MAX_AGE_MS });
+  return quotes.length;
+}
+
+function scheduleNextWarm(delay: number): void {
+  warmTimer = setTimeout(() => {
+    warmQuoteCache()
+      .catch((err) => console.warn("[StockService] Cache warm failed:", err))
+      .finally(() => {
+        if (warmTimer !== null) {
+          scheduleNextWarm(getMarketStatus().isOpen ? WARM_INTERVAL_MS : CLOSED_WARM_INTERVAL_MS);
+        }
+      });
+  }, delay);
+}
+
+/** Start refreshing blue-chip quotes in the background */
+export function startQuoteWarmer(): void {
+  if (warmTimer) return;
+  console.log(`[StockService] Warming blue-chip quotes every ${WARM_INTERVAL_MS / 1000}s in session`);
+  scheduleNextWarm(0);
+}
+
+export function stopQuoteWarmer(): void {
+  if (warmTimer) {
+    clearTimeout(warmTimer);
+    warmTimer = null;
+  }
+}
+
+export function isQuoteWarmerRunning(): boolean {
+  return warmTimer !== null;
 }
@@ -0,0 +1,54 @@
+/**
+ * AGRX Trade Router
+ *
+ * tRPC router for server-authoritative demo trading.
+ * Requires a signed-in user so fills are recorded against their stored portfolio.
+ * Outside ATHEX continuous trading, trades are queued as market orders for the
+ * next open instead of filling.
+ */
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { getMarketStatus } from "./marketCalendar";
+import { queueMarketOrder } from "./orderService";
+import { executeTrade, TradeRejectedError } from "./tradeService";
+
+// ─── Input Schemas ──────────────────────────────────────────────────────────
+
+const executeTradeSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    stockId: z.string().min(1),
+    type: z.enum(["buy", "sell"]),
+    amount: z.number().positive().optional(),
+    shares: z.number().positive().optional(),
+  })
+  .refine((input) => (input.amount === undefined) !== (input.shares === undefined), {
+    message: "Provide either an amount or a share count",
+  });
+
+// ─── Router ─────────────────────────────────────────────────────────────────
+
+export const tradeRouter = router({
+  /**
+   * Execute a market trade at the server's current quote, or queue it for
+   * the next open while the market is closed
+   */
+  execute: protectedProcedure.input(executeTradeSchema).mutation(async ({ ctx, input }) => {
+    try {
+      const market = getMarketStatus();
+      if (!market.isOpen) {
+        const order = await queueMarketOrder(ctx.user.id, input);
+        return { success: true as const, data: { queued: true as const, order, market } };
+      }
+
+      const execution = await executeTrade(ctx.user.id, input);
+      return { success: true as const, data: { queued: false as const, ...execution } };
+    } catch (error) {
+      if (error instanceof TradeRejectedError) {
+        return { success: false as const, error: error.message };
+      }
+      console.error(`[TradeRouter] Failed to execute trade for user ${ctx.user.id}:`, error);
+      return { success: false as const, error: "Trade failed. Please try again." };
+    }
+  }),
+});
@@ -0,0 +1,208 @@
+/**
+ * AGRX Trade Service
+ *
+ * Server-authoritative execution for demo trades. The client only says what
+ * it wants to trade; the fill price always comes from the server's own quote
+ * via stockService, and balance/share checks run against the stored portfolio.
+ * Every fill path reads quotes through FILL_QUOTE_OPTIONS, so a cached quote
+ * older than the quote cache TTL is refetched rather than filled against.
+ * Fills pay the spread, broker commission, clearing fee and (on sells)
+ * transaction tax from the shared cost model in shared/tradingCosts.
+ *
+ * Accounts in whole-share mode (the default, as on ATHEX) only ever trade
+ * whole shares: share-count requests must be integers, and euro amounts are
+ * sized down to whole shares with the remainder left in cash.
+ *
+ * Due corporate actions are applied before a fill is sized, so a trade after
+ * a split's ex-date never sells or values unadjusted shares.
+ */
+import { formatShares, getLiquidityTier, sizeTrade } from "../shared/tradingCosts";
+import { adjustSnapshot } from "./corporateActionService";
+import { getStockQuote, QUOTE_CACHE_TTL, type QuoteOptions, type StockQuote } from "./stockService";
+import {
+  applyTrade,
+  updatePortfolio,
+  type PortfolioSnapshot,
+  type SnapshotTrade,
+} from "./portfolioService";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** A trade the client wants to place — note: no price */
+export interface TradeRequest {
+  /** Client-generated ID, used to make retries idempotent */
+  id: string;
+  stockId: string;
+  type: "buy" | "sell";
+  /** Euro amount to buy or sell (ignored when `shares` is set) */
+  amount?: number;
+  /** Exact share count to buy or sell */
+  shares?: number;
+}
+
+export interface TradeExecution {
+  trade: SnapshotTrade;
+  snapshot: PortfolioSnapshot;
+  version: number;
+  /** Cash from the requested amount not spent because only whole shares trade */
+  leftover: number;
+}
+
+/**
+ * Thrown when a trade is refused for a reason the user can act on
+ * (insufficient balance, no price, ...). The message is shown as-is.
+ */
+export class TradeRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TradeRejectedError";
+  }
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Refuse to fill against a quote older than this (one quote cache TTL) */
+const MAX_QUOTE_AGE_MS = QUOTE_CACHE_TTL;
+
+/** How fill paths read quotes: cached quotes past MAX_QUOTE_AGE_MS are refetched */
+export const FILL_QUOTE_OPTIONS: QuoteOptions = { maxAgeMs: MAX_QUOTE_AGE_MS };
+
+/** Smallest trade the demo accepts, in euros */
+const MIN_TRADE_AMOUNT = 1;
+
+/** XP awarded per executed trade */
+const TRADE_XP = 15;
+
+// ─── Execution ──────────────────────────────────────────────────────────────
+
+/** Whether a quote is recent enough to fill against */
+export function isQuoteFresh(quote: StockQuote): boolean {
+  return quote.price > 0 && Date.now() - quote.lastUpdated <= MAX_QUOTE_AGE_MS;
+}
+
+/**
+ * The quote to fill `stockId` against. A cached quote older than
+ * MAX_QUOTE_AGE_MS is refetched first; if that fails the stale quote comes
+ * back and isQuoteFresh refuses it.
+ */
+export function getFillQuote(stockId: string): Promise<StockQuote | null> {
+  return getStockQuote(stockId, FILL_QUOTE_OPTIONS);
+}
+
+/**
+ * Execute a market trade for a user at the current server-side quote.
+ * Retrying with the same trade ID returns the original fill.
+ */
+export async function executeTrade(userId: number, request: TradeRequest): Promise<TradeExecution> {
+  if (request.shares === undefined) assertMinimumAmount(request.amount ?? 0);
+
+  const quote = await getFillQuote(request.stockId);
+  if (!quote || quote.price <= 0) {
+    throw new TradeRejectedError("No price available for this stock right now");
+  }
+  if (!isQuoteFresh(quote)) {
+    throw new TradeRejectedError("Price data is out of date. Please try again shortly.");
+  }
+
+  return fillTrade(userId, request, quote);
+}
+
+export function assertMinimumAmount(amount: number): void {
+  if (amount < MIN_TRADE_AMOUNT) {
+    throw new TradeRejectedError(`Minimum trade amount is €${MIN_TRADE_AMOUNT.toFixed(2)}`);
+  }
+}
+
+/**
+ * The trade already recorded under `id`. With `replay` a retried request gets
+ * its original fill back; without it the ID is refused, since a fill that
+ * can't be retried (a resting order's) sharing an ID means a different trade.
+ */
+export function findPreviousFill(
+  trades: SnapshotTrade[],
+  id: string,
+  replay: boolean,
+): SnapshotTrade | null {
+  const previous = trades.find((t) => t.id === id);
+  if (previous && !replay) {
+    throw new TradeRejectedError(`Trade ID ${id} is already in use`);
+  }
+  return previous ?? null;
+}
+
+/**
+ * Record a fill at the given quote against the stored portfolio, using the
+ * portfolio's broker schedule and share mode. Shared by market trades and the
+ * resting-order matcher in orderService, which passes `replay: false` (see
+ * findPreviousFill).
+ */
+export async function fillTrade(
+  userId: number,
+  request: TradeRequest,
+  quote: StockQuote,
+  { replay = true }: { replay?: boolean } = {},
+): Promise<TradeExecution> {
+  const updated = await updatePortfolio(userId, (stored) => {
+    const previous = findPreviousFill(stored.trades, request.id, replay);
+    if (previous) return { snapshot: stored, result: { trade: previous, leftover: 0 } };
+
+    const { snapshot } = adjustSnapshot(stored);
+
+    const sized = sizeTrade({
+      side: request.type,
+      amount: request.amount,
+      shares: request.shares,
+      midPrice: quote.price,
+      tier: getLiquidityTier(quote.category),
+      broker: snapshot.broker,
+      shareMode: snapshot.shareMode,
+      ownedShares: snapshot.holdings[request.stockId]?.shares ?? 0,
+      ticker: quote.ticker,
+    });
+    if (!sized.success) throw new TradeRejectedError(sized.error);
+    const { fill, leftover } = sized;
+
+    const trade: SnapshotTrade = {
+      id: request.id,
+      stockId: request.stockId,
+      ticker: quote.ticker,
+      name: quote.name,
+      type: request.type,
+      amount: fill.netAmount,
+      shares: fill.shares,
+      price: fill.price,
+      fees: fill.commission + fill.clearingFee,
+      tax: fill.transactionTax,
+      timestamp: Date.now(),
+      verified: true,
+    };
+
+    const next = applyTrade(snapshot, trade);
+    if (!next) {
+      if (request.type === "buy") {
+        throw new TradeRejectedError(
+          `Insufficient balance. You have €${snapshot.balance.toFixed(2)} but need €${trade.amount.toFixed(2)}`,
+        );
+      }
+      const owned = snapshot.holdings[request.stockId]?.shares ?? 0;
+      throw new TradeRejectedError(
+        `Insufficient shares. You own ${formatShares(owned)} shares of ${quote.ticker} but tried to sell ${formatShares(trade.shares)}`,
+      );
+    }
+
+    // applyTrade books the realized P&L onto the recorded trade
+    const recorded = next.trades[next.trades.length - 1];
+    return { snapshot: { ...next, xp: next.xp + TRADE_XP }, result: { trade: recorded, leftover } };
+  });
+
+  if (!updated) {
+    throw new TradeRejectedError("Your portfolio hasn't synced yet. Please try again in a moment.");
+  }
+
+  return {
+    trade: updated.result.trade,
+    snapshot: updated.snapshot,
+    version: updated.version,
+    leftover: updated.result.leftover,
+  };
+}
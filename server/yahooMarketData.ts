@@ -0,0 +1,120 @@
+/**
+ * AGRX Yahoo Market Data Provider
+ *
+ * Yahoo Finance chart data through the built-in data API
+ * (YahooFinance/get_stock_chart), normalised to a MarketChart.
+ *
+ * Several symbols go in one call as comparisons next to a lead symbol. Only
+ * the lead comes back with full quote metadata; comparisons carry candles
+ * and the previous close but no volume, 52-week range or market cap, so
+ * those are left null (stockService keeps the last values it saw) and the
+ * lead rotates through a batch's symbols, least recently led first.
+ */
+import { callDataApi } from "./_core/dataApi";
+import type { ChartDataPoint, ChartInterval, ChartRange, MarketChart, MarketDataProvider } from "./marketData";
+
+export interface YahooProviderOptions {
+  /** Data API client (tests pass a fake) */
+  callApi?: typeof callDataApi;
+}
+
+function toCandles(timestamps: number[], quotes: any): ChartDataPoint[] {
+  return timestamps
+    .map((ts, i) => ({
+      timestamp: ts,
+      open: quotes.open?.[i] ?? 0,
+      high: quotes.high?.[i] ?? 0,
+      low: quotes.low?.[i] ?? 0,
+      close: quotes.close?.[i] ?? 0,
+      volume: quotes.volume?.[i] ?? 0,
+    }))
+    .filter((d) => d.close > 0);
+}
+
+/**
+ * Charts from one get_stock_chart response: the lead symbol (the first of
+ * `symbols`) with its quote metadata, then each requested comparison with
+ * candles only. Symbols Yahoo had nothing for are left out.
+ */
+export function parseYahooCharts(
+  response: any,
+  symbols: string[],
+  interval: ChartInterval,
+  range: ChartRange,
+): Map<string, MarketChart> {
+  const charts = new Map<string, MarketChart>();
+  const result = response?.chart?.result?.[0];
+  if (!result) return charts;
+
+  const meta = result.meta ?? {};
+  const timestamps: number[] = result.timestamp || [];
+  const [lead] = symbols;
+  const base = { interval, range, currency: meta.currency ?? "EUR", exchange: meta.exchangeName ?? "ATH" };
+
+  charts.set(lead, {
+    ...base,
+    symbol: lead,
+    candles: toCandles(timestamps, result.indicators?.quote?.[0] || {}),
+    name: meta.longName || meta.shortName || null,
+    regularMarketPrice: meta.regularMarketPrice ?? null,
+    previousClose: meta.chartPreviousClose ?? meta.previousClose ?? null,
+    dayHigh: meta.regularMarketDayHigh ?? null,
+    dayLow: meta.regularMarketDayLow ?? null,
+    volume: meta.regularMarketVolume ?? null,
+    fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh ?? null,
+    fiftyTwoWeekLow: meta.fiftyTwoWeekLow ?? null,
+    marketCap: meta.marketCap ?? null,
+  });
+
+  for (const comparison of result.comparisons ?? []) {
+    if (!symbols.includes(comparison.symbol) || comparison.symbol === lead) continue;
+    const candles = toCandles(timestamps, comparison);
+    if (candles.length === 0) continue;
+    const intraday = range === "1d";
+    charts.set(comparison.symbol, {
+      ...base,
+      symbol: comparison.symbol,
+      candles,
+      name: null,
+      regularMarketPrice: candles[candles.length - 1].close,
+      previousClose: comparison.chartPreviousClose ?? null,
+      dayHigh: intraday ? Math.max(...candles.map((c) => c.high || c.close)) : null,
+      dayLow: intraday ? Math.min(...candles.map((c) => c.low || c.close)) : null,
+      volume: null,
+      fiftyTwoWeekHigh: null,
+      fiftyTwoWeekLow: null,
+      marketCap: null,
+    });
+  }
+  return charts;
+}
+
+export function createYahooProvider(options: YahooProviderOptions = {}): MarketDataProvider {
+  const callApi = options.callApi ?? callDataApi;
+  /** symbol -> when it last led a batch */
+  const lastLed = new Map<string, number>();
+  let batches = 0;
+
+  return {
+    name: "yahoo",
+
+    async getChart(symbol, interval, range) {
+      const response = await callApi("YahooFinance/get_stock_chart", {
+        query: { symbol, interval, range },
+      });
+      return parseYahooCharts(response, [symbol], interval, range).get(symbol) ?? null;
+    },
+
+    async getCharts(symbols, interval, range) {
+      if (symbols.length === 0) return new Map();
+      const lead = symbols.reduce((best, s) => ((lastLed.get(s) ?? -1) < (lastLed.get(best) ?? -1) ? s : best));
+      lastLed.set(lead, batches++);
+
+      const comparisons = symbols.filter((s) => s !== lead);
+      const response = await callApi("YahooFinance/get_stock_chart", {
+        query: { symbol: lead, interval, range, comparisons: comparisons.join(",") },
+      });
+      return parseYahooCharts(response, [lead, ...comparisons], interval, range);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * AGRX Alert Delivery Channels
+ *
+ * Where an alert or rule is delivered when it fires, chosen per alert:
+ * - "push": Expo push to every device the owner is signed in on
+ * - "email": to the address in the owner's delivery settings
+ * - "webhook": a signed JSON POST to the owner's webhook URL, for piping
+ *   alerts into chat bots (see server/alertDelivery for the format)
+ *
+ * Email and webhooks are set up per signed-in user; anonymous devices get
+ * push only.
+ */
+
+export const ALERT_CHANNELS = ["push", "email", "webhook"] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+/** Channels of alerts created before there was a choice */
+export const DEFAULT_ALERT_CHANNELS: readonly AlertChannel[] = ["push"];
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  push: "Push",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+/** Outcome of one delivery, after any retries */
+export type DeliveryStatus = "sent" | "failed";
+
+/** An alert's channels in ALERT_CHANNELS order, without repeats; the default when none are set */
+export function resolveAlertChannels(channels: readonly AlertChannel[] | null | undefined): AlertChannel[] {
+  const chosen = ALERT_CHANNELS.filter((channel) => channels?.includes(channel));
+  return chosen.length > 0 ? chosen : [...DEFAULT_ALERT_CHANNELS];
+}
@@ -0,0 +1,174 @@
+/**
+ * AGRX Alert Rules
+ *
+ * Compound alerts: conditions combined with AND ("all") or OR ("any"),
+ * evaluated by priceAlertService on every price check and described on the
+ * client when listing or building a rule.
+ *
+ * - Stock conditions are the single-alert conditions (price targets, moves,
+ *   moving-average crosses, volume spikes, 52-week highs/lows, gaps), each
+ *   on its own stock, so one rule can watch several stocks
+ * - Portfolio conditions watch the owner's demo portfolio: the whole
+ *   portfolio's move today, or any holding's distance from its cost
+ * - Groups nest, so "ETE below €14 AND (volume spike OR portfolio down 3%)"
+ *   works
+ * - A condition without the data it needs (no quote, no portfolio) fails
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * What a stock condition watches for, and what its threshold means:
+ * - "above" / "below": price crosses a target price (€)
+ * - "percent_change": price moves this % from the previous close, either way
+ * - "percent_from_reference": price moves this % from `referencePrice`
+ * - "sma_cross_above" / "sma_cross_below": price crosses its N-day SMA
+ *   (threshold is N, one of SMA_PERIODS)
+ * - "volume_spike": session volume reaches this multiple of the average
+ *   daily volume
+ * - "high_52w" / "low_52w": a new 52-week high or low (no threshold)
+ * - "gap_up" / "gap_down": the session opens at least this % beyond the
+ *   previous close
+ */
+export const ALERT_CONDITION_TYPES = [
+  "above",
+  "below",
+  "percent_change",
+  "percent_from_reference",
+  "sma_cross_above",
+  "sma_cross_below",
+  "volume_spike",
+  "high_52w",
+  "low_52w",
+  "gap_up",
+  "gap_down",
+] as const;
+export type AlertConditionType = (typeof ALERT_CONDITION_TYPES)[number];
+
+/** Moving averages a condition can watch */
+export const SMA_PERIODS = [50, 200] as const;
+
+export interface StockCondition {
+  kind: "stock";
+  stockId: string;
+  stockName: string;
+  type: AlertConditionType;
+  threshold: number;
+  /** percent_from_reference only */
+  referencePrice?: number | null;
+}
+
+/**
+ * Portfolio metrics, in percent:
+ * - "dayChange": the portfolio's value (cash + holdings) vs. the previous
+ *   close, at today's holdings
+ * - "holdingFromCost": a holding's price vs. its average cost; the condition
+ *   holds when any holding meets it
+ */
+export const PORTFOLIO_METRICS = ["dayChange", "holdingFromCost"] as const;
+export type PortfolioMetric = (typeof PORTFOLIO_METRICS)[number];
+
+export interface PortfolioCondition {
+  kind: "portfolio";
+  metric: PortfolioMetric;
+  op: "gte" | "lte";
+  value: number;
+}
+
+export type AlertRuleCondition = StockCondition | PortfolioCondition;
+
+export interface AlertRuleGroup {
+  match: "all" | "any";
+  conditions: (AlertRuleCondition | AlertRuleGroup)[];
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Nesting limit for groups, so rules stay readable in a notification */
+export const MAX_RULE_DEPTH = 2;
+
+/** Conditions in one rule, across all of its groups */
+export const MAX_RULE_CONDITIONS = 10;
+
+export const PORTFOLIO_METRIC_LABELS: Record<PortfolioMetric, string> = {
+  dayChange: "Portfolio today",
+  holdingFromCost: "Any holding vs. cost",
+};
+
+// ─── Structure ──────────────────────────────────────────────────────────────
+
+export function isAlertRuleGroup(entry: AlertRuleCondition | AlertRuleGroup): entry is AlertRuleGroup {
+  return "match" in entry;
+}
+
+export function ruleDepth(group: AlertRuleGroup): number {
+  const nested = group.conditions.filter(isAlertRuleGroup).map(ruleDepth);
+  return 1 + (nested.length > 0 ? Math.max(...nested) : 0);
+}
+
+/** Every condition in a rule, flattened */
+export function ruleConditions(group: AlertRuleGroup): AlertRuleCondition[] {
+  return group.conditions.flatMap((entry) => (isAlertRuleGroup(entry) ? ruleConditions(entry) : [entry]));
+}
+
+/**
+ * Whether a rule holds, given a test for single conditions. An empty group
+ * never holds: a rule with nothing to watch shouldn't fire.
+ */
+export function matchesAlertRule(
+  group: AlertRuleGroup,
+  test: (condition: AlertRuleCondition) => boolean,
+): boolean {
+  if (group.conditions.length === 0) return false;
+  const check = (entry: AlertRuleCondition | AlertRuleGroup) =>
+    isAlertRuleGroup(entry) ? matchesAlertRule(entry, test) : test(entry);
+  return group.match === "all" ? group.conditions.every(check) : group.conditions.some(check);
+}
+
+// ─── Description ────────────────────────────────────────────────────────────
+
+function formatPercent(value: number): string {
+  return `${value > 0 ? "+" : ""}${+value.toFixed(2)}%`;
+}
+
+/** Short label for a condition, e.g. "ETE below €14.00" or "Portfolio today ≤ -3%" */
+export function describeRuleCondition(condition: AlertRuleCondition): string {
+  if (condition.kind === "portfolio") {
+    const op = condition.op === "gte" ? "≥" : "≤";
+    return `${PORTFOLIO_METRIC_LABELS[condition.metric]} ${op} ${formatPercent(condition.value)}`;
+  }
+
+  const { stockName: name, threshold } = condition;
+  switch (condition.type) {
+    case "above":
+      return `${name} above €${threshold.toFixed(2)}`;
+    case "below":
+      return `${name} below €${threshold.toFixed(2)}`;
+    case "percent_change":
+      return `${name} moves ±${+threshold.toFixed(2)}% on the day`;
+    case "percent_from_reference":
+      return `${name} moves ±${+threshold.toFixed(2)}% from €${(condition.referencePrice ?? 0).toFixed(2)}`;
+    case "sma_cross_above":
+      return `${name} crosses above its ${threshold}-day average`;
+    case "sma_cross_below":
+      return `${name} crosses below its ${threshold}-day average`;
+    case "volume_spike":
+      return `${name} volume ≥ ${+threshold.toFixed(2)}× average`;
+    case "high_52w":
+      return `${name} at a 52-week high`;
+    case "low_52w":
+      return `${name} at a 52-week low`;
+    case "gap_up":
+      return `${name} gaps up ≥ ${+threshold.toFixed(2)}%`;
+    case "gap_down":
+      return `${name} gaps down ≥ ${+threshold.toFixed(2)}%`;
+  }
+}
+
+/** Every condition in a rule, joined with AND/OR, for display */
+export function describeAlertRule(group: AlertRuleGroup): string {
+  const parts = group.conditions.map((entry) =>
+    isAlertRuleGroup(entry) ? `(${describeAlertRule(entry)})` : describeRuleCondition(entry),
+  );
+  return parts.join(group.match === "all" ? " AND " : " OR ");
+}
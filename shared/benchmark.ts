@@ -0,0 +1,153 @@
+/**
+ * AGRX Benchmark Comparison
+ *
+ * Pure maths for comparing a portfolio's value history against an index
+ * chart, run over `portfolio.getHistory` and `stocks.getIndexChart`.
+ *
+ * - Both series are rebased to 100 at the start of the range
+ * - The portfolio line grows by time-weighted returns, so deposits and
+ *   resets do not show up as performance
+ * - Beta: covariance of period returns over the benchmark's variance
+ * - Alpha: portfolio return − beta × benchmark return (no risk-free rate)
+ * - Tracking difference: portfolio return − benchmark return
+ */
+
+// ─── Indices ────────────────────────────────────────────────────────────────
+
+export const INDEX_IDS = ["gd", "ftse"] as const;
+export type IndexId = (typeof INDEX_IDS)[number];
+
+export const INDEX_NAMES: Record<IndexId, string> = {
+  gd: "ATHEX Composite",
+  ftse: "FTSE/ATHEX Large Cap",
+};
+
+export const DEFAULT_BENCHMARK: IndexId = "gd";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** A portfolio value with the net deposits since the previous point */
+export interface PerformancePoint {
+  /** Epoch milliseconds */
+  timestamp: number;
+  value: number;
+  flow: number;
+}
+
+/** An index close, as returned by the chart endpoints */
+export interface BenchmarkCandle {
+  /** Epoch seconds */
+  timestamp: number;
+  close: number;
+}
+
+export interface BenchmarkComparison {
+  /** Portfolio growth rebased to 100, one value per portfolio point */
+  portfolio: number[];
+  /** Benchmark rebased to 100, aligned to the portfolio points */
+  benchmark: number[];
+  /** Returns over the range, in percent */
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  /** Portfolio return minus benchmark return, in percentage points */
+  trackingDifference: number;
+  /** Sensitivity to the benchmark (null with too few points or a flat benchmark) */
+  beta: number | null;
+  /** Return not explained by beta, in percentage points (null without beta) */
+  alpha: number | null;
+}
+
+// ─── Series ─────────────────────────────────────────────────────────────────
+
+/**
+ * Portfolio growth of 100 along the points. Each point's flow is added to
+ * the previous value before its return is measured; periods that start
+ * from nothing are flat.
+ */
+export function growthIndex(points: PerformancePoint[]): number[] {
+  const index: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (i === 0) {
+      index.push(100);
+      continue;
+    }
+    const base = points[i - 1].value + points[i].flow;
+    const growth = base > 0 ? points[i].value / base : 1;
+    index.push(index[i - 1] * growth);
+  }
+  return index;
+}
+
+/**
+ * Benchmark close at each timestamp (epoch ms): the last close at or before
+ * it, or the first close for times before the chart starts.
+ */
+export function alignBenchmark(timestamps: number[], candles: BenchmarkCandle[]): number[] {
+  const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+  const aligned: number[] = [];
+  let j = 0;
+  for (const ts of timestamps) {
+    while (j + 1 < sorted.length && sorted[j + 1].timestamp * 1000 <= ts) j++;
+    aligned.push(sorted[j].close);
+  }
+  return aligned;
+}
+
+/** Simple returns between consecutive values */
+export function periodReturns(series: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    returns.push(series[i - 1] > 0 ? series[i] / series[i - 1] - 1 : 0);
+  }
+  return returns;
+}
+
+// ─── Statistics ─────────────────────────────────────────────────────────────
+
+/** Beta of the portfolio returns against the benchmark returns */
+export function calculateBeta(portfolioReturns: number[], benchmarkReturns: number[]): number | null {
+  const n = Math.min(portfolioReturns.length, benchmarkReturns.length);
+  if (n < 2) return null;
+
+  const meanP = portfolioReturns.slice(0, n).reduce((sum, r) => sum + r, 0) / n;
+  const meanB = benchmarkReturns.slice(0, n).reduce((sum, r) => sum + r, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (portfolioReturns[i] - meanP) * (benchmarkReturns[i] - meanB);
+    variance += (benchmarkReturns[i] - meanB) ** 2;
+  }
+  if (variance === 0) return null;
+  return covariance / variance;
+}
+
+/**
+ * Compare a portfolio history against a benchmark chart over the same range.
+ * Returns null if either side has nothing to compare.
+ */
+export function compareToBenchmark(
+  points: PerformancePoint[],
+  candles: BenchmarkCandle[],
+): BenchmarkComparison | null {
+  if (points.length < 2 || candles.length === 0) return null;
+
+  const closes = alignBenchmark(points.map((p) => p.timestamp), candles);
+  if (closes[0] <= 0) return null;
+
+  const portfolio = growthIndex(points);
+  const benchmark = closes.map((c) => (c / closes[0]) * 100);
+
+  const portfolioReturn = portfolio[portfolio.length - 1] - 100;
+  const benchmarkReturn = benchmark[benchmark.length - 1] - 100;
+  const beta = calculateBeta(periodReturns(portfolio), periodReturns(benchmark));
+
+  return {
+    portfolio,
+    benchmark,
+    portfolioReturn,
+    benchmarkReturn,
+    trackingDifference: portfolioReturn - benchmarkReturn,
+    beta,
+    alpha: beta !== null ? portfolioReturn - beta * benchmarkReturn : null,
+  };
+}
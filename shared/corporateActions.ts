@@ -0,0 +1,316 @@
+/**
+ * AGRX Corporate Actions
+ *
+ * Pure corporate-action model shared by the server (stored portfolios, chart
+ * history) and the client (signed-out local accounts) so both adjust the
+ * same way.
+ *
+ * - Splits and reverse splits multiply the shares of every lot opened before
+ *   the ex-date; cost is unchanged, so the average cost moves inversely.
+ *   Whole-share accounts are paid cash in lieu of a fractional entitlement
+ * - Rights issues are not taken up: the rights are sold at their theoretical
+ *   value, the cash is credited and the cost of the old lots drops by the same
+ *   amount
+ * - Share capital returns pay cash per share and lower the cost of the old
+ *   lots by the same amount
+ * - Prices before the ex-date are multiplied by the action's price factor so
+ *   charts stay continuous across it
+ * - Each action is applied at most once per account, and only if its ex-date
+ *   falls after the account opened — a new or reset account is never adjusted
+ */
+import { disposeLots, getLots, type CostBasisMethod, type LotPosition, type TaxLot } from "./costBasis";
+import type { ShareMode } from "./tradingCosts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type CorporateActionType = "split" | "reverse_split" | "rights_issue" | "capital_return";
+
+/** An announced corporate action for one stock */
+export interface CorporateAction {
+  /** `${stockId}:${exDate}:${type}` */
+  id: string;
+  stockId: string;
+  type: CorporateActionType;
+  /** Athens calendar date, YYYY-MM-DD */
+  exDate: string;
+  /** Start of the ex-date in Athens (epoch ms) */
+  exTimestamp: number;
+  /**
+   * Splits: new shares per old share (2 = 2-for-1, 0.1 = 1-for-10).
+   * Rights issues: new shares offered per share held.
+   */
+  ratio: number;
+  /** Rights issues: price per new share, in euros */
+  subscriptionPrice: number | null;
+  /** Capital returns: cash per share, in euros */
+  cashPerShare: number | null;
+  /** Last close before the ex-date, in euros */
+  referencePrice: number;
+}
+
+/** An action applied to an account's holding */
+export interface CorporateAdjustment {
+  /** The CorporateAction id */
+  id: string;
+  stockId: string;
+  type: CorporateActionType;
+  exDate: string;
+  sharesBefore: number;
+  sharesAfter: number;
+  /** Cash credited: cash in lieu, rights proceeds or capital returned */
+  cashAmount: number;
+  appliedAt: number;
+}
+
+/** The parts of an account adjustment reads and writes */
+export interface CorporateActionAccount {
+  balance: number;
+  holdings: Record<string, LotPosition>;
+  shareMode: ShareMode;
+  costBasisMethod: CostBasisMethod;
+  corporateActions: CorporateAdjustment[];
+  /** Account opening or last reset (epoch ms) — earlier ex-dates don't apply (null = not set yet) */
+  corporateActionsSince: number | null;
+}
+
+/** Any price series point — chart candles carry epoch seconds */
+export interface PricePoint {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const CORPORATE_ACTION_LABELS: Record<CorporateActionType, string> = {
+  split: "Stock split",
+  reverse_split: "Reverse split",
+  rights_issue: "Rights issue",
+  capital_return: "Capital return",
+};
+
+/** Share counts below this are treated as whole */
+const SHARE_EPSILON = 1e-6;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundShares(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function formatRatio(ratio: number): string {
+  return ratio >= 1 ? `${+ratio.toFixed(4)}-for-1` : `1-for-${+(1 / ratio).toFixed(4)}`;
+}
+
+/** One-line description, e.g. "1-for-10 reverse split" */
+export function describeCorporateAction(action: CorporateAction): string {
+  switch (action.type) {
+    case "split":
+      return `${formatRatio(action.ratio)} stock split`;
+    case "reverse_split":
+      return `${formatRatio(action.ratio)} reverse split`;
+    case "rights_issue":
+      return `Rights issue: ${+action.ratio.toFixed(4)} new per share at €${(action.subscriptionPrice ?? 0).toFixed(2)}`;
+    case "capital_return":
+      return `Capital return of €${(action.cashPerShare ?? 0).toFixed(2)} per share`;
+  }
+}
+
+/** Theoretical ex-rights price: the old shares and the new ones, blended */
+function theoreticalExRightsPrice(action: CorporateAction): number {
+  const subscription = action.subscriptionPrice ?? action.referencePrice;
+  return (action.referencePrice + action.ratio * subscription) / (1 + action.ratio);
+}
+
+/** Cash per old share for rights and capital returns */
+function cashPerOldShare(action: CorporateAction): number {
+  if (action.type === "capital_return") return action.cashPerShare ?? 0;
+  if (action.type === "rights_issue") {
+    const subscription = action.subscriptionPrice ?? action.referencePrice;
+    return Math.max(0, action.ratio * (theoreticalExRightsPrice(action) - subscription));
+  }
+  return 0;
+}
+
+/** Multiplier for prices before the ex-date */
+export function getPriceFactor(action: CorporateAction): number {
+  switch (action.type) {
+    case "split":
+    case "reverse_split":
+      return 1 / action.ratio;
+    case "rights_issue":
+      return theoreticalExRightsPrice(action) / action.referencePrice;
+    case "capital_return":
+      return Math.max(0, action.referencePrice - (action.cashPerShare ?? 0)) / action.referencePrice;
+  }
+}
+
+/** Multiplier for share counts (and volumes) before the ex-date */
+export function getShareFactor(action: CorporateAction): number {
+  return action.type === "split" || action.type === "reverse_split" ? action.ratio : 1;
+}
+
+// ─── Price History ──────────────────────────────────────────────────────────
+
+/**
+ * Adjust a price series for every action whose ex-date falls after each
+ * point. `timestampScale` converts point timestamps to epoch ms (1000 for
+ * chart candles in seconds).
+ */
+export function adjustPriceHistory<P extends PricePoint>(
+  points: P[],
+  actions: CorporateAction[],
+  timestampScale = 1000,
+): P[] {
+  if (actions.length === 0) return points;
+
+  return points.map((point) => {
+    const at = point.timestamp * timestampScale;
+    let priceFactor = 1;
+    let shareFactor = 1;
+    for (const action of actions) {
+      if (at >= action.exTimestamp) continue;
+      priceFactor *= getPriceFactor(action);
+      shareFactor *= getShareFactor(action);
+    }
+    if (priceFactor === 1 && shareFactor === 1) return point;
+
+    return {
+      ...point,
+      open: point.open * priceFactor,
+      high: point.high * priceFactor,
+      low: point.low * priceFactor,
+      close: point.close * priceFactor,
+      volume: Math.round(point.volume * shareFactor),
+    };
+  });
+}
+
+// ─── Holdings ───────────────────────────────────────────────────────────────
+
+function sumLots(lots: TaxLot[]): { shares: number; totalCost: number } {
+  return lots.reduce(
+    (acc, lot) => ({ shares: acc.shares + lot.shares, totalCost: acc.totalCost + lot.cost }),
+    { shares: 0, totalCost: 0 },
+  );
+}
+
+/**
+ * Apply one action to an account's position in the stock. Only lots opened
+ * before the ex-date are affected. Returns the same account and a null
+ * adjustment when the account held none of those lots.
+ */
+export function applyCorporateAction<A extends CorporateActionAccount>(
+  account: A,
+  action: CorporateAction,
+  now: number,
+): { account: A; adjustment: CorporateAdjustment | null } {
+  const holding = account.holdings[action.stockId];
+  const lots = holding ? getLots(holding) : [];
+  const eligible = lots.filter((lot) => lot.openedAt < action.exTimestamp);
+  if (!holding || eligible.length === 0) return { account, adjustment: null };
+
+  const sharesBefore = holding.shares;
+  const eligibleShares = sumLots(eligible).shares;
+  let cashAmount = 0;
+  let position: { lots: TaxLot[]; shares: number; totalCost: number };
+
+  if (action.type === "split" || action.type === "reverse_split") {
+    const adjusted = lots.map((lot) =>
+      lot.openedAt < action.exTimestamp ? { ...lot, shares: roundShares(lot.shares * action.ratio) } : lot,
+    );
+    position = { lots: adjusted, ...sumLots(adjusted) };
+
+    // Whole-share accounts can't hold the fraction — pay it out at the new price
+    const entitled = roundShares(eligibleShares * action.ratio);
+    const fraction = entitled - Math.floor(entitled + SHARE_EPSILON);
+    if (account.shareMode === "whole" && fraction > SHARE_EPSILON) {
+      const disposal = disposeLots(position, fraction, account.costBasisMethod);
+      if (disposal) {
+        position = disposal;
+        cashAmount = roundCents(fraction * action.referencePrice * getPriceFactor(action));
+      }
+    }
+  } else {
+    const perShare = cashPerOldShare(action);
+    cashAmount = roundCents(eligibleShares * perShare);
+    const adjusted = lots.map((lot) =>
+      lot.openedAt < action.exTimestamp
+        ? { ...lot, cost: Math.max(0, lot.cost - lot.shares * perShare) }
+        : lot,
+    );
+    position = { lots: adjusted, ...sumLots(adjusted) };
+  }
+
+  const holdings = { ...account.holdings };
+  if (position.shares < SHARE_EPSILON) {
+    delete holdings[action.stockId];
+  } else {
+    holdings[action.stockId] = {
+      ...holding,
+      shares: roundShares(position.shares),
+      totalCost: Math.max(0, position.totalCost),
+      lots: position.lots,
+    };
+  }
+
+  const adjustment: CorporateAdjustment = {
+    id: action.id,
+    stockId: action.stockId,
+    type: action.type,
+    exDate: action.exDate,
+    sharesBefore,
+    sharesAfter: holdings[action.stockId]?.shares ?? 0,
+    cashAmount,
+    appliedAt: now,
+  };
+
+  return {
+    account: {
+      ...account,
+      balance: account.balance + cashAmount,
+      holdings,
+      corporateActions: [...account.corporateActions, adjustment],
+    },
+    adjustment,
+  };
+}
+
+/**
+ * Apply every action whose ex-date has arrived by `now`, falls after
+ * `corporateActionsSince` and hasn't been applied yet, oldest first. An
+ * account without `corporateActionsSince` starts from `now`.
+ * Returns the same account object when nothing changed.
+ */
+export function applyDueCorporateActions<A extends CorporateActionAccount>(
+  account: A,
+  actions: CorporateAction[],
+  now: number,
+): { account: A; applied: CorporateAdjustment[] } {
+  const since = account.corporateActionsSince;
+  if (since === null) {
+    return { account: { ...account, corporateActionsSince: now }, applied: [] };
+  }
+
+  const done = new Set(account.corporateActions.map((a) => a.id));
+  const due = actions
+    .filter((a) => a.exTimestamp > since && a.exTimestamp <= now && !done.has(a.id))
+    .sort((a, b) => a.exTimestamp - b.exTimestamp);
+
+  let next = account;
+  const applied: CorporateAdjustment[] = [];
+  for (const action of due) {
+    const result = applyCorporateAction(next, action, now);
+    next = result.account;
+    if (result.adjustment) applied.push(result.adjustment);
+  }
+
+  return { account: next, applied };
+}
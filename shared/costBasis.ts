@@ -0,0 +1,149 @@
+/**
+ * AGRX Cost Basis & Tax Lots
+ *
+ * Pure lot-tracking model shared by the server (portfolio replay, trade
+ * fills) and the client (signed-out local fills) so both book the same
+ * realized P&L.
+ *
+ * - Every buy opens a tax lot (shares and cost, costs included)
+ * - Every sell closes shares out of the lots using the account's method:
+ *   - FIFO: oldest lots first, as the Greek tax authority assumes
+ *   - Average cost: every lot shrinks by the same fraction
+ * - Realized P&L on a sell = net proceeds − cost basis of the shares sold
+ *
+ * Changing the method only affects later sells — lots are never rewritten.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type CostBasisMethod = "fifo" | "average";
+
+export interface TaxLot {
+  /** ID of the buy that opened the lot ("opening" for positions held before lots were tracked) */
+  id: string;
+  shares: number;
+  /** Cost of the remaining shares, commission and fees included */
+  cost: number;
+  openedAt: number;
+}
+
+/** Anything with a position size and cost — holdings on either side of the wire */
+export interface LotPosition {
+  shares: number;
+  totalCost: number;
+  lots?: TaxLot[];
+}
+
+export interface LotDisposal {
+  /** Lots left after the sell (empty when the position is closed) */
+  lots: TaxLot[];
+  shares: number;
+  totalCost: number;
+  /** Cost of the shares sold */
+  costBasis: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = "fifo";
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; name: string; description: string }[] = [
+  { id: "fifo", name: "FIFO", description: "Oldest shares are sold first" },
+  { id: "average", name: "Average Cost", description: "Every share costs the position average" },
+];
+
+/** Lots below this share count are treated as fully sold */
+const DUST_SHARES = 0.0001;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumLots(lots: TaxLot[]): { shares: number; totalCost: number } {
+  return lots.reduce(
+    (acc, lot) => ({ shares: acc.shares + lot.shares, totalCost: acc.totalCost + lot.cost }),
+    { shares: 0, totalCost: 0 },
+  );
+}
+
+export function isCostBasisMethod(value: string): value is CostBasisMethod {
+  return value === "fifo" || value === "average";
+}
+
+/**
+ * The open lots of a position. Positions saved before lots were tracked
+ * (and the demo seed holdings) become a single lot at their total cost.
+ */
+export function getLots(position: LotPosition): TaxLot[] {
+  if (position.lots && position.lots.length > 0) return position.lots;
+  if (position.shares <= 0) return [];
+  return [{ id: "opening", shares: position.shares, cost: position.totalCost, openedAt: 0 }];
+}
+
+// ─── Lot Updates ────────────────────────────────────────────────────────────
+
+/** Add a bought lot to a position (or open one) */
+export function addLot(
+  position: LotPosition | undefined,
+  lot: TaxLot,
+): { lots: TaxLot[]; shares: number; totalCost: number } {
+  const lots = [...(position ? getLots(position) : []), lot];
+  return { lots, ...sumLots(lots) };
+}
+
+/**
+ * Close `shares` out of a position. Returns null if the position doesn't
+ * hold that many shares.
+ */
+export function disposeLots(
+  position: LotPosition,
+  shares: number,
+  method: CostBasisMethod,
+): LotDisposal | null {
+  const lots = getLots(position);
+  const held = sumLots(lots).shares;
+  if (shares > held + 1e-6) return null;
+
+  let remaining: TaxLot[];
+  if (method === "average") {
+    const keep = held > 0 ? Math.max(0, 1 - shares / held) : 0;
+    remaining = lots.map((lot) => ({ ...lot, shares: lot.shares * keep, cost: lot.cost * keep }));
+  } else {
+    remaining = [];
+    let toSell = shares;
+    for (const lot of [...lots].sort((a, b) => a.openedAt - b.openedAt)) {
+      if (toSell <= 0) {
+        remaining.push(lot);
+        continue;
+      }
+      const sold = Math.min(lot.shares, toSell);
+      toSell -= sold;
+      const keep = (lot.shares - sold) / lot.shares;
+      remaining.push({ ...lot, shares: lot.shares - sold, cost: lot.cost * keep });
+    }
+  }
+
+  const open = remaining.filter((lot) => lot.shares >= DUST_SHARES);
+  const totals = sumLots(open);
+  const costBasis = sumLots(lots).totalCost - totals.totalCost;
+  return {
+    lots: open,
+    shares: totals.shares,
+    totalCost: Math.max(0, totals.totalCost),
+    costBasis: roundCents(costBasis),
+  };
+}
+
+/** Realized P&L of a sell: net proceeds minus the cost of the shares sold */
+export function calculateRealizedPnL(proceeds: number, costBasis: number): number {
+  return roundCents(proceeds - costBasis);
+}
+
+/** Sum of realized P&L across a trade log (sells recorded before lots count as zero) */
+export function totalRealizedPnL(trades: { type: "buy" | "sell"; realizedPnL?: number }[]): number {
+  return roundCents(
+    trades.reduce((sum, t) => sum + (t.type === "sell" ? (t.realizedPnL ?? 0) : 0), 0),
+  );
+}
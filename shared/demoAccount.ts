@@ -0,0 +1,55 @@
+/**
+ * AGRX Demo Account
+ *
+ * What a new or reset demo account starts with: €100,000 of buying power,
+ * part of it already invested in a few blue chips. Shared by the client
+ * (signed-out local accounts) and the server, which builds signed-in
+ * accounts from these constants rather than trusting a client's balance.
+ *
+ * Seed positions are whole shares in either share mode — they stand in for
+ * shares bought on ATHEX — so whole-share accounts can trade them down to
+ * zero. They have no trades or tax lots behind them.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface SeedHolding {
+  stockId: string;
+  ticker: string;
+  name: string;
+  shares: number;
+  totalCost: number;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Starting value of a demo account, cash plus seed positions at cost */
+export const DEMO_BALANCE = 100000;
+
+/** XP and streak a new account starts on, so the first level-up comes quickly */
+export const DEMO_START_XP = 240;
+export const DEMO_START_STREAK = 5;
+
+const SEED_POSITIONS: (Omit<SeedHolding, "totalCost"> & { avgCost: number })[] = [
+  { stockId: "opap", ticker: "OPAP", name: "OPAP S.A.", shares: 12, avgCost: 15.2 },
+  { stockId: "ete", ticker: "ETE", name: "National Bank of Greece", shares: 25, avgCost: 12.8 },
+  { stockId: "mtln", ticker: "MTLN", name: "Metlen Energy & Metals", shares: 5, avgCost: 36.5 },
+  { stockId: "eurob", ticker: "EUROB", name: "Eurobank", shares: 100, avgCost: 3.9 },
+];
+
+// ─── Seed ───────────────────────────────────────────────────────────────────
+
+/** The seed positions, keyed by stock ID */
+export function buildSeedHoldings(): Record<string, SeedHolding> {
+  const holdings: Record<string, SeedHolding> = {};
+  for (const { avgCost, ...position } of SEED_POSITIONS) {
+    holdings[position.stockId] = { ...position, totalCost: position.shares * avgCost };
+  }
+  return holdings;
+}
+
+/** Cash left after buying the seed positions */
+export function calculateSeedBalance(): number {
+  const seedCost = SEED_POSITIONS.reduce((sum, p) => sum + p.shares * p.avgCost, 0);
+  return DEMO_BALANCE - seedCost;
+}
@@ -0,0 +1,160 @@
+/**
+ * AGRX Dividends
+ *
+ * Pure dividend crediting shared by the server (stored portfolios) and the
+ * client (signed-out local accounts) so both pay the same income.
+ *
+ * - Shares held at the end of the day before the ex-date are entitled
+ * - Cash arrives on the pay date, net of Greek dividend withholding tax
+ * - Entitlement is worked back from the current position: trades on or after
+ *   the ex-date are undone, so positions opened before the trade log began
+ *   (seed holdings) still qualify
+ * - Each event is credited at most once per account, and only if its pay
+ *   date falls after the account last checked — a new or reset account is
+ *   never back-paid
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** A declared cash dividend for one stock */
+export interface DividendEvent {
+  /** `${stockId}:${exDate}` */
+  id: string;
+  stockId: string;
+  ticker: string;
+  /** Athens calendar dates, YYYY-MM-DD */
+  exDate: string;
+  recordDate: string;
+  payDate: string;
+  /** Gross amount per share, in euros */
+  amount: number;
+  /** Start of the ex-date and pay date in Athens (epoch ms) */
+  exTimestamp: number;
+  payTimestamp: number;
+}
+
+/** A dividend paid into an account */
+export interface DividendCredit {
+  /** The DividendEvent id */
+  id: string;
+  stockId: string;
+  ticker: string;
+  shares: number;
+  amountPerShare: number;
+  /** shares × amountPerShare */
+  grossAmount: number;
+  /** Greek dividend withholding tax */
+  tax: number;
+  /** Cash credited: grossAmount − tax */
+  amount: number;
+  exDate: string;
+  payDate: string;
+  creditedAt: number;
+}
+
+/** The parts of an account crediting reads and writes */
+export interface DividendAccount {
+  balance: number;
+  holdings: Record<string, { shares: number }>;
+  trades: { stockId: string; type: "buy" | "sell"; shares: number; timestamp: number }[];
+  dividends: DividendCredit[];
+  /** Account opening or last reset (epoch ms) — earlier ex-dates are not owed (null = not set yet) */
+  dividendsSince: number | null;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Greek withholding tax on dividends paid to residents */
+export const DIVIDEND_WITHHOLDING_RATE = 0.05;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Shares of a stock held at the close before `exTimestamp`: the current
+ * position with every later trade undone.
+ */
+export function getEntitledShares(
+  account: Pick<DividendAccount, "holdings" | "trades">,
+  stockId: string,
+  exTimestamp: number,
+): number {
+  let shares = account.holdings[stockId]?.shares ?? 0;
+  for (const trade of account.trades) {
+    if (trade.stockId !== stockId || trade.timestamp < exTimestamp) continue;
+    shares += trade.type === "buy" ? -trade.shares : trade.shares;
+  }
+  return Math.max(0, shares);
+}
+
+/** Gross, tax and net cash for a holding of `shares` */
+export function calculateDividend(
+  shares: number,
+  amountPerShare: number,
+): { grossAmount: number; tax: number; amount: number } {
+  const grossAmount = roundCents(shares * amountPerShare);
+  const tax = roundCents(grossAmount * DIVIDEND_WITHHOLDING_RATE);
+  return { grossAmount, tax, amount: roundCents(grossAmount - tax) };
+}
+
+/** Total net dividend income received */
+export function totalDividendIncome(credits: Pick<DividendCredit, "amount">[]): number {
+  return roundCents(credits.reduce((sum, c) => sum + c.amount, 0));
+}
+
+// ─── Crediting ──────────────────────────────────────────────────────────────
+
+/**
+ * Credit every dividend paid by `now` whose ex-date falls after
+ * `dividendsSince` and that the account has not received yet. An account
+ * without `dividendsSince` starts from `now`.
+ * Returns the same account object when nothing changed.
+ */
+export function creditDueDividends<A extends DividendAccount>(
+  account: A,
+  events: DividendEvent[],
+  now: number,
+): { account: A; credited: DividendCredit[] } {
+  const since = account.dividendsSince;
+  if (since === null) {
+    return { account: { ...account, dividendsSince: now }, credited: [] };
+  }
+
+  const paid = new Set(account.dividends.map((d) => d.id));
+  const credited: DividendCredit[] = [];
+
+  const due = events
+    .filter((e) => e.exTimestamp > since && e.payTimestamp <= now && !paid.has(e.id))
+    .sort((a, b) => a.payTimestamp - b.payTimestamp);
+
+  for (const event of due) {
+    const shares = getEntitledShares(account, event.stockId, event.exTimestamp);
+    if (shares <= 0) continue;
+    credited.push({
+      id: event.id,
+      stockId: event.stockId,
+      ticker: event.ticker,
+      shares,
+      amountPerShare: event.amount,
+      ...calculateDividend(shares, event.amount),
+      exDate: event.exDate,
+      payDate: event.payDate,
+      creditedAt: now,
+    });
+  }
+
+  if (credited.length === 0) return { account, credited };
+
+  const income = credited.reduce((sum, c) => sum + c.amount, 0);
+  return {
+    account: {
+      ...account,
+      balance: account.balance + income,
+      dividends: [...account.dividends, ...credited],
+    },
+    credited,
+  };
+}
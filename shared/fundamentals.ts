@@ -0,0 +1,105 @@
+/**
+ * AGRX Fundamentals
+ *
+ * Company fundamentals shared by the server (fundamentalsService, screener)
+ * and the client (asset screen): the reported figures a provider supplies,
+ * the valuation worked out from them at the current price, and formatting.
+ *
+ * - Reported figures are for the latest fiscal year, in euros, and may be
+ *   indicative (sample data) depending on the provider
+ * - Valuation uses the live price, so P/E and yield move with the quote
+ * - A ratio is null when an input is missing or the ratio is meaningless
+ *   (P/E on a loss, P/B on negative equity)
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface CompanyProfile {
+  description: string;
+  headquarters: string;
+  founded: number | null;
+  employees: number | null;
+  website: string | null;
+}
+
+/** What a fundamentals provider reports for one company */
+export interface ReportedFundamentals {
+  stockId: string;
+  fiscalYear: number;
+  sharesOutstanding: number;
+  /** Percent of shares held outside strategic holders */
+  freeFloat: number | null;
+  /** Earnings per share, in euros */
+  eps: number | null;
+  /** Book value per share, in euros */
+  bookValuePerShare: number | null;
+  revenue: number | null;
+  netIncome: number | null;
+  profile: CompanyProfile;
+}
+
+/** Ratios at the current price */
+export interface Valuation {
+  price: number;
+  marketCap: number | null;
+  peRatio: number | null;
+  /** Percent, trailing twelve months of cash dividends over the price */
+  dividendYield: number | null;
+  priceToBook: number | null;
+}
+
+export interface StockFundamentals extends ReportedFundamentals {
+  valuation: Valuation;
+  /** When the reported figures were fetched from the provider (epoch ms) */
+  fetchedAt: number;
+  /** Sample figures close to the issuer's results, not its filings; label them so */
+  indicative: boolean;
+}
+
+// ─── Valuation ──────────────────────────────────────────────────────────────
+
+/**
+ * Value a company at `price`. Market cap is the provider's when the quote
+ * has one, otherwise price × shares outstanding.
+ */
+export function computeValuation(
+  price: number,
+  reported: ReportedFundamentals | null,
+  trailingDividends: number | null,
+  quotedMarketCap: number | null = null,
+): Valuation {
+  const valid = price > 0;
+  const eps = reported?.eps ?? null;
+  const book = reported?.bookValuePerShare ?? null;
+  return {
+    price,
+    marketCap: quotedMarketCap ?? (valid && reported ? price * reported.sharesOutstanding : null),
+    peRatio: valid && eps !== null && eps > 0 ? price / eps : null,
+    dividendYield: valid && trailingDividends !== null ? (trailingDividends / price) * 100 : null,
+    priceToBook: valid && book !== null && book > 0 ? price / book : null,
+  };
+}
+
+// ─── Formatting ─────────────────────────────────────────────────────────────
+
+/** "€13.9B", "€850M", "-€12.4M"; "N/A" when missing */
+export function formatCompactEuro(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) return "N/A";
+  const sign = value < 0 ? "-" : "";
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${sign}€${(abs / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${sign}€${(abs / 1e6).toFixed(abs >= 1e8 ? 0 : 1)}M`;
+  return `${sign}€${abs.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+}
+
+/** Share counts: "3.67B", "914.7M" */
+export function formatShareCount(value: number): string {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  return value.toLocaleString("en-US");
+}
+
+/** "12.4×"; "N/A" when missing */
+export function formatMultiple(value: number | null): string {
+  return value === null ? "N/A" : `${value.toFixed(1)}×`;
+}
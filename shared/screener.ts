@@ -0,0 +1,222 @@
+/**
+ * AGRX Stock Screener
+ *
+ * Filter rules over per-stock screening metrics, evaluated on the server by
+ * `stocks.screen` and described on the client when editing a screen.
+ *
+ * - A screen is a group of rules matched with AND ("all") or OR ("any");
+ *   groups nest, so "Banking AND (down 2% OR near the 52-week low)" works
+ * - Numeric rules compare one metric against a value (or a range)
+ * - Set rules match a category or sector against a list
+ * - A stock missing a metric (e.g. no market cap) fails rules on it
+ */
+import type { Sector } from "./sectors";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export const STOCK_CATEGORIES = ["blue-chip", "growth", "dividend"] as const;
+export type StockCategory = (typeof STOCK_CATEGORIES)[number];
+
+export const NUMERIC_SCREEN_FIELDS = [
+  "price",
+  "changePercent",
+  "volume",
+  "marketCap",
+  "fromHigh52w",
+  "fromLow52w",
+  "dividendYield",
+] as const;
+export type NumericScreenField = (typeof NUMERIC_SCREEN_FIELDS)[number];
+
+export const NUMERIC_OPERATORS = ["gt", "gte", "lt", "lte", "between"] as const;
+export type NumericOperator = (typeof NUMERIC_OPERATORS)[number];
+
+export interface NumericRule {
+  field: NumericScreenField;
+  op: NumericOperator;
+  value: number;
+  /** Upper bound for "between" (inclusive) */
+  max?: number;
+}
+
+export type SetRule =
+  | { field: "category"; op: "in"; values: StockCategory[] }
+  | { field: "sector"; op: "in"; values: Sector[] };
+
+export type ScreenRule = NumericRule | SetRule;
+
+export interface ScreenFilter {
+  match: "all" | "any";
+  rules: (ScreenRule | ScreenFilter)[];
+}
+
+/** What rules are evaluated against, one per stock */
+export interface ScreenMetrics {
+  stockId: string;
+  ticker: string;
+  name: string;
+  price: number;
+  changePercent: number;
+  volume: number;
+  /** Euros; null when the provider doesn't report it */
+  marketCap: number | null;
+  /** % below the 52-week high (0 = at the high) */
+  fromHigh52w: number | null;
+  /** % above the 52-week low (0 = at the low) */
+  fromLow52w: number | null;
+  /** Trailing 12-month cash dividends over the price, in % */
+  dividendYield: number;
+  category: StockCategory;
+  sector: Sector;
+}
+
+export interface ScreenPreset {
+  /** Built-in presets use a slug; saved ones their database id */
+  id: string;
+  name: string;
+  filter: ScreenFilter;
+  builtIn: boolean;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+/** Nesting limit for groups, so stored presets stay readable */
+export const MAX_SCREEN_DEPTH = 3;
+
+export const SCREEN_FIELD_LABELS: Record<NumericScreenField | "category" | "sector", string> = {
+  price: "Price",
+  changePercent: "Change",
+  volume: "Volume",
+  marketCap: "Market cap",
+  fromHigh52w: "Off 52W high",
+  fromLow52w: "Off 52W low",
+  dividendYield: "Div. yield",
+  category: "Category",
+  sector: "Sector",
+};
+
+const OPERATOR_SYMBOLS: Record<NumericOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  between: "–",
+};
+
+/** One-tap screens offered to everyone, signed in or not */
+export const BUILT_IN_SCREEN_PRESETS: ScreenPreset[] = [
+  {
+    id: "banks-near-52w-low",
+    name: "Banks near 52-week low",
+    builtIn: true,
+    filter: {
+      match: "all",
+      rules: [
+        { field: "sector", op: "in", values: ["Banking"] },
+        { field: "fromLow52w", op: "lte", value: 10 },
+      ],
+    },
+  },
+  {
+    id: "todays-movers",
+    name: "Today's big movers",
+    builtIn: true,
+    filter: {
+      match: "any",
+      rules: [
+        { field: "changePercent", op: "gte", value: 3 },
+        { field: "changePercent", op: "lte", value: -3 },
+      ],
+    },
+  },
+  {
+    id: "high-yield",
+    name: "High dividend yield",
+    builtIn: true,
+    filter: { match: "all", rules: [{ field: "dividendYield", op: "gte", value: 5 }] },
+  },
+  {
+    id: "blue-chips-off-highs",
+    name: "Blue chips off their highs",
+    builtIn: true,
+    filter: {
+      match: "all",
+      rules: [
+        { field: "category", op: "in", values: ["blue-chip"] },
+        { field: "fromHigh52w", op: "gte", value: 15 },
+      ],
+    },
+  },
+];
+
+// ─── Evaluation ─────────────────────────────────────────────────────────────
+
+export function isScreenFilter(rule: ScreenRule | ScreenFilter): rule is ScreenFilter {
+  return "match" in rule;
+}
+
+function matchesRule(rule: ScreenRule, stock: ScreenMetrics): boolean {
+  if (rule.field === "category") return (rule.values as string[]).includes(stock.category);
+  if (rule.field === "sector") return (rule.values as string[]).includes(stock.sector);
+
+  const value = stock[rule.field];
+  if (value === null) return false;
+  switch (rule.op) {
+    case "gt":
+      return value > rule.value;
+    case "gte":
+      return value >= rule.value;
+    case "lt":
+      return value < rule.value;
+    case "lte":
+      return value <= rule.value;
+    case "between":
+      return value >= rule.value && value <= (rule.max ?? Infinity);
+  }
+}
+
+/** Whether a stock passes a screen. An empty group matches everything. */
+export function matchesScreen(filter: ScreenFilter, stock: ScreenMetrics): boolean {
+  if (filter.rules.length === 0) return true;
+  const test = (rule: ScreenRule | ScreenFilter) =>
+    isScreenFilter(rule) ? matchesScreen(rule, stock) : matchesRule(rule, stock);
+  return filter.match === "all" ? filter.rules.every(test) : filter.rules.some(test);
+}
+
+export function screenDepth(filter: ScreenFilter): number {
+  const nested = filter.rules.filter(isScreenFilter).map(screenDepth);
+  return 1 + (nested.length > 0 ? Math.max(...nested) : 0);
+}
+
+// ─── Description ────────────────────────────────────────────────────────────
+
+function formatRuleValue(field: NumericScreenField, value: number): string {
+  if (field === "marketCap") {
+    if (value >= 1e9) return `€${+(value / 1e9).toFixed(2)}B`;
+    if (value >= 1e6) return `€${+(value / 1e6).toFixed(1)}M`;
+    return `€${value}`;
+  }
+  if (field === "price") return `€${value}`;
+  if (field === "volume") return value.toLocaleString("en-US");
+  return `${value}%`;
+}
+
+/** Short label for a rule chip, e.g. "Sector: Banking" or "Off 52W low ≤ 10%" */
+export function describeScreenRule(rule: ScreenRule): string {
+  const label = SCREEN_FIELD_LABELS[rule.field];
+  if (rule.field === "category" || rule.field === "sector") {
+    return `${label}: ${rule.values.join(", ")}`;
+  }
+  if (rule.op === "between") {
+    return `${label} ${formatRuleValue(rule.field, rule.value)}–${formatRuleValue(rule.field, rule.max ?? rule.value)}`;
+  }
+  return `${label} ${OPERATOR_SYMBOLS[rule.op]} ${formatRuleValue(rule.field, rule.value)}`;
+}
+
+/** Every rule in a screen, flattened, for display */
+export function describeScreen(filter: ScreenFilter): string {
+  const parts = filter.rules.map((rule) =>
+    isScreenFilter(rule) ? `(${describeScreen(rule)})` : describeScreenRule(rule),
+  );
+  return parts.join(filter.match === "all" ? " AND " : " OR ") || "All stocks";
+}
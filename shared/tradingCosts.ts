@@ -0,0 +1,399 @@
+/**
+ * AGRX Trading Cost Model
+ *
+ * Pure fee / spread / tick-size model shared by the server (trade fills) and
+ * the client (order preview, signed-out local fills) so both always agree.
+ *
+ * - Broker commission schedules (percentage bands with a minimum charge)
+ * - ATHEX clearing fee on both sides
+ * - Greek transaction tax on sells
+ * - Bid/ask spread estimate per liquidity tier
+ * - ATHEX tick-size rounding of the execution price
+ * - Whole-share sizing (ATHEX only trades whole shares; fractional fills are
+ *   a demo "learning mode")
+ *
+ * Rates are indicative, not quotes from the named brokers — they exist so the
+ * demo charges roughly what a Greek retail investor would actually pay.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type TradeSide = "buy" | "sell";
+
+export type BrokerId = "piraeus" | "eurobank" | "nbg" | "alpha" | "zero";
+
+export type LiquidityTier = "high" | "medium" | "low";
+
+/** Whole shares like a real ATHEX account, or fractional "learning mode" */
+export type ShareMode = "whole" | "fractional";
+
+export interface CommissionBand {
+  /** Trade value this band applies up to (null = no upper bound) */
+  upTo: number | null;
+  /** Commission as a fraction of trade value */
+  rate: number;
+}
+
+export interface BrokerSchedule {
+  id: BrokerId;
+  name: string;
+  bands: CommissionBand[];
+  /** Minimum commission per order, in euros */
+  minimum: number;
+}
+
+export interface FillEstimate {
+  side: TradeSide;
+  /** Quoted (mid) price */
+  midPrice: number;
+  /** Execution price: ask for buys, bid for sells, rounded to the tick */
+  price: number;
+  shares: number;
+  /** Value of the shares at the execution price */
+  grossAmount: number;
+  /** What crossing the spread costs vs. trading at the mid price */
+  spreadCost: number;
+  commission: number;
+  clearingFee: number;
+  /** Greek transaction tax — sells only */
+  transactionTax: number;
+  /** commission + clearingFee + transactionTax */
+  totalCosts: number;
+  /** Cash debited (buy) or credited (sell) */
+  netAmount: number;
+}
+
+export interface WholeShareFill {
+  fill: FillEstimate;
+  /** Part of the requested amount left over because only whole shares trade */
+  leftover: number;
+}
+
+/** Outcome of sizing a trade request — see sizeTrade */
+export type TradeSizing =
+  | ({ success: true } & WholeShareFill)
+  | { success: false; error: string };
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+export const BROKER_SCHEDULES: Record<BrokerId, BrokerSchedule> = {
+  piraeus: {
+    id: "piraeus",
+    name: "Piraeus Securities",
+    bands: [{ upTo: null, rate: 0.0015 }],
+    minimum: 6,
+  },
+  eurobank: {
+    id: "eurobank",
+    name: "Eurobank Equities",
+    bands: [{ upTo: null, rate: 0.0018 }],
+    minimum: 8,
+  },
+  nbg: {
+    id: "nbg",
+    name: "NBG Securities",
+    bands: [
+      { upTo: 10_000, rate: 0.002 },
+      { upTo: null, rate: 0.0015 },
+    ],
+    minimum: 10,
+  },
+  alpha: {
+    id: "alpha",
+    name: "Alpha Finance",
+    bands: [
+      { upTo: 30_000, rate: 0.002 },
+      { upTo: null, rate: 0.0012 },
+    ],
+    minimum: 8,
+  },
+  zero: {
+    id: "zero",
+    name: "Zero-commission app",
+    bands: [{ upTo: null, rate: 0 }],
+    minimum: 0,
+  },
+};
+
+export const DEFAULT_BROKER: BrokerId = "piraeus";
+
+export const DEFAULT_SHARE_MODE: ShareMode = "whole";
+
+/** ATHEX clearing fee, charged on both buys and sells */
+export const ATHEX_CLEARING_FEE_RATE = 0.0002;
+
+/** Sells within this many shares of the holding close the whole position */
+const SHARE_EPSILON = 1e-6;
+
+/** Greek tax on the sale of listed shares */
+export const GREEK_TRANSACTION_TAX_RATE = 0.001;
+
+/** Estimated full bid/ask spread as a fraction of the mid price */
+export const SPREAD_BY_TIER: Record<LiquidityTier, number> = {
+  high: 0.001,
+  medium: 0.003,
+  low: 0.008,
+};
+
+/**
+ * ATHEX price-banded tick sizes (simplified from the MiFID II tick table for
+ * a mid-liquidity band). Each entry applies to prices below `below`.
+ */
+export const ATHEX_TICK_SIZES: { below: number; tick: number }[] = [
+  { below: 1, tick: 0.001 },
+  { below: 5, tick: 0.002 },
+  { below: 10, tick: 0.005 },
+  { below: 50, tick: 0.01 },
+  { below: 100, tick: 0.02 },
+  { below: Infinity, tick: 0.05 },
+];
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isBrokerId(value: string): value is BrokerId {
+  return value in BROKER_SCHEDULES;
+}
+
+export function isShareMode(value: string): value is ShareMode {
+  return value === "whole" || value === "fractional";
+}
+
+/** Whole share counts without decimals, fractional ones to 4 places */
+export function formatShares(shares: number): string {
+  return shares.toFixed(Number.isInteger(shares) ? 0 : 4);
+}
+
+/** Blue chips trade tightest; growth names are the thinnest books */
+export function getLiquidityTier(category: string | undefined): LiquidityTier {
+  switch (category) {
+    case "blue-chip":
+      return "high";
+    case "dividend":
+      return "medium";
+    default:
+      return "low";
+  }
+}
+
+export function getTickSize(price: number): number {
+  return (ATHEX_TICK_SIZES.find((t) => price < t.below) ?? ATHEX_TICK_SIZES[0]).tick;
+}
+
+/** Round a price onto the ATHEX tick grid */
+export function roundToTick(price: number, direction: "up" | "down" | "nearest" = "nearest"): number {
+  const tick = getTickSize(price);
+  const steps = price / tick;
+  // Absorb float noise so exact multiples don't move a tick
+  const rounded =
+    direction === "up"
+      ? Math.ceil(steps - 1e-9)
+      : direction === "down"
+        ? Math.floor(steps + 1e-9)
+        : Math.round(steps);
+  return Number((rounded * tick).toFixed(4));
+}
+
+/** Estimated bid/ask around a quoted price, rounded outwards to the tick */
+export function getBidAsk(midPrice: number, tier: LiquidityTier): { bid: number; ask: number } {
+  const halfSpread = (midPrice * SPREAD_BY_TIER[tier]) / 2;
+  const ask = roundToTick(midPrice + halfSpread, "up");
+  const bid = Math.max(getTickSize(midPrice), roundToTick(midPrice - halfSpread, "down"));
+  return { bid, ask };
+}
+
+export function getExecutionPrice(side: TradeSide, midPrice: number, tier: LiquidityTier): number {
+  const { bid, ask } = getBidAsk(midPrice, tier);
+  return side === "buy" ? ask : bid;
+}
+
+export function calculateCommission(tradeValue: number, broker: BrokerId): number {
+  const schedule = BROKER_SCHEDULES[broker] ?? BROKER_SCHEDULES[DEFAULT_BROKER];
+  const band =
+    schedule.bands.find((b) => b.upTo === null || tradeValue <= b.upTo) ??
+    schedule.bands[schedule.bands.length - 1];
+  return roundCents(Math.max(schedule.minimum, tradeValue * band.rate));
+}
+
+function calculateCosts(side: TradeSide, grossAmount: number, broker: BrokerId) {
+  const commission = calculateCommission(grossAmount, broker);
+  const clearingFee = roundCents(grossAmount * ATHEX_CLEARING_FEE_RATE);
+  const transactionTax = side === "sell" ? roundCents(grossAmount * GREEK_TRANSACTION_TAX_RATE) : 0;
+  return { commission, clearingFee, transactionTax };
+}
+
+/**
+ * Estimate a fill for a euro amount.
+ *
+ * - Buys: `amount` is the total cash spent, costs included
+ * - Sells: `amount` is the value of shares sold at the bid; costs come out
+ *   of the proceeds
+ *
+ * Returns null when the trade is too small to cover its own costs.
+ */
+export function estimateFill(params: {
+  side: TradeSide;
+  amount: number;
+  midPrice: number;
+  tier: LiquidityTier;
+  broker: BrokerId;
+}): FillEstimate | null {
+  const { side, amount, midPrice, tier, broker } = params;
+  if (amount <= 0 || midPrice <= 0) return null;
+
+  const price = getExecutionPrice(side, midPrice, tier);
+
+  let grossAmount = amount;
+  if (side === "buy") {
+    // Costs depend on the gross, so iterate — rates are tiny, this settles fast
+    for (let i = 0; i < 8; i++) {
+      const costs = calculateCosts(side, grossAmount, broker);
+      grossAmount = amount - costs.commission - costs.clearingFee;
+    }
+    if (grossAmount <= 0) return null;
+  }
+
+  const { commission, clearingFee, transactionTax } = calculateCosts(side, grossAmount, broker);
+  const totalCosts = roundCents(commission + clearingFee + transactionTax);
+  if (side === "sell" && grossAmount <= totalCosts) return null;
+  const shares = grossAmount / price;
+
+  return {
+    side,
+    midPrice,
+    price,
+    shares,
+    grossAmount,
+    spreadCost: roundCents(Math.abs(price - midPrice) * shares),
+    commission,
+    clearingFee,
+    transactionTax,
+    totalCosts,
+    netAmount: side === "buy" ? amount : roundCents(grossAmount - totalCosts),
+  };
+}
+
+/**
+ * Estimate a fill for an exact share count. Buys pay costs on top of the
+ * shares' value; sells have them deducted from the proceeds.
+ *
+ * Returns null for a non-positive share count, or a sell too small to cover
+ * its own costs.
+ */
+export function estimateShareFill(params: {
+  side: TradeSide;
+  shares: number;
+  midPrice: number;
+  tier: LiquidityTier;
+  broker: BrokerId;
+}): FillEstimate | null {
+  const { side, shares, midPrice, tier, broker } = params;
+  if (shares <= 0 || midPrice <= 0) return null;
+
+  const price = getExecutionPrice(side, midPrice, tier);
+  const grossAmount = roundCents(shares * price);
+  const { commission, clearingFee, transactionTax } = calculateCosts(side, grossAmount, broker);
+  const totalCosts = roundCents(commission + clearingFee + transactionTax);
+  if (side === "sell" && grossAmount <= totalCosts) return null;
+
+  return {
+    side,
+    midPrice,
+    price,
+    shares,
+    grossAmount,
+    spreadCost: roundCents(Math.abs(price - midPrice) * shares),
+    commission,
+    clearingFee,
+    transactionTax,
+    totalCosts,
+    netAmount: roundCents(side === "buy" ? grossAmount + totalCosts : grossAmount - totalCosts),
+  };
+}
+
+/**
+ * Size a euro amount down to whole shares: the most shares a buy of
+ * `amount` (costs included) can pay for, or the most shares a sell can
+ * part with without exceeding `amount` at the bid.
+ *
+ * Returns null when the amount doesn't cover a single share plus costs.
+ */
+export function estimateWholeShareFill(params: {
+  side: TradeSide;
+  amount: number;
+  midPrice: number;
+  tier: LiquidityTier;
+  broker: BrokerId;
+}): WholeShareFill | null {
+  const fractional = estimateFill(params);
+  if (!fractional) return null;
+
+  // Commission minimums can push the rounded-down count just over budget
+  for (let shares = Math.floor(fractional.shares + 1e-9); shares > 0; shares--) {
+    const fill = estimateShareFill({ ...params, shares });
+    if (!fill) return null;
+    const used = params.side === "buy" ? fill.netAmount : fill.grossAmount;
+    if (used <= params.amount + 1e-9) {
+      return { fill, leftover: roundCents(params.amount - used) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Size a trade request — a euro amount or an exact share count — for an
+ * account's broker and share mode. Used for both server and local fills.
+ *
+ * In whole-share mode share counts must be integers (except a sell that
+ * closes out a fractional position left from learning mode), and amounts are
+ * sized down to whole shares with the remainder reported as `leftover`.
+ */
+export function sizeTrade(params: {
+  side: TradeSide;
+  amount?: number;
+  shares?: number;
+  midPrice: number;
+  tier: LiquidityTier;
+  broker: BrokerId;
+  shareMode: ShareMode;
+  /** Shares currently held, for closing out a fractional position */
+  ownedShares: number;
+  ticker: string;
+}): TradeSizing {
+  const { side, midPrice, tier, broker, shareMode, ownedShares, ticker } = params;
+  const minimum = BROKER_SCHEDULES[broker]?.minimum ?? 0;
+  const tooSmall: TradeSizing = {
+    success: false,
+    error: `Amount is too small to cover trading costs (minimum commission €${minimum.toFixed(2)})`,
+  };
+
+  if (params.shares !== undefined) {
+    const closesPosition = side === "sell" && Math.abs(params.shares - ownedShares) < SHARE_EPSILON;
+    if (shareMode === "whole" && !Number.isInteger(params.shares) && !closesPosition) {
+      return {
+        success: false,
+        error: "ATHEX trades whole shares only. Enter a whole number of shares.",
+      };
+    }
+    const shares = closesPosition ? ownedShares : params.shares;
+    const fill = estimateShareFill({ side, shares, midPrice, tier, broker });
+    return fill ? { success: true, fill, leftover: 0 } : tooSmall;
+  }
+
+  const amount = params.amount ?? 0;
+  const fractional = estimateFill({ side, amount, midPrice, tier, broker });
+  if (!fractional) return tooSmall;
+  if (shareMode === "fractional") return { success: true, fill: fractional, leftover: 0 };
+
+  const sized = estimateWholeShareFill({ side, amount, midPrice, tier, broker });
+  if (!sized) {
+    return {
+      success: false,
+      error: `€${amount.toFixed(2)} doesn't cover one whole share of ${ticker} plus costs`,
+    };
+  }
+  return { success: true, ...sized };
+}